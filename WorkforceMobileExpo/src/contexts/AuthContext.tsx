@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { apiService, User } from '../services/api';
+import { resumeAfterSignIn } from '../services/punchQueue';
 
 // Auth context interface
 interface AuthContextType {
@@ -69,6 +70,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         console.log('Login successful for:', email);
         setUser(response.data.user);
         await apiService.storeUser(response.data.user);
+        // Punches held back by the expired session can go out now
+        resumeAfterSignIn().catch(error => console.error('Error replaying punch queue:', error));
         setIsLoading(false);
         return true;
       }
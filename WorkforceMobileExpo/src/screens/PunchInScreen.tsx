@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,7 +12,15 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
 import { shadowStyles } from '../utils/shadows';
-import { punchIn, punchOut, getCurrentAttendance, getWorkplaces, Attendance } from '../services/attendanceApi';
+import { getCurrentAttendance, getWorkplaces } from '../services/attendanceApi';
+import {
+  submitPunch,
+  getQueuedPunches,
+  subscribeToPunchQueue,
+  startPunchQueueSync,
+  discardQueuedPunch,
+  QueuedPunch,
+} from '../services/punchQueue';
 
 interface PunchRecord {
   id: string;
@@ -39,6 +47,35 @@ const PunchInScreen: React.FC = () => {
   } | null>(null);
   const [workplaces, setWorkplaces] = useState<any[]>([]);
   const [selectedWorkplace, setSelectedWorkplace] = useState<any>(null);
+  const [queuedPunches, setQueuedPunches] = useState<QueuedPunch[]>([]);
+
+  // Punches waiting for the server decide the status until they sync
+  const unsyncedPunches = queuedPunches.filter(p => p.status === 'pending' || p.status === 'syncing');
+  const lastUnsynced = unsyncedPunches[unsyncedPunches.length - 1];
+  const displayStatus: 'in' | 'out' = lastUnsynced
+    ? (lastUnsynced.type === 'punch-in' ? 'in' : 'out')
+    : currentStatus;
+
+  // Once the last queued punch reaches the server, the server's status is authoritative again
+  const hadUnsyncedPunches = useRef(false);
+  useEffect(() => {
+    if (hadUnsyncedPunches.current && unsyncedPunches.length === 0) {
+      getCurrentAttendance()
+        .then(attendance => setCurrentStatus(attendance ? 'in' : 'out'))
+        .catch(error => console.error('Error refreshing attendance after sync:', error));
+    }
+    hadUnsyncedPunches.current = unsyncedPunches.length > 0;
+  }, [unsyncedPunches.length]);
+
+  // Keep the offline punch queue visible and replay it when connectivity returns
+  useEffect(() => {
+    const unsubscribeQueue = subscribeToPunchQueue(setQueuedPunches);
+    const stopSync = startPunchQueueSync();
+    return () => {
+      unsubscribeQueue();
+      stopSync();
+    };
+  }, []);
 
   // Update current time every second
   useEffect(() => {
@@ -134,44 +171,50 @@ const PunchInScreen: React.FC = () => {
       // Take photo
       const photo = await takePhoto();
 
-      // Call real API instead of storing locally
-      if (currentStatus === 'out') {
-        // Punch in
-        console.log('Attempting to punch in with real API...');
-        const result = await punchIn({
-          workplaceId: selectedWorkplace?.id || '550e8400-e29b-41d4-a716-446655440001', // Use selected workplace or fallback
-          latitude: currentLocation.latitude,
-          longitude: currentLocation.longitude,
-          accuracy: 5,
-          notes: 'Punch in from mobile app',
-          deviceInfo: 'Mobile App',
-          photo: photo ? new File([photo], 'punchin.jpg') : undefined
-        });
-        console.log('Punch in result:', result);
+      // Record the punch locally first, then try to send it
+      const punchType = displayStatus === 'out' ? 'punch-in' : 'punch-out';
+      const { queued, result } = await submitPunch({
+        type: punchType,
+        workplaceId: selectedWorkplace?.id || '550e8400-e29b-41d4-a716-446655440001', // Use selected workplace or fallback
+        latitude: currentLocation.latitude,
+        longitude: currentLocation.longitude,
+        accuracy: 5,
+        notes: punchType === 'punch-in' ? 'Punch in from mobile app' : 'Punch out from mobile app',
+        deviceInfo: 'Mobile App',
+        photo: photo || undefined,
+      });
+      const label = punchType === 'punch-in' ? 'Clock In' : 'Clock Out';
 
+      if (result.offline) {
         Alert.alert(
-          'Success!',
-          `Clock In recorded successfully at ${new Date().toLocaleTimeString()}`,
+          'Saved Offline',
+          `${label} recorded at ${new Date().toLocaleTimeString()}. It will sync when you are back online.`,
           [{ text: 'OK' }]
         );
-      } else {
-        // Punch out
-        const result = await punchOut({
-          latitude: currentLocation.latitude,
-          longitude: currentLocation.longitude,
-          accuracy: 5,
-          notes: 'Punch out from mobile app',
-          deviceInfo: 'Mobile App',
-          photo: photo ? new File([photo], 'punchout.jpg') : undefined
-        });
+        return;
+      }
 
+      if (result.authRequired) {
         Alert.alert(
-          'Success!',
-          `Clock Out recorded successfully at ${new Date().toLocaleTimeString()}`,
+          'Sign In Required',
+          `${label} saved on this device. Your session has expired, so it will be sent after you sign in again.`,
           [{ text: 'OK' }]
         );
+        return;
       }
 
+      const rejected = (await getQueuedPunches()).find(p => p.id === queued.id);
+      if (rejected) {
+        Alert.alert('Punch Not Recorded', rejected.lastError || 'The server rejected this punch.', [{ text: 'OK' }]);
+        return;
+      }
+
+      Alert.alert(
+        'Success!',
+        `${label} recorded successfully at ${new Date().toLocaleTimeString()}`,
+        [{ text: 'OK' }]
+      );
+
       // Refresh current attendance status
       const currentAttendance = await getCurrentAttendance();
       if (currentAttendance) {
@@ -216,7 +259,7 @@ const PunchInScreen: React.FC = () => {
       <View style={styles.clockContainer}>
         <Text style={styles.timeText}>{formatTime(currentTime)}</Text>
         <Text style={styles.statusText}>
-          Status: {currentStatus === 'in' ? 'Clocked In' : 'Clocked Out'}
+          Status: {displayStatus === 'in' ? 'Clocked In' : 'Clocked Out'}
         </Text>
       </View>
 
@@ -224,7 +267,7 @@ const PunchInScreen: React.FC = () => {
         <TouchableOpacity
           style={[
             styles.punchButton,
-            currentStatus === 'in' ? styles.clockOutButton : styles.clockInButton,
+            displayStatus === 'in' ? styles.clockOutButton : styles.clockInButton,
             isLoading && styles.punchButtonDisabled
           ]}
           onPress={handlePunch}
@@ -235,12 +278,12 @@ const PunchInScreen: React.FC = () => {
           ) : (
             <>
               <Ionicons 
-                name={currentStatus === 'in' ? 'log-out' : 'log-in'} 
+                name={displayStatus === 'in' ? 'log-out' : 'log-in'} 
                 size={32} 
                 color="#fff" 
               />
               <Text style={styles.punchButtonText}>
-                {currentStatus === 'in' ? 'Clock Out' : 'Clock In'}
+                {displayStatus === 'in' ? 'Clock Out' : 'Clock In'}
               </Text>
             </>
           )}
@@ -271,6 +314,45 @@ const PunchInScreen: React.FC = () => {
         </View>
       </View>
 
+      {queuedPunches.length > 0 && (
+        <View style={styles.recordsContainer}>
+          <Text style={styles.recordsTitle}>Waiting to Sync</Text>
+          {queuedPunches.map(punch => (
+            <View key={punch.id} style={styles.recordItem}>
+              <View style={styles.recordIcon}>
+                <Ionicons
+                  name={punch.type === 'punch-in' ? 'log-in' : 'log-out'}
+                  size={20}
+                  color={punch.type === 'punch-in' ? '#4CAF50' : '#F44336'}
+                />
+              </View>
+              <View style={styles.recordDetails}>
+                <Text style={styles.recordType}>
+                  {punch.type === 'punch-in' ? 'Clock In' : 'Clock Out'}
+                </Text>
+                <Text style={styles.recordTime}>
+                  {new Date(punch.deviceTimestamp).toLocaleTimeString()}
+                </Text>
+                {punch.lastError && (punch.status !== 'pending' || punch.authRequired) && (
+                  <Text style={styles.recordLocation}>{punch.lastError}</Text>
+                )}
+              </View>
+              {punch.status === 'failed' || punch.status === 'conflict' ? (
+                <TouchableOpacity onPress={() => discardQueuedPunch(punch.id)}>
+                  <Text style={[styles.syncBadge, styles.syncBadgeError]}>
+                    {punch.status === 'conflict' ? 'Conflict' : 'Sync failed'} ✕
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={styles.syncBadge}>
+                  {punch.status === 'syncing' ? 'Syncing...' : punch.authRequired ? 'Sign in to sync' : 'Pending sync'}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
       <View style={styles.recordsContainer}>
         <Text style={styles.recordsTitle}>Today's Records</Text>
         {todayRecords.length === 0 ? (
@@ -457,6 +539,20 @@ const styles = StyleSheet.create({
     color: '#999',
     marginTop: 2,
   },
+  syncBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF9500',
+    backgroundColor: '#FFF4E5',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  syncBadgeError: {
+    color: '#F44336',
+    backgroundColor: '#FDECEA',
+  },
 });
 
 export default PunchInScreen; 
\ No newline at end of file
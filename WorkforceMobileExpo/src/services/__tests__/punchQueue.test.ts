@@ -0,0 +1,218 @@
+/**
+ * Offline Punch Queue Unit Tests
+ *
+ * Tests for the punch queue including:
+ * - Replay order and conflict handling
+ * - Back-off after transient failures
+ * - Permanent rejections versus an expired session
+ * - Punches queued while a replay is running
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  discardQueuedPunch,
+  enqueuePunch,
+  getQueuedPunches,
+  getRetryDelay,
+  NewPunch,
+  replayPunchQueue,
+  resumeAfterSignIn,
+  submitPunch,
+} from '../punchQueue';
+import { Attendance, AttendanceApiError, getCurrentAttendance, punchIn, punchOut } from '../attendanceApi';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'));
+jest.mock('../attendanceApi', () => ({
+  ...jest.requireActual('../attendanceApi'),
+  punchIn: jest.fn(),
+  punchOut: jest.fn(),
+  getCurrentAttendance: jest.fn(),
+}));
+jest.mock('../../config/api', () => ({ getApiUrl: () => 'http://localhost/api/attendance' }));
+
+const mockPunchIn = punchIn as jest.MockedFunction<typeof punchIn>;
+const mockPunchOut = punchOut as jest.MockedFunction<typeof punchOut>;
+const mockCurrent = getCurrentAttendance as jest.MockedFunction<typeof getCurrentAttendance>;
+
+const newPunch = (type: NewPunch['type'], notes: string = type): NewPunch => ({
+  type,
+  workplaceId: 'w1',
+  latitude: 40.7,
+  longitude: -74,
+  accuracy: 5,
+  notes,
+});
+
+const attendance = (punchInTime: string, punchOutTime: string | null = null): Attendance => ({
+  id: 'a1',
+  punchInTime,
+  punchOutTime,
+  workplace: { id: 'w1', name: 'Store 1', address: 'Main St' },
+  location: { latitude: 40.7, longitude: -74, accuracy: 5, isWithinRadius: true },
+  photoUrl: null,
+  status: punchOutTime ? 'completed' : 'active',
+});
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('Offline Punch Queue', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-06-02T08:00:00Z'));
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    mockCurrent.mockResolvedValue(null);
+    mockPunchIn.mockImplementation(async () => attendance(new Date().toISOString()));
+    mockPunchOut.mockImplementation(async () => attendance('2025-06-02T08:00:00Z', new Date().toISOString()));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('replays punches in the order they were recorded', async () => {
+    await enqueuePunch(newPunch('punch-in'));
+    jest.setSystemTime(new Date('2025-06-02T12:00:00Z'));
+    await enqueuePunch(newPunch('punch-out'));
+
+    const sent: string[] = [];
+    mockPunchIn.mockImplementation(async request => {
+      sent.push(`in@${request.timestamp}`);
+      return attendance(request.timestamp || '');
+    });
+    mockPunchOut.mockImplementation(async request => {
+      sent.push(`out@${request.timestamp}`);
+      return attendance('2025-06-02T08:00:00Z', request.timestamp);
+    });
+
+    const result = await replayPunchQueue();
+
+    expect(sent).toEqual(['in@2025-06-02T08:00:00.000Z', 'out@2025-06-02T12:00:00.000Z']);
+    expect(result).toEqual({ synced: 2, remaining: 0, offline: false, authRequired: false, retryAt: undefined });
+    expect(await getQueuedPunches()).toEqual([]);
+  });
+
+  it('drops a punch-in the server already has and flags a punch-out with nothing to close', async () => {
+    await enqueuePunch(newPunch('punch-in'));
+    mockCurrent.mockResolvedValue(attendance('2025-06-02T08:01:00Z'));
+
+    expect(await replayPunchQueue()).toMatchObject({ synced: 1, remaining: 0 });
+    expect(mockPunchIn).not.toHaveBeenCalled();
+
+    await enqueuePunch(newPunch('punch-out'));
+    mockCurrent.mockResolvedValue(null);
+    await replayPunchQueue();
+
+    expect(mockPunchOut).not.toHaveBeenCalled();
+    expect(await getQueuedPunches()).toEqual([
+      expect.objectContaining({ type: 'punch-out', status: 'conflict', lastError: 'No open attendance to clock out from' }),
+    ]);
+  });
+
+  it('backs off after a transient failure and keeps later punches behind it', async () => {
+    expect([1, 2, 3, 10].map(getRetryDelay)).toEqual([5000, 10000, 20000, 300000]);
+
+    await enqueuePunch(newPunch('punch-in'));
+    await enqueuePunch(newPunch('punch-out'));
+    mockPunchIn.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+    const failed = await replayPunchQueue();
+    expect(failed).toEqual({
+      synced: 0,
+      remaining: 2,
+      offline: true,
+      authRequired: false,
+      retryAt: '2025-06-02T08:00:05.000Z',
+    });
+    expect(mockPunchOut).not.toHaveBeenCalled();
+    expect((await getQueuedPunches())[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Network request failed',
+      nextAttemptAt: '2025-06-02T08:00:05.000Z',
+    });
+
+    // Still backing off: nothing is sent
+    expect(await replayPunchQueue()).toMatchObject({ synced: 0, offline: true });
+    expect(mockPunchIn).toHaveBeenCalledTimes(1);
+
+    // The scheduled retry sends both in order
+    jest.advanceTimersByTime(5000);
+    expect(await replayPunchQueue()).toMatchObject({ synced: 2, remaining: 0 });
+    expect(mockPunchIn).toHaveBeenCalledTimes(2);
+    expect(mockPunchOut).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks a rejected punch as failed and moves on to the next one', async () => {
+    await enqueuePunch(newPunch('punch-in', 'first'));
+    await enqueuePunch(newPunch('punch-in', 'second'));
+    mockPunchIn.mockRejectedValueOnce(new AttendanceApiError('Outside workplace radius', 422));
+
+    const result = await replayPunchQueue();
+
+    expect(result).toMatchObject({ synced: 1, remaining: 1, offline: false, authRequired: false });
+    expect(await getQueuedPunches()).toEqual([
+      expect.objectContaining({ notes: 'first', status: 'failed', lastError: 'Outside workplace radius' }),
+    ]);
+  });
+
+  it('keeps punches queued after a 401 until the user signs in again', async () => {
+    await enqueuePunch(newPunch('punch-in'));
+    mockPunchIn.mockRejectedValueOnce(new AttendanceApiError('Token expired', 401));
+
+    const expired = await replayPunchQueue();
+    expect(expired).toEqual({ synced: 0, remaining: 1, offline: false, authRequired: true });
+    expect((await getQueuedPunches())[0]).toMatchObject({ status: 'pending', attempts: 0, authRequired: true });
+
+    // A session that is already gone fails the attendance check too
+    mockCurrent.mockRejectedValueOnce(new AttendanceApiError('Token expired', 401));
+    expect(await replayPunchQueue()).toMatchObject({ synced: 0, remaining: 1, authRequired: true });
+
+    expect(await resumeAfterSignIn()).toMatchObject({ synced: 1, remaining: 0, authRequired: false });
+    expect(await getQueuedPunches()).toEqual([]);
+  });
+
+  it('picks up punches queued while a replay is running', async () => {
+    await enqueuePunch(newPunch('punch-in'));
+    const inFlight = deferred<Attendance>();
+    mockPunchIn.mockReturnValueOnce(inFlight.promise);
+
+    const replay = replayPunchQueue();
+    const submitted = submitPunch(newPunch('punch-out'));
+    await Promise.all([enqueuePunch(newPunch('punch-in', 'later')), enqueuePunch(newPunch('punch-out', 'latest'))]);
+
+    inFlight.resolve(attendance('2025-06-02T08:00:00Z'));
+    await replay;
+    const { result } = await submitted;
+
+    expect(mockPunchIn.mock.calls.map(([request]) => request.notes)).toEqual(['punch-in', 'later']);
+    expect(mockPunchOut.mock.calls.map(([request]) => request.notes)).toEqual(['punch-out', 'latest']);
+    expect(result).toMatchObject({ remaining: 0, offline: false });
+    expect(await getQueuedPunches()).toEqual([]);
+  });
+
+  it('never sends a punch that was discarded before its turn', async () => {
+    const first = await enqueuePunch(newPunch('punch-in'));
+    const second = await enqueuePunch(newPunch('punch-in', 'discarded'));
+    const inFlight = deferred<Attendance>();
+    mockPunchIn.mockReturnValueOnce(inFlight.promise);
+
+    const replay = replayPunchQueue();
+    await discardQueuedPunch(second.id);
+    inFlight.resolve(attendance(first.deviceTimestamp));
+
+    expect(await replay).toMatchObject({ synced: 1, remaining: 0 });
+    expect(mockPunchIn).toHaveBeenCalledTimes(1);
+  });
+});
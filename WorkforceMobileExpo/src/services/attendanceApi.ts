@@ -54,6 +54,20 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+/**
+ * Error returned by the attendance API with an HTTP status.
+ * Network failures surface as plain errors from fetch instead.
+ */
+export class AttendanceApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AttendanceApiError';
+    this.status = status;
+  }
+}
+
 // Helper function to get auth headers
 const getAuthHeaders = (): Record<string, string> => {
   const token = AsyncStorage.getItem('authToken');
@@ -67,7 +81,7 @@ const getAuthHeaders = (): Record<string, string> => {
 const handleApiResponse = async <T>(response: Response): Promise<ApiResponse<T>> => {
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    throw new AttendanceApiError(errorData.error || `HTTP ${response.status}: ${response.statusText}`, response.status);
   }
   return response.json();
 };
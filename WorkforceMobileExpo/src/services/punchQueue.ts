@@ -0,0 +1,385 @@
+/**
+ * Offline Punch Queue - Workforce Management Platform
+ *
+ * Every punch is written to a durable local queue before it is sent, so a
+ * merchandiser without signal (basement stores, rural areas) never loses a
+ * clock-in or clock-out. The queue is replayed in order when connectivity
+ * returns, using the device timestamp recorded at the moment of the punch.
+ *
+ * Conflicts with the server's current attendance are resolved as follows:
+ * - A punch-in while the server already has an open attendance is dropped
+ *   when it matches that attendance (the request reached the server but the
+ *   response was lost), otherwise it is marked as a conflict.
+ * - A punch-out while the server has no open attendance is marked as a
+ *   conflict, since there is nothing to close.
+ *
+ * Transient failures (network, 5xx, 429) keep the punch pending and back off
+ * before the next attempt. An expired session (401) keeps the punch pending
+ * until the user signs in again. Other rejections mark the punch as failed.
+ * Every change to the stored queue runs through one lock, so a replay and a
+ * new punch or a discard never overwrite each other.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  punchIn,
+  punchOut,
+  getCurrentAttendance,
+  Attendance,
+  AttendanceApiError,
+} from './attendanceApi';
+
+// ===== TYPES =====
+
+export type QueuedPunchType = 'punch-in' | 'punch-out';
+
+export type QueuedPunchStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export interface QueuedPunch {
+  id: string;
+  type: QueuedPunchType;
+  deviceTimestamp: string;
+  workplaceId?: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  notes?: string;
+  deviceInfo?: string;
+  photo?: string;
+  status: QueuedPunchStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  authRequired?: boolean;
+}
+
+export type NewPunch = Omit<
+  QueuedPunch,
+  'id' | 'deviceTimestamp' | 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'authRequired'
+>;
+
+export interface ReplayResult {
+  synced: number;
+  remaining: number;
+  offline: boolean;
+  authRequired: boolean;
+  retryAt?: string;
+}
+
+type QueueListener = (queue: QueuedPunch[]) => void;
+
+// ===== CONFIGURATION =====
+
+const STORAGE_KEY = 'punchQueue';
+
+// A server punch-in this close to a queued one is treated as the same punch
+const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+
+// Back-off after transient failures: 5s, 10s, 20s ... capped at 5 minutes
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// ===== STORAGE =====
+
+const listeners = new Set<QueueListener>();
+let replayInProgress: Promise<ReplayResult> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const readQueue = async (): Promise<QueuedPunch[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading punch queue:', error);
+    return [];
+  }
+};
+
+const writeQueue = async (queue: QueuedPunch[]): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  listeners.forEach(listener => listener(queue));
+};
+
+/**
+ * Read, change and write the queue under the queue lock. Changes run one at a
+ * time in call order; `change` returns the new queue and a result for the caller.
+ */
+const mutateQueue = <T>(change: (queue: QueuedPunch[]) => { queue: QueuedPunch[]; result: T }): Promise<T> => {
+  const run = queueLock.then(async () => {
+    const { queue, result } = change(await readQueue());
+    await writeQueue(queue);
+    return result;
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+const updatePunch = (id: string, changes: Partial<QueuedPunch>): Promise<void> =>
+  mutateQueue(queue => ({
+    queue: queue.map(punch => (punch.id === id ? { ...punch, ...changes } : punch)),
+    result: undefined,
+  }));
+
+const removePunch = (id: string): Promise<void> =>
+  mutateQueue(queue => ({ queue: queue.filter(punch => punch.id !== id), result: undefined }));
+
+const generateId = () => `punch_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+// ===== PUBLIC QUEUE API =====
+
+/**
+ * Get all punches that have not reached the server yet, oldest first
+ */
+export const getQueuedPunches = (): Promise<QueuedPunch[]> => readQueue();
+
+/**
+ * Listen for queue changes. Returns an unsubscribe function.
+ */
+export const subscribeToPunchQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  readQueue().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Record a punch locally with the current device time
+ */
+export const enqueuePunch = async (punch: NewPunch): Promise<QueuedPunch> => {
+  const queued: QueuedPunch = {
+    ...punch,
+    id: generateId(),
+    deviceTimestamp: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+  };
+  await mutateQueue(queue => ({ queue: [...queue, queued], result: undefined }));
+  return queued;
+};
+
+/**
+ * Remove a failed or conflicting punch after the user has seen it
+ */
+export const discardQueuedPunch = (id: string): Promise<void> => removePunch(id);
+
+// ===== REPLAY =====
+
+const isAuthError = (error: unknown) => error instanceof AttendanceApiError && error.status === 401;
+
+const isRetryable = (error: unknown) =>
+  !(error instanceof AttendanceApiError) || error.status >= 500 || error.status === 429;
+
+/**
+ * Delay before the next attempt after `attempts` transient failures
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+
+const sendPunch = (punch: QueuedPunch): Promise<Attendance> => {
+  const photo = punch.photo
+    ? new File([punch.photo], punch.type === 'punch-in' ? 'punchin.jpg' : 'punchout.jpg')
+    : undefined;
+  const common = {
+    latitude: punch.latitude,
+    longitude: punch.longitude,
+    accuracy: punch.accuracy,
+    timestamp: punch.deviceTimestamp,
+    notes: punch.notes,
+    deviceInfo: punch.deviceInfo,
+    photo,
+  };
+
+  if (punch.type === 'punch-in') {
+    return punchIn({ ...common, workplaceId: punch.workplaceId || '' });
+  }
+  return punchOut(common);
+};
+
+/**
+ * Decide what to do with a queued punch given the server's open attendance.
+ * Returns null when the punch should be sent.
+ */
+const resolveConflict = (
+  punch: QueuedPunch,
+  serverAttendance: Attendance | null
+): { action: 'drop' } | { action: 'conflict'; reason: string } | null => {
+  if (punch.type === 'punch-in' && serverAttendance) {
+    const gap = Math.abs(
+      new Date(serverAttendance.punchInTime).getTime() - new Date(punch.deviceTimestamp).getTime()
+    );
+    if (gap <= DUPLICATE_WINDOW_MS) {
+      return { action: 'drop' };
+    }
+    return {
+      action: 'conflict',
+      reason: `Already clocked in since ${new Date(serverAttendance.punchInTime).toLocaleTimeString()}`,
+    };
+  }
+  if (punch.type === 'punch-out' && !serverAttendance) {
+    return { action: 'conflict', reason: 'No open attendance to clock out from' };
+  }
+  return null;
+};
+
+/**
+ * Take the oldest pending punch for sending, unless it is still backing off.
+ * Claiming happens under the queue lock, so a punch discarded meanwhile is
+ * never sent and punches queued during the replay are picked up in order.
+ */
+const claimNextPunch = (now: number) =>
+  mutateQueue<{ punch?: QueuedPunch; retryAt?: string }>(queue => {
+    const next = queue.find(punch => punch.status === 'pending');
+    if (!next) return { queue, result: {} };
+    if (next.nextAttemptAt && new Date(next.nextAttemptAt).getTime() > now) {
+      return { queue, result: { retryAt: next.nextAttemptAt } };
+    }
+    const claimed: QueuedPunch = { ...next, status: 'syncing', attempts: next.attempts + 1 };
+    return { queue: queue.map(punch => (punch.id === next.id ? claimed : punch)), result: { punch: claimed } };
+  });
+
+const remainingCount = async () => (await readQueue()).length;
+
+const runReplay = async (): Promise<ReplayResult> => {
+  let synced = 0;
+  let serverAttendance: Attendance | null;
+
+  // Only one replay runs at a time, so anything still syncing was interrupted
+  await mutateQueue(queue => ({
+    queue: queue.map(punch => (punch.status === 'syncing' ? { ...punch, status: 'pending' as const } : punch)),
+    result: undefined,
+  }));
+
+  try {
+    serverAttendance = await getCurrentAttendance();
+  } catch (error) {
+    const authRequired = isAuthError(error);
+    return { synced, remaining: await remainingCount(), offline: !authRequired, authRequired };
+  }
+
+  for (;;) {
+    const { punch, retryAt } = await claimNextPunch(Date.now());
+    if (!punch) {
+      return { synced, remaining: await remainingCount(), offline: Boolean(retryAt), authRequired: false, retryAt };
+    }
+
+    const resolution = resolveConflict(punch, serverAttendance);
+    if (resolution?.action === 'drop') {
+      await removePunch(punch.id);
+      synced++;
+      continue;
+    }
+    if (resolution?.action === 'conflict') {
+      await updatePunch(punch.id, { status: 'conflict', lastError: resolution.reason });
+      continue;
+    }
+
+    try {
+      const attendance = await sendPunch(punch);
+      serverAttendance = punch.type === 'punch-in' ? attendance : null;
+      await removePunch(punch.id);
+      synced++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isAuthError(error)) {
+        // The punch is fine, the session is not: keep it for after the next sign-in
+        await updatePunch(punch.id, {
+          status: 'pending',
+          attempts: punch.attempts - 1,
+          lastError: 'Sign in again to send this punch',
+          authRequired: true,
+        });
+        return { synced, remaining: await remainingCount(), offline: false, authRequired: true };
+      }
+      if (isRetryable(error)) {
+        // Keep order: later punches depend on this one, so stop and retry after a back-off
+        const nextAttemptAt = new Date(Date.now() + getRetryDelay(punch.attempts)).toISOString();
+        await updatePunch(punch.id, { status: 'pending', lastError: message, nextAttemptAt });
+        return { synced, remaining: await remainingCount(), offline: true, authRequired: false, retryAt: nextAttemptAt };
+      }
+      await updatePunch(punch.id, { status: 'failed', lastError: message });
+    }
+  }
+};
+
+const scheduleRetry = (retryAt?: string) => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (!retryAt) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replayPunchQueue().catch(error => console.error('Error replaying punch queue:', error));
+  }, Math.max(new Date(retryAt).getTime() - Date.now(), 0));
+};
+
+/**
+ * Send queued punches to the server in the order they were recorded.
+ * Concurrent calls share the same replay.
+ */
+export const replayPunchQueue = (): Promise<ReplayResult> => {
+  if (!replayInProgress) {
+    replayInProgress = runReplay()
+      .then(result => {
+        scheduleRetry(result.retryAt);
+        return result;
+      })
+      .finally(() => {
+        replayInProgress = null;
+      });
+  }
+  return replayInProgress;
+};
+
+/**
+ * Make pending punches due now and replay the queue
+ */
+const replayNow = async (): Promise<ReplayResult> => {
+  await mutateQueue(queue => ({
+    queue: queue.map(punch =>
+      punch.status === 'pending' ? { ...punch, nextAttemptAt: undefined, authRequired: undefined } : punch
+    ),
+    result: undefined,
+  }));
+  return replayPunchQueue();
+};
+
+/**
+ * Send punches held back by an expired session; call after a successful sign-in
+ */
+export const resumeAfterSignIn = (): Promise<ReplayResult> => replayNow();
+
+/**
+ * Queue a punch and try to send it straight away
+ */
+export const submitPunch = async (punch: NewPunch): Promise<{ queued: QueuedPunch; result: ReplayResult }> => {
+  const queued = await enqueuePunch(punch);
+  // A running replay may already have found the queue empty
+  if (replayInProgress) {
+    await replayInProgress;
+  }
+  const result = await replayPunchQueue();
+  return { queued, result };
+};
+
+/**
+ * Replay the queue whenever the device comes online, including the first
+ * connectivity report after start-up. Returns an unsubscribe function.
+ */
+export const startPunchQueueSync = (): (() => void) => {
+  let wasConnected = false;
+  return NetInfo.addEventListener(state => {
+    const isConnected = Boolean(state.isConnected) && state.isInternetReachable !== false;
+    if (isConnected && !wasConnected) {
+      // Back-off covers a failing server, not a connection that just came back
+      replayNow().catch(error => console.error('Error replaying punch queue:', error));
+    }
+    wasConnected = isConnected;
+  });
+};
@@ -8,4 +8,15 @@ CREATE TABLE IF NOT EXISTS members (
     status VARCHAR(50) DEFAULT 'active',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-); 
\ No newline at end of file
+); 
+
+-- HR fields kept by member imports; databases created before they existed
+-- get the columns when the server starts
+ALTER TABLE members ADD COLUMN IF NOT EXISTS employee_id VARCHAR(100) UNIQUE;
+ALTER TABLE members ADD COLUMN IF NOT EXISTS phone VARCHAR(50);
+ALTER TABLE members ADD COLUMN IF NOT EXISTS position VARCHAR(100);
+ALTER TABLE members ADD COLUMN IF NOT EXISTS hire_date DATE;
+ALTER TABLE members ADD COLUMN IF NOT EXISTS manager_id TEXT;
+ALTER TABLE members ADD COLUMN IF NOT EXISTS workplace_id TEXT;
+ALTER TABLE members ADD COLUMN IF NOT EXISTS group_ids TEXT[] DEFAULT '{}';
+ALTER TABLE members ADD COLUMN IF NOT EXISTS emergency_contact JSONB;
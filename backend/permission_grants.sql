@@ -0,0 +1,17 @@
+-- Explicit permission grants made by admins (see src/services/authorization.ts)
+CREATE TABLE IF NOT EXISTS permission_grants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    member_id TEXT NOT NULL,
+    effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')),
+    actions TEXT[] NOT NULL,
+    resources TEXT[] NOT NULL,
+    scope TEXT NOT NULL CHECK (scope IN ('group-subtree', 'workplace', 'all')),
+    group_id TEXT,
+    workplace_ids TEXT[] DEFAULT '{}',
+    granted_by TEXT NOT NULL,
+    granted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_permission_grants_member ON permission_grants(member_id);
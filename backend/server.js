@@ -48,6 +48,8 @@ console.log('DATABASE_URL:', process.env.DATABASE_URL); // Debug log
 const swaggerUi = require('swagger-ui-express');
 const swaggerDocument = require('./swagger.json');
 const { Pool } = require('pg');
+const fs = require('fs');
+const path = require('path');
 
 // Initialize database pool only if DATABASE_URL is provided
 let pool = null;
@@ -834,7 +836,8 @@ app.delete('/api/todos/:id', authenticateToken, async (req, res) => {
 
 /**
  * Get advanced todos for authenticated user
- * Returns advanced todos assigned to the current user with questions
+ * Returns advanced todos assigned to the current user with questions,
+ * leaving out the ones they have already submitted
  * 
  * Headers:
  * - Authorization: Bearer <jwt_token> (required)
@@ -847,8 +850,11 @@ app.delete('/api/todos/:id', authenticateToken, async (req, res) => {
 app.get('/api/advanced-todos', authenticateToken, (req, res) => {
   try {
     // Filter advanced todos to show todos assigned to current user
+    const submittedIds = new Set(todoSubmissions
+      .filter(sub => sub.userId === req.user.id && sub.status !== 'draft')
+      .map(sub => sub.todoId));
     const userAdvancedTodos = advancedTodos.filter(todo => 
-      todo.assignedTo.includes(req.user.id)
+      todo.assignedTo.includes(req.user.id) && !submittedIds.has(todo.id)
     );
     res.json({ advancedTodos: userAdvancedTodos });
   } catch (error) {
@@ -875,6 +881,8 @@ app.get('/api/advanced-todos', authenticateToken, (req, res) => {
  * - dueDate: Due date (optional)
  * - requireApproval: Whether approval is required (optional)
  * - isTemplate: Whether this is a template (optional)
+ * - templateId: Template the questions were taken from (optional)
+ * - assignedWorkplaces: Workplace codes the visit is for (optional)
  * 
  * Response:
  * - 201: Advanced todo created successfully
@@ -901,6 +909,8 @@ app.post('/api/advanced-todos', authenticateToken, (req, res) => {
       dueDate,
       requireApproval = false,
       isTemplate = false,
+      templateId,
+      assignedWorkplaces = [],
       tags = []
     } = req.body;
 
@@ -938,6 +948,7 @@ app.post('/api/advanced-todos', authenticateToken, (req, res) => {
         updatedAt: new Date().toISOString()
       })),
       assignedTo,
+      assignedWorkplaces,
       assignedBy: req.user.id,
       assignedAt: new Date().toISOString(),
       category: category || 'General',
@@ -946,6 +957,7 @@ app.post('/api/advanced-todos', authenticateToken, (req, res) => {
       dueDate: dueDate || null,
       requireApproval,
       isTemplate,
+      templateId: templateId || null,
       tags,
       status: 'pending',
       createdAt: new Date().toISOString(),
@@ -962,6 +974,8 @@ app.post('/api/advanced-todos', authenticateToken, (req, res) => {
 
     // Add to storage
     advancedTodos.push(newAdvancedTodo);
+    const template = templateId && todoTemplates.find(t => t.id === templateId);
+    if (template) template.usageCount += 1;
     res.status(201).json({ 
       message: 'Advanced todo created successfully',
       advancedTodo: newAdvancedTodo 
@@ -1572,13 +1586,50 @@ app.post('/api/auth/reset-password', async (req, res) => {
 
 // ===== ADMIN ROUTES =====
 
+// Account and HR fields returned for members, in the web app's field names
+const MEMBER_COLUMNS = `id, email, name, role, department, status, created_at,
+  employee_id AS "employeeId", phone, position, TO_CHAR(hire_date, 'YYYY-MM-DD') AS "hireDate",
+  manager_id AS "managerId", workplace_id AS "workplaceId", group_ids AS "groups",
+  emergency_contact AS "emergencyContact"`;
+
+// Member fields admins may set, with their columns
+const MEMBER_FIELDS = {
+  email: 'email',
+  name: 'name',
+  role: 'role',
+  department: 'department',
+  status: 'status',
+  employeeId: 'employee_id',
+  phone: 'phone',
+  position: 'position',
+  hireDate: 'hire_date',
+  managerId: 'manager_id',
+  workplaceId: 'workplace_id',
+  groups: 'group_ids',
+  emergencyContact: 'emergency_contact'
+};
+
+/**
+ * Columns and values for the member fields present in a request body;
+ * empty text is stored as NULL so blank dates and IDs stay valid
+ */
+const memberFieldValues = (body) => Object.keys(MEMBER_FIELDS)
+  .filter(field => body[field] !== undefined)
+  .map(field => ({
+    column: MEMBER_FIELDS[field],
+    value: field === 'email' ? String(body.email).toLowerCase() : body[field] === '' ? null : body[field]
+  }));
+
+// PostgreSQL unique_violation: email or employee ID already taken
+const isUniqueViolation = (error) => error && error.code === '23505';
+
 /**
  * Get all users (admin only)
  * Returns a list of all users (excluding passwords)
  */
 app.get('/api/admin/users', async (req, res) => {
   try {
-    const result = await pool.query('SELECT id, email, name, role, department, status, created_at FROM members');
+    const result = await pool.query(`SELECT ${MEMBER_COLUMNS} FROM members`);
     res.json({ users: result.rows });
   } catch (error) {
     console.error('Get all users error:', error);
@@ -1592,7 +1643,7 @@ app.get('/api/admin/users', async (req, res) => {
 app.get('/api/admin/users/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const result = await pool.query('SELECT id, email, name, role, department, status, created_at FROM members WHERE id = $1', [id]);
+    const result = await pool.query(`SELECT ${MEMBER_COLUMNS} FROM members WHERE id = $1`, [id]);
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'User not found' });
     }
@@ -1603,8 +1654,56 @@ app.get('/api/admin/users/:id', async (req, res) => {
   }
 });
 
+/**
+ * Create user (admin only)
+ * Used by member imports. The account gets a random password, so the
+ * member signs in after resetting it.
+ *
+ * Headers:
+ * - Authorization: Bearer <jwt_token> (required, admin role)
+ *
+ * Response:
+ * - 201: Created user
+ * - 400: Missing email or name
+ * - 401: Missing or invalid token
+ * - 403: Admin access required
+ * - 409: Email or employee ID already in use
+ * - 500: Internal server error
+ */
+app.post('/api/admin/users', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const body = req.body || {};
+    if (!body.email || !body.name) {
+      return res.status(400).json({ error: 'Email and name are required' });
+    }
+
+    const fields = [
+      { column: 'password', value: await hashPassword(uuidv4()) },
+      ...memberFieldValues({ role: 'employee', status: 'active', ...body })
+    ];
+    const result = await pool.query(
+      `INSERT INTO members (${fields.map(field => field.column).join(', ')}, created_at)
+       VALUES (${fields.map((_, index) => `$${index + 1}`).join(', ')}, NOW())
+       RETURNING ${MEMBER_COLUMNS}`,
+      fields.map(field => field.value)
+    );
+    res.status(201).json({ user: result.rows[0], message: 'User created successfully' });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: 'Email or employee ID is already in use' });
+    }
+    console.error('Create user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * Update user (admin only)
+ * Only the fields present in the body are changed
  */
 app.put('/api/admin/users/:id', authenticateToken, async (req, res) => {
   try {
@@ -1614,16 +1713,24 @@ app.put('/api/admin/users/:id', authenticateToken, async (req, res) => {
     }
 
     const { id } = req.params;
-    const { name, role, department, status } = req.body;
+    const fields = memberFieldValues(req.body || {});
+    if (!fields.length) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
     const result = await pool.query(
-      'UPDATE members SET name = $1, role = $2, department = $3, status = $4 WHERE id = $5 RETURNING id, email, name, role, department, status, created_at',
-      [name, role, department, status, id]
+      `UPDATE members SET ${fields.map((field, index) => `${field.column} = $${index + 1}`).join(', ')}, updated_at = NOW()
+       WHERE id = $${fields.length + 1}
+       RETURNING ${MEMBER_COLUMNS}`,
+      [...fields.map(field => field.value), id]
     );
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'User not found' });
     }
     res.json({ user: result.rows[0], message: 'User updated successfully' });
   } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: 'Email or employee ID is already in use' });
+    }
     console.error('Update user error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -1727,6 +1834,153 @@ app.get('/api/admin/attendance', authenticateToken, (req, res) => {
   }
 });
 
+// ===== PERMISSION GRANT ENDPOINTS =====
+
+const GRANT_EFFECTS = ['allow', 'deny'];
+const GRANT_SCOPES = ['group-subtree', 'workplace', 'all'];
+
+/**
+ * Map a permission_grants row to the grant shape used by the web app
+ */
+const toPermissionGrant = (row) => ({
+  id: row.id,
+  memberId: row.member_id,
+  effect: row.effect,
+  actions: row.actions,
+  resources: row.resources,
+  scope: row.scope,
+  groupId: row.group_id || undefined,
+  workplaceIds: row.workplace_ids && row.workplace_ids.length ? row.workplace_ids : undefined,
+  grantedBy: row.granted_by,
+  grantedAt: row.granted_at,
+  expiresAt: row.expires_at || undefined,
+  reason: row.reason || undefined
+});
+
+/**
+ * Problem with a new grant, or null when it can be stored
+ */
+const validatePermissionGrant = (grant, adminId) => {
+  if (!grant.memberId) return 'A grant needs a member';
+  if (String(grant.memberId) === String(adminId)) return 'Grants cannot be made to yourself';
+  if (!GRANT_EFFECTS.includes(grant.effect)) return 'Effect must be allow or deny';
+  if (!Array.isArray(grant.actions) || !grant.actions.length) return 'A grant needs at least one action';
+  if (!Array.isArray(grant.resources) || !grant.resources.length) return 'A grant needs at least one resource';
+  if (!GRANT_SCOPES.includes(grant.scope)) return 'Scope must be group-subtree, workplace or all';
+  if (grant.scope === 'group-subtree' && !grant.groupId) return 'A group grant needs a group';
+  if (grant.scope === 'workplace' && !(Array.isArray(grant.workplaceIds) && grant.workplaceIds.length)) {
+    return 'A workplace grant needs at least one workplace';
+  }
+  if (grant.expiresAt && !(new Date(grant.expiresAt).getTime() > Date.now())) return 'A grant cannot expire before it is made';
+  return null;
+};
+
+/**
+ * Get permission grants
+ * Admins receive every grant; other users only the grants made to them,
+ * which the web app needs to evaluate their permissions
+ *
+ * Headers:
+ * - Authorization: Bearer <jwt_token> (required)
+ *
+ * Response:
+ * - 200: Array of grants
+ * - 401: Missing or invalid token
+ * - 500: Internal server error
+ */
+app.get('/api/permission-grants', authenticateToken, async (req, res) => {
+  try {
+    const result = req.user.role === 'admin'
+      ? await pool.query('SELECT * FROM permission_grants ORDER BY granted_at')
+      : await pool.query('SELECT * FROM permission_grants WHERE member_id = $1 ORDER BY granted_at', [String(req.user.id)]);
+    res.json({ grants: result.rows.map(toPermissionGrant) });
+  } catch (error) {
+    console.error('Get permission grants error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create permission grant (admin only)
+ * The granting admin and timestamp come from the session, not the body,
+ * and admins cannot grant permissions to themselves
+ *
+ * Headers:
+ * - Authorization: Bearer <jwt_token> (required, admin role)
+ *
+ * Response:
+ * - 201: Created grant
+ * - 400: Invalid grant
+ * - 401: Missing or invalid token
+ * - 403: Admin access required
+ * - 500: Internal server error
+ */
+app.post('/api/permission-grants', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const grant = req.body || {};
+    const problem = validatePermissionGrant(grant, req.user.id);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO permission_grants (member_id, effect, actions, resources, scope, group_id, workplace_ids, granted_by, expires_at, reason)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        String(grant.memberId),
+        grant.effect,
+        grant.actions,
+        grant.resources,
+        grant.scope,
+        grant.scope === 'group-subtree' ? grant.groupId : null,
+        grant.scope === 'workplace' ? grant.workplaceIds : [],
+        String(req.user.id),
+        grant.expiresAt || null,
+        grant.reason || null
+      ]
+    );
+    res.status(201).json({ message: 'Grant created successfully', grant: toPermissionGrant(result.rows[0]) });
+  } catch (error) {
+    console.error('Create permission grant error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Revoke permission grant (admin only)
+ *
+ * Headers:
+ * - Authorization: Bearer <jwt_token> (required, admin role)
+ *
+ * Response:
+ * - 200: Grant revoked
+ * - 401: Missing or invalid token
+ * - 403: Admin access required
+ * - 404: Grant not found
+ * - 500: Internal server error
+ */
+app.delete('/api/permission-grants/:id', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const result = await pool.query('DELETE FROM permission_grants WHERE id = $1 RETURNING id', [req.params.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Grant not found' });
+    }
+    res.json({ message: 'Grant revoked successfully' });
+  } catch (error) {
+    console.error('Revoke permission grant error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ===== CHAT SYSTEM ENDPOINTS =====
 // Note: Old in-memory chat system removed. Using new database-based chat system instead.
 
@@ -2282,6 +2536,17 @@ app.use('*', (req, res) => {
 // Only start the server if not in test mode
 if (process.env.NODE_ENV !== 'test') {
   const server = require('http').createServer(app);
+
+  // Databases created before member HR fields or permission grants existed
+  // get them here; new ones also run the same files from docker-entrypoint-initdb.d
+  if (pool) {
+    pool.query(fs.readFileSync(path.join(__dirname, 'members.sql'), 'utf8')).catch(error => {
+      console.error('Failed to update members table:', error);
+    });
+    pool.query(fs.readFileSync(path.join(__dirname, 'permission_grants.sql'), 'utf8')).catch(error => {
+      console.error('Failed to create permission_grants table:', error);
+    });
+  }
   
   // Initialize WebSocket server if available
   if (initializeWebSocket) {
@@ -29,9 +29,11 @@ CREATE TABLE chat_messages (
     parent_message_id UUID REFERENCES chat_messages(id), -- For replies
     is_edited BOOLEAN DEFAULT FALSE,
     edited_at TIMESTAMP WITH TIME ZONE,
-    is_deleted BOOLEAN DEFAULT FALSE,
+    is_deleted BOOLEAN DEFAULT FALSE, -- Deleted messages stay as tombstones for incremental sync
     deleted_at TIMESTAMP WITH TIME ZONE,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    client_id VARCHAR(100), -- Client-generated ID; a retried send is stored once
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() -- Last create, edit or delete; incremental sync cursor
 );
 
 -- Chat Members Table
@@ -76,6 +78,8 @@ CREATE INDEX idx_chat_messages_channel_id ON chat_messages(channel_id);
 CREATE INDEX idx_chat_messages_sender_id ON chat_messages(sender_id);
 CREATE INDEX idx_chat_messages_created_at ON chat_messages(created_at);
 CREATE INDEX idx_chat_messages_parent ON chat_messages(parent_message_id);
+CREATE UNIQUE INDEX idx_chat_messages_channel_client ON chat_messages(channel_id, client_id) WHERE client_id IS NOT NULL;
+CREATE INDEX idx_chat_messages_channel_updated ON chat_messages(channel_id, updated_at);
 CREATE INDEX idx_chat_members_channel_id ON chat_members(channel_id);
 CREATE INDEX idx_chat_members_user_id ON chat_members(user_id);
 CREATE INDEX idx_chat_members_active ON chat_members(is_active);
@@ -92,4 +96,5 @@ CREATE TABLE IF NOT EXISTS schema_version (
 );
 
 INSERT INTO schema_version (version, description) 
-VALUES ('1.0.0', 'Initial Chat Service schema');
+VALUES ('1.0.0', 'Initial Chat Service schema'),
+       ('1.1.0', 'Client message IDs with a unique index, updated_at for incremental sync');
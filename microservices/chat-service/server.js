@@ -31,6 +31,7 @@
  * - GET /health - Service health check
  * - GET /rooms - List chat rooms
  * - POST /rooms - Create new chat room
+ * - GET /channels/unread - Unread and mention counts per channel
  * - GET /rooms/:id/messages - Get room messages
  * - POST /rooms/:id/messages - Send message to room
  * - GET /direct-messages - Get direct messages
@@ -158,21 +159,116 @@ redisClient.connect().catch(console.error);
 // ===== DATABASE INITIALIZATION =====
 
 /**
- * Initialize database tables and indexes
- * Creates all necessary tables for chat functionality if they don't exist
- * Includes proper indexing for optimal query performance
+ * Schema changes for databases created from an older schema.sql
+ * Each migration runs once, in a transaction, and is recorded in schema_version.
+ * schema.sql records the versions it already includes.
+ */
+const MIGRATIONS = [
+  {
+    version: '1.1.0',
+    description: 'Client message IDs with a unique index, updated_at for incremental sync',
+    statements: [
+      'ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS client_id VARCHAR(100)',
+      'ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE',
+      `UPDATE chat_messages
+       SET updated_at = GREATEST(created_at, COALESCE(edited_at, created_at), COALESCE(deleted_at, created_at))
+       WHERE updated_at IS NULL`,
+      'ALTER TABLE chat_messages ALTER COLUMN updated_at SET DEFAULT NOW()',
+      // Earlier retries could store a message twice; only the first copy keeps the client ID
+      `UPDATE chat_messages cm
+       SET client_id = cm.metadata->>'clientMessageId'
+       WHERE cm.client_id IS NULL
+         AND cm.metadata->>'clientMessageId' IS NOT NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM chat_messages earlier
+           WHERE earlier.channel_id = cm.channel_id
+             AND earlier.metadata->>'clientMessageId' = cm.metadata->>'clientMessageId'
+             AND (earlier.created_at, earlier.id) < (cm.created_at, cm.id)
+         )`,
+      'DROP INDEX IF EXISTS idx_chat_messages_client_id',
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_messages_channel_client
+       ON chat_messages(channel_id, client_id) WHERE client_id IS NOT NULL`,
+      'CREATE INDEX IF NOT EXISTS idx_chat_messages_channel_updated ON chat_messages(channel_id, updated_at)'
+    ]
+  }
+];
+
+/**
+ * Bring the database schema up to date
+ * Tables come from schema.sql; migrations apply what older databases lack
  */
 const initDatabase = async () => {
   try {
-    // Use the proper schema from schema.sql instead of creating our own
-    // The schema.sql file already contains the correct table definitions
-    logger.info('✅ Using existing chat database schema from schema.sql');
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        id SERIAL PRIMARY KEY,
+        version VARCHAR(50) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        description TEXT
+      )
+    `);
+
+    for (const migration of MIGRATIONS) {
+      const applied = await pool.query('SELECT 1 FROM schema_version WHERE version = $1', [migration.version]);
+      if (applied.rows.length > 0) continue;
+
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        for (const statement of migration.statements) {
+          await client.query(statement);
+        }
+        await client.query(
+          'INSERT INTO schema_version (version, description) VALUES ($1, $2)',
+          [migration.version, migration.description]
+        );
+        await client.query('COMMIT');
+        logger.info(`✅ Applied chat schema migration ${migration.version}`);
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
   } catch (error) {
     logger.error('❌ Database initialization failed:', error);
     throw error; // Re-throw to prevent service startup with broken database
   }
 };
 
+// ===== MESSAGE HELPERS =====
+
+/**
+ * Store a channel message once per client message ID
+ * Clients retry unacknowledged sends with the same clientMessageId; the unique
+ * (channel_id, client_id) index turns a retry of a stored message into a
+ * no-op, and the stored row is returned with duplicate set.
+ * Mentions (user IDs, 'channel' for @channel) are kept in metadata for the
+ * unread mention counts.
+ */
+const insertChannelMessage = async ({ channelId, senderId, content, messageType, attachments, parentMessageId, clientMessageId, mentions }) => {
+  const metadata = { attachments };
+  if (Array.isArray(mentions) && mentions.length > 0) metadata.mentions = mentions.map(String);
+
+  const result = await pool.query(`
+    INSERT INTO chat_messages (channel_id, sender_id, content, message_type, metadata, parent_message_id, client_id)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (channel_id, client_id) WHERE client_id IS NOT NULL DO NOTHING
+    RETURNING *
+  `, [channelId, senderId, content, messageType, JSON.stringify(metadata), parentMessageId, clientMessageId || null]);
+
+  if (result.rows.length > 0) {
+    return { message: result.rows[0], duplicate: false };
+  }
+
+  const existing = await pool.query(
+    'SELECT * FROM chat_messages WHERE channel_id = $1 AND client_id = $2',
+    [channelId, clientMessageId]
+  );
+  return { message: existing.rows[0], duplicate: true };
+};
+
 // ===== MIDDLEWARE CONFIGURATION =====
 
 // Security middleware
@@ -371,6 +467,37 @@ app.get('/channels', verifyToken, async (req, res) => {
   }
 });
 
+// Unread and mention counts per channel from the member's read marker
+// Registered before /channels/:id so "unread" is not taken for a channel ID
+app.get('/channels/unread', verifyToken, async (req, res) => {
+  try {
+    const userId = req.user.id || req.user.userId || req.headers['x-user-id'];
+
+    const result = await pool.query(`
+      SELECT
+        mem.channel_id,
+        mem.last_read_at,
+        COUNT(msg.id)::int AS unread,
+        (COUNT(msg.id) FILTER (
+          WHERE msg.metadata->'mentions' ? $2 OR msg.metadata->'mentions' ? 'channel'
+        ))::int AS mentions
+      FROM chat_members mem
+      LEFT JOIN chat_messages msg
+        ON msg.channel_id = mem.channel_id
+        AND msg.sender_id <> mem.user_id
+        AND msg.is_deleted = FALSE
+        AND msg.created_at > COALESCE(mem.last_read_at, mem.joined_at)
+      WHERE mem.user_id = $1 AND mem.is_active = TRUE
+      GROUP BY mem.channel_id, mem.last_read_at
+    `, [userId, String(userId)]);
+
+    res.json(result.rows);
+  } catch (error) {
+    logger.error('Error fetching unread counts:', error);
+    res.status(500).json({ error: 'Failed to fetch unread counts' });
+  }
+});
+
 app.post('/rooms', verifyToken, async (req, res) => {
   try {
     const { name, description } = req.body;
@@ -496,7 +623,22 @@ app.get('/rooms/:id/messages', verifyToken, async (req, res) => {
 app.get('/channels/:id/messages', verifyToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { limit = 50, offset = 0 } = req.query;
+    const { limit = 50, offset = 0, after } = req.query;
+
+    // Incremental sync: messages created, edited or deleted at or after the
+    // client's cursor, oldest change first. Deleted messages come back as
+    // tombstones (is_deleted set, content cleared) so caches drop them too.
+    if (after) {
+      const result = await pool.query(`
+        SELECT cm.*
+        FROM chat_messages cm
+        WHERE cm.channel_id = $1 AND cm.updated_at >= $2
+        ORDER BY cm.updated_at ASC
+        LIMIT $3
+      `, [id, after, limit]);
+
+      return res.json(result.rows);
+    }
 
     const result = await pool.query(`
       SELECT cm.*
@@ -540,16 +682,23 @@ app.post('/rooms/:id/messages', verifyToken, async (req, res) => {
 app.post('/channels/:id/messages', verifyToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { message, messageType = 'text', attachments = [] } = req.body;
+    const { message, messageType = 'text', attachments = [], parentMessageId = null, clientMessageId = null, mentions = [] } = req.body;
     const userId = req.user.id || req.user.userId || req.headers['x-user-id'];
 
-    const result = await pool.query(`
-      INSERT INTO chat_messages (channel_id, sender_id, content, message_type, metadata)
-      VALUES ($1, $2, $3, $4, $5)
-      RETURNING *
-    `, [id, userId, message, messageType, JSON.stringify({ attachments })]);
+    const { message: newMessage, duplicate } = await insertChannelMessage({
+      channelId: id,
+      senderId: userId,
+      content: message,
+      messageType,
+      attachments,
+      parentMessageId,
+      clientMessageId,
+      mentions
+    });
 
-    const newMessage = result.rows[0];
+    if (duplicate) {
+      return res.status(200).json(newMessage);
+    }
 
     // Emit to all clients in the room
     io.to(id).emit('new-message', newMessage);
@@ -704,7 +853,7 @@ app.put('/messages/:id', verifyToken, async (req, res) => {
 
     const result = await pool.query(`
       UPDATE chat_messages
-      SET content = $1, is_edited = true, edited_at = CURRENT_TIMESTAMP
+      SET content = $1, is_edited = true, edited_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
       WHERE id = $2
       RETURNING *
     `, [message, id]);
@@ -740,7 +889,7 @@ app.patch('/messages/:id', verifyToken, async (req, res) => {
 
     const result = await pool.query(`
       UPDATE chat_messages
-      SET content = $1, is_edited = true, edited_at = CURRENT_TIMESTAMP
+      SET content = $1, is_edited = true, edited_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
       WHERE id = $2
       RETURNING *
     `, [message, id]);
@@ -755,6 +904,35 @@ app.patch('/messages/:id', verifyToken, async (req, res) => {
   }
 });
 
+// Mark a message as read: moves the member's read marker up to it, never back
+app.post('/messages/:id/read', verifyToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user.id || req.user.userId || req.headers['x-user-id'];
+
+    const messageResult = await pool.query(
+      'SELECT channel_id, created_at FROM chat_messages WHERE id = $1',
+      [id]
+    );
+
+    if (messageResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    const { channel_id: channelId, created_at: createdAt } = messageResult.rows[0];
+    await pool.query(`
+      UPDATE chat_members
+      SET last_read_at = $3
+      WHERE channel_id = $1 AND user_id = $2 AND (last_read_at IS NULL OR last_read_at < $3)
+    `, [channelId, userId, createdAt]);
+
+    res.json({ success: true, channelId, lastReadAt: createdAt });
+  } catch (error) {
+    logger.error('Error marking message as read:', error);
+    res.status(500).json({ error: 'Failed to mark message as read' });
+  }
+});
+
 // 6. Delete Message
 app.delete('/messages/:id', verifyToken, async (req, res) => {
   try {
@@ -772,14 +950,19 @@ app.delete('/messages/:id', verifyToken, async (req, res) => {
     }
 
     const message = messageResult.rows[0];
-    if (message.user_id !== userId && req.user.role !== 'admin') {
+    if (message.sender_id !== userId && req.user.role !== 'admin') {
       return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
-    await pool.query('DELETE FROM chat_messages WHERE id = $1', [id]);
+    // Keep a tombstone so incremental sync tells other clients about the delete
+    await pool.query(`
+      UPDATE chat_messages
+      SET is_deleted = true, content = NULL, deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [id]);
 
-    // Notify all clients in the room
-    io.to(message.room_id).emit('message-deleted', { messageId: id, roomId: message.room_id });
+    // Notify all clients in the channel
+    io.to(message.channel_id).emit('message-deleted', { messageId: id, channelId: message.channel_id });
 
     res.json({ message: 'Message deleted successfully' });
   } catch (error) {
@@ -1215,26 +1398,39 @@ io.on('connection', (socket) => {
   });
 
   // Send a message to channel
-  socket.on('send-message', async (data) => {
+  // Acknowledged with (error) or (null, message) when the client passes a callback
+  socket.on('send-message', async (data, callback) => {
+    const fail = (message) => {
+      if (typeof callback === 'function') callback({ message });
+      else socket.emit('error', { message });
+    };
+
     try {
-      const { channelId, message, messageType = 'text', attachments = [] } = data;
+      const { channelId, message, messageType = 'text', attachments = [], parentMessageId = null, clientMessageId = null, mentions = [] } = data;
 
       if (!userId) {
-        socket.emit('error', { message: 'User not authenticated' });
+        fail('User not authenticated');
         return;
       }
 
-      const result = await pool.query(`
-        INSERT INTO chat_messages (channel_id, sender_id, content, message_type, metadata)
-        VALUES ($1, $2, $3, $4, $5)
-        RETURNING *
-      `, [channelId, userId, message, messageType, JSON.stringify({ attachments })]);
+      const { message: newMessage, duplicate } = await insertChannelMessage({
+        channelId,
+        senderId: userId,
+        content: message,
+        messageType,
+        attachments,
+        parentMessageId,
+        clientMessageId,
+        mentions
+      });
 
-      const newMessage = result.rows[0];
-      io.to(channelId).emit('new-message', newMessage);
+      if (!duplicate) {
+        io.to(channelId).emit('new-message', newMessage);
+      }
+      if (typeof callback === 'function') callback(null, newMessage);
     } catch (error) {
       logger.error('Error sending message via WebSocket:', error);
-      socket.emit('error', { message: 'Failed to send message' });
+      fail('Failed to send message');
     }
   });
 
@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+
+/**
+ * API Type Generator
+ *
+ * Generates src/core/api/schema.ts from backend/swagger.json:
+ * - One entry in ApiSchemas per component schema
+ * - One entry in ApiOperations per path and method, keyed "METHOD /path",
+ *   with its path params, request body, success response and error bodies
+ * - API_VERSION from info.version, sent with every request by the client
+ *
+ * Usage:
+ *   node scripts/generate-api-types.js          # write schema.ts
+ *   node scripts/generate-api-types.js --check  # fail if schema.ts is stale
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const SPEC_PATH = path.join(__dirname, '..', 'backend', 'swagger.json');
+const OUTPUT_PATH = path.join(__dirname, '..', 'src', 'core', 'api', 'schema.ts');
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// ===== TYPE RENDERING =====
+
+const quoteKey = (key) => (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : `'${key}'`);
+
+const renderType = (schema) => {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return `ApiSchemas['${schema.$ref.split('/').pop()}']`;
+  if (schema.enum) return schema.enum.map((value) => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = renderType(schema.items);
+      return item.includes(' ') && !item.startsWith('{') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+    case undefined:
+      if (!schema.properties) return 'Record<string, unknown>';
+      return `{ ${Object.entries(schema.properties)
+        .map(([key, value]) => `${quoteKey(key)}${(schema.required || []).includes(key) ? '' : '?'}: ${renderType(value)}`)
+        .join('; ')} }`;
+    default:
+      return 'unknown';
+  }
+};
+
+const renderProperties = (schema, indent) =>
+  Object.entries(schema.properties || {}).map(([key, value]) => {
+    const optional = (schema.required || []).includes(key) ? '' : '?';
+    const comment = value.description ? ` // ${value.description}` : '';
+    return `${indent}${quoteKey(key)}${optional}: ${renderType(value)};${comment}`;
+  });
+
+const jsonSchema = (body) => body && body.content && body.content['application/json'] && body.content['application/json'].schema;
+
+// ===== GENERATION =====
+
+const generate = (spec) => {
+  const lines = [
+    '/**',
+    ' * API Schema',
+    ' *',
+    ' * GENERATED FROM backend/swagger.json BY scripts/generate-api-types.js - DO NOT EDIT.',
+    ' * Run `npm run generate:api` after changing the spec; a response or request',
+    ' * that no longer matches the spec then fails the type check.',
+    ' */',
+    '',
+    `export const API_VERSION = '${spec.info.version}';`,
+    '',
+    '// ===== SCHEMAS =====',
+    '',
+    'export interface ApiSchemas {',
+  ];
+
+  Object.entries(spec.components.schemas).forEach(([name, schema]) => {
+    lines.push(`  ${name}: {`, ...renderProperties(schema, '    '), '  };');
+  });
+  lines.push('}', '', '// ===== OPERATIONS =====', '', 'export interface ApiOperations {');
+
+  Object.entries(spec.paths).forEach(([route, item]) => {
+    METHODS.filter((method) => item[method]).forEach((method) => {
+      const operation = item[method];
+      const params = (operation.parameters || []).filter((param) => param.in === 'path');
+      const body = jsonSchema(operation.requestBody);
+      const statuses = Object.keys(operation.responses);
+      const success = statuses.find((status) => status.startsWith('2'));
+      const errors = statuses.filter((status) => !status.startsWith('2'));
+
+      lines.push(
+        `  /** ${operation.summary} */`,
+        `  '${method.toUpperCase()} ${route}': {`,
+        `    params: ${params.length ? `{ ${params.map((param) => `${param.name}: ${renderType(param.schema)}`).join('; ')} }` : 'Record<string, never>'};`,
+        `    body: ${body ? renderType(body) : 'undefined'};`,
+        `    response: ${success ? renderType(jsonSchema(operation.responses[success])) : 'undefined'};`,
+        `    errors: ${errors.length ? `{ ${errors.map((status) => `${status}: ${renderType(jsonSchema(operation.responses[status]))}`).join('; ')} }` : 'Record<string, never>'};`,
+        `    secured: ${Boolean(operation.security && operation.security.length)};`,
+        '  };'
+      );
+    });
+  });
+  lines.push('}', '', 'export type ApiOperation = keyof ApiOperations;', '');
+
+  return lines.join('\n');
+};
+
+// ===== MAIN =====
+
+const output = generate(JSON.parse(fs.readFileSync(SPEC_PATH, 'utf8')));
+
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, 'utf8') : '';
+  if (current !== output) {
+    console.error('src/core/api/schema.ts is out of date with backend/swagger.json. Run npm run generate:api.');
+    process.exit(1);
+  }
+  console.log('API schema is up to date.');
+} else {
+  fs.writeFileSync(OUTPUT_PATH, output);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
@@ -5,7 +5,7 @@
  * It handles routing, navigation, and the overall application structure.
  * 
  * Features:
- * - Role-based routing and access control
+ * - Policy-based routing and access control
  * - Responsive sidebar navigation using Layout component
  * - Protected routes for admin-only features
  * - Integration with all major platform modules
@@ -18,7 +18,7 @@
  */
 
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import ErrorBoundary from './components/common/ErrorBoundary';
 
 // Import all page components
@@ -44,11 +44,16 @@ import Login from './pages/Login';
 import SimulationPage from './components/Operations/SimulationPage';
 
 // Import type definitions
-import { UserRole, MemberRole } from './types';
+import { UserRole } from './types';
 
 // Import AuthProvider and useAuth
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 
+// Import AuthorizationProvider and useCan
+import { AuthorizationProvider, useCan } from './contexts/AuthorizationContext';
+import { getRouteResource } from './services/authorization';
+import { useAuthorizationDirectory } from './hooks/useAuthorizationDirectory';
+
 // Import AttendanceProvider
 import { AttendanceProvider } from './contexts/AttendanceContext';
 
@@ -60,13 +65,14 @@ import { LogoutConfirmation, useLogoutConfirmation } from './components/common/L
 
 /**
  * Protected Route Component
- * Wraps routes that require authentication
+ * Wraps routes that require authentication and the view permission for
+ * the route's resource (the same check that shows the sidebar entry)
  */
-const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: UserRole }> = ({ 
-  children, 
-  requiredRole 
-}) => {
+const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, isLoading } = useAuth();
+  const { pathname } = useLocation();
+  const resource = getRouteResource(pathname);
+  const canView = useCan('view', resource || 'dashboard');
 
   if (isLoading) {
     return (
@@ -83,7 +89,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: UserR
     return <Navigate to="/login" replace />;
   }
 
-  if (requiredRole && user.role !== requiredRole) {
+  if (resource && !canView) {
     return <Navigate to="/unauthorized" replace />;
   }
 
@@ -132,7 +138,7 @@ const AppContent: React.FC = () => {
             </ProtectedRoute>
           } />
           <Route path="grant-leave" element={
-            <ProtectedRoute requiredRole={UserRole.ADMIN}>
+            <ProtectedRoute>
               <GrantLeavePage />
             </ProtectedRoute>
           } />
@@ -157,7 +163,7 @@ const AppContent: React.FC = () => {
             </ProtectedRoute>
           } />
           <Route path="reports" element={
-            <ProtectedRoute requiredRole={UserRole.ADMIN}>
+            <ProtectedRoute>
               <ReportPage />
             </ProtectedRoute>
           } />
@@ -168,7 +174,7 @@ const AppContent: React.FC = () => {
           } />
           <Route path="members" element={
             <ProtectedRoute>
-              <MembersPage userRole={UserRole.VIEWER} />
+              <MembersPage />
             </ProtectedRoute>
           } />
           <Route path="groups" element={
@@ -182,13 +188,13 @@ const AppContent: React.FC = () => {
             </ProtectedRoute>
           } />
           <Route path="settings" element={
-            <ProtectedRoute requiredRole={UserRole.ADMIN}>
+            <ProtectedRoute>
               <SettingsPage />
             </ProtectedRoute>
           } />
           <Route path="admin" element={
-            <ProtectedRoute requiredRole={UserRole.ADMIN}>
-              <AdminTab currentUserRole={MemberRole.ADMIN} />
+            <ProtectedRoute>
+              <AdminTab />
             </ProtectedRoute>
           } />
           <Route path="posting-board" element={
@@ -226,6 +232,20 @@ const AppContent: React.FC = () => {
   );
 };
 
+/**
+ * Authorization for the signed-in user, resolved against the member and group directory
+ */
+const DirectoryAuthorizationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const directory = useAuthorizationDirectory(user?.id);
+
+  return (
+    <AuthorizationProvider directory={directory}>
+      {children}
+    </AuthorizationProvider>
+  );
+};
+
 /**
  * Main App component
  */
@@ -234,9 +254,11 @@ function App() {
     <ErrorBoundary>
       <Router>
         <AuthProvider>
-          <AttendanceProvider>
-            <AppContent />
-          </AttendanceProvider>
+          <DirectoryAuthorizationProvider>
+            <AttendanceProvider>
+              <AppContent />
+            </AttendanceProvider>
+          </DirectoryAuthorizationProvider>
         </AuthProvider>
       </Router>
     </ErrorBoundary>
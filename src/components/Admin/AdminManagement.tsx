@@ -10,11 +10,7 @@ import {
   XCircle,
   Search
 } from 'lucide-react';
-import { MemberRole } from '../../types';
-
-interface AdminManagementProps {
-  currentUserRole: MemberRole;
-}
+import { useCan } from '../../contexts/AuthorizationContext';
 
 interface AdminCandidate {
   id: string;
@@ -30,7 +26,8 @@ interface AdminCandidate {
   createdAt: string;
 }
 
-const AdminManagement: React.FC<AdminManagementProps> = ({ currentUserRole }) => {
+const AdminManagement: React.FC = () => {
+  const canManageAdmins = useCan('manage', 'admin');
   const [admins, setAdmins] = useState<AdminCandidate[]>([]);
   const [leaders, setLeaders] = useState<AdminCandidate[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -199,7 +196,7 @@ const AdminManagement: React.FC<AdminManagementProps> = ({ currentUserRole }) =>
     });
   };
 
-  if (currentUserRole !== MemberRole.ADMIN) {
+  if (!canManageAdmins) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
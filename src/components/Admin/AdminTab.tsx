@@ -2,13 +2,8 @@ import React, { useState } from 'react';
 import { Shield, Users, AlertTriangle, Key, Database } from 'lucide-react';
 import AdminManagement from './AdminManagement';
 import IAMFeature from './IAMFeature';
-import { MemberRole } from '../../types';
 
-interface AdminTabProps {
-  currentUserRole: MemberRole;
-}
-
-const AdminTab: React.FC<AdminTabProps> = ({ currentUserRole }) => {
+const AdminTab: React.FC = () => {
   const [activeSection, setActiveSection] = useState<'admin' | 'iam'>('admin');
 
   return (
@@ -119,7 +114,7 @@ const AdminTab: React.FC<AdminTabProps> = ({ currentUserRole }) => {
           </div>
 
           {/* Admin Management Component */}
-          <AdminManagement currentUserRole={currentUserRole} />
+          <AdminManagement />
 
           {/* Help Section */}
           <div className="bg-gray-50 rounded-lg p-6">
@@ -155,7 +150,7 @@ const AdminTab: React.FC<AdminTabProps> = ({ currentUserRole }) => {
       )}
 
       {activeSection === 'iam' && (
-        <IAMFeature currentUserRole={currentUserRole} />
+        <IAMFeature />
       )}
     </div>
   );
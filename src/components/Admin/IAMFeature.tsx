@@ -11,22 +11,107 @@ import {
   ArrowRight,
   Key,
   Database,
-  Activity
+  Activity,
+  Trash2
 } from 'lucide-react';
-import { MemberRole } from '../../types';
+import {
+  MemberRole,
+  PermissionAction,
+  PermissionGrant,
+  PermissionPolicy,
+  PermissionResourceType,
+  PermissionScope
+} from '../../types';
+import {
+  getLeaderPolicies,
+  getWidestScope,
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCES,
+  PERMISSION_SCOPES,
+  ROLE_POLICIES
+} from '../../services/authorization';
+import { useAuthorization } from '../../contexts/AuthorizationContext';
 
-interface IAMFeatureProps {
-  currentUserRole: MemberRole;
-}
+// Checks shown in the role matrix
+const MATRIX_ROWS: { label: string; action: PermissionAction; resource: PermissionResourceType }[] = [
+  { label: 'View notices & documents', action: 'view', resource: 'notice' },
+  { label: 'Punch attendance', action: 'create', resource: 'attendance' },
+  { label: 'Submit leave', action: 'create', resource: 'leave' },
+  { label: 'View reports', action: 'view', resource: 'report' },
+  { label: 'View members', action: 'view', resource: 'member' },
+  { label: 'Edit schedules', action: 'edit', resource: 'schedule' },
+  { label: 'Approve requests', action: 'approve', resource: 'approval' },
+  { label: 'Grant leave', action: 'manage', resource: 'leave-grant' },
+  { label: 'Company settings', action: 'manage', resource: 'company-settings' },
+  { label: 'Admin & access control', action: 'manage', resource: 'admin' }
+];
 
-const IAMFeature: React.FC<IAMFeatureProps> = ({ currentUserRole }) => {
+const MATRIX_COLUMNS: { label: string; policies: PermissionPolicy[]; badge: string }[] = [
+  { label: 'Employee', policies: ROLE_POLICIES[MemberRole.EMPLOYEE], badge: 'bg-blue-100 text-blue-800' },
+  { label: 'Group Leader', policies: [...ROLE_POLICIES[MemberRole.LEADER], ...getLeaderPolicies('group', false)], badge: 'bg-yellow-100 text-yellow-800' },
+  { label: 'Leader with Approval', policies: [...ROLE_POLICIES[MemberRole.LEADER], ...getLeaderPolicies('group', true)], badge: 'bg-orange-100 text-orange-800' },
+  { label: 'Admin', policies: ROLE_POLICIES[MemberRole.ADMIN], badge: 'bg-red-100 text-red-800' }
+];
+
+const scopeLabel = (scope: PermissionScope) => PERMISSION_SCOPES.find(entry => entry.value === scope)?.label || scope;
+
+const resourceLabel = (resource: PermissionResourceType | '*') =>
+  resource === '*' ? 'Everything' : PERMISSION_RESOURCES.find(entry => entry.value === resource)?.label || resource;
+
+const IAMFeature: React.FC = () => {
   const [activeTab, setActiveTab] = useState('overview');
+  const { member, policies, directory, can, addGrant, revokeGrant } = useAuthorization();
+  const canManageAccess = can('manage', 'admin');
+
+  // Grant form
+  const [grantMemberId, setGrantMemberId] = useState('');
+  const [grantEffect, setGrantEffect] = useState<PermissionGrant['effect']>('allow');
+  const [grantAction, setGrantAction] = useState<PermissionAction>('view');
+  const [grantResource, setGrantResource] = useState<PermissionResourceType>('report');
+  const [grantScope, setGrantScope] = useState<PermissionGrant['scope']>('group-subtree');
+  const [grantGroupId, setGrantGroupId] = useState('');
+  const [grantWorkplaces, setGrantWorkplaces] = useState('');
+  const [grantExpiresAt, setGrantExpiresAt] = useState('');
+  const [grantReason, setGrantReason] = useState('');
+  const [grantError, setGrantError] = useState<string | null>(null);
+
+  const memberName = (memberId: string) =>
+    directory.members.find(candidate => candidate.id === memberId)?.name || memberId;
+
+  const handleAddGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const now = new Date().toISOString();
+    try {
+      await addGrant({
+        id: `grant-${Date.now()}`,
+        memberId: grantMemberId.trim(),
+        effect: grantEffect,
+        actions: [grantAction],
+        resources: [grantResource],
+        scope: grantScope,
+        groupId: grantScope === 'group-subtree' ? grantGroupId.trim() : undefined,
+        workplaceIds: grantScope === 'workplace'
+          ? grantWorkplaces.split(',').map(id => id.trim()).filter(Boolean)
+          : undefined,
+        grantedBy: member?.id || 'admin',
+        grantedAt: now,
+        expiresAt: grantExpiresAt ? new Date(`${grantExpiresAt}T23:59:59`).toISOString() : undefined,
+        reason: grantReason.trim() || undefined
+      });
+      setGrantError(null);
+      setGrantMemberId('');
+      setGrantReason('');
+      setGrantExpiresAt('');
+    } catch (error) {
+      setGrantError(error instanceof Error ? error.message : 'The grant could not be added');
+    }
+  };
 
   const features = [
     {
       icon: <Shield className="h-6 w-6 text-blue-600" />,
       title: "Role-Based Access Control",
-      description: "Assign roles (Admin, Manager, Supervisor, Employee, Viewer) to control access to every merchandising feature",
+      description: "Policies from member roles, group leadership and explicit grants, scoped by group subtree and workplace",
       status: "Active"
     },
     {
@@ -61,14 +146,6 @@ const IAMFeature: React.FC<IAMFeatureProps> = ({ currentUserRole }) => {
     }
   ];
 
-  const permissions = [
-    { feature: "Todo Management", admin: "Full", manager: "Full", supervisor: "Create/Edit", employee: "View/Complete", viewer: "View Only" },
-    { feature: "Chat System", admin: "Full", manager: "Full", supervisor: "Full", employee: "Participate", viewer: "View Only" },
-    { feature: "Attendance Tracking", admin: "Full", manager: "Full", supervisor: "Manage Team", employee: "Punch In/Out", viewer: "View Only" },
-    { feature: "Reporting & Analytics", admin: "Full", manager: "Full", supervisor: "Team Reports", employee: "Personal Reports", viewer: "View Only" },
-    { feature: "Approval System", admin: "Full", manager: "Full", supervisor: "Team Approvals", employee: "Submit Requests", viewer: "View Only" },
-    { feature: "Workplace Management", admin: "Full", manager: "Full", supervisor: "Area Management", employee: "View Assigned", viewer: "View Only" }
-  ];
 
   return (
     <div className="space-y-6">
@@ -278,68 +355,287 @@ const IAMFeature: React.FC<IAMFeatureProps> = ({ currentUserRole }) => {
             <div className="bg-white shadow rounded-lg overflow-hidden">
               <div className="px-6 py-4 border-b border-gray-200">
                 <h3 className="text-lg font-medium text-gray-900">Role-Based Permissions Matrix</h3>
-                <p className="text-sm text-gray-600 mt-1">Control access to merchandising features by role</p>
+                <p className="text-sm text-gray-600 mt-1">
+                  Reach of each role's policies; leaders reach their group and all of its subgroups
+                </p>
               </div>
               <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
                     <tr>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Feature
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Admin
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Manager
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Supervisor
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Employee
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Viewer
+                        Permission
                       </th>
+                      {MATRIX_COLUMNS.map(column => (
+                        <th key={column.label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {column.label}
+                        </th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {permissions.map((permission, index) => (
-                      <tr key={index}>
+                    {MATRIX_ROWS.map(row => (
+                      <tr key={row.label}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          {permission.feature}
+                          {row.label}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                            {permission.admin}
-                          </span>
+                        {MATRIX_COLUMNS.map(column => {
+                          const scope = getWidestScope(column.policies, row.action, row.resource);
+                          return (
+                            <td key={column.label} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {scope ? (
+                                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${column.badge}`}>
+                                  {scopeLabel(scope)}
+                                </span>
+                              ) : (
+                                <span className="text-gray-400">—</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Effective policies of the signed-in user */}
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Your Access</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Policies that apply to {member ? member.name : 'you'}, from role, group leadership and grants
+                </p>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {policies.map(policy => (
+                  <li key={policy.id} className="px-6 py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{policy.description}</p>
+                      <p className="text-xs text-gray-500">
+                        {policy.actions.join(', ')} · {policy.resources.map(resourceLabel).join(', ')} · {scopeLabel(policy.scope)}
+                      </p>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      policy.effect === 'deny' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {policy.effect === 'deny' ? 'Deny' : policy.source}
+                    </span>
+                  </li>
+                ))}
+                {!policies.length && (
+                  <li className="px-6 py-3 text-sm text-gray-500">No policies apply.</li>
+                )}
+              </ul>
+            </div>
+
+            {/* Explicit grants */}
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Explicit Grants</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Access beyond a member's role, or restrictions on it; a deny always wins
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Grant</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scope</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                      <th className="px-6 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {directory.grants.map(grant => (
+                      <tr key={grant.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {memberName(grant.memberId)}
+                          {grant.reason && <div className="text-xs text-gray-500">{grant.reason}</div>}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
-                            {permission.manager}
-                          </span>
+                          <span className={grant.effect === 'deny' ? 'text-red-600' : 'text-green-600'}>
+                            {grant.effect === 'deny' ? 'Deny' : 'Allow'}
+                          </span>{' '}
+                          {grant.actions.join(', ')} {grant.resources.map(resourceLabel).join(', ')}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                            {permission.supervisor}
-                          </span>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {scopeLabel(grant.scope)}
+                          {grant.groupId && ` (${directory.groups.find(group => group.id === grant.groupId)?.name || grant.groupId})`}
+                          {grant.workplaceIds?.length ? ` (${grant.workplaceIds.join(', ')})` : ''}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                            {permission.employee}
-                          </span>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {grant.expiresAt ? new Date(grant.expiresAt).toLocaleDateString() : 'Never'}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                            {permission.viewer}
-                          </span>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          {canManageAccess && (
+                            <button
+                              onClick={() => revokeGrant(grant.id).catch(error => {
+                                setGrantError(error instanceof Error ? error.message : 'The grant could not be revoked');
+                              })}
+                              className="text-red-600 hover:text-red-800"
+                              title="Revoke grant"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
+                {!directory.grants.length && (
+                  <p className="px-6 py-4 text-sm text-gray-500">No explicit grants.</p>
+                )}
               </div>
+
+              {canManageAccess && (
+                <form onSubmit={handleAddGrant} className="px-6 py-4 border-t border-gray-200 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Member</label>
+                      {directory.members.length ? (
+                        <select
+                          value={grantMemberId}
+                          onChange={(e) => setGrantMemberId(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">Select member</option>
+                          {directory.members.map(candidate => (
+                            <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          value={grantMemberId}
+                          onChange={(e) => setGrantMemberId(e.target.value)}
+                          placeholder="Member ID"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        />
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Effect</label>
+                      <select
+                        value={grantEffect}
+                        onChange={(e) => setGrantEffect(e.target.value as PermissionGrant['effect'])}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="allow">Allow</option>
+                        <option value="deny">Deny</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                      <select
+                        value={grantAction}
+                        onChange={(e) => setGrantAction(e.target.value as PermissionAction)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {PERMISSION_ACTIONS.map(action => (
+                          <option key={action.value} value={action.value}>{action.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Resource</label>
+                      <select
+                        value={grantResource}
+                        onChange={(e) => setGrantResource(e.target.value as PermissionResourceType)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {PERMISSION_RESOURCES.map(resource => (
+                          <option key={resource.value} value={resource.value}>{resource.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Scope</label>
+                      <select
+                        value={grantScope}
+                        onChange={(e) => setGrantScope(e.target.value as PermissionGrant['scope'])}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {PERMISSION_SCOPES.filter(scope => scope.value !== 'own').map(scope => (
+                          <option key={scope.value} value={scope.value}>{scope.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      {grantScope === 'group-subtree' && (
+                        <>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Group</label>
+                          {directory.groups.length ? (
+                            <select
+                              value={grantGroupId}
+                              onChange={(e) => setGrantGroupId(e.target.value)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                            >
+                              <option value="">Select group</option>
+                              {directory.groups.map(group => (
+                                <option key={group.id} value={group.id}>{group.name}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <input
+                              type="text"
+                              value={grantGroupId}
+                              onChange={(e) => setGrantGroupId(e.target.value)}
+                              placeholder="Group ID"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                            />
+                          )}
+                        </>
+                      )}
+                      {grantScope === 'workplace' && (
+                        <>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Workplace IDs</label>
+                          <input
+                            type="text"
+                            value={grantWorkplaces}
+                            onChange={(e) => setGrantWorkplaces(e.target.value)}
+                            placeholder="e.g. 1, 2"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          />
+                        </>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                      <input
+                        type="date"
+                        value={grantExpiresAt}
+                        onChange={(e) => setGrantExpiresAt(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                      <input
+                        type="text"
+                        value={grantReason}
+                        onChange={(e) => setGrantReason(e.target.value)}
+                        placeholder="e.g. Covering area North reports during parental leave"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                  </div>
+                  {grantError && <p className="text-sm text-red-600">{grantError}</p>}
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                      <Key className="h-4 w-4 mr-2" />
+                      Add Grant
+                    </button>
+                  </div>
+                </form>
+              )}
             </div>
           </div>
         )}
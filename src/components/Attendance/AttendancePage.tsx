@@ -12,7 +12,8 @@
  * - Mobile-optimized interface
  * 
  * Features inspired by Shoplworks:
- * - GPS-based geolocation tracking with geofencing
+ * - GPS-based geolocation tracking with geofencing; zone entries and exits
+ *   are tracked continuously and punches are checked against the same state
  * - QR code scanning for clock in/out
  * - Facial recognition and photo capture
  * - Break management (lunch, coffee, rest)
@@ -26,7 +27,7 @@
  * @version 2.0.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Clock,
@@ -60,7 +61,9 @@ import {
   AttendanceRecord, 
   Break, 
   WorkShift, 
+  GeofenceEvent,
   GeofenceZone, 
+  GeofenceValidation,
   AttendanceApproval,
   AttendanceStats,
   FaceVerificationSettings,
@@ -69,6 +72,14 @@ import {
 
 } from '../../types';
 import type { TemporaryWorkplaceSettings, ScheduledWorkdaysSettings } from '../../types';
+import {
+  getWorkplaceZones,
+  pairGeofenceEvents,
+  validatePunchLocation,
+  GeofenceFix,
+  GeofenceTrackingState
+} from '../../services/geofence';
+import GeofenceIndicator from './GeofenceIndicator';
 import FaceVerification from './FaceVerification';
 import TemporaryWorkplaceSettingsComponent from './TemporaryWorkplaceSettings';
 import TemporaryWorkplacePunch from './TemporaryWorkplacePunch';
@@ -86,6 +97,9 @@ import {
   getAttendanceHistory 
 } from '../../services/attendanceApi';
 
+// Workplace for punches and their geofence zones (TODO: get from user settings)
+const PUNCH_WORKPLACE_ID = 'default-workplace';
+
 /**
  * Enhanced AttendancePage Component
  * 
@@ -147,9 +161,13 @@ const AttendancePage: React.FC = () => {
   const [currentShift, setCurrentShift] = useState<WorkShift | null>(null);
   
   // Geofencing
-  const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null);
+  const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number, accuracy: number} | null>(null);
   const [geofenceZones, setGeofenceZones] = useState<GeofenceZone[]>([]);
-  const [withinGeofence, setWithinGeofence] = useState(false);
+  const [geofenceCheck, setGeofenceCheck] = useState<GeofenceValidation | null>(null);
+  const [geofenceEvents, setGeofenceEvents] = useState<GeofenceEvent[]>([]);
+  const withinGeofence = !!geofenceCheck?.isAllowed;
+  const workplaceZones = useMemo(() => getWorkplaceZones(geofenceZones, PUNCH_WORKPLACE_ID), [geofenceZones]);
+  const zoneVisits = useMemo(() => pairGeofenceEvents(geofenceEvents).reverse(), [geofenceEvents]);
   
   // Approval workflow
   const [pendingApprovals, setPendingApprovals] = useState<AttendanceApproval[]>([]);
@@ -307,7 +325,8 @@ const AttendancePage: React.FC = () => {
         radius: 100,
         address: '123 Main St, New York, NY',
         isActive: true,
-        allowedMethods: ['geolocation', 'qr', 'facial', 'photo']
+        allowedMethods: ['geolocation', 'qr', 'facial', 'photo'],
+        workplaceId: PUNCH_WORKPLACE_ID
       }
     ];
     setGeofenceZones(mockGeofences);
@@ -341,50 +360,18 @@ const AttendancePage: React.FC = () => {
   }, []);
 
   /**
-   * Get current location for geofencing
+   * Follow the location fixes the geofence indicator tracks. A zone the
+   * tracker still counts as entered allows the punch even when one fix
+   * drifted just past its boundary.
    */
-  useEffect(() => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const { latitude, longitude } = position.coords;
-          setCurrentLocation({ lat: latitude, lng: longitude });
-          
-          // Check if within any geofence zone
-          const withinZone = geofenceZones.some(zone => {
-            const distance = calculateDistance(
-              latitude, longitude,
-              zone.center.lat, zone.center.lng
-            );
-            return distance <= zone.radius;
-          });
-          setWithinGeofence(withinZone);
-        },
-        (error) => {
-          console.error('Error getting location:', error);
-          toast.error('Unable to get location. Please check permissions.');
-        }
-      );
-    }
-  }, [geofenceZones]);
+  const handleTrackingUpdate = useCallback((fix: GeofenceFix, state: GeofenceTrackingState) => {
+    setCurrentLocation({ lat: fix.lat, lng: fix.lng, accuracy: fix.accuracy });
+    setGeofenceCheck(validatePunchLocation(fix, workplaceZones, state));
+  }, [workplaceZones]);
 
-  /**
-   * Calculate distance between two points using Haversine formula
-   */
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
+  const handleGeofenceEvent = useCallback((event: GeofenceEvent) => {
+    setGeofenceEvents(prev => [...prev, event]);
+  }, []);
 
   /**
    * Enhanced clock in with photo capture and geofencing
@@ -411,10 +398,10 @@ const AttendancePage: React.FC = () => {
 
       // Call real API
       const result = await punchIn({
-        workplaceId: 'default-workplace', // TODO: Get from user settings
+        workplaceId: PUNCH_WORKPLACE_ID,
         latitude: currentLocation.lat,
         longitude: currentLocation.lng,
-        accuracy: 5,
+        accuracy: currentLocation.accuracy,
         notes: 'Clock in from web application',
         photo: capturedPhoto ? new File([capturedPhoto], 'clockin.jpg') : undefined
       });
@@ -462,7 +449,7 @@ const AttendancePage: React.FC = () => {
       const result = await punchOut({
         latitude: currentLocation.lat,
         longitude: currentLocation.lng,
-        accuracy: 5,
+        accuracy: currentLocation.accuracy,
         notes: 'Clock out from web application'
       });
       
@@ -691,8 +678,8 @@ const AttendancePage: React.FC = () => {
         photos: capturedPhoto ? { clockIn: capturedPhoto } : undefined,
         requiresApproval: false,
         geofence: {
-          zoneId: geofenceZones[0]?.id || '',
-          zoneName: geofenceZones[0]?.name || '',
+          zoneId: geofenceCheck?.zone?.id || '',
+          zoneName: geofenceCheck?.zone?.name || '',
           withinZone: withinGeofence
         }
       };
@@ -940,7 +927,24 @@ const AttendancePage: React.FC = () => {
             }`}>
               {withinGeofence ? 'Within work zone' : 'Outside work zone'}
             </span>
+            {geofenceCheck && (
+              <span className="ml-2 text-xs text-gray-500">({geofenceCheck.reason})</span>
+            )}
           </div>
+          {zoneVisits.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-gray-600">
+              {zoneVisits.slice(0, 5).map(visit => (
+                <li key={`${visit.zoneId}-${visit.enteredAt}`} className="flex justify-between">
+                  <span>{workplaceZones.find(zone => zone.id === visit.zoneId)?.name || visit.zoneId}</span>
+                  <span>
+                    {new Date(visit.enteredAt).toLocaleTimeString()}
+                    {' - '}
+                    {visit.exitedAt ? `${new Date(visit.exitedAt).toLocaleTimeString()} (${visit.durationMinutes} min)` : 'now'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         {/* Authentication methods */}
@@ -1123,6 +1127,13 @@ const AttendancePage: React.FC = () => {
         )}
       </motion.div>
 
+      {/* Geofence tracking for the punch workplace */}
+      <GeofenceIndicator
+        zones={workplaceZones}
+        onGeofenceEvent={handleGeofenceEvent}
+        onTrackingUpdate={handleTrackingUpdate}
+      />
+
       {/* Pending Approvals */}
       {pendingApprovals.length > 0 && (
         <motion.div
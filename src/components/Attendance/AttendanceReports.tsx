@@ -6,6 +6,8 @@
  * - Date range selectors and filter options
  * - Report preview with real-time data
  * - Export functionality (PDF, Excel, CSV)
+ * - Payroll timesheets with overtime, premiums and break rules, exported
+ *   as CSV or fixed-width for the payroll provider
  * - Report scheduling and automation
  * - Custom report builder
  * - Mobile-responsive design
@@ -46,7 +48,8 @@ import {
   Trash2,
   Play,
   Pause,
-  MoreHorizontal
+  MoreHorizontal,
+  DollarSign
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { t } from '../../lib/i18n';
@@ -54,11 +57,53 @@ import { useLanguageChange } from '../../lib/i18n-hooks';
 import { 
   AttendanceRecord,
   AttendanceStats,
+  PayRules,
   TeamStatus,
+  Timesheet,
+  TimesheetExportLayout,
   User
 } from '../../types';
+import {
+  buildTimesheets,
+  DEFAULT_PAY_RULES,
+  formatTimesheetExport,
+  TimesheetError
+} from '../../services/timesheet';
 import toast from 'react-hot-toast';
 
+/**
+ * Payroll provider import layouts
+ */
+const PAYROLL_LAYOUTS: Record<'csv' | 'fixed-width', TimesheetExportLayout> = {
+  csv: {
+    format: 'csv',
+    rows: 'summary',
+    columns: [
+      { field: 'payrollId', header: 'EmployeeNo' },
+      { field: 'periodStart', header: 'PeriodStart' },
+      { field: 'periodEnd', header: 'PeriodEnd' },
+      { field: 'regularHours', header: 'RegularHours' },
+      { field: 'overtimeHours', header: 'OvertimeHours' },
+      { field: 'nightHours', header: 'NightHours' },
+      { field: 'weekendHours', header: 'WeekendHours' }
+    ]
+  },
+  'fixed-width': {
+    format: 'fixed-width',
+    rows: 'daily',
+    columns: [
+      { field: 'payrollId', width: 10 },
+      { field: 'date', width: 10 },
+      { field: 'clockIn', width: 5 },
+      { field: 'clockOut', width: 5 },
+      { field: 'regularHours', width: 7 },
+      { field: 'overtimeHours', width: 7 },
+      { field: 'nightHours', width: 7 },
+      { field: 'weekendHours', width: 7 }
+    ]
+  }
+};
+
 /**
  * Report type configuration
  */
@@ -137,6 +182,8 @@ const AttendanceReports: React.FC = () => {
   const [showExportModal, setShowExportModal] = useState(false);
   const [showScheduleModal, setShowScheduleModal] = useState(false);
   const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
+  const [payRules, setPayRules] = useState<PayRules>(DEFAULT_PAY_RULES);
   
   // UI state
   const [activeTab, setActiveTab] = useState<'generate' | 'templates' | 'saved' | 'scheduled'>('generate');
@@ -198,6 +245,15 @@ const AttendanceReports: React.FC = () => {
       color: 'bg-indigo-500',
       category: 'custom',
       defaultFilters: ['employee', 'dateRange', 'metrics']
+    },
+    {
+      id: 'payroll-timesheet',
+      name: 'Payroll Timesheet',
+      description: 'Paid hours with overtime and premiums for payroll import',
+      icon: DollarSign,
+      color: 'bg-teal-500',
+      category: 'custom',
+      defaultFilters: ['dateRange', 'payRules']
     }
   ];
 
@@ -247,6 +303,43 @@ const AttendanceReports: React.FC = () => {
       }
     ]);
 
+    // Mock attendance for the last two weeks: a day worker and a night worker
+    const mockRecords: AttendanceRecord[] = [];
+    for (let daysAgo = 13; daysAgo >= 0; daysAgo--) {
+      const date = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+      const dateString = date.toISOString().split('T')[0];
+      if (date.getDay() !== 0) {
+        mockRecords.push({
+          id: `day-${dateString}`,
+          userId: '1',
+          date: dateString,
+          clockIn: '08:52',
+          clockOut: daysAgo % 3 === 0 ? '19:10' : '17:35',
+          method: 'geolocation',
+          status: 'present',
+          breaks: [
+            { id: `day-${dateString}-lunch`, type: 'lunch', startTime: '12:00', endTime: '12:45' },
+            { id: `day-${dateString}-coffee`, type: 'coffee', startTime: '15:30', duration: 15 }
+          ],
+          requiresApproval: false
+        });
+      }
+      if (date.getDay() >= 4 || date.getDay() === 0) {
+        mockRecords.push({
+          id: `night-${dateString}`,
+          userId: '2',
+          date: dateString,
+          clockIn: '21:58',
+          clockOut: '06:04',
+          method: 'qr',
+          status: 'present',
+          breaks: [{ id: `night-${dateString}-meal`, type: 'lunch', startTime: '02:00', endTime: '02:30' }],
+          requiresApproval: false
+        });
+      }
+    }
+    setAttendanceRecords(mockRecords);
+
     // Mock saved reports
     setSavedReports([
       {
@@ -337,6 +430,10 @@ const AttendanceReports: React.FC = () => {
             { name: 'Mike Johnson', attendanceRate: 96 }
           ]
         };
+      case 'payroll-timesheet':
+        return {
+          timesheets: buildTimesheets(attendanceRecords, dateRange, payRules)
+        };
       default:
         return {};
     }
@@ -345,12 +442,30 @@ const AttendanceReports: React.FC = () => {
   /**
    * Export report
    */
-  const handleExport = async (format: 'pdf' | 'excel' | 'csv') => {
+  const handleExport = async (format: 'pdf' | 'excel' | 'csv' | 'fixed-width') => {
     if (!reportData) {
       toast.error('No report to export');
       return;
     }
 
+    if (reportData.type === 'payroll-timesheet' && (format === 'csv' || format === 'fixed-width')) {
+      try {
+        const content = formatTimesheetExport(reportData.data.timesheets, PAYROLL_LAYOUTS[format]);
+        const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'text/plain' });
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `timesheet_${reportData.dateRange.start}_${reportData.dateRange.end}.${format === 'csv' ? 'csv' : 'txt'}`;
+        a.click();
+        window.URL.revokeObjectURL(url);
+        toast.success(`${format === 'csv' ? 'CSV' : 'Fixed-width'} timesheet exported`);
+        setShowExportModal(false);
+      } catch (error) {
+        toast.error(error instanceof TimesheetError ? error.message : 'Export failed');
+      }
+      return;
+    }
+
     try {
       // Simulate export
       await new Promise(resolve => setTimeout(resolve, 2000));
@@ -522,6 +637,64 @@ const AttendanceReports: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Pay Rules */}
+                {selectedReportType === 'payroll-timesheet' && (
+                  <div className="space-y-4 mb-6">
+                    <h4 className="font-medium text-gray-900">Pay Rules</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Daily Overtime After (h)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={payRules.dailyOvertimeAfterHours ?? ''}
+                          onChange={(e) => setPayRules(prev => ({ ...prev, dailyOvertimeAfterHours: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Weekly Overtime After (h)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={payRules.weeklyOvertimeAfterHours ?? ''}
+                          onChange={(e) => setPayRules(prev => ({ ...prev, weeklyOvertimeAfterHours: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Round Punches To (min)</label>
+                        <select
+                          value={payRules.roundingMinutes}
+                          onChange={(e) => setPayRules(prev => ({ ...prev, roundingMinutes: Number(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value={0}>No rounding</option>
+                          <option value={5}>5 minutes</option>
+                          <option value={6}>6 minutes</option>
+                          <option value={15}>15 minutes</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Rounding</label>
+                        <select
+                          value={payRules.roundingMode}
+                          onChange={(e) => setPayRules(prev => ({ ...prev, roundingMode: e.target.value as PayRules['roundingMode'] }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="nearest">Nearest</option>
+                          <option value="up">Up</option>
+                          <option value="down">Down</option>
+                        </select>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Night {payRules.nightStart}–{payRules.nightEnd} +{payRules.nightPremium * 100}%, weekends +{payRules.weekendPremium * 100}%,
+                      overtime ×{payRules.overtimeMultiplier}; {payRules.paidBreakTypes.join(' and ')} breaks paid up to {payRules.maxPaidBreakMinutes} minutes a day
+                    </p>
+                  </div>
+                )}
+
                 {/* Filters */}
                 <div className="space-y-4">
                   <h4 className="font-medium text-gray-900">Filters</h4>
@@ -824,10 +997,42 @@ const AttendanceReports: React.FC = () => {
                 
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <h4 className="font-medium text-gray-900 mb-2">Report Preview</h4>
-                  <div className="text-center py-8">
-                    <BarChart3 size={48} className="text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-600">Report preview will be displayed here</p>
-                  </div>
+                  {reportData.type === 'payroll-timesheet' && reportData.data.timesheets ? (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 pr-4 font-medium">Employee</th>
+                          <th className="py-2 pr-4 font-medium text-right">Regular</th>
+                          <th className="py-2 pr-4 font-medium text-right">Overtime</th>
+                          <th className="py-2 pr-4 font-medium text-right">Night</th>
+                          <th className="py-2 pr-4 font-medium text-right">Weekend</th>
+                          <th className="py-2 pr-4 font-medium text-right">Weighted</th>
+                          <th className="py-2 font-medium">Review</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(reportData.data.timesheets as Timesheet[]).map(sheet => {
+                          const issues = sheet.lines.flatMap(line => line.issues.map(issue => `${line.date}: ${issue}`));
+                          return (
+                            <tr key={sheet.userId} className="border-t border-gray-200">
+                              <td className="py-2 pr-4 text-gray-900">Employee {sheet.userId}</td>
+                              <td className="py-2 pr-4 text-right">{sheet.regularHours.toFixed(2)}</td>
+                              <td className="py-2 pr-4 text-right">{sheet.overtimeHours.toFixed(2)}</td>
+                              <td className="py-2 pr-4 text-right">{sheet.nightHours.toFixed(2)}</td>
+                              <td className="py-2 pr-4 text-right">{sheet.weekendHours.toFixed(2)}</td>
+                              <td className="py-2 pr-4 text-right font-medium">{sheet.weightedHours.toFixed(2)}</td>
+                              <td className="py-2 text-xs text-yellow-700">{issues.length ? issues.join(', ') : '—'}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <div className="text-center py-8">
+                      <BarChart3 size={48} className="text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-600">Report preview will be displayed here</p>
+                    </div>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -876,6 +1081,15 @@ const AttendanceReports: React.FC = () => {
                   <Download size={16} />
                   <span>CSV</span>
                 </button>
+                {reportData?.type === 'payroll-timesheet' && (
+                  <button
+                    onClick={() => handleExport('fixed-width')}
+                    className="btn-secondary flex-1 flex items-center justify-center space-x-2"
+                  >
+                    <Download size={16} />
+                    <span>Fixed-width</span>
+                  </button>
+                )}
               </div>
             </motion.div>
           </motion.div>
@@ -10,6 +10,8 @@
  * 
  * Features:
  * - Real-time geofence status display
+ * - Circle and polygon zones, several per workplace
+ * - Entry/exit events smoothed with hysteresis
  * - Visual indicators for in/out of zone
  * - Distance calculation and display
  * - Zone information and boundaries
@@ -21,7 +23,7 @@
  * @version 2.0.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   MapPin,
@@ -36,7 +38,14 @@ import {
   Target,
   Ruler
 } from 'lucide-react';
-import { GeofenceZone } from '../../types';
+import { GeofenceEvent, GeofenceZone } from '../../types';
+import {
+  findNearestZone,
+  getZonesInside,
+  updateGeofenceTracking,
+  GeofenceFix,
+  GeofenceTrackingState
+} from '../../services/geofence';
 import toast from 'react-hot-toast';
 
 /**
@@ -63,6 +72,15 @@ interface GeofenceStatus {
   error?: string;
 }
 
+/**
+ * Geofence indicator props
+ */
+interface GeofenceIndicatorProps {
+  zones?: GeofenceZone[];                          // Zones to monitor (defaults to demo zones)
+  onGeofenceEvent?: (event: GeofenceEvent) => void; // Called for every confirmed entry or exit
+  onTrackingUpdate?: (fix: GeofenceFix, state: GeofenceTrackingState) => void; // Called after every fix, so punch checks use the same tracking state
+}
+
 /**
  * Geofence Indicator Component
  * 
@@ -70,7 +88,7 @@ interface GeofenceStatus {
  * 
  * @returns JSX element with geofence status interface
  */
-const GeofenceIndicator: React.FC = () => {
+const GeofenceIndicator: React.FC<GeofenceIndicatorProps> = ({ zones, onGeofenceEvent, onTrackingUpdate }) => {
   const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
   const [geofenceStatus, setGeofenceStatus] = useState<GeofenceStatus>({
     isWithinZone: false,
@@ -83,13 +101,42 @@ const GeofenceIndicator: React.FC = () => {
   const [geofenceZones, setGeofenceZones] = useState<GeofenceZone[]>([]);
   const [isUpdating, setIsUpdating] = useState(false);
   const [showZoneInfo, setShowZoneInfo] = useState(false);
+  const [recentEvents, setRecentEvents] = useState<GeofenceEvent[]>([]);
+
+  // Watch callbacks outlive renders, so they read zones and tracking state through refs
+  const zonesRef = useRef<GeofenceZone[]>([]);
+  const trackingRef = useRef<GeofenceTrackingState>({});
+  const onEventRef = useRef(onGeofenceEvent);
+  onEventRef.current = onGeofenceEvent;
+  const onTrackingRef = useRef(onTrackingUpdate);
+  onTrackingRef.current = onTrackingUpdate;
 
   /**
    * Initialize geofence zones and location tracking
    */
   useEffect(() => {
-    initializeGeofenceZones();
-    checkLocationPermission();
+    if (zones) {
+      setGeofenceZones(zones);
+    } else {
+      initializeGeofenceZones();
+    }
+  }, [zones]);
+
+  useEffect(() => {
+    zonesRef.current = geofenceZones;
+  }, [geofenceZones]);
+
+  useEffect(() => {
+    let stopTracking: (() => void) | undefined;
+    let cancelled = false;
+    checkLocationPermission(() => cancelled).then(stop => {
+      stopTracking = stop;
+    });
+    return () => {
+      cancelled = true;
+      stopTracking?.();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   /**
@@ -104,7 +151,8 @@ const GeofenceIndicator: React.FC = () => {
         radius: 100,
         address: '123 Main St, San Francisco, CA',
         isActive: true,
-        allowedMethods: ['geolocation', 'qr', 'facial']
+        allowedMethods: ['geolocation', 'qr', 'facial'],
+        workplaceId: 'wp-main'
       },
       {
         id: 'zone2',
@@ -113,7 +161,26 @@ const GeofenceIndicator: React.FC = () => {
         radius: 150,
         address: '456 Branch Ave, San Francisco, CA',
         isActive: true,
-        allowedMethods: ['geolocation', 'qr']
+        allowedMethods: ['geolocation', 'qr'],
+        workplaceId: 'wp-branch'
+      },
+      {
+        id: 'zone4',
+        name: 'Westfield Mall',
+        center: { lat: 37.7841, lng: -122.4069 },
+        radius: 0,
+        address: '865 Market St, San Francisco, CA',
+        isActive: true,
+        allowedMethods: ['geolocation', 'qr'],
+        shape: 'polygon',
+        polygon: [
+          { lat: 37.7848, lng: -122.4078 },
+          { lat: 37.7851, lng: -122.4063 },
+          { lat: 37.7835, lng: -122.4059 },
+          { lat: 37.7831, lng: -122.4074 }
+        ],
+        workplaceId: 'wp-westfield',
+        hysteresis: 25
       },
       {
         id: 'zone3',
@@ -129,22 +196,26 @@ const GeofenceIndicator: React.FC = () => {
   };
 
   /**
-   * Check location permission and enable tracking
+   * Check location permission and enable tracking. Tracking is not started
+   * once isCancelled reports the indicator has unmounted.
    */
-  const checkLocationPermission = async () => {
+  const checkLocationPermission = async (isCancelled: () => boolean): Promise<(() => void) | undefined> => {
     try {
       if ('geolocation' in navigator) {
         const permission = await navigator.permissions.query({ name: 'geolocation' });
+        if (isCancelled()) return undefined;
         
         if (permission.state === 'granted') {
           setGeofenceStatus(prev => ({ ...prev, isLocationEnabled: true }));
-          startLocationTracking();
+          return startLocationTracking();
         } else if (permission.state === 'prompt') {
           setGeofenceStatus(prev => ({ 
             ...prev, 
             isLocationEnabled: false,
             error: 'Location permission needed'
           }));
+          // Watching asks for permission; the first fix clears the error
+          return startLocationTracking();
         } else {
           setGeofenceStatus(prev => ({ 
             ...prev, 
@@ -207,56 +278,36 @@ const GeofenceIndicator: React.FC = () => {
    * Update geofence status based on current location
    */
   const updateGeofenceStatus = (location: LocationData) => {
-    let closestZone: GeofenceZone | null = null;
-    let minDistance = Infinity;
-
-    // Find closest active zone
-    geofenceZones.forEach(zone => {
-      if (!zone.isActive) return;
-
-      const distance = calculateDistance(
-        location.lat,
-        location.lng,
-        zone.center.lat,
-        zone.center.lng
-      );
-
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestZone = zone;
-      }
-    });
+    const zoneList = zonesRef.current;
+    const fix: GeofenceFix = { lat: location.lat, lng: location.lng, accuracy: location.accuracy, timestamp: location.timestamp };
+    const { state, events } = updateGeofenceTracking(trackingRef.current, fix, zoneList);
+    trackingRef.current = state;
+    onTrackingRef.current?.(fix, state);
+
+    if (events.length) {
+      setRecentEvents(prev => [...events.slice().reverse(), ...prev].slice(0, 10));
+      events.forEach(event => {
+        onEventRef.current?.(event);
+        toast(`${event.type === 'entry' ? 'Entered' : 'Left'} ${event.zoneName}`);
+      });
+    }
 
-    const isWithinZone = closestZone ? minDistance <= (closestZone as GeofenceZone).radius : false;
+    // Prefer the zone the tracker says we are in; otherwise show the nearest one
+    const insideZone = getZonesInside(state, zoneList.filter(zone => zone.isActive))[0];
+    const nearest = findNearestZone(location, zoneList);
+    const currentZone = insideZone || nearest?.zone || null;
+    const distance = insideZone ? 0 : Math.max(0, nearest?.distance ?? 0);
 
     setGeofenceStatus({
-      isWithinZone,
-      currentZone: closestZone,
-      distance: minDistance,
+      isWithinZone: !!insideZone,
+      currentZone,
+      distance,
       accuracy: location.accuracy,
       lastUpdated: new Date().toISOString(),
       isLocationEnabled: true
     });
   };
 
-  /**
-   * Calculate distance between two points using Haversine formula
-   */
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
-
   /**
    * Refresh location manually
    */
@@ -326,6 +377,16 @@ const GeofenceIndicator: React.FC = () => {
     return `${(meters / 1000).toFixed(1)}km`;
   };
 
+  /**
+   * Describe a zone boundary
+   */
+  const formatBoundary = (zone: GeofenceZone): string => {
+    if (zone.shape === 'polygon' && zone.polygon) {
+      return `Polygon (${zone.polygon.length} points)`;
+    }
+    return `Radius: ${formatDistance(zone.radius)}`;
+  };
+
   /**
    * Format accuracy
    */
@@ -439,9 +500,9 @@ const GeofenceIndicator: React.FC = () => {
               )}
               
               <div className="flex items-center justify-between">
-                <span className="text-gray-600">Zone Radius:</span>
+                <span className="text-gray-600">Zone Boundary:</span>
                 <span className="font-medium text-gray-900">
-                  {geofenceStatus.currentZone ? formatDistance(geofenceStatus.currentZone.radius) : 'N/A'}
+                  {geofenceStatus.currentZone ? formatBoundary(geofenceStatus.currentZone) : 'N/A'}
                 </span>
               </div>
               
@@ -456,6 +517,28 @@ const GeofenceIndicator: React.FC = () => {
         </div>
       )}
 
+      {/* Entry / Exit Events */}
+      {recentEvents.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Zone Events</h3>
+          <div className="space-y-2">
+            {recentEvents.map(event => (
+              <div key={event.id} className="flex items-center justify-between text-sm">
+                <span className="flex items-center space-x-2">
+                  {event.type === 'entry'
+                    ? <CheckCircle size={16} className="text-green-600" />
+                    : <XCircle size={16} className="text-red-600" />}
+                  <span className="text-gray-900">
+                    {event.type === 'entry' ? 'Entered' : 'Left'} {event.zoneName}
+                  </span>
+                </span>
+                <span className="text-gray-500">{new Date(event.timestamp).toLocaleTimeString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Zone Information */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Available Zones</h3>
@@ -477,7 +560,7 @@ const GeofenceIndicator: React.FC = () => {
                   <h4 className="font-medium text-gray-900">{zone.name}</h4>
                   <p className="text-sm text-gray-600">{zone.address}</p>
                   <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                    <span>Radius: {formatDistance(zone.radius)}</span>
+                    <span>{formatBoundary(zone)}</span>
                     <span className={`px-2 py-1 rounded-full ${
                       zone.isActive 
                         ? 'bg-green-100 text-green-800' 
@@ -533,7 +616,9 @@ const GeofenceIndicator: React.FC = () => {
                   <h4 className="font-medium text-blue-900 mb-2">How Geofencing Works</h4>
                   <p className="text-sm text-blue-800">
                     Geofencing uses GPS to determine if you're within a designated work zone. 
-                    You must be within the zone radius to clock in/out successfully.
+                    You must be within the zone boundary to clock in/out successfully. Short GPS
+                    jumps near the edge are ignored, so you are only marked as having left a zone
+                    once several readings agree.
                   </p>
                 </div>
 
@@ -553,7 +638,7 @@ const GeofenceIndicator: React.FC = () => {
                       </div>
                       <p className="text-sm text-gray-600 mb-2">{zone.address}</p>
                       <div className="flex items-center space-x-4 text-xs text-gray-500">
-                        <span>Radius: {formatDistance(zone.radius)}</span>
+                        <span>{formatBoundary(zone)}</span>
                         <span>Methods: {zone.allowedMethods.join(', ')}</span>
                       </div>
                     </div>
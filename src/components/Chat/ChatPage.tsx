@@ -15,7 +15,7 @@
  * @version 3.0.0
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   Send, 
   Paperclip, 
@@ -204,15 +204,20 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
+  ChannelUnreadCount,
   ChatChannel, 
+  ChatInboxState,
   ChatMessage, 
   ChatUser,
   CreateChannelForm,
   FlagMessageForm,
-  GDPRRequestForm
+  GDPRRequestForm,
+  MessageThread,
+  NotificationSettings
 } from '../../types/chat';
 import { 
   useChannels, 
+  useIncomingMessages,
   useMessages, 
   useRealtimeUpdates, 
   wsApi,
@@ -223,6 +228,28 @@ import {
   analyticsApi,
   gdprApi
 } from '../../services/chatApi';
+import {
+  applyUnreadSummaries,
+  buildThreads,
+  emptyInboxState,
+  getChannelNotificationSettings,
+  getLatestMessage,
+  getMentionTargets,
+  getNotificationMode,
+  isReadUpTo,
+  loadChatInboxState,
+  markChannelRead,
+  NOTIFICATION_MODES,
+  recordIncomingMessage,
+  saveChatInboxState,
+  setChannelNotificationSettings,
+  shouldNotify,
+  syncChannelCounts,
+  withNotificationMode
+} from '../../services/chatThreads';
+import { isPendingMessage } from '../../services/chatOffline';
+import { MentionInput, MentionText } from './Mentions';
+import ThreadPanel from './ThreadPanel';
 
 // --- Professional Connection Status Component ---
 const ConnectionStatus: React.FC<{ status: string }> = ({ status }) => {
@@ -517,6 +544,7 @@ const ChannelSidebar: React.FC<{
   connectionStatus: string;
   loading: boolean;
   error: string | null;
+  unreadCounts: Record<string, ChannelUnreadCount>;
 }> = ({ 
   channels, 
   currentUser, 
@@ -526,7 +554,8 @@ const ChannelSidebar: React.FC<{
   onSearchChannels,
   connectionStatus,
   loading,
-  error
+  error,
+  unreadCounts
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
@@ -612,59 +641,72 @@ const ChannelSidebar: React.FC<{
                 </button>
               </div>
             ) : (
-              channels.map((channel) => (
-                <button
-                  key={channel.id}
-                  onClick={() => onSelectChannel(channel.id)}
-                  className={`w-full text-left p-3 rounded-lg transition-all duration-200 group ${
-                    selectedChannelId === channel.id
-                      ? 'bg-blue-50 border border-blue-200 text-blue-700 shadow-sm'
-                      : 'hover:bg-gray-50 text-gray-700 hover:shadow-sm'
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${
-                        channel.isPrivate 
-                          ? 'bg-purple-100 text-purple-600' 
-                          : 'bg-blue-100 text-blue-600'
-                      }`}>
-                        {channel.isPrivate ? (
-                          <Lock className="w-4 h-4" />
-                        ) : (
-                          <Hash className="w-4 h-4" />
-                        )}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-x-2">
-                          <span className="font-medium truncate">#{channel.name}</span>
-                          {channel.isPrivate && (
-                            <Lock className="w-3 h-3 text-gray-400" />
+              channels.map((channel) => {
+                const unread = unreadCounts[channel.id];
+                return (
+                  <button
+                    key={channel.id}
+                    onClick={() => onSelectChannel(channel.id)}
+                    className={`w-full text-left p-3 rounded-lg transition-all duration-200 group ${
+                      selectedChannelId === channel.id
+                        ? 'bg-blue-50 border border-blue-200 text-blue-700 shadow-sm'
+                        : 'hover:bg-gray-50 text-gray-700 hover:shadow-sm'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${
+                          channel.isPrivate 
+                            ? 'bg-purple-100 text-purple-600' 
+                            : 'bg-blue-100 text-blue-600'
+                        }`}>
+                          {channel.isPrivate ? (
+                            <Lock className="w-4 h-4" />
+                          ) : (
+                            <Hash className="w-4 h-4" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-2">
+                            <span className={`truncate ${unread && unread.unread > 0 ? 'font-bold text-gray-900' : 'font-medium'}`}>#{channel.name}</span>
+                            {channel.isPrivate && (
+                              <Lock className="w-3 h-3 text-gray-400" />
+                            )}
+                          </div>
+                          {channel.description && (
+                            <p className="text-sm text-gray-500 truncate">{channel.description}</p>
                           )}
                         </div>
-                        {channel.description && (
-                          <p className="text-sm text-gray-500 truncate">{channel.description}</p>
+                      </div>
+                      <div className="flex items-center space-x-2 text-xs text-gray-500">
+                        {unread && unread.mentions > 0 && (
+                          <span className="px-1.5 py-0.5 rounded-full bg-red-500 text-white font-semibold" title="Unread mentions">
+                            @{unread.mentions}
+                          </span>
                         )}
+                        {unread && unread.unread > 0 && (
+                          <span className="px-1.5 py-0.5 rounded-full bg-blue-600 text-white font-semibold" title="Unread messages">
+                            {unread.unread}
+                          </span>
+                        )}
+                        <Users className="w-3 h-3" />
+                        <span>{channel.memberCount || 0}</span>
                       </div>
                     </div>
-                    <div className="flex items-center space-x-2 text-xs text-gray-500">
-                      <Users className="w-3 h-3" />
-                      <span>{channel.memberCount || 0}</span>
-                    </div>
-                  </div>
-                  {channel.lastMessage && (
-                    <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
-                      <span className="truncate flex-1">{channel.lastMessage.content}</span>
-                      <span className="ml-2 flex-shrink-0">
-                        {new Date(channel.lastMessage.createdAt).toLocaleTimeString([], { 
-                          hour: '2-digit', 
-                          minute: '2-digit' 
-                        })}
-                      </span>
-                    </div>
-                  )}
-                </button>
-              ))
+                    {channel.lastMessage && (
+                      <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+                        <span className="truncate flex-1">{channel.lastMessage.content}</span>
+                        <span className="ml-2 flex-shrink-0">
+                          {new Date(channel.lastMessage.createdAt).toLocaleTimeString([], { 
+                            hour: '2-digit', 
+                            minute: '2-digit' 
+                          })}
+                        </span>
+                      </div>
+                    )}
+                  </button>
+                );
+              })
             )}
           </div>
         )}
@@ -691,14 +733,31 @@ const ChannelSidebar: React.FC<{
 };
 
 // Message Status Indicator (WhatsApp-like)
-const MessageStatus: React.FC<{ message: ChatMessage; isOwnMessage: boolean }> = ({ 
+const MessageStatus: React.FC<{ message: ChatMessage; isOwnMessage: boolean; onRetry?: (clientId: string) => void }> = ({ 
   message, 
-  isOwnMessage 
+  isOwnMessage,
+  onRetry
 }) => {
   if (!isOwnMessage) return null;
 
+  // Not sent yet: still in the outbox, or out of automatic retries
+  if (message.deliveryStatus === 'failed') {
+    return (
+      <div className="flex items-center space-x-1 text-xs text-red-500">
+        <AlertCircle className="w-3 h-3" />
+        <span>Not sent</span>
+        {onRetry && message.clientId && (
+          <button onClick={() => onRetry(message.clientId!)} className="underline hover:no-underline">
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
   const getStatusIcon = () => {
     if (message.isDeleted) return null;
+    if (message.deliveryStatus === 'sending') return <Clock className="w-3 h-3 text-gray-400" />;
     
     // Check if message has been read
     if (message.readBy && message.readBy.length > 0) {
@@ -711,6 +770,7 @@ const MessageStatus: React.FC<{ message: ChatMessage; isOwnMessage: boolean }> =
 
   const getStatusText = () => {
     if (message.isDeleted) return 'Deleted';
+    if (message.deliveryStatus === 'sending') return 'Sending';
     if (message.readBy && message.readBy.length > 0) return 'Read';
     return 'Sent';
   };
@@ -723,6 +783,88 @@ const MessageStatus: React.FC<{ message: ChatMessage; isOwnMessage: boolean }> =
   );
 };
 
+// Per-channel notification mode and quiet hours for the current user
+const ChannelNotificationMenu: React.FC<{
+  settings: NotificationSettings;
+  onChange: (settings: NotificationSettings) => void;
+}> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const mode = getNotificationMode(settings);
+
+  const handleModeChange = (value: typeof mode) => {
+    onChange(withNotificationMode(settings, value));
+    if (value !== 'none' && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+  };
+
+  const updateQuietHours = (updates: Partial<NotificationSettings['quietHours']>) => {
+    onChange({ ...settings, quietHours: { ...settings.quietHours, ...updates } });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+        title="Notifications"
+      >
+        {mode === 'none' ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-20 p-4 space-y-3">
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-2">Notify me about</p>
+            {NOTIFICATION_MODES.map(option => (
+              <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700 py-1">
+                <input
+                  type="radio"
+                  name="channel-notification-mode"
+                  checked={mode === option.value}
+                  onChange={() => handleModeChange(option.value)}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="pt-3 border-t border-gray-200">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.quietHours.enabled}
+                onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+              />
+              <span>Quiet hours</span>
+            </label>
+            {settings.quietHours.enabled && (
+              <div className="mt-2 space-y-1">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="time"
+                    value={settings.quietHours.startTime}
+                    onChange={(e) => updateQuietHours({ startTime: e.target.value })}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="time"
+                    value={settings.quietHours.endTime}
+                    onChange={(e) => updateQuietHours({ endTime: e.target.value })}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {settings.quietHours.timezone} time. No notifications, mentions included.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Enhanced ChatWindow with file upload, reactions, and real-time features
 const ChatWindow: React.FC<{
   channel: ChatChannel | null;
@@ -739,6 +881,12 @@ const ChatWindow: React.FC<{
   onLoadMore: () => void;
   typingUsers: string[];
   onToggleInfoPanel: () => void;
+  members: ChatUser[];
+  threads: Record<string, MessageThread>;
+  onOpenThread: (messageId: string) => void;
+  notificationSettings: NotificationSettings;
+  onChangeNotificationSettings: (settings: NotificationSettings) => void;
+  onRetryMessage: (clientId: string) => void;
 }> = ({
   channel,
   messages,
@@ -753,7 +901,13 @@ const ChatWindow: React.FC<{
   hasMore,
   onLoadMore,
   typingUsers,
-  onToggleInfoPanel
+  onToggleInfoPanel,
+  members,
+  threads,
+  onOpenThread,
+  notificationSettings,
+  onChangeNotificationSettings,
+  onRetryMessage
 }) => {
   const [messageInput, setMessageInput] = useState('');
   const [attachments, setAttachments] = useState<File[]>([]);
@@ -793,9 +947,9 @@ const ChatWindow: React.FC<{
     };
   }, [isTyping, channel?.id]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setMessageInput(e.target.value);
-    if (!isTyping && e.target.value.length > 0) {
+  const handleInputChange = (value: string) => {
+    setMessageInput(value);
+    if (!isTyping && value.length > 0) {
       setIsTyping(true);
     }
   };
@@ -883,6 +1037,10 @@ const ChatWindow: React.FC<{
                 {typingUsers.join(', ')} {typingUsers.length === 1 ? 'is' : 'are'} typing...
               </div>
             )}
+            <ChannelNotificationMenu
+              settings={notificationSettings}
+              onChange={onChangeNotificationSettings}
+            />
             <button
               onClick={onToggleInfoPanel}
               className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
@@ -924,11 +1082,12 @@ const ChatWindow: React.FC<{
         {messages.map((message) => {
           const isOwnMessage = message.senderId === currentUser.id;
           const isEdited = message.isEdited && !message.isDeleted;
+          const thread = threads[message.id];
 
           return (
             <div
               key={message.id}
-              className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+              className={`group flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
             >
               <div className={`max-w-xs lg:max-w-md ${isOwnMessage ? 'order-2' : 'order-1'}`}>
                 {!isOwnMessage && (
@@ -958,7 +1117,12 @@ const ChatWindow: React.FC<{
                     </div>
                   ) : (
                     <>
-                      <p className="text-sm">{message.content}</p>
+                      <MentionText
+                        content={message.content}
+                        members={members}
+                        currentUserId={currentUser.id}
+                        className="text-sm"
+                      />
                       
                       {/* Attachments */}
                       {message.attachments && message.attachments.length > 0 && (
@@ -1000,11 +1164,11 @@ const ChatWindow: React.FC<{
                           </span>
                           {isEdited && <span className="italic">(edited)</span>}
                         </div>
-                        <MessageStatus message={message} isOwnMessage={isOwnMessage} />
+                        <MessageStatus message={message} isOwnMessage={isOwnMessage} onRetry={onRetryMessage} />
                       </div>
 
                       {/* Message Actions */}
-                      {!message.isDeleted && (
+                      {!message.isDeleted && !isPendingMessage(message) && (
                         <div className="flex items-center space-x-1 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
                           {isOwnMessage && (
                             <>
@@ -1022,6 +1186,13 @@ const ChatWindow: React.FC<{
                               </button>
                             </>
                           )}
+                          <button
+                            onClick={() => onOpenThread(message.id)}
+                            className="p-1 hover:bg-black hover:bg-opacity-10 rounded"
+                            title="Reply in thread"
+                          >
+                            <Reply className="w-3 h-3" />
+                          </button>
                           <button
                             onClick={() => onFlagMessage(message.id, 'Inappropriate content')}
                             className="p-1 hover:bg-black hover:bg-opacity-10 rounded"
@@ -1033,6 +1204,21 @@ const ChatWindow: React.FC<{
                     </>
                   )}
                 </div>
+
+                {thread && (
+                  <button
+                    onClick={() => onOpenThread(message.id)}
+                    className="mt-1 flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    <MessageSquare className="w-3 h-3" />
+                    <span>{thread.replies.length} {thread.replies.length === 1 ? 'reply' : 'replies'}</span>
+                    {thread.lastReplyAt && (
+                      <span className="text-gray-400">
+                        · last {new Date(thread.lastReplyAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    )}
+                  </button>
+                )}
               </div>
             </div>
           );
@@ -1109,10 +1295,11 @@ const ChatWindow: React.FC<{
 
         <form onSubmit={handleSubmit} className="flex items-end space-x-2">
           <div className="flex-1">
-            <input
-              type="text"
+            <MentionInput
               value={messageInput}
               onChange={handleInputChange}
+              members={members}
+              currentUserId={currentUser.id}
               placeholder={editingMessage ? "Edit your message..." : "Type a message..."}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               disabled={loading}
@@ -1414,6 +1601,12 @@ const ChatPage: React.FC = () => {
   const [userActivity, setUserActivity] = useState<any>(null);
   const [activityLoading, setActivityLoading] = useState(false);
   const [activityError, setActivityError] = useState<string | null>(null);
+  const [inbox, setInbox] = useState<ChatInboxState>(emptyInboxState);
+  const [inboxUserId, setInboxUserId] = useState<string | null>(null);
+  const [channelMembers, setChannelMembers] = useState<Record<string, ChatUser[]>>({});
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const inboxRef = useRef(inbox);
+  inboxRef.current = inbox;
 
   useEffect(() => {
     if (selectedChannelId && user?.id) {
@@ -1456,12 +1649,125 @@ const ChatPage: React.FC = () => {
     addMessage, 
     updateMessage, 
     removeMessage, 
+    sendMessage,
+    retryMessage,
     refreshMessages 
-  } = useMessages(selectedChannelId);
+  } = useMessages(selectedChannelId, currentUser.id);
   
   // Real-time updates
   const { connectionStatus } = useRealtimeUpdates(selectedChannelId);
 
+  const userId = currentUser.id;
+
+  // Read markers, unread counters and notification settings are kept per user
+  useEffect(() => {
+    if (!user?.id) return;
+    setInbox(loadChatInboxState(String(user.id), emptyInboxState()));
+    setInboxUserId(String(user.id));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (inboxUserId) saveChatInboxState(inboxUserId, inbox);
+  }, [inboxUserId, inbox]);
+
+  // Unread and mention counts come from chat-service's read markers
+  useEffect(() => {
+    if (!inboxUserId || inboxUserId !== userId) return;
+    channelApi.getUnreadCounts()
+      .then(summaries => setInbox(prev => applyUnreadSummaries(prev, summaries)))
+      .catch((error: unknown) => console.error('Failed to load unread counts:', error));
+  }, [inboxUserId, userId, channels]);
+
+  // Channel members for mention autocomplete and parsing
+  useEffect(() => {
+    setOpenThreadId(null);
+    if (!selectedChannelId) return;
+    channelApi.getChannelMembers(selectedChannelId)
+      .then(members => setChannelMembers(prev => ({ ...prev, [selectedChannelId]: members })))
+      .catch((error: unknown) => console.error('Failed to load channel members:', error));
+  }, [selectedChannelId]);
+
+  // useMessages can still hold the previous channel's messages right after a switch
+  const channelMessages = useMemo(
+    () => messages.filter(message => !message.channelId || message.channelId === selectedChannelId),
+    [messages, selectedChannelId]
+  );
+
+  const mentionMembers = useMemo(() => {
+    const known = [
+      { id: userId, name: user?.name || 'Unknown User', email: user?.email || '' } as ChatUser,
+      ...(selectedChannelId ? channelMembers[selectedChannelId] || [] : []),
+      ...channelMessages.map(message => message.sender).filter((sender): sender is ChatUser => !!sender),
+    ];
+    return known.filter((member, index) => known.findIndex(other => other.id === member.id) === index);
+  }, [userId, user?.name, user?.email, selectedChannelId, channelMembers, channelMessages]);
+
+  const { topLevel, threads } = useMemo(() => buildThreads(channelMessages), [channelMessages]);
+
+  // Mark the open channel read up to its newest message while the page is visible
+  useEffect(() => {
+    if (!selectedChannelId || inboxUserId !== userId) return;
+
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') {
+        setInbox(prev => syncChannelCounts(prev, selectedChannelId, channelMessages, userId, mentionMembers));
+        return;
+      }
+      // Messages still in the outbox have no server ID to mark
+      const latest = getLatestMessage(channelMessages.filter(message => !isPendingMessage(message)));
+      if (!latest) return;
+      const current = inboxRef.current;
+      if (isReadUpTo(current, selectedChannelId, latest) && !current.counts[selectedChannelId]?.unread) return;
+
+      setInbox(prev => markChannelRead(prev, selectedChannelId, latest));
+      messageApi.markAsRead(latest.id).catch((error: unknown) => {
+        console.error('Failed to mark messages as read:', error);
+      });
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [selectedChannelId, channelMessages, userId, inboxUserId, mentionMembers]);
+
+  // Messages from every channel: append to the open one, count and notify for the rest
+  const handleIncomingMessage = useCallback((message: ChatMessage) => {
+    if (!message.channelId) return;
+    const isOpen = message.channelId === selectedChannelId;
+    if (isOpen) addMessage(message);
+    if (isOpen && document.visibilityState === 'visible') return;
+
+    const members = [
+      { id: userId, name: user?.name || '', email: user?.email || '' } as ChatUser,
+      ...(channelMembers[message.channelId] || []),
+    ];
+    setInbox(prev => recordIncomingMessage(prev, message, userId, members));
+
+    const settings = getChannelNotificationSettings(inboxRef.current, message.channelId);
+    if (shouldNotify(message, userId, settings, members) && 'Notification' in window && Notification.permission === 'granted') {
+      const channelName = channels.find(channel => channel.id === message.channelId)?.name || 'chat';
+      try {
+        new Notification(`#${channelName}`, { body: `${message.sender?.name || 'New message'}: ${message.content}` });
+      } catch (error) {
+        console.error('Failed to show notification:', error);
+      }
+    }
+  }, [selectedChannelId, addMessage, userId, user?.name, user?.email, channelMembers, channels]);
+
+  useIncomingMessages(handleIncomingMessage);
+
+  const handleChangeNotificationSettings = (settings: NotificationSettings) => {
+    if (!selectedChannelId) return;
+    setInbox(prev => setChannelNotificationSettings(prev, selectedChannelId, settings));
+  };
+
+  const openThread: MessageThread | undefined = (() => {
+    if (!openThreadId) return undefined;
+    if (threads[openThreadId]) return threads[openThreadId];
+    const root = channelMessages.find(message => message.id === openThreadId);
+    return root ? { root, replies: [], participantIds: [root.senderId] } : undefined;
+  })();
+
   // WebSocket connection
   useEffect(() => {
     if (user?.id) {
@@ -1509,18 +1815,22 @@ const ChatPage: React.FC = () => {
 
   const selectedChannel = channels.find(c => c.id === selectedChannelId) || null;
 
-  const handleSendMessage = async (content: string, attachments?: File[]) => {
+  const handleSendMessage = async (content: string, attachments?: File[], replyToId?: string) => {
     if (!selectedChannelId) return;
     
     try {
-      const form = { content, messageType: 'text' as const };
-      const newMessage = await messageApi.sendMessage(selectedChannelId, form);
+      const form = { content, messageType: 'text' as const, replyToId, mentions: getMentionTargets(content, mentionMembers) };
+      // Text goes through the offline outbox; attachments need the message ID right away
+      if (!attachments || attachments.length === 0) {
+        await sendMessage(form);
+        return;
+      }
+
+      const sent = await messageApi.sendMessage(selectedChannelId, form);
+      const newMessage = { ...sent, replyToId: sent.replyToId ?? replyToId };
       
-      // Handle file uploads if any
-      if (attachments && attachments.length > 0) {
-        for (const file of attachments) {
-          await messageApi.uploadAttachment(newMessage.id, file);
-        }
+      for (const file of attachments) {
+        await messageApi.uploadAttachment(newMessage.id, file);
       }
       
       addMessage(newMessage);
@@ -1667,10 +1977,11 @@ const ChatPage: React.FC = () => {
         connectionStatus={connectionStatus}
         loading={channelsLoading}
         error={channelsError}
+        unreadCounts={inbox.counts}
       />
       <ChatWindow
         channel={selectedChannel}
-        messages={messages}
+        messages={topLevel}
         currentUser={currentUser}
         onSendMessage={handleSendMessage}
         onFlagMessage={handleFlagMessage}
@@ -1683,7 +1994,23 @@ const ChatPage: React.FC = () => {
         onLoadMore={loadMoreMessages}
         typingUsers={wsApi.getTypingUsers()}
         onToggleInfoPanel={() => setShowInfoPanel(v => !v)}
+        members={mentionMembers}
+        threads={threads}
+        onOpenThread={setOpenThreadId}
+        notificationSettings={getChannelNotificationSettings(inbox, selectedChannelId || '')}
+        onChangeNotificationSettings={handleChangeNotificationSettings}
+        onRetryMessage={retryMessage}
       />
+      {selectedChannel && openThread && (
+        <ThreadPanel
+          channel={selectedChannel}
+          thread={openThread}
+          members={mentionMembers}
+          currentUser={currentUser}
+          onSendReply={(content) => handleSendMessage(content, undefined, openThread.root.id)}
+          onClose={() => setOpenThreadId(null)}
+        />
+      )}
       {showInfoPanel && (
         <InfoPanel
           channel={selectedChannel}
@@ -0,0 +1,150 @@
+/**
+ * Chat Mentions
+ *
+ * - MentionInput: message input with @user/@channel autocomplete from the
+ *   channel's members (arrow keys to move, Enter or Tab to pick, Esc to close)
+ * - MentionText: message content with mentions highlighted, mentions of the
+ *   current user and @channel stand out
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { AtSign, Users } from 'lucide-react';
+import { ChatUser, MentionSuggestion } from '../../types/chat';
+import { getMentionQuery, insertMention, parseMentions, suggestMentions } from '../../services/chatThreads';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: ChatUser[];
+  currentUserId?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const MentionInput: React.FC<MentionInputProps> = ({
+  value,
+  onChange,
+  members,
+  currentUserId,
+  placeholder,
+  disabled,
+  className
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const query = getMentionQuery(value, Math.min(caret, value.length));
+  const suggestions = query && !dismissed ? suggestMentions(query.query, members, { excludeUserId: currentUserId }) : [];
+
+  const choose = (suggestion: MentionSuggestion) => {
+    if (!query) return;
+    const next = insertMention(value, query.start, Math.min(caret, value.length), suggestion);
+    onChange(next.text);
+    setCaret(next.caret);
+    setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.caret, next.caret);
+    }, 0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions.length) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+      setHighlighted(current => (current + step) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      choose(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? value.length)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={className}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute bottom-full mb-1 left-0 w-full max-w-sm bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.userId || suggestion.label}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(suggestion);
+                }}
+                className={`w-full flex items-center space-x-2 px-3 py-2 text-left text-sm ${
+                  index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {suggestion.type === 'channel' ? (
+                  <Users className="w-4 h-4 text-gray-400" />
+                ) : (
+                  <AtSign className="w-4 h-4 text-gray-400" />
+                )}
+                <span className="font-medium">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="text-xs text-gray-400 truncate">{suggestion.description}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface MentionTextProps {
+  content: string;
+  members: ChatUser[];
+  currentUserId: string;
+  className?: string;
+}
+
+export const MentionText: React.FC<MentionTextProps> = ({ content, members, currentUserId, className }) => {
+  const mentions = parseMentions(content, members);
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  mentions.forEach(mention => {
+    if (mention.start > position) parts.push(content.slice(position, mention.start));
+    const isForMe = mention.type === 'channel' || mention.userId === currentUserId;
+    parts.push(
+      <span
+        key={mention.start}
+        className={isForMe ? 'bg-amber-100 text-amber-900 rounded px-0.5 font-medium' : 'font-semibold'}
+      >
+        {mention.text}
+      </span>
+    );
+    position = mention.end;
+  });
+  if (position < content.length) parts.push(content.slice(position));
+
+  return <p className={className}>{parts}</p>;
+};
@@ -0,0 +1,125 @@
+/**
+ * Thread Panel
+ *
+ * Side panel for a message thread: the root message, its replies in order
+ * and a reply box with mention autocomplete. Replies are sent with the
+ * root's ID as replyToId so they stay out of the main message list.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Trash2, X } from 'lucide-react';
+import { ChatChannel, ChatMessage, ChatUser, MessageThread } from '../../types/chat';
+import { MentionInput, MentionText } from './Mentions';
+
+interface ThreadPanelProps {
+  channel: ChatChannel;
+  thread: MessageThread;
+  members: ChatUser[];
+  currentUser: ChatUser;
+  onSendReply: (content: string) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({ channel, thread, members, currentUser, onSendReply, onClose }) => {
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [thread.replies.length]);
+
+  const senderName = (message: ChatMessage) =>
+    message.sender?.name || members.find(member => member.id === message.senderId)?.name || 'Unknown User';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+    setSending(true);
+    try {
+      await onSendReply(reply);
+      setReply('');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderMessage = (message: ChatMessage, isRoot: boolean) => (
+    <div key={message.id} className={isRoot ? 'pb-4 border-b border-gray-200' : ''}>
+      <div className="flex items-center space-x-2 mb-1">
+        <div className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center">
+          <span className="text-xs font-medium text-gray-600">{senderName(message)[0]}</span>
+        </div>
+        <span className="text-xs font-medium text-gray-700">{senderName(message)}</span>
+        <span className="text-xs text-gray-400">
+          {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      {message.isDeleted ? (
+        <div className="flex items-center space-x-2 text-sm text-gray-400 italic">
+          <Trash2 className="w-3 h-3" />
+          <span>This message was deleted</span>
+        </div>
+      ) : (
+        <MentionText
+          content={message.content}
+          members={members}
+          currentUserId={currentUser.id}
+          className="text-sm text-gray-900 whitespace-pre-wrap"
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <aside className="w-96 bg-white border-l border-gray-200 h-full flex flex-col">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <MessageSquare className="w-4 h-4 mr-2 text-gray-400" />
+            Thread
+          </h3>
+          <p className="text-xs text-gray-500">#{channel.name}</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-200">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {renderMessage(thread.root, true)}
+        <p className="text-xs text-gray-500">
+          {thread.replies.length} {thread.replies.length === 1 ? 'reply' : 'replies'}
+        </p>
+        {thread.replies.map(message => renderMessage(message, false))}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200 flex items-end space-x-2">
+        <div className="flex-1">
+          <MentionInput
+            value={reply}
+            onChange={setReply}
+            members={members}
+            currentUserId={currentUser.id}
+            placeholder="Reply in thread..."
+            disabled={sending}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!reply.trim() || sending}
+          className="p-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </aside>
+  );
+};
+
+export default ThreadPanel;
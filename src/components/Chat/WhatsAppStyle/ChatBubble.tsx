@@ -3,7 +3,7 @@
  * 
  * Enhanced message bubble with WhatsApp-like styling:
  * - Proper bubble alignment (left/right)
- * - Message status indicators (sent, delivered, read)
+ * - Message status indicators (sending, failed, sent, delivered, read)
  * - Timestamp display
  * - Reply threading support
  * - Message reactions
@@ -15,6 +15,7 @@
 
 import React, { useState } from 'react';
 import { 
+  AlertCircle,
   Check, 
   CheckCheck, 
   Clock, 
@@ -51,6 +52,7 @@ interface ChatBubbleProps {
   isEditing?: boolean;
   onCancelEdit?: () => void;
   onSaveEdit?: (content: string) => void;
+  onRetry?: (clientId: string) => void;
 }
 
 const ChatBubble: React.FC<ChatBubbleProps> = ({
@@ -64,7 +66,8 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({
   onDownloadAttachment,
   isEditing = false,
   onCancelEdit,
-  onSaveEdit
+  onSaveEdit,
+  onRetry
 }) => {
   const [showActions, setShowActions] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
@@ -72,6 +75,8 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({
 
   const isOwnMessage = message.senderId === currentUser.id;
   const isEdited = message.isEdited && !message.isDeleted;
+  // Still in the offline outbox: no server ID yet, so no replies, edits or reactions
+  const isPending = message.deliveryStatus === 'sending' || message.deliveryStatus === 'failed';
 
   // Message status indicators
   const getStatusIcon = () => {
@@ -79,7 +84,11 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({
     
     // For own messages, show delivery status
     if (isOwnMessage) {
-      if (message.readBy && message.readBy.length > 0) {
+      if (message.deliveryStatus === 'sending') {
+        return <Clock className="w-3 h-3 text-gray-400" />;
+      } else if (message.deliveryStatus === 'failed') {
+        return <AlertCircle className="w-3 h-3 text-red-500" />;
+      } else if (message.readBy && message.readBy.length > 0) {
         return <CheckCheck className="w-3 h-3 text-blue-500" />;
       } else if (message.metadata?.clientInfo) {
         // Assume message is delivered if we have client info
@@ -375,50 +384,65 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({
                 <span>{formatTime(message.createdAt)}</span>
                 {isEdited && <span className="italic">(edited)</span>}
                 {getStatusIcon()}
+                {message.deliveryStatus === 'failed' && (
+                  <>
+                    <span className="text-red-500">Not sent</span>
+                    {onRetry && message.clientId && (
+                      <button
+                        onClick={() => onRetry(message.clientId!)}
+                        className="text-red-500 underline hover:no-underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </>
+                )}
               </div>
             </div>
           </div>
         )}
 
         {/* Message Actions Menu */}
-        <div className={`absolute top-0 ${
-          isOwnMessage ? 'left-0 transform -translate-x-full' : 'right-0 transform translate-x-full'
-        } opacity-0 group-hover:opacity-100 transition-opacity duration-200`}>
-          <div className="flex items-center space-x-1 bg-white border rounded-lg shadow-lg p-1">
-            <button
-              onClick={() => onReply(message)}
-              className="p-1 hover:bg-gray-100 rounded"
-              title="Reply"
-            >
-              <Reply className="w-4 h-4" />
-            </button>
-            {isOwnMessage && (
-              <>
-                <button
-                  onClick={() => onEdit(message)}
-                  className="p-1 hover:bg-gray-100 rounded"
-                  title="Edit"
-                >
-                  <Edit className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => onDelete(message.id)}
-                  className="p-1 hover:bg-gray-100 rounded"
-                  title="Delete"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              </>
-            )}
-            <button
-              onClick={() => onFlag(message.id, 'Inappropriate content')}
-              className="p-1 hover:bg-gray-100 rounded"
-              title="Flag"
-            >
-              <Flag className="w-4 h-4" />
-            </button>
+        {!isPending && (
+          <div className={`absolute top-0 ${
+            isOwnMessage ? 'left-0 transform -translate-x-full' : 'right-0 transform translate-x-full'
+          } opacity-0 group-hover:opacity-100 transition-opacity duration-200`}>
+            <div className="flex items-center space-x-1 bg-white border rounded-lg shadow-lg p-1">
+              <button
+                onClick={() => onReply(message)}
+                className="p-1 hover:bg-gray-100 rounded"
+                title="Reply"
+              >
+                <Reply className="w-4 h-4" />
+              </button>
+              {isOwnMessage && (
+                <>
+                  <button
+                    onClick={() => onEdit(message)}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Edit"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(message.id)}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onFlag(message.id, 'Inappropriate content')}
+                className="p-1 hover:bg-gray-100 rounded"
+                title="Flag"
+              >
+                <Flag className="w-4 h-4" />
+              </button>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -53,6 +53,7 @@ interface ChatWindowProps {
   onShowChannelInfo?: () => void;
   onStartCall?: (type: 'voice' | 'video') => void;
   connectionStatus?: { connected: boolean; connecting: boolean; error: string | null; reconnectAttempts: number };
+  onRetryMessage?: (clientId: string) => void;
 }
 
 const ChatWindow: React.FC<ChatWindowProps> = ({
@@ -75,7 +76,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   onBack,
   onShowChannelInfo,
   onStartCall,
-  connectionStatus
+  connectionStatus,
+  onRetryMessage
 }) => {
   const [replyToMessage, setReplyToMessage] = useState<ChatMessage | null>(null);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
@@ -305,6 +307,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
               isEditing={editingMessageId === message.id}
               onCancelEdit={handleCancelEdit}
               onSaveEdit={handleSaveEdit}
+              onRetry={onRetryMessage}
             />
           ))}
         </div>
@@ -11,17 +11,27 @@
  * - Typing indicators
  * - Message reactions
  * - Real-time status updates
+ * - Offline message cache and outbox with per-message delivery state
  * 
  * @author Workforce Management Team
  * @version 1.0.0
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { ChatChannel, ChatMessage, ChatUser } from '../../../types/chat';
 import ContactList from './ContactList';
 import ChatWindow from './ChatWindow';
-import { chatAPI } from '../../../services/api';
+import { chatAPI, transformMessage } from '../../../services/api';
 import { useChatSocket } from '../../../hooks/useChatSocket';
+import {
+  cacheMessages,
+  getChatOfflineStore,
+  isPendingMessage,
+  mergeMessages,
+  syncChannelMessages
+} from '../../../services/chatOffline';
+
+const MESSAGE_PAGE_SIZE = 50;
 
 interface WhatsAppChatPageProps {
   currentUser: ChatUser;
@@ -40,6 +50,8 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const selectedChannelRef = useRef<string | null>(null);
+  selectedChannelRef.current = selectedChannelId;
 
   // WebSocket integration
   const {
@@ -55,6 +67,9 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
     onError,
     onConnect,
     onDisconnect,
+    onMessageSent,
+    pendingMessages,
+    retryMessage,
     typingUsers,
     addReaction,
     removeReaction,
@@ -70,6 +85,12 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
   // Get selected channel
   const selectedChannel = channels.find(channel => channel.id === selectedChannelId) || null;
 
+  // Server messages plus this channel's messages still in the outbox
+  const visibleMessages = useMemo(
+    () => mergeMessages(messages, pendingMessages.filter(message => message.channelId === selectedChannelId)),
+    [messages, pendingMessages, selectedChannelId]
+  );
+
   // Load channels on component mount
   useEffect(() => {
     loadChannels();
@@ -98,9 +119,15 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
 
   // WebSocket event handlers
   useEffect(() => {
-    // Handle new messages
-    const handleNewMessage = (message: ChatMessage) => {
-      setMessages(prev => [...prev, message]);
+    // Handle new messages; chat-service broadcasts raw rows
+    const handleNewMessage = (raw: any) => {
+      const message: ChatMessage = transformMessage(raw);
+      if (message.channelId === selectedChannelRef.current) {
+        setMessages(prev => mergeMessages(prev, [message]));
+      }
+      cacheMessages(getChatOfflineStore(), message.channelId, [message]).catch(err => {
+        console.error('Error caching message:', err);
+      });
       
       // Update channel's last message
       setChannels(prev => prev.map(channel => 
@@ -134,10 +161,20 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
       setError('Connection error. Trying to reconnect...');
     };
 
-    // Handle connection events
+    // Own messages acknowledged from the outbox
+    const handleMessageSent = (message: ChatMessage) => {
+      if (message.channelId === selectedChannelRef.current) {
+        setMessages(prev => mergeMessages(prev, [message]));
+      }
+    };
+
+    // Handle connection events; catch up on what was missed while disconnected
     const handleConnect = () => {
       console.log('WebSocket connected');
       setError(null);
+      if (selectedChannelRef.current) {
+        loadMessages(selectedChannelRef.current);
+      }
     };
 
     const handleDisconnect = () => {
@@ -153,12 +190,13 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
     onError(handleSocketError);
     onConnect(handleConnect);
     onDisconnect(handleDisconnect);
+    onMessageSent(handleMessageSent);
 
     // Cleanup event handlers
     return () => {
       // Event handlers are automatically cleaned up by the hook
     };
-  }, [onMessage, onTyping, onUserJoined, onUserLeft, onError, onConnect, onDisconnect]);
+  }, [onMessage, onTyping, onUserJoined, onUserLeft, onError, onConnect, onDisconnect, onMessageSent]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -183,18 +221,34 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
     }
   };
 
-  // Load messages
+  // Load messages: the cached history right away, then an incremental sync
+  // from the cache's cursor; without a connection the cache is shown as is
   const loadMessages = async (channelId: string, page = 1) => {
     try {
       setLoading(true);
+      if (page === 1) {
+        const store = getChatOfflineStore();
+        const cached = await store.getChannel(channelId);
+        if (cached && selectedChannelRef.current === channelId) setMessages(cached.messages);
+
+        const result = await syncChannelMessages(
+          store,
+          channelId,
+          cursor => chatAPI.getChannelMessages(channelId, cursor),
+          { pageSize: MESSAGE_PAGE_SIZE }
+        );
+        if (selectedChannelRef.current !== channelId) return;
+        const synced = result.messages.filter(message => !isPendingMessage(message));
+        setMessages(synced);
+        setHasMore(synced.length >= MESSAGE_PAGE_SIZE);
+        if (result.error && !synced.length) setError('Failed to load messages');
+        return;
+      }
+
       const response = await chatAPI.getChannelMessages(channelId);
       if (response && Array.isArray(response)) {
-        if (page === 1) {
-          setMessages(response);
-        } else {
-          setMessages(prev => [...response, ...prev]);
-        }
-        setHasMore(response.length === 50); // Assume 50 is the page size
+        setMessages(prev => mergeMessages(prev, response));
+        setHasMore(response.length === MESSAGE_PAGE_SIZE);
       }
     } catch (err) {
       setError('Failed to load messages');
@@ -217,7 +271,7 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
     if (!selectedChannelId) return;
 
     try {
-      // Send message via WebSocket
+      // Send message via WebSocket; text is queued in the outbox while offline
       await sendMessage(selectedChannelId, content, attachments);
       
       // Clear any previous errors
@@ -472,7 +526,7 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
       {/* Chat Window */}
       <ChatWindow
         channel={selectedChannel}
-        messages={messages}
+        messages={visibleMessages}
         currentUser={currentUser}
         onSendMessage={handleSendMessage}
         onSendVoiceMessage={handleSendVoiceMessage}
@@ -492,6 +546,7 @@ const WhatsAppChatPage: React.FC<WhatsAppChatPageProps> = ({
         onShowChannelInfo={handleShowChannelInfo}
         onStartCall={handleStartCall}
         connectionStatus={connectionStatus}
+        onRetryMessage={retryMessage}
       />
     </div>
   );
@@ -0,0 +1,434 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Eye, GripVertical, Lock, Pencil, Plus, Trash2, X, XCircle } from 'lucide-react';
+import { FormFieldType, FormSchema, FormSchemaField } from '../../types';
+import {
+  addFormSection,
+  CHOICE_FIELD_TYPES,
+  createFormField,
+  FIELD_TYPE_LABELS,
+  getFormVersion,
+  getSchemaFields,
+  insertFormField,
+  moveFormField,
+  moveFormSection,
+  publishFormSchema,
+  removeFormField,
+  removeFormSection,
+  updateFormField,
+  updateFormSection,
+  validateFormSchema,
+  validateFormValues
+} from '../../services/formSchema';
+import FormRenderer from './FormRenderer';
+
+interface FormBuilderProps {
+  versions: FormSchema[];                           // Published versions, oldest first
+  onPublish: (versions: FormSchema[]) => void;
+  onClose: () => void;
+}
+
+type DragItem =
+  | { kind: 'palette'; type: FormFieldType }
+  | { kind: 'field'; id: string }
+  | { kind: 'section'; id: string };
+
+const PALETTE_TYPES = (Object.keys(FIELD_TYPE_LABELS) as FormFieldType[]).filter(type => type !== 'custom');
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500';
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+/**
+ * Form Builder Component
+ *
+ * Drag-and-drop editor for the shared form schema:
+ * - Drag field types from the palette into sections
+ * - Drag fields and sections to reorder them
+ * - Edit labels, keys, options and validation of the selected field
+ * - Design checks, preview and publishing as a new version
+ */
+const FormBuilder: React.FC<FormBuilderProps> = ({ versions, onPublish, onClose }) => {
+  const [draft, setDraft] = useState<FormSchema>(() => getFormVersion(versions));
+  const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewValues, setPreviewValues] = useState<Record<string, any>>({});
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const dragItem = useRef<DragItem | null>(null);
+
+  const latest = versions[versions.length - 1];
+  const issues = useMemo(() => validateFormSchema(draft, versions), [draft, versions]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const publishedFieldIds = useMemo(
+    () => new Set(versions.flatMap(version => getSchemaFields(version).map(field => field.id))),
+    [versions]
+  );
+  const selectedField = getSchemaFields(draft).find(field => field.id === selectedFieldId);
+  const previewErrors = useMemo(
+    () => (showPreview ? validateFormValues(draft, previewValues) : {}),
+    [showPreview, draft, previewValues]
+  );
+
+  const edit = (next: FormSchema) => {
+    setDraft(next);
+    setPublishError(null);
+  };
+
+  const addField = (type: FormFieldType, sectionId: string, beforeFieldId?: string) => {
+    const field = createFormField(type, draft);
+    edit(insertFormField(draft, field, sectionId, beforeFieldId));
+    setSelectedFieldId(field.id);
+  };
+
+  const handleDrop = (sectionId: string, beforeFieldId?: string) => (e: React.DragEvent) => {
+    const item = dragItem.current;
+    // Sections dropped onto a field bubble up to the section they belong to
+    if (!item || (item.kind === 'section' && beforeFieldId)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragItem.current = null;
+
+    if (item.kind === 'palette') {
+      addField(item.type, sectionId, beforeFieldId);
+    } else if (item.kind === 'field') {
+      if (item.id !== beforeFieldId) edit(moveFormField(draft, item.id, sectionId, beforeFieldId));
+    } else if (item.id !== sectionId) {
+      edit(moveFormSection(draft, item.id, sectionId));
+    }
+  };
+
+  const startDrag = (item: DragItem) => (e: React.DragEvent) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    dragItem.current = item;
+  };
+
+  const allowDrop = (e: React.DragEvent) => {
+    if (dragItem.current) e.preventDefault();
+  };
+
+  const updateSelected = (changes: Partial<Omit<FormSchemaField, 'id'>>) => {
+    if (selectedField) edit(updateFormField(draft, selectedField.id, changes));
+  };
+
+  const updateValidation = (changes: NonNullable<FormSchemaField['validation']>) => {
+    if (!selectedField) return;
+    const validation = { ...selectedField.validation, ...changes };
+    (Object.keys(validation) as (keyof typeof validation)[]).forEach(key => {
+      if (validation[key] === undefined || validation[key] === '') delete validation[key];
+    });
+    updateSelected({ validation: Object.keys(validation).length ? validation : undefined });
+  };
+
+  const changeType = (type: FormFieldType) => {
+    if (!selectedField) return;
+    const starter = createFormField(type, draft);
+    updateSelected({
+      type,
+      options: CHOICE_FIELD_TYPES.includes(type) ? (selectedField.options?.length ? selectedField.options : starter.options) : undefined,
+    });
+  };
+
+  const handlePublish = () => {
+    try {
+      const next = publishFormSchema(versions, draft);
+      if (next === versions) {
+        setPublishError('Nothing has changed since the last version');
+        return;
+      }
+      onPublish(next);
+    } catch (error) {
+      setPublishError(error instanceof Error ? error.message : 'Publishing failed');
+    }
+  };
+
+  const fieldIssues = (fieldId: string) => issues.filter(issue => issue.fieldId === fieldId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg w-full max-w-6xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex-1 mr-4">
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => edit({ ...draft, title: e.target.value })}
+              className="text-lg font-semibold text-gray-900 w-full border-0 border-b border-transparent focus:border-blue-500 focus:ring-0 px-0"
+              placeholder="Form title"
+            />
+            <p className="text-xs text-gray-500">
+              Editing version {latest?.version ?? 1}. Publishing saves version {(latest?.version ?? 0) + 1}; existing
+              submissions keep showing with the version they were entered in.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowPreview(!showPreview)}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm border ${showPreview ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+            >
+              {showPreview ? <Pencil size={16} /> : <Eye size={16} />}
+              {showPreview ? 'Edit' : 'Preview'}
+            </button>
+            <button
+              onClick={handlePublish}
+              disabled={errorCount > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Publish
+            </button>
+            <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" aria-label="Close form builder">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {showPreview ? (
+          <div className="flex-1 overflow-y-auto p-6">
+            <div className="max-w-2xl mx-auto">
+              <FormRenderer
+                schema={draft}
+                values={previewValues}
+                errors={previewErrors}
+                onChange={(key, value) => setPreviewValues(prev => ({ ...prev, [key]: value }))}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Palette */}
+            <div className="w-48 border-r border-gray-200 p-4 overflow-y-auto">
+              <h3 className="text-xs font-semibold text-gray-500 uppercase mb-3">Field types</h3>
+              <div className="space-y-1">
+                {PALETTE_TYPES.map(type => (
+                  <div
+                    key={type}
+                    draggable
+                    onDragStart={startDrag({ kind: 'palette', type })}
+                    onClick={() => addField(type, draft.sections[draft.sections.length - 1].id)}
+                    className="px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded cursor-grab hover:bg-blue-50 hover:border-blue-300"
+                  >
+                    {FIELD_TYPE_LABELS[type]}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Canvas */}
+            <div className="flex-1 p-4 overflow-y-auto space-y-4 bg-gray-50">
+              {draft.sections.map(section => (
+                <div
+                  key={section.id}
+                  onDragOver={allowDrop}
+                  onDrop={handleDrop(section.id)}
+                  className="bg-white border border-gray-200 rounded-lg"
+                >
+                  <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-100">
+                    <span draggable onDragStart={startDrag({ kind: 'section', id: section.id })} className="cursor-grab text-gray-400">
+                      <GripVertical size={16} />
+                    </span>
+                    <input
+                      type="text"
+                      value={section.title}
+                      onChange={(e) => edit(updateFormSection(draft, section.id, { title: e.target.value }))}
+                      className="flex-1 text-sm font-medium text-gray-900 border-0 focus:ring-0 px-0"
+                      placeholder="Section title"
+                    />
+                    {draft.sections.length > 1 && (
+                      <button
+                        onClick={() => edit(removeFormSection(draft, section.id))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove section (its fields move to the previous section)"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                  <div className="p-3 space-y-2 min-h-[60px]">
+                    {section.fields.map(field => {
+                      const problems = fieldIssues(field.id);
+                      return (
+                        <div
+                          key={field.id}
+                          draggable
+                          onDragStart={startDrag({ kind: 'field', id: field.id })}
+                          onDragOver={allowDrop}
+                          onDrop={handleDrop(section.id, field.id)}
+                          onClick={() => setSelectedFieldId(field.id)}
+                          className={`flex items-center gap-2 px-3 py-2 border rounded cursor-grab ${
+                            selectedFieldId === field.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <GripVertical size={14} className="text-gray-400" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-gray-900 truncate">
+                              {field.label || <span className="italic text-gray-400">Untitled</span>}
+                              {field.required && <span className="text-red-500 ml-1">*</span>}
+                            </p>
+                            <p className="text-xs text-gray-500">{FIELD_TYPE_LABELS[field.type]} · {field.key}</p>
+                          </div>
+                          {field.hidden && <span className="text-xs text-gray-400">hidden</span>}
+                          {problems.some(issue => issue.severity === 'error') && <XCircle size={14} className="text-red-500" />}
+                        </div>
+                      );
+                    })}
+                    {!section.fields.length && (
+                      <p className="text-xs text-gray-400 text-center py-4">Drop fields here</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => edit(addFormSection(draft, `Section ${draft.sections.length + 1}`))}
+                className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus size={16} />
+                Add section
+              </button>
+            </div>
+
+            {/* Properties */}
+            <div className="w-80 border-l border-gray-200 p-4 overflow-y-auto">
+              {selectedField ? (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold text-gray-900">Field properties</h3>
+                    <button
+                      onClick={() => {
+                        edit(removeFormField(draft, selectedField.id));
+                        setSelectedFieldId(null);
+                      }}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove field"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Label</label>
+                    <input type="text" value={selectedField.label} onChange={(e) => updateSelected({ label: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="flex items-center gap-1 text-xs font-medium text-gray-700 mb-1">
+                      Data key
+                      {publishedFieldIds.has(selectedField.id) && <Lock size={12} className="text-gray-400" />}
+                    </label>
+                    <input
+                      type="text"
+                      value={selectedField.key}
+                      disabled={publishedFieldIds.has(selectedField.id)}
+                      onChange={(e) => updateSelected({ key: e.target.value })}
+                      className={inputClass}
+                    />
+                    {publishedFieldIds.has(selectedField.id) && (
+                      <p className="text-xs text-gray-500 mt-1">Locked: submissions are stored under this key</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+                    <select value={selectedField.type} onChange={(e) => changeType(e.target.value as FormFieldType)} className={inputClass}>
+                      {(Object.keys(FIELD_TYPE_LABELS) as FormFieldType[]).map(type => (
+                        <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={selectedField.required} onChange={(e) => updateSelected({ required: e.target.checked })} />
+                      Required
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={Boolean(selectedField.hidden)} onChange={(e) => updateSelected({ hidden: e.target.checked || undefined })} />
+                      Hidden
+                    </label>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Placeholder</label>
+                    <input type="text" value={selectedField.placeholder || ''} onChange={(e) => updateSelected({ placeholder: e.target.value || undefined })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Help text</label>
+                    <input type="text" value={selectedField.helpText || ''} onChange={(e) => updateSelected({ helpText: e.target.value || undefined })} className={inputClass} />
+                  </div>
+
+                  {CHOICE_FIELD_TYPES.includes(selectedField.type) && (
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Options (one per line)</label>
+                      <textarea
+                        rows={4}
+                        value={(selectedField.options || []).map(option => option.label).join('\n')}
+                        onChange={(e) => updateSelected({
+                          options: e.target.value.split('\n').map((label, index) => {
+                            const existing = selectedField.options?.[index];
+                            // Values of existing options stay put so stored answers still match
+                            return existing ? { ...existing, label } : { value: label.trim(), label };
+                          }),
+                        })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+
+                  {['text', 'textarea', 'signature'].includes(selectedField.type) && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Min length</label>
+                        <input type="number" value={selectedField.validation?.minLength ?? ''} onChange={(e) => updateValidation({ minLength: toNumber(e.target.value) })} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Max length</label>
+                        <input type="number" value={selectedField.validation?.maxLength ?? ''} onChange={(e) => updateValidation({ maxLength: toNumber(e.target.value) })} className={inputClass} />
+                      </div>
+                      <div className="col-span-2">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Pattern</label>
+                        <input type="text" value={selectedField.validation?.pattern || ''} onChange={(e) => updateValidation({ pattern: e.target.value || undefined })} className={inputClass} placeholder="e.g. ^[A-Z]{2}\d+$" />
+                      </div>
+                    </div>
+                  )}
+
+                  {['number', 'rating', 'multiselect'].includes(selectedField.type) && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Minimum</label>
+                        <input type="number" value={selectedField.validation?.min ?? ''} onChange={(e) => updateValidation({ min: toNumber(e.target.value) })} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Maximum</label>
+                        <input type="number" value={selectedField.validation?.max ?? ''} onChange={(e) => updateValidation({ max: toNumber(e.target.value) })} className={inputClass} />
+                      </div>
+                    </div>
+                  )}
+
+                  {selectedField.validation && (
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Validation message</label>
+                      <input type="text" value={selectedField.validation.message || ''} onChange={(e) => updateValidation({ message: e.target.value || undefined })} className={inputClass} />
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Select a field to edit its properties, or drag a field type into a section.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {(issues.length > 0 || publishError) && (
+          <div className="border-t border-gray-200 px-6 py-3 max-h-32 overflow-y-auto space-y-1">
+            {publishError && <p className="text-sm text-red-600">{publishError}</p>}
+            {issues.map((issue, index) => (
+              <button
+                key={index}
+                onClick={() => issue.fieldId && setSelectedFieldId(issue.fieldId)}
+                className={`flex items-center gap-2 text-sm text-left ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+              >
+                {issue.severity === 'error' ? <XCircle size={14} /> : <AlertTriangle size={14} />}
+                {issue.message}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FormBuilder;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { MapPin, Star } from 'lucide-react';
+import { FormSchema, FormSchemaField } from '../../types';
+
+interface FormRendererProps {
+  schema: FormSchema;
+  values: Record<string, any>;
+  onChange?: (key: string, value: any) => void;
+  errors?: Record<string, string>;
+  readOnly?: boolean;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50';
+
+/**
+ * Form Renderer Component
+ *
+ * Renders any version of a shared form schema for filling in or previewing:
+ * - One input per field type, sections in order
+ * - Hidden fields are skipped
+ * - Validation messages from validateFormValues under each field
+ */
+const FormRenderer: React.FC<FormRendererProps> = ({ schema, values, onChange, errors = {}, readOnly = false }) => {
+  const set = (key: string, value: any) => onChange?.(key, value);
+
+  const renderInput = (field: FormSchemaField) => {
+    const value = values[field.key] ?? field.defaultValue;
+    const common = { id: `field-${field.id}`, disabled: readOnly, className: inputClass };
+
+    switch (field.type) {
+      case 'textarea':
+        return <textarea {...common} rows={3} placeholder={field.placeholder} value={value ?? ''} onChange={(e) => set(field.key, e.target.value)} />;
+      case 'number':
+        return <input {...common} type="number" placeholder={field.placeholder} value={value ?? ''} onChange={(e) => set(field.key, e.target.value === '' ? undefined : Number(e.target.value))} />;
+      case 'date':
+      case 'time':
+        return <input {...common} type={field.type} value={value ?? ''} onChange={(e) => set(field.key, e.target.value)} />;
+      case 'datetime':
+        return <input {...common} type="datetime-local" value={value ?? ''} onChange={(e) => set(field.key, e.target.value)} />;
+      case 'select':
+        return (
+          <select {...common} value={value ?? ''} onChange={(e) => set(field.key, e.target.value || undefined)}>
+            <option value="">{field.placeholder || 'Select...'}</option>
+            {field.options?.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        );
+      case 'radio':
+      case 'multiselect': {
+        const chosen: string[] = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+        return (
+          <div className="space-y-1">
+            {field.options?.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type={field.type === 'radio' ? 'radio' : 'checkbox'}
+                  name={field.id}
+                  disabled={readOnly}
+                  checked={chosen.includes(option.value)}
+                  onChange={() => set(field.key, field.type === 'radio'
+                    ? option.value
+                    : chosen.includes(option.value) ? chosen.filter(item => item !== option.value) : [...chosen, option.value])}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'checkbox':
+        return (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" disabled={readOnly} checked={Boolean(value)} onChange={(e) => set(field.key, e.target.checked)} />
+            {field.placeholder || 'Yes'}
+          </label>
+        );
+      case 'yes_no':
+        return (
+          <div className="flex gap-2">
+            {[true, false].map((answer) => (
+              <button
+                key={String(answer)}
+                type="button"
+                disabled={readOnly}
+                onClick={() => set(field.key, answer)}
+                className={`px-4 py-1 rounded-lg text-sm border ${value === answer ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              >
+                {answer ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        );
+      case 'rating': {
+        const max = field.config?.ratingScale?.max || field.validation?.max || 5;
+        return (
+          <div className="flex gap-1">
+            {Array.from({ length: max }, (_, index) => index + 1).map((score) => (
+              <button key={score} type="button" disabled={readOnly} onClick={() => set(field.key, score)} aria-label={`${score} of ${max}`}>
+                <Star size={20} className={value >= score ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'} />
+              </button>
+            ))}
+          </div>
+        );
+      }
+      case 'file':
+      case 'image':
+        return (
+          <input
+            {...common}
+            type="file"
+            multiple
+            accept={field.type === 'image' ? 'image/*' : field.config?.fileTypes?.join(',')}
+            onChange={(e) => set(field.key, Array.from(e.target.files || []).map(file => ({ name: file.name, size: file.size })))}
+          />
+        );
+      case 'location':
+        return (
+          <button
+            type="button"
+            disabled={readOnly}
+            onClick={() => navigator.geolocation?.getCurrentPosition(position =>
+              set(field.key, { latitude: position.coords.latitude, longitude: position.coords.longitude }))}
+            className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <MapPin size={16} />
+            {value ? `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}` : 'Use current location'}
+          </button>
+        );
+      case 'signature':
+        return <input {...common} type="text" placeholder="Type your full name to sign" value={value ?? ''} onChange={(e) => set(field.key, e.target.value)} />;
+      case 'custom':
+        return <p className="text-sm text-gray-500 italic">Answered in the mobile app</p>;
+      default:
+        return <input {...common} type="text" placeholder={field.placeholder} value={value ?? ''} onChange={(e) => set(field.key, e.target.value)} />;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {schema.sections.map((section) => {
+        const fields = section.fields.filter(field => !field.hidden);
+        if (!fields.length) return null;
+        return (
+          <div key={section.id}>
+            {schema.sections.length > 1 && (
+              <div className="mb-3">
+                <h3 className="font-medium text-gray-900">{section.title}</h3>
+                {section.description && <p className="text-sm text-gray-600">{section.description}</p>}
+              </div>
+            )}
+            <div className="space-y-4">
+              {fields.map((field) => (
+                <div key={field.id}>
+                  <label htmlFor={`field-${field.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}
+                    {field.required && <span className="text-red-500 ml-1">*</span>}
+                  </label>
+                  {renderInput(field)}
+                  {field.helpText && <p className="text-xs text-gray-500 mt-1">{field.helpText}</p>}
+                  {errors[field.key] && <p className="text-xs text-red-600 mt-1">{errors[field.key]}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FormRenderer;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FormSchema } from '../../types';
+import { renderFormSubmission } from '../../services/formSchema';
+
+interface FormSubmissionViewProps {
+  versions: FormSchema[];
+  data: Record<string, any>;
+  version?: number;              // Form version the data was entered in (1 when missing)
+}
+
+/**
+ * Form Submission View Component
+ *
+ * Shows submitted data with the labels and layout of the form version it
+ * was entered in, plus any data that version has no field for.
+ */
+const FormSubmissionView: React.FC<FormSubmissionViewProps> = ({ versions, data, version }) => {
+  let rendered: ReturnType<typeof renderFormSubmission>;
+  try {
+    rendered = renderFormSubmission(versions, data, version);
+  } catch (error) {
+    return <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'This submission cannot be shown'}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">Entered in version {rendered.schema.version} of this form</p>
+      {rendered.sections.map((section) => (
+        <div key={section.id}>
+          {rendered.sections.length > 1 && <h4 className="text-sm font-medium text-gray-900 mb-2">{section.title}</h4>}
+          <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+            {section.values.map((value) => (
+              <React.Fragment key={value.key}>
+                <dt className="text-gray-500">{value.label}</dt>
+                <dd className="col-span-2 text-gray-900">{value.display}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+      ))}
+      {rendered.extra.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Other data</h4>
+          <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+            {rendered.extra.map((value) => (
+              <React.Fragment key={value.key}>
+                <dt className="text-gray-500">{value.label}</dt>
+                <dd className="col-span-2 text-gray-900">{value.display}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormSubmissionView;
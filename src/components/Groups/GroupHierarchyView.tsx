@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   ChevronRight, 
   ChevronDown, 
@@ -9,17 +9,30 @@ import {
   UserPlus,
   Settings,
   Eye,
-  Building2
+  Building2,
+  GripVertical,
+  History,
+  RotateCcw,
+  AlertTriangle,
+  XCircle
 } from 'lucide-react';
-import { Group, GroupHierarchy, GroupFilters } from '../../types';
+import { Group, GroupHierarchy, GroupFilters, GroupMember, ReorgEntry, ReorgMove, ReorgPreview } from '../../types';
+import { previewReorgMove, queryReorgHistory, REORG_IMPACT_ASPECTS } from '../../services/groupRestructure';
+import { useAuthorization } from '../../contexts/AuthorizationContext';
 
 interface GroupHierarchyViewProps {
   groups: Group[];
   selectedGroup: Group | null;
   onGroupSelect: (group: Group) => void;
   filters: GroupFilters;
+  groupMembers?: GroupMember[];  // Member assignments shown under each group
+  history?: ReorgEntry[];        // Re-org history, newest shown first
+  onMove?: (move: ReorgMove) => void; // Commit a previewed move; drag and drop is off without it
+  onUndo?: (entryId: string) => void; // Throws when a later move has to be undone first
 }
 
+type DraggedItem = { type: 'group'; groupId: string } | { type: 'member'; memberId: string; groupId: string };
+
 /**
  * Group Hierarchy View Component
  * 
@@ -27,7 +40,10 @@ interface GroupHierarchyViewProps {
  * - Expandable/collapsible tree view
  * - Leader indicators (yellow star for approval authority, black star for view only)
  * - Member counts and workplace assignments
- * - Drag and drop member reassignment
+ * - Drag and drop moving of groups and members, validated against each
+ *   group's settings and previewed (approvers, workplaces, report
+ *   visibility) before the move is committed
+ * - Re-org history with undo
  * - Quick actions for each group
  */
 const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
@@ -35,9 +51,19 @@ const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
   selectedGroup,
   onGroupSelect,
   filters,
+  groupMembers = [],
+  history = [],
+  onMove,
+  onUndo,
 }) => {
+  const { can } = useAuthorization();
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set(['1'])); // Start with top-level expanded
-  const [draggedMember, setDraggedMember] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<DraggedItem | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ReorgPreview | null>(null);
+  const [historyGroupOnly, setHistoryGroupOnly] = useState(false);
+  const [showUndone, setShowUndone] = useState(false);
+  const [undoError, setUndoError] = useState<string | null>(null);
 
   // Build hierarchy from flat groups
   const buildHierarchy = (groups: Group[]): GroupHierarchy[] => {
@@ -98,26 +124,61 @@ const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
 
   const isExpanded = (groupId: string) => expandedGroups.has(groupId);
 
-  const handleDragStart = (e: React.DragEvent, memberId: string) => {
-    setDraggedMember(memberId);
+  const structure = useMemo(() => ({ groups, groupMembers }), [groups, groupMembers]);
+  const canEditGroup = (groupId: string) => !!onMove && can('edit', { type: 'group', id: groupId });
+
+  const memberName = (memberId: string) =>
+    groupMembers.find(gm => gm.memberId === memberId)?.memberName || memberId;
+
+  const handleDragStart = (e: React.DragEvent, item: DraggedItem) => {
+    e.stopPropagation();
+    setDragged(item);
     e.dataTransfer.effectAllowed = 'move';
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
+  const handleDragOver = (e: React.DragEvent, targetGroupId: string) => {
+    if (!dragged || !canEditGroup(targetGroupId)) return;
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
+    setDropTargetId(targetGroupId);
   };
 
   const handleDrop = (e: React.DragEvent, targetGroupId: string) => {
     e.preventDefault();
-    if (draggedMember && draggedMember !== targetGroupId) {
-      // Handle member reassignment
-      console.log(`Moving member ${draggedMember} to group ${targetGroupId}`);
-      // TODO: Implement actual member reassignment logic
+    if (dragged && dragged.groupId !== targetGroupId) {
+      const move: ReorgMove = dragged.type === 'group'
+        ? { type: 'group', groupId: dragged.groupId, toParentId: targetGroupId }
+        : { type: 'member', memberId: dragged.memberId, fromGroupId: dragged.groupId, toGroupId: targetGroupId };
+      setPreview(previewReorgMove(structure, move));
+    }
+    setDragged(null);
+    setDropTargetId(null);
+  };
+
+  const handleConfirmMove = () => {
+    if (preview && !preview.errors.length && onMove) {
+      onMove(preview.move);
+      setExpandedGroups(prev => new Set(prev).add(preview.move.type === 'group' ? preview.move.toParentId : preview.move.toGroupId));
     }
-    setDraggedMember(null);
+    setPreview(null);
   };
 
+  const handleUndo = (entryId: string) => {
+    if (!onUndo) return;
+    try {
+      onUndo(entryId);
+      setUndoError(null);
+    } catch (error) {
+      setUndoError(error instanceof Error ? error.message : 'Could not undo this re-org');
+    }
+  };
+
+  const visibleHistory = queryReorgHistory(history, {
+    groupId: historyGroupOnly ? selectedGroup?.id : undefined,
+    includeUndone: showUndone,
+  });
+  const latestActiveId = queryReorgHistory(history)[0]?.id;
+
   const renderGroupNode = (group: GroupHierarchy, level: number = 0) => {
     const hasChildren = group.children.length > 0;
     const expanded = isExpanded(group.id);
@@ -127,12 +188,21 @@ const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
       <div key={group.id} className="space-y-1">
         <div
           className={`flex items-center space-x-2 p-2 rounded-md cursor-pointer transition-colors ${
-            isSelected
+            dropTargetId === group.id
+              ? 'bg-green-50 border border-green-300'
+              : isSelected
               ? 'bg-blue-50 border border-blue-200'
               : 'hover:bg-gray-50 border border-transparent'
           }`}
           onClick={() => onGroupSelect(groups.find(g => g.id === group.id)!)}
-          onDragOver={handleDragOver}
+          draggable={!group.isTopLevel && canEditGroup(group.id)}
+          onDragStart={(e) => handleDragStart(e, { type: 'group', groupId: group.id })}
+          onDragEnd={() => {
+            setDragged(null);
+            setDropTargetId(null);
+          }}
+          onDragOver={(e) => handleDragOver(e, group.id)}
+          onDragLeave={() => setDropTargetId(null)}
           onDrop={(e) => handleDrop(e, group.id)}
         >
           {/* Indentation */}
@@ -238,6 +308,35 @@ const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
           </div>
         </div>
 
+        {/* Members */}
+        {expanded && groupMembers.some(gm => gm.isActive && gm.groupId === group.id) && (
+          <div className="space-y-1" style={{ marginLeft: `${level * 20 + 56}px` }}>
+            {groupMembers
+              .filter(gm => gm.isActive && gm.groupId === group.id)
+              .map(gm => (
+                <div
+                  key={gm.id}
+                  draggable={canEditGroup(group.id)}
+                  onDragStart={(e) => handleDragStart(e, { type: 'member', memberId: gm.memberId, groupId: group.id })}
+                  className={`flex items-center space-x-2 px-2 py-1 text-xs text-gray-600 rounded ${
+                    canEditGroup(group.id) ? 'cursor-move hover:bg-gray-50' : ''
+                  }`}
+                >
+                  {canEditGroup(group.id) && <GripVertical className="h-3 w-3 text-gray-400" />}
+                  {gm.isLeader && (
+                    gm.hasApprovalAuthority
+                      ? <Star className="h-3 w-3 text-yellow-500" />
+                      : <StarOff className="h-3 w-3 text-gray-500" />
+                  )}
+                  <span>{gm.memberName}</span>
+                  {gm.assignedWorkplaces.length > 0 && (
+                    <span className="text-gray-400">{gm.assignedWorkplaces.join(', ')}</span>
+                  )}
+                </div>
+              ))}
+          </div>
+        )}
+
         {/* Children */}
         {hasChildren && expanded && (
           <div className="ml-6">
@@ -283,7 +382,9 @@ const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
                 </span>
               </p>
               <p>
-                <strong>Drag & Drop:</strong> Move members between groups by dragging them to the target group.
+                <strong>Drag & Drop:</strong> Move a group under a new parent, or a member to another group, by dragging
+                it onto the target group. You will see who gains or loses approvers, workplaces and report visibility
+                before the move is made, and every move can be undone from the history below.
               </p>
             </div>
           </div>
@@ -329,8 +430,157 @@ const GroupHierarchyView: React.FC<GroupHierarchyViewProps> = ({
           </div>
         </div>
       )}
+
+      {/* Re-org History */}
+      {onMove && (
+        <div className="mt-6 border border-gray-200 rounded-lg">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900 flex items-center">
+              <History className="h-4 w-4 mr-2 text-gray-500" />
+              Re-org History
+            </h4>
+            <div className="flex items-center space-x-4 text-xs text-gray-600">
+              <label className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={historyGroupOnly}
+                  disabled={!selectedGroup}
+                  onChange={(e) => setHistoryGroupOnly(e.target.checked)}
+                />
+                <span>Selected group only</span>
+              </label>
+              <label className="flex items-center space-x-1">
+                <input type="checkbox" checked={showUndone} onChange={(e) => setShowUndone(e.target.checked)} />
+                <span>Show undone</span>
+              </label>
+            </div>
+          </div>
+          {undoError && (
+            <div className="px-4 py-2 bg-red-50 text-sm text-red-700 flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {undoError}
+            </div>
+          )}
+          {visibleHistory.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {visibleHistory.map(entry => (
+                <li key={entry.id} className="px-4 py-3 flex items-center justify-between">
+                  <div className={entry.undoneAt ? 'text-gray-400 line-through' : ''}>
+                    <p className="text-sm text-gray-900">{entry.summary}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.performedBy} · {new Date(entry.performedAt).toLocaleString()} · {entry.affectedMemberIds.length} members affected
+                    </p>
+                  </div>
+                  {entry.undoneAt ? (
+                    <span className="text-xs text-gray-500">Undone by {entry.undoneBy}</span>
+                  ) : (
+                    <button
+                      onClick={() => handleUndo(entry.id)}
+                      disabled={!onUndo}
+                      className={`inline-flex items-center px-2 py-1 border text-xs font-medium rounded ${
+                        entry.id === latestActiveId
+                          ? 'border-blue-300 text-blue-700 hover:bg-blue-50'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Undo
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-3 text-sm text-gray-500">No re-orgs yet.</p>
+          )}
+        </div>
+      )}
+
+      {/* Move Preview Modal */}
+      {preview && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Preview Re-org</h3>
+              <button onClick={() => setPreview(null)} className="text-gray-400 hover:text-gray-600">
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-700 mb-4">{preview.summary.replace(/^Moved/, 'Move')}</p>
+
+            {preview.errors.length > 0 ? (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700 space-y-1">
+                {preview.errors.map(error => (
+                  <p key={error} className="flex items-center">
+                    <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                    {error}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {preview.depthChanges.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Depth changes: {preview.depthChanges
+                      .map(change => `${groups.find(g => g.id === change.groupId)?.name || change.groupId} ${change.from} → ${change.to}`)
+                      .join(', ')}
+                  </p>
+                )}
+                {REORG_IMPACT_ASPECTS.map(aspect => {
+                  const changes = preview.changes.filter(change => change.aspect === aspect.value);
+                  const label = (id: string) => aspect.value === 'workplaces' ? id : memberName(id);
+                  return (
+                    <div key={aspect.value}>
+                      <h4 className="text-sm font-medium text-gray-900 mb-1">{aspect.label}</h4>
+                      {changes.length > 0 ? (
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Member</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Gains</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Loses</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {changes.map(change => (
+                              <tr key={change.memberId}>
+                                <td className="px-3 py-2 text-gray-900">{change.memberName}</td>
+                                <td className="px-3 py-2 text-green-700">{change.gained.map(label).join(', ') || '—'}</td>
+                                <td className="px-3 py-2 text-red-700">{change.lost.map(label).join(', ') || '—'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className="text-xs text-gray-500">No changes.</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <button
+                onClick={() => setPreview(null)}
+                className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmMove}
+                disabled={preview.errors.length > 0}
+                className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Confirm Move
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default GroupHierarchyView; 
\ No newline at end of file
+export default GroupHierarchyView;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   Users, 
   Building2, 
@@ -10,7 +10,9 @@ import {
   Crown,
   MapPin
 } from 'lucide-react';
-import { Group, GroupHierarchy, GroupStats, GroupFilters, GroupType } from '../../types';
+import { Group, GroupHierarchy, GroupStats, GroupFilters, GroupType, GroupMember, GroupMemberRole, ReorgMove } from '../../types';
+import { commitReorgMove, loadReorgState, ReorgState, saveReorgState, undoReorgMove } from '../../services/groupRestructure';
+import { useAuth } from '../../contexts/AuthContext';
 import GroupHierarchyView from './GroupHierarchyView';
 import GroupManagement from './GroupManagement';
 import GroupSettings from './GroupSettings';
@@ -29,18 +31,19 @@ import GroupAnalytics from './GroupAnalytics';
  * - Top-level group (company name) that cannot be deleted
  * - Subgroups with hierarchical structure
  * - Leader assignments with yellow star (approval authority) or black star (view only)
- * - Drag and drop member reassignment
+ * - Drag and drop restructuring of groups and members with impact preview and undo
  * - Workplace integration
  * - Role-based access control
  */
 const GroupPage: React.FC = () => {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<'overview' | 'management' | 'settings' | 'analytics'>('overview');
   const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
   const [filters, setFilters] = useState<GroupFilters>({});
   const [searchTerm, setSearchTerm] = useState('');
 
   // Mock data - replace with actual API calls
-  const [groups] = useState<Group[]>([
+  const [initialGroups] = useState<Group[]>([
     {
       id: '1',
       name: 'Acme Corporation',
@@ -130,25 +133,93 @@ const GroupPage: React.FC = () => {
       createdAt: '2024-01-03T00:00:00Z',
       updatedAt: '2024-01-15T00:00:00Z',
     },
+    {
+      id: '4',
+      name: 'Operations',
+      description: 'Store operations and merchandising',
+      parentGroupId: '1',
+      depth: 1,
+      isTopLevel: false,
+      isActive: true,
+      memberCount: 30,
+      leaderCount: 1,
+      members: ['16', '17', '18'],
+      workplaceIds: ['wp3'],
+      settings: {
+        allowSubgroups: true,
+        maxDepth: 6,
+        allowMemberReassignment: true,
+        requireLeaderApproval: true,
+        autoAssignNewMembers: false,
+        notificationSettings: {
+          emailNotifications: true,
+          pushNotifications: true,
+          smsNotifications: false,
+          memberChangeNotifications: true,
+          leaderChangeNotifications: true,
+        },
+      },
+      createdBy: 'admin1',
+      createdAt: '2024-01-04T00:00:00Z',
+      updatedAt: '2024-01-15T00:00:00Z',
+    },
+  ]);
+
+  const groupMember = (groupId: string, memberId: string, memberName: string, extra: Partial<GroupMember> = {}): GroupMember => ({
+    id: `${groupId}-${memberId}`,
+    groupId,
+    memberId,
+    memberName,
+    memberEmail: `${memberName.split(' ')[0].toLowerCase()}@acme.com`,
+    role: extra.isLeader ? GroupMemberRole.LEADER : GroupMemberRole.MEMBER,
+    isLeader: false,
+    hasApprovalAuthority: false,
+    assignedWorkplaces: [],
+    assignedAt: '2024-01-10T00:00:00Z',
+    assignedBy: 'admin1',
+    isActive: true,
+    ...extra,
+  });
+
+  const [initialGroupMembers] = useState<GroupMember[]>([
+    groupMember('1', '1', 'Alice Morgan', { isLeader: true, hasApprovalAuthority: true }),
+    groupMember('2', '6', 'John Doe', { isLeader: true, hasApprovalAuthority: true, assignedWorkplaces: ['wp1', 'wp2'] }),
+    groupMember('2', '7', 'Jane Smith', { assignedWorkplaces: ['wp2'] }),
+    groupMember('3', '11', 'Mike Chen', { isLeader: true, assignedWorkplaces: ['wp1'] }),
+    groupMember('3', '12', 'Sara Lopez', { assignedWorkplaces: ['wp1'] }),
+    groupMember('3', '13', 'Tom Baker'),
+    groupMember('4', '16', 'Priya Patel', { isLeader: true, hasApprovalAuthority: true, assignedWorkplaces: ['wp3'] }),
+    groupMember('4', '17', 'Leo Martin', { assignedWorkplaces: ['wp3'] }),
   ]);
 
+  const [reorg, setReorg] = useState<ReorgState>(() => loadReorgState({
+    structure: { groups: initialGroups, groupMembers: initialGroupMembers },
+    history: [],
+  }));
+  const { groups, groupMembers } = reorg.structure;
+
+  useEffect(() => {
+    saveReorgState(reorg);
+  }, [reorg]);
+
   const [groupStats] = useState<GroupStats>({
-    totalGroups: 3,
-    activeGroups: 3,
+    totalGroups: 4,
+    activeGroups: 4,
     topLevelGroups: 1,
-    subgroups: 2,
+    subgroups: 3,
     totalMembers: 150,
     totalLeaders: 5,
     averageGroupSize: 50,
     groupsByDepth: [
       { depth: 0, count: 1 },
-      { depth: 1, count: 1 },
+      { depth: 1, count: 2 },
       { depth: 2, count: 1 },
     ],
     membersByGroup: [
       { groupId: '1', groupName: 'Acme Corporation', memberCount: 150, leaderCount: 5 },
       { groupId: '2', groupName: 'Sales Department', memberCount: 45, leaderCount: 3 },
       { groupId: '3', groupName: 'North Region', memberCount: 20, leaderCount: 2 },
+      { groupId: '4', groupName: 'Operations', memberCount: 30, leaderCount: 1 },
     ],
     recentActivity: [
       { groupId: '2', groupName: 'Sales Department', activity: 'New member added', timestamp: '2024-01-15T10:30:00Z' },
@@ -171,6 +242,22 @@ const GroupPage: React.FC = () => {
     setSelectedGroup(group);
   };
 
+  // Keep the selection pointing at the group's current record after a re-org
+  const applyReorg = (next: ReorgState) => {
+    setReorg(next);
+    setSelectedGroup(prev => (prev && next.structure.groups.find(g => g.id === prev.id)) || null);
+  };
+
+  const handleMove = (move: ReorgMove) => {
+    const { structure, history } = commitReorgMove(reorg.structure, reorg.history, move, user?.name || 'Unknown');
+    applyReorg({ structure, history });
+  };
+
+  // ReorgError propagates so the hierarchy view can show why the undo was refused
+  const handleUndo = (entryId: string) => {
+    applyReorg(undoReorgMove(reorg.structure, reorg.history, entryId, user?.name || 'Unknown'));
+  };
+
   const handleSearch = (term: string) => {
     setSearchTerm(term);
     setFilters(prev => ({ ...prev, searchTerm: term }));
@@ -329,6 +416,10 @@ const GroupPage: React.FC = () => {
                   selectedGroup={selectedGroup}
                   onGroupSelect={handleGroupSelect}
                   filters={filters}
+                  groupMembers={groupMembers}
+                  history={reorg.history}
+                  onMove={handleMove}
+                  onUndo={handleUndo}
                 />
               </div>
             </div>
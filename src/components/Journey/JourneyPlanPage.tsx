@@ -27,9 +27,11 @@ import {
   Trash2,
   CheckCircle,
   AlertCircle,
-  Play
+  Play,
+  Route
 } from 'lucide-react';
 import { JourneyPlan, JourneyLocation } from '../../types';
+import { measureJourneyPlan, optimizeJourneyPlan } from '../../services/routeSolver';
 import toast from 'react-hot-toast';
 
 // Mock data - in real app, this would come from API
@@ -146,7 +148,7 @@ const JourneyPlanPage: React.FC = () => {
   // ============================================================================
   
   /** List of all journey plans */
-  const [journeyPlans, setJourneyPlans] = useState<JourneyPlan[]>(mockJourneyPlans);
+  const [journeyPlans, setJourneyPlans] = useState<JourneyPlan[]>(() => mockJourneyPlans.map(plan => measureJourneyPlan(plan)));
   
   /** Search and filter state */
   const [searchTerm, setSearchTerm] = useState('');
@@ -226,6 +228,23 @@ const JourneyPlanPage: React.FC = () => {
     }
   };
 
+  /**
+   * Reorder a pending plan's locations with the route solver
+   */
+  const handleOptimizeRoute = (planId: string) => {
+    const plan = journeyPlans.find(p => p.id === planId);
+    if (!plan) return;
+
+    const { plan: optimized, solution } = optimizeJourneyPlan(plan);
+    setJourneyPlans(prev => prev.map(p => (p.id === planId ? { ...optimized, updatedAt: new Date().toISOString() } : p)));
+
+    if (solution.unassigned.length) {
+      toast.error(`${solution.unassigned.length} location(s) do not fit between ${plan.startTime} and ${plan.endTime}`);
+    } else {
+      toast.success(`Route optimized: ${optimized.totalDistance} km, ${optimized.estimatedDuration} min`);
+    }
+  };
+
   /**
    * Export journey plans to CSV
    */
@@ -455,6 +474,16 @@ const JourneyPlanPage: React.FC = () => {
                           <Eye size={16} />
                         </button>
 
+                        {plan.status === 'pending' && plan.locations.length > 1 && (
+                          <button
+                            onClick={() => handleOptimizeRoute(plan.id)}
+                            className="text-green-600 hover:text-green-900"
+                            title="Optimize route"
+                          >
+                            <Route size={16} />
+                          </button>
+                        )}
+
                         <button
                           onClick={() => handleDelete(plan.id)}
                           className="text-red-600 hover:text-red-900"
@@ -3,14 +3,14 @@
  * 
  * Always-visible sidebar navigation component that provides:
  * - Main application navigation menu
- * - Role-based menu item filtering
+ * - Policy-based menu item filtering
  * - Responsive design that stays visible
  * - Smooth transitions and hover effects
  * - Badge indicators for notifications
  * - Admin section for administrative functions
  * 
  * Features:
- * - Permission-based menu visibility
+ * - Permission-based menu visibility (same check as protected routes)
  * - Active route highlighting
  * - Always visible navigation
  * - Smooth hover animations
@@ -41,6 +41,8 @@ import {
   Home,
   Target
 } from 'lucide-react';
+import { useAuthorization } from '../../contexts/AuthorizationContext';
+import { getRouteResource } from '../../services/authorization';
 
 /**
  * Sidebar component props interface
@@ -56,7 +58,7 @@ interface SidebarProps {
  * Sidebar Component
  * 
  * Main navigation sidebar that provides access to all application features.
- * Always visible with role-based filtering and responsive design.
+ * Always visible; entries the user may not view are hidden.
  * 
  * @param isOpen - Current sidebar open state (not used for visibility)
  * @param onClose - Function to close sidebar (not used)
@@ -64,8 +66,8 @@ interface SidebarProps {
  */
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
   const navigate = useNavigate();
+  const { can } = useAuthorization();
   
-  // Always show all features for admin
   // Grouped as in Shoplworks UI
   const menuGroups = [
     {
@@ -128,6 +130,17 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
     },
   ];
 
+  // Keep entries whose route resource the user may view, and drop emptied groups
+  const visibleGroups = menuGroups
+    .map(group => ({
+      ...group,
+      items: group.items.filter(item => {
+        const resource = getRouteResource(item.path);
+        return !resource || can('view', resource);
+      })
+    }))
+    .filter(group => group.items.length > 0);
+
   return (
     <>
       {/* Always visible sidebar */}
@@ -151,7 +164,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
 
           {/* Navigation menu */}
           <nav className="flex-1 px-4 py-6 space-y-2 overflow-y-auto">
-            {menuGroups.map(group => (
+            {visibleGroups.map(group => (
               <div key={group.label} className="mb-4">
                 <div className="pt-2 pb-1">
                   <h3 className="px-3 text-xs font-semibold text-gray-500 uppercase tracking-wider">{group.label}</h3>
@@ -5,6 +5,7 @@
  * and leave balance tracking. Features include:
  * - Leave request submission and approval
  * - Leave balance tracking and management
+ * - Transaction ledger with balances as of any date and per-line history
  * - Multiple leave types (vacation, sick, personal)
  * - Approval workflows and notifications
  * - Calendar integration
@@ -15,7 +16,7 @@
  * @version 1.0.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {  } from 'framer-motion';
 import {
   Calendar,
@@ -27,13 +28,130 @@ import {
   AlertCircle,
   Search,
   Trash2,
-  Eye
-  
+  Eye,
+  History,
+  BookOpen
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
-import { LeaveRequest, LeaveType, LeaveBalance } from '../../types';
+import {
+  LeaveRequest,
+  LeaveType,
+  LeaveGrant,
+  LeaveTransaction,
+  ApprovalDecision,
+  ApprovalDirectory,
+  ApprovalInstance,
+  ApprovalRequestType,
+  ApprovalStatus,
+  ApprovalWorkflow,
+  ApproverType,
+  GroupMemberRole,
+  GroupSettings,
+  Member,
+  MemberRole
+} from '../../types';
+import {
+  ApprovalEngineError,
+  canActOnRequest,
+  createLeaveApprovalRequest,
+  getActiveStep,
+  processApprovalTimers,
+  recordDecision,
+  startApproval
+} from '../../services/approvalEngine';
+import {
+  buildLeaveLedger,
+  checkLeaveUse,
+  countLeaveDays,
+  createGrantTransactions,
+  createUseTransaction,
+  getLeaveBalances,
+  isLeaveTypeTracked
+} from '../../services/leaveLedger';
 import toast from 'react-hot-toast';
 
+/**
+ * Default leave workflow: team leader, then the upper group leader for
+ * leave longer than three days. Leave types without approval are
+ * approved on submission; unanswered steps escalate after 48 hours.
+ */
+const LEAVE_WORKFLOW: ApprovalWorkflow = {
+  id: 'leave-default',
+  name: 'Leave Approval',
+  description: 'Team leader approval with upper leader sign-off for long leave',
+  type: ApprovalRequestType.LEAVE_REQUEST,
+  steps: [
+    {
+      id: 'leave-step-1',
+      stepNumber: 1,
+      name: 'Team Leader',
+      description: 'Direct group leader approval',
+      approverType: ApproverType.MANAGER,
+      isRequired: true,
+      canDelegate: true,
+      timeLimit: 120,
+      actions: [
+        { id: 'approve', name: 'Approve', type: 'approve', label: 'Approve', icon: '✅', color: 'green', requiresComment: false, isPrimary: true },
+        { id: 'reject', name: 'Reject', type: 'reject', label: 'Reject', icon: '❌', color: 'red', requiresComment: false, isPrimary: false }
+      ]
+    },
+    {
+      id: 'leave-step-2',
+      stepNumber: 2,
+      name: 'Upper Group Leader',
+      description: 'Sign-off for leave longer than three days',
+      approverType: ApproverType.UPPER_GROUP_LEADER,
+      isRequired: false,
+      canDelegate: true,
+      autoApproveAfter: 72,
+      conditions: [{ id: 'long-leave', field: 'days', operator: 'greater_than', value: 3 }],
+      actions: [
+        { id: 'approve', name: 'Approve', type: 'approve', label: 'Approve', icon: '✅', color: 'green', requiresComment: false, isPrimary: true },
+        { id: 'reject', name: 'Reject', type: 'reject', label: 'Reject', icon: '❌', color: 'red', requiresComment: false, isPrimary: false }
+      ]
+    }
+  ],
+  allowSelfApproval: false,
+  allowDelegation: true,
+  autoApprove: true,
+  autoApproveConditions: [{ id: 'no-approval', field: 'requiresApproval', operator: 'equals', value: false }],
+  escalationRules: [
+    {
+      id: 'leave-escalation',
+      name: 'Escalate after 48 hours',
+      triggerType: 'step_timeout',
+      triggerValue: 48,
+      escalationType: 'next_level',
+      notificationSettings: { email: true, push: true, sms: false },
+      isActive: true
+    }
+  ],
+  isActive: true,
+  createdBy: 'system',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+/**
+ * Build a mock member for the leave approval directory
+ */
+const mockMember = (id: string, name: string, groups: string[], extra: Partial<Member> = {}): Member => ({
+  id,
+  userId: id,
+  name,
+  email: `${name.toLowerCase().replace(/\s+/g, '.')}@company.com`,
+  role: MemberRole.EMPLOYEE,
+  hireDate: '2022-01-01',
+  groups,
+  isLeader: false,
+  isAdmin: false,
+  approvalAuthority: false,
+  status: 'active',
+  createdAt: '2022-01-01T00:00:00Z',
+  updatedAt: '2022-01-01T00:00:00Z',
+  ...extra
+});
+
 /**
  * LeavePage Component
  * 
@@ -46,7 +164,9 @@ const LeavePage: React.FC = () => {
   const { user, hasPermission } = useAuth();
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
   const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
-  const [leaveBalances, setLeaveBalances] = useState<LeaveBalance[]>([]);
+  const [grantTransactions, setGrantTransactions] = useState<LeaveTransaction[]>([]);
+  const [balanceDate, setBalanceDate] = useState(new Date().toISOString().split('T')[0]);
+  const [ledgerKey, setLedgerKey] = useState<{ userId: string; leaveTypeId: string } | null>(null);
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
   const [showRequestModal, setShowRequestModal] = useState(false);
   const [showTypeModal, setShowTypeModal] = useState(false);
@@ -54,6 +174,122 @@ const LeavePage: React.FC = () => {
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
   const [viewMode, setViewMode] = useState<'requests' | 'calendar' | 'balances'>('requests');
+  const [approvals, setApprovals] = useState<Record<string, ApprovalInstance>>({});
+  const [trailRequestId, setTrailRequestId] = useState<string | null>(null);
+
+  /**
+   * Approval directory: a store team under a regional group.
+   * The signed-in user joins as an admin when they manage leave.
+   */
+  const directory = useMemo<ApprovalDirectory>(() => {
+    const currentUserId = user?.id || 'current-user';
+    const isManager = hasPermission('leave:manage');
+    const members = [
+      mockMember('1', 'Alex Kim', ['team-north']),
+      mockMember('2', 'Sam Lee', ['team-north']),
+      mockMember('3', 'Jordan Park', ['team-north']),
+      mockMember('leader-1', 'Team Leader North', ['team-north'], { role: MemberRole.LEADER, isLeader: true, approvalAuthority: true }),
+      mockMember('leader-2', 'Regional Leader', ['region'], { role: MemberRole.LEADER, isLeader: true, approvalAuthority: true })
+    ].filter(member => member.id !== currentUserId);
+    members.push(mockMember(currentUserId, user?.name || 'You', isManager ? ['region'] : ['team-north'], {
+      role: isManager ? MemberRole.ADMIN : MemberRole.EMPLOYEE,
+      isAdmin: isManager
+    }));
+
+    const leader = (groupId: string, memberId: string) => ({
+      id: `${groupId}-${memberId}`,
+      groupId,
+      memberId,
+      memberName: members.find(member => member.id === memberId)?.name || memberId,
+      memberEmail: '',
+      role: GroupMemberRole.LEADER,
+      isLeader: true,
+      hasApprovalAuthority: true,
+      assignedWorkplaces: [],
+      assignedAt: '2022-01-01T00:00:00Z',
+      assignedBy: 'system',
+      isActive: true
+    });
+    const settings: GroupSettings = {
+      allowSubgroups: true,
+      maxDepth: 7,
+      allowMemberReassignment: true,
+      requireLeaderApproval: true,
+      autoAssignNewMembers: false,
+      notificationSettings: {
+        emailNotifications: true,
+        pushNotifications: true,
+        smsNotifications: false,
+        memberChangeNotifications: false,
+        leaderChangeNotifications: false
+      }
+    };
+    const baseGroup = {
+      description: '',
+      members: [],
+      isActive: true,
+      memberCount: 0,
+      leaderCount: 1,
+      workplaceIds: [],
+      settings,
+      createdBy: 'system',
+      createdAt: '2022-01-01T00:00:00Z',
+      updatedAt: '2022-01-01T00:00:00Z'
+    };
+
+    return {
+      members,
+      groups: [
+        { ...baseGroup, id: 'region', name: 'Region North', depth: 0, isTopLevel: true },
+        { ...baseGroup, id: 'team-north', name: 'Store Team North', parentGroupId: 'region', depth: 1, isTopLevel: false }
+      ],
+      groupMembers: [leader('team-north', 'leader-1'), leader('region', 'leader-2')]
+    };
+  }, [user, hasPermission]);
+
+  const memberName = (id: string) =>
+    id === 'system' ? 'System' : directory.members.find(member => member.id === id)?.name || id;
+
+  /**
+   * Submit a leave request into the approval workflow
+   */
+  const submitForApproval = (leave: LeaveRequest): ApprovalInstance => {
+    const requester = directory.members.find(member => member.id === leave.userId);
+    return startApproval(createLeaveApprovalRequest(leave, LEAVE_WORKFLOW, requester), directory);
+  };
+
+  /**
+   * Leave status that follows the approval outcome
+   */
+  const toLeaveStatus = (instance: ApprovalInstance): LeaveRequest['status'] => {
+    switch (instance.request.status) {
+      case ApprovalStatus.APPROVED:
+        return 'approved';
+      case ApprovalStatus.REJECTED:
+      case ApprovalStatus.EXPIRED:
+      case ApprovalStatus.CANCELLED:
+        return 'rejected';
+      default:
+        return 'pending';
+    }
+  };
+
+  /**
+   * Store an updated approval and mirror its outcome onto the leave request
+   */
+  const applyApproval = (leaveId: string, instance: ApprovalInstance) => {
+    setApprovals(prev => ({ ...prev, [leaveId]: instance }));
+    setLeaveRequests(prev => prev.map(request =>
+      request.id === leaveId
+        ? {
+            ...request,
+            status: toLeaveStatus(instance),
+            approvedBy: instance.request.approvedBy || instance.request.rejectedBy || request.approvedBy,
+            approvedAt: instance.request.approvedAt || instance.request.rejectedAt || request.approvedAt
+          }
+        : request
+    ));
+  };
 
   /**
    * Initialize mock leave data
@@ -125,35 +361,88 @@ const LeavePage: React.FC = () => {
       }
     ];
 
-    const mockLeaveBalances: LeaveBalance[] = [
-      {
-        userId: '1',
-        leaveTypeId: '1',
-        totalDays: 20,
-        usedDays: 5,
-        remainingDays: 15
-      },
-      {
-        userId: '1',
-        leaveTypeId: '2',
-        totalDays: 10,
-        usedDays: 2,
-        remainingDays: 8
-      },
-      {
-        userId: '2',
-        leaveTypeId: '1',
-        totalDays: 20,
-        usedDays: 8,
-        remainingDays: 12
-      }
-    ];
+    // Yearly grants since 2024 with three months to use carried-over vacation
+    const mockGrants: LeaveGrant[] = [];
+    for (let year = 2024; year <= new Date().getFullYear(); year++) {
+      mockGrants.push(
+        {
+          id: `vacation-${year}`,
+          title: `Annual Leave ${year}`,
+          leaveTypeId: '1',
+          employees: ['1', '2', '3'],
+          grantType: 'same',
+          daysGranted: 15,
+          periodStart: `${year}-01-01`,
+          periodEnd: `${year}-12-31`,
+          carryoverType: 'months',
+          carryoverValue: 3,
+          createdBy: 'hr',
+          createdAt: `${year}-01-01T00:00:00Z`
+        },
+        {
+          id: `sick-${year}`,
+          title: `Sick Leave ${year}`,
+          leaveTypeId: '2',
+          employees: ['1', '2', '3'],
+          grantType: 'same',
+          daysGranted: 10,
+          periodStart: `${year}-01-01`,
+          periodEnd: `${year}-12-31`,
+          carryoverType: 'days',
+          carryoverValue: 0,
+          createdBy: 'hr',
+          createdAt: `${year}-01-01T00:00:00Z`
+        }
+      );
+    }
+    const hireDates = [{ userId: '1', hireDate: '2022-01-01' }, { userId: '2', hireDate: '2022-01-01' }, { userId: '3', hireDate: '2024-07-01' }];
 
     setLeaveTypes(mockLeaveTypes);
     setLeaveRequests(mockLeaveRequests);
-    setLeaveBalances(mockLeaveBalances);
+    setGrantTransactions(mockGrants.flatMap(grant => createGrantTransactions(grant, hireDates)));
+    setApprovals(mockLeaveRequests
+      .filter(request => request.status === 'pending')
+      .reduce<Record<string, ApprovalInstance>>(
+        (all, request) => ({ ...all, [request.id]: submitForApproval(request) }),
+        {}
+      ));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  /**
+   * Apply auto-approval, escalation and expiry timers every minute
+   */
+  useEffect(() => {
+    const timer = setInterval(() => {
+      Object.entries(approvals).forEach(([leaveId, instance]) => {
+        const updated = processApprovalTimers(instance, directory);
+        if (updated !== instance && updated.auditLog.length !== instance.auditLog.length) {
+          applyApproval(leaveId, updated);
+        }
+      });
+    }, 60000);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [approvals, directory]);
+
+  /**
+   * Ledger: grants plus the use of every approved request
+   */
+  const ledgerTransactions = useMemo(() => [
+    ...grantTransactions,
+    ...leaveRequests.filter(request => request.status === 'approved').map(request => createUseTransaction(request))
+  ], [grantTransactions, leaveRequests]);
+
+  const leaveBalances = useMemo(
+    () => getLeaveBalances(ledgerTransactions, balanceDate),
+    [ledgerTransactions, balanceDate]
+  );
+
+  const ledgerEntries = useMemo(
+    () => (ledgerKey ? buildLeaveLedger(ledgerTransactions, ledgerKey.userId, ledgerKey.leaveTypeId, balanceDate) : []),
+    [ledgerTransactions, ledgerKey, balanceDate]
+  );
+
   /**
    * Create new leave request
    */
@@ -169,50 +458,74 @@ const LeavePage: React.FC = () => {
       attachments: requestData.attachments || []
     };
 
-    setLeaveRequests(prev => [...prev, newRequest]);
-    toast.success('Leave request submitted successfully');
+    if (isLeaveTypeTracked(ledgerTransactions, newRequest.type.id)) {
+      // Requests still awaiting approval hold their days as well
+      const pendingUse = leaveRequests
+        .filter(request => request.status === 'pending' && request.userId === newRequest.userId)
+        .map(request => createUseTransaction(request));
+      const balanceCheck = checkLeaveUse(
+        [...ledgerTransactions, ...pendingUse],
+        newRequest.type,
+        newRequest.userId,
+        countLeaveDays(newRequest.startDate, newRequest.endDate),
+        newRequest.startDate
+      );
+      if (!balanceCheck.allowed) {
+        toast.error(balanceCheck.message);
+        return;
+      }
+    }
+
+    const instance = submitForApproval(newRequest);
+    setLeaveRequests(prev => [...prev, { ...newRequest, status: toLeaveStatus(instance) }]);
+    setApprovals(prev => ({ ...prev, [newRequest.id]: instance }));
+    toast.success(instance.request.status === ApprovalStatus.APPROVED
+      ? 'Leave request approved automatically'
+      : 'Leave request submitted for approval');
     setShowRequestModal(false);
   };
 
   /**
-   * Approve leave request
+   * Record the current user's decision on a leave request's active step
    */
-  const approveRequest = (requestId: string) => {
-    setLeaveRequests(prev => prev.map(request => 
-      request.id === requestId 
-        ? { 
-            ...request, 
-            status: 'approved', 
-            approvedBy: user?.id || '',
-            approvedAt: new Date().toISOString()
-          }
-        : request
-    ));
-    toast.success('Leave request approved');
+  const decide = (requestId: string, action: ApprovalDecision['action']) => {
+    const instance = approvals[requestId];
+    if (!instance) return;
+
+    try {
+      const updated = recordDecision(instance, { actorId: user?.id || 'current-user', action }, directory);
+      applyApproval(requestId, updated);
+      if (updated.request.status === ApprovalStatus.APPROVED) {
+        toast.success('Leave request approved');
+      } else if (updated.request.status === ApprovalStatus.REJECTED) {
+        toast.success('Leave request rejected');
+      } else {
+        toast.success(`Step approved, waiting on ${getActiveStep(updated)?.approverIds.map(memberName).join(', ')}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof ApprovalEngineError ? error.message : 'Failed to record decision');
+    }
   };
 
+  /**
+   * Approve leave request
+   */
+  const approveRequest = (requestId: string) => decide(requestId, 'approve');
+
   /**
    * Reject leave request
    */
-  const rejectRequest = (requestId: string) => {
-    setLeaveRequests(prev => prev.map(request => 
-      request.id === requestId 
-        ? { 
-            ...request, 
-            status: 'rejected', 
-            approvedBy: user?.id || '',
-            approvedAt: new Date().toISOString()
-          }
-        : request
-    ));
-    toast.success('Leave request rejected');
-  };
+  const rejectRequest = (requestId: string) => decide(requestId, 'reject');
 
   /**
    * Delete leave request
    */
   const deleteRequest = (requestId: string) => {
     setLeaveRequests(prev => prev.filter(request => request.id !== requestId));
+    setApprovals(prev => {
+      const { [requestId]: _removed, ...rest } = prev;
+      return rest;
+    });
     toast.success('Leave request deleted');
   };
 
@@ -427,6 +740,12 @@ const LeavePage: React.FC = () => {
                             {request.status}
                           </span>
                         </div>
+                        {approvals[request.id] && getActiveStep(approvals[request.id]) && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Step {approvals[request.id].request.currentStep}/{approvals[request.id].request.totalSteps}
+                            {' · '}waiting on {getActiveStep(approvals[request.id])!.approverIds.map(memberName).join(', ') || 'nobody'}
+                          </p>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex items-center space-x-2">
@@ -439,7 +758,17 @@ const LeavePage: React.FC = () => {
                           >
                             <Eye size={16} />
                           </button>
-                          {request.status === 'pending' && hasPermission('leave:manage') && (
+                          {approvals[request.id] && (
+                            <button
+                              onClick={() => setTrailRequestId(request.id)}
+                              className="text-gray-600 hover:text-gray-900"
+                              title="Approval history"
+                            >
+                              <History size={16} />
+                            </button>
+                          )}
+                          {request.status === 'pending' && approvals[request.id] &&
+                            canActOnRequest(approvals[request.id], user?.id || 'current-user', directory) && (
                             <>
                               <button
                                 onClick={() => approveRequest(request.id)}
@@ -472,21 +801,65 @@ const LeavePage: React.FC = () => {
         </>
       )}
 
+      {/* Approval Trail */}
+      {trailRequestId && approvals[trailRequestId] && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Approval History: {approvals[trailRequestId].request.title}
+            </h3>
+            <button onClick={() => setTrailRequestId(null)} className="text-gray-500 hover:text-gray-700">
+              <XCircle size={18} />
+            </button>
+          </div>
+          <ol className="space-y-2">
+            {approvals[trailRequestId].auditLog.map(entry => (
+              <li key={entry.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{entry.action.replace(/_/g, ' ')}</span>
+                  <span className="text-gray-600"> by {entry.performedByName}</span>
+                  {entry.details?.stepName && <span className="text-gray-500"> · {entry.details.stepName}</span>}
+                  {entry.details?.reason && <span className="text-gray-500"> · {entry.details.reason}</span>}
+                  {entry.details?.approverIds && (
+                    <span className="text-gray-500"> · {entry.details.approverIds.map(memberName).join(', ')}</span>
+                  )}
+                </div>
+                <span className="text-gray-500 whitespace-nowrap ml-4">{new Date(entry.timestamp).toLocaleString()}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {viewMode === 'balances' && (
         /* Leave Balances */
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Leave Balances</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Leave Balances</h3>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>As of</span>
+              <input
+                type="date"
+                value={balanceDate}
+                onChange={(e) => e.target.value && setBalanceDate(e.target.value)}
+                className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </label>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {leaveBalances.map((balance) => {
               const leaveType = leaveTypes.find(type => type.id === balance.leaveTypeId);
               if (!leaveType) return null;
 
-              const usagePercentage = (balance.usedDays / balance.totalDays) * 100;
+              const usagePercentage = balance.totalDays > 0 ? (balance.usedDays / balance.totalDays) * 100 : 0;
 
               return (
                 <div key={`${balance.userId}-${balance.leaveTypeId}`} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-3">
-                    <h4 className="font-medium text-gray-900">{leaveType.name}</h4>
+                    <div>
+                      <h4 className="font-medium text-gray-900">{leaveType.name}</h4>
+                      <p className="text-xs text-gray-500">{memberName(balance.userId)}</p>
+                    </div>
                     <div
                       className="w-4 h-4 rounded"
                       style={{ backgroundColor: leaveType.color }}
@@ -502,9 +875,15 @@ const LeavePage: React.FC = () => {
                       <span className="text-gray-600">Used Days:</span>
                       <span className="font-medium text-red-600">{balance.usedDays}</span>
                     </div>
+                    {!!balance.expiredDays && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Expired:</span>
+                        <span className="font-medium text-gray-500">{balance.expiredDays}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Remaining:</span>
-                      <span className="font-medium text-green-600">{balance.remainingDays}</span>
+                      <span className={`font-medium ${balance.remainingDays < 0 ? 'text-red-600' : 'text-green-600'}`}>{balance.remainingDays}</span>
                     </div>
                   </div>
                   
@@ -518,12 +897,58 @@ const LeavePage: React.FC = () => {
                         }}
                       ></div>
                     </div>
-                    <p className="text-xs text-gray-500 mt-1">{usagePercentage.toFixed(1)}% used</p>
+                    <div className="flex items-center justify-between mt-1">
+                      <p className="text-xs text-gray-500">{usagePercentage.toFixed(1)}% used</p>
+                      <button
+                        onClick={() => setLedgerKey({ userId: balance.userId, leaveTypeId: balance.leaveTypeId })}
+                        className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+                      >
+                        <BookOpen size={12} />
+                        <span>Ledger</span>
+                      </button>
+                    </div>
                   </div>
                 </div>
               );
             })}
           </div>
+
+          {ledgerKey && (
+            <div className="mt-6 border-t border-gray-200 pt-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-gray-900">
+                  {leaveTypes.find(type => type.id === ledgerKey.leaveTypeId)?.name} ledger · {memberName(ledgerKey.userId)} · as of {balanceDate}
+                </h4>
+                <button onClick={() => setLedgerKey(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                  Close
+                </button>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium text-right">Days</th>
+                    <th className="py-2 font-medium text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledgerEntries.map(({ transaction, balance }) => (
+                    <tr key={transaction.id} className="border-t border-gray-100">
+                      <td className="py-2 pr-4 text-gray-600">{transaction.effectiveDate}</td>
+                      <td className="py-2 pr-4 capitalize text-gray-600">{transaction.type}</td>
+                      <td className="py-2 pr-4 text-gray-900">{transaction.description}</td>
+                      <td className={`py-2 pr-4 text-right ${transaction.days < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {transaction.days > 0 ? `+${transaction.days}` : transaction.days}
+                      </td>
+                      <td className="py-2 text-right font-medium">{balance}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       )}
 
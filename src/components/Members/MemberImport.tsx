@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, Upload, XCircle } from 'lucide-react';
+import { Group, Member, MemberImportAction, MemberImportColumnMapping, MemberImportPlan } from '../../types';
+import {
+  guessMemberImportMapping,
+  MEMBER_IMPORT_ACTIONS,
+  MEMBER_IMPORT_COLUMNS,
+  planMemberImport,
+  validateMemberImportMapping
+} from '../../services/memberImport';
+import { readSpreadsheetFile } from '../../services/spreadsheet';
+
+interface MemberImportProps {
+  members: Member[];
+  groups: Group[];
+  onApply: (plan: MemberImportPlan) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const ACTION_BADGES: Record<MemberImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  move: 'bg-purple-100 text-purple-800',
+  deactivate: 'bg-red-100 text-red-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Member Import Component
+ *
+ * Bulk import of an HRIS file (CSV or XLSX) keyed on employee ID:
+ * - Column mapping guessed from the file's headers
+ * - Dry run listing members to create, update, move or deactivate,
+ *   with field-level differences and every row error
+ * - Nothing changes until the plan is applied; rows with errors are
+ *   only skipped once that has been confirmed
+ */
+const MemberImport: React.FC<MemberImportProps> = ({ members, groups, onApply, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<MemberImportColumnMapping>({});
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [plan, setPlan] = useState<MemberImportPlan | null>(null);
+  const [actionFilter, setActionFilter] = useState<MemberImportAction | ''>('');
+  const [skipErrors, setSkipErrors] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    setFileName('');
+    setRows([]);
+    setMapping({});
+    setPlan(null);
+    setError(null);
+    if (!file) return;
+    try {
+      const fileRows = await readSpreadsheetFile(file);
+      if (!fileRows.length) {
+        setError(`${file.name} is empty`);
+        return;
+      }
+      setFileName(file.name);
+      setRows(fileRows);
+      setMapping(guessMemberImportMapping(fileRows[0]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read');
+    }
+  };
+
+  const handleMappingChange = (column: keyof MemberImportColumnMapping, header: string) => {
+    setMapping(prev => ({ ...prev, [column]: header || undefined }));
+    setPlan(null);
+  };
+
+  const mappingProblems = rows.length ? validateMemberImportMapping(mapping, rows[0]) : [];
+
+  const handleDryRun = () => {
+    try {
+      setPlan(planMemberImport(members, rows, mapping, { groups, deactivateMissing }));
+      setSkipErrors(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The rows could not be checked');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setApplying(true);
+    try {
+      await onApply(plan);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The import could not be applied');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const pendingChanges = plan ? plan.changes.filter(change => !change.actions.includes('unchanged')).length : 0;
+  const failedRows = plan ? new Set(plan.errors.map(rowError => rowError.row)).size : 0;
+  const visibleChanges = plan
+    ? plan.changes.filter(change => actionFilter ? change.actions.includes(actionFilter) : !change.actions.includes('unchanged'))
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border max-w-5xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Import Members</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XCircle className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              HRIS export (CSV or XLSX), one row per employee, keyed on employee ID
+            </label>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700"
+            />
+          </div>
+
+          {rows.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                Column mapping ({rows.length - 1} rows in {fileName})
+              </h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {MEMBER_IMPORT_COLUMNS.map(({ column, label, required }) => (
+                  <div key={column}>
+                    <label className="block text-xs font-medium text-gray-700">
+                      {label}{required && <span className="text-red-500 ml-1">*</span>}
+                    </label>
+                    <select
+                      value={mapping[column] || ''}
+                      onChange={(e) => handleMappingChange(column, e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">{required ? 'Select column' : 'Not in file'}</option>
+                      {rows[0].map((header, index) => (
+                        <option key={`${header}-${index}`} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {mappingProblems.map(problem => (
+                <p key={problem} className="text-xs text-orange-600 mt-2">{problem}</p>
+              ))}
+              <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={deactivateMissing}
+                  onChange={(e) => {
+                    setDeactivateMissing(e.target.checked);
+                    setPlan(null);
+                  }}
+                />
+                <span>Deactivate members with an employee ID who are missing from the file</span>
+              </label>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {plan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                {MEMBER_IMPORT_ACTIONS.map(action => (
+                  <button
+                    key={action.value}
+                    onClick={() => setActionFilter(actionFilter === action.value ? '' : action.value)}
+                    className={`rounded-md border p-3 text-left ${actionFilter === action.value ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                  >
+                    <p className="text-xs text-gray-500">{action.label}</p>
+                    <p className="text-lg font-semibold text-gray-900">{plan.counts[action.value]}</p>
+                  </button>
+                ))}
+                <div className="rounded-md border border-gray-200 p-3">
+                  <p className="text-xs text-gray-500">Rows with errors</p>
+                  <p className={`text-lg font-semibold ${failedRows ? 'text-red-600' : 'text-gray-900'}`}>{failedRows}</p>
+                </div>
+              </div>
+
+              {plan.errors.length > 0 && (
+                <div className="max-h-60 overflow-y-auto border border-red-200 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-red-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {plan.errors.map((rowError, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-2 text-gray-900">{rowError.row}</td>
+                          <td className="px-3 py-2 text-gray-700">{rowError.field}</td>
+                          <td className="px-3 py-2 text-red-600">{rowError.error}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Employee ID</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleChanges.map(change => (
+                      <tr key={change.employeeId}>
+                        <td className="px-3 py-2 text-gray-900">{change.employeeId}</td>
+                        <td className="px-3 py-2 text-gray-900">{change.after.name}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {change.actions.map(action => (
+                              <span key={action} className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_BADGES[action]}`}>
+                                {MEMBER_IMPORT_ACTIONS.find(entry => entry.value === action)?.label}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-600">
+                          {change.fields.map(field => (
+                            <div key={field.field}>
+                              <span className="font-medium">{MEMBER_IMPORT_COLUMNS.find(column => column.column === field.field)?.label}:</span>{' '}
+                              {field.from && <span className="line-through text-red-600 mr-1">{field.from}</span>}
+                              <span className="text-green-700">{field.to || '—'}</span>
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {!visibleChanges.length && (
+                  <p className="px-3 py-4 text-sm text-gray-500 flex items-center">
+                    <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
+                    Nothing to change{actionFilter ? ' for this action' : ''}.
+                  </p>
+                )}
+              </div>
+
+              {failedRows > 0 && (
+                <label className="flex items-center space-x-2 text-sm text-orange-700">
+                  <input type="checkbox" checked={skipErrors} onChange={(e) => setSkipErrors(e.target.checked)} />
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>Skip the {failedRows} rows with errors and apply the rest</span>
+                </label>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={handleDryRun}
+              disabled={!rows.length || mappingProblems.length > 0}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Dry Run
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!plan || !pendingChanges || (failedRows > 0 && !skipErrors) || applying}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {applying ? 'Applying...' : `Apply ${pendingChanges || ''} Changes`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemberImport;
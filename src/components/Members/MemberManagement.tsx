@@ -1,23 +1,26 @@
 import React, { useState } from 'react';
 import { Member, MemberRole, Group } from '../../types';
 import { authAPI } from '../../services/api';
+import { useAuthorization } from '../../contexts/AuthorizationContext';
+import { findEmployeeIdConflict } from '../../services/memberImport';
 
 interface MemberManagementProps {
   member?: Member;
+  members?: Member[]; // Existing members, so employee numbers stay unique (HRIS imports key on them)
   groups: Group[];
   onSave: (member: Member) => void;
   onCancel: () => void;
-  userRole: string;
 }
 
 const MemberManagement: React.FC<MemberManagementProps> = ({
   member,
+  members = [],
   groups,
   onSave,
-  onCancel,
-  userRole
+  onCancel
 }) => {
   const isEditing = !!member;
+  const { can } = useAuthorization();
   const [formData, setFormData] = useState<Partial<Member>>(
     member || {
       name: '',
@@ -39,28 +42,6 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
         relationship: '',
         phone: '',
         email: ''
-      },
-      permissions: {
-        canManageAllGroups: false,
-        canManageAllMembers: false,
-        canViewAllData: false,
-        canApproveAllRequests: false,
-        canManageSystemSettings: false,
-        canManageAssignedGroups: false,
-        canViewGroupMembers: false,
-        canViewGroupReports: false,
-        canViewGroupAttendance: false,
-        canViewGroupSchedules: false,
-        canApproveGroupRequests: false,
-        canCreateGroupTasks: false,
-        canManageGroupSettings: false,
-        canViewOwnData: true,
-        canSubmitRequests: true,
-        canCreateReports: true,
-        canUseAttendance: true,
-        canViewOwnSchedule: true,
-        canUseChat: true,
-        canUsePostingBoard: true
       }
     }
   );
@@ -94,8 +75,8 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
-  // 2. Restrict group selection based on userRole (assume leaders can only assign to their managed groups)
-  const availableGroups = userRole === 'admin' ? groups : groups.filter(g => g.leaderId === formData.userId || g.leaderId === undefined);
+  // 2. Restrict group selection to groups the current user may edit (leaders: their group subtree)
+  const availableGroups = groups.filter(g => can('edit', { type: 'group', id: g.id }));
 
   // 3. Masked National ID input handler
   const handleNationalIdChange = (value: string) => {
@@ -136,29 +117,19 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
       ...prev,
       role,
       isAdmin,
-      isLeader,
-      permissions: {
-        ...prev.permissions!,
-        canManageAllGroups: isAdmin,
-        canManageAllMembers: isAdmin,
-        canViewAllData: isAdmin,
-        canApproveAllRequests: isAdmin,
-        canManageSystemSettings: isAdmin,
-        canManageAssignedGroups: isLeader,
-        canViewGroupMembers: isLeader,
-        canViewGroupReports: isLeader,
-        canViewGroupAttendance: isLeader,
-        canViewGroupSchedules: isLeader,
-        canApproveGroupRequests: isLeader && (prev.approvalAuthority || false),
-        canCreateGroupTasks: isLeader,
-        canManageGroupSettings: isLeader
-      }
+      isLeader
     }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+
+    const conflict = findEmployeeIdConflict(members, formData.employeeId || '', member?.id);
+    if (conflict) {
+      setError(`Employee number ${formData.employeeId} is already used by ${conflict.name}.`);
+      return;
+    }
     setLoading(true);
 
     if (!isEditing) {
@@ -217,7 +188,6 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
       managerId: formData.managerId,
       workplaceId: formData.workplaceId || '',
       emergencyContact: formData.emergencyContact!,
-      permissions: formData.permissions!,
       lastLoginAt: formData.lastLoginAt,
       createdAt: formData.createdAt || new Date().toISOString(),
       updatedAt: new Date().toISOString()
@@ -318,6 +288,9 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
                   className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                   placeholder="Enter employee number"
                 />
+                {findEmployeeIdConflict(members, formData.employeeId || '', member?.id) && (
+                  <p className="mt-1 text-xs text-red-600">This employee number is already in use.</p>
+                )}
               </div>
             </div>
           </div>
@@ -1,12 +1,16 @@
 import React, { useState } from 'react';
-import { Member, MemberRole, Group, MemberStats, MemberFilters } from '../../types';
+import { Member, MemberRole, Group, MemberStats, MemberFilters, MemberImportPlan } from '../../types';
 import MemberManagement from './MemberManagement';
+import MemberImport from './MemberImport';
 import GroupManagement from './GroupManagement';
 import RoleManagement from './RoleManagement';
 import AdminTab from '../Admin/AdminTab';
+import Can from '../common/Can';
 import { t } from '../../lib/i18n';
 import { useLanguageChange } from '../../lib/i18n-hooks';
 import api from '../../services/api';
+import { formatCsv } from '../../services/spreadsheet';
+import { exportMemberRows, memberFromServerUser, saveMemberImportPlan } from '../../services/memberImport';
 import { useEffect } from 'react';
 
 /**
@@ -16,16 +20,11 @@ import { useEffect } from 'react';
  * - Multi-tab navigation (Members, Groups, Roles, Admin)
  * - Advanced filtering and search capabilities
  * - Real-time statistics and metrics
+ * - Bulk HRIS import with a dry-run diff, and export in the same format
  * - Full internationalization support
- * - Role-based access control
- * 
- * @param userRole - The current user's role for access control
+ * - Policy-based access control (Admin tab requires the admin permission)
  */
-interface MembersPageProps {
-  userRole: string;
-}
-
-const MembersPage: React.FC<MembersPageProps> = ({ userRole }) => {
+const MembersPage: React.FC = () => {
   // Use language change hook to trigger re-renders when language changes
   // This ensures the component updates when the user switches languages
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -40,35 +39,15 @@ const MembersPage: React.FC<MembersPageProps> = ({ userRole }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importNotice, setImportNotice] = useState<{ text: string; failed: boolean } | null>(null);
 
   const fetchMembers = async () => {
     setLoading(true);
     setError(null);
     try {
       const res = await api.admin.getAllUsers();
-      setMembers(
-        (res.users || []).map((user: any) => ({
-          ...user,
-          userId: user.id,
-          hireDate: user.hireDate || '',
-          groups: user.groups || [],
-          isLeader: user.role === 'leader',
-          isAdmin: user.role === 'admin',
-          approvalAuthority: false,
-          position: user.position || '',
-          employeeId: user.employeeId || '',
-          phone: user.phone || '',
-          managerId: user.managerId || '',
-          workplaceId: user.workplaceId || '',
-          emergencyContact: user.emergencyContact || {},
-          permissions: user.permissions || {},
-          lastLoginAt: user.lastLoginAt || '',
-          createdAt: user.createdAt || '',
-          updatedAt: user.updatedAt || '',
-          status: user.status || 'active',
-          avatar: user.avatar || '',
-        }))
-      );
+      setMembers((res.users || []).map(memberFromServerUser));
     } catch (err: any) {
       setError(err.message || 'Failed to fetch members');
     } finally {
@@ -396,6 +375,45 @@ const MembersPage: React.FC<MembersPageProps> = ({ userRole }) => {
     }
   };
 
+  /**
+   * Applies a previewed HRIS import through the admin users API, then
+   * reloads the members so the list shows what the server saved
+   * @param plan - The dry-run plan to apply
+   */
+  const handleApplyImport = async (plan: MemberImportPlan) => {
+    const { saved, failures } = await saveMemberImportPlan(plan, {
+      create: async input => {
+        const { user } = await api.admin.createUser(input);
+        if (!user?.id) throw new Error('The server did not return the new member');
+        return { id: String(user.id) };
+      },
+      update: (id, input) => api.admin.updateUser(id, input),
+    });
+    await fetchMembers();
+    setImportNotice(failures.length
+      ? {
+          text: `Imported ${saved} changes; ${failures.length} could not be saved: ${failures
+            .map(failure => `${failure.employeeId} (${failure.error})`)
+            .join(', ')}`,
+          failed: true,
+        }
+      : { text: `Imported ${saved} changes`, failed: false });
+  };
+
+  /**
+   * Downloads all members in the HRIS import format
+   */
+  const handleExportMembers = () => {
+    const csv = formatCsv(exportMemberRows(members, mockGroups));
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `members-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   /**
    * Opens the member modal for editing an existing member
    * @param member - The member to edit
@@ -535,16 +553,18 @@ const MembersPage: React.FC<MembersPageProps> = ({ userRole }) => {
                 >
                   {t('members.tabRoleManagement') || 'Role Management'}
                 </button>
-                <button
-                  onClick={() => setActiveTab('admin')}
-                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                    activeTab === 'admin'
-                      ? 'border-blue-500 text-blue-600'
-                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-                  }`}
-                >
-                  {t('members.tabAdmin') || 'Admin'}
-                </button>
+                <Can action="manage" resource="admin">
+                  <button
+                    onClick={() => setActiveTab('admin')}
+                    className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                      activeTab === 'admin'
+                        ? 'border-blue-500 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {t('members.tabAdmin') || 'Admin'}
+                  </button>
+                </Can>
               </nav>
             </div>
 
@@ -584,16 +604,35 @@ const MembersPage: React.FC<MembersPageProps> = ({ userRole }) => {
                         <option value="terminated">{t('members.statusTerminated')}</option>
                       </select>
                     </div>
-                    <button
-                      onClick={() => setShowMemberModal(true)}
-                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    >
-                      <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                      </svg>
-                      {t('members.addMember') || 'Add Member'}
-                    </button>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={handleExportMembers}
+                        className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      >
+                        Export
+                      </button>
+                      <Can action="manage" resource="member">
+                        <button
+                          onClick={() => setShowImportModal(true)}
+                          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                          Import
+                        </button>
+                      </Can>
+                      <button
+                        onClick={() => setShowMemberModal(true)}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      >
+                        <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                        </svg>
+                        {t('members.addMember') || 'Add Member'}
+                      </button>
+                    </div>
                   </div>
+                  {importNotice && (
+                    <p className={`mt-4 text-sm ${importNotice.failed ? 'text-red-600' : 'text-green-700'}`}>{importNotice.text}</p>
+                  )}
                 </div>
 
                 {/* Members List */}
@@ -672,22 +711,34 @@ const MembersPage: React.FC<MembersPageProps> = ({ userRole }) => {
             )}
 
             {activeTab === 'admin' && (
-              <AdminTab currentUserRole={userRole as MemberRole} />
+              <Can action="manage" resource="admin">
+                <AdminTab />
+              </Can>
             )}
           </>
         )}
 
+        {/* Member Import Modal */}
+        {showImportModal && (
+          <MemberImport
+            members={members}
+            groups={mockGroups}
+            onApply={handleApplyImport}
+            onClose={() => setShowImportModal(false)}
+          />
+        )}
+
         {/* Member Modal */}
         {showMemberModal && (
           <MemberManagement
             member={selectedMember || undefined}
+            members={members}
             groups={mockGroups}
             onSave={handleSaveMember}
             onCancel={() => {
               setShowMemberModal(false);
               setSelectedMember(null);
             }}
-            userRole={userRole}
           />
         )}
       </div>
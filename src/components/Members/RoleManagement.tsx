@@ -1,5 +1,31 @@
 import React, { useState } from 'react';
-import { Member, MemberRole, Group } from '../../types';
+import { Member, MemberRole, Group, PermissionAction, PermissionResourceType } from '../../types';
+import { getLeaderPolicies, getWidestScope, PERMISSION_SCOPES, ROLE_POLICIES } from '../../services/authorization';
+
+// Rows of the role comparison, checked against each role's policies
+const COMPARISON_ROWS: { label: string; action: PermissionAction; resource: PermissionResourceType }[] = [
+  { label: 'Use Attendance', action: 'create', resource: 'attendance' },
+  { label: 'View Schedule', action: 'view', resource: 'schedule' },
+  { label: 'Submit Requests', action: 'create', resource: 'approval' },
+  { label: 'Create Reports', action: 'create', resource: 'report' },
+  { label: 'Use Chat', action: 'create', resource: 'chat' },
+  { label: 'Use Posting Board', action: 'create', resource: 'posting-board' },
+  { label: 'View Members', action: 'view', resource: 'member' },
+  { label: 'View Reports', action: 'view', resource: 'report' },
+  { label: 'Edit Schedules', action: 'edit', resource: 'schedule' },
+  { label: 'Create Tasks', action: 'create', resource: 'todo' },
+  { label: 'Approve Requests', action: 'approve', resource: 'approval' },
+  { label: 'Manage Groups', action: 'manage', resource: 'group' },
+  { label: 'Manage Members', action: 'manage', resource: 'member' },
+  { label: 'Manage System Settings', action: 'manage', resource: 'company-settings' }
+];
+
+// Leaders are shown leading a group with approval authority
+const COMPARISON_ROLES = [
+  ROLE_POLICIES[MemberRole.EMPLOYEE],
+  [...ROLE_POLICIES[MemberRole.LEADER], ...getLeaderPolicies('group', true)],
+  ROLE_POLICIES[MemberRole.ADMIN]
+];
 
 interface RoleManagementProps {
   members: Member[];
@@ -23,32 +49,6 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ members }) => {
     }
   };
 
-  const getPermissionDescription = (permission: string) => {
-    const descriptions: Record<string, string> = {
-      canManageAllGroups: 'Can manage all groups in the system',
-      canManageAllMembers: 'Can manage all members and their roles',
-      canViewAllData: 'Can view all company data and reports',
-      canApproveAllRequests: 'Can approve all types of requests',
-      canManageSystemSettings: 'Can manage system-wide settings',
-      canManageAssignedGroups: 'Can manage groups they are assigned to',
-      canViewGroupMembers: 'Can view members in their managed groups',
-      canViewGroupReports: 'Can view reports for their managed groups',
-      canViewGroupAttendance: 'Can view attendance for their managed groups',
-      canViewGroupSchedules: 'Can view schedules for their managed groups',
-      canApproveGroupRequests: 'Can approve requests from group members',
-      canCreateGroupTasks: 'Can create tasks for group members',
-      canManageGroupSettings: 'Can manage group-specific settings',
-      canViewOwnData: 'Can view their own data and records',
-      canSubmitRequests: 'Can submit approval requests',
-      canCreateReports: 'Can create and submit reports',
-      canUseAttendance: 'Can use attendance features',
-      canViewOwnSchedule: 'Can view their own schedule',
-      canUseChat: 'Can use chat and communication features',
-      canUsePostingBoard: 'Can use posting board features'
-    };
-    return descriptions[permission] || permission;
-  };
-
   const handleRoleChange = (member: Member, newRole: MemberRole) => {
     console.log(`Changing role for ${member.name} from ${member.role} to ${newRole}`);
     setSelectedMember(member);
@@ -148,7 +148,7 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ members }) => {
       <div className="bg-white shadow rounded-lg">
         <div className="px-6 py-4 border-b border-gray-200">
           <h3 className="text-lg font-medium text-gray-900">Role Comparison</h3>
-          <p className="mt-1 text-sm text-gray-600">Overview of permissions for each role type</p>
+          <p className="mt-1 text-sm text-gray-600">Reach of each role's policies; leaders reach their group and its subgroups</p>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -169,68 +169,32 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ members }) => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {Object.entries({
-                'View Own Data': 'canViewOwnData',
-                'Submit Requests': 'canSubmitRequests',
-                'Create Reports': 'canCreateReports',
-                'Use Attendance': 'canUseAttendance',
-                'View Own Schedule': 'canViewOwnSchedule',
-                'Use Chat': 'canUseChat',
-                'Use Posting Board': 'canUsePostingBoard',
-                'View Group Members': 'canViewGroupMembers',
-                'View Group Reports': 'canViewGroupReports',
-                'View Group Attendance': 'canViewGroupAttendance',
-                'View Group Schedules': 'canViewGroupSchedules',
-                'Create Group Tasks': 'canCreateGroupTasks',
-                'Manage Group Settings': 'canManageGroupSettings',
-                'Approve Group Requests': 'canApproveGroupRequests',
-                'Manage All Groups': 'canManageAllGroups',
-                'Manage All Members': 'canManageAllMembers',
-                'View All Data': 'canViewAllData',
-                'Approve All Requests': 'canApproveAllRequests',
-                'Manage System Settings': 'canManageSystemSettings'
-              }).map(([permissionName, permissionKey]) => (
-                <tr key={permissionKey}>
+              {COMPARISON_ROWS.map(row => (
+                <tr key={row.label}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {permissionName}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {permissionKey.startsWith('canViewOwn') || 
-                     permissionKey.startsWith('canSubmit') || 
-                     permissionKey.startsWith('canCreate') || 
-                     permissionKey.startsWith('canUse') ? (
-                      <svg className="h-5 w-5 text-green-500 mx-auto" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                    ) : (
-                      <svg className="h-5 w-5 text-gray-300 mx-auto" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-                      </svg>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    {permissionKey.startsWith('canViewGroup') || 
-                     permissionKey.startsWith('canCreateGroup') || 
-                     permissionKey.startsWith('canManageGroup') || 
-                     permissionKey.startsWith('canApproveGroup') || 
-                     permissionKey.startsWith('canViewOwn') || 
-                     permissionKey.startsWith('canSubmit') || 
-                     permissionKey.startsWith('canCreate') || 
-                     permissionKey.startsWith('canUse') ? (
-                      <svg className="h-5 w-5 text-green-500 mx-auto" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                    ) : (
-                      <svg className="h-5 w-5 text-gray-300 mx-auto" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-                      </svg>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-center">
-                    <svg className="h-5 w-5 text-green-500 mx-auto" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
+                    {row.label}
                   </td>
+                  {COMPARISON_ROLES.map((policies, index) => {
+                    const scope = getWidestScope(policies, row.action, row.resource);
+                    return (
+                      <td key={index} className="px-6 py-4 whitespace-nowrap text-center">
+                        {scope ? (
+                          <div className="flex flex-col items-center">
+                            <svg className="h-5 w-5 text-green-500 mx-auto" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                            <span className="text-xs text-gray-500">
+                              {PERMISSION_SCOPES.find(entry => entry.value === scope)?.label}
+                            </span>
+                          </div>
+                        ) : (
+                          <svg className="h-5 w-5 text-gray-300 mx-auto" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                          </svg>
+                        )}
+                      </td>
+                    );
+                  })}
                 </tr>
               ))}
             </tbody>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   CheckSquare, 
@@ -21,8 +21,25 @@ import {
   Settings,
   BarChart3,
   Clock,
-  XCircle
+  XCircle,
+  AlertTriangle
 } from 'lucide-react';
+import { Audit, AuditAnswer, AuditTemplate, CorrectiveAction, CustomForm, FormSchema } from '../../types';
+import {
+  AuditScoringError,
+  AuditState,
+  closeCorrectiveAction,
+  completeAudit,
+  DEFAULT_SCHEDULE_BANDS,
+  isCorrectiveActionOverdue,
+  loadAuditState,
+  raiseCorrectiveActions,
+  saveAuditState,
+  scoreAudit
+} from '../../services/auditScoring';
+import { getCustomFormVersions, getFormVersion, getSchemaFields } from '../../services/formSchema';
+import FormBuilder from '../Forms/FormBuilder';
+import FormSubmissionView from '../Forms/FormSubmissionView';
 
 // Types for Operations Management
 interface ChecklistItem {
@@ -56,60 +73,112 @@ interface Checklist {
   notes?: string;
 }
 
-interface Audit {
-  id: string;
-  title: string;
-  type: 'safety' | 'quality' | 'compliance' | 'maintenance' | 'inventory';
-  location: string;
-  auditor: string;
-  date: string;
-  status: 'scheduled' | 'in-progress' | 'completed' | 'failed';
-  score?: number;
-  maxScore: number;
-  findings: string[];
-  recommendations: string[];
-  attachments?: string[];
-  nextAuditDate?: string;
-}
-
-interface CustomForm {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  fields: FormField[];
-  isActive: boolean;
-  createdAt: string;
-  submissions: FormSubmission[];
-}
-
-interface FormField {
-  id: string;
-  type: 'text' | 'number' | 'select' | 'checkbox' | 'radio' | 'textarea' | 'date' | 'file';
-  label: string;
-  required: boolean;
-  options?: string[];
-  placeholder?: string;
-  validation?: string;
-}
+const AUDIT_TEMPLATES: AuditTemplate[] = [
+  {
+    id: 'safety-standard',
+    title: 'Standard Safety Audit',
+    type: 'safety',
+    passScore: 80,
+    scheduleBands: DEFAULT_SCHEDULE_BANDS,
+    actionDueDays: 14,
+    criticalActionDueDays: 2,
+    sections: [
+      {
+        id: 'fire',
+        title: 'Fire & Emergency',
+        weight: 3,
+        items: [
+          { id: 'exits', question: 'Emergency exits are clear and unlocked', points: 2, critical: true, correctiveAction: 'Clear and unlock all emergency exits immediately' },
+          { id: 'extinguishers', question: 'Fire extinguishers are charged and tagged', points: 2, correctiveAction: 'Recharge or replace extinguishers and update tags' },
+          { id: 'alarm', question: 'Fire alarm tested this month', points: 1, correctiveAction: 'Test the fire alarm and log the result' }
+        ]
+      },
+      {
+        id: 'equipment',
+        title: 'Equipment',
+        weight: 2,
+        items: [
+          { id: 'forklift', question: 'Forklift pre-use checks are logged', points: 2, allowNA: true, correctiveAction: 'Retrain drivers on pre-use checks' },
+          { id: 'ladders', question: 'Ladders are free of damage', points: 1, correctiveAction: 'Remove damaged ladders from use' }
+        ]
+      },
+      {
+        id: 'housekeeping',
+        title: 'Housekeeping',
+        weight: 1,
+        items: [
+          { id: 'floors', question: 'Floors are dry and free of obstructions', points: 1, correctiveAction: 'Clean floors and place wet-floor signs' },
+          { id: 'first-aid', question: 'First aid kits are fully stocked', points: 1, correctiveAction: 'Restock first aid kits' }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'quality-standard',
+    title: 'Standard Quality Audit',
+    type: 'quality',
+    passScore: 75,
+    scheduleBands: DEFAULT_SCHEDULE_BANDS,
+    actionDueDays: 21,
+    criticalActionDueDays: 3,
+    sections: [
+      {
+        id: 'product',
+        title: 'Product',
+        weight: 2,
+        items: [
+          { id: 'expiry', question: 'No expired product on shelf', points: 2, critical: true, correctiveAction: 'Remove expired product and review rotation' },
+          { id: 'labels', question: 'Batch labels are legible', points: 1, correctiveAction: 'Reprint damaged batch labels' }
+        ]
+      },
+      {
+        id: 'documentation',
+        title: 'Documentation',
+        weight: 1,
+        items: [
+          { id: 'records', question: 'Quality check records are complete', points: 1, correctiveAction: 'Complete missing quality records' },
+          { id: 'calibration', question: 'Scales calibrated within schedule', points: 1, allowNA: true, correctiveAction: 'Book scale calibration' }
+        ]
+      }
+    ]
+  }
+];
 
-interface FormSubmission {
-  id: string;
-  formId: string;
-  submittedBy: string;
-  submittedAt: string;
-  data: Record<string, any>;
-  status: 'pending' | 'approved' | 'rejected';
-  reviewedBy?: string;
-  reviewedAt?: string;
-  notes?: string;
-}
+const INITIAL_AUDITS: Audit[] = [
+  {
+    id: '1',
+    title: 'Quality Control Audit',
+    type: 'quality',
+    location: 'Production Line A',
+    auditor: 'Sarah Wilson',
+    date: '2024-01-14',
+    status: 'completed',
+    score: 85,
+    maxScore: 100,
+    findings: ['Minor quality issues found in batch #1234', 'Documentation needs improvement'],
+    recommendations: ['Implement additional quality checks', 'Update documentation procedures']
+  },
+  {
+    id: '2',
+    title: 'Safety Compliance Audit',
+    type: 'safety',
+    location: 'Warehouse B',
+    auditor: 'David Brown',
+    date: '2024-01-16',
+    status: 'scheduled',
+    maxScore: 100,
+    findings: [],
+    recommendations: [],
+    templateId: 'safety-standard'
+  }
+];
 
 const OperationsPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'checklists' | 'audits' | 'forms'>('checklists');
+  const [activeTab, setActiveTab] = useState<'checklists' | 'audits' | 'actions' | 'forms'>('checklists');
   const [selectedChecklist, setSelectedChecklist] = useState<Checklist | null>(null);
   const [selectedAudit, setSelectedAudit] = useState<Audit | null>(null);
   const [selectedForm, setSelectedForm] = useState<CustomForm | null>(null);
+  const [showFormBuilder, setShowFormBuilder] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState('all');
@@ -153,33 +222,17 @@ const OperationsPage: React.FC = () => {
     }
   ]);
 
-  const [audits, setAudits] = useState<Audit[]>([
-    {
-      id: '1',
-      title: 'Quality Control Audit',
-      type: 'quality',
-      location: 'Production Line A',
-      auditor: 'Sarah Wilson',
-      date: '2024-01-14',
-      status: 'completed',
-      score: 85,
-      maxScore: 100,
-      findings: ['Minor quality issues found in batch #1234', 'Documentation needs improvement'],
-      recommendations: ['Implement additional quality checks', 'Update documentation procedures']
-    },
-    {
-      id: '2',
-      title: 'Safety Compliance Audit',
-      type: 'safety',
-      location: 'Warehouse B',
-      auditor: 'David Brown',
-      date: '2024-01-16',
-      status: 'scheduled',
-      maxScore: 100,
-      findings: [],
-      recommendations: []
-    }
-  ]);
+  const [auditState, setAuditState] = useState<AuditState>(() =>
+    loadAuditState({ templates: AUDIT_TEMPLATES, audits: INITIAL_AUDITS, correctiveActions: [] })
+  );
+  const { templates: auditTemplates, audits, correctiveActions } = auditState;
+  const [auditAnswers, setAuditAnswers] = useState<Record<string, AuditAnswer>>({});
+  const [auditError, setAuditError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    saveAuditState(auditState);
+  }, [auditState]);
 
   const [customForms, setCustomForms] = useState<CustomForm[]>([
     {
@@ -216,6 +269,13 @@ const OperationsPage: React.FC = () => {
     }
   ]);
 
+  const handlePublishForm = (form: CustomForm, formVersions: FormSchema[]) => {
+    const published = { ...form, title: formVersions[formVersions.length - 1].title, formVersions };
+    setCustomForms(prev => prev.map(candidate => (candidate.id === form.id ? published : candidate)));
+    setSelectedForm(published);
+    setShowFormBuilder(false);
+  };
+
   const handleChecklistItemToggle = (checklistId: string, itemId: string) => {
     setChecklists(prev => prev.map(checklist => {
       if (checklist.id === checklistId) {
@@ -238,6 +298,70 @@ const OperationsPage: React.FC = () => {
     }));
   };
 
+  const getAuditTemplate = (audit: Audit) =>
+    auditTemplates.find(template => template.id === audit.templateId) ||
+    (audit.status === 'scheduled' || audit.status === 'in-progress'
+      ? auditTemplates.find(template => template.type === audit.type)
+      : undefined);
+
+  const openAudit = (audit: Audit) => {
+    setSelectedAudit(audit);
+    setAuditError(null);
+    setAuditAnswers(Object.fromEntries((audit.answers || []).map(answer => [answer.itemId, answer])));
+  };
+
+  const setAuditAnswer = (itemId: string, changes: Partial<AuditAnswer>) => {
+    setAuditError(null);
+    setAuditAnswers(prev => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] || { itemId, result: 'pass' }), ...changes }
+    }));
+  };
+
+  const selectedTemplate = selectedAudit ? getAuditTemplate(selectedAudit) : undefined;
+
+  const auditPreview = useMemo(() => {
+    if (!selectedAudit || !selectedTemplate) return null;
+    try {
+      return scoreAudit(selectedTemplate, Object.values(auditAnswers), selectedAudit.date);
+    } catch {
+      return null;
+    }
+  }, [selectedAudit, selectedTemplate, auditAnswers]);
+
+  const handleCompleteAudit = () => {
+    if (!selectedAudit || !selectedTemplate) return;
+    try {
+      const completed = completeAudit(selectedAudit, selectedTemplate, Object.values(auditAnswers));
+      setAuditState(prev => ({
+        ...prev,
+        audits: prev.audits.map(audit => (audit.id === completed.id ? completed : audit)),
+        correctiveActions: raiseCorrectiveActions(completed, selectedTemplate, prev.correctiveActions)
+      }));
+      setSelectedAudit(completed);
+    } catch (error) {
+      if (!(error instanceof AuditScoringError)) throw error;
+      setAuditError(error.message);
+    }
+  };
+
+  const handleCloseAction = (action: CorrectiveAction) => {
+    try {
+      const closed = closeCorrectiveAction(action, 'Current User', resolutions[action.id] || '');
+      setAuditState(prev => ({
+        ...prev,
+        correctiveActions: prev.correctiveActions.map(item => (item.id === closed.id ? closed : item))
+      }));
+      setAuditError(null);
+    } catch (error) {
+      if (!(error instanceof AuditScoringError)) throw error;
+      setAuditError(error.message);
+    }
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const openActions = correctiveActions.filter(action => action.status === 'open');
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-100 text-green-800';
@@ -330,6 +454,7 @@ const OperationsPage: React.FC = () => {
               {[
                 { id: 'checklists', label: 'Checklists', icon: CheckSquare },
                 { id: 'audits', label: 'Audits', icon: FileText },
+                { id: 'actions', label: `Corrective Actions (${openActions.length})`, icon: AlertTriangle },
                 { id: 'forms', label: 'Custom Forms', icon: Clipboard }
               ].map((tab) => {
                 const Icon = tab.icon;
@@ -414,7 +539,7 @@ const OperationsPage: React.FC = () => {
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
                       className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
-                      onClick={() => setSelectedAudit(audit)}
+                      onClick={() => openAudit(audit)}
                     >
                       <div className="flex items-start justify-between mb-4">
                         <div>
@@ -439,10 +564,19 @@ const OperationsPage: React.FC = () => {
                           <Calendar size={16} />
                           <span>{new Date(audit.date).toLocaleDateString()}</span>
                         </div>
-                        {audit.score && (
+                        {audit.score !== undefined && (
                           <div className="flex items-center gap-2 text-sm text-gray-600">
                             <BarChart3 size={16} />
                             <span>Score: {audit.score}/{audit.maxScore}</span>
+                            {audit.autoFailed && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Critical fail</span>
+                            )}
+                          </div>
+                        )}
+                        {audit.nextAuditDate && (
+                          <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <Clock size={16} />
+                            <span>Next audit: {new Date(audit.nextAuditDate).toLocaleDateString()}</span>
                           </div>
                         )}
                       </div>
@@ -452,6 +586,66 @@ const OperationsPage: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'actions' && (
+              <div className="space-y-4">
+                {auditError && !selectedAudit && (
+                  <p className="text-sm text-red-600">{auditError}</p>
+                )}
+                {correctiveActions.length === 0 && (
+                  <p className="text-gray-500 text-center py-8">No corrective actions yet. Failed audit items show up here.</p>
+                )}
+                {[...correctiveActions]
+                  .sort((a, b) => (a.status === b.status ? a.dueDate.localeCompare(b.dueDate) : a.status === 'open' ? -1 : 1))
+                  .map((action) => (
+                    <div key={action.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <h4 className="font-medium text-gray-900">{action.finding}</h4>
+                          {action.action && <p className="text-sm text-gray-600 mt-1">{action.action}</p>}
+                          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-2">
+                            <span className="flex items-center gap-1"><MapPin size={14} />{action.location}</span>
+                            <span className="flex items-center gap-1"><Calendar size={14} />Due {new Date(action.dueDate).toLocaleDateString()}</span>
+                          </div>
+                        </div>
+                        <div className="flex flex-col items-end gap-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            action.status === 'closed'
+                              ? 'bg-green-100 text-green-800'
+                              : isCorrectiveActionOverdue(action, today) ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                          }`}>
+                            {action.status === 'closed' ? 'closed' : isCorrectiveActionOverdue(action, today) ? 'overdue' : 'open'}
+                          </span>
+                          {action.critical && (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">critical</span>
+                          )}
+                        </div>
+                      </div>
+                      {action.status === 'open' ? (
+                        <div className="flex gap-2 mt-3">
+                          <input
+                            type="text"
+                            placeholder="How was it resolved?"
+                            value={resolutions[action.id] || ''}
+                            onChange={(e) => setResolutions(prev => ({ ...prev, [action.id]: e.target.value }))}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <button
+                            onClick={() => handleCloseAction(action)}
+                            className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
+                          >
+                            Close
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-3">
+                          Closed by {action.closedBy} on {action.closedAt && new Date(action.closedAt).toLocaleString()}: {action.resolution}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            )}
+
             {activeTab === 'forms' && (
               <div className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -476,7 +670,7 @@ const OperationsPage: React.FC = () => {
                       <div className="space-y-3">
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <Clipboard size={16} />
-                          <span>{form.fields.length} fields</span>
+                          <span>{getSchemaFields(getFormVersion(getCustomFormVersions(form))).length} fields · v{getFormVersion(getCustomFormVersions(form)).version}</span>
                         </div>
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <FileText size={16} />
@@ -551,6 +745,231 @@ const OperationsPage: React.FC = () => {
           </motion.div>
         </div>
       )}
+
+      {/* Custom Form Detail Modal */}
+      {selectedForm && !showFormBuilder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-gray-900">{selectedForm.title}</h2>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setShowFormBuilder(true)}
+                    className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Edit size={16} />
+                    Edit Form
+                  </button>
+                  <button
+                    onClick={() => setSelectedForm(null)}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <XCircle size={24} />
+                  </button>
+                </div>
+              </div>
+              <p className="text-gray-600 mt-2">{selectedForm.description}</p>
+              <p className="text-xs text-gray-500 mt-1">Version {getFormVersion(getCustomFormVersions(selectedForm)).version}</p>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <h3 className="font-medium text-gray-900">Submissions ({selectedForm.submissions.length})</h3>
+              {selectedForm.submissions.map((submission) => (
+                <div key={submission.id} className="p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <User size={16} />
+                      <span>{submission.submittedBy} · {new Date(submission.submittedAt).toLocaleString()}</span>
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      submission.status === 'approved' ? 'bg-green-100 text-green-800' :
+                      submission.status === 'rejected' ? 'bg-red-100 text-red-800' :
+                      'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {submission.status}
+                    </span>
+                  </div>
+                  <FormSubmissionView
+                    versions={getCustomFormVersions(selectedForm)}
+                    data={submission.data}
+                    version={submission.formVersion}
+                  />
+                </div>
+              ))}
+              {!selectedForm.submissions.length && <p className="text-sm text-gray-500">No submissions yet.</p>}
+            </div>
+          </motion.div>
+        </div>
+      )}
+
+      {selectedForm && showFormBuilder && (
+        <FormBuilder
+          versions={getCustomFormVersions(selectedForm)}
+          onPublish={(formVersions) => handlePublishForm(selectedForm, formVersions)}
+          onClose={() => setShowFormBuilder(false)}
+        />
+      )}
+
+      {/* Audit Detail Modal */}
+      {selectedAudit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-gray-900">{selectedAudit.title}</h2>
+                <button
+                  onClick={() => setSelectedAudit(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircle size={24} />
+                </button>
+              </div>
+              <p className="text-gray-600 mt-2">
+                {selectedAudit.location} · {selectedAudit.auditor} · {new Date(selectedAudit.date).toLocaleDateString()}
+                {selectedTemplate && ` · ${selectedTemplate.title}`}
+              </p>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {(selectedAudit.status === 'completed' || selectedAudit.status === 'failed') ? (
+                <>
+                  <div className="flex items-center gap-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(selectedAudit.status)}`}>
+                      {selectedAudit.autoFailed ? 'failed - critical item' : selectedAudit.status}
+                    </span>
+                    {selectedAudit.score !== undefined && (
+                      <span className="text-lg font-semibold text-gray-900">{selectedAudit.score}/{selectedAudit.maxScore}</span>
+                    )}
+                    {selectedAudit.nextAuditDate && (
+                      <span className="text-sm text-gray-600">Next audit {new Date(selectedAudit.nextAuditDate).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                  {selectedAudit.findings.length > 0 && (
+                    <div>
+                      <h3 className="font-medium text-gray-900 mb-2">Findings</h3>
+                      <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+                        {selectedAudit.findings.map((finding) => <li key={finding}>{finding}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {selectedAudit.recommendations.length > 0 && (
+                    <div>
+                      <h3 className="font-medium text-gray-900 mb-2">Recommendations</h3>
+                      <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+                        {selectedAudit.recommendations.map((recommendation) => <li key={recommendation}>{recommendation}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {correctiveActions.some(action => action.auditId === selectedAudit.id) && (
+                    <div>
+                      <h3 className="font-medium text-gray-900 mb-2">Corrective Actions</h3>
+                      <div className="space-y-2">
+                        {correctiveActions.filter(action => action.auditId === selectedAudit.id).map((action) => (
+                          <div key={action.id} className="flex items-center justify-between text-sm border border-gray-200 rounded-lg px-3 py-2">
+                            <span className="text-gray-700">{action.finding}</span>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              action.status === 'closed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              {action.status}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              ) : selectedTemplate ? (
+                <>
+                  {selectedTemplate.sections.map((section) => (
+                    <div key={section.id}>
+                      <h3 className="font-medium text-gray-900 mb-3">
+                        {section.title} <span className="text-xs text-gray-500">weight {section.weight}</span>
+                      </h3>
+                      <div className="space-y-3">
+                        {section.items.map((item) => {
+                          const answer = auditAnswers[item.id];
+                          return (
+                            <div key={item.id} className="p-4 border border-gray-200 rounded-lg">
+                              <div className="flex items-start justify-between gap-4">
+                                <div>
+                                  <p className="text-sm font-medium text-gray-900">{item.question}</p>
+                                  <p className="text-xs text-gray-500">
+                                    {item.points} pt{item.points === 1 ? '' : 's'}{item.critical && ' · critical'}
+                                  </p>
+                                </div>
+                                <div className="flex gap-1">
+                                  {(['pass', 'fail', 'na'] as const).map((result) => (
+                                    <button
+                                      key={result}
+                                      disabled={result === 'na' && !item.allowNA}
+                                      onClick={() => setAuditAnswer(item.id, { result })}
+                                      className={`px-3 py-1 rounded text-xs font-medium border disabled:opacity-40 ${
+                                        answer?.result === result
+                                          ? result === 'pass' ? 'bg-green-600 text-white border-green-600' : result === 'fail' ? 'bg-red-600 text-white border-red-600' : 'bg-gray-600 text-white border-gray-600'
+                                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                      }`}
+                                    >
+                                      {result === 'na' ? 'N/A' : result === 'pass' ? 'Pass' : 'Fail'}
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                              {answer?.result === 'fail' && (
+                                <input
+                                  type="text"
+                                  placeholder="What was found?"
+                                  value={answer.note || ''}
+                                  onChange={(e) => setAuditAnswer(item.id, { note: e.target.value })}
+                                  className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+
+                  {auditPreview && (
+                    <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700">
+                      <p>
+                        Score <span className="font-semibold">{auditPreview.score}/100</span> (pass {selectedTemplate.passScore})
+                        {auditPreview.autoFailed && <span className="text-red-600 font-medium"> · fails on a critical item</span>}
+                      </p>
+                      <p>
+                        {auditPreview.band.label} · next audit {new Date(auditPreview.nextAuditDate).toLocaleDateString()}
+                        {auditPreview.unanswered.length > 0 && ` · ${auditPreview.unanswered.length} unanswered`}
+                      </p>
+                    </div>
+                  )}
+                  {auditError && <p className="text-sm text-red-600">{auditError}</p>}
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleCompleteAudit}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      <Send size={16} />
+                      Complete Audit
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-gray-500">No audit template exists for {selectedAudit.type} audits yet.</p>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,8 @@
 import React, { useRef, useState } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Circle, Polyline } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
+import { RouteSolution } from '../../types';
+import { formatTimeOfDay, parseStopPriority, solveRoutes } from '../../services/routeSolver';
 import { 
   Download, 
   Upload, 
@@ -21,35 +23,57 @@ import {
   XCircle
 } from 'lucide-react';
 
-// Mock function to geocode addresses (replace with real geocoding in production)
-const mockGeocode = async (csvData: string[]): Promise<{
-  lat: number; 
-  lng: number; 
+/**
+ * Store row parsed from the uploaded CSV
+ */
+interface SimulationStore {
+  lat: number;
+  lng: number;
   address: string;
   name: string;
   type: string;
   priority: string;
   visitDuration: number;
   frequency: number;
-}[]> => {
-  // For demo, randomize points within Germany's bounding box
-  return csvData.map((line, i) => {
-    const [name, address, type = 'Supermarket', priority = 'Medium', duration = '4', freq = '7'] = line.split(',').map(s => s.trim());
-    return {
+}
+
+/**
+ * Parse the store CSV. Rows without usable coordinates are returned as
+ * errors instead of being placed at made-up positions.
+ */
+const parseStoreCsv = (csvData: string[]): { stores: SimulationStore[]; errors: string[] } => {
+  const stores: SimulationStore[] = [];
+  const errors: string[] = [];
+  csvData.forEach((line, i) => {
+    const [name, address, type = 'Supermarket', priority = 'Medium', duration = '4', freq = '7', lat, lng] = line.split(',').map(s => s.trim());
+    const latitude = parseFloat(lat);
+    const longitude = parseFloat(lng);
+    if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      errors.push(`Row ${i + 2} (${name || 'unnamed'}): missing or invalid latitude/longitude`);
+      return;
+    }
+    stores.push({
       name,
       address,
       type,
       priority,
-      visitDuration: parseInt(duration) || 4,
+      visitDuration: parseFloat(duration) || 4,
       frequency: parseInt(freq) || 7,
-      lat: 51 + Math.random() * 3 - 1.5, // 49.5 to 52.5
-      lng: 10 + Math.random() * 6 - 3,   // 7 to 13
-    };
+      lat: latitude,
+      lng: longitude,
+    });
   });
+  return { stores, errors };
 };
 
 // Template CSV content
-const templateCsv = 'Store Name,Address,Store Type,Priority,Expected Visit Duration (hours),Visit Frequency (days)\nStore 1,Alexanderplatz 1 Berlin,Supermarket,High,4,7\nStore 2,Marienplatz 8 Munich,Convenience Store,Medium,2,14\nStore 3,Königsallee 1 Düsseldorf,Department Store,High,6,7';
+const templateCsv = 'Store Name,Address,Store Type,Priority,Expected Visit Duration (hours),Visit Frequency (days),Latitude,Longitude\nStore 1,Alexanderplatz 1 Berlin,Supermarket,High,4,7,52.5219,13.4132\nStore 2,Marienplatz 8 Munich,Convenience Store,Medium,2,14,48.1374,11.5755\nStore 3,Königsallee 1 Düsseldorf,Department Store,High,6,7,51.2254,6.7763';
+
+// Optimization goals and how strongly the route solver evens out workloads
+const optimizationGoals = {
+  'shortest-travel': { label: 'Shortest Travel', balanceWeight: 0.1 },
+  'balanced': { label: 'Balanced Workload', balanceWeight: 1 },
+};
 
 // Store types and their characteristics
 const storeTypes = {
@@ -60,6 +84,14 @@ const storeTypes = {
   'Hypermarket': { color: '#EF4444', visitDuration: 8, frequency: 5 }
 };
 
+// Working day starts at 08:00 and must end on the same day
+const SHIFT_START_HOUR = 8;
+const MIN_WORK_HOURS = 1;
+const MAX_WORK_HOURS = 24 - SHIFT_START_HOUR - 1;
+
+const clampWorkHours = (hours: number) =>
+  Math.min(MAX_WORK_HOURS, Math.max(MIN_WORK_HOURS, Number.isFinite(hours) ? hours : MIN_WORK_HOURS));
+
 // Priority levels
 const priorities = {
   'High': { color: '#EF4444', weight: 3 },
@@ -70,33 +102,15 @@ const priorities = {
 const SimulationPage: React.FC = () => {
   // Core state
   const [numPeople, setNumPeople] = useState(3);
-  const [storeData, setStoreData] = useState<{
-    lat: number; 
-    lng: number; 
-    address: string;
-    name: string;
-    type: string;
-    priority: string;
-    visitDuration: number;
-    frequency: number;
-  }[]>([]);
-  const [assignments, setAssignments] = useState<Record<number, {
-    lat: number; 
-    lng: number; 
-    address: string;
-    name: string;
-    type: string;
-    priority: string;
-    visitDuration: number;
-    frequency: number;
-  }[]>>({});
+  const [storeData, setStoreData] = useState<SimulationStore[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Planning features state
   const [showRoutes, setShowRoutes] = useState(false);
   const [showCoverageAreas, setShowCoverageAreas] = useState(true);
-  const [assignmentAlgorithm, setAssignmentAlgorithm] = useState<'round-robin' | 'geographic' | 'workload-balanced'>('geographic');
+  const [optimizationGoal, setOptimizationGoal] = useState<keyof typeof optimizationGoals>('balanced');
   const [maxTravelTime, setMaxTravelTime] = useState(60); // minutes
   const [workHoursPerDay, setWorkHoursPerDay] = useState(8);
   const [travelSpeed, setTravelSpeed] = useState(50); // km/h
@@ -105,7 +119,9 @@ const SimulationPage: React.FC = () => {
     id: string;
     name: string;
     numPeople: number;
-    assignments: Record<number, any[]>;
+    workHoursPerDay: number;
+    travelSpeed: number;
+    optimizationGoal: keyof typeof optimizationGoals;
     metrics: any;
   }>>([]);
 
@@ -127,57 +143,63 @@ const SimulationPage: React.FC = () => {
     setLoading(true);
     const text = await file.text();
     const lines = text.split('\n').slice(1).filter(Boolean);
-    const geocoded = await mockGeocode(lines);
-    setStoreData(geocoded);
+    const { stores, errors } = parseStoreCsv(lines);
+    setStoreData(stores);
+    setImportErrors(errors);
     setLoading(false);
   };
 
-  // Assign stores to people based on selected algorithm
-  React.useEffect(() => {
-    if (storeData.length && numPeople > 0) {
-      const newAssignments: Record<number, typeof storeData> = {};
-      for (let i = 0; i < numPeople; i++) newAssignments[i] = [];
-      
-      if (assignmentAlgorithm === 'round-robin') {
-        storeData.forEach((store, idx) => {
-          newAssignments[idx % numPeople].push(store);
-        });
-      } else if (assignmentAlgorithm === 'geographic') {
-        // Simple geographic clustering (in production, use proper clustering algorithms)
-        const sortedStores = [...storeData].sort((a, b) => a.lat - b.lat);
-        sortedStores.forEach((store, idx) => {
-          newAssignments[idx % numPeople].push(store);
-        });
-      } else if (assignmentAlgorithm === 'workload-balanced') {
-        // Balance by total work hours
-        const sortedStores = [...storeData].sort((a, b) => b.visitDuration - a.visitDuration);
-        sortedStores.forEach((store, idx) => {
-          newAssignments[idx % numPeople].push(store);
-        });
+  // Solve one working day of routes for the planned team
+  const solution: RouteSolution | null = React.useMemo(() => {
+    if (!storeData.length || numPeople < 1) return null;
+    return solveRoutes(
+      storeData.map((store, idx) => ({
+        id: String(idx),
+        name: store.name,
+        location: { lat: store.lat, lng: store.lng },
+        visitDuration: Math.round(store.visitDuration * 60),
+        priority: parseStopPriority(store.priority),
+      })),
+      Array.from({ length: numPeople }, (_, i) => ({
+        id: String(i),
+        name: `Person ${i + 1}`,
+        shiftStart: formatTimeOfDay(SHIFT_START_HOUR * 60),
+        shiftEnd: formatTimeOfDay((SHIFT_START_HOUR + clampWorkHours(workHoursPerDay)) * 60),
+      })),
+      {
+        averageSpeedKmh: travelSpeed,
+        balanceWeight: optimizationGoals[optimizationGoal].balanceWeight,
       }
-      
-      setAssignments(newAssignments);
-    }
-  }, [storeData, numPeople, assignmentAlgorithm]);
+    );
+  }, [storeData, numPeople, workHoursPerDay, travelSpeed, optimizationGoal]);
+
+  // Stores per person in visiting order
+  const assignments: Record<number, SimulationStore[]> = React.useMemo(() => {
+    const byPerson: Record<number, SimulationStore[]> = {};
+    solution?.routes.forEach((route, personIdx) => {
+      byPerson[personIdx] = route.stops.map(stop => storeData[Number(stop.stopId)]);
+    });
+    return byPerson;
+  }, [solution, storeData]);
 
   // Color palette for people
   const colors = ['#EF4444', '#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'];
 
   // Calculate metrics for the current assignment
   const calculateMetrics = () => {
-    if (!storeData.length || !numPeople) return null;
+    if (!solution || !numPeople) return null;
     
     const totalStores = storeData.length;
     const totalWorkHours = storeData.reduce((sum, store) => sum + store.visitDuration, 0);
     const avgStoresPerPerson = totalStores / numPeople;
     const avgWorkHoursPerPerson = totalWorkHours / numPeople;
     
-    const workloadDistribution = Object.values(assignments).map(stores => 
-      stores.reduce((sum, store) => sum + store.visitDuration, 0)
-    );
+    // Working day per person including travel, in hours
+    const workloadDistribution = solution.routes.map(route => route.totalDuration / 60);
     const maxWorkload = Math.max(...workloadDistribution);
     const minWorkload = Math.min(...workloadDistribution);
-    const workloadBalance = ((maxWorkload - minWorkload) / avgWorkHoursPerPerson) * 100;
+    const avgWorkload = workloadDistribution.reduce((sum, hours) => sum + hours, 0) / numPeople;
+    const workloadBalance = avgWorkload > 0 ? ((maxWorkload - minWorkload) / avgWorkload) * 100 : 0;
     
     return {
       totalStores,
@@ -186,7 +208,10 @@ const SimulationPage: React.FC = () => {
       avgWorkHoursPerPerson,
       workloadBalance,
       maxWorkload,
-      minWorkload
+      minWorkload,
+      totalDistance: solution.totalDistance,
+      uncoveredStores: solution.unassigned.length,
+      overTravelLimit: solution.routes.filter(route => route.travelMinutes > maxTravelTime).length
     };
   };
 
@@ -201,7 +226,9 @@ const SimulationPage: React.FC = () => {
       id: Date.now().toString(),
       name: scenarioName,
       numPeople,
-      assignments,
+      workHoursPerDay,
+      travelSpeed,
+      optimizationGoal,
       metrics
     };
     setSavedScenarios(prev => [...prev, newScenario]);
@@ -210,7 +237,9 @@ const SimulationPage: React.FC = () => {
   // Load saved scenario
   const handleLoadScenario = (scenario: typeof savedScenarios[0]) => {
     setNumPeople(scenario.numPeople);
-    setAssignments(scenario.assignments);
+    setWorkHoursPerDay(clampWorkHours(scenario.workHoursPerDay));
+    setTravelSpeed(scenario.travelSpeed);
+    setOptimizationGoal(scenario.optimizationGoal);
   };
 
   return (
@@ -251,6 +280,17 @@ const SimulationPage: React.FC = () => {
                 Processing addresses...
               </div>
             )}
+            {importErrors.length > 0 && (
+              <div className="p-3 bg-red-50 rounded-lg text-sm text-red-700">
+                <div className="flex items-center font-medium mb-1">
+                  <XCircle className="w-4 h-4 mr-2" />
+                  {importErrors.length} row(s) skipped
+                </div>
+                <ul className="list-disc pl-5 space-y-1">
+                  {importErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
 
@@ -273,17 +313,27 @@ const SimulationPage: React.FC = () => {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Assignment Algorithm</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Optimization Goal</label>
               <select 
-                value={assignmentAlgorithm} 
-                onChange={e => setAssignmentAlgorithm(e.target.value as any)}
+                value={optimizationGoal} 
+                onChange={e => setOptimizationGoal(e.target.value as keyof typeof optimizationGoals)}
                 className="w-full border rounded-lg px-3 py-2"
               >
-                <option value="round-robin">Round Robin</option>
-                <option value="geographic">Geographic Clustering</option>
-                <option value="workload-balanced">Workload Balanced</option>
+                {Object.entries(optimizationGoals).map(([value, goal]) => (
+                  <option key={value} value={value}>{goal.label}</option>
+                ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Travel Speed (km/h)</label>
+              <input 
+                type="number" 
+                min={5} 
+                value={travelSpeed} 
+                onChange={e => setTravelSpeed(Number(e.target.value) || 5)} 
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Max Travel Time (min)</label>
               <input 
@@ -297,8 +347,10 @@ const SimulationPage: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-1">Work Hours/Day</label>
               <input 
                 type="number" 
+                min={MIN_WORK_HOURS}
+                max={MAX_WORK_HOURS}
                 value={workHoursPerDay} 
-                onChange={e => setWorkHoursPerDay(Number(e.target.value))} 
+                onChange={e => setWorkHoursPerDay(clampWorkHours(Number(e.target.value)))} 
                 className="w-full border rounded-lg px-3 py-2"
               />
             </div>
@@ -376,6 +428,15 @@ const SimulationPage: React.FC = () => {
                 </Marker>
               ))
             ))}
+            {showRoutes && Object.entries(assignments).map(([personIdx, stores]) => (
+              stores.length > 1 && (
+                <Polyline
+                  key={`route-${personIdx}`}
+                  positions={stores.map(store => [store.lat, store.lng] as [number, number])}
+                  pathOptions={{ color: colors[Number(personIdx) % colors.length], weight: 3 }}
+                />
+              )
+            ))}
           </MapContainer>
         </div>
       </div>
@@ -422,6 +483,33 @@ const SimulationPage: React.FC = () => {
                  metrics.workloadBalance < 40 ? 'Good balance' : 'Needs improvement'}
               </div>
             </div>
+            <div className="mt-4 space-y-2">
+              {solution?.routes.map((route, personIdx) => (
+                <div key={route.vehicleId} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center">
+                    <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: colors[personIdx % colors.length] }} />
+                    Person {personIdx + 1}: {route.stops.length} stores
+                  </span>
+                  <span className={route.travelMinutes > maxTravelTime ? 'text-red-600' : 'text-gray-600'}>
+                    {route.totalDistance} km • {Math.floor(route.totalDuration / 60)}h {route.totalDuration % 60}m
+                    {route.stops.length > 0 && ` • ${route.startTime}-${route.endTime}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {(metrics.uncoveredStores > 0 || metrics.overTravelLimit > 0) && (
+              <div className="mt-4 p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800 flex items-start">
+                <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                <div>
+                  {metrics.uncoveredStores > 0 && (
+                    <div>{metrics.uncoveredStores} store(s) do not fit into one working day for this team.</div>
+                  )}
+                  {metrics.overTravelLimit > 0 && (
+                    <div>{metrics.overTravelLimit} person(s) exceed the {maxTravelTime} min travel limit.</div>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -449,7 +537,7 @@ const SimulationPage: React.FC = () => {
             <button 
               onClick={() => {
                 setStoreData([]);
-                setAssignments({});
+                setImportErrors([]);
               }}
               className="w-full flex items-center justify-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
             >
@@ -33,8 +33,11 @@ import {
   UserCheck,
   Settings2
 } from 'lucide-react';
-import { ReportTemplate, ReportSubmission, ReportRequest } from '../../types';
+import { ReportTemplate, ReportSubmission, ReportRequest, FormSchema } from '../../types';
 import ReportSettings from './ReportSettings';
+import { getReportTemplateVersions } from '../../services/formSchema';
+import FormBuilder from '../Forms/FormBuilder';
+import FormSubmissionView from '../Forms/FormSubmissionView';
 
 /**
  * Report Page Component
@@ -52,6 +55,8 @@ const ReportPage: React.FC = () => {
   const [showApprovalModal, setShowApprovalModal] = useState(false);
   const [isFeatureEnabled, setIsFeatureEnabled] = useState(false);
   const [showSetupGuide, setShowSetupGuide] = useState(true);
+  const [editingTemplate, setEditingTemplate] = useState<ReportTemplate | null>(null);
+  const [viewingSubmission, setViewingSubmission] = useState<ReportSubmission | null>(null);
 
   // Mock data for demonstration
   const mockTemplates: ReportTemplate[] = [
@@ -60,7 +65,12 @@ const ReportPage: React.FC = () => {
       name: 'Daily Store Report',
       description: 'Daily sales, customer count, and store conditions',
       category: 'daily',
-      fields: [],
+      fields: [
+        { id: 'f1', name: 'sales', label: 'Total Sales', type: 'number', required: true, order: 1, isVisible: true, validation: { minValue: 0 } },
+        { id: 'f2', name: 'customer_count', label: 'Customer Count', type: 'number', required: true, order: 2, isVisible: true },
+        { id: 'f3', name: 'store_condition', label: 'Store Condition', type: 'select', required: true, options: ['Good', 'Fair', 'Poor'], order: 3, isVisible: true },
+        { id: 'f4', name: 'notes', label: 'Notes', type: 'textarea', required: false, placeholder: 'Anything the area manager should know', order: 4, isVisible: true }
+      ],
       isActive: true,
       isRecurring: true,
       recurrencePattern: {
@@ -161,6 +171,8 @@ const ReportPage: React.FC = () => {
     }
   ];
 
+  const [templates, setTemplates] = useState<ReportTemplate[]>(mockTemplates);
+
   const mockSubmissions: ReportSubmission[] = [
     {
       id: '1',
@@ -169,7 +181,7 @@ const ReportPage: React.FC = () => {
       submittedBy: 'sarah.johnson@retail.com',
       submittedAt: '2024-01-15T17:00:00Z',
       status: 'submitted',
-      data: {},
+      data: { sales: 12450, customer_count: 310, store_condition: 'Good', notes: 'Promo endcap restocked twice' },
       version: 1,
       isRecurring: true,
       recurringInstance: 15
@@ -294,6 +306,20 @@ const ReportPage: React.FC = () => {
     }
   ];
 
+  const viewingSubmissionTemplate = viewingSubmission
+    ? templates.find(template => template.id === viewingSubmission.templateId)
+    : undefined;
+
+  const handlePublishTemplate = (template: ReportTemplate, formVersions: FormSchema[]) => {
+    const latest = formVersions[formVersions.length - 1];
+    setTemplates(prev => prev.map(candidate => (
+      candidate.id === template.id
+        ? { ...candidate, name: latest.title, formVersions, updatedAt: latest.publishedAt || candidate.updatedAt }
+        : candidate
+    )));
+    setEditingTemplate(null);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'approved':
@@ -487,7 +513,7 @@ const ReportPage: React.FC = () => {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-gray-600">Active Templates</p>
-                    <p className="text-2xl font-bold text-gray-900">{mockTemplates.filter(t => t.isActive).length}</p>
+                    <p className="text-2xl font-bold text-gray-900">{templates.filter(t => t.isActive).length}</p>
                   </div>
                   <FileText className="h-8 w-8 text-primary-600" />
                 </div>
@@ -641,7 +667,7 @@ const ReportPage: React.FC = () => {
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {mockTemplates.map((template) => (
+            {templates.map((template) => (
               <Card key={template.id}>
                 <CardHeader>
                   <div className="flex items-center justify-between">
@@ -667,7 +693,7 @@ const ReportPage: React.FC = () => {
                         <Eye className="h-3 w-3" />
                         View
                       </Button>
-                      <Button variant="outline" size="sm" className="flex items-center gap-1">
+                      <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={() => setEditingTemplate(template)}>
                         <Edit className="h-3 w-3" />
                         Edit
                       </Button>
@@ -736,7 +762,7 @@ const ReportPage: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex items-center gap-2">
-                            <Button variant="outline" size="sm">
+                            <Button variant="outline" size="sm" onClick={() => setViewingSubmission(submission)}>
                               <Eye className="h-3 w-3" />
                             </Button>
                             <Button variant="outline" size="sm">
@@ -1257,8 +1283,45 @@ const ReportPage: React.FC = () => {
           </Card>
         </div>
       )}
+
+      {editingTemplate && (
+        <FormBuilder
+          versions={getReportTemplateVersions(editingTemplate)}
+          onPublish={(formVersions) => handlePublishTemplate(editingTemplate, formVersions)}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+
+      {viewingSubmission && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{viewingSubmission.title}</CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setViewingSubmission(null)}>
+                  Close
+                </Button>
+              </div>
+              <CardDescription>
+                {viewingSubmission.submittedBy} · {new Date(viewingSubmission.submittedAt).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {viewingSubmissionTemplate ? (
+                <FormSubmissionView
+                  versions={getReportTemplateVersions(viewingSubmissionTemplate)}
+                  data={viewingSubmission.data}
+                  version={viewingSubmission.templateVersion}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">The template for this report no longer exists.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 };
 
-export default ReportPage; 
\ No newline at end of file
+export default ReportPage;
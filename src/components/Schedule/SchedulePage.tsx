@@ -8,13 +8,15 @@
  * - Shift templates and recurring schedules
  * - Employee availability tracking
  * - Conflict detection and resolution
+ * - Weekly roster auto-fill from coverage requirements, with explanations
+ *   for unfilled slots and rule violations
  * - Mobile-responsive design
  * 
  * @author Workforce Management Team
  * @version 1.0.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import {
   Calendar,
@@ -25,10 +27,21 @@ import {
   Settings,
   AlertCircle,
   CheckCircle,
-  XCircle
+  XCircle,
+  Wand2
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
-import { Shift, ShiftTemplate } from '../../types';
+import {
+  CoverageRequirement,
+  EmployeeSchedule,
+  LeaveRequest,
+  RosterEmployee,
+  RosterResult,
+  Shift,
+  ShiftTemplate,
+  Workplace
+} from '../../types';
+import { findRosterViolations, generateRoster } from '../../services/rosterScheduler';
 import toast from 'react-hot-toast';
 import { t } from '../../lib/i18n';
 import { useLanguageChange } from '../../lib/i18n-hooks';
@@ -55,6 +68,12 @@ const SchedulePage: React.FC = () => {
   const [showShiftModal, setShowShiftModal] = useState(false);
   const [selectedShift, setSelectedShift] = useState<Shift | null>(null);
   const [filterEmployee, setFilterEmployee] = useState<string>('all');
+  const [rosterEmployees, setRosterEmployees] = useState<RosterEmployee[]>([]);
+  const [workplaces, setWorkplaces] = useState<Pick<Workplace, 'id' | 'name'>[]>([]);
+  const [coverage, setCoverage] = useState<CoverageRequirement[]>([]);
+  const [availability, setAvailability] = useState<EmployeeSchedule[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [rosterResult, setRosterResult] = useState<RosterResult | null>(null);
 
   /**
    * Initialize mock schedule data
@@ -69,7 +88,9 @@ const SchedulePage: React.FC = () => {
         endTime: '17:00',
         type: 'regular',
         status: 'scheduled',
-        notes: 'Morning shift'
+        notes: 'Morning shift',
+        workplaceId: 'wp-gangnam',
+        templateId: '1'
       },
       {
         id: '2',
@@ -79,7 +100,9 @@ const SchedulePage: React.FC = () => {
         endTime: '22:00',
         type: 'regular',
         status: 'approved',
-        notes: 'Afternoon shift'
+        notes: 'Afternoon shift',
+        workplaceId: 'wp-gangnam',
+        templateId: '2'
       },
       {
         id: '3',
@@ -89,7 +112,9 @@ const SchedulePage: React.FC = () => {
         endTime: '06:00',
         type: 'night',
         status: 'scheduled',
-        notes: 'Night shift'
+        notes: 'Night shift',
+        workplaceId: 'wp-mapo',
+        templateId: '3'
       }
     ];
 
@@ -120,10 +145,79 @@ const SchedulePage: React.FC = () => {
       }
     ];
 
+    const mockEmployees: RosterEmployee[] = [
+      { userId: '1', name: 'Employee 1', workplaceIds: ['wp-gangnam'], maxWeeklyHours: 40 },
+      { userId: '2', name: 'Employee 2', workplaceIds: ['wp-gangnam', 'wp-mapo'], maxWeeklyHours: 40 },
+      { userId: '3', name: 'Employee 3', workplaceIds: ['wp-mapo'], maxWeeklyHours: 24 }
+    ];
+
+    const mockCoverage: CoverageRequirement[] = [
+      { workplaceId: 'wp-gangnam', templateId: '1', daysOfWeek: [1, 2, 3, 4, 5], headcount: 1 },
+      { workplaceId: 'wp-gangnam', templateId: '2', daysOfWeek: [1, 2, 3, 4, 5, 6], headcount: 1 },
+      { workplaceId: 'wp-mapo', templateId: '3', daysOfWeek: [5, 6], headcount: 1 }
+    ];
+
+    const mockAvailability: EmployeeSchedule[] = [
+      {
+        id: 'avail-1',
+        userId: '3',
+        date: '2024-01-20',
+        startTime: '00:00',
+        endTime: '00:00',
+        isWorkDay: false,
+        notes: 'Day off',
+        createdBy: 'admin',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      }
+    ];
+
+    const mockLeave: LeaveRequest[] = [
+      {
+        id: 'leave-1',
+        userId: '1',
+        type: { id: 'vacation', name: 'Vacation', maxDays: 15, color: '#3B82F6', requiresApproval: true },
+        startDate: '2024-01-18',
+        endDate: '2024-01-19',
+        reason: 'Family trip',
+        status: 'approved',
+        approvedBy: 'admin',
+        approvedAt: '2024-01-10T09:00:00Z'
+      }
+    ];
+
     setShifts(mockShifts);
     setTemplates(mockTemplates);
+    setRosterEmployees(mockEmployees);
+    setWorkplaces([{ id: 'wp-gangnam', name: 'Gangnam Store' }, { id: 'wp-mapo', name: 'Mapo Store' }]);
+    setCoverage(mockCoverage);
+    setAvailability(mockAvailability);
+    setLeaveRequests(mockLeave);
   }, []);
 
+  /**
+   * Monday of the selected week (YYYY-MM-DD), matching the week calendar
+   */
+  const weekStart = useMemo(() => {
+    const monday = new Date(selectedDate);
+    monday.setDate(selectedDate.getDate() - selectedDate.getDay() + 1);
+    return monday.toISOString().split('T')[0];
+  }, [selectedDate]);
+
+  /**
+   * Rule violations in the selected week's shifts
+   */
+  const violations = useMemo(() => findRosterViolations({
+    weekStart,
+    templates,
+    coverage,
+    employees: rosterEmployees,
+    workplaces,
+    shifts,
+    availability,
+    leaveRequests
+  }), [weekStart, templates, coverage, rosterEmployees, workplaces, shifts, availability, leaveRequests]);
+
   /**
    * Get shifts for a specific date
    */
@@ -143,6 +237,31 @@ const SchedulePage: React.FC = () => {
     toast.success('Shift rescheduled successfully');
   };
 
+  /**
+   * Fill the selected week's open coverage slots
+   */
+  const autoFillWeek = () => {
+    const result = generateRoster({
+      weekStart,
+      templates,
+      coverage,
+      employees: rosterEmployees,
+      workplaces,
+      shifts,
+      availability,
+      leaveRequests
+    });
+
+    setShifts(prev => [...prev, ...result.shifts]);
+    setRosterResult(result);
+
+    if (result.unfilled.length > 0) {
+      toast.error(`${result.shifts.length} shifts added, ${result.unfilled.length} slots could not be filled`);
+    } else {
+      toast.success(`${result.shifts.length} shifts added, all slots covered`);
+    }
+  };
+
   /**
    * Create new shift
    */
@@ -264,6 +383,13 @@ const SchedulePage: React.FC = () => {
             <Settings size={16} />
             <span>Templates</span>
           </button>
+          <button
+            onClick={autoFillWeek}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <Wand2 size={16} />
+            <span>Auto-fill Week</span>
+          </button>
           <button
             onClick={() => setShowShiftModal(true)}
             className="btn-primary flex items-center space-x-2"
@@ -426,6 +552,41 @@ const SchedulePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Roster Issues */}
+      {((rosterResult && rosterResult.weekStart === weekStart && rosterResult.unfilled.length > 0) || violations.length > 0) && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Roster Issues</h3>
+
+          {rosterResult && rosterResult.weekStart === weekStart && rosterResult.unfilled.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Unfilled Slots</h4>
+              <ul className="space-y-1">
+                {rosterResult.unfilled.map(slot => (
+                  <li key={`${slot.workplaceId}-${slot.templateId}-${slot.date}`} className="flex items-start space-x-2 text-sm text-yellow-800">
+                    <AlertCircle size={16} className="text-yellow-500 mt-0.5 flex-shrink-0" />
+                    <span>{slot.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {violations.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Rule Violations</h4>
+              <ul className="space-y-1">
+                {violations.map(violation => (
+                  <li key={`${violation.shiftId}-${violation.rule}`} className="flex items-start space-x-2 text-sm text-red-800">
+                    <XCircle size={16} className="text-red-500 mt-0.5 flex-shrink-0" />
+                    <span>{violation.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Shift Templates */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
@@ -29,15 +29,7 @@ import {
   CheckCircle,
   Info
 } from 'lucide-react';
-import { MemberRole } from '../../types';
-
-/**
- * Props interface for CompanyInfo component
- */
-interface CompanyInfoProps {
-  /** Current user's role for access control */
-  userRole?: MemberRole;
-}
+import { useCan } from '../../contexts/AuthorizationContext';
 
 /**
  * Company data structure for form management
@@ -97,7 +89,7 @@ const languageOptions = [
  * - Field-specific validation messages
  * - Responsive design for all screen sizes
  */
-const CompanyInfo: React.FC<CompanyInfoProps> = ({ userRole = MemberRole.ADMIN }) => {
+const CompanyInfo: React.FC = () => {
   // Form state management
   const [formData, setFormData] = useState<CompanyData>({
     name: 'Acme Corporation',
@@ -124,10 +116,10 @@ const CompanyInfo: React.FC<CompanyInfoProps> = ({ userRole = MemberRole.ADMIN }
   const [errors, setErrors] = useState<Partial<CompanyData>>({});
 
   /**
-   * Check if current user has admin privileges
-   * Only admins can modify company information
+   * Check if current user may manage company settings
+   * Only admins (or explicit grants) can modify company information
    */
-  const isAdmin = userRole === MemberRole.ADMIN;
+  const isAdmin = useCan('manage', 'company-settings');
 
   /**
    * Handle form input changes
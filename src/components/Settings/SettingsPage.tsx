@@ -14,14 +14,11 @@ import {
 } from 'lucide-react';
 import AdminTab from '../Admin/AdminTab';
 import CompanyInfo from './CompanyInfo';
-import { MemberRole } from '../../types';
+import { useAuthorization } from '../../contexts/AuthorizationContext';
 
-interface SettingsPageProps {
-  userRole?: MemberRole;
-}
-
-const SettingsPage: React.FC<SettingsPageProps> = ({ userRole = MemberRole.ADMIN }) => {
+const SettingsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('general');
+  const { can } = useAuthorization();
 
   const tabs = [
     {
@@ -35,14 +32,14 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ userRole = MemberRole.ADMIN
       name: 'Company Info',
       icon: Building2,
       description: 'Company information and preferences',
-      adminOnly: true
+      resource: 'company-settings' as const
     },
     {
       id: 'admin',
       name: 'Admin',
       icon: Shield,
       description: 'Admin permissions and access control',
-      adminOnly: true
+      resource: 'admin' as const
     },
     {
       id: 'notifications',
@@ -83,15 +80,15 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ userRole = MemberRole.ADMIN
   ];
 
   const filteredTabs = tabs.filter(tab => 
-    !tab.adminOnly || userRole === MemberRole.ADMIN
+    !tab.resource || can('manage', tab.resource)
   );
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'company':
-        return <CompanyInfo userRole={userRole} />;
+        return <CompanyInfo />;
       case 'admin':
-        return <AdminTab currentUserRole={userRole} />;
+        return <AdminTab />;
       case 'general':
         return (
           <div className="space-y-6">
@@ -0,0 +1,259 @@
+/**
+ * Competitor Price Input Component - Workforce Management Platform
+ *
+ * Captures competitor prices for a competitor analysis questionnaire question.
+ * Features include:
+ * - Our shelf price and facings next to each competitor SKU on the list
+ * - Competitor shelf price, promo mechanic, promo price and facings
+ * - Extra SKU pairs found on the visit when no list is set
+ * - Live flag when our price is outside the agreed corridor
+ * - Shelf photos as configured
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle, Camera, Plus, Trash2 } from 'lucide-react';
+import {
+  CompetitorAnalysisConfig,
+  CompetitorPriceAnswer,
+  CompetitorPriceLine,
+  CompetitorSkuPair,
+  PricingVerificationConfig,
+  PromoMechanic
+} from '../../types';
+import { checkCorridor, findCorridor, PROMO_MECHANICS, setPriceLine } from '../../services/competitorPricing';
+
+/**
+ * Competitor price input props
+ */
+interface CompetitorPriceInputProps {
+  config?: CompetitorAnalysisConfig;                            // SKU pairs and evidence rules from the question
+  pricing?: PricingVerificationConfig;                          // Price corridors and photo rule
+  retailer?: string;                                            // Retailer of the visited store, for retailer corridors
+  value?: CompetitorPriceAnswer;                                // Current answer
+  onChange: (value: CompetitorPriceAnswer | undefined) => void; // Called with the updated answer
+}
+
+const EMPTY_PAIR: CompetitorSkuPair = { ownSku: '', ownName: '', competitorSku: '', competitorBrand: '', competitorName: '' };
+
+/**
+ * Competitor Price Input Component
+ *
+ * @returns JSX element with a price row per SKU pair
+ */
+const CompetitorPriceInput: React.FC<CompetitorPriceInputProps> = ({ config, pricing, retailer = '', value, onChange }) => {
+  const capture = value || { lines: [] };
+  const products = config?.products || [];
+  const [newPair, setNewPair] = useState<CompetitorSkuPair>(EMPTY_PAIR);
+
+  // Listed pairs first, then pairs added on the visit
+  const rows: CompetitorSkuPair[] = [
+    ...products,
+    ...capture.lines
+      .filter(line => !products.some(product => product.ownSku === line.ownSku && product.competitorSku === line.competitorSku))
+      .map(line => ({ ...EMPTY_PAIR, ...line, ownName: line.ownSku, competitorName: line.competitorName || line.competitorSku })),
+  ];
+
+  const update = (next: CompetitorPriceAnswer) => {
+    const empty = next.lines.length === 0 && !next.photos?.length;
+    onChange(empty ? undefined : next);
+  };
+
+  const getLine = (pair: CompetitorSkuPair) =>
+    capture.lines.find(line => line.ownSku === pair.ownSku && line.competitorSku === pair.competitorSku);
+
+  const updateLine = (pair: CompetitorSkuPair, patch: Partial<CompetitorPriceLine>) => {
+    const line: CompetitorPriceLine = getLine(pair) || {
+      ownSku: pair.ownSku,
+      ownPrice: 0,
+      ownFacings: 0,
+      competitorSku: pair.competitorSku,
+      competitorBrand: pair.competitorBrand,
+      competitorName: pair.competitorName || undefined,
+      shelfPrice: 0,
+      promoMechanic: 'none',
+      facings: 0,
+    };
+    update(setPriceLine(capture, pair, { ...line, ...patch }));
+  };
+
+  const toNumber = (raw: string) => (raw === '' ? 0 : Number(raw));
+
+  const addPair = () => {
+    const pair = { ...newPair, ownSku: newPair.ownSku.trim(), competitorSku: newPair.competitorSku.trim(), competitorBrand: newPair.competitorBrand.trim() };
+    if (!pair.ownSku || !pair.competitorSku || !pair.competitorBrand || getLine(pair)) return;
+    updateLine(pair, {});
+    setNewPair(EMPTY_PAIR);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-gray-700 pb-2">Competitor product</th>
+              <th className="px-2 pb-2 font-medium text-gray-700">Our price</th>
+              <th className="px-2 pb-2 font-medium text-gray-700">Our facings</th>
+              <th className="px-2 pb-2 font-medium text-gray-700">Shelf price</th>
+              <th className="px-2 pb-2 font-medium text-gray-700">Promotion</th>
+              <th className="px-2 pb-2 font-medium text-gray-700">Promo price</th>
+              <th className="px-2 pb-2 font-medium text-gray-700">Facings</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(pair => {
+              const line = getLine(pair);
+              const corridor = findCorridor(pricing?.corridors || [], pair.ownSku, retailer);
+              const breach = corridor && line && line.ownPrice > 0 ? checkCorridor(line.ownPrice, corridor) : null;
+              return (
+                <tr key={`${pair.ownSku}-${pair.competitorSku}`} className="border-t border-gray-100 align-top">
+                  <td className="py-2 pr-3">
+                    <div className="text-gray-900">{pair.competitorName}</div>
+                    <div className="text-xs text-gray-500">{pair.competitorBrand} · vs {pair.ownName}</div>
+                    {breach && corridor && (
+                      <div className="flex items-center text-xs text-red-600 mt-1">
+                        <AlertTriangle size={12} className="mr-1" />
+                        Our price is {breach.direction} the €{corridor.minPrice}–€{corridor.maxPrice} corridor
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={line?.ownPrice || ''}
+                      onChange={(e) => updateLine(pair, { ownPrice: toNumber(e.target.value) })}
+                      aria-label={`Our price next to ${pair.competitorName}`}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={line?.ownFacings ?? ''}
+                      onChange={(e) => updateLine(pair, { ownFacings: toNumber(e.target.value) })}
+                      aria-label={`Our facings next to ${pair.competitorName}`}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={line?.shelfPrice || ''}
+                      onChange={(e) => updateLine(pair, { shelfPrice: toNumber(e.target.value) })}
+                      aria-label={`Shelf price of ${pair.competitorName}`}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      value={line?.promoMechanic || 'none'}
+                      onChange={(e) => {
+                        const promoMechanic = e.target.value as PromoMechanic;
+                        updateLine(pair, promoMechanic === 'none' ? { promoMechanic, promoPrice: undefined } : { promoMechanic });
+                      }}
+                      aria-label={`Promotion on ${pair.competitorName}`}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      {PROMO_MECHANICS.map(mechanic => <option key={mechanic.value} value={mechanic.value}>{mechanic.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={line?.promoPrice ?? ''}
+                      disabled={!line || line.promoMechanic === 'none'}
+                      onChange={(e) => updateLine(pair, { promoPrice: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      aria-label={`Promo price of ${pair.competitorName}`}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-50"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={line?.facings ?? ''}
+                      onChange={(e) => updateLine(pair, { facings: toNumber(e.target.value) })}
+                      aria-label={`Facings of ${pair.competitorName}`}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    {line && (
+                      <button
+                        type="button"
+                        onClick={() => update(setPriceLine(capture, pair, undefined))}
+                        className="text-red-600 hover:text-red-700"
+                        aria-label={`Clear ${pair.competitorName}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {products.length === 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newPair.ownSku}
+            placeholder="Our SKU"
+            onChange={(e) => setNewPair({ ...newPair, ownSku: e.target.value })}
+            className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <input
+            type="text"
+            value={newPair.competitorBrand}
+            placeholder="Competitor brand"
+            onChange={(e) => setNewPair({ ...newPair, competitorBrand: e.target.value })}
+            className="w-36 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <input
+            type="text"
+            value={newPair.competitorSku}
+            placeholder="Competitor SKU"
+            onChange={(e) => setNewPair({ ...newPair, competitorSku: e.target.value })}
+            className="w-36 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button type="button" onClick={addPair} className="btn-secondary flex items-center space-x-1 text-sm">
+            <Plus size={14} />
+            <span>Add Product</span>
+          </button>
+        </div>
+      )}
+
+      {(config?.requirePhotos || pricing?.requirePhotos) && (
+        <label className="btn-secondary inline-flex items-center space-x-2 cursor-pointer text-sm">
+          <Camera size={16} />
+          <span>{capture.photos?.length ? `${capture.photos.length} photo(s)` : 'Add Shelf Photos'}</span>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => update({ ...capture, photos: Array.from(e.target.files || []).map(file => URL.createObjectURL(file)) })}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default CompetitorPriceInput;
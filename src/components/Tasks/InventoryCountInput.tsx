@@ -0,0 +1,194 @@
+/**
+ * Inventory Count Input Component - Workforce Management Platform
+ *
+ * Captures a stock count for an inventory count questionnaire question.
+ * Features include:
+ * - Units counted per SKU on the question's count list
+ * - Extra SKUs found on the visit when no count list is set
+ * - Counting method, photo and location evidence as configured
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react';
+import { Camera, MapPin, Plus, Trash2 } from 'lucide-react';
+import { InventoryCountAnswer, InventoryCountConfig } from '../../types';
+import { createEmptyInventoryCount, setCountLine } from '../../services/inventoryLedger';
+
+/**
+ * Inventory count input props
+ */
+interface InventoryCountInputProps {
+  config?: InventoryCountConfig;                              // Count list and evidence rules from the question
+  value?: InventoryCountAnswer;                               // Current answer
+  onChange: (value: InventoryCountAnswer | undefined) => void; // Called with the updated answer
+}
+
+/**
+ * Inventory Count Input Component
+ *
+ * @returns JSX element with a count field per SKU
+ */
+const InventoryCountInput: React.FC<InventoryCountInputProps> = ({ config, value, onChange }) => {
+  const count = value || createEmptyInventoryCount(config);
+  const products = config?.products || [];
+  const [newSku, setNewSku] = useState('');
+
+  // Count list first, then SKUs added on the visit
+  const rows = [
+    ...products.map(product => ({ sku: product.sku, label: product.name, listed: true })),
+    ...count.lines
+      .filter(line => !products.some(product => product.sku === line.sku))
+      .map(line => ({ sku: line.sku, label: line.sku, listed: false })),
+  ];
+
+  const update = (next: InventoryCountAnswer) => {
+    const empty = next.lines.length === 0 && !next.photos?.length && !next.location;
+    onChange(empty ? undefined : next);
+  };
+
+  const getLine = (sku: string) => count.lines.find(line => line.sku === sku);
+
+  const handleQuantityChange = (sku: string, raw: string) => {
+    const line = getLine(sku);
+    update(setCountLine(count, sku, raw === '' ? undefined : Number(raw), line?.note));
+  };
+
+  const handleNoteChange = (sku: string, note: string) => {
+    const line = getLine(sku);
+    if (line) update(setCountLine(count, sku, line.quantity, note));
+  };
+
+  const addSku = () => {
+    const sku = newSku.trim();
+    if (!sku || getLine(sku)) return;
+    update(setCountLine(count, sku, 0));
+    setNewSku('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {config && config.countMethods.length > 1 && (
+        <div className="flex space-x-2">
+          {config.countMethods.map(method => (
+            <button
+              key={method}
+              type="button"
+              onClick={() => update({ ...count, method })}
+              className={`${count.method === method ? 'btn-primary' : 'btn-secondary'} capitalize`}
+            >
+              {method}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr>
+            <th className="text-left font-medium text-gray-700 pb-2">Product</th>
+            <th className="px-2 pb-2 font-medium text-gray-700">Units</th>
+            <th className="text-left px-2 pb-2 font-medium text-gray-700">Note</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const line = getLine(row.sku);
+            return (
+              <tr key={row.sku} className="border-t border-gray-100">
+                <td className="py-2 pr-3">
+                  <div className="text-gray-900">{row.label}</div>
+                  <div className="text-xs text-gray-500">{row.sku}</div>
+                </td>
+                <td className="px-2 py-2 text-center">
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={line?.quantity ?? ''}
+                    onChange={(e) => handleQuantityChange(row.sku, e.target.value)}
+                    aria-label={`Units of ${row.label}`}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <input
+                    type="text"
+                    value={line?.note ?? ''}
+                    disabled={!line}
+                    placeholder="e.g. damaged packs"
+                    onChange={(e) => handleNoteChange(row.sku, e.target.value)}
+                    className="w-full px-2 py-1 border border-gray-300 rounded disabled:bg-gray-50"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  {!row.listed && (
+                    <button
+                      type="button"
+                      onClick={() => update(setCountLine(count, row.sku, undefined))}
+                      className="text-red-600 hover:text-red-700"
+                      aria-label={`Remove ${row.sku}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {products.length === 0 && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newSku}
+            placeholder="SKU"
+            onChange={(e) => setNewSku(e.target.value)}
+            className="w-40 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button type="button" onClick={addSku} className="btn-secondary flex items-center space-x-1 text-sm">
+            <Plus size={14} />
+            <span>Add SKU</span>
+          </button>
+        </div>
+      )}
+
+      {(config?.requirePhotos || config?.requireLocationVerification) && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {config.requirePhotos && (
+            <label className="btn-secondary flex items-center space-x-2 cursor-pointer">
+              <Camera size={16} />
+              <span>{count.photos?.length ? `${count.photos.length} photo(s)` : 'Add Photos'}</span>
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => update({ ...count, photos: Array.from(e.target.files || []).map(file => URL.createObjectURL(file)) })}
+              />
+            </label>
+          )}
+          {config.requireLocationVerification && (
+            <button
+              type="button"
+              onClick={() => navigator.geolocation?.getCurrentPosition(position => update({
+                ...count,
+                location: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+              }))}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <MapPin size={16} />
+              <span>{count.location ? `${count.location.latitude.toFixed(5)}, ${count.location.longitude.toFixed(5)}` : 'Capture Location'}</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryCountInput;
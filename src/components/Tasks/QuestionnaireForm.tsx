@@ -0,0 +1,504 @@
+/**
+ * Questionnaire Form Component - Workforce Management Platform
+ *
+ * Renders an AdvancedTodo questionnaire for merchandisers to fill in.
+ * Features include:
+ * - Inputs for every question type, including matrix and rating
+ * - Shelf-share capture with live planogram compliance
+ * - Inventory counts per SKU, posted to the stock ledger once the
+ *   submission is saved
+ * - Competitor shelf prices, promotions and facings
+ * - Live show / hide / require / skip conditional logic
+ * - Per-question validation messages
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, MapPin, SkipForward, Star } from 'lucide-react';
+import { QuestionType, TodoQuestion, TodoResponse } from '../../types';
+import {
+  answersFromResponses,
+  buildTodoResponses,
+  getDefaultAnswers,
+  QuestionAnswers,
+  sortQuestions,
+  validateQuestionnaireAnswers
+} from '../../services/questionnaire';
+import { getCompetitorAnalysisConfig, getPricingVerificationConfig } from '../../services/competitorPricing';
+import {
+  countMovementsFromResponses,
+  getInventoryCountConfig,
+  InventoryLedgerError,
+  recordInventoryMovements
+} from '../../services/inventoryLedger';
+import { useAuth } from '../../contexts/AuthContext';
+import { getShelfShareConfig } from '../../services/shelfShare';
+import ShelfShareInput from './ShelfShareInput';
+import InventoryCountInput from './InventoryCountInput';
+import CompetitorPriceInput from './CompetitorPriceInput';
+
+/**
+ * Questionnaire form props
+ */
+interface QuestionnaireFormProps {
+  todoId: string;                                  // Todo the answers belong to
+  userId: string;                                  // Merchandiser filling in the form
+  workplaceCode?: string;                          // Store visited; required for inventory counts, which go to its ledger
+  questions: TodoQuestion[];                       // Questions in any order
+  initialResponses?: TodoResponse[];               // Saved draft responses
+  onSubmit: (responses: TodoResponse[]) => Promise<void> | void; // Called with valid, visible answers only
+  onSubmitted?: () => void;                        // Called once the submission and its inventory counts are saved
+  onSaveDraft?: (responses: TodoResponse[]) => void;
+}
+
+/**
+ * Questionnaire Form Component
+ *
+ * @returns JSX element with the questionnaire and its live validation
+ */
+const QuestionnaireForm: React.FC<QuestionnaireFormProps> = ({
+  todoId,
+  userId,
+  workplaceCode,
+  questions,
+  initialResponses,
+  onSubmit,
+  onSubmitted,
+  onSaveDraft
+}) => {
+  const [answers, setAnswers] = useState<QuestionAnswers>(() => ({
+    ...getDefaultAnswers(questions),
+    ...(initialResponses ? answersFromResponses(initialResponses) : {})
+  }));
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { user } = useAuth();
+
+  const ordered = useMemo(() => sortQuestions(questions), [questions]);
+  const validation = useMemo(() => validateQuestionnaireAnswers(questions, answers), [questions, answers]);
+
+  const setAnswer = (questionId: string, value: any) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }));
+    setTouched(prev => ({ ...prev, [questionId]: true }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitAttempted(true);
+    if (!validation.isValid) return;
+    const responses = buildTodoResponses(todoId, userId, questions, answers);
+    const counted = countMovementsFromResponses(responses, questions, {
+      workplaceCode: workplaceCode || '',
+      recordedBy: user?.name || userId
+    });
+    if (counted.length && !workplaceCode) {
+      setSubmitError('Inventory counts need a workplace. Ask your manager to assign this questionnaire to one.');
+      return;
+    }
+
+    setSubmitError(null);
+    setSubmitting(true);
+    try {
+      await onSubmit(responses);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Could not submit the questionnaire');
+      setSubmitting(false);
+      return;
+    }
+
+    // Counts are posted only for saved submissions; movement IDs come from the todo, so a resubmission replaces them
+    try {
+      if (counted.length) recordInventoryMovements(counted);
+      onSubmitted?.();
+    } catch (error) {
+      const reason = error instanceof InventoryLedgerError ? error.message : 'the stock ledger could not be updated';
+      setSubmitError(`Submitted, but the inventory counts were not saved: ${reason}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  /**
+   * Render the input for a question type
+   */
+  const renderInput = (question: TodoQuestion) => {
+    const value = answers[question.id];
+
+    switch (question.type) {
+      case QuestionType.TEXT_ANSWER:
+        return (
+          <input
+            type="text"
+            value={value ?? ''}
+            placeholder={question.placeholder}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+
+      case QuestionType.TEXTAREA_ANSWER:
+        return (
+          <textarea
+            value={value ?? ''}
+            placeholder={question.placeholder}
+            rows={4}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+
+      case QuestionType.NUMBER_INPUT:
+        return (
+          <input
+            type="number"
+            value={value ?? ''}
+            min={question.validation?.minValue}
+            max={question.validation?.maxValue}
+            onChange={(e) => setAnswer(question.id, e.target.value === '' ? undefined : Number(e.target.value))}
+            className={inputClass}
+          />
+        );
+
+      case QuestionType.SLIDER: {
+        const min = question.validation?.minValue ?? 0;
+        const max = question.validation?.maxValue ?? 100;
+        return (
+          <div className="flex items-center space-x-3">
+            <input
+              type="range"
+              min={min}
+              max={max}
+              value={value ?? min}
+              onChange={(e) => setAnswer(question.id, Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-12 text-right text-sm font-medium text-gray-900">{value ?? '–'}</span>
+          </div>
+        );
+      }
+
+      case QuestionType.RATING_SCALE: {
+        const scale = question.ratingScale || { min: 1, max: 5 };
+        const step = scale.step || 1;
+        const points: number[] = [];
+        for (let point = scale.min; point <= scale.max; point += step) points.push(point);
+        return (
+          <div>
+            <div className="flex flex-wrap gap-2">
+              {points.map(point => (
+                <button
+                  key={point}
+                  type="button"
+                  onClick={() => setAnswer(question.id, point)}
+                  className={`flex items-center px-3 py-1 rounded-lg border text-sm ${
+                    value === point ? 'bg-primary-600 text-white border-primary-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {points.length <= 5 && <Star size={14} className="mr-1" />}
+                  {scale.showNumbers !== false && point}
+                </button>
+              ))}
+            </div>
+            {scale.labels && (
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{scale.labels.min}</span>
+                <span>{scale.labels.max}</span>
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case QuestionType.SINGLE_CHOICE:
+        return (
+          <div className="space-y-2">
+            {(question.options || []).map(option => (
+              <label key={option.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name={question.id}
+                  checked={value === option.value}
+                  onChange={() => setAnswer(question.id, option.value)}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case QuestionType.MULTIPLE_CHOICE:
+      case QuestionType.CHECKLIST: {
+        const selected: string[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-2">
+            {(question.options || []).map(option => (
+              <label key={option.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option.value)}
+                  onChange={(e) => setAnswer(question.id, e.target.checked
+                    ? [...selected, option.value]
+                    : selected.filter(item => item !== option.value))}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+
+      case QuestionType.YES_NO:
+        return (
+          <div className="flex space-x-2">
+            {[true, false].map(option => (
+              <button
+                key={String(option)}
+                type="button"
+                onClick={() => setAnswer(question.id, option)}
+                className={`px-4 py-2 rounded-lg border text-sm ${
+                  value === option ? 'bg-primary-600 text-white border-primary-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        );
+
+      case QuestionType.MATRIX: {
+        if (!question.matrix) return null;
+        const { rows, columns, allowMultiple } = question.matrix;
+        const grid: Record<string, any> = value && typeof value === 'object' ? value : {};
+        const toggle = (rowId: string, columnValue: string) => {
+          if (!allowMultiple) {
+            setAnswer(question.id, { ...grid, [rowId]: columnValue });
+            return;
+          }
+          const current: string[] = Array.isArray(grid[rowId]) ? grid[rowId] : [];
+          setAnswer(question.id, {
+            ...grid,
+            [rowId]: current.includes(columnValue) ? current.filter(item => item !== columnValue) : [...current, columnValue]
+          });
+        };
+        return (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th></th>
+                  {columns.map(column => (
+                    <th key={column.id} className="px-3 py-2 text-center font-medium text-gray-600">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.id} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-900">{row.label}</td>
+                    {columns.map(column => {
+                      const cell = grid[row.id];
+                      const checked = Array.isArray(cell) ? cell.includes(column.value) : cell === column.value;
+                      return (
+                        <td key={column.id} className="px-3 py-2 text-center">
+                          <input
+                            type={allowMultiple ? 'checkbox' : 'radio'}
+                            name={`${question.id}-${row.id}`}
+                            checked={checked}
+                            onChange={() => toggle(row.id, column.value)}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      case QuestionType.DATE_TIME:
+        return (
+          <input
+            type="datetime-local"
+            value={value ?? ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+
+      case QuestionType.LOCATION:
+        return (
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={() => navigator.geolocation?.getCurrentPosition(position => setAnswer(question.id, {
+                latitude: position.coords.latitude,
+                longitude: position.coords.longitude,
+                accuracy: position.coords.accuracy
+              }))}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <MapPin size={16} />
+              <span>Capture Location</span>
+            </button>
+            {value && (
+              <span className="text-sm text-gray-600">
+                {Number(value.latitude).toFixed(5)}, {Number(value.longitude).toFixed(5)}
+              </span>
+            )}
+          </div>
+        );
+
+      case QuestionType.PHOTO_UPLOAD:
+      case QuestionType.FILE_UPLOAD:
+        return (
+          <div>
+            <input
+              type="file"
+              multiple={question.maxFiles !== 1}
+              accept={question.type === QuestionType.PHOTO_UPLOAD ? 'image/*' : question.fileTypes?.join(',')}
+              onChange={(e) => setAnswer(question.id, Array.from(e.target.files || []).map(file => URL.createObjectURL(file)))}
+              className="text-sm"
+            />
+            {Array.isArray(value) && value.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">{value.length} file(s) selected</p>
+            )}
+          </div>
+        );
+
+      case QuestionType.SIGNATURE:
+        return (
+          <input
+            type="text"
+            value={value ?? ''}
+            placeholder="Type your full name to sign"
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={`${inputClass} italic`}
+          />
+        );
+
+      case QuestionType.SHELF_SHARE:
+        return (
+          <ShelfShareInput
+            config={getShelfShareConfig(question)}
+            value={value}
+            onChange={(measurement) => setAnswer(question.id, measurement)}
+          />
+        );
+
+      case QuestionType.INVENTORY_COUNT:
+        return (
+          <InventoryCountInput
+            config={getInventoryCountConfig(question)}
+            value={value}
+            onChange={(count) => setAnswer(question.id, count)}
+          />
+        );
+
+      case QuestionType.COMPETITOR_ANALYSIS:
+        return (
+          <CompetitorPriceInput
+            config={getCompetitorAnalysisConfig(question)}
+            pricing={getPricingVerificationConfig(question)}
+            value={value}
+            onChange={(prices) => setAnswer(question.id, prices)}
+          />
+        );
+
+      default:
+        // The template editor rejects these types; older questionnaires may still carry them
+        return (
+          <p className="flex items-center text-sm text-gray-500">
+            <AlertCircle size={14} className="mr-2" />
+            This question type cannot be answered yet. Ask your manager to update the questionnaire.
+          </p>
+        );
+    }
+  };
+
+  const visibleQuestions = ordered.filter(question => validation.states[question.id].visible);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {visibleQuestions.map((question, index) => {
+        const state = validation.states[question.id];
+        const errors = (touched[question.id] || submitAttempted) ? validation.errors[question.id] : undefined;
+
+        return (
+          <div
+            key={question.id}
+            className={`bg-white rounded-lg shadow-sm border p-4 ${errors ? 'border-red-300' : 'border-gray-200'} ${state.skipped ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-start justify-between mb-3">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">
+                  {index + 1}. {question.title}
+                  {state.required && <span className="text-red-500 ml-1">*</span>}
+                </h4>
+                {question.description && <p className="text-sm text-gray-600 mt-1">{question.description}</p>}
+              </div>
+              {state.skipped && (
+                <span className="flex items-center text-xs text-gray-500">
+                  <SkipForward size={14} className="mr-1" />
+                  Skipped
+                </span>
+              )}
+            </div>
+
+            {!state.skipped && renderInput(question)}
+
+            {question.helpText && !state.skipped && <p className="text-xs text-gray-500 mt-2">{question.helpText}</p>}
+            {errors && !state.skipped && (
+              <ul className="mt-2 space-y-1">
+                {errors.map(error => (
+                  <li key={error} className="flex items-center text-xs text-red-600">
+                    <AlertCircle size={12} className="mr-1" />
+                    {error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      {submitError && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle size={14} className="mr-2" />
+          {submitError}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">
+          {validation.isValid
+            ? <span className="flex items-center text-green-600"><CheckCircle size={16} className="mr-1" />Ready to submit</span>
+            : `${Object.keys(validation.errors).length} of ${visibleQuestions.length} questions need attention`}
+        </span>
+        <div className="flex space-x-2">
+          {onSaveDraft && (
+            <button
+              type="button"
+              onClick={() => onSaveDraft(buildTodoResponses(todoId, userId, questions, answers))}
+              className="btn-secondary"
+            >
+              Save Draft
+            </button>
+          )}
+          <button type="submit" className="btn-primary" disabled={submitting}>
+            {submitting ? 'Submitting...' : 'Submit'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default QuestionnaireForm;
@@ -0,0 +1,504 @@
+/**
+ * Questionnaire Template Editor Component - Workforce Management Platform
+ *
+ * Lets an administrator design a reusable AdvancedTodo questionnaire.
+ * Features include:
+ * - Questions of every type the questionnaire form can answer
+ * - Options, matrix rows and columns, rating and numeric ranges
+ * - Store configuration (planogram, count list) for merchandising questions
+ * - Show / hide / require / skip rules on earlier answers
+ * - Live design check; templates with errors cannot be saved
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Plus, Trash2 } from 'lucide-react';
+import { ConditionalLogic, MerchandisingQuestionConfig, QuestionOption, QuestionType, TodoQuestion } from '../../types';
+import { ANSWERABLE_QUESTION_TYPES, validateQuestionnaireDesign } from '../../services/questionnaire';
+import { QuestionnaireTemplateInput } from '../TodoV2/api';
+
+/**
+ * A question being edited, with the raw text of its list fields
+ */
+interface DraftQuestion {
+  question: TodoQuestion;
+  options: string;               // One option per line
+  rows: string;                  // Matrix rows, one per line
+  columns: string;               // Matrix columns, one per line
+  config: string;                // merchandisingConfig as JSON
+}
+
+/**
+ * Questionnaire template editor props
+ */
+interface QuestionnaireTemplateEditorProps {
+  onSave: (template: QuestionnaireTemplateInput) => Promise<void>; // Called only when the design check passes
+  onCancel: () => void;
+}
+
+const CHOICE_TYPES = [QuestionType.SINGLE_CHOICE, QuestionType.MULTIPLE_CHOICE, QuestionType.CHECKLIST];
+const RANGE_TYPES = [QuestionType.NUMBER_INPUT, QuestionType.SLIDER];
+const OPERATORS: ConditionalLogic['operator'][] = ['equals', 'not_equals', 'contains', 'greater_than', 'less_than'];
+const ACTIONS: ConditionalLogic['action'][] = ['show', 'hide', 'require', 'skip'];
+
+// Merchandising questions carry their store configuration as JSON
+const CONFIG_EXAMPLES: Partial<Record<QuestionType, string>> = {
+  [QuestionType.SHELF_SHARE]: '{ "displayEvaluation": { "planogram": { "id": "", "name": "", "shelfCount": 5, "products": [], "positions": [] }, "ownBrands": [], "shareOfShelfTarget": 40 } }',
+  [QuestionType.INVENTORY_COUNT]: '{ "inventoryCount": { "countMethods": ["manual"], "products": [{ "sku": "", "name": "" }] } }',
+  [QuestionType.COMPETITOR_ANALYSIS]: '{ "competitorAnalysis": { "products": [{ "ownSku": "", "competitorSku": "" }] }, "pricingVerification": { "corridors": [] } }',
+};
+
+const typeLabel = (type: QuestionType) => type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ');
+
+/**
+ * The question's merchandisingConfig; null when its JSON does not parse to an object
+ */
+const parseConfig = (draft: DraftQuestion): MerchandisingQuestionConfig | null | undefined => {
+  if (!CONFIG_EXAMPLES[draft.question.type] || !draft.config.trim()) return undefined;
+  try {
+    const config = JSON.parse(draft.config);
+    return config && typeof config === 'object' && !Array.isArray(config) ? config : null;
+  } catch {
+    return null;
+  }
+};
+
+const toOptions = (text: string): QuestionOption[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean).map((label, index) => ({
+    id: `option-${index + 1}`,
+    label,
+    value: label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || `option_${index + 1}`,
+  }));
+
+/**
+ * The question as it is saved, with list fields parsed from their text
+ */
+const toQuestion = (draft: DraftQuestion): TodoQuestion => {
+  const { question, options, rows, columns } = draft;
+  return {
+    ...question,
+    options: CHOICE_TYPES.includes(question.type) ? toOptions(options) : undefined,
+    matrix: question.type === QuestionType.MATRIX
+      ? { rows: toOptions(rows), columns: toOptions(columns), allowMultiple: question.matrix?.allowMultiple }
+      : undefined,
+    ratingScale: question.type === QuestionType.RATING_SCALE ? question.ratingScale || { min: 1, max: 5 } : undefined,
+    merchandisingConfig: parseConfig(draft) || undefined,
+  };
+};
+
+/**
+ * Questionnaire Template Editor Component
+ *
+ * @returns JSX element with the template form and its design check
+ */
+const QuestionnaireTemplateEditor: React.FC<QuestionnaireTemplateEditorProps> = ({ onSave, onCancel }) => {
+  const [details, setDetails] = useState({
+    name: '',
+    description: '',
+    category: '',
+    difficulty: 'medium' as QuestionnaireTemplateInput['difficulty'],
+    estimatedDuration: 30,
+    isPublic: true
+  });
+  const [drafts, setDrafts] = useState<DraftQuestion[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const questions = useMemo(() => drafts.map(toQuestion), [drafts]);
+  const issues = useMemo(() => validateQuestionnaireDesign(questions), [questions]);
+  const invalidConfigs = useMemo(
+    () => new Set(drafts.filter(draft => parseConfig(draft) === null).map(draft => draft.question.id)),
+    [drafts]
+  );
+  const hasErrors = issues.some(issue => issue.severity === 'error') || invalidConfigs.size > 0;
+  const canSave = !hasErrors && questions.length > 0 && details.name.trim() && details.description.trim() && details.category.trim();
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  const updateDraft = (id: string, change: (draft: DraftQuestion) => DraftQuestion) => {
+    setDrafts(prev => prev.map(draft => (draft.question.id === id ? change(draft) : draft)));
+  };
+
+  const updateQuestion = (id: string, fields: Partial<TodoQuestion>) => {
+    updateDraft(id, draft => ({ ...draft, question: { ...draft.question, ...fields } }));
+  };
+
+  const addQuestion = () => {
+    const timestamp = new Date().toISOString();
+    const order = drafts.length + 1;
+    setDrafts(prev => [...prev, {
+      question: {
+        id: `q-${Date.now().toString(36)}-${order}`,
+        type: QuestionType.TEXT_ANSWER,
+        title: '',
+        required: false,
+        order,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      },
+      options: '',
+      rows: '',
+      columns: '',
+      config: ''
+    }]);
+  };
+
+  const removeQuestion = (id: string) => {
+    setDrafts(prev => prev
+      .filter(draft => draft.question.id !== id)
+      .map((draft, index) => ({ ...draft, question: { ...draft.question, order: index + 1 } })));
+  };
+
+  const updateRule = (id: string, index: number, fields: Partial<ConditionalLogic>) => {
+    updateDraft(id, draft => ({
+      ...draft,
+      question: {
+        ...draft.question,
+        conditionalLogic: (draft.question.conditionalLogic || []).map((rule, ruleIndex) => (
+          ruleIndex === index ? { ...rule, ...fields } : rule
+        ))
+      }
+    }));
+  };
+
+  const addRule = (question: TodoQuestion) => {
+    const source = questions.find(candidate => candidate.order < question.order);
+    if (!source) return;
+    updateQuestion(question.id, {
+      conditionalLogic: [...(question.conditionalLogic || []), { questionId: source.id, operator: 'equals', value: '', action: 'show' }]
+    });
+  };
+
+  const removeRule = (question: TodoQuestion, index: number) => {
+    updateQuestion(question.id, {
+      conditionalLogic: (question.conditionalLogic || []).filter((_, ruleIndex) => ruleIndex !== index)
+    });
+  };
+
+  /**
+   * Rule values are typed after their source question
+   */
+  const parseRuleValue = (sourceId: string, raw: string): ConditionalLogic['value'] => {
+    const source = questions.find(question => question.id === sourceId);
+    if (source?.type === QuestionType.YES_NO) return raw === 'true';
+    if (source && [...RANGE_TYPES, QuestionType.RATING_SCALE].includes(source.type) && raw !== '' && !isNaN(Number(raw))) {
+      return Number(raw);
+    }
+    return raw;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({
+        name: details.name.trim(),
+        description: details.description.trim(),
+        category: details.category.trim(),
+        difficulty: details.difficulty,
+        estimatedDuration: details.estimatedDuration,
+        isPublic: details.isPublic,
+        tags: [],
+        questions
+      });
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Could not save the template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderTypeFields = (draft: DraftQuestion) => {
+    const { question } = draft;
+
+    const example = CONFIG_EXAMPLES[question.type];
+    if (example) {
+      return (
+        <div>
+          <textarea
+            value={draft.config}
+            rows={4}
+            placeholder={example}
+            onChange={(e) => updateDraft(question.id, current => ({ ...current, config: e.target.value }))}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          {invalidConfigs.has(question.id) && (
+            <p className="flex items-center text-xs text-red-600 mt-1">
+              <AlertCircle size={12} className="mr-1" />
+              The configuration must be a JSON object
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    if (CHOICE_TYPES.includes(question.type)) {
+      return (
+        <textarea
+          value={draft.options}
+          rows={3}
+          placeholder="One option per line"
+          onChange={(e) => updateDraft(question.id, current => ({ ...current, options: e.target.value }))}
+          className={inputClass}
+        />
+      );
+    }
+
+    if (question.type === QuestionType.MATRIX) {
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <textarea
+            value={draft.rows}
+            rows={3}
+            placeholder="Rows, one per line"
+            onChange={(e) => updateDraft(question.id, current => ({ ...current, rows: e.target.value }))}
+            className={inputClass}
+          />
+          <textarea
+            value={draft.columns}
+            rows={3}
+            placeholder="Columns, one per line"
+            onChange={(e) => updateDraft(question.id, current => ({ ...current, columns: e.target.value }))}
+            className={inputClass}
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!question.matrix?.allowMultiple}
+              onChange={(e) => updateQuestion(question.id, { matrix: { rows: [], columns: [], allowMultiple: e.target.checked } })}
+            />
+            <span>Allow several answers per row</span>
+          </label>
+        </div>
+      );
+    }
+
+    if (question.type === QuestionType.RATING_SCALE || RANGE_TYPES.includes(question.type)) {
+      const rating = question.type === QuestionType.RATING_SCALE;
+      const min = rating ? question.ratingScale?.min ?? 1 : question.validation?.minValue;
+      const max = rating ? question.ratingScale?.max ?? 5 : question.validation?.maxValue;
+      const setRange = (field: 'min' | 'max', raw: string) => {
+        const value = raw === '' ? undefined : Number(raw);
+        if (rating) {
+          const scale = { min: min ?? 1, max: max ?? 5 };
+          updateQuestion(question.id, { ratingScale: { ...scale, [field]: value ?? scale[field] } });
+        } else {
+          updateQuestion(question.id, {
+            validation: { ...question.validation, [field === 'min' ? 'minValue' : 'maxValue']: value }
+          });
+        }
+      };
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <input type="number" value={min ?? ''} placeholder="Minimum" onChange={(e) => setRange('min', e.target.value)} className={inputClass} />
+          <input type="number" value={max ?? ''} placeholder="Maximum" onChange={(e) => setRange('max', e.target.value)} className={inputClass} />
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  const renderRules = (question: TodoQuestion) => {
+    const sources = questions.filter(candidate => candidate.id !== question.id);
+    return (
+      <div className="space-y-2">
+        {(question.conditionalLogic || []).map((rule, index) => {
+          const source = sources.find(candidate => candidate.id === rule.questionId);
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={rule.action}
+                onChange={(e) => updateRule(question.id, index, { action: e.target.value as ConditionalLogic['action'] })}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                {ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+              </select>
+              <span className="text-gray-500">when</span>
+              <select
+                value={rule.questionId}
+                onChange={(e) => updateRule(question.id, index, { questionId: e.target.value, value: '' })}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                {sources.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.title || `Question ${candidate.order}`}</option>
+                ))}
+              </select>
+              <select
+                value={rule.operator}
+                onChange={(e) => updateRule(question.id, index, { operator: e.target.value as ConditionalLogic['operator'] })}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                {OPERATORS.map(operator => <option key={operator} value={operator}>{operator.replace('_', ' ')}</option>)}
+              </select>
+              {source?.type === QuestionType.YES_NO ? (
+                <select
+                  value={String(rule.value)}
+                  onChange={(e) => updateRule(question.id, index, { value: parseRuleValue(rule.questionId, e.target.value) })}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  <option value="true">Yes</option>
+                  <option value="false">No</option>
+                </select>
+              ) : source?.options?.length ? (
+                <select
+                  value={String(rule.value)}
+                  onChange={(e) => updateRule(question.id, index, { value: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  <option value="">Select option</option>
+                  {source.options.map(option => <option key={option.id} value={option.value}>{option.label}</option>)}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={String(rule.value)}
+                  onChange={(e) => updateRule(question.id, index, { value: parseRuleValue(rule.questionId, e.target.value) })}
+                  className="px-2 py-1 border border-gray-300 rounded w-32"
+                />
+              )}
+              <button type="button" onClick={() => removeRule(question, index)} className="text-gray-400 hover:text-red-600">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          );
+        })}
+        {questions.some(candidate => candidate.order < question.order) && (
+          <button type="button" onClick={() => addRule(question)} className="text-sm text-primary-600 hover:underline">
+            Add rule
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 grid grid-cols-2 gap-4">
+        <input
+          type="text"
+          value={details.name}
+          placeholder="Template name"
+          onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={details.category}
+          placeholder="Category"
+          onChange={(e) => setDetails(prev => ({ ...prev, category: e.target.value }))}
+          className={inputClass}
+        />
+        <textarea
+          value={details.description}
+          rows={2}
+          placeholder="Description"
+          onChange={(e) => setDetails(prev => ({ ...prev, description: e.target.value }))}
+          className={`${inputClass} col-span-2`}
+        />
+        <select
+          value={details.difficulty}
+          onChange={(e) => setDetails(prev => ({ ...prev, difficulty: e.target.value as QuestionnaireTemplateInput['difficulty'] }))}
+          className={inputClass}
+        >
+          <option value="easy">Easy</option>
+          <option value="medium">Medium</option>
+          <option value="hard">Hard</option>
+        </select>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min={1}
+            value={details.estimatedDuration}
+            onChange={(e) => setDetails(prev => ({ ...prev, estimatedDuration: Number(e.target.value) || 1 }))}
+            className={inputClass}
+          />
+          <span className="text-sm text-gray-600">minutes</span>
+        </div>
+      </div>
+
+      {drafts.map(draft => {
+        const { question } = draft;
+        const questionIssues = issues.filter(issue => issue.questionId === question.id);
+        return (
+          <div key={question.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-sm font-medium text-gray-500">{question.order}.</span>
+              <input
+                type="text"
+                value={question.title}
+                placeholder="Question"
+                onChange={(e) => updateQuestion(question.id, { title: e.target.value })}
+                className={inputClass}
+              />
+              <select
+                value={question.type}
+                onChange={(e) => updateQuestion(question.id, { type: e.target.value as QuestionType })}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {ANSWERABLE_QUESTION_TYPES.map(type => <option key={type} value={type}>{typeLabel(type)}</option>)}
+              </select>
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={question.required}
+                  onChange={(e) => updateQuestion(question.id, { required: e.target.checked })}
+                />
+                <span>Required</span>
+              </label>
+              <button type="button" onClick={() => removeQuestion(question.id)} className="text-gray-400 hover:text-red-600">
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            {renderTypeFields(draft)}
+            {renderRules(question)}
+
+            {questionIssues.length > 0 && (
+              <ul className="space-y-1">
+                {questionIssues.map((issue, index) => (
+                  <li key={`${issue.code}-${index}`} className="flex items-start text-xs">
+                    <AlertCircle size={12} className={`mr-1 mt-0.5 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`} />
+                    <span className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <button type="button" onClick={addQuestion} className="btn-secondary flex items-center space-x-2">
+        <Plus size={16} />
+        <span>Add question</span>
+      </button>
+
+      {saveError && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle size={14} className="mr-2" />
+          {saveError}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">
+          {hasErrors
+            ? `${issues.filter(issue => issue.severity === 'error').length + invalidConfigs.size} design errors to fix before saving`
+            : questions.length > 0 && <span className="flex items-center text-green-600"><CheckCircle size={16} className="mr-1" />Design check passed</span>}
+        </span>
+        <div className="flex space-x-2">
+          <button type="button" onClick={onCancel} className="btn-secondary">Cancel</button>
+          <button type="submit" className="btn-primary" disabled={!canSave || saving}>
+            {saving ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default QuestionnaireTemplateEditor;
@@ -0,0 +1,335 @@
+/**
+ * Shelf Share Input Component - Workforce Management Platform
+ *
+ * Captures a shelf for a shelf-share questionnaire question.
+ * Features include:
+ * - Facings grid per SKU and shelf, including competitor SKUs
+ * - Shelf photo markup: drag a box around each facing or empty slot
+ * - Live share-of-shelf per brand against the share target
+ * - Planogram compliance score, gaps and misplaced SKUs
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Camera, CheckCircle, Grid, Plus, Trash2 } from 'lucide-react';
+import { DisplayEvaluationConfig, ShelfMeasurement, ShelfPhotoBox } from '../../types';
+import { calculateShelfShare, createEmptyMeasurement, facingsFromPhotoBoxes, setFacingCount } from '../../services/shelfShare';
+
+/**
+ * Shelf share input props
+ */
+interface ShelfShareInputProps {
+  config?: DisplayEvaluationConfig;                       // Planogram and targets from the question
+  value?: ShelfMeasurement;                               // Current answer
+  onChange: (value: ShelfMeasurement | undefined) => void; // Called with the updated answer
+}
+
+const EMPTY_SLOT = '__empty__';
+const DEFAULT_SHELVES = 5;
+
+/**
+ * Shelf Share Input Component
+ *
+ * @returns JSX element with the capture inputs and live results
+ */
+const ShelfShareInput: React.FC<ShelfShareInputProps> = ({ config, value, onChange }) => {
+  const planogram = config?.planogram;
+  const measurement = value || createEmptyMeasurement(planogram);
+  const shelves = Array.from({ length: planogram?.shelfCount || DEFAULT_SHELVES }, (_, index) => index + 1);
+
+  const [otherSku, setOtherSku] = useState({ sku: '', brand: '' });
+  const [extraSkus, setExtraSkus] = useState<{ sku: string; brand: string }[]>([]);
+  const [boxSku, setBoxSku] = useState<string>(planogram?.products[0]?.sku || EMPTY_SLOT);
+  const [boxShelf, setBoxShelf] = useState(1);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const photoRef = useRef<HTMLDivElement>(null);
+
+  const result = useMemo(
+    () => (value ? calculateShelfShare(value, config) : null),
+    [value, config]
+  );
+
+  // Planogram SKUs first, then any SKU already counted or added by hand
+  const rows = useMemo(() => {
+    const listed = (planogram?.products || []).map(product => ({ sku: product.sku, label: product.name, brand: product.brand }));
+    const seen = new Set(listed.map(row => row.sku));
+    const others = [...measurement.facings, ...extraSkus]
+      .filter(entry => !seen.has(entry.sku) && seen.add(entry.sku))
+      .map(entry => ({ sku: entry.sku, label: entry.sku, brand: entry.brand || '' }));
+    return [...listed, ...others];
+  }, [planogram, measurement.facings, extraSkus]);
+
+  const update = (next: ShelfMeasurement) => {
+    const empty = next.facings.length === 0 && !next.photo?.boxes.length && !next.photo?.url;
+    onChange(empty ? undefined : next);
+  };
+
+  const getCount = (sku: string, shelf: number) =>
+    measurement.facings.find(entry => entry.sku === sku && entry.shelf === shelf)?.facings ?? '';
+
+  const handleCountChange = (row: { sku: string; brand: string }, shelf: number, raw: string) => {
+    const facings = raw === '' ? 0 : Number(raw);
+    update({
+      ...measurement,
+      method: 'facings',
+      facings: setFacingCount(measurement.facings, { sku: row.sku, brand: row.brand || undefined, shelf, facings }),
+    });
+  };
+
+  const addOtherSku = () => {
+    if (!otherSku.sku.trim() || !otherSku.brand.trim()) return;
+    setExtraSkus(prev => [...prev, { sku: otherSku.sku.trim(), brand: otherSku.brand.trim() }]);
+    setOtherSku({ sku: '', brand: '' });
+  };
+
+  const setBoxes = (boxes: ShelfPhotoBox[]) => {
+    update({
+      ...measurement,
+      method: 'photo',
+      photo: { url: measurement.photo?.url || '', boxes },
+      facings: facingsFromPhotoBoxes(boxes),
+    });
+  };
+
+  const relativePoint = (e: React.MouseEvent) => {
+    const rect = photoRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    const end = relativePoint(e);
+    setDragStart(null);
+
+    const width = Math.abs(end.x - dragStart.x);
+    const height = Math.abs(end.y - dragStart.y);
+    // Ignore clicks; a facing needs a visible box
+    if (width < 0.01 || height < 0.01) return;
+
+    const extra = extraSkus.find(entry => entry.sku === boxSku);
+    setBoxes([
+      ...(measurement.photo?.boxes || []),
+      {
+        id: `box-${Date.now()}`,
+        sku: boxSku === EMPTY_SLOT ? null : boxSku,
+        brand: extra?.brand,
+        shelf: boxShelf,
+        x: Math.min(dragStart.x, end.x),
+        y: Math.min(dragStart.y, end.y),
+        width,
+        height,
+      },
+    ]);
+  };
+
+  const skuLabel = (sku: string | null) =>
+    sku ? planogram?.products.find(product => product.sku === sku)?.name || sku : 'Empty slot';
+
+  return (
+    <div className="space-y-4">
+      {/* Capture method */}
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={() => update({ ...measurement, method: 'facings' })}
+          className={`${measurement.method === 'facings' ? 'btn-primary' : 'btn-secondary'} flex items-center space-x-2`}
+        >
+          <Grid size={16} />
+          <span>Count Facings</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => update({ ...measurement, method: 'photo', facings: facingsFromPhotoBoxes(measurement.photo?.boxes || []) })}
+          className={`${measurement.method === 'photo' ? 'btn-primary' : 'btn-secondary'} flex items-center space-x-2`}
+        >
+          <Camera size={16} />
+          <span>Mark Up Photo</span>
+        </button>
+      </div>
+
+      {measurement.method === 'facings' ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left font-medium text-gray-700 pb-2">SKU</th>
+                {shelves.map(shelf => (
+                  <th key={shelf} className="px-2 pb-2 font-medium text-gray-700">Shelf {shelf}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.sku} className="border-t border-gray-100">
+                  <td className="py-2 pr-3">
+                    <div className="text-gray-900">{row.label}</div>
+                    <div className="text-xs text-gray-500">{row.brand}</div>
+                  </td>
+                  {shelves.map(shelf => {
+                    const planned = planogram?.positions.find(position => position.sku === row.sku && position.shelf === shelf);
+                    return (
+                      <td key={shelf} className="px-2 py-2 text-center">
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={getCount(row.sku, shelf)}
+                          placeholder={planned ? String(planned.facings) : '0'}
+                          onChange={(e) => handleCountChange(row, shelf, e.target.value)}
+                          className={`w-16 px-2 py-1 border rounded ${planned ? 'border-primary-300 bg-primary-50' : 'border-gray-300'}`}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) update({ ...measurement, method: 'photo', photo: { url: URL.createObjectURL(file), boxes: [] }, facings: [] });
+            }}
+            className="text-sm"
+          />
+
+          {measurement.photo?.url && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-700">Next box:</span>
+                <select value={boxSku} onChange={(e) => setBoxSku(e.target.value)} className="px-2 py-1 border border-gray-300 rounded">
+                  {rows.map(row => (
+                    <option key={row.sku} value={row.sku}>{row.label}</option>
+                  ))}
+                  <option value={EMPTY_SLOT}>Empty slot</option>
+                </select>
+                <select value={boxShelf} onChange={(e) => setBoxShelf(Number(e.target.value))} className="px-2 py-1 border border-gray-300 rounded">
+                  {shelves.map(shelf => (
+                    <option key={shelf} value={shelf}>Shelf {shelf}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500">Drag on the photo to mark each facing</span>
+              </div>
+
+              <div
+                ref={photoRef}
+                className="relative select-none cursor-crosshair border border-gray-200 rounded-lg overflow-hidden"
+                onMouseDown={(e) => setDragStart(relativePoint(e))}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={() => setDragStart(null)}
+              >
+                <img src={measurement.photo.url} alt="Shelf" className="w-full block" draggable={false} />
+                {measurement.photo.boxes.map(box => (
+                  <div
+                    key={box.id}
+                    title={`${skuLabel(box.sku)} - shelf ${box.shelf}`}
+                    className={`absolute border-2 ${box.sku ? 'border-green-500 bg-green-500/10' : 'border-red-500 bg-red-500/20'}`}
+                    style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                  />
+                ))}
+              </div>
+
+              {measurement.photo.boxes.length > 0 && (
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>{measurement.photo.boxes.length} box(es) marked</span>
+                  <button
+                    type="button"
+                    onClick={() => setBoxes(measurement.photo!.boxes.slice(0, -1))}
+                    className="flex items-center space-x-1 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 size={14} />
+                    <span>Undo last box</span>
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Competitor / unlisted SKUs */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={otherSku.sku}
+          placeholder="Other SKU"
+          onChange={(e) => setOtherSku(prev => ({ ...prev, sku: e.target.value }))}
+          className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+        <input
+          type="text"
+          value={otherSku.brand}
+          placeholder="Brand"
+          onChange={(e) => setOtherSku(prev => ({ ...prev, brand: e.target.value }))}
+          className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+        <button type="button" onClick={addOtherSku} className="btn-secondary flex items-center space-x-1 text-sm">
+          <Plus size={14} />
+          <span>Add SKU</span>
+        </button>
+      </div>
+
+      {/* Live results */}
+      {result && result.totalFacings > 0 && (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900">
+              Own share {result.ownShare}%{result.shareTarget !== undefined && ` (target ${result.shareTarget}%)`}
+            </span>
+            <span className={`flex items-center space-x-1 text-sm font-medium ${result.isCompliant ? 'text-green-700' : 'text-red-700'}`}>
+              {result.isCompliant ? <CheckCircle size={16} /> : <AlertTriangle size={16} />}
+              <span>{planogram ? `Compliance ${result.complianceScore}%` : result.isCompliant ? 'On target' : 'Below target'}</span>
+            </span>
+          </div>
+
+          <div className="space-y-1">
+            {result.shareByBrand.map(entry => (
+              <div key={entry.brand} className="flex items-center space-x-2 text-xs">
+                <span className="w-24 truncate text-gray-700">{entry.brand}</span>
+                <div className="flex-1 h-2 bg-gray-200 rounded">
+                  <div className="h-2 bg-primary-500 rounded" style={{ width: `${entry.share}%` }} />
+                </div>
+                <span className="w-24 text-right text-gray-600">{entry.share}% ({entry.facings})</span>
+              </div>
+            ))}
+          </div>
+
+          {result.gaps.length > 0 && (
+            <ul className="text-xs text-red-700 space-y-1">
+              {result.gaps.map(gap => (
+                <li key={`${gap.sku}-${gap.shelf}-${gap.type}`}>
+                  {gap.type === 'empty_slot'
+                    ? `Shelf ${gap.shelf}: ${gap.expectedFacings} empty slot(s)`
+                    : `${skuLabel(gap.sku)} on shelf ${gap.shelf}: ${gap.actualFacings} of ${gap.expectedFacings} facings${gap.type === 'out_of_stock' ? ' (out of stock)' : ''}`}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {result.misplaced.length > 0 && (
+            <ul className="text-xs text-yellow-700 space-y-1">
+              {result.misplaced.map(entry => (
+                <li key={`${entry.sku}-${entry.actualShelf}`}>
+                  {skuLabel(entry.sku)} found on shelf {entry.actualShelf}, planned for shelf {entry.expectedShelf}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShelfShareInput;
@@ -0,0 +1,150 @@
+/**
+ * Questionnaire Form Tests
+ *
+ * Tests for filling in and submitting a questionnaire including:
+ * - Shelf-share facings stored with their computed result
+ * - Inventory counts posted to the stock ledger once the submission is saved
+ */
+
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import QuestionnaireForm from '../QuestionnaireForm';
+import { loadInventoryState } from '../../../services/inventoryLedger';
+import { PlanogramTarget, QuestionType, TodoQuestion } from '../../../types';
+
+jest.mock('../../../contexts/AuthContext', () => ({
+  useAuth: () => ({ user: { id: 'user-1', name: 'Mia Merch' } }),
+}));
+
+const planogram: PlanogramTarget = {
+  id: 'pg-cola',
+  name: 'Cola bay',
+  shelfCount: 2,
+  products: [
+    { sku: 'COLA-1L', name: 'Cola 1L', brand: 'FizzCo', widthCm: 10 },
+    { sku: 'COLA-330', name: 'Cola 330ml', brand: 'FizzCo', widthCm: 6 },
+  ],
+  positions: [
+    { sku: 'COLA-1L', shelf: 2, facings: 4 },
+    { sku: 'COLA-330', shelf: 1, facings: 6 },
+  ],
+};
+
+const shelfQuestion: TodoQuestion = {
+  id: 'shelf',
+  type: QuestionType.SHELF_SHARE,
+  title: 'Measure the cola bay',
+  required: true,
+  order: 1,
+  merchandisingConfig: {
+    displayEvaluation: {
+      displayTypes: [],
+      evaluationCriteria: [],
+      visualElements: [],
+      lightingAssessment: false,
+      trafficFlowAnalysis: false,
+      competitorComparison: true,
+      planogram,
+      ownBrands: ['FizzCo'],
+    },
+  },
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+const countQuestion: TodoQuestion = {
+  id: 'count',
+  type: QuestionType.INVENTORY_COUNT,
+  title: 'Count the stock on hand',
+  required: true,
+  order: 1,
+  merchandisingConfig: {
+    inventoryCount: {
+      countMethods: ['manual'],
+      accuracyThresholds: [90],
+      requirePhotos: false,
+      requireLocationVerification: false,
+      requireDiscrepancyReporting: false,
+      products: [{ sku: 'COLA-1L', name: 'Cola 1L' }],
+    },
+  },
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+const ledger = () => loadInventoryState({ items: [], movements: [] }).movements;
+
+const countAndSubmit = (units: string) => {
+  fireEvent.change(screen.getByLabelText('Units of Cola 1L'), { target: { value: units } });
+  fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+};
+
+describe('QuestionnaireForm', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('submits shelf-share facings with the computed share and compliance', async () => {
+    const onSubmit = jest.fn();
+    render(<QuestionnaireForm todoId="todo-1" userId="user-1" questions={[shelfQuestion]} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByPlaceholderText('4'), { target: { value: '4' } });
+    fireEvent.change(screen.getByPlaceholderText('6'), { target: { value: '3' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    const [response] = onSubmit.mock.calls[0][0];
+    expect(response).toMatchObject({ todoId: 'todo-1', userId: 'user-1', questionId: 'shelf' });
+    expect(response.answer.facings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ sku: 'COLA-1L', shelf: 2, facings: 4 }),
+      expect.objectContaining({ sku: 'COLA-330', shelf: 1, facings: 3 }),
+    ]));
+    expect(response.shelfShare).toMatchObject({ ownShare: 100 });
+    expect(response.shelfShare.complianceScore).toBeLessThan(100);
+  });
+
+  describe('inventory counts', () => {
+    it('posts counts to the workplace ledger after the submission is saved', async () => {
+      const onSubmit = jest.fn().mockResolvedValue(undefined);
+      const onSubmitted = jest.fn();
+      render(
+        <QuestionnaireForm
+          todoId="visit-1"
+          userId="user-1"
+          workplaceCode="20311"
+          questions={[countQuestion]}
+          onSubmit={onSubmit}
+          onSubmitted={onSubmitted}
+        />
+      );
+
+      countAndSubmit('12');
+
+      await waitFor(() => expect(onSubmitted).toHaveBeenCalledTimes(1));
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+      expect(ledger()).toEqual([
+        expect.objectContaining({ workplaceCode: '20311', sku: 'COLA-1L', type: 'count', quantity: 12, recordedBy: 'Mia Merch' }),
+      ]);
+    });
+
+    it('leaves the ledger alone when the submission fails', async () => {
+      const onSubmit = jest.fn().mockRejectedValue(new Error('Server unavailable'));
+      render(<QuestionnaireForm todoId="visit-1" userId="user-1" workplaceCode="20311" questions={[countQuestion]} onSubmit={onSubmit} />);
+
+      countAndSubmit('12');
+
+      expect(await screen.findByText('Server unavailable')).toBeInTheDocument();
+      expect(ledger()).toEqual([]);
+    });
+
+    it('does not submit counts without a workplace', async () => {
+      const onSubmit = jest.fn();
+      render(<QuestionnaireForm todoId="visit-1" userId="user-1" questions={[countQuestion]} onSubmit={onSubmit} />);
+
+      countAndSubmit('12');
+
+      expect(await screen.findByText(/Inventory counts need a workplace/)).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { QuestionType } from '../../types';
+import QuestionnaireTemplateEditor from '../Tasks/QuestionnaireTemplateEditor';
+import {
+  assignQuestionnaire,
+  createQuestionnaireTemplate,
+  getQuestionnaireTemplates,
+  getUsers,
+  QuestionnaireTemplate,
+  QuestionnaireTemplateInput,
+  User
+} from './api';
+
+interface QuestionnaireTemplatesTabProps {
+  userRole: string;
+}
+
+export default function QuestionnaireTemplatesTab({ userRole }: QuestionnaireTemplatesTabProps) {
+  const [templates, setTemplates] = useState<QuestionnaireTemplate[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+
+  // Assignment form for one template at a time
+  const [assigning, setAssigning] = useState<QuestionnaireTemplate | null>(null);
+  const [assignees, setAssignees] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState('');
+  const [workplaceCode, setWorkplaceCode] = useState('');
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTemplates(await getQuestionnaireTemplates());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (userRole !== 'admin') return;
+    fetchTemplates();
+    getUsers().then(setUsers).catch(() => setUsers([]));
+  }, [userRole, fetchTemplates]);
+
+  if (userRole !== 'admin') {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center text-gray-400 py-12">
+        [Questionnaire templates are only available to administrators]
+      </div>
+    );
+  }
+
+  const handleSave = async (input: QuestionnaireTemplateInput) => {
+    const template = await createQuestionnaireTemplate(input);
+    setTemplates(prev => [...prev, template]);
+    setEditing(false);
+    toast.success(`${template.name} saved`);
+  };
+
+  const openAssign = (template: QuestionnaireTemplate) => {
+    setAssigning(template);
+    setAssignees([]);
+    setDueDate('');
+    setWorkplaceCode('');
+  };
+
+  // Inventory counts are posted to a workplace's stock ledger, so those questionnaires need one
+  const needsWorkplace = !!assigning?.questions.some(question => question.type === QuestionType.INVENTORY_COUNT);
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assigning || assignees.length === 0 || (needsWorkplace && !workplaceCode.trim())) return;
+    try {
+      await assignQuestionnaire(assigning, {
+        assignedTo: assignees,
+        dueDate: dueDate || undefined,
+        assignedWorkplaces: workplaceCode.trim() ? [workplaceCode.trim()] : undefined
+      });
+      toast.success(`${assigning.name} assigned to ${assignees.length} ${assignees.length === 1 ? 'person' : 'people'}`);
+      setAssigning(null);
+      fetchTemplates();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to assign questionnaire');
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        <h2 className="text-xl font-semibold mb-4">New questionnaire template</h2>
+        <QuestionnaireTemplateEditor onSave={handleSave} onCancel={() => setEditing(false)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Questionnaire templates</h2>
+        <button className="bg-blue-600 text-white px-4 py-2 rounded font-semibold" onClick={() => setEditing(true)}>
+          New template
+        </button>
+      </div>
+      {error && <div className="text-red-600 mb-2">{error}</div>}
+      {loading && <div className="text-gray-500 mb-2">Loading...</div>}
+      {!loading && !error && templates.length === 0 && (
+        <div className="text-center text-gray-400 py-12">No templates yet</div>
+      )}
+      <ul className="divide-y">
+        {templates.map(template => (
+          <li key={template.id} className="py-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-gray-900">{template.name}</div>
+                <div className="text-xs text-gray-500">
+                  {template.category} · {template.questions.length} questions · used {template.usageCount} times
+                </div>
+              </div>
+              <button className="text-sm text-blue-600 hover:underline" onClick={() => openAssign(template)}>
+                Assign
+              </button>
+            </div>
+            {assigning?.id === template.id && (
+              <form onSubmit={handleAssign} className="mt-3 grid grid-cols-2 gap-4">
+                <select
+                  multiple
+                  value={assignees}
+                  onChange={e => setAssignees(Array.from(e.target.selectedOptions).map(option => option.value))}
+                  className="border rounded px-3 py-2 h-32"
+                >
+                  {users.map(user => (
+                    <option key={user.id} value={user.id}>{user.name} ({user.role})</option>
+                  ))}
+                </select>
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Due date</label>
+                    <input
+                      type="date"
+                      value={dueDate}
+                      onChange={e => setDueDate(e.target.value)}
+                      className="border rounded px-3 py-2 w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Workplace code</label>
+                    <input
+                      type="text"
+                      value={workplaceCode}
+                      onChange={e => setWorkplaceCode(e.target.value)}
+                      className="border rounded px-3 py-2 w-full"
+                      placeholder={needsWorkplace ? 'Required for inventory counts' : 'Optional'}
+                      required={needsWorkplace}
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded font-semibold" disabled={assignees.length === 0}>
+                      Assign
+                    </button>
+                    <button type="button" className="px-4 py-2 rounded border" onClick={() => setAssigning(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              </form>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
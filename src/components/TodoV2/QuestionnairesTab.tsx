@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ClipboardList } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdvancedTodo, TodoResponse } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import QuestionnaireForm from '../Tasks/QuestionnaireForm';
+import { getAssignedQuestionnaires, submitQuestionnaire } from './api';
+
+export default function QuestionnairesTab() {
+  const { user } = useAuth();
+  const [questionnaires, setQuestionnaires] = useState<AdvancedTodo[]>([]);
+  const [active, setActive] = useState<AdvancedTodo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the questionnaires assigned to the signed-in user
+  const fetchQuestionnaires = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setQuestionnaires(await getAssignedQuestionnaires());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load questionnaires');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQuestionnaires();
+  }, [fetchQuestionnaires]);
+
+  // Errors are shown by the form, which stays open so nothing is lost
+  const handleSubmit = async (responses: TodoResponse[]) => {
+    if (!active) return;
+    await submitQuestionnaire(active.id, responses);
+    toast.success(`${active.title} submitted`);
+    setQuestionnaires(prev => prev.filter(todo => todo.id !== active.id));
+  };
+
+  if (active && user) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">{active.title}</h2>
+            {active.description && <p className="text-sm text-gray-600 mt-1">{active.description}</p>}
+          </div>
+          <button className="text-sm text-blue-600 hover:underline" onClick={() => setActive(null)}>
+            Back to list
+          </button>
+        </div>
+        <QuestionnaireForm
+          todoId={active.id}
+          userId={user.id}
+          workplaceCode={active.assignedWorkplaces?.[0]}
+          questions={active.questions}
+          onSubmit={handleSubmit}
+          onSubmitted={() => setActive(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">My questionnaires</h2>
+      {error && <div className="text-red-600 mb-2">{error}</div>}
+      {loading && <div className="text-gray-500 mb-2">Loading...</div>}
+      {!loading && !error && questionnaires.length === 0 && (
+        <div className="text-center text-gray-400 py-12">No questionnaires to fill in</div>
+      )}
+      <ul className="divide-y">
+        {questionnaires.map(todo => (
+          <li key={todo.id} className="flex items-center justify-between py-3">
+            <div className="flex items-start space-x-3">
+              <ClipboardList size={18} className="text-gray-400 mt-0.5" />
+              <div>
+                <div className="font-medium text-gray-900">{todo.title}</div>
+                <div className="text-xs text-gray-500">
+                  {todo.category} · {todo.questions.length} questions
+                  {todo.dueDate && ` · due ${new Date(todo.dueDate).toLocaleDateString()}`}
+                </div>
+              </div>
+            </div>
+            <button
+              className="bg-blue-600 text-white px-3 py-1 rounded text-sm font-semibold"
+              onClick={() => setActive(todo)}
+            >
+              Fill in
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import TodoStatusTab from './TodoStatusTab';
 import TodoManagementTab from './TodoManagementTab';
 import TodoSettingsTab from './TodoSettingsTab';
+import QuestionnairesTab from './QuestionnairesTab';
+import QuestionnaireTemplatesTab from './QuestionnaireTemplatesTab';
 
 interface TodoDashboardProps {
   userRole?: string;
@@ -10,6 +12,8 @@ interface TodoDashboardProps {
 const TABS = [
   { key: 'status', label: 'To-do status' },
   { key: 'management', label: 'To-do management' },
+  { key: 'questionnaires', label: 'Questionnaires' },
+  { key: 'templates', label: 'Templates' },
   { key: 'settings', label: 'Settings' },
 ];
 
@@ -36,6 +40,8 @@ export default function TodoDashboard({ userRole = 'admin' }: TodoDashboardProps
       <div>
         {activeTab === 'status' && <TodoStatusTab userRole={userRole} />}
         {activeTab === 'management' && <TodoManagementTab userRole={userRole} />}
+        {activeTab === 'questionnaires' && <QuestionnairesTab />}
+        {activeTab === 'templates' && <QuestionnaireTemplatesTab userRole={userRole} />}
         {activeTab === 'settings' && <TodoSettingsTab userRole={userRole} />}
       </div>
     </div>
@@ -1,6 +1,10 @@
 // src/components/TodoV2/api.ts
 // API utility for TodoV2 feature
 
+import { apiClient, apiPost, apiRequest } from '../../core/api/client';
+import { ApiSchemas } from '../../core/api/schema';
+import { AdvancedTodo, TodoResponse, TodoSubmission, TodoTemplate } from '../../types';
+
 export interface Todo {
   id: string;
   title: string;
@@ -20,6 +24,16 @@ export interface Todo {
   creator?: string;
 }
 
+/**
+ * A questionnaire template as the todo routes in backend/server.js store it
+ */
+export type QuestionnaireTemplate = Pick<
+  TodoTemplate,
+  'id' | 'name' | 'description' | 'category' | 'questions' | 'estimatedDuration' | 'difficulty' | 'tags' | 'isPublic' | 'createdBy' | 'usageCount' | 'createdAt' | 'updatedAt'
+>;
+
+export type QuestionnaireTemplateInput = Omit<QuestionnaireTemplate, 'id' | 'createdBy' | 'usageCount' | 'createdAt' | 'updatedAt'>;
+
 export interface User {
   id: string;
   name: string;
@@ -29,74 +43,48 @@ export interface User {
   status?: string;
 }
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:8080';
+/**
+ * Widen a todo from the spec to the TodoV2 view, keeping any extra columns
+ * the todo service returns beyond backend/swagger.json
+ */
+const toTodo = (todo: ApiSchemas['Todo'] | undefined): Todo => ({
+  ...todo,
+  id: todo?.id || '',
+  title: todo?.title || '',
+});
 
-function getAuthHeaders() {
-  const token = localStorage.getItem('authToken');
-  return {
-    'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-}
-
-function handleError(response: Response) {
-  if (!response.ok) {
-    return response.json().then(err => {
-      // Handle rate limiting specifically
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-      }
-      throw new Error(err.error || `API error (${response.status})`);
-    });
-  }
-  return response;
-}
+/**
+ * The spec has no 'urgent' priority, so it is stored as 'high'
+ */
+const toSpecPriority = (priority: Todo['priority']) => (priority === 'urgent' ? 'high' : priority);
 
 export async function getTodos(): Promise<Todo[]> {
-  const res = await fetch(`${API_BASE_URL}/api/todos`, {
-    headers: getAuthHeaders(),
-  });
-  await handleError(res);
-  const data = await res.json();
-  return data.todos || [];
+  const data = await apiClient.request('GET /api/todos');
+  return (data.todos || []).map(toTodo);
 }
 
 export async function createTodo(todo: Omit<Todo, 'id'>): Promise<Todo> {
-  const res = await fetch(`${API_BASE_URL}/api/todos`, {
-    method: 'POST',
-    headers: getAuthHeaders(),
-    body: JSON.stringify(todo),
+  const data = await apiClient.request('POST /api/todos', {
+    body: { ...todo, priority: toSpecPriority(todo.priority) },
   });
-  await handleError(res);
-  const data = await res.json();
-  return data.todo;
+  return toTodo(data.todo);
 }
 
 export async function updateTodo(id: string, updates: Partial<Todo>): Promise<Todo> {
-  const res = await fetch(`${API_BASE_URL}/api/todos/${id}`, {
-    method: 'PUT',
-    headers: getAuthHeaders(),
-    body: JSON.stringify(updates),
+  const data = await apiClient.request('PUT /api/todos/{id}', {
+    params: { id },
+    body: { ...updates, priority: toSpecPriority(updates.priority) },
   });
-  await handleError(res);
-  const data = await res.json();
-  return data.todo;
+  return toTodo(data.todo);
 }
 
 export async function deleteTodo(id: string): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/api/todos/${id}`, {
-    method: 'DELETE',
-    headers: getAuthHeaders(),
-  });
-  await handleError(res);
+  await apiClient.request('DELETE /api/todos/{id}', { params: { id } });
 }
 
 export async function getUsers(): Promise<User[]> {
-  const res = await fetch(`${API_BASE_URL}/api/users`, {
-    headers: getAuthHeaders(),
-  });
-  await handleError(res);
-  const data = await res.json();
+  // /api/users is served by the user service and is not in backend/swagger.json yet
+  const data = await apiRequest<{ users?: any[] }>('/api/users');
   return (data.users || []).map((u: any) => ({
     id: u.id,
     name: [u.firstName, u.lastName].filter(Boolean).join(' ') || u.email,
@@ -104,4 +92,47 @@ export async function getUsers(): Promise<User[]> {
     role: u.role,
     status: u.isActive ? 'active' : 'inactive',
   }));
-} 
\ No newline at end of file
+}
+
+// The questionnaire routes (/api/advanced-todos, /api/todo-templates) are not in backend/swagger.json yet
+
+export async function getAssignedQuestionnaires(): Promise<AdvancedTodo[]> {
+  const data = await apiRequest<{ advancedTodos?: AdvancedTodo[] }>('/api/advanced-todos');
+  return data.advancedTodos || [];
+}
+
+export async function submitQuestionnaire(todoId: string, responses: TodoResponse[]): Promise<TodoSubmission> {
+  const data = await apiPost<{ submission: TodoSubmission }>(
+    `/api/advanced-todos/${encodeURIComponent(todoId)}/submit`,
+    { responses, status: 'submitted' }
+  );
+  return data.submission;
+}
+
+export async function assignQuestionnaire(
+  template: QuestionnaireTemplate,
+  assignment: { assignedTo: string[]; dueDate?: string; assignedWorkplaces?: string[] }
+): Promise<AdvancedTodo> {
+  const data = await apiPost<{ advancedTodo: AdvancedTodo }>('/api/advanced-todos', {
+    title: template.name,
+    description: template.description,
+    questions: template.questions,
+    category: template.category,
+    difficulty: template.difficulty,
+    estimatedDuration: template.estimatedDuration,
+    tags: template.tags,
+    templateId: template.id,
+    ...assignment,
+  });
+  return data.advancedTodo;
+}
+
+export async function getQuestionnaireTemplates(): Promise<QuestionnaireTemplate[]> {
+  const data = await apiRequest<{ templates?: QuestionnaireTemplate[] }>('/api/todo-templates');
+  return data.templates || [];
+}
+
+export async function createQuestionnaireTemplate(template: QuestionnaireTemplateInput): Promise<QuestionnaireTemplate> {
+  const data = await apiPost<{ template: QuestionnaireTemplate }>('/api/todo-templates', template);
+  return data.template;
+}
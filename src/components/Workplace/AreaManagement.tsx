@@ -25,6 +25,8 @@ const AreaManagement: React.FC = () => {
       id: '1',
       name: 'Downtown Area',
       description: 'Central business district',
+      managerId: 'm-3',
+      managerName: 'Sarah Wilson',
       isActive: true,
       createdBy: 'admin',
       createdAt: '2025-01-15T00:00:00Z',
@@ -34,6 +36,8 @@ const AreaManagement: React.FC = () => {
       id: '2',
       name: 'Industrial Zone',
       description: 'Manufacturing and industrial facilities',
+      managerId: 'm-5',
+      managerName: 'David Brown',
       isActive: true,
       createdBy: 'admin',
       createdAt: '2025-01-15T00:00:00Z',
@@ -185,6 +189,9 @@ const AreaManagement: React.FC = () => {
                       {area.description && (
                         <p className="text-sm text-gray-600">{area.description}</p>
                       )}
+                      {area.managerName && (
+                        <p className="text-sm text-gray-600">Area manager: {area.managerName}</p>
+                      )}
                       <p className="text-xs text-gray-500">
                         Created {new Date(area.createdAt).toLocaleDateString()}
                       </p>
@@ -258,6 +265,18 @@ const AreaManagement: React.FC = () => {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Area Manager
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="Receives escalated incidents (optional)"
+                    defaultValue={editingArea?.managerName || ''}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+
                 <div className="flex items-center">
                   <input
                     type="checkbox"
@@ -1,168 +1,612 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Plus,
-  Pencil,
   Trash2,
-  DollarSign,
   Search,
-  Filter,
   Download,
   TrendingUp,
   TrendingDown,
   AlertTriangle,
   CheckCircle,
   XCircle,
-  Calendar,
-  BarChart3,
+  Clock,
   Eye,
-  RefreshCw,
-  CreditCard,
+  Car,
+  Camera,
   Receipt,
   PiggyBank,
-  Target
+  Wallet
 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  ApprovalDirectory,
+  ApprovalInstance,
+  ApprovalRequestType,
+  ApprovalWorkflow,
+  ApproverType,
+  Budget,
+  BudgetActual,
+  ExpenseCategory,
+  ExpenseClaim,
+  ExpenseClaimLine,
+  JourneyPlan,
+  Member,
+  MemberRole
+} from '../../types';
+import {
+  ApprovalEngineError,
+  canActOnRequest,
+  createExpenseApprovalRequest,
+  getActiveStep,
+  processApprovalTimers,
+  recordDecision,
+  startApproval
+} from '../../services/approvalEngine';
+import {
+  applyApprovalOutcome,
+  createMileageLine,
+  createPerDiemLine,
+  DEFAULT_EXPENSE_POLICY,
+  ExpenseError,
+  ExpenseState,
+  getBudgetActual,
+  getBurnRateAlerts,
+  getClaimTotal,
+  loadExpenseState,
+  rollupBudgets,
+  saveExpenseState,
+  submitClaim,
+  validateClaim
+} from '../../services/expenseClaims';
+import { formatCsv } from '../../services/spreadsheet';
+
+const AREAS = [
+  { id: '1', name: 'Downtown Area', managerId: 'm-3' },
+  { id: '2', name: 'Industrial Zone', managerId: 'm-5' }
+];
+
+const COST_CENTRES = [
+  { code: 'CC-4100', name: 'Field Operations' },
+  { code: 'CC-4200', name: 'Merchandising' },
+  { code: 'CC-5100', name: 'Trade Marketing' }
+];
+
+const EMPLOYEES = [
+  { id: 'emp001', name: 'John Doe', areaId: '1' },
+  { id: 'emp002', name: 'Jane Smith', areaId: '2' },
+  { id: 'emp003', name: 'Mike Johnson', areaId: '1' }
+];
+
+const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  mileage: 'Mileage',
+  'per-diem': 'Per-diem',
+  meals: 'Meals',
+  lodging: 'Lodging',
+  transport: 'Public transport / parking',
+  materials: 'POS materials',
+  other: 'Other'
+};
+
+const MANUAL_CATEGORIES: ExpenseCategory[] = ['meals', 'lodging', 'transport', 'materials', 'other'];
 
 /**
- * Budget Management Component
- * 
- * This component provides comprehensive budget management functionality including:
- * - Track operational costs and budgets
- * - Budget allocation and monitoring
- * - Expense tracking and categorization
- * - Financial reporting and analytics
- * - Cost optimization insights
- * - Budget vs actual analysis
+ * Expense workflow: the area manager approves every claim; claims above
+ * €250 also need finance. Unanswered steps escalate after 48 hours.
  */
-const BudgetManagement: React.FC = () => {
-  const [budgets, setBudgets] = useState([
+const EXPENSE_WORKFLOW: ApprovalWorkflow = {
+  id: 'expense-default',
+  name: 'Expense Claim Approval',
+  description: 'Area manager approval with finance sign-off above €250',
+  type: ApprovalRequestType.EXPENSE_CLAIM,
+  steps: [
     {
-      id: '1',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
-      budgetPeriod: 'Q1 2025',
-      category: 'Operations',
-      allocatedBudget: 50000,
-      spentAmount: 32450,
-      remainingBudget: 17550,
-      status: 'on-track',
-      expenses: [
-        {
-          id: 'exp1',
-          description: 'Employee training materials',
-          amount: 2500,
-          date: '2025-01-15',
-          category: 'Training',
-          approvedBy: 'Manager A'
-        },
-        {
-          id: 'exp2',
-          description: 'Store maintenance supplies',
-          amount: 1800,
-          date: '2025-01-14',
-          category: 'Maintenance',
-          approvedBy: 'Manager A'
-        }
-      ],
-      notes: 'Budget utilization at 64.9%, within target range',
-      createdAt: '2025-01-01T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
+      id: 'expense-step-1',
+      stepNumber: 1,
+      name: 'Area Manager',
+      description: 'Approval by the merchandiser\'s area manager',
+      approverType: ApproverType.MANAGER,
+      isRequired: true,
+      canDelegate: true,
+      timeLimit: 120,
+      actions: [
+        { id: 'approve', name: 'Approve', type: 'approve', label: 'Approve', icon: '✅', color: 'green', requiresComment: false, isPrimary: true },
+        { id: 'reject', name: 'Reject', type: 'reject', label: 'Reject', icon: '❌', color: 'red', requiresComment: true, isPrimary: false }
+      ]
     },
     {
-      id: '2',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
-      budgetPeriod: 'Q1 2025',
-      category: 'Marketing',
-      allocatedBudget: 75000,
-      spentAmount: 68900,
-      remainingBudget: 6100,
-      status: 'at-risk',
-      expenses: [
-        {
-          id: 'exp3',
-          description: 'Digital display advertising',
-          amount: 45000,
-          date: '2025-01-10',
-          category: 'Advertising',
-          approvedBy: 'Manager B'
-        },
-        {
-          id: 'exp4',
-          description: 'Event marketing materials',
-          amount: 23900,
-          date: '2025-01-12',
-          category: 'Events',
-          approvedBy: 'Manager B'
-        }
-      ],
-      notes: 'High spending on marketing activities, monitor closely',
-      createdAt: '2025-01-01T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    },
+      id: 'expense-step-2',
+      stepNumber: 2,
+      name: 'Finance',
+      description: 'Finance sign-off for claims above €250',
+      approverType: ApproverType.SPECIFIC,
+      approverIds: ['fin-1'],
+      isRequired: true,
+      canDelegate: false,
+      conditions: [{ id: 'large-claim', field: 'amount', operator: 'greater_than', value: 250 }],
+      actions: [
+        { id: 'approve', name: 'Approve', type: 'approve', label: 'Approve', icon: '✅', color: 'green', requiresComment: false, isPrimary: true },
+        { id: 'reject', name: 'Reject', type: 'reject', label: 'Reject', icon: '❌', color: 'red', requiresComment: true, isPrimary: false }
+      ]
+    }
+  ],
+  allowSelfApproval: false,
+  allowDelegation: true,
+  autoApprove: false,
+  escalationRules: [
     {
-      id: '3',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      budgetPeriod: 'Q1 2025',
-      category: 'Inventory',
-      allocatedBudget: 120000,
-      spentAmount: 45600,
-      remainingBudget: 74400,
-      status: 'under-budget',
-      expenses: [
-        {
-          id: 'exp5',
-          description: 'Kitchen appliance inventory',
-          amount: 45600,
-          date: '2025-01-08',
-          category: 'Inventory',
-          approvedBy: 'Manager C'
-        }
-      ],
-      notes: 'Under budget due to delayed supplier deliveries',
-      createdAt: '2025-01-01T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
+      id: 'expense-escalation',
+      name: 'Escalate after 48 hours',
+      triggerType: 'step_timeout',
+      triggerValue: 48,
+      escalationType: 'admin',
+      notificationSettings: { email: true, push: true, sms: false },
+      isActive: true
     }
-  ]);
+  ],
+  isActive: true,
+  createdBy: 'system',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+/**
+ * Build a mock member for the expense approval directory
+ */
+const mockMember = (id: string, name: string, extra: Partial<Member> = {}): Member => ({
+  id,
+  userId: id,
+  name,
+  email: `${name.toLowerCase().replace(/\s+/g, '.')}@company.com`,
+  role: MemberRole.EMPLOYEE,
+  hireDate: '2022-01-01',
+  groups: [],
+  isLeader: false,
+  isAdmin: false,
+  approvalAuthority: false,
+  status: 'active',
+  createdAt: '2022-01-01T00:00:00Z',
+  updatedAt: '2022-01-01T00:00:00Z',
+  ...extra
+});
+
+// Merchandisers report to their area manager; finance signs off large claims
+const MEMBERS: Member[] = [
+  ...EMPLOYEES.map(employee => mockMember(employee.id, employee.name, {
+    managerId: AREAS.find(area => area.id === employee.areaId)?.managerId
+  })),
+  mockMember('m-3', 'Sarah Wilson', { role: MemberRole.LEADER, isLeader: true, approvalAuthority: true }),
+  mockMember('m-5', 'David Brown', { role: MemberRole.LEADER, isLeader: true, approvalAuthority: true }),
+  mockMember('fin-1', 'Laura Becker', { role: MemberRole.LEADER, approvalAuthority: true })
+];
+
+const buildDirectory = (members: Member[]): ApprovalDirectory => ({ members, groups: [], groupMembers: [] });
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+const toDate = (date: Date) => date.toISOString().split('T')[0];
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+
+const journey = (
+  id: string,
+  employeeId: string,
+  title: string,
+  days: number,
+  totalDistance: number,
+  [actualStartTime, actualEndTime]: [string, string],
+  status: JourneyPlan['status'] = 'completed'
+): JourneyPlan => ({
+  id,
+  title,
+  employeeId,
+  date: toDate(daysAgo(days)),
+  startTime: actualStartTime,
+  endTime: actualEndTime,
+  actualStartTime: status === 'completed' ? actualStartTime : undefined,
+  actualEndTime: status === 'completed' ? actualEndTime : undefined,
+  locations: [],
+  status,
+  totalDistance,
+  estimatedDuration: 0,
+  createdBy: 'admin',
+  createdAt: daysAgo(days + 7).toISOString(),
+  updatedAt: daysAgo(days).toISOString()
+});
 
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [editingBudget, setEditingBudget] = useState<any>(null);
+const JOURNEYS: JourneyPlan[] = [
+  journey('j1', 'emp001', 'Downtown electronics route', 6, 142, ['07:30', '18:15']),
+  journey('j2', 'emp001', 'Zeil showcase reset', 2, 38, ['09:00', '15:00']),
+  journey('j3', 'emp002', 'Industrial Zone DIY stores', 4, 210, ['06:45', '19:00']),
+  { ...journey('j4', 'emp003', 'Esslingen kitchen studios', 1, 264, ['06:00', '20:30']), endDate: toDate(daysAgo(0)) },
+  journey('j5', 'emp003', 'Downtown restock', 0, 55, ['08:00', '14:00'], 'pending')
+];
+
+const budget = (
+  id: string,
+  name: string,
+  areaId: string,
+  costCentre: string,
+  category: string,
+  allocatedBudget: number,
+  expenses: Budget['expenses'],
+  notes?: string
+): Budget => ({
+  id,
+  name,
+  areaId,
+  areaName: AREAS.find(area => area.id === areaId)?.name || areaId,
+  costCentre,
+  category,
+  periodStart: toDate(daysAgo(30)),
+  periodEnd: toDate(daysAgo(-60)),
+  allocatedBudget,
+  expenses,
+  notes,
+  createdAt: daysAgo(30).toISOString(),
+  updatedAt: daysAgo(30).toISOString()
+});
+
+const BUDGETS: Budget[] = [
+  budget('1', 'Downtown Field Travel', '1', 'CC-4200', 'Travel', 2500, [
+    { id: 'exp1', description: 'Pool car lease', amount: 600, date: toDate(daysAgo(28)), category: 'Transport', approvedBy: 'Sarah Wilson' }
+  ]),
+  budget('2', 'Downtown Trade Marketing', '1', 'CC-5100', 'Marketing', 75000, [
+    { id: 'exp2', description: 'Digital display advertising', amount: 45000, date: toDate(daysAgo(25)), category: 'Advertising', approvedBy: 'Sarah Wilson' },
+    { id: 'exp3', description: 'Event marketing materials', amount: 23900, date: toDate(daysAgo(10)), category: 'Events', approvedBy: 'Sarah Wilson' }
+  ], 'High spending on launch events, monitor closely'),
+  budget('3', 'Industrial Zone Field Travel', '2', 'CC-4200', 'Travel', 1800, []),
+  budget('4', 'Industrial Zone Operations', '2', 'CC-4100', 'Operations', 50000, [
+    { id: 'exp4', description: 'Store maintenance supplies', amount: 1800, date: toDate(daysAgo(20)), category: 'Maintenance', approvedBy: 'David Brown' },
+    { id: 'exp5', description: 'Employee training materials', amount: 2500, date: toDate(daysAgo(12)), category: 'Training', approvedBy: 'David Brown' }
+  ])
+];
+
+const receiptLine = (id: string, category: ExpenseCategory, days: number, description: string, amount: number): ExpenseClaimLine => ({
+  id,
+  category,
+  date: toDate(daysAgo(days)),
+  description,
+  amount,
+  receipts: [{ id: `${id}-receipt`, url: `/receipts/${id}.jpg`, fileName: `${id}.jpg`, capturedAt: daysAgo(days).toISOString() }]
+});
+
+const draftClaim = (id: string, employeeId: string, costCentre: string, title: string, lines: ExpenseClaimLine[]): ExpenseClaim => {
+  const employee = EMPLOYEES.find(entry => entry.id === employeeId)!;
+  return {
+    id,
+    employeeId,
+    employeeName: employee.name,
+    areaId: employee.areaId,
+    costCentre,
+    title,
+    lines,
+    total: getClaimTotal(lines),
+    status: 'draft',
+    source: 'mobile',
+    createdAt: daysAgo(7).toISOString(),
+    updatedAt: daysAgo(7).toISOString()
+  };
+};
+
+/**
+ * Seed claims submitted through the expense workflow: one approved,
+ * one waiting for its area manager and one large claim that will
+ * need finance after the manager.
+ */
+const createInitialState = (): ExpenseState => {
+  const directory = buildDirectory(MEMBERS);
+  const policy = DEFAULT_EXPENSE_POLICY;
+  const claims: ExpenseClaim[] = [];
+  const approvals: Record<string, ApprovalInstance> = {};
+
+  const seed = (draft: ExpenseClaim, submittedDaysAgo: number, approvedBy?: string) => {
+    const claim = submitClaim(draft, policy, claims, daysAgo(submittedDaysAgo));
+    const requester = directory.members.find(member => member.id === claim.employeeId);
+    let instance = startApproval(createExpenseApprovalRequest(claim, EXPENSE_WORKFLOW, requester, daysAgo(submittedDaysAgo)), directory, daysAgo(submittedDaysAgo));
+    if (approvedBy) {
+      instance = recordDecision(instance, { action: 'approve', actorId: approvedBy }, directory, daysAgo(submittedDaysAgo - 1));
+    }
+    claims.push(applyApprovalOutcome(claim, instance));
+    approvals[claim.id] = instance;
+  };
+
+  const [j1, , j3, j4] = JOURNEYS;
+  seed(draftClaim('c1', 'emp001', 'CC-4200', 'Downtown route week', [
+    createMileageLine(j1, policy, 'c1-1'),
+    createPerDiemLine(j1, policy, 'c1-2')
+  ]), 5, 'm-3');
+  seed(draftClaim('c2', 'emp002', 'CC-4200', 'DIY store visits', [
+    createMileageLine(j3, policy, 'c2-1'),
+    createPerDiemLine(j3, policy, 'c2-2'),
+    receiptLine('c2-3', 'meals', 4, 'Lunch with store manager', 32.4)
+  ]), 3);
+  seed(draftClaim('c3', 'emp003', 'CC-4200', 'Esslingen overnight trip', [
+    createMileageLine(j4, policy, 'c3-1'),
+    createPerDiemLine(j4, policy, 'c3-2'),
+    receiptLine('c3-3', 'lodging', 1, 'Hotel Esslingen', 119),
+    receiptLine('c3-4', 'materials', 1, 'Shelf strips and price rails', 46.8)
+  ]), 1);
+
+  return { budgets: BUDGETS, claims, approvals, policy };
+};
+
+const INITIAL_EXPENSE_STATE = createInitialState();
+
+const EMPTY_CLAIM = { employeeId: 'emp001', costCentre: 'CC-4200', title: '', journeyId: '' };
+const EMPTY_LINE = { category: 'meals' as ExpenseCategory, date: toDate(new Date()), description: '', amount: '' };
+const EMPTY_BUDGET = { name: '', areaId: '1', costCentre: 'CC-4200', category: 'Travel', periodStart: toDate(new Date()), periodEnd: toDate(daysAgo(-90)), allocatedBudget: '' };
+
+/**
+ * Budget Management Component
+ *
+ * This component provides budget vs actual tracking with field expense claims:
+ * - Budgets per area and cost centre with direct expenses
+ * - Mileage and per-diem claims derived from completed journey plans
+ * - Receipt photos and duplicate checks before submission
+ * - Claims routed through the expense approval workflow
+ * - Rollups per area and cost centre with burn-rate alerts
+ * - CSV export of budget vs actual
+ */
+const BudgetManagement: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const [state, setState] = useState<ExpenseState>(() => loadExpenseState(INITIAL_EXPENSE_STATE));
+  const [showBudgetModal, setShowBudgetModal] = useState(false);
+  const [showClaimModal, setShowClaimModal] = useState(false);
+  const [selectedClaimId, setSelectedClaimId] = useState<string | null>(null);
+  const [budgetForm, setBudgetForm] = useState(EMPTY_BUDGET);
+  const [claimForm, setClaimForm] = useState(EMPTY_CLAIM);
+  const [claimLines, setClaimLines] = useState<ExpenseClaimLine[]>([]);
+  const [lineForm, setLineForm] = useState(EMPTY_LINE);
+  const [lineReceipt, setLineReceipt] = useState<File | null>(null);
+  const [decisionComment, setDecisionComment] = useState('');
+  const [rollupBy, setRollupBy] = useState<'area' | 'costCentre'>('area');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
-  const [filterCategory, setFilterCategory] = useState<string>('all');
-  const [filterWorkplace, setFilterWorkplace] = useState<string>('all');
-
-  // Dashboard statistics
-  const dashboardStats = {
-    totalBudget: 245000,
-    totalSpent: 146950,
-    totalRemaining: 98050,
-    utilizationRate: 60.0,
-    budgetsByStatus: {
-      'on-track': 45,
-      'at-risk': 23,
-      'over-budget': 8,
-      'under-budget': 34
-    },
-    averageUtilization: 58.7,
-    costSavings: 15600
+  const [filterArea, setFilterArea] = useState<string>('all');
+  const [filterCostCentre, setFilterCostCentre] = useState<string>('all');
+
+  const { budgets, claims, approvals, policy } = state;
+  const currentUserId = user?.id || 'current-user';
+
+  useEffect(() => {
+    saveExpenseState(state);
+  }, [state]);
+
+  /**
+   * Approval directory: merchandisers under their area managers plus finance.
+   * The signed-in user joins as an admin when they have admin access.
+   */
+  const directory = useMemo<ApprovalDirectory>(() => {
+    const isAdmin = hasPermission('admin:access');
+    return buildDirectory([
+      ...MEMBERS.filter(member => member.id !== currentUserId),
+      mockMember(currentUserId, user?.name || 'You', { role: isAdmin ? MemberRole.ADMIN : MemberRole.EMPLOYEE, isAdmin })
+    ]);
+  }, [currentUserId, user, hasPermission]);
+
+  const memberName = (id: string) =>
+    id === 'system' ? 'System' : directory.members.find(member => member.id === id)?.name || id;
+
+  /**
+   * Store an updated approval and mirror its outcome onto the claim
+   */
+  const applyApproval = (claimId: string, instance: ApprovalInstance) => {
+    setState(prev => ({
+      ...prev,
+      approvals: { ...prev.approvals, [claimId]: instance },
+      claims: prev.claims.map(claim => claim.id === claimId ? applyApprovalOutcome(claim, instance) : claim)
+    }));
   };
 
-  const handleAddBudget = () => {
-    setEditingBudget(null);
-    setShowAddModal(true);
+  /**
+   * Apply escalation and expiry timers every minute
+   */
+  useEffect(() => {
+    const timer = setInterval(() => {
+      Object.entries(approvals).forEach(([claimId, instance]) => {
+        const updated = processApprovalTimers(instance, directory);
+        if (updated !== instance && updated.auditLog.length !== instance.auditLog.length) {
+          applyApproval(claimId, updated);
+        }
+      });
+    }, 60000);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [approvals, directory]);
+
+  const actuals = useMemo(
+    () => budgets.map(entry => getBudgetActual(entry, claims, policy)),
+    [budgets, claims, policy]
+  );
+  const actualById = useMemo(
+    () => new Map(actuals.map(actual => [actual.budgetId, actual])),
+    [actuals]
+  );
+  const alerts = useMemo(() => getBurnRateAlerts(budgets, actuals, policy), [budgets, actuals, policy]);
+  const rollups = useMemo(() => rollupBudgets(budgets, actuals, rollupBy), [budgets, actuals, rollupBy]);
+
+  const dashboardStats = useMemo(() => {
+    const totalBudget = actuals.reduce((sum, actual) => sum + actual.allocated, 0);
+    const totalSpent = actuals.reduce((sum, actual) => sum + actual.spent, 0);
+    const pendingClaims = claims.filter(claim => claim.status === 'submitted');
+    return {
+      totalBudget,
+      totalSpent,
+      utilizationRate: totalBudget ? Math.round((totalSpent / totalBudget) * 1000) / 10 : 0,
+      pendingCount: pendingClaims.length,
+      pendingAmount: pendingClaims.reduce((sum, claim) => sum + claim.total, 0),
+      criticalAlerts: alerts.filter(alert => alert.severity === 'critical').length
+    };
+  }, [actuals, claims, alerts]);
+
+  const employeeJourneys = JOURNEYS.filter(plan => plan.employeeId === claimForm.employeeId && plan.status === 'completed');
+  const selectedEmployee = EMPLOYEES.find(employee => employee.id === claimForm.employeeId)!;
+
+  const draft: ExpenseClaim = {
+    id: 'draft',
+    employeeId: selectedEmployee.id,
+    employeeName: selectedEmployee.name,
+    areaId: selectedEmployee.areaId,
+    costCentre: claimForm.costCentre,
+    title: claimForm.title,
+    lines: claimLines,
+    total: getClaimTotal(claimLines),
+    status: 'draft',
+    source: 'web',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
   };
+  const draftErrors = validateClaim(draft, policy, claims);
 
-  const handleEdit = (budget: any) => {
-    setEditingBudget(budget);
-    setShowAddModal(true);
+  const openClaimModal = () => {
+    setClaimForm(EMPTY_CLAIM);
+    setClaimLines([]);
+    setLineForm(EMPTY_LINE);
+    setLineReceipt(null);
+    setShowClaimModal(true);
+  };
+
+  const addJourneyLine = (kind: 'mileage' | 'per-diem') => {
+    const plan = JOURNEYS.find(entry => entry.id === claimForm.journeyId);
+    if (!plan) return;
+    try {
+      const id = `${Date.now()}`;
+      const line = kind === 'mileage' ? createMileageLine(plan, policy, id) : createPerDiemLine(plan, policy, id);
+      setClaimLines(prev => [...prev, line]);
+    } catch (error) {
+      if (error instanceof ExpenseError) {
+        toast.error(error.message);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  const addManualLine = async () => {
+    const id = `${Date.now()}`;
+    const now = new Date().toISOString();
+    let receiptUrl: string | undefined;
+    if (lineReceipt) {
+      try {
+        // Stored with the claim, so keep the image itself rather than a page-local blob URL
+        receiptUrl = await readFileAsDataUrl(lineReceipt);
+      } catch {
+        toast.error('Could not read the receipt photo');
+        return;
+      }
+    }
+    setClaimLines(prev => [...prev, {
+      id,
+      category: lineForm.category,
+      date: lineForm.date,
+      description: lineForm.description.trim() || CATEGORY_LABELS[lineForm.category],
+      amount: Number(lineForm.amount) || 0,
+      receipts: lineReceipt && receiptUrl
+        ? [{ id: `${id}-receipt`, url: receiptUrl, fileName: lineReceipt.name, capturedAt: now }]
+        : []
+    }]);
+    setLineForm(EMPTY_LINE);
+    setLineReceipt(null);
+  };
+
+  const handleSubmitClaim = (e: React.FormEvent) => {
+    e.preventDefault();
+    const now = new Date();
+    try {
+      const claim = submitClaim({ ...draft, id: `${now.getTime()}`, title: draft.title.trim() || `Expenses ${toDate(now)}` }, policy, claims, now);
+      const requester = directory.members.find(member => member.id === claim.employeeId);
+      const instance = startApproval(createExpenseApprovalRequest(claim, EXPENSE_WORKFLOW, requester, now), directory, now);
+      setState(prev => ({
+        ...prev,
+        claims: [applyApprovalOutcome(claim, instance), ...prev.claims],
+        approvals: { ...prev.approvals, [claim.id]: instance }
+      }));
+      setShowClaimModal(false);
+      toast.success(`Claim submitted for approval: €${claim.total.toFixed(2)}`);
+    } catch (error) {
+      if (error instanceof ExpenseError || error instanceof ApprovalEngineError) {
+        toast.error(error.message);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  /**
+   * Approve or reject the active step of a claim as the signed-in user
+   */
+  const decide = (claimId: string, action: 'approve' | 'reject') => {
+    const instance = approvals[claimId];
+    if (!instance) return;
+    try {
+      const updated = recordDecision(instance, { action, actorId: currentUserId, comment: decisionComment.trim() || undefined }, directory);
+      applyApproval(claimId, updated);
+      setDecisionComment('');
+      toast.success(action === 'approve' ? 'Approval recorded' : 'Claim rejected');
+    } catch (error) {
+      if (error instanceof ApprovalEngineError) {
+        toast.error(error.message);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  const handleAddBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    const allocatedBudget = Number(budgetForm.allocatedBudget);
+    if (!budgetForm.name.trim() || !(allocatedBudget > 0) || budgetForm.periodEnd < budgetForm.periodStart) {
+      toast.error('Enter a name, a positive allocation and a valid period');
+      return;
+    }
+    const now = new Date().toISOString();
+    const area = AREAS.find(entry => entry.id === budgetForm.areaId)!;
+    setState(prev => ({
+      ...prev,
+      budgets: [...prev.budgets, {
+        id: `${Date.now()}`,
+        name: budgetForm.name.trim(),
+        areaId: area.id,
+        areaName: area.name,
+        costCentre: budgetForm.costCentre,
+        category: budgetForm.category,
+        periodStart: budgetForm.periodStart,
+        periodEnd: budgetForm.periodEnd,
+        allocatedBudget,
+        expenses: [],
+        createdAt: now,
+        updatedAt: now
+      }]
+    }));
+    setShowBudgetModal(false);
   };
 
   const handleDelete = (budgetId: string) => {
-    setBudgets(budgets.filter(b => b.id !== budgetId));
+    setState(prev => ({ ...prev, budgets: prev.budgets.filter(b => b.id !== budgetId) }));
+  };
+
+  const exportReport = () => {
+    const rows: (string | number)[][] = [
+      ['Budget', 'Area', 'Cost Centre', 'Category', 'Period Start', 'Period End', 'Allocated', 'Spent', 'Pending Claims', 'Remaining', 'Projected', 'Status'],
+      ...budgets.map(entry => {
+        const actual = actualById.get(entry.id)!;
+        return [entry.name, entry.areaName, entry.costCentre, entry.category, entry.periodStart, entry.periodEnd,
+          actual.allocated, actual.spent, actual.pending, actual.remaining, actual.projectedSpend, actual.status];
+      })
+    ];
+    const blob = new Blob([formatCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `budget-vs-actual-${toDate(new Date())}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
   const getStatusColor = (status: string) => {
@@ -185,44 +629,82 @@ const BudgetManagement: React.FC = () => {
     }
   };
 
-  const getUtilizationPercentage = (budget: any) => {
-    return Math.round((budget.spentAmount / budget.allocatedBudget) * 100);
+  const getClaimStatusColor = (status: ExpenseClaim['status']) => {
+    switch (status) {
+      case 'approved': return 'text-green-600 bg-green-100';
+      case 'submitted': return 'text-yellow-600 bg-yellow-100';
+      case 'rejected': return 'text-red-600 bg-red-100';
+      default: return 'text-gray-600 bg-gray-100';
+    }
+  };
+
+  const getUtilizationBar = (percentage: number) => {
+    if (percentage > 90) return 'bg-red-500';
+    if (percentage > 75) return 'bg-orange-500';
+    if (percentage > 50) return 'bg-yellow-500';
+    return 'bg-green-500';
   };
 
-  const getUtilizationColor = (percentage: number) => {
-    if (percentage > 90) return 'text-red-600';
-    if (percentage > 75) return 'text-orange-600';
-    if (percentage > 50) return 'text-yellow-600';
-    return 'text-green-600';
+  const describeWaiting = (claimId: string) => {
+    const instance = approvals[claimId];
+    const active = instance && getActiveStep(instance);
+    if (!active) return '';
+    const step = instance.request.workflow.steps.find(entry => entry.id === active.stepId);
+    return `${step?.name}: ${active.approverIds.map(memberName).join(', ') || 'admins'}`;
   };
 
-  const filteredBudgets = budgets.filter(budget => {
-    const matchesSearch = budget.workplaceName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         budget.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         budget.budgetPeriod.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = filterStatus === 'all' || budget.status === filterStatus;
-    const matchesCategory = filterCategory === 'all' || budget.category === filterCategory;
-    const matchesWorkplace = filterWorkplace === 'all' || budget.workplaceId === filterWorkplace;
-    
-    return matchesSearch && matchesStatus && matchesCategory && matchesWorkplace;
+  const filteredBudgets = budgets.filter(entry => {
+    const actual = actualById.get(entry.id);
+    const matchesSearch = entry.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         entry.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         entry.costCentre.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = filterStatus === 'all' || actual?.status === filterStatus;
+    const matchesArea = filterArea === 'all' || entry.areaId === filterArea;
+    const matchesCostCentre = filterCostCentre === 'all' || entry.costCentre === filterCostCentre;
+    return matchesSearch && matchesStatus && matchesArea && matchesCostCentre;
   });
 
+  const selectedClaim = claims.find(claim => claim.id === selectedClaimId);
+  const selectedApproval = selectedClaimId ? approvals[selectedClaimId] : undefined;
+
+  const renderUtilization = ({ utilization, spent }: Pick<BudgetActual, 'utilization' | 'spent'>) => (
+    <div>
+      <div className="text-sm font-medium text-gray-900">{utilization}%</div>
+      <div className="text-sm text-gray-500">€{spent.toLocaleString()} spent</div>
+      <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+        <div
+          className={`h-2 rounded-full ${getUtilizationBar(utilization)}`}
+          style={{ width: `${Math.min(100, utilization)}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Budget Management</h2>
-          <p className="text-gray-600">Track operational costs and budget allocation</p>
+          <p className="text-gray-600">Budget vs actual per area and cost centre, with field expense claims</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+          <button
+            onClick={exportReport}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
             <Download className="h-4 w-4 mr-2" />
             Export Report
           </button>
           <button
-            onClick={handleAddBudget}
+            onClick={openClaimModal}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Receipt className="h-4 w-4 mr-2" />
+            New Claim
+          </button>
+          <button
+            onClick={() => { setBudgetForm(EMPTY_BUDGET); setShowBudgetModal(true); }}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -241,7 +723,7 @@ const BudgetManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Budget</p>
               <p className="text-2xl font-bold text-gray-900">€{dashboardStats.totalBudget.toLocaleString()}</p>
-              <p className="text-sm text-blue-600">Q1 2025 allocation</p>
+              <p className="text-sm text-blue-600">{budgets.length} budgets</p>
             </div>
           </div>
         </div>
@@ -249,7 +731,7 @@ const BudgetManagement: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <Receipt className="h-8 w-8 text-green-600" />
+              <Wallet className="h-8 w-8 text-green-600" />
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Spent</p>
@@ -262,12 +744,12 @@ const BudgetManagement: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <CreditCard className="h-8 w-8 text-orange-600" />
+              <Clock className="h-8 w-8 text-orange-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Remaining</p>
-              <p className="text-2xl font-bold text-gray-900">€{dashboardStats.totalRemaining.toLocaleString()}</p>
-              <p className="text-sm text-orange-600">Available budget</p>
+              <p className="text-sm font-medium text-gray-500">Pending Claims</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.pendingCount}</p>
+              <p className="text-sm text-orange-600">€{dashboardStats.pendingAmount.toFixed(2)} awaiting approval</p>
             </div>
           </div>
         </div>
@@ -275,17 +757,82 @@ const BudgetManagement: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <Target className="h-8 w-8 text-indigo-600" />
+              <TrendingUp className="h-8 w-8 text-red-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Cost Savings</p>
-              <p className="text-2xl font-bold text-gray-900">€{dashboardStats.costSavings.toLocaleString()}</p>
-              <p className="text-sm text-indigo-600">vs. projected</p>
+              <p className="text-sm font-medium text-gray-500">Burn-rate Alerts</p>
+              <p className="text-2xl font-bold text-gray-900">{alerts.length}</p>
+              <p className="text-sm text-red-600">{dashboardStats.criticalAlerts} critical</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Burn-rate Alerts */}
+      {alerts.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-2">
+          <h3 className="text-lg font-medium text-gray-900">Burn-rate Alerts</h3>
+          {alerts.map(alert => (
+            <div
+              key={alert.budgetId}
+              className={`flex items-center p-3 rounded-md text-sm ${alert.severity === 'critical' ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'}`}
+            >
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {alert.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Rollup */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Budget vs Actual by {rollupBy === 'area' ? 'Area' : 'Cost Centre'}</h3>
+          <div className="flex space-x-2">
+            {(['area', 'costCentre'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setRollupBy(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${rollupBy === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {option === 'area' ? 'Area' : 'Cost Centre'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{rollupBy === 'area' ? 'Area' : 'Cost Centre'}</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Budgets</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Allocated</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Utilization</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pending Claims</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Remaining</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rollups.map(rollup => (
+                <tr key={rollup.key}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{rollup.label}</div>
+                    {rollupBy === 'costCentre' && (
+                      <div className="text-sm text-gray-500">{COST_CENTRES.find(centre => centre.code === rollup.key)?.name}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rollup.budgetCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">€{rollup.allocated.toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">{renderUtilization(rollup)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">€{rollup.pending.toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">€{rollup.remaining.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -295,7 +842,7 @@ const BudgetManagement: React.FC = () => {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search budgets, workplaces..."
+                placeholder="Search budgets, cost centres..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
@@ -319,31 +866,26 @@ const BudgetManagement: React.FC = () => {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Area</label>
             <select
-              value={filterCategory}
-              onChange={(e) => setFilterCategory(e.target.value)}
+              value={filterArea}
+              onChange={(e) => setFilterArea(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Categories</option>
-              <option value="Operations">Operations</option>
-              <option value="Marketing">Marketing</option>
-              <option value="Inventory">Inventory</option>
-              <option value="Training">Training</option>
+              <option value="all">All Areas</option>
+              {AREAS.map(area => <option key={area.id} value={area.id}>{area.name}</option>)}
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Workplace</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Cost Centre</label>
             <select
-              value={filterWorkplace}
-              onChange={(e) => setFilterWorkplace(e.target.value)}
+              value={filterCostCentre}
+              onChange={(e) => setFilterCostCentre(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Workplaces</option>
-              <option value="1">BIG ONE Handels GmbH</option>
-              <option value="2">SamsungZeil Showcase</option>
-              <option value="3">3K-Kuechen Esslingen</option>
+              <option value="all">All Cost Centres</option>
+              {COST_CENTRES.map(centre => <option key={centre.code} value={centre.code}>{centre.code} {centre.name}</option>)}
             </select>
           </div>
         </div>
@@ -352,94 +894,65 @@ const BudgetManagement: React.FC = () => {
       {/* Budgets List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
-          <div className="flex items-center justify-between">
-            <h3 className="text-lg font-medium text-gray-900">Budget Overview</h3>
-            <button className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
-              <Download className="h-4 w-4 mr-1" />
-              Export
-            </button>
-          </div>
+          <h3 className="text-lg font-medium text-gray-900">Budget Overview</h3>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workplace</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Budget</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Allocated</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Utilization</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Burn Rate</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Remaining</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredBudgets.map((budget) => {
-                const utilizationPercentage = getUtilizationPercentage(budget);
+              {filteredBudgets.map((entry) => {
+                const actual = actualById.get(entry.id)!;
                 return (
-                  <tr key={budget.id} className="hover:bg-gray-50">
+                  <tr key={entry.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
-                        <div className="text-sm font-medium text-gray-900">{budget.workplaceName}</div>
-                        <div className="text-sm text-gray-500">{budget.workplaceCode}</div>
-                        <div className="text-xs text-gray-400">{budget.budgetPeriod}</div>
+                        <div className="text-sm font-medium text-gray-900">{entry.name}</div>
+                        <div className="text-sm text-gray-500">{entry.areaName} · {entry.costCentre}</div>
+                        <div className="text-xs text-gray-400">{entry.periodStart} – {entry.periodEnd}</div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{budget.category}</div>
+                      <div className="text-sm font-medium text-gray-900">{entry.category}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">€{budget.allocatedBudget.toLocaleString()}</div>
-                        <div className="text-sm text-gray-500">Allocated</div>
-                      </div>
+                      <div className="text-sm font-medium text-gray-900">€{actual.allocated.toLocaleString()}</div>
+                      {actual.pending > 0 && (
+                        <div className="text-sm text-orange-600">€{actual.pending.toLocaleString()} pending</div>
+                      )}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">{renderUtilization(actual)}</td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className={`text-sm font-medium ${getUtilizationColor(utilizationPercentage)}`}>
-                          {utilizationPercentage}%
-                        </div>
-                        <div className="text-sm text-gray-500">€{budget.spentAmount.toLocaleString()} spent</div>
-                        <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
-                          <div 
-                            className={`h-2 rounded-full ${
-                              utilizationPercentage > 90 ? 'bg-red-500' : 
-                              utilizationPercentage > 75 ? 'bg-orange-500' : 
-                              utilizationPercentage > 50 ? 'bg-yellow-500' : 'bg-green-500'
-                            }`}
-                            style={{ width: `${utilizationPercentage}%` }}
-                          ></div>
-                        </div>
-                      </div>
+                      <div className="text-sm text-gray-900">€{actual.dailyBurnRate.toLocaleString()}/day</div>
+                      <div className="text-sm text-gray-500">€{actual.projectedSpend.toLocaleString()} projected</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(budget.status)}`}>
-                        {getStatusIcon(budget.status)}
-                        <span className="ml-1">{budget.status.replace('-', ' ')}</span>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(actual.status)}`}>
+                        {getStatusIcon(actual.status)}
+                        <span className="ml-1">{actual.status.replace('-', ' ')}</span>
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">€{budget.remainingBudget.toLocaleString()}</div>
-                      <div className="text-sm text-gray-500">Available</div>
+                      <div className="text-sm font-medium text-gray-900">€{actual.remaining.toLocaleString()}</div>
+                      <div className="text-sm text-gray-500">{Math.round(actual.elapsedShare * 100)}% of period elapsed</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => handleEdit(budget)}
-                          className="text-blue-600 hover:text-blue-900"
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(budget.id)}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                        <button className="text-gray-600 hover:text-gray-900">
-                          <Eye className="h-4 w-4" />
-                        </button>
-                      </div>
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
                     </td>
                   </tr>
                 );
@@ -449,30 +962,387 @@ const BudgetManagement: React.FC = () => {
         </div>
       </div>
 
-      {/* Add/Edit Modal Placeholder */}
-      {showAddModal && (
+      {/* Expense Claims */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Expense Claims</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Claim</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost Centre</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {claims.map(claim => (
+                <tr key={claim.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{claim.title}</div>
+                    <div className="text-sm text-gray-500">{claim.lines.length} lines · {claim.source}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{claim.employeeName}</div>
+                    <div className="text-sm text-gray-500">{AREAS.find(area => area.id === claim.areaId)?.name}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{claim.costCentre}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">€{claim.total.toFixed(2)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${getClaimStatusColor(claim.status)}`}>
+                      {claim.status}
+                    </span>
+                    {claim.status === 'submitted' && (
+                      <div className="text-xs text-gray-500 mt-1">{describeWaiting(claim.id)}</div>
+                    )}
+                    {claim.rejectionReason && (
+                      <div className="text-xs text-red-600 mt-1">{claim.rejectionReason}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => { setSelectedClaimId(claim.id); setDecisionComment(''); }}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Claim Detail Modal */}
+      {selectedClaim && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{selectedClaim.title}</h3>
+                <p className="text-sm text-gray-500">{selectedClaim.employeeName} · {selectedClaim.costCentre} · €{selectedClaim.total.toFixed(2)}</p>
+              </div>
+              <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${getClaimStatusColor(selectedClaim.status)}`}>
+                {selectedClaim.status}
+              </span>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 mb-4">
+              <tbody className="divide-y divide-gray-200">
+                {selectedClaim.lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="py-2 text-sm text-gray-500">{line.date}</td>
+                    <td className="py-2 text-sm text-gray-900">
+                      {line.description}
+                      <div className="text-xs text-gray-500">{CATEGORY_LABELS[line.category]}</div>
+                    </td>
+                    <td className="py-2">
+                      {line.receipts.map(receipt => (
+                        <a key={receipt.id} href={receipt.url} target="_blank" rel="noreferrer" className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800 mr-2">
+                          <Camera className="h-3 w-3 mr-1" />
+                          {receipt.fileName || 'Receipt'}
+                        </a>
+                      ))}
+                    </td>
+                    <td className="py-2 text-sm font-medium text-gray-900 text-right">€{line.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {selectedApproval && (
+              <div className="mb-4">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Approval History</h4>
+                <ul className="space-y-1">
+                  {selectedApproval.auditLog.map(entry => (
+                    <li key={entry.id} className="text-sm text-gray-600">
+                      {new Date(entry.timestamp).toLocaleString()} · {entry.performedByName}: {entry.action.replace(/_/g, ' ')}
+                      {entry.details?.comment ? ` (${entry.details.comment})` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {selectedApproval && canActOnRequest(selectedApproval, currentUserId, directory) && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Comment (required to reject)</label>
+                <textarea
+                  value={decisionComment}
+                  onChange={(e) => setDecisionComment(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="flex justify-end space-x-2 mt-2">
+                  <button onClick={() => decide(selectedClaim.id, 'reject')} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700">
+                    Reject
+                  </button>
+                  <button onClick={() => decide(selectedClaim.id, 'approve')} className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700">
+                    Approve
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button onClick={() => setSelectedClaimId(null)} className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* New Claim Modal */}
+      {showClaimModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3 text-center">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">
-                {editingBudget ? 'Edit Budget' : 'Add Budget'}
-              </h3>
-              <p className="text-sm text-gray-500 mb-4">
-                {editingBudget ? 'Update budget details' : 'Create new budget allocation'}
-              </p>
-              <div className="flex justify-center space-x-4">
-                <button
-                  onClick={() => setShowAddModal(false)}
-                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+          <form onSubmit={handleSubmitClaim} className="relative top-10 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">New Expense Claim</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+                <select
+                  value={claimForm.employeeId}
+                  onChange={(e) => { setClaimForm({ ...claimForm, employeeId: e.target.value, journeyId: '' }); setClaimLines([]); }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {EMPLOYEES.map(employee => <option key={employee.id} value={employee.id}>{employee.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cost Centre</label>
+                <select
+                  value={claimForm.costCentre}
+                  onChange={(e) => setClaimForm({ ...claimForm, costCentre: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
                 >
-                  Cancel
+                  {COST_CENTRES.map(centre => <option key={centre.code} value={centre.code}>{centre.code} {centre.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={claimForm.title}
+                  onChange={(e) => setClaimForm({ ...claimForm, title: e.target.value })}
+                  placeholder="e.g. Week 12 store visits"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="p-3 bg-gray-50 rounded-md">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Journey (mileage at €{policy.mileageRatePerKm.toFixed(2)}/km)
+              </label>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={claimForm.journeyId}
+                  onChange={(e) => setClaimForm({ ...claimForm, journeyId: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select a completed journey</option>
+                  {employeeJourneys.map(plan => (
+                    <option key={plan.id} value={plan.id}>{plan.date} · {plan.title} · {plan.totalDistance} km</option>
+                  ))}
+                </select>
+                <button type="button" disabled={!claimForm.journeyId} onClick={() => addJourneyLine('mileage')} className="btn-secondary inline-flex items-center disabled:opacity-50">
+                  <Car className="h-4 w-4 mr-1" />
+                  Mileage
                 </button>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
-                  {editingBudget ? 'Update' : 'Add'}
+                <button type="button" disabled={!claimForm.journeyId} onClick={() => addJourneyLine('per-diem')} className="btn-secondary disabled:opacity-50">
+                  Per-diem
                 </button>
               </div>
             </div>
-          </div>
+
+            <div className="p-3 bg-gray-50 rounded-md">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Other expense (receipt required above €{policy.receiptRequiredAbove})
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                <select
+                  value={lineForm.category}
+                  onChange={(e) => setLineForm({ ...lineForm, category: e.target.value as ExpenseCategory })}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {MANUAL_CATEGORIES.map(category => <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>)}
+                </select>
+                <input
+                  type="date"
+                  value={lineForm.date}
+                  onChange={(e) => setLineForm({ ...lineForm, date: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="text"
+                  value={lineForm.description}
+                  onChange={(e) => setLineForm({ ...lineForm, description: e.target.value })}
+                  placeholder="Description"
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lineForm.amount}
+                  onChange={(e) => setLineForm({ ...lineForm, amount: e.target.value })}
+                  placeholder="Amount €"
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button type="button" disabled={!lineForm.amount} onClick={addManualLine} className="btn-secondary disabled:opacity-50">
+                  Add
+                </button>
+              </div>
+              <label className="inline-flex items-center mt-2 text-sm text-blue-600 cursor-pointer">
+                <Camera className="h-4 w-4 mr-1" />
+                {lineReceipt ? lineReceipt.name : 'Attach receipt photo'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  onChange={(e) => setLineReceipt(e.target.files?.[0] || null)}
+                />
+              </label>
+            </div>
+
+            {claimLines.length > 0 && (
+              <table className="min-w-full divide-y divide-gray-200">
+                <tbody className="divide-y divide-gray-200">
+                  {claimLines.map(line => (
+                    <tr key={line.id}>
+                      <td className="py-2 text-sm text-gray-500">{line.date}</td>
+                      <td className="py-2 text-sm text-gray-900">
+                        {line.description}
+                        {line.receipts.length > 0 && <Camera className="inline h-3 w-3 ml-1 text-gray-400" />}
+                      </td>
+                      <td className="py-2 text-sm font-medium text-gray-900 text-right">€{line.amount.toFixed(2)}</td>
+                      <td className="py-2 text-right">
+                        <button type="button" onClick={() => setClaimLines(prev => prev.filter(entry => entry.id !== line.id))} className="text-red-600 hover:text-red-900">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td colSpan={2} className="py-2 text-sm font-medium text-gray-900">Total</td>
+                    <td className="py-2 text-sm font-bold text-gray-900 text-right">€{draft.total.toFixed(2)}</td>
+                    <td></td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+
+            {draftErrors.length > 0 && (
+              <ul className="p-3 bg-red-50 rounded-md text-sm text-red-700 list-disc list-inside">
+                {draftErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={() => setShowClaimModal(false)} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={draftErrors.length > 0} className="btn-primary disabled:opacity-50">
+                Submit for Approval
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Add Budget Modal */}
+      {showBudgetModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <form onSubmit={handleAddBudget} className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white space-y-3">
+            <h3 className="text-lg font-medium text-gray-900">Add Budget</h3>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={budgetForm.name}
+                onChange={(e) => setBudgetForm({ ...budgetForm, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Area</label>
+                <select
+                  value={budgetForm.areaId}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, areaId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {AREAS.map(area => <option key={area.id} value={area.id}>{area.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cost Centre</label>
+                <select
+                  value={budgetForm.costCentre}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, costCentre: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {COST_CENTRES.map(centre => <option key={centre.code} value={centre.code}>{centre.code}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={budgetForm.category}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, category: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {['Travel', 'Operations', 'Marketing', 'Inventory', 'Training'].map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Allocation (€)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={budgetForm.allocatedBudget}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, allocatedBudget: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Period Start</label>
+                <input
+                  type="date"
+                  value={budgetForm.periodStart}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, periodStart: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Period End</label>
+                <input
+                  type="date"
+                  value={budgetForm.periodEnd}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, periodEnd: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <button type="button" onClick={() => setShowBudgetModal(false)} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary">
+                Add
+              </button>
+            </div>
+          </form>
         </div>
       )}
     </div>
@@ -1,38 +1,243 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Plus,
   Pencil,
   Trash2,
   Eye,
   Search,
-  Filter,
   Download,
   TrendingUp,
-  TrendingDown,
   AlertTriangle,
   CheckCircle,
-  XCircle,
-  MapPin,
-  Calendar,
   BarChart3,
-  Users,
   Building2,
-  Target,
   DollarSign,
-  Camera,
-  FileText
+  Tag
 } from 'lucide-react';
+import {
+  CompetitorAnalysisConfig,
+  CompetitorPriceObservation,
+  CompetitorSkuPair,
+  PriceCorridor,
+  PriceIndexSeries,
+  PricingVerificationConfig,
+  PromoMechanic,
+  QuestionType,
+  TodoQuestion
+} from '../../types';
+import {
+  CompetitorPricingError,
+  CompetitorPricingState,
+  getCorridorBreaches,
+  getPeriod,
+  getPriceIndex,
+  getPriceIndexSeries,
+  loadCompetitorPricingState,
+  mergeObservations,
+  observationsFromResponses,
+  PROMO_MECHANICS,
+  saveCompetitorPricingState,
+  summarizePromotions,
+  validateCorridor
+} from '../../services/competitorPricing';
+import { buildTodoResponses, QuestionAnswers, validateQuestionnaireAnswers } from '../../services/questionnaire';
+import { formatCsv } from '../../services/spreadsheet';
+import CompetitorPriceInput from '../Tasks/CompetitorPriceInput';
+
+const WORKPLACES = [
+  { id: '1', name: 'BIG ONE Handels GmbH/ Os...', code: '20311', retailer: 'BIG ONE', areaId: '2', areaName: 'Industrial Zone' },
+  { id: '2', name: '#SamsungZeil (Showcase)/ Fra...', code: '15235', retailer: 'SamsungZeil', areaId: '1', areaName: 'Downtown Area' },
+  { id: '3', name: '3K-Kuechen Esslingen/ Essling...', code: '25280', retailer: '3K-Kuechen', areaId: '1', areaName: 'Downtown Area' }
+];
+
+const GALAXY_VS_IPHONE: CompetitorSkuPair = {
+  ownSku: 'SM-S921B', ownName: 'Samsung Galaxy S24', competitorSku: 'MTP03', competitorBrand: 'Apple', competitorName: 'iPhone 15 128GB'
+};
+const GALAXY_VS_PIXEL: CompetitorSkuPair = {
+  ownSku: 'SM-S921B', ownName: 'Samsung Galaxy S24', competitorSku: 'GA04832', competitorBrand: 'Google', competitorName: 'Pixel 8 128GB'
+};
+const QLED_VS_OLED: CompetitorSkuPair = {
+  ownSku: 'QE55Q80C', ownName: 'Samsung QLED 55" Q80C', competitorSku: 'OLED55C37LA', competitorBrand: 'LG', competitorName: 'LG OLED 55" C3'
+};
+const DISHWASHER_PAIR: CompetitorSkuPair = {
+  ownSku: 'SMS4HVI33E', ownName: 'Bosch Dishwasher Serie 4', competitorSku: 'SN23HI60AE', competitorBrand: 'Siemens', competitorName: 'Siemens iQ300 Dishwasher'
+};
+
+// SKU pairs priced on visits to each workplace
+const WORKPLACE_PAIRS: Record<string, CompetitorSkuPair[]> = {
+  '1': [GALAXY_VS_IPHONE, GALAXY_VS_PIXEL, QLED_VS_OLED],
+  '2': [GALAXY_VS_IPHONE, GALAXY_VS_PIXEL, QLED_VS_OLED],
+  '3': [DISHWASHER_PAIR]
+};
+
+const INITIAL_CORRIDORS: PriceCorridor[] = [
+  { id: 'c1', ownSku: 'SM-S921B', ownName: 'Samsung Galaxy S24', minPrice: 799, maxPrice: 899 },
+  { id: 'c2', ownSku: 'SM-S921B', ownName: 'Samsung Galaxy S24', retailer: 'SamsungZeil', minPrice: 849, maxPrice: 899 },
+  { id: 'c3', ownSku: 'QE55Q80C', ownName: 'Samsung QLED 55" Q80C', minPrice: 999, maxPrice: 1199 },
+  { id: 'c4', ownSku: 'SMS4HVI33E', ownName: 'Bosch Dishwasher Serie 4', minPrice: 579, maxPrice: 649 }
+];
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+/**
+ * Eight weekly captures of one SKU pair at a workplace, oldest first
+ */
+const seedSeries = (
+  workplaceId: string,
+  pair: CompetitorSkuPair,
+  ownPrices: number[],
+  shelfPrice: number,
+  [ownFacings, facings]: [number, number],
+  promo?: { mechanic: PromoMechanic; prices: (number | null)[] }
+): CompetitorPriceObservation[] => {
+  const workplace = WORKPLACES.find(entry => entry.id === workplaceId)!;
+  return ownPrices.map((ownPrice, week) => {
+    const promoPrice = promo?.prices[week];
+    return {
+      ...pair,
+      id: `seed-${workplaceId}-${pair.ownSku}-${pair.competitorSku}-${week}`,
+      workplaceId,
+      workplaceName: workplace.name,
+      retailer: workplace.retailer,
+      areaId: workplace.areaId,
+      areaName: workplace.areaName,
+      observedAt: daysAgo((ownPrices.length - 1 - week) * 7 + 1).toISOString(),
+      recordedBy: 'John Doe',
+      ownPrice,
+      ownFacings,
+      shelfPrice,
+      facings,
+      promoMechanic: promoPrice ? promo!.mechanic : 'none',
+      promoPrice: promoPrice || undefined
+    };
+  });
+};
+
+const INITIAL_OBSERVATIONS: CompetitorPriceObservation[] = [
+  ...seedSeries('1', GALAXY_VS_IPHONE, [849, 849, 849, 829, 829, 799, 779, 779], 949, [6, 4]),
+  ...seedSeries('1', GALAXY_VS_PIXEL, [849, 849, 849, 829, 829, 799, 779, 779], 799, [6, 3],
+    { mechanic: 'cashback', prices: [null, null, 699, 699, null, null, 699, 699] }),
+  ...seedSeries('1', QLED_VS_OLED, [1149, 1149, 1099, 1099, 1099, 1049, 1049, 1049], 1399, [4, 5],
+    { mechanic: 'price-cut', prices: [null, 1199, 1199, 1199, null, null, 1249, 1249] }),
+  ...seedSeries('2', GALAXY_VS_IPHONE, [899, 899, 899, 899, 879, 879, 879, 879], 949, [12, 0]),
+  ...seedSeries('2', GALAXY_VS_PIXEL, [899, 899, 899, 899, 879, 879, 879, 879], 799, [12, 0]),
+  ...seedSeries('2', QLED_VS_OLED, [1199, 1199, 1199, 1149, 1149, 1149, 1149, 1149], 1399, [8, 0]),
+  ...seedSeries('3', DISHWASHER_PAIR, [629, 629, 649, 649, 649, 669, 689, 689], 629, [3, 4],
+    { mechanic: 'bundle', prices: [null, null, null, 579, 579, 579, null, null] })
+];
+
+/**
+ * Competitor analysis question for a visit to a workplace, listing its SKU pairs
+ */
+const buildPriceQuestion = (workplaceId: string, corridors: PriceCorridor[]): TodoQuestion => {
+  const competitorAnalysis: CompetitorAnalysisConfig = {
+    competitorTypes: ['Brand'],
+    analysisAreas: ['pricing', 'promotions', 'facings'],
+    dataCollectionMethods: ['visit'],
+    requirePhotos: false,
+    requirePricingData: true,
+    requireProductComparison: true,
+    products: WORKPLACE_PAIRS[workplaceId] || []
+  };
+  const pricingVerification: PricingVerificationConfig = {
+    pricingElements: ['shelf tags'],
+    accuracyThresholds: [95],
+    requirePhotos: false,
+    requireCompetitorComparison: true,
+    requirePromotionCheck: true,
+    corridors
+  };
+  return {
+    id: 'competitor-prices',
+    type: QuestionType.COMPETITOR_ANALYSIS,
+    title: 'Capture competitor prices',
+    required: true,
+    order: 1,
+    merchandisingConfig: { competitorAnalysis, pricingVerification },
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  };
+};
+
+const SERIES_COLORS = ['#2563EB', '#DC2626', '#059669', '#D97706', '#7C3AED'];
+
+/**
+ * Price index lines over time with the 100 (price parity) reference line
+ */
+const PriceIndexChart: React.FC<{ series: PriceIndexSeries[] }> = ({ series }) => {
+  const periods = Array.from(new Set(series.flatMap(entry => entry.points.map(point => point.period)))).sort();
+  const indices = series.flatMap(entry => entry.points.map(point => point.index));
+  if (!periods.length) {
+    return <p className="text-sm text-gray-500">No prices captured for this selection.</p>;
+  }
+  const width = 640;
+  const height = 220;
+  const padding = { top: 10, right: 10, bottom: 24, left: 36 };
+  const min = Math.floor(Math.min(100, ...indices) / 5) * 5 - 5;
+  const max = Math.ceil(Math.max(100, ...indices) / 5) * 5 + 5;
+  const x = (period: string) => padding.left +
+    (periods.length === 1 ? 0.5 : periods.indexOf(period) / (periods.length - 1)) * (width - padding.left - padding.right);
+  const y = (index: number) => padding.top + ((max - index) / (max - min)) * (height - padding.top - padding.bottom);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-56" role="img" aria-label="Price index chart">
+        {[min, 100, max].map(tick => (
+          <g key={tick}>
+            <line
+              x1={padding.left}
+              x2={width - padding.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke={tick === 100 ? '#9CA3AF' : '#E5E7EB'}
+              strokeDasharray={tick === 100 ? '4 4' : undefined}
+            />
+            <text x={padding.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6B7280">{tick}</text>
+          </g>
+        ))}
+        {periods.map(period => (
+          <text key={period} x={x(period)} y={height - 6} textAnchor="middle" fontSize="10" fill="#6B7280">{period.slice(5)}</text>
+        ))}
+        {series.map((entry, i) => (
+          <g key={entry.key}>
+            <polyline
+              fill="none"
+              stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              strokeWidth={2}
+              points={entry.points.map(point => `${x(point.period)},${y(point.index)}`).join(' ')}
+            />
+            {entry.points.map(point => (
+              <circle key={point.period} cx={x(point.period)} cy={y(point.index)} r={3} fill={SERIES_COLORS[i % SERIES_COLORS.length]}>
+                <title>{`${entry.label} ${point.period}: ${point.index} (${point.observations} prices)`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2">
+        {series.map((entry, i) => (
+          <div key={entry.key} className="flex items-center text-sm text-gray-700">
+            <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }} />
+            {entry.label}: {entry.points[entry.points.length - 1].index}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const EMPTY_CORRIDOR = { ownSku: 'SM-S921B', retailer: '', minPrice: '', maxPrice: '' };
 
 /**
  * Competitor Analysis Component
  * 
  * This component provides comprehensive competitor analysis functionality including:
  * - Monitor competitor activities at workplace locations
- * - Track competitor products and pricing
- * - Analyze market positioning
+ * - Competitor shelf prices, promotions and facings captured on visits
+ * - Price index versus our SKUs per retailer and area over time
+ * - Stores where our price is outside the agreed corridor
+ * - Promotion pressure and facing share per competitor brand
  * - Competitive intelligence gathering
- * - Performance comparison
- * - Market share analysis
  */
 const CompetitorAnalysis: React.FC = () => {
   const [competitors, setCompetitors] = useState([
@@ -172,18 +377,135 @@ const CompetitorAnalysis: React.FC = () => {
   const [filterType, setFilterType] = useState<string>('all');
   const [filterWorkplace, setFilterWorkplace] = useState<string>('all');
 
+  // Competitor prices
+  const [pricingState, setPricingState] = useState<CompetitorPricingState>(() =>
+    loadCompetitorPricingState({ observations: INITIAL_OBSERVATIONS, corridors: INITIAL_CORRIDORS })
+  );
+  const { observations, corridors } = pricingState;
+  const [indexBy, setIndexBy] = useState<'retailer' | 'area'>('retailer');
+  const [granularity, setGranularity] = useState<'week' | 'month'>('week');
+  const [indexSku, setIndexSku] = useState<string>('all');
+  const [showPriceModal, setShowPriceModal] = useState(false);
+  const [priceWorkplace, setPriceWorkplace] = useState('');
+  const [priceAnswers, setPriceAnswers] = useState<QuestionAnswers>({});
+  const [priceErrors, setPriceErrors] = useState<string[]>([]);
+  const [corridorForm, setCorridorForm] = useState(EMPTY_CORRIDOR);
+  const [corridorError, setCorridorError] = useState('');
+
+  useEffect(() => {
+    saveCompetitorPricingState(pricingState);
+  }, [pricingState]);
+
+  const ownSkus = useMemo(() => {
+    const bySku = new Map(Object.values(WORKPLACE_PAIRS).flat().map(pair => [pair.ownSku, pair.ownName]));
+    return Array.from(bySku, ([sku, name]) => ({ sku, name }));
+  }, []);
+
+  const indexSeries = useMemo(
+    () => getPriceIndexSeries(observations, indexBy, granularity, indexSku === 'all' ? undefined : indexSku),
+    [observations, indexBy, granularity, indexSku]
+  );
+  const breaches = useMemo(() => getCorridorBreaches(observations, corridors), [observations, corridors]);
+  const promoSummaries = useMemo(() => summarizePromotions(observations), [observations]);
+
+  const priceWorkplaceEntry = WORKPLACES.find(workplace => workplace.id === priceWorkplace);
+  const priceQuestion = useMemo(
+    () => (priceWorkplace ? buildPriceQuestion(priceWorkplace, corridors) : null),
+    [priceWorkplace, corridors]
+  );
+
   // Dashboard statistics
-  const dashboardStats = {
-    totalCompetitors: 89,
-    highThreatCompetitors: 23,
-    mediumThreatCompetitors: 45,
-    lowThreatCompetitors: 21,
-    averageMarketShare: 31.2,
-    priceAdvantage: 67,
-    totalActivities: 156,
-    recentActivities: 23
+  const dashboardStats = useMemo(() => {
+    // Average index over all prices captured in the most recent week
+    const latestWeek = observations.reduce((latest, observation) => {
+      const period = getPeriod(observation.observedAt, 'week');
+      return period > latest ? period : latest;
+    }, '');
+    const latestIndices = observations
+      .filter(observation => getPeriod(observation.observedAt, 'week') === latestWeek)
+      .map(observation => getPriceIndex(observation));
+    return {
+      totalCompetitors: competitors.length,
+      highThreatCompetitors: competitors.filter(competitor => competitor.threatLevel === 'high').length,
+      priceIndex: latestIndices.length
+        ? Math.round(latestIndices.reduce((sum, index) => sum + index, 0) / latestIndices.length * 10) / 10
+        : null,
+      corridorBreaches: breaches.length
+    };
+  }, [competitors, observations, breaches]);
+
+  const openPriceModal = () => {
+    setPriceWorkplace(WORKPLACES[0].id);
+    setPriceAnswers({});
+    setPriceErrors([]);
+    setShowPriceModal(true);
+  };
+
+  const handleSavePrices = () => {
+    if (!priceQuestion || !priceWorkplaceEntry) return;
+    const validation = validateQuestionnaireAnswers([priceQuestion], priceAnswers);
+    if (!validation.isValid) {
+      setPriceErrors(validation.errors[priceQuestion.id] || []);
+      return;
+    }
+    const responses = buildTodoResponses(`visit-${priceWorkplace}-${Date.now()}`, 'Current User', [priceQuestion], priceAnswers);
+    const { id: workplaceId, name: workplaceName, retailer, areaId, areaName } = priceWorkplaceEntry;
+    const captured = observationsFromResponses(responses, [priceQuestion], {
+      workplaceId, workplaceName, retailer, areaId, areaName, recordedBy: 'Current User'
+    });
+    setPricingState(state => ({ ...state, observations: mergeObservations(state.observations, captured) }));
+    setShowPriceModal(false);
   };
 
+  const handleAddCorridor = () => {
+    const ownName = ownSkus.find(sku => sku.sku === corridorForm.ownSku)?.name || corridorForm.ownSku;
+    const corridor: PriceCorridor = {
+      id: `${Date.now()}`,
+      ownSku: corridorForm.ownSku,
+      ownName,
+      retailer: corridorForm.retailer || undefined,
+      minPrice: Number(corridorForm.minPrice),
+      maxPrice: Number(corridorForm.maxPrice)
+    };
+    try {
+      validateCorridor(corridor);
+    } catch (error) {
+      if (error instanceof CompetitorPricingError) {
+        setCorridorError(error.message);
+        return;
+      }
+      throw error;
+    }
+    setPricingState(state => ({
+      ...state,
+      corridors: [...state.corridors.filter(existing => existing.ownSku !== corridor.ownSku || existing.retailer !== corridor.retailer), corridor]
+    }));
+    setCorridorForm(EMPTY_CORRIDOR);
+    setCorridorError('');
+  };
+
+  const handleExportPrices = () => {
+    const rows: (string | number)[][] = [
+      ['Observed', 'Workplace', 'Retailer', 'Area', 'Our SKU', 'Our Price', 'Our Facings', 'Competitor', 'Competitor SKU',
+        'Shelf Price', 'Promotion', 'Promo Price', 'Facings', 'Price Index'],
+      ...observations.map(observation => [
+        observation.observedAt, observation.workplaceName, observation.retailer, observation.areaName,
+        observation.ownSku, observation.ownPrice, observation.ownFacings, observation.competitorBrand, observation.competitorSku,
+        observation.shelfPrice, observation.promoMechanic, observation.promoPrice ?? '', observation.facings, getPriceIndex(observation)
+      ])
+    ];
+    const blob = new Blob([formatCsv(rows)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `competitor-prices-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const getMechanicLabel = (mechanic: PromoMechanic) =>
+    PROMO_MECHANICS.find(entry => entry.value === mechanic)?.label || mechanic;
+
   const handleAddCompetitor = () => {
     setEditingCompetitor(null);
     setShowAddModal(true);
@@ -252,12 +574,22 @@ const CompetitorAnalysis: React.FC = () => {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Competitor Analysis</h2>
-          <p className="text-gray-600">Monitor competitor activities and market positioning</p>
+          <p className="text-gray-600">Monitor competitor activities, prices and promotions</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+          <button
+            onClick={handleExportPrices}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
             <Download className="h-4 w-4 mr-2" />
-            Export Report
+            Export Prices
+          </button>
+          <button
+            onClick={openPriceModal}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Tag className="h-4 w-4 mr-2" />
+            Record Prices
           </button>
           <button
             onClick={handleAddCompetitor}
@@ -303,9 +635,9 @@ const CompetitorAnalysis: React.FC = () => {
               <DollarSign className="h-8 w-8 text-green-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Price Advantage</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.priceAdvantage}%</p>
-              <p className="text-sm text-green-600">Competitive pricing</p>
+              <p className="text-sm font-medium text-gray-500">Price Index</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.priceIndex ?? '–'}</p>
+              <p className="text-sm text-green-600">Latest week, 100 = price parity</p>
             </div>
           </div>
         </div>
@@ -316,14 +648,178 @@ const CompetitorAnalysis: React.FC = () => {
               <BarChart3 className="h-8 w-8 text-indigo-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Avg Market Share</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.averageMarketShare}%</p>
-              <p className="text-sm text-indigo-600">Industry average</p>
+              <p className="text-sm font-medium text-gray-500">Corridor Breaches</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.corridorBreaches}</p>
+              <p className="text-sm text-indigo-600">Stores outside agreed prices</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Price Index */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Price Index vs Competitors</h3>
+            <p className="text-sm text-gray-500">Our shelf price / competitor price paid x 100; above 100 we are dearer</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={indexSku}
+              onChange={(e) => setIndexSku(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="all">All our SKUs</option>
+              {ownSkus.map(sku => <option key={sku.sku} value={sku.sku}>{sku.name}</option>)}
+            </select>
+            {(['retailer', 'area'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setIndexBy(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium capitalize ${indexBy === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {option}
+              </button>
+            ))}
+            {(['week', 'month'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium capitalize ${granularity === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {option}ly
+              </button>
+            ))}
+          </div>
+        </div>
+        <PriceIndexChart series={indexSeries} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Corridor Breaches */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Price Corridor Breaches</h3>
+          </div>
+          {breaches.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">All stores are inside their agreed price corridors.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {breaches.map(breach => (
+                <li key={`${breach.workplaceId}-${breach.ownSku}`} className="px-6 py-3 flex items-start">
+                  <AlertTriangle className="h-4 w-4 text-red-600 mr-2 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900">{breach.workplaceName} · {breach.ownName}</div>
+                    <div className="text-gray-600">
+                      €{breach.ownPrice} is €{breach.deviation} {breach.direction} the €{breach.minPrice}–€{breach.maxPrice} corridor
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {breach.retailer} · {breach.areaName} · {new Date(breach.observedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="px-6 py-4 border-t border-gray-200">
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Agreed Corridors</h4>
+            <ul className="space-y-1 mb-3">
+              {corridors.map(corridor => (
+                <li key={corridor.id} className="flex items-center justify-between text-sm text-gray-700">
+                  <span>{corridor.ownName} · {corridor.retailer || 'All retailers'}: €{corridor.minPrice}–€{corridor.maxPrice}</span>
+                  <button
+                    onClick={() => setPricingState(state => ({ ...state, corridors: state.corridors.filter(existing => existing.id !== corridor.id) }))}
+                    className="text-red-600 hover:text-red-900"
+                    aria-label={`Remove corridor ${corridor.ownName} ${corridor.retailer || ''}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={corridorForm.ownSku}
+                onChange={(e) => setCorridorForm({ ...corridorForm, ownSku: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {ownSkus.map(sku => <option key={sku.sku} value={sku.sku}>{sku.name}</option>)}
+              </select>
+              <select
+                value={corridorForm.retailer}
+                onChange={(e) => setCorridorForm({ ...corridorForm, retailer: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="">All retailers</option>
+                {Array.from(new Set(WORKPLACES.map(workplace => workplace.retailer))).map(retailer => (
+                  <option key={retailer} value={retailer}>{retailer}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={corridorForm.minPrice}
+                placeholder="Min €"
+                onChange={(e) => setCorridorForm({ ...corridorForm, minPrice: e.target.value })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+              <input
+                type="number"
+                min={0}
+                value={corridorForm.maxPrice}
+                placeholder="Max €"
+                onChange={(e) => setCorridorForm({ ...corridorForm, maxPrice: e.target.value })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+              <button onClick={handleAddCorridor} className="btn-secondary flex items-center space-x-1 text-sm">
+                <Plus className="h-4 w-4" />
+                <span>Set Corridor</span>
+              </button>
+            </div>
+            {corridorError && <p className="text-sm text-red-600 mt-2">{corridorError}</p>}
+          </div>
+        </div>
+
+        {/* Promotions */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Competitor Promotions</h3>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Brand</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Promotion</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mechanics</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Our Facing Share</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {promoSummaries.map(summary => (
+                <tr key={summary.competitorBrand}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{summary.competitorBrand}</div>
+                    <div className="text-xs text-gray-500">{summary.observations} prices</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{summary.promoShare}%</div>
+                    {summary.averageDiscount > 0 && (
+                      <div className="text-xs text-gray-500">avg {summary.averageDiscount}% off</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {Object.entries(summary.mechanics)
+                      .map(([mechanic, count]) => `${getMechanicLabel(mechanic as PromoMechanic)} (${count})`)
+                      .join(', ') || '–'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{summary.ownFacingShare}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -475,6 +971,58 @@ const CompetitorAnalysis: React.FC = () => {
         </div>
       </div>
 
+      {/* Record Prices Modal */}
+      {showPriceModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-4xl shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Record Competitor Prices</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Workplace</label>
+                <select
+                  value={priceWorkplace}
+                  onChange={(e) => {
+                    setPriceWorkplace(e.target.value);
+                    setPriceAnswers({});
+                    setPriceErrors([]);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {WORKPLACES.map(workplace => (
+                    <option key={workplace.id} value={workplace.id}>{workplace.name} ({workplace.code})</option>
+                  ))}
+                </select>
+              </div>
+              {priceQuestion && (
+                <CompetitorPriceInput
+                  config={priceQuestion.merchandisingConfig?.competitorAnalysis}
+                  pricing={priceQuestion.merchandisingConfig?.pricingVerification}
+                  retailer={priceWorkplaceEntry?.retailer}
+                  value={priceAnswers[priceQuestion.id]}
+                  onChange={(prices) => setPriceAnswers({ [priceQuestion.id]: prices })}
+                />
+              )}
+              {priceErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc list-inside">
+                  {priceErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                onClick={() => setShowPriceModal(false)}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSavePrices} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                Save Prices
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add/Edit Modal Placeholder */}
       {showAddModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Plus,
   Pencil,
@@ -16,8 +16,34 @@ import {
   Calendar,
   BarChart3,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  ShieldAlert
 } from 'lucide-react';
+import { CertificationViolation } from '../../types';
+import {
+  checkAssignmentCertification,
+  describeViolation,
+  INITIAL_TRAINING_STATE,
+  loadTrainingState
+} from '../../services/trainingCurriculum';
+
+const EMPLOYEES = [
+  { id: 'emp001', name: 'John Doe', email: 'john.doe@company.com', phone: '+49 123 456 789', role: 'Promoter' },
+  { id: 'emp002', name: 'Jane Smith', email: 'jane.smith@company.com', phone: '+49 987 654 321', role: 'Merchandiser' },
+  { id: 'emp003', name: 'Mike Johnson', email: 'mike.johnson@company.com', phone: '+49 555 123 456', role: 'Promoter' }
+];
+
+const WORKPLACES = [
+  { id: '1', name: 'BIG ONE Handels GmbH/ Os...', code: '20311' },
+  { id: '2', name: '#SamsungZeil (Showcase)/ Fra...', code: '15235' },
+  { id: '3', name: '3K-Kuechen Esslingen/ Essling...', code: '25280' }
+];
+
+const EMPTY_FORM = { employeeId: '', workplaceId: '', assignmentType: 'full-time', startDate: '', endDate: '', notes: '' };
+
+// Certificates are checked on the assignment's start date, or today once it has started
+const getCheckDate = (startDate: string, now: Date) =>
+  startDate && new Date(startDate) > now ? new Date(startDate) : now;
 
 /**
  * Employee Assignment Management Component
@@ -29,6 +55,8 @@ import {
  * - Analytics and reporting
  * - Assignment scheduling
  * - Performance tracking
+ * - Blocks assignments to workplaces whose brand certificate the employee
+ *   is missing or has let expire
  */
 const EmployeeAssignmentManagement: React.FC = () => {
   const [assignments, setAssignments] = useState([
@@ -129,6 +157,9 @@ const EmployeeAssignmentManagement: React.FC = () => {
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingAssignment, setEditingAssignment] = useState<any>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [training] = useState(() => loadTrainingState(INITIAL_TRAINING_STATE));
+  const [now] = useState(() => new Date());
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterRole, setFilterRole] = useState<string>('all');
@@ -151,16 +182,81 @@ const EmployeeAssignmentManagement: React.FC = () => {
     averagePerformance: 87.5
   };
 
+  const getViolations = (employeeId: string, workplaceId: string, startDate: string): CertificationViolation[] =>
+    employeeId && workplaceId
+      ? checkAssignmentCertification(employeeId, workplaceId, training.rules, training.certificates, getCheckDate(startDate, now))
+      : [];
+
+  const assignmentViolations = useMemo(() => new Map(assignments.map(assignment => [
+    assignment.id,
+    assignment.status === 'completed' || assignment.status === 'inactive'
+      ? []
+      : checkAssignmentCertification(assignment.employeeId, assignment.workplaceId, training.rules, training.certificates, getCheckDate(assignment.startDate, now))
+  ])), [assignments, training, now]);
+
+  const formViolations = getViolations(form.employeeId, form.workplaceId, form.startDate);
+
   const handleAddAssignment = () => {
     setEditingAssignment(null);
+    setForm(EMPTY_FORM);
     setShowAddModal(true);
   };
 
   const handleEdit = (assignment: any) => {
     setEditingAssignment(assignment);
+    setForm({
+      employeeId: assignment.employeeId,
+      workplaceId: assignment.workplaceId,
+      assignmentType: assignment.assignmentType,
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      notes: assignment.notes
+    });
     setShowAddModal(true);
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const employee = EMPLOYEES.find(candidate => candidate.id === form.employeeId);
+    const workplace = WORKPLACES.find(candidate => candidate.id === form.workplaceId);
+    if (!employee || !workplace || !form.startDate || formViolations.length) return;
+
+    const timestamp = new Date().toISOString();
+    const details = {
+      employeeId: employee.id,
+      employeeName: employee.name,
+      employeeEmail: employee.email,
+      employeePhone: employee.phone,
+      employeeRole: employee.role,
+      workplaceId: workplace.id,
+      workplaceName: workplace.name,
+      workplaceCode: workplace.code,
+      assignmentType: form.assignmentType,
+      startDate: form.startDate,
+      endDate: form.endDate,
+      notes: form.notes,
+      updatedAt: timestamp
+    };
+    if (editingAssignment) {
+      setAssignments(assignments.map(a => a.id === editingAssignment.id ? { ...a, ...details } : a));
+    } else {
+      setAssignments([...assignments, {
+        ...details,
+        id: Date.now().toString(),
+        status: 'pending',
+        performance: { visitsCompleted: 0, totalVisits: 0, completionRate: 0, averageRating: 0, lastVisit: null },
+        schedule: {
+          workDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+          startTime: '09:00',
+          endTime: '17:00',
+          breakDuration: 60
+        },
+        createdAt: timestamp
+      }]);
+    }
+    setShowAddModal(false);
+  };
+
   const handleDelete = (assignmentId: string) => {
     setAssignments(assignments.filter(a => a.id !== assignmentId));
   };
@@ -458,6 +554,12 @@ const EmployeeAssignmentManagement: React.FC = () => {
                       {getStatusIcon(assignment.status)}
                       <span className="ml-1">{assignment.status}</span>
                     </span>
+                    {assignmentViolations.get(assignment.id)?.map(violation => (
+                      <div key={violation.ruleId} className="flex items-center text-xs text-red-600 mt-1">
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                        {describeViolation(violation)}
+                      </div>
+                    ))}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
@@ -496,30 +598,42 @@ const EmployeeAssignmentManagement: React.FC = () => {
               <h3 className="text-lg font-medium text-gray-900 mb-4">
                 {editingAssignment ? 'Edit Assignment' : 'Add Assignment'}
               </h3>
-              <form className="space-y-4">
+              <form className="space-y-4" onSubmit={handleSubmit}>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Employee</label>
-                  <select className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500">
-                    <option>Select Employee</option>
-                    <option>John Doe (Promoter)</option>
-                    <option>Jane Smith (Merchandiser)</option>
-                    <option>Mike Johnson (Promoter)</option>
+                  <select
+                    value={form.employeeId}
+                    onChange={(e) => setForm({ ...form, employeeId: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select Employee</option>
+                    {EMPLOYEES.map(employee => (
+                      <option key={employee.id} value={employee.id}>{employee.name} ({employee.role})</option>
+                    ))}
                   </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Workplace</label>
-                  <select className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500">
-                    <option>Select Workplace</option>
-                    <option>BIG ONE Handels GmbH/ Os...</option>
-                    <option>#SamsungZeil (Showcase)/ Fra...</option>
-                    <option>3K-Kuechen Esslingen/ Essling...</option>
+                  <select
+                    value={form.workplaceId}
+                    onChange={(e) => setForm({ ...form, workplaceId: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select Workplace</option>
+                    {WORKPLACES.map(workplace => (
+                      <option key={workplace.id} value={workplace.id}>{workplace.name}</option>
+                    ))}
                   </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Assignment Type</label>
-                  <select className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500">
-                    <option>Full-time</option>
-                    <option>Part-time</option>
+                  <select
+                    value={form.assignmentType}
+                    onChange={(e) => setForm({ ...form, assignmentType: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="full-time">Full-time</option>
+                    <option value="part-time">Part-time</option>
                   </select>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
@@ -527,6 +641,8 @@ const EmployeeAssignmentManagement: React.FC = () => {
                     <label className="block text-sm font-medium text-gray-700">Start Date</label>
                     <input
                       type="date"
+                      value={form.startDate}
+                      onChange={(e) => setForm({ ...form, startDate: e.target.value })}
                       className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
@@ -534,6 +650,8 @@ const EmployeeAssignmentManagement: React.FC = () => {
                     <label className="block text-sm font-medium text-gray-700">End Date</label>
                     <input
                       type="date"
+                      value={form.endDate}
+                      onChange={(e) => setForm({ ...form, endDate: e.target.value })}
                       className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
@@ -541,11 +659,26 @@ const EmployeeAssignmentManagement: React.FC = () => {
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Notes</label>
                   <textarea
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
                     className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
                     rows={3}
                     placeholder="Additional notes..."
                   />
                 </div>
+                {formViolations.length > 0 && (
+                  <div className="p-3 rounded-md bg-red-50 border border-red-200">
+                    <div className="flex items-center text-sm font-medium text-red-800">
+                      <ShieldAlert className="h-4 w-4 mr-2" />
+                      Certification required for this workplace
+                    </div>
+                    <ul className="mt-1 text-sm text-red-700 list-disc list-inside">
+                      {formViolations.map(violation => (
+                        <li key={violation.ruleId}>{describeViolation(violation)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
@@ -556,7 +689,8 @@ const EmployeeAssignmentManagement: React.FC = () => {
                   </button>
                   <button
                     type="submit"
-                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                    disabled={!form.employeeId || !form.workplaceId || !form.startDate || formViolations.length > 0}
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
                   >
                     {editingAssignment ? 'Update' : 'Create'}
                   </button>
@@ -1,208 +1,292 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Plus,
-  Pencil,
   Trash2,
   AlertTriangle,
   Search,
-  Filter,
   Download,
   CheckCircle,
   XCircle,
   Clock,
   Eye,
-  RefreshCw,
-  Shield,
-  FileText,
-  Users,
-  BarChart3,
-  TrendingUp,
   Target,
-  Calendar,
-  MapPin
+  MapPin,
+  Camera,
+  ArrowUpCircle,
+  ShieldCheck
 } from 'lucide-react';
+import { Area, Incident, IncidentSeverity, IncidentSlaState, IncidentStatus } from '../../types';
+import {
+  attachEvidence,
+  DEFAULT_SLA_POLICIES,
+  escalateBreachedIncidents,
+  getAverageResolutionHours,
+  getIncidentSla,
+  getNextStatuses,
+  IncidentReport,
+  IncidentState,
+  INCIDENT_STATUSES,
+  loadIncidentState,
+  reportIncident,
+  saveIncidentState,
+  transitionIncident
+} from '../../services/incidentLifecycle';
+import { formatCsv } from '../../services/spreadsheet';
+import { useAuth } from '../../contexts/AuthContext';
 
-/**
- * Incident Management Component
- * 
- * This component provides comprehensive incident management functionality including:
- * - Handle workplace incidents and issues
- * - Incident reporting and tracking
- * - Resolution management and follow-up
- * - Safety incident monitoring
- * - Performance impact analysis
- * - Preventive measures tracking
- */
-const IncidentManagement: React.FC = () => {
-  const [incidents, setIncidents] = useState([
-    {
-      id: '1',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
+const AREAS: Area[] = [
+  { id: '1', name: 'Downtown Area', managerId: 'm-3', managerName: 'Sarah Wilson', isActive: true, createdBy: 'admin', createdAt: '2025-01-15T00:00:00Z', updatedAt: '2025-01-15T00:00:00Z' },
+  { id: '2', name: 'Industrial Zone', managerId: 'm-5', managerName: 'David Brown', isActive: true, createdBy: 'admin', createdAt: '2025-01-15T00:00:00Z', updatedAt: '2025-01-15T00:00:00Z' }
+];
+
+const WORKPLACES = [
+  { id: '1', name: 'BIG ONE Handels GmbH/ Os...', code: '20311', areaId: '1' },
+  { id: '2', name: '#SamsungZeil (Showcase)/ Fra...', code: '15235', areaId: '2' },
+  { id: '3', name: '3K-Kuechen Esslingen/ Essling...', code: '25280', areaId: '1' }
+];
+
+const INCIDENT_TYPES = ['Safety Incident', 'Equipment Failure', 'Customer Complaint', 'Security Issue'];
+const SEVERITIES: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const STATUS_ACTIONS: Record<IncidentStatus, string> = {
+  reported: 'Report',
+  triaged: 'Triage',
+  assigned: 'Assign',
+  resolved: 'Resolve',
+  verified: 'Verify'
+};
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const toReport = (id: string, workplaceId: string, fields: Pick<IncidentReport, 'incidentType' | 'severity' | 'title' | 'description'>): IncidentReport => {
+  const workplace = WORKPLACES.find(candidate => candidate.id === workplaceId)!;
+  const area = AREAS.find(candidate => candidate.id === workplace.areaId)!;
+  return {
+    id,
+    workplaceId,
+    workplaceName: workplace.name,
+    workplaceCode: workplace.code,
+    areaId: area.id,
+    areaName: area.name,
+    ...fields
+  };
+};
+
+// Recent incidents at different stages until the incidents API exists
+const INITIAL_INCIDENTS: Incident[] = [
+  (() => {
+    let incident = reportIncident(toReport('1', '1', {
       incidentType: 'Safety Incident',
       severity: 'medium',
-      status: 'resolved',
       title: 'Minor slip and fall in electronics section',
-      description: 'Customer slipped on wet floor near the TV display area. No injuries reported.',
-      reportedBy: 'John Doe',
-      reportedDate: '2025-01-15T10:30:00Z',
-      resolvedDate: '2025-01-15T14:00:00Z',
-      assignedTo: 'Store Manager',
-      priority: 'medium',
-      impact: {
-        customers: 0,
-        employees: 0,
-        operations: 'minimal',
-        financial: 0
-      },
-      actions: [
-        {
-          id: 'act1',
-          description: 'Immediately cleaned and dried the floor',
-          completedBy: 'Maintenance Staff',
-          completedDate: '2025-01-15T11:00:00Z',
-          status: 'completed'
-        },
-        {
-          id: 'act2',
-          description: 'Added warning signs in the area',
-          completedBy: 'Store Manager',
-          completedDate: '2025-01-15T11:30:00Z',
-          status: 'completed'
-        }
-      ],
-      preventiveMeasures: [
-        'Regular floor inspection schedule',
-        'Improved cleaning procedures',
-        'Better signage placement'
-      ],
-      notes: 'Incident resolved quickly with no lasting impact',
-      createdAt: '2025-01-15T10:30:00Z',
-      updatedAt: '2025-01-15T14:00:00Z'
-    },
-    {
-      id: '2',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
+      description: 'Customer slipped on wet floor near the TV display area. No injuries reported.'
+    }), 'John Doe', hoursAgo(72));
+    incident = transitionIncident(incident, 'triaged', { by: 'Store Manager' }, hoursAgo(71.5));
+    incident = transitionIncident(incident, 'assigned', { by: 'Store Manager', assignee: 'Maintenance Staff' }, hoursAgo(71));
+    incident = transitionIncident(incident, 'resolved', { by: 'Maintenance Staff', note: 'Floor dried and warning signs placed' }, hoursAgo(68.5));
+    return transitionIncident(incident, 'verified', { by: 'Store Manager' }, hoursAgo(68));
+  })(),
+  (() => {
+    let incident = reportIncident(toReport('2', '2', {
       incidentType: 'Equipment Failure',
       severity: 'high',
-      status: 'in-progress',
       title: 'Display screen malfunction during demo',
-      description: 'Main demonstration screen stopped working during peak hours, affecting customer experience.',
-      reportedBy: 'Jane Smith',
-      reportedDate: '2025-01-14T15:45:00Z',
-      resolvedDate: null,
-      assignedTo: 'Technical Support',
-      priority: 'high',
-      impact: {
-        customers: 25,
-        employees: 2,
-        operations: 'moderate',
-        financial: 500
-      },
-      actions: [
-        {
-          id: 'act3',
-          description: 'Contacted technical support',
-          completedBy: 'Jane Smith',
-          completedDate: '2025-01-14T16:00:00Z',
-          status: 'completed'
-        },
-        {
-          id: 'act4',
-          description: 'Schedule repair visit',
-          completedBy: 'Technical Support',
-          completedDate: null,
-          status: 'pending'
-        }
-      ],
-      preventiveMeasures: [
-        'Regular equipment maintenance',
-        'Backup display systems',
-        'Staff training on basic troubleshooting'
-      ],
-      notes: 'Technical support scheduled for tomorrow',
-      createdAt: '2025-01-14T15:45:00Z',
-      updatedAt: '2025-01-14T16:00:00Z'
-    },
-    {
-      id: '3',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      incidentType: 'Customer Complaint',
-      severity: 'low',
-      status: 'open',
-      title: 'Product demonstration scheduling issue',
-      description: 'Customer complained about difficulty scheduling kitchen appliance demonstration.',
-      reportedBy: 'Mike Johnson',
-      reportedDate: '2025-01-15T09:15:00Z',
-      resolvedDate: null,
-      assignedTo: 'Customer Service',
-      priority: 'low',
-      impact: {
-        customers: 1,
-        employees: 0,
-        operations: 'minimal',
-        financial: 0
-      },
-      actions: [
-        {
-          id: 'act5',
-          description: 'Review scheduling system',
-          completedBy: 'Customer Service',
-          completedDate: null,
-          status: 'in-progress'
-        }
-      ],
-      preventiveMeasures: [
-        'Improve online booking system',
-        'Better staff training on scheduling',
-        'Enhanced customer communication'
-      ],
-      notes: 'Customer service team investigating the issue',
-      createdAt: '2025-01-15T09:15:00Z',
-      updatedAt: '2025-01-15T09:15:00Z'
-    }
-  ]);
+      description: 'Main demonstration screen stopped working during peak hours, affecting customer experience.'
+    }), 'Jane Smith', hoursAgo(20));
+    incident = attachEvidence(incident, {
+      id: '2-e1',
+      type: 'photo',
+      url: 'https://images.unsplash.com/photo-1593784991095-a205069470b6?w=400',
+      location: { latitude: 50.1141, longitude: 8.6799, accuracy: 12 },
+      caption: 'Black screen on the main demo wall',
+      source: 'mobile',
+      capturedBy: 'Jane Smith',
+      capturedAt: hoursAgo(19.9).toISOString()
+    });
+    incident = transitionIncident(incident, 'triaged', { by: 'Area Lead' }, hoursAgo(19));
+    return transitionIncident(incident, 'assigned', { by: 'Area Lead', assignee: 'Technical Support' }, hoursAgo(18));
+  })(),
+  reportIncident(toReport('3', '3', {
+    incidentType: 'Customer Complaint',
+    severity: 'low',
+    title: 'Product demonstration scheduling issue',
+    description: 'Customer complained about difficulty scheduling kitchen appliance demonstration.'
+  }), 'Mike Johnson', hoursAgo(30))
+];
+
+const EMPTY_REPORT = { workplaceId: WORKPLACES[0].id, incidentType: INCIDENT_TYPES[0], severity: 'medium' as IncidentSeverity, title: '', description: '' };
+
+/**
+ * Incident Management Component
+ *
+ * This component provides comprehensive incident management functionality including:
+ * - Handle workplace incidents and issues
+ * - Lifecycle from reported through triaged, assigned and resolved to verified
+ * - SLA clocks per severity with escalation to the area manager
+ * - Photo and GPS evidence from the mobile app
+ * - Timeline of every status change
+ */
+const IncidentManagement: React.FC = () => {
+  const { user } = useAuth();
+  const actor = user?.name || user?.email || 'Unknown user';
+  const [incidentState, setIncidentState] = useState<IncidentState>(() =>
+    loadIncidentState({ incidents: INITIAL_INCIDENTS, policies: DEFAULT_SLA_POLICIES })
+  );
+  const { incidents, policies } = incidentState;
+  const [now, setNow] = useState(() => new Date());
 
   const [showAddModal, setShowAddModal] = useState(false);
-  const [editingIncident, setEditingIncident] = useState<any>(null);
+  const [newReport, setNewReport] = useState(EMPTY_REPORT);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [assignee, setAssignee] = useState('');
+  const [stepNote, setStepNote] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterSeverity, setFilterSeverity] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
 
+  useEffect(() => {
+    saveIncidentState(incidentState);
+  }, [incidentState]);
+
+  // Keep SLA clocks ticking
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Escalate breached incidents to their area manager
+  useEffect(() => {
+    setIncidentState(state => {
+      const result = escalateBreachedIncidents(state.incidents, AREAS, state.policies, now);
+      return result.escalated.length ? { ...state, incidents: result.incidents } : state;
+    });
+  }, [now, policies]);
+
+  const slaStates = useMemo(
+    () => new Map(incidents.map(incident => [incident.id, getIncidentSla(incident, policies, now)])),
+    [incidents, policies, now]
+  );
+
+  const selectedIncident = incidents.find(incident => incident.id === selectedId) || null;
+
   // Dashboard statistics
-  const dashboardStats = {
-    totalIncidents: 45,
-    openIncidents: 12,
-    resolvedIncidents: 28,
-    inProgressIncidents: 5,
-    averageResolutionTime: 4.2, // hours
-    incidentsBySeverity: {
-      low: 15,
-      medium: 20,
-      high: 10
-    },
-    safetyIncidents: 8,
-    customerComplaints: 22
+  const dashboardStats = useMemo(() => {
+    const open = incidents.filter(incident => incident.status !== 'resolved' && incident.status !== 'verified');
+    return {
+      totalIncidents: incidents.length,
+      openIncidents: open.length,
+      breachedIncidents: open.filter(incident => slaStates.get(incident.id)!.status === 'breached').length,
+      escalatedIncidents: open.filter(incident => incident.escalations.length > 0).length,
+      averageResolutionTime: getAverageResolutionHours(incidents)
+    };
+  }, [incidents, slaStates]);
+
+  // Check the change against what is on screen, then apply it to the latest state
+  const updateIncident = (incidentId: string, change: (incident: Incident) => Incident) => {
+    const current = incidents.find(incident => incident.id === incidentId);
+    if (!current) return false;
+    try {
+      change(current);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+    setIncidentState(state => ({
+      ...state,
+      incidents: state.incidents.map(incident => (incident.id === incidentId ? change(incident) : incident))
+    }));
+    setActionError(null);
+    return true;
   };
 
   const handleAddIncident = () => {
-    setEditingIncident(null);
+    setNewReport(EMPTY_REPORT);
+    setActionError(null);
     setShowAddModal(true);
   };
 
-  const handleEdit = (incident: any) => {
-    setEditingIncident(incident);
-    setShowAddModal(true);
+  const handleReport = () => {
+    try {
+      const incident = reportIncident(
+        toReport(`inc-${Date.now()}`, newReport.workplaceId, newReport),
+        actor
+      );
+      setIncidentState(state => ({ ...state, incidents: [incident, ...state.incidents] }));
+      setShowAddModal(false);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleOpen = (incident: Incident) => {
+    setSelectedId(incident.id);
+    setAssignee(incident.assignedTo || '');
+    setStepNote('');
+    setActionError(null);
+  };
+
+  const handleTransition = (incident: Incident, to: IncidentStatus) => {
+    const changedAt = new Date();
+    if (updateIncident(incident.id, current => transitionIncident(current, to, { by: actor, assignee, note: stepNote }, changedAt))) {
+      setStepNote('');
+    }
+  };
+
+  const handleAddPhoto = async (incident: Incident, files: FileList | null) => {
+    const capturedAt = new Date().toISOString();
+    let urls: Array<{ url: string; caption: string }>;
+    try {
+      // Evidence is saved with the incident, so keep the image data rather than a page-local blob URL
+      urls = await Promise.all(Array.from(files || []).map(async file => ({ url: await readFileAsDataUrl(file), caption: file.name })));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    updateIncident(incident.id, current => urls.reduce((next, photo) => attachEvidence(next, {
+      id: `${next.id}-e${next.evidence.length + 1}`,
+      type: 'photo',
+      ...photo,
+      source: 'web',
+      capturedBy: actor,
+      capturedAt
+    }), current));
+  };
+
+  const handleAddLocation = (incident: Incident) => {
+    navigator.geolocation?.getCurrentPosition(position => {
+      const capturedAt = new Date().toISOString();
+      updateIncident(incident.id, current => attachEvidence(current, {
+        id: `${current.id}-e${current.evidence.length + 1}`,
+        type: 'location',
+        location: { latitude: position.coords.latitude, longitude: position.coords.longitude, accuracy: position.coords.accuracy },
+        source: 'web',
+        capturedBy: actor,
+        capturedAt
+      }));
+    });
+  };
+
+  const handlePolicyChange = (severity: IncidentSeverity, field: 'responseHours' | 'resolutionHours', value: string) => {
+    const hours = Number(value);
+    if (!(hours > 0)) return;
+    setIncidentState(state => ({
+      ...state,
+      policies: state.policies.map(policy => (policy.severity === severity ? { ...policy, [field]: hours } : policy))
+    }));
   };
 
   const handleDelete = (incidentId: string) => {
-    setIncidents(incidents.filter(i => i.id !== incidentId));
+    setIncidentState(state => ({ ...state, incidents: state.incidents.filter(i => i.id !== incidentId) }));
   };
 
   const getSeverityColor = (severity: string) => {
@@ -227,34 +311,48 @@ const IncidentManagement: React.FC = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'open': return 'text-red-600 bg-red-100';
-      case 'in-progress': return 'text-blue-600 bg-blue-100';
+      case 'reported': return 'text-red-600 bg-red-100';
+      case 'triaged': return 'text-orange-600 bg-orange-100';
+      case 'assigned': return 'text-blue-600 bg-blue-100';
       case 'resolved': return 'text-green-600 bg-green-100';
-      case 'closed': return 'text-gray-600 bg-gray-100';
+      case 'verified': return 'text-gray-600 bg-gray-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'open': return <AlertTriangle className="h-4 w-4" />;
-      case 'in-progress': return <Clock className="h-4 w-4" />;
+      case 'reported': return <AlertTriangle className="h-4 w-4" />;
+      case 'triaged': return <Eye className="h-4 w-4" />;
+      case 'assigned': return <Clock className="h-4 w-4" />;
       case 'resolved': return <CheckCircle className="h-4 w-4" />;
-      case 'closed': return <XCircle className="h-4 w-4" />;
+      case 'verified': return <ShieldCheck className="h-4 w-4" />;
       default: return <AlertTriangle className="h-4 w-4" />;
     }
   };
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'low': return 'text-green-600';
-      case 'medium': return 'text-orange-600';
-      case 'high': return 'text-red-600';
-      case 'critical': return 'text-purple-600';
+  const getSlaColor = (sla: IncidentSlaState) => {
+    switch (sla.status) {
+      case 'on-track': return 'text-green-600';
+      case 'at-risk': return 'text-orange-600';
+      case 'breached': return 'text-red-600';
       default: return 'text-gray-600';
     }
   };
 
+  const formatRemaining = (minutes: number) => {
+    const absolute = Math.abs(minutes);
+    const text = absolute >= 60 * 24
+      ? `${Math.floor(absolute / (60 * 24))}d ${Math.floor((absolute % (60 * 24)) / 60)}h`
+      : `${Math.floor(absolute / 60)}h ${absolute % 60}m`;
+    return minutes < 0 ? `${text} over` : `${text} left`;
+  };
+
+  const formatSla = (sla: IncidentSlaState) => {
+    if (sla.stage === 'done') return sla.status === 'met' ? 'Resolved within SLA' : 'Resolved after SLA';
+    return `${sla.stage === 'response' ? 'Response' : 'Resolution'}: ${formatRemaining(sla.remainingMinutes)}`;
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -268,14 +366,41 @@ const IncidentManagement: React.FC = () => {
     const matchesSearch = incident.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          incident.workplaceName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          incident.reportedBy.toLowerCase().includes(searchTerm.toLowerCase());
-    
+
     const matchesStatus = filterStatus === 'all' || incident.status === filterStatus;
     const matchesSeverity = filterSeverity === 'all' || incident.severity === filterSeverity;
     const matchesType = filterType === 'all' || incident.incidentType === filterType;
-    
+
     return matchesSearch && matchesStatus && matchesSeverity && matchesType;
   });
 
+  const handleExport = () => {
+    const csv = formatCsv([
+      ['ID', 'Workplace', 'Area', 'Type', 'Severity', 'Status', 'Title', 'Reported by', 'Reported at', 'Assigned to', 'SLA', 'Escalated to'],
+      ...filteredIncidents.map(incident => [
+        incident.id,
+        incident.workplaceCode,
+        incident.areaName,
+        incident.incidentType,
+        incident.severity,
+        incident.status,
+        incident.title,
+        incident.reportedBy,
+        incident.reportedAt,
+        incident.assignedTo || '',
+        formatSla(slaStates.get(incident.id)!),
+        incident.escalations.map(escalation => escalation.escalatedToName).join('; ')
+      ])
+    ]);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `incidents-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -285,7 +410,10 @@ const IncidentManagement: React.FC = () => {
           <p className="text-gray-600">Handle workplace incidents and issues</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
             <Download className="h-4 w-4 mr-2" />
             Export Report
           </button>
@@ -309,7 +437,7 @@ const IncidentManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Incidents</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.totalIncidents}</p>
-              <p className="text-sm text-blue-600">This month</p>
+              <p className="text-sm text-blue-600">{dashboardStats.openIncidents} open</p>
             </div>
           </div>
         </div>
@@ -317,12 +445,12 @@ const IncidentManagement: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <Clock className="h-8 w-8 text-orange-600" />
+              <Clock className="h-8 w-8 text-red-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Open Incidents</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.openIncidents}</p>
-              <p className="text-sm text-orange-600">Require attention</p>
+              <p className="text-sm font-medium text-gray-500">SLA Breached</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.breachedIncidents}</p>
+              <p className="text-sm text-red-600">Open past their SLA</p>
             </div>
           </div>
         </div>
@@ -330,12 +458,12 @@ const IncidentManagement: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <CheckCircle className="h-8 w-8 text-green-600" />
+              <ArrowUpCircle className="h-8 w-8 text-orange-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Resolved</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.resolvedIncidents}</p>
-              <p className="text-sm text-green-600">Successfully closed</p>
+              <p className="text-sm font-medium text-gray-500">Escalated</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.escalatedIncidents}</p>
+              <p className="text-sm text-orange-600">With area managers</p>
             </div>
           </div>
         </div>
@@ -347,13 +475,50 @@ const IncidentManagement: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Avg Resolution</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.averageResolutionTime}h</p>
-              <p className="text-sm text-indigo-600">Time to resolve</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {dashboardStats.averageResolutionTime === null ? '–' : `${dashboardStats.averageResolutionTime}h`}
+              </p>
+              <p className="text-sm text-indigo-600">Report to resolution</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* SLA Targets */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">SLA Targets</h3>
+        <p className="text-sm text-gray-500 mb-4">Hours from the report; breached incidents escalate to the area manager</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {policies.map(policy => (
+            <div key={policy.severity} className="space-y-2">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getSeverityColor(policy.severity)}`}>
+                {policy.severity}
+              </span>
+              <label className="flex items-center justify-between text-sm text-gray-700">
+                <span>Assign within</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={policy.responseHours}
+                  onChange={(e) => handlePolicyChange(policy.severity, 'responseHours', e.target.value)}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex items-center justify-between text-sm text-gray-700">
+                <span>Resolve within</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={policy.resolutionHours}
+                  onChange={(e) => handlePolicyChange(policy.severity, 'resolutionHours', e.target.value)}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -379,10 +544,9 @@ const IncidentManagement: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Status</option>
-              <option value="open">Open</option>
-              <option value="in-progress">In Progress</option>
-              <option value="resolved">Resolved</option>
-              <option value="closed">Closed</option>
+              {INCIDENT_STATUSES.map(status => (
+                <option key={status} value={status} className="capitalize">{status}</option>
+              ))}
             </select>
           </div>
 
@@ -409,10 +573,9 @@ const IncidentManagement: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Types</option>
-              <option value="Safety Incident">Safety Incident</option>
-              <option value="Equipment Failure">Equipment Failure</option>
-              <option value="Customer Complaint">Customer Complaint</option>
-              <option value="Security Issue">Security Issue</option>
+              {INCIDENT_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -421,13 +584,7 @@ const IncidentManagement: React.FC = () => {
       {/* Incidents List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
-          <div className="flex items-center justify-between">
-            <h3 className="text-lg font-medium text-gray-900">Incident Reports</h3>
-            <button className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
-              <Download className="h-4 w-4 mr-1" />
-              Export
-            </button>
-          </div>
+          <h3 className="text-lg font-medium text-gray-900">Incident Reports</h3>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -437,97 +594,282 @@ const IncidentManagement: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workplace</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SLA</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned To</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reported</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredIncidents.map((incident) => (
-                <tr key={incident.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{incident.title}</div>
-                      <div className="text-sm text-gray-500">{incident.incidentType}</div>
-                      <div className="text-xs text-gray-400">Priority: <span className={getPriorityColor(incident.priority)}>{incident.priority}</span></div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{incident.workplaceName}</div>
-                      <div className="text-sm text-gray-500">{incident.workplaceCode}</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getSeverityColor(incident.severity)}`}>
-                      {getSeverityIcon(incident.severity)}
-                      <span className="ml-1">{incident.severity}</span>
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(incident.status)}`}>
-                      {getStatusIcon(incident.status)}
-                      <span className="ml-1">{incident.status}</span>
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{incident.assignedTo}</div>
-                    <div className="text-sm text-gray-500">by {incident.reportedBy}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{formatDate(incident.reportedDate)}</div>
-                    {incident.resolvedDate && (
-                      <div className="text-sm text-gray-500">Resolved: {formatDate(incident.resolvedDate)}</div>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleEdit(incident)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(incident.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                      <button className="text-gray-600 hover:text-gray-900">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+              {filteredIncidents.map((incident) => {
+                const sla = slaStates.get(incident.id)!;
+                const escalation = incident.escalations[incident.escalations.length - 1];
+                return (
+                  <tr key={incident.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{incident.title}</div>
+                        <div className="text-sm text-gray-500">{incident.incidentType}</div>
+                        {incident.evidence.length > 0 && (
+                          <div className="text-xs text-gray-400">{incident.evidence.length} evidence item(s)</div>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{incident.workplaceName}</div>
+                        <div className="text-sm text-gray-500">{incident.workplaceCode} · {incident.areaName}</div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getSeverityColor(incident.severity)}`}>
+                        {getSeverityIcon(incident.severity)}
+                        <span className="ml-1">{incident.severity}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(incident.status)}`}>
+                        {getStatusIcon(incident.status)}
+                        <span className="ml-1">{incident.status}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className={`text-sm font-medium ${getSlaColor(sla)}`}>{formatSla(sla)}</div>
+                      {escalation && (
+                        <div className="flex items-center text-xs text-orange-600">
+                          <ArrowUpCircle className="h-3 w-3 mr-1" />
+                          Escalated to {escalation.escalatedToName}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{incident.assignedTo || 'Unassigned'}</div>
+                      <div className="text-sm text-gray-500">by {incident.reportedBy}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatDate(incident.reportedAt)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleOpen(incident)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(incident.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
       </div>
 
-      {/* Add/Edit Modal Placeholder */}
+      {/* Incident Detail Modal */}
+      {selectedIncident && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white space-y-5">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{selectedIncident.title}</h3>
+                <p className="text-sm text-gray-500">
+                  {selectedIncident.incidentType} · {selectedIncident.workplaceName} ({selectedIncident.workplaceCode}) · {selectedIncident.areaName}
+                </p>
+              </div>
+              <button onClick={() => setSelectedId(null)} className="text-gray-500 hover:text-gray-700">
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-700">{selectedIncident.description}</p>
+
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(selectedIncident.status)}`}>
+                {getStatusIcon(selectedIncident.status)}
+                <span className="ml-1">{selectedIncident.status}</span>
+              </span>
+              <span className={getSlaColor(slaStates.get(selectedIncident.id)!)}>{formatSla(slaStates.get(selectedIncident.id)!)}</span>
+              {selectedIncident.assignedTo && <span className="text-gray-600">Assigned to {selectedIncident.assignedTo}</span>}
+            </div>
+
+            {selectedIncident.resolution && (
+              <div className="bg-green-50 rounded-md p-3 text-sm text-green-800">Resolution: {selectedIncident.resolution}</div>
+            )}
+
+            {/* Next step */}
+            {getNextStatuses(selectedIncident).length > 0 && (
+              <div className="bg-gray-50 rounded-md p-4 space-y-3">
+                <h4 className="text-sm font-medium text-gray-900">Next Step</h4>
+                {getNextStatuses(selectedIncident).includes('assigned') && (
+                  <input
+                    type="text"
+                    value={assignee}
+                    placeholder="Assignee"
+                    onChange={(e) => setAssignee(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                )}
+                <textarea
+                  value={stepNote}
+                  rows={2}
+                  placeholder={selectedIncident.status === 'assigned' ? 'How was it resolved?' : selectedIncident.status === 'resolved' ? 'Reason if the resolution is not accepted' : 'Note (optional)'}
+                  onChange={(e) => setStepNote(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {getNextStatuses(selectedIncident).map(status => (
+                    <button
+                      key={status}
+                      onClick={() => handleTransition(selectedIncident, status)}
+                      className={status === 'assigned' && selectedIncident.status !== 'triaged' ? 'btn-secondary text-sm' : 'btn-primary text-sm'}
+                    >
+                      {status === 'assigned' && selectedIncident.status === 'resolved'
+                        ? 'Reopen'
+                        : status === 'assigned' && selectedIncident.status === 'assigned' ? 'Reassign' : STATUS_ACTIONS[status]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+            {/* Evidence */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900">Evidence</h4>
+                {selectedIncident.status !== 'verified' && (
+                  <div className="flex items-center space-x-2">
+                    <label className="btn-secondary text-sm flex items-center space-x-1 cursor-pointer">
+                      <Camera size={14} />
+                      <span>Add Photo</span>
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => handleAddPhoto(selectedIncident, e.target.files)}
+                      />
+                    </label>
+                    <button onClick={() => handleAddLocation(selectedIncident)} className="btn-secondary text-sm flex items-center space-x-1">
+                      <MapPin size={14} />
+                      <span>Add GPS</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+              {selectedIncident.evidence.length === 0 ? (
+                <p className="text-sm text-gray-500">No evidence attached.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {selectedIncident.evidence.map(evidence => (
+                    <div key={evidence.id} className="border border-gray-200 rounded-md p-2 text-xs text-gray-600 space-y-1">
+                      {evidence.url && <img src={evidence.url} alt={evidence.caption || 'Incident evidence'} className="w-full h-24 object-cover rounded" />}
+                      {evidence.caption && <div className="text-gray-900">{evidence.caption}</div>}
+                      {evidence.location && (
+                        <div className="flex items-center">
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {evidence.location.latitude.toFixed(5)}, {evidence.location.longitude.toFixed(5)}
+                          {evidence.location.accuracy !== undefined && ` ±${Math.round(evidence.location.accuracy)}m`}
+                        </div>
+                      )}
+                      <div>{evidence.capturedBy} · {evidence.source} · {formatDate(evidence.capturedAt)}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Timeline */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Timeline</h4>
+              <ol className="border-l border-gray-200 space-y-3 ml-2">
+                {selectedIncident.timeline.map(entry => (
+                  <li key={entry.id} className="ml-4 text-sm">
+                    <div className="text-gray-900">
+                      {entry.type === 'status'
+                        ? entry.from ? `${entry.from} → ${entry.to}` : `Reported`
+                        : entry.type === 'escalation' ? 'Escalated' : entry.type === 'evidence' ? 'Evidence' : 'Note'}
+                      <span className="text-gray-500"> · {entry.by === 'system' ? 'System' : entry.by} · {formatDate(entry.at)}</span>
+                    </div>
+                    {entry.note && <div className="text-gray-600">{entry.note}</div>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Report Incident Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3 text-center">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">
-                {editingIncident ? 'Edit Incident' : 'Report Incident'}
-              </h3>
-              <p className="text-sm text-gray-500 mb-4">
-                {editingIncident ? 'Update incident details' : 'Report new workplace incident'}
-              </p>
-              <div className="flex justify-center space-x-4">
-                <button
-                  onClick={() => setShowAddModal(false)}
-                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Report Incident</h3>
+            <div className="space-y-3">
+              <select
+                value={newReport.workplaceId}
+                onChange={(e) => setNewReport({ ...newReport, workplaceId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {WORKPLACES.map(workplace => (
+                  <option key={workplace.id} value={workplace.id}>{workplace.name}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={newReport.incidentType}
+                  onChange={(e) => setNewReport({ ...newReport, incidentType: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 >
-                  Cancel
-                </button>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
-                  {editingIncident ? 'Update' : 'Report'}
-                </button>
+                  {INCIDENT_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <select
+                  value={newReport.severity}
+                  onChange={(e) => setNewReport({ ...newReport, severity: e.target.value as IncidentSeverity })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md capitalize"
+                >
+                  {SEVERITIES.map(severity => (
+                    <option key={severity} value={severity}>{severity}</option>
+                  ))}
+                </select>
               </div>
+              <input
+                type="text"
+                value={newReport.title}
+                placeholder="Title"
+                onChange={(e) => setNewReport({ ...newReport, title: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <textarea
+                value={newReport.description}
+                placeholder="What happened?"
+                rows={3}
+                onChange={(e) => setNewReport({ ...newReport, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+            </div>
+            <div className="flex justify-end space-x-4 mt-4">
+              <button
+                onClick={() => setShowAddModal(false)}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+              <button onClick={handleReport} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                Report
+              </button>
             </div>
           </div>
         </div>
@@ -536,4 +878,4 @@ const IncidentManagement: React.FC = () => {
   );
 };
 
-export default IncidentManagement; 
\ No newline at end of file
+export default IncidentManagement;
@@ -1,147 +1,261 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Plus,
   Pencil,
   Trash2,
   Package,
   Search,
-  Filter,
   Download,
   AlertTriangle,
   CheckCircle,
   XCircle,
-  TrendingUp,
-  TrendingDown,
-  BarChart3,
   Eye,
-  RefreshCw,
+  ClipboardCheck,
   Truck,
-  Warehouse,
   ShoppingCart
 } from 'lucide-react';
+import { InventoryCountConfig, InventoryItem, InventoryMovement, QuestionType, ReorderSuggestion, TodoQuestion } from '../../types';
+import {
+  countMovementsFromResponses,
+  formatReorderCsv,
+  getInventoryPosition,
+  getReorderSuggestions,
+  groupReorderSuggestions,
+  InventoryMovementInput,
+  InventoryState,
+  loadInventoryState,
+  postMovements,
+  saveInventoryState
+} from '../../services/inventoryLedger';
+import { buildTodoResponses, QuestionAnswers, validateQuestionnaireAnswers } from '../../services/questionnaire';
+import InventoryCountInput from '../Tasks/InventoryCountInput';
+import { useAuth } from '../../contexts/AuthContext';
+
+const INITIAL_ITEMS: InventoryItem[] = [
+  {
+    id: '1',
+    workplaceId: '1',
+    workplaceName: 'BIG ONE Handels GmbH/ Os...',
+    workplaceCode: '20311',
+    productId: 'PROD001',
+    productName: 'Samsung Galaxy S24',
+    category: 'Smartphones',
+    sku: 'SAMS-S24-128GB',
+    minStock: 20,
+    maxStock: 100,
+    reorderPoint: 25,
+    unitCost: 899.99,
+    distributorId: '1',
+    distributorName: 'ABC Distribution Co.',
+    leadTimeDays: 5,
+    packSize: 5,
+    location: 'Aisle 3, Shelf 2',
+    notes: 'High demand product, monitor closely',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-15T00:00:00Z'
+  },
+  {
+    id: '2',
+    workplaceId: '2',
+    workplaceName: '#SamsungZeil (Showcase)/ Fra...',
+    workplaceCode: '15235',
+    productId: 'PROD002',
+    productName: 'LG OLED TV 65"',
+    category: 'Televisions',
+    sku: 'LG-OLED-65C3',
+    minStock: 15,
+    maxStock: 50,
+    reorderPoint: 20,
+    unitCost: 2499.99,
+    distributorId: '2',
+    distributorName: 'XYZ Logistics',
+    leadTimeDays: 7,
+    packSize: 2,
+    location: 'Display Area 1',
+    notes: 'Premium display item',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-15T00:00:00Z'
+  },
+  {
+    id: '3',
+    workplaceId: '3',
+    workplaceName: '3K-Kuechen Esslingen/ Essling...',
+    workplaceCode: '25280',
+    productId: 'PROD003',
+    productName: 'Bosch Dishwasher',
+    category: 'Kitchen Appliances',
+    sku: 'BOSCH-DISH-SMS2',
+    minStock: 5,
+    maxStock: 25,
+    reorderPoint: 8,
+    unitCost: 649.99,
+    distributorId: '1',
+    distributorName: 'ABC Distribution Co.',
+    leadTimeDays: 10,
+    location: 'Kitchen Section',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-15T00:00:00Z'
+  }
+];
+
+// Weekly visit counts over the last three weeks until real visits are synced
+const INITIAL_MOVEMENTS: InventoryMovement[] = postMovements([], [
+  { itemId: '1', counts: [80, 68, 57, 45] },
+  { itemId: '2', counts: [30, 22, 15, 8] },
+  { itemId: '3', counts: [12, 5, 0, 0] }
+].flatMap(({ itemId, counts }) => {
+  const item = INITIAL_ITEMS.find(candidate => candidate.id === itemId)!;
+  return counts.map((quantity, index): InventoryMovementInput => ({
+    id: `seed-${itemId}-${index}`,
+    workplaceCode: item.workplaceCode,
+    sku: item.sku,
+    type: 'count',
+    quantity,
+    occurredAt: new Date(Date.now() - [21, 14, 7, 1][index] * 24 * 60 * 60 * 1000).toISOString(),
+    countMethod: 'manual',
+    recordedBy: 'John Doe'
+  }));
+}));
+
+/**
+ * Inventory count question for a visit to a workplace, listing its SKUs
+ */
+const buildCountQuestion = (items: InventoryItem[], workplaceCode: string): TodoQuestion => {
+  const inventoryCount: InventoryCountConfig = {
+    countMethods: ['manual', 'scanner'],
+    accuracyThresholds: [90],
+    requirePhotos: false,
+    requireLocationVerification: false,
+    requireDiscrepancyReporting: false,
+    products: items
+      .filter(item => item.workplaceCode === workplaceCode)
+      .map(item => ({ sku: item.sku, name: item.productName }))
+  };
+  return {
+    id: 'inventory-count',
+    type: QuestionType.INVENTORY_COUNT,
+    title: 'Count the stock on hand',
+    required: true,
+    order: 1,
+    merchandisingConfig: { inventoryCount },
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  };
+};
 
 /**
  * Inventory Management Component
  * 
  * This component provides comprehensive inventory management functionality including:
  * - Track product inventory at workplaces
+ * - Stock ledger fed by inventory counts taken on visits
+ * - Days of cover and out-of-stock streaks per item
+ * - Reorder suggestions per distributor with CSV export
  * - Stock level monitoring and alerts
- * - Inventory movement tracking
- * - Reorder management
- * - Analytics and reporting
- * - Supplier management
  */
 const InventoryManagement: React.FC = () => {
-  const [inventory, setInventory] = useState([
-    {
-      id: '1',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
-      productId: 'PROD001',
-      productName: 'Samsung Galaxy S24',
-      category: 'Smartphones',
-      sku: 'SAMS-S24-128GB',
-      currentStock: 45,
-      minStock: 20,
-      maxStock: 100,
-      reorderPoint: 25,
-      unitCost: 899.99,
-      totalValue: 40499.55,
-      supplier: 'Samsung Electronics',
-      lastRestocked: '2025-01-10',
-      nextRestock: '2025-01-25',
-      status: 'healthy',
-      location: 'Aisle 3, Shelf 2',
-      notes: 'High demand product, monitor closely',
-      createdAt: '2025-01-01T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    },
-    {
-      id: '2',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
-      productId: 'PROD002',
-      productName: 'LG OLED TV 65"',
-      category: 'Televisions',
-      sku: 'LG-OLED-65C3',
-      currentStock: 8,
-      minStock: 15,
-      maxStock: 50,
-      reorderPoint: 20,
-      unitCost: 2499.99,
-      totalValue: 19999.92,
-      supplier: 'LG Electronics',
-      lastRestocked: '2025-01-05',
-      nextRestock: '2025-01-20',
-      status: 'low-stock',
-      location: 'Display Area 1',
-      notes: 'Premium display item, low stock alert',
-      createdAt: '2025-01-01T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    },
-    {
-      id: '3',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      productId: 'PROD003',
-      productName: 'Bosch Dishwasher',
-      category: 'Kitchen Appliances',
-      sku: 'BOSCH-DISH-SMS2',
-      currentStock: 0,
-      minStock: 5,
-      maxStock: 25,
-      reorderPoint: 8,
-      unitCost: 649.99,
-      totalValue: 0,
-      supplier: 'Bosch Home Appliances',
-      lastRestocked: '2025-01-08',
-      nextRestock: '2025-01-18',
-      status: 'out-of-stock',
-      location: 'Kitchen Section',
-      notes: 'Out of stock, urgent restock needed',
-      createdAt: '2025-01-01T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    }
-  ]);
+  const { user } = useAuth();
+  const [inventoryState, setInventoryState] = useState<InventoryState>(() =>
+    loadInventoryState({ items: INITIAL_ITEMS, movements: INITIAL_MOVEMENTS })
+  );
+  const { items: inventory, movements } = inventoryState;
 
   const [showAddModal, setShowAddModal] = useState(false);
-  const [editingItem, setEditingItem] = useState<any>(null);
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [filterWorkplace, setFilterWorkplace] = useState<string>('all');
 
+  // Visit count
+  const [showCountModal, setShowCountModal] = useState(false);
+  const [countWorkplace, setCountWorkplace] = useState('');
+  const [countAnswers, setCountAnswers] = useState<QuestionAnswers>({});
+  const [countErrors, setCountErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    saveInventoryState(inventoryState);
+  }, [inventoryState]);
+
+  const positions = useMemo(() => {
+    const asOf = new Date();
+    return new Map(inventory.map(item => [item.id, getInventoryPosition(item, movements, asOf)]));
+  }, [inventory, movements]);
+
+  const reorderGroups = useMemo(
+    () => Array.from(groupReorderSuggestions(getReorderSuggestions(inventory, movements)).values()),
+    [inventory, movements]
+  );
+
+  const workplaces = useMemo(() => {
+    const byCode = new Map(inventory.map(item => [item.workplaceCode, item.workplaceName]));
+    return Array.from(byCode, ([code, name]) => ({ code, name }));
+  }, [inventory]);
+
+  const categories = useMemo(() => Array.from(new Set(inventory.map(item => item.category))), [inventory]);
+
+  const countQuestion = useMemo(
+    () => (countWorkplace ? buildCountQuestion(inventory, countWorkplace) : null),
+    [inventory, countWorkplace]
+  );
+
   // Dashboard statistics
-  const dashboardStats = {
-    totalProducts: 1247,
-    totalValue: 2850000,
-    lowStockItems: 45,
-    outOfStockItems: 12,
-    reorderItems: 23,
-    inventoryByStatus: {
-      healthy: 892,
-      'low-stock': 343,
-      'out-of-stock': 12
-    },
-    averageTurnover: 15.2,
-    totalSuppliers: 28
-  };
+  const dashboardStats = useMemo(() => {
+    const all = inventory.map(item => ({ item, position: positions.get(item.id)! }));
+    return {
+      totalProducts: inventory.length,
+      totalValue: Math.round(all.reduce((sum, { item, position }) => sum + position.currentStock * item.unitCost, 0)),
+      lowStockItems: all.filter(({ position }) => position.status === 'low-stock').length,
+      outOfStockItems: all.filter(({ position }) => position.status === 'out-of-stock').length,
+      reorderItems: reorderGroups.reduce((sum, group) => sum + group.length, 0)
+    };
+  }, [inventory, positions, reorderGroups]);
 
   const handleAddItem = () => {
     setEditingItem(null);
     setShowAddModal(true);
   };
 
-  const handleEdit = (item: any) => {
+  const handleEdit = (item: InventoryItem) => {
     setEditingItem(item);
     setShowAddModal(true);
   };
 
   const handleDelete = (itemId: string) => {
-    setInventory(inventory.filter(i => i.id !== itemId));
+    setInventoryState(state => ({ ...state, items: state.items.filter(i => i.id !== itemId) }));
+  };
+
+  const openCountModal = () => {
+    setCountWorkplace(workplaces[0]?.code || '');
+    setCountAnswers({});
+    setCountErrors([]);
+    setShowCountModal(true);
+  };
+
+  const handleSaveCount = () => {
+    if (!countQuestion) return;
+    const validation = validateQuestionnaireAnswers([countQuestion], countAnswers);
+    if (!validation.isValid) {
+      setCountErrors(validation.errors[countQuestion.id] || []);
+      return;
+    }
+    const responses = buildTodoResponses(`visit-${countWorkplace}-${Date.now()}`, user?.id || '', [countQuestion], countAnswers);
+    const counted = countMovementsFromResponses(responses, [countQuestion], {
+      workplaceCode: countWorkplace,
+      recordedBy: user?.name || user?.email || 'Unknown user'
+    });
+    setInventoryState(state => ({ ...state, movements: postMovements(state.movements, counted) }));
+    setShowCountModal(false);
+  };
+
+  const handleExportOrder = (suggestions: ReorderSuggestion[]) => {
+    const blob = new Blob([formatReorderCsv(suggestions)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `reorder-${suggestions[0].distributorName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
   };
 
   const getStatusColor = (status: string) => {
@@ -162,16 +276,18 @@ const InventoryManagement: React.FC = () => {
     }
   };
 
-  const getStockPercentage = (item: any) => {
-    return Math.round((item.currentStock / item.maxStock) * 100);
+  const getStockPercentage = (item: InventoryItem) => {
+    return Math.min(100, Math.round((positions.get(item.id)!.currentStock / item.maxStock) * 100));
   };
 
+  const formatCover = (days: number | null) => (days === null ? 'No demand yet' : `${days} days cover`);
+
   const filteredInventory = inventory.filter(item => {
     const matchesSearch = item.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.workplaceName.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = filterStatus === 'all' || item.status === filterStatus;
+    const matchesStatus = filterStatus === 'all' || positions.get(item.id)!.status === filterStatus;
     const matchesCategory = filterCategory === 'all' || item.category === filterCategory;
     const matchesWorkplace = filterWorkplace === 'all' || item.workplaceId === filterWorkplace;
     
@@ -187,9 +303,12 @@ const InventoryManagement: React.FC = () => {
           <p className="text-gray-600">Track product inventory across all workplaces</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Sync Inventory
+          <button
+            onClick={openCountModal}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            Record Visit Count
           </button>
           <button
             onClick={handleAddItem}
@@ -211,7 +330,7 @@ const InventoryManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Products</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.totalProducts.toLocaleString()}</p>
-              <p className="text-sm text-green-600">+5.2% from last month</p>
+              <p className="text-sm text-gray-500">{workplaces.length} workplaces</p>
             </div>
           </div>
         </div>
@@ -224,7 +343,7 @@ const InventoryManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Value</p>
               <p className="text-2xl font-bold text-gray-900">€{dashboardStats.totalValue.toLocaleString()}</p>
-              <p className="text-sm text-green-600">+3.8% from last month</p>
+              <p className="text-sm text-gray-500">At last counted stock</p>
             </div>
           </div>
         </div>
@@ -237,7 +356,7 @@ const InventoryManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Low Stock Items</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.lowStockItems}</p>
-              <p className="text-sm text-orange-600">Requires attention</p>
+              <p className="text-sm text-orange-600">{dashboardStats.reorderItems} to reorder</p>
             </div>
           </div>
         </div>
@@ -295,9 +414,9 @@ const InventoryManagement: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Categories</option>
-              <option value="Smartphones">Smartphones</option>
-              <option value="Televisions">Televisions</option>
-              <option value="Kitchen Appliances">Kitchen Appliances</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
             </select>
           </div>
 
@@ -335,83 +454,193 @@ const InventoryManagement: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workplace</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cover</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Distributor</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredInventory.map((item) => (
-                <tr key={item.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{item.productName}</div>
-                      <div className="text-sm text-gray-500">{item.sku}</div>
-                      <div className="text-xs text-gray-400">{item.category}</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{item.workplaceName}</div>
-                      <div className="text-sm text-gray-500">{item.workplaceCode}</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{item.currentStock}</div>
-                      <div className="text-sm text-gray-500">Min: {item.minStock} | Max: {item.maxStock}</div>
-                      <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
-                        <div 
-                          className={`h-2 rounded-full ${
-                            getStockPercentage(item) > 50 ? 'bg-green-500' : 
-                            getStockPercentage(item) > 20 ? 'bg-orange-500' : 'bg-red-500'
-                          }`}
-                          style={{ width: `${getStockPercentage(item)}%` }}
-                        ></div>
+              {filteredInventory.map((item) => {
+                const position = positions.get(item.id)!;
+                return (
+                  <tr key={item.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{item.productName}</div>
+                        <div className="text-sm text-gray-500">{item.sku}</div>
+                        <div className="text-xs text-gray-400">{item.category}</div>
                       </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(item.status)}`}>
-                      {getStatusIcon(item.status)}
-                      <span className="ml-1">{item.status.replace('-', ' ')}</span>
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">€{item.totalValue.toLocaleString()}</div>
-                    <div className="text-sm text-gray-500">€{item.unitCost} per unit</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{item.supplier}</div>
-                    <div className="text-sm text-gray-500">Next: {item.nextRestock}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleEdit(item)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(item.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                      <button className="text-gray-600 hover:text-gray-900">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{item.workplaceName}</div>
+                        <div className="text-sm text-gray-500">{item.workplaceCode}</div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{position.currentStock}</div>
+                        <div className="text-sm text-gray-500">Min: {item.minStock} | Max: {item.maxStock}</div>
+                        <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                          <div 
+                            className={`h-2 rounded-full ${
+                              getStockPercentage(item) > 50 ? 'bg-green-500' : 
+                              getStockPercentage(item) > 20 ? 'bg-orange-500' : 'bg-red-500'
+                            }`}
+                            style={{ width: `${getStockPercentage(item)}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatCover(position.daysOfCover)}</div>
+                      <div className="text-sm text-gray-500">{position.averageDailyDemand} units/day</div>
+                      {position.outOfStockStreak > 0 && (
+                        <div className="text-xs text-red-600">
+                          Out of stock on {position.outOfStockStreak} count{position.outOfStockStreak === 1 ? '' : 's'} since {position.outOfStockSince?.split('T')[0]}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(position.status)}`}>
+                        {getStatusIcon(position.status)}
+                        <span className="ml-1">{position.status.replace('-', ' ')}</span>
+                      </span>
+                      {position.lastCountedAt && (
+                        <div className="text-xs text-gray-500 mt-1">Counted {position.lastCountedAt.split('T')[0]}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">€{Math.round(position.currentStock * item.unitCost).toLocaleString()}</div>
+                      <div className="text-sm text-gray-500">€{item.unitCost} per unit</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{item.distributorName}</div>
+                      <div className="text-sm text-gray-500">Lead time: {item.leadTimeDays} days</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleEdit(item)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(item.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                        <button className="text-gray-600 hover:text-gray-900">
+                          <Eye className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
       </div>
 
+      {/* Reorder Suggestions */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Reorder Suggestions</h3>
+          <p className="text-sm text-gray-500">Ordered up to max stock when the stock expected on delivery reaches the reorder point</p>
+        </div>
+        {reorderGroups.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">Nothing needs reordering.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {reorderGroups.map(group => (
+              <div key={group[0].distributorId} className="px-6 py-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <Truck className="h-4 w-4 text-gray-500" />
+                    <span className="text-sm font-medium text-gray-900">{group[0].distributorName}</span>
+                    <span className="text-sm text-gray-500">{group.reduce((sum, suggestion) => sum + suggestion.quantity, 0)} units</span>
+                  </div>
+                  <button
+                    onClick={() => handleExportOrder(group)}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Export Order
+                  </button>
+                </div>
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {group.map(suggestion => (
+                      <tr key={suggestion.itemId}>
+                        <td className="py-1 pr-4 text-gray-900">{suggestion.productName}</td>
+                        <td className="py-1 pr-4 text-gray-500">{suggestion.workplaceName}</td>
+                        <td className="py-1 pr-4 text-gray-500">{suggestion.reason}</td>
+                        <td className="py-1 text-right font-medium text-gray-900">{suggestion.quantity}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Visit Count Modal */}
+      {showCountModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Record Visit Count</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Workplace</label>
+                <select
+                  value={countWorkplace}
+                  onChange={(e) => {
+                    setCountWorkplace(e.target.value);
+                    setCountAnswers({});
+                    setCountErrors([]);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {workplaces.map(workplace => (
+                    <option key={workplace.code} value={workplace.code}>{workplace.name} ({workplace.code})</option>
+                  ))}
+                </select>
+              </div>
+              {countQuestion && (
+                <InventoryCountInput
+                  config={countQuestion.merchandisingConfig?.inventoryCount}
+                  value={countAnswers[countQuestion.id]}
+                  onChange={(count) => setCountAnswers({ [countQuestion.id]: count })}
+                />
+              )}
+              {countErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc list-inside">
+                  {countErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                onClick={() => setShowCountModal(false)}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSaveCount} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                Save Count
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add/Edit Modal Placeholder */}
       {showAddModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -1,284 +1,318 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
-  Plus,
-  Pencil,
-  Trash2,
   Brain,
   Search,
-  Filter,
   Download,
+  Upload,
   TrendingUp,
   TrendingDown,
   AlertTriangle,
   Eye,
-  RefreshCw,
+  XCircle,
   Target,
-  BarChart3,
-  Calendar,
-  MapPin,
   Users,
   DollarSign,
   Activity,
   Zap,
-  Lightbulb
+  Lightbulb,
+  MapPin
 } from 'lucide-react';
+import {
+  ForecastGranularity,
+  ForecastMetric,
+  WorkplaceActivityColumnMapping,
+  WorkplaceActivityRecord,
+  WorkplaceForecast
+} from '../../types';
+import {
+  ACTIVITY_COLUMNS,
+  ActivityParseResult,
+  FORECAST_METRICS,
+  forecastWorkplaces,
+  guessActivityMapping,
+  loadActivityHistory,
+  mergeActivity,
+  parseActivityRows,
+  saveActivityHistory,
+  validateActivityMapping,
+  WorkplaceForecastResult
+} from '../../services/demandForecast';
+import { loadSalesTargetState } from '../../services/salesTargets';
+import { formatCsv, readSpreadsheetFile } from '../../services/spreadsheet';
+
+const WORKPLACES = [
+  { id: '1', name: 'BIG ONE Handels GmbH/ Os...', code: '20311' },
+  { id: '2', name: '#SamsungZeil (Showcase)/ Fra...', code: '15235' },
+  { id: '3', name: '3K-Kuechen Esslingen/ Essling...', code: '25280' }
+];
+
+// Twelve weeks of visit and attendance figures until real history is imported
+const INITIAL_ACTIVITY: WorkplaceActivityRecord[] = WORKPLACES.flatMap(({ code }, w) =>
+  Array.from({ length: 84 }, (_, t) => {
+    const weekday = t % 7;
+    const plannedVisits = weekday < 5 ? 4 : weekday === 5 ? 2 : 0;
+    const scheduledStaff = weekday < 6 ? 3 : 1;
+    return {
+      date: new Date(Date.UTC(2025, 6, 7 + t)).toISOString().split('T')[0],
+      workplaceCode: code,
+      ...(plannedVisits ? { plannedVisits, completedVisits: plannedVisits - ((t * 7 + w * 3) % 5 === 0 ? 1 : 0) } : {}),
+      scheduledStaff,
+      presentStaff: scheduledStaff - ((t + w) % 6 === 0 ? 1 : 0)
+    };
+  })
+);
+
+const HORIZONS: Record<ForecastGranularity, number[]> = {
+  day: [7, 14, 28],
+  week: [4, 8, 12]
+};
+
+const CONFIDENCE_LEVELS: (80 | 90 | 95)[] = [80, 90, 95];
+
+/**
+ * History and forecast of one workplace with the prediction interval as a band
+ */
+const ForecastChart: React.FC<{ forecast: WorkplaceForecast }> = ({ forecast }) => {
+  const history = forecast.history.slice(-forecast.points.length * 3);
+  const periods = [...history.map(point => point.period), ...forecast.points.map(point => point.period)];
+  const values = [...history.map(point => point.value), ...forecast.points.flatMap(point => [point.lower, point.upper])];
+  const width = 640;
+  const height = 220;
+  const padding = { top: 10, right: 10, bottom: 24, left: 48 };
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values) || 1;
+  const x = (period: string) => padding.left +
+    (periods.length === 1 ? 0.5 : periods.indexOf(period) / (periods.length - 1)) * (width - padding.left - padding.right);
+  const y = (value: number) => padding.top + ((max - value) / (max - min)) * (height - padding.top - padding.bottom);
+  const last = history[history.length - 1];
+  const band = [
+    ...forecast.points.map(point => `${x(point.period)},${y(point.upper)}`),
+    ...forecast.points.slice().reverse().map(point => `${x(point.period)},${y(point.lower)}`)
+  ].join(' ');
+  const labelEvery = Math.max(1, Math.ceil(periods.length / 8));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-56" role="img" aria-label="Forecast chart">
+      {[min, (min + max) / 2, max].map(tick => (
+        <g key={tick}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} stroke="#E5E7EB" />
+          <text x={padding.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6B7280">{Math.round(tick)}</text>
+        </g>
+      ))}
+      {periods.map((period, i) => i % labelEvery === 0 && (
+        <text key={period} x={x(period)} y={height - 6} textAnchor="middle" fontSize="10" fill="#6B7280">{period.slice(5)}</text>
+      ))}
+      <polygon points={band} fill="#BFDBFE" opacity={0.6}>
+        <title>{`${forecast.confidenceLevel}% prediction interval`}</title>
+      </polygon>
+      <polyline
+        fill="none"
+        stroke="#374151"
+        strokeWidth={2}
+        points={history.map(point => `${x(point.period)},${y(point.value)}`).join(' ')}
+      />
+      <polyline
+        fill="none"
+        stroke="#2563EB"
+        strokeWidth={2}
+        strokeDasharray="4 4"
+        points={[last, ...forecast.points].map(point => `${x(point.period)},${y(point.value)}`).join(' ')}
+      />
+    </svg>
+  );
+};
 
 /**
  * Predictive Analytics Component
- * 
- * This component provides comprehensive predictive analytics functionality including:
- * - AI-powered performance predictions
- * - Sales forecasting and trend analysis
- * - Employee performance predictions
- * - Operational efficiency insights
- * - Risk assessment and mitigation
- * - Strategic planning recommendations
+ *
+ * This component provides local demand forecasting functionality including:
+ * - Per-workplace forecasts of sales, visit compliance and attendance
+ * - Seasonal Holt-Winters smoothing by day or week
+ * - Prediction intervals at 80, 90 or 95% confidence
+ * - Backtest accuracy on the latest held-out periods
+ * - Import of daily visit and attendance figures from CSV/XLSX
+ * - Forecast export
  */
 const PredictiveAnalytics: React.FC = () => {
-  const [predictions, setPredictions] = useState([
-    {
-      id: '1',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
-      predictionType: 'sales-forecast',
-      metric: 'Monthly Sales',
-      currentValue: 125000,
-      predictedValue: 142000,
-      confidence: 87,
-      timeframe: 'next-month',
-      factors: [
-        {
-          name: 'Seasonal Trends',
-          impact: 'positive',
-          weight: 0.3,
-          description: 'Q1 typically shows 15% increase'
-        },
-        {
-          name: 'Marketing Campaign',
-          impact: 'positive',
-          weight: 0.25,
-          description: 'New product launch expected'
-        },
-        {
-          name: 'Economic Conditions',
-          impact: 'neutral',
-          weight: 0.2,
-          description: 'Stable economic indicators'
-        }
-      ],
-      recommendations: [
-        'Increase inventory for new products',
-        'Schedule additional staff for peak hours',
-        'Prepare marketing materials for launch'
-      ],
-      riskFactors: [
-        {
-          name: 'Supply Chain Delays',
-          probability: 15,
-          impact: 'medium',
-          mitigation: 'Order inventory 2 weeks early'
-        }
-      ],
-      lastUpdated: '2025-01-15T10:00:00Z',
-      nextUpdate: '2025-01-22T10:00:00Z',
-      status: 'active'
-    },
-    {
-      id: '2',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
-      predictionType: 'employee-performance',
-      metric: 'Customer Satisfaction Score',
-      currentValue: 4.2,
-      predictedValue: 4.5,
-      confidence: 92,
-      timeframe: 'next-quarter',
-      factors: [
-        {
-          name: 'Training Completion',
-          impact: 'positive',
-          weight: 0.4,
-          description: 'Staff completed customer service training'
-        },
-        {
-          name: 'Product Knowledge',
-          impact: 'positive',
-          weight: 0.35,
-          description: 'Enhanced product expertise'
-        }
-      ],
-      recommendations: [
-        'Continue training programs',
-        'Implement customer feedback system',
-        'Recognize top performers'
-      ],
-      riskFactors: [
-        {
-          name: 'Staff Turnover',
-          probability: 10,
-          impact: 'low',
-          mitigation: 'Improve employee retention programs'
-        }
-      ],
-      lastUpdated: '2025-01-14T14:30:00Z',
-      nextUpdate: '2025-01-21T14:30:00Z',
-      status: 'active'
-    },
-    {
-      id: '3',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      predictionType: 'operational-efficiency',
-      metric: 'Inventory Turnover Rate',
-      currentValue: 8.5,
-      predictedValue: 7.2,
-      confidence: 78,
-      timeframe: 'next-quarter',
-      factors: [
-        {
-          name: 'Seasonal Demand',
-          impact: 'negative',
-          weight: 0.45,
-          description: 'Winter slowdown expected'
-        },
-        {
-          name: 'Supplier Performance',
-          impact: 'neutral',
-          weight: 0.3,
-          description: 'Stable supplier relationships'
-        }
-      ],
-      recommendations: [
-        'Reduce inventory levels',
-        'Focus on high-turnover items',
-        'Negotiate better supplier terms'
-      ],
-      riskFactors: [
-        {
-          name: 'Supply Chain Disruption',
-          probability: 25,
-          impact: 'high',
-          mitigation: 'Diversify supplier base'
-        }
-      ],
-      lastUpdated: '2025-01-13T16:00:00Z',
-      nextUpdate: '2025-01-20T16:00:00Z',
-      status: 'active'
-    }
-  ]);
+  const [activity, setActivity] = useState<WorkplaceActivityRecord[]>(() => loadActivityHistory(INITIAL_ACTIVITY));
+  const [salesState] = useState(() => loadSalesTargetState({ targets: [], sellOut: [], imports: [] }));
 
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [editingPrediction, setEditingPrediction] = useState<any>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<string>('all');
-  const [filterTimeframe, setFilterTimeframe] = useState<string>('all');
-  const [filterConfidence, setFilterConfidence] = useState<string>('all');
+  const [filterMetric, setFilterMetric] = useState<ForecastMetric | 'all'>('all');
+  const [granularity, setGranularity] = useState<ForecastGranularity>('week');
+  const [horizon, setHorizon] = useState<number>(HORIZONS.week[0]);
+  const [confidenceLevel, setConfidenceLevel] = useState<80 | 90 | 95>(80);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Visit and attendance import
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importFileName, setImportFileName] = useState('');
+  const [importRows, setImportRows] = useState<string[][]>([]);
+  const [importMapping, setImportMapping] = useState<WorkplaceActivityColumnMapping>({});
+  const [importResult, setImportResult] = useState<ActivityParseResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveActivityHistory(activity);
+  }, [activity]);
+
+  // Workplaces with targets on the sales page, plus the known workplaces
+  const workplaces = useMemo(() => {
+    const byCode = new Map(WORKPLACES.map(workplace => [workplace.code, workplace.name]));
+    salesState.targets.forEach(target => byCode.set(target.workplaceCode, target.workplaceName));
+    return Array.from(byCode.entries()).map(([code, name]) => ({ code, name }));
+  }, [salesState.targets]);
+
+  const results = useMemo(() => {
+    const history = { sellOut: salesState.sellOut, activity };
+    const all: WorkplaceForecastResult = { forecasts: [], skipped: [] };
+    FORECAST_METRICS.forEach(({ value: metric }) => {
+      const result = forecastWorkplaces(history, workplaces, { metric, granularity, horizon, confidenceLevel });
+      all.forecasts.push(...result.forecasts);
+      all.skipped.push(...result.skipped);
+    });
+    return all;
+  }, [salesState.sellOut, activity, workplaces, granularity, horizon, confidenceLevel]);
+
+  const forecastKey = (forecast: WorkplaceForecast) => `${forecast.metric}|${forecast.workplaceCode}`;
+
+  const filteredForecasts = results.forecasts.filter(forecast => {
+    const matchesSearch = forecast.workplaceName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         forecast.workplaceCode.includes(searchTerm) ||
+                         forecast.metric.includes(searchTerm.toLowerCase());
+    const matchesMetric = filterMetric === 'all' || forecast.metric === filterMetric;
+    return matchesSearch && matchesMetric;
+  });
+
+  const selectedForecast = results.forecasts.find(forecast => forecastKey(forecast) === selectedKey) || null;
 
   // Dashboard statistics
-  const dashboardStats = {
-    totalPredictions: 89,
-    highConfidencePredictions: 67,
-    averageConfidence: 85.7,
-    accuracyRate: 92.3,
-    predictionsByType: {
-      'sales-forecast': 34,
-      'employee-performance': 28,
-      'operational-efficiency': 27
-    },
-    activeInsights: 156,
-    riskAlerts: 12
-  };
+  const dashboardStats = useMemo(() => {
+    const backtests = filteredForecasts.flatMap(forecast => (forecast.backtest ? [forecast.backtest] : []));
+    const average = (values: number[]) => (values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null);
+    return {
+      totalForecasts: filteredForecasts.length,
+      averageAccuracy: average(backtests.map(backtest => backtest.accuracy)),
+      averageCoverage: average(backtests.map(backtest => backtest.coverage)),
+      declining: filteredForecasts.filter(forecast => forecast.changePercentage <= -5).length
+    };
+  }, [filteredForecasts]);
 
-  const handleAddPrediction = () => {
-    setEditingPrediction(null);
-    setShowAddModal(true);
+  const handleGranularityChange = (value: ForecastGranularity) => {
+    setGranularity(value);
+    setHorizon(HORIZONS[value][0]);
   };
 
-  const handleEdit = (prediction: any) => {
-    setEditingPrediction(prediction);
-    setShowAddModal(true);
+  const resetImport = () => {
+    setImportFileName('');
+    setImportRows([]);
+    setImportMapping({});
+    setImportResult(null);
+    setImportError(null);
   };
 
-  const handleDelete = (predictionId: string) => {
-    setPredictions(predictions.filter(p => p.id !== predictionId));
+  const handleImportFile = async (file: File | undefined) => {
+    resetImport();
+    if (!file) return;
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (!rows.length) {
+        setImportError(`${file.name} is empty`);
+        return;
+      }
+      setImportFileName(file.name);
+      setImportRows(rows);
+      setImportMapping(guessActivityMapping(rows[0]));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'The file could not be read');
+    }
   };
 
-  const getPredictionTypeColor = (type: string) => {
-    switch (type) {
-      case 'sales-forecast': return 'text-blue-600 bg-blue-100';
-      case 'employee-performance': return 'text-green-600 bg-green-100';
-      case 'operational-efficiency': return 'text-purple-600 bg-purple-100';
-      case 'risk-assessment': return 'text-red-600 bg-red-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
+  const handleMappingChange = (column: keyof WorkplaceActivityColumnMapping, header: string) => {
+    setImportMapping(prev => ({ ...prev, [column]: header || undefined }));
+    setImportResult(null);
   };
 
-  const getPredictionTypeIcon = (type: string) => {
-    switch (type) {
-      case 'sales-forecast': return <DollarSign className="h-4 w-4" />;
-      case 'employee-performance': return <Users className="h-4 w-4" />;
-      case 'operational-efficiency': return <Activity className="h-4 w-4" />;
-      case 'risk-assessment': return <AlertTriangle className="h-4 w-4" />;
-      default: return <Target className="h-4 w-4" />;
+  const mappingProblems = importRows.length ? validateActivityMapping(importMapping, importRows[0]) : [];
+
+  const handleCheckRows = () => {
+    try {
+      setImportResult(parseActivityRows(importRows, importMapping, {
+        workplaceCodes: workplaces.map(workplace => workplace.code),
+        importId: `activity-${Date.now()}`
+      }));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'The rows could not be checked');
     }
   };
 
-  const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 90) return 'text-green-600 bg-green-100';
-    if (confidence >= 80) return 'text-blue-600 bg-blue-100';
-    if (confidence >= 70) return 'text-orange-600 bg-orange-100';
-    return 'text-red-600 bg-red-100';
+  const handleConfirmImport = () => {
+    if (!importResult) return;
+    setActivity(prev => mergeActivity(prev, importResult.records));
+    setShowImportModal(false);
+    resetImport();
   };
 
-  const getConfidenceIcon = (confidence: number) => {
-    if (confidence >= 90) return <TrendingUp className="h-4 w-4" />;
-    if (confidence >= 80) return <Target className="h-4 w-4" />;
-    if (confidence >= 70) return <AlertTriangle className="h-4 w-4" />;
-    return <TrendingDown className="h-4 w-4" />;
+  const handleExport = () => {
+    const rows = filteredForecasts.flatMap(forecast => forecast.points.map(point => [
+      forecast.workplaceCode,
+      forecast.workplaceName,
+      forecast.metric,
+      point.period,
+      point.value,
+      point.lower,
+      point.upper,
+      forecast.backtest ? forecast.backtest.accuracy : ''
+    ]));
+    const csv = formatCsv([['Workplace code', 'Workplace', 'Metric', 'Period', 'Forecast', 'Lower', 'Upper', 'Backtest accuracy %'], ...rows]);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `forecast-${granularity}-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
   };
 
-  const getImpactColor = (impact: string) => {
-    switch (impact) {
-      case 'positive': return 'text-green-600 bg-green-100';
-      case 'negative': return 'text-red-600 bg-red-100';
-      case 'neutral': return 'text-gray-600 bg-gray-100';
+  const getMetricColor = (metric: ForecastMetric) => {
+    switch (metric) {
+      case 'sales': return 'text-blue-600 bg-blue-100';
+      case 'visit-compliance': return 'text-purple-600 bg-purple-100';
+      case 'attendance': return 'text-green-600 bg-green-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
 
-  const getRiskImpactColor = (impact: string) => {
-    switch (impact) {
-      case 'high': return 'text-red-600 bg-red-100';
-      case 'medium': return 'text-orange-600 bg-orange-100';
-      case 'low': return 'text-green-600 bg-green-100';
-      default: return 'text-gray-600 bg-gray-100';
+  const getMetricIcon = (metric: ForecastMetric) => {
+    switch (metric) {
+      case 'sales': return <DollarSign className="h-4 w-4" />;
+      case 'visit-compliance': return <MapPin className="h-4 w-4" />;
+      case 'attendance': return <Users className="h-4 w-4" />;
+      default: return <Target className="h-4 w-4" />;
     }
   };
 
+  const getAccuracyColor = (accuracy: number) => {
+    if (accuracy >= 90) return 'text-green-600 bg-green-100';
+    if (accuracy >= 80) return 'text-blue-600 bg-blue-100';
+    if (accuracy >= 70) return 'text-orange-600 bg-orange-100';
+    return 'text-red-600 bg-red-100';
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('de-DE', {
       style: 'currency',
-      currency: 'EUR'
+      currency: 'EUR',
+      maximumFractionDigits: 0
     }).format(value);
   };
 
-  const filteredPredictions = predictions.filter(prediction => {
-    const matchesSearch = prediction.workplaceName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         prediction.metric.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         prediction.predictionType.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesType = filterType === 'all' || prediction.predictionType === filterType;
-    const matchesTimeframe = filterTimeframe === 'all' || prediction.timeframe === filterTimeframe;
-    const matchesConfidence = filterConfidence === 'all' || 
-      (filterConfidence === 'high' && prediction.confidence >= 90) ||
-      (filterConfidence === 'medium' && prediction.confidence >= 80 && prediction.confidence < 90) ||
-      (filterConfidence === 'low' && prediction.confidence < 80);
-    
-    return matchesSearch && matchesType && matchesTimeframe && matchesConfidence;
-  });
+  const formatValue = (metric: ForecastMetric, value: number) => (metric === 'sales' ? formatCurrency(value) : `${value.toFixed(1)}%`);
+
+  const metricLabel = (metric: ForecastMetric) => FORECAST_METRICS.find(entry => entry.value === metric)?.label || metric;
+
+  const periodLabel = granularity === 'day' ? 'days' : 'weeks';
 
   return (
     <div className="space-y-6">
@@ -286,19 +320,15 @@ const PredictiveAnalytics: React.FC = () => {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Predictive Analytics</h2>
-          <p className="text-gray-600">AI-powered performance predictions and insights</p>
+          <p className="text-gray-600">Seasonal forecasts of sales, visit compliance and attendance per workplace</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh Models
-          </button>
           <button
-            onClick={handleAddPrediction}
+            onClick={() => setShowImportModal(true)}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
-            <Plus className="h-4 w-4 mr-2" />
-            New Prediction
+            <Upload className="h-4 w-4 mr-2" />
+            Import Visits &amp; Attendance
           </button>
         </div>
       </div>
@@ -311,9 +341,9 @@ const PredictiveAnalytics: React.FC = () => {
               <Brain className="h-8 w-8 text-blue-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Total Predictions</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.totalPredictions}</p>
-              <p className="text-sm text-blue-600">Active models</p>
+              <p className="text-sm font-medium text-gray-500">Forecasts</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.totalForecasts}</p>
+              <p className="text-sm text-blue-600">Next {horizon} {periodLabel}</p>
             </div>
           </div>
         </div>
@@ -324,9 +354,11 @@ const PredictiveAnalytics: React.FC = () => {
               <Target className="h-8 w-8 text-green-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Avg Confidence</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.averageConfidence}%</p>
-              <p className="text-sm text-green-600">Model accuracy</p>
+              <p className="text-sm font-medium text-gray-500">Backtest Accuracy</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {dashboardStats.averageAccuracy === null ? '–' : `${dashboardStats.averageAccuracy}%`}
+              </p>
+              <p className="text-sm text-green-600">100 − WAPE on held-out {periodLabel}</p>
             </div>
           </div>
         </div>
@@ -337,9 +369,11 @@ const PredictiveAnalytics: React.FC = () => {
               <Zap className="h-8 w-8 text-indigo-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Accuracy Rate</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.accuracyRate}%</p>
-              <p className="text-sm text-indigo-600">Prediction success</p>
+              <p className="text-sm font-medium text-gray-500">Interval Coverage</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {dashboardStats.averageCoverage === null ? '–' : `${dashboardStats.averageCoverage}%`}
+              </p>
+              <p className="text-sm text-indigo-600">Target {confidenceLevel}%</p>
             </div>
           </div>
         </div>
@@ -350,9 +384,9 @@ const PredictiveAnalytics: React.FC = () => {
               <Lightbulb className="h-8 w-8 text-orange-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Active Insights</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.activeInsights}</p>
-              <p className="text-sm text-orange-600">Generated today</p>
+              <p className="text-sm font-medium text-gray-500">Declining</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.declining}</p>
+              <p className="text-sm text-orange-600">5% or more below recent</p>
             </div>
           </div>
         </div>
@@ -360,14 +394,14 @@ const PredictiveAnalytics: React.FC = () => {
 
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search predictions, metrics..."
+                placeholder="Search workplaces, metrics..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
@@ -376,57 +410,104 @@ const PredictiveAnalytics: React.FC = () => {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Prediction Type</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Metric</label>
+            <select
+              value={filterMetric}
+              onChange={(e) => setFilterMetric(e.target.value as ForecastMetric | 'all')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="all">All Metrics</option>
+              {FORECAST_METRICS.map(metric => (
+                <option key={metric.value} value={metric.value}>{metric.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Granularity</label>
             <select
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value)}
+              value={granularity}
+              onChange={(e) => handleGranularityChange(e.target.value as ForecastGranularity)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Types</option>
-              <option value="sales-forecast">Sales Forecast</option>
-              <option value="employee-performance">Employee Performance</option>
-              <option value="operational-efficiency">Operational Efficiency</option>
-              <option value="risk-assessment">Risk Assessment</option>
+              <option value="day">Daily</option>
+              <option value="week">Weekly</option>
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Timeframe</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Horizon</label>
             <select
-              value={filterTimeframe}
-              onChange={(e) => setFilterTimeframe(e.target.value)}
+              value={horizon}
+              onChange={(e) => setHorizon(Number(e.target.value))}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Timeframes</option>
-              <option value="next-week">Next Week</option>
-              <option value="next-month">Next Month</option>
-              <option value="next-quarter">Next Quarter</option>
-              <option value="next-year">Next Year</option>
+              {HORIZONS[granularity].map(value => (
+                <option key={value} value={value}>Next {value} {periodLabel}</option>
+              ))}
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Confidence</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Interval</label>
             <select
-              value={filterConfidence}
-              onChange={(e) => setFilterConfidence(e.target.value)}
+              value={confidenceLevel}
+              onChange={(e) => setConfidenceLevel(Number(e.target.value) as 80 | 90 | 95)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Levels</option>
-              <option value="high">High (90%+)</option>
-              <option value="medium">Medium (80-89%)</option>
-              <option value="low">Low (&lt;80%)</option>
+              {CONFIDENCE_LEVELS.map(level => (
+                <option key={level} value={level}>{level}% prediction interval</option>
+              ))}
             </select>
           </div>
         </div>
       </div>
 
-      {/* Predictions List */}
+      {/* Forecast Detail */}
+      {selectedForecast && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                {metricLabel(selectedForecast.metric)} · {selectedForecast.workplaceName}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {selectedForecast.method === 'holt-winters'
+                  ? `Holt-Winters, season of ${selectedForecast.seasonLength} ${periodLabel}`
+                  : 'Holt trend smoothing (less than two seasons of history)'}
+                {` · α ${selectedForecast.parameters.alpha}, β ${selectedForecast.parameters.beta}`}
+                {selectedForecast.method === 'holt-winters' && `, γ ${selectedForecast.parameters.gamma}`}
+              </p>
+            </div>
+            <button onClick={() => setSelectedKey(null)} className="text-gray-400 hover:text-gray-600">
+              <XCircle className="h-5 w-5" />
+            </button>
+          </div>
+          <ForecastChart forecast={selectedForecast} />
+          <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-700">
+            <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-gray-700 mr-2" />History</span>
+            <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-blue-600 mr-2" />Forecast</span>
+            <span className="flex items-center"><span className="inline-block w-3 h-3 bg-blue-200 mr-2" />{selectedForecast.confidenceLevel}% interval</span>
+            {selectedForecast.backtest && (
+              <span>
+                Backtest on {selectedForecast.backtest.holdout} {periodLabel}: MAE {formatValue(selectedForecast.metric, selectedForecast.backtest.mae)},
+                {' '}WAPE {selectedForecast.backtest.wape}%, {selectedForecast.backtest.coverage}% inside the interval
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Forecasts List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
-            <h3 className="text-lg font-medium text-gray-900">AI Predictions</h3>
-            <button className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
+            <h3 className="text-lg font-medium text-gray-900">Workplace Forecasts</h3>
+            <button
+              onClick={handleExport}
+              disabled={!filteredForecasts.length}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
               <Download className="h-4 w-4 mr-1" />
               Export
             </button>
@@ -436,118 +517,199 @@ const PredictiveAnalytics: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prediction</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workplace</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Confidence</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk Factors</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Period</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Backtest</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredPredictions.map((prediction) => (
-                <tr key={prediction.id} className="hover:bg-gray-50">
+              {filteredForecasts.map((forecast) => (
+                <tr key={forecastKey(forecast)} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{prediction.metric}</div>
-                      <div className="text-sm text-gray-500">{prediction.timeframe.replace('-', ' ')}</div>
-                      <div className="text-xs text-gray-400">
-                        Current: {typeof prediction.currentValue === 'number' && prediction.currentValue > 1000 
-                          ? formatCurrency(prediction.currentValue) 
-                          : prediction.currentValue}
-                      </div>
-                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMetricColor(forecast.metric)}`}>
+                      {getMetricIcon(forecast.metric)}
+                      <span className="ml-1">{metricLabel(forecast.metric)}</span>
+                    </span>
+                    <div className="text-xs text-gray-400 mt-1">{forecast.method === 'holt-winters' ? 'Seasonal' : 'Trend only'}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
-                      <div className="text-sm font-medium text-gray-900">{prediction.workplaceName}</div>
-                      <div className="text-sm text-gray-500">{prediction.workplaceCode}</div>
+                      <div className="text-sm font-medium text-gray-900">{forecast.workplaceName}</div>
+                      <div className="text-sm text-gray-500">{forecast.workplaceCode}</div>
                     </div>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPredictionTypeColor(prediction.predictionType)}`}>
-                      {getPredictionTypeIcon(prediction.predictionType)}
-                      <span className="ml-1">{prediction.predictionType.replace('-', ' ')}</span>
-                    </span>
-                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
                       <div className="text-sm font-medium text-gray-900">
-                        {typeof prediction.predictedValue === 'number' && prediction.predictedValue > 1000 
-                          ? formatCurrency(prediction.predictedValue) 
-                          : prediction.predictedValue}
+                        {formatValue(forecast.metric, forecast.forecastAverage)} / {granularity === 'day' ? 'day' : 'week'}
                       </div>
-                      <div className="text-sm text-gray-500">
-                        {prediction.predictedValue > prediction.currentValue ? '+' : ''}
-                        {((prediction.predictedValue - prediction.currentValue) / prediction.currentValue * 100).toFixed(1)}% change
+                      <div className={`text-sm flex items-center ${forecast.changePercentage < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {forecast.changePercentage < 0 ? <TrendingDown className="h-4 w-4 mr-1" /> : <TrendingUp className="h-4 w-4 mr-1" />}
+                        {forecast.changePercentage > 0 ? '+' : ''}{forecast.changePercentage}% vs last {horizon} {periodLabel}
                       </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getConfidenceColor(prediction.confidence)}`}>
-                      {getConfidenceIcon(prediction.confidence)}
-                      <span className="ml-1">{prediction.confidence}%</span>
-                    </span>
+                    <div className="text-sm text-gray-900">{formatValue(forecast.metric, forecast.points[0].value)}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatValue(forecast.metric, forecast.points[0].lower)} – {formatValue(forecast.metric, forecast.points[0].upper)}
+                    </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="space-y-1">
-                      {prediction.riskFactors.slice(0, 2).map((risk, index) => (
-                        <span key={index} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getRiskImpactColor(risk.impact)}`}>
-                          {risk.impact}: {risk.probability}%
-                        </span>
-                      ))}
-                      {prediction.riskFactors.length > 2 && (
-                        <div className="text-xs text-gray-500">+{prediction.riskFactors.length - 2} more</div>
-                      )}
-                    </div>
+                    {forecast.backtest ? (
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getAccuracyColor(forecast.backtest.accuracy)}`}>
+                        <Activity className="h-4 w-4" />
+                        <span className="ml-1">{forecast.backtest.accuracy}%</span>
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-500">History too short</span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleEdit(prediction)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(prediction.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                      <button className="text-gray-600 hover:text-gray-900">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                    </div>
+                    <button
+                      onClick={() => setSelectedKey(forecastKey(forecast))}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </button>
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
+          {!filteredForecasts.length && (
+            <p className="px-6 py-4 text-sm text-gray-500">No workplace has enough history for this selection.</p>
+          )}
         </div>
+        {results.skipped.length > 0 && (
+          <div className="px-6 py-4 border-t border-gray-200">
+            <h4 className="flex items-center text-sm font-medium text-gray-900 mb-1">
+              <AlertTriangle className="h-4 w-4 mr-1 text-orange-500" />
+              Not forecast
+            </h4>
+            {results.skipped.filter(entry => filterMetric === 'all' || entry.metric === filterMetric).map(entry => (
+              <p key={`${entry.metric}|${entry.workplaceCode}`} className="text-xs text-gray-500">
+                {metricLabel(entry.metric)} · {entry.workplaceName}: {entry.metric === 'sales' && !salesState.sellOut.length
+                  ? 'import sell-out on the Sales Targets page'
+                  : entry.reason}
+              </p>
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* Add/Edit Modal Placeholder */}
-      {showAddModal && (
+      {/* Visit and Attendance Import Modal */}
+      {showImportModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3 text-center">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">
-                {editingPrediction ? 'Edit Prediction' : 'New Prediction'}
-              </h3>
-              <p className="text-sm text-gray-500 mb-4">
-                {editingPrediction ? 'Update prediction details' : 'Create new AI prediction model'}
-              </p>
-              <div className="flex justify-center space-x-4">
+          <div className="relative top-10 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Import Visits &amp; Attendance</h3>
+              <button
+                onClick={() => {
+                  setShowImportModal(false);
+                  resetImport();
+                }}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  CSV or XLSX file with daily planned / completed visits and scheduled / present staff per workplace
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => handleImportFile(e.target.files?.[0])}
+                  className="block w-full text-sm text-gray-700"
+                />
+              </div>
+
+              {importRows.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">
+                    Column mapping ({importRows.length - 1} rows in {importFileName})
+                  </h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {ACTIVITY_COLUMNS.map(({ column, label, required }) => (
+                      <div key={column}>
+                        <label className="block text-xs font-medium text-gray-700">
+                          {label}{required && <span className="text-red-500 ml-1">*</span>}
+                        </label>
+                        <select
+                          value={importMapping[column] || ''}
+                          onChange={(e) => handleMappingChange(column, e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">{required ? 'Select column' : 'Not in file'}</option>
+                          {importRows[0].map((header, index) => (
+                            <option key={`${header}-${index}`} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {mappingProblems.map(problem => (
+                    <p key={problem} className="text-xs text-orange-600 mt-2">{problem}</p>
+                  ))}
+                </div>
+              )}
+
+              {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+              {importResult && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-700">
+                    {importResult.records.length} of {importResult.totalRows} rows are ready to import
+                    {importResult.errors.length > 0 && `; ${new Set(importResult.errors.map(error => error.row)).size} rows have errors and will be skipped`}.
+                  </p>
+                  {importResult.errors.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {importResult.errors.map((error, index) => (
+                            <tr key={index}>
+                              <td className="px-3 py-2 text-gray-900">{error.row}</td>
+                              <td className="px-3 py-2 text-gray-700">{error.field}</td>
+                              <td className="px-3 py-2 text-red-600">{error.error}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
                 <button
-                  onClick={() => setShowAddModal(false)}
-                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                  type="button"
+                  onClick={handleCheckRows}
+                  disabled={!importRows.length || mappingProblems.length > 0}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
                 >
-                  Cancel
+                  Check Rows
                 </button>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
-                  {editingPrediction ? 'Update' : 'Create'}
+                <button
+                  type="button"
+                  onClick={handleConfirmImport}
+                  disabled={!importResult?.records.length}
+                  className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Import {importResult?.records.length || ''} Rows
                 </button>
               </div>
             </div>
@@ -558,4 +720,4 @@ const PredictiveAnalytics: React.FC = () => {
   );
 };
 
-export default PredictiveAnalytics; 
\ No newline at end of file
+export default PredictiveAnalytics;
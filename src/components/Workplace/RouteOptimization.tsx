@@ -22,6 +22,14 @@ import {
   CheckCircle,
   DollarSign
 } from 'lucide-react';
+import { RouteStop } from '../../types';
+import { measureRoute, solveRoutes } from '../../services/routeSolver';
+
+/** Working day used when solving routes from this page */
+const DEFAULT_SHIFT = { start: '08:00', end: '18:00' };
+
+/** Average fuel cost per kilometer used for cost estimates (EUR) */
+const FUEL_COST_PER_KM = 0.28;
 
 /**
  * Route Optimization Component
@@ -215,9 +223,109 @@ const RouteOptimization: React.FC = () => {
     setRoutes(routes.filter(r => r.id !== routeId));
   };
 
+  type RouteRecord = typeof routes[number];
+  type StopRecord = RouteRecord['stops'][number];
+
+  /** A stop the solver could not fit on any route, kept until a later run places it */
+  interface UnassignedStop {
+    stop: StopRecord;
+    routeId: string;
+    date: string;
+    reason: string;
+  }
+
+  const [unassignedStops, setUnassignedStops] = useState<UnassignedStop[]>([]);
+
+  const toRouteStop = (stop: StopRecord): RouteStop => ({
+    id: stop.id,
+    name: stop.workplaceName,
+    location: stop.coordinates,
+    visitDuration: stop.duration,
+  });
+
+  const toRouteStops = (route: RouteRecord): RouteStop[] => route.stops.map(toRouteStop);
+
+  /**
+   * Re-solve a group of routes driven on the same day, letting stops move
+   * between merchandisers, and write the new order and totals back. Stops left
+   * unassigned by an earlier run are offered to the solver again.
+   */
+  const optimizeRoutes = (group: RouteRecord[]): { routes: RouteRecord[]; unassigned: UnassignedStop[] } => {
+    const groupIds = new Set(group.map(route => route.id));
+    const carriedOver = unassignedStops.filter(entry => groupIds.has(entry.routeId));
+    const origins = new Map<string, { stop: StopRecord; routeId: string }>();
+    group.forEach(route => route.stops.forEach(stop => origins.set(stop.id, { stop, routeId: route.id })));
+    carriedOver.forEach(entry => origins.set(entry.stop.id, { stop: entry.stop, routeId: entry.routeId }));
+
+    const solution = solveRoutes(
+      [...group.flatMap(toRouteStops), ...carriedOver.map(entry => toRouteStop(entry.stop))],
+      group.map(route => ({
+        id: route.id,
+        name: route.employeeName,
+        shiftStart: DEFAULT_SHIFT.start,
+        shiftEnd: DEFAULT_SHIFT.end,
+      }))
+    );
+
+    const routes = group.map((route, index) => {
+      const solved = solution.routes[index];
+      const before = measureRoute(toRouteStops(route), DEFAULT_SHIFT.start);
+      const fuelCost = Number((solved.totalDistance * FUEL_COST_PER_KM).toFixed(2));
+      const percentChange = (previous: number, next: number) =>
+        previous > 0 ? Number((((previous - next) / previous) * 100).toFixed(1)) : 0;
+
+      return {
+        ...route,
+        status: 'optimized',
+        totalDistance: solved.totalDistance,
+        totalTime: solved.totalDuration,
+        fuelCost,
+        stops: solved.stops.map(planned => ({
+          ...origins.get(planned.stopId)!.stop,
+          order: planned.order,
+          estimatedTime: planned.startTime,
+        })),
+        optimization: {
+          algorithm: 'insertion_2opt',
+          savings: percentChange(before.totalDistance, solved.totalDistance),
+          timeReduction: percentChange(before.totalDuration, solved.totalDuration),
+          fuelSavings: Number((before.totalDistance * FUEL_COST_PER_KM - fuelCost).toFixed(2)),
+        },
+        updatedAt: new Date().toISOString(),
+      };
+    });
+
+    const unassigned = solution.unassigned.map(entry => {
+      const origin = origins.get(entry.stopId)!;
+      return { stop: origin.stop, routeId: origin.routeId, date: group[0].date, reason: entry.reason };
+    });
+
+    return { routes, unassigned };
+  };
+
+  const applyOptimization = (groups: RouteRecord[][]) => {
+    const optimized = new Map<string, RouteRecord>();
+    const optimizedIds = new Set(groups.flatMap(group => group.map(route => route.id)));
+    const unassigned: UnassignedStop[] = [];
+    groups.forEach(group => {
+      const result = optimizeRoutes(group);
+      result.routes.forEach(route => optimized.set(route.id, route));
+      unassigned.push(...result.unassigned);
+    });
+    setRoutes(prev => prev.map(route => optimized.get(route.id) || route));
+    setUnassignedStops(prev => [...prev.filter(entry => !optimizedIds.has(entry.routeId)), ...unassigned]);
+  };
+
   const handleOptimize = (routeId: string) => {
-    // Placeholder for optimization logic
-    console.log('Optimizing route:', routeId);
+    const route = routes.find(candidate => candidate.id === routeId);
+    if (route) applyOptimization([[route]]);
+  };
+
+  const handleOptimizeAll = () => {
+    const openRoutes = routes.filter(route => route.status !== 'completed');
+    applyOptimization(
+      Array.from(new Set(openRoutes.map(route => route.date))).map(date => openRoutes.filter(route => route.date === date))
+    );
   };
 
   const getStatusColor = (status: string) => {
@@ -266,7 +374,10 @@ const RouteOptimization: React.FC = () => {
           <p className="text-gray-600">Optimize employee travel routes for maximum efficiency</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+          <button
+            onClick={handleOptimizeAll}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
             <RefreshCw className="h-4 w-4 mr-2" />
             Re-optimize All
           </button>
@@ -397,6 +508,23 @@ const RouteOptimization: React.FC = () => {
         </div>
       </div>
 
+      {/* Stops the solver could not place */}
+      {unassignedStops.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <div className="flex items-center text-sm font-medium text-amber-800">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            {unassignedStops.length} stop(s) could not be scheduled
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-amber-700">
+            {unassignedStops.map(entry => (
+              <li key={entry.stop.id}>
+                {entry.stop.workplaceName} ({entry.date}): {entry.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Routes List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -1,117 +1,250 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Plus,
   Pencil,
   Trash2,
   Target,
   Search,
-  Filter,
   Download,
+  Upload,
   TrendingUp,
-  TrendingDown,
   CheckCircle,
   AlertCircle,
   XCircle,
-  Calendar,
   DollarSign,
-  BarChart3
+  BarChart3,
+  Trophy
 } from 'lucide-react';
+import { SalesTarget, SellOutColumnMapping, SellOutRecord } from '../../types';
+import {
+  createSellOutImport,
+  getSalesLeaderboard,
+  getTargetProgress,
+  guessSellOutMapping,
+  LeaderboardDimension,
+  loadSalesTargetState,
+  mergeSellOut,
+  parseSellOutRows,
+  SalesTargetState,
+  saveSalesTargetState,
+  SELL_OUT_COLUMNS,
+  SellOutParseResult,
+  validateSellOutMapping
+} from '../../services/salesTargets';
+import { readSpreadsheetFile } from '../../services/spreadsheet';
+
+const INITIAL_TARGETS: SalesTarget[] = [
+  {
+    id: '1',
+    workplaceId: '1',
+    workplaceName: 'BIG ONE Handels GmbH/ Os...',
+    workplaceCode: '20311',
+    areaName: 'North',
+    distributorName: 'BIG ONE Handels',
+    targetAmount: 50000,
+    period: 'Q4 2025',
+    startDate: '2025-10-01',
+    endDate: '2025-12-31',
+    assignedTo: 'John Doe',
+    notes: 'Focus on electronics and kitchen appliances',
+    createdAt: '2025-01-15T00:00:00Z',
+    updatedAt: '2025-01-15T00:00:00Z'
+  },
+  {
+    id: '2',
+    workplaceId: '2',
+    workplaceName: '#SamsungZeil (Showcase)/ Fra...',
+    workplaceCode: '15235',
+    areaName: 'Central',
+    distributorName: 'Samsung Retail',
+    targetAmount: 75000,
+    period: 'Q4 2025',
+    startDate: '2025-10-01',
+    endDate: '2025-12-31',
+    assignedTo: 'Jane Smith',
+    notes: 'Premium location with high foot traffic',
+    createdAt: '2025-01-15T00:00:00Z',
+    updatedAt: '2025-01-15T00:00:00Z'
+  },
+  {
+    id: '3',
+    workplaceId: '3',
+    workplaceName: '3K-Kuechen Esslingen/ Essling...',
+    workplaceCode: '25280',
+    areaName: 'South',
+    distributorName: '3K-Kuechen',
+    targetAmount: 35000,
+    period: 'Q4 2025',
+    startDate: '2025-10-01',
+    endDate: '2025-12-31',
+    assignedTo: 'Mike Johnson',
+    notes: 'Kitchen specialty store',
+    createdAt: '2025-01-15T00:00:00Z',
+    updatedAt: '2025-01-15T00:00:00Z'
+  }
+];
+
+// Weekly sell-out per workplace for Q4 2025 until real figures are imported
+const INITIAL_SELL_OUT: SellOutRecord[] = [
+  { workplaceCode: '20311', weekly: 3230 },
+  { workplaceCode: '15235', weekly: 6000 },
+  { workplaceCode: '25280', weekly: 2150 }
+].flatMap(({ workplaceCode, weekly }) =>
+  Array.from({ length: 13 }, (_, week) => ({
+    date: new Date(Date.UTC(2025, 9, 1 + week * 7)).toISOString().split('T')[0],
+    workplaceCode,
+    sku: 'ALL',
+    quantity: 0,
+    amount: weekly
+  }))
+);
+
+const LEADERBOARD_DIMENSIONS: { value: LeaderboardDimension; label: string }[] = [
+  { value: 'area', label: 'Area' },
+  { value: 'distributor', label: 'Distributor' },
+  { value: 'merchandiser', label: 'Merchandiser' }
+];
 
 /**
  * Sales Target Management Component
  * 
  * This component provides comprehensive sales target management functionality including:
  * - Set sales targets for workplaces
- * - Track target achievement
+ * - Import daily sell-out per workplace and SKU from CSV/XLSX
+ * - Track achievement and run-rate projections to period end
+ * - Leaderboards by area, distributor and merchandiser
  * - Filter and search targets
- * - Analytics and reporting
  * - Target status monitoring
- * - Performance tracking
  */
 const SalesTargetManagement: React.FC = () => {
-  const [salesTargets, setSalesTargets] = useState([
-    {
-      id: '1',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
-      targetAmount: 50000,
-      achievedAmount: 42000,
-      period: 'Q4 2025',
-      startDate: '2025-10-01',
-      endDate: '2025-12-31',
-      status: 'in-progress',
-      assignedTo: 'John Doe',
-      notes: 'Focus on electronics and kitchen appliances',
-      createdAt: '2025-01-15T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    },
-    {
-      id: '2',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
-      targetAmount: 75000,
-      achievedAmount: 78000,
-      period: 'Q4 2025',
-      startDate: '2025-10-01',
-      endDate: '2025-12-31',
-      status: 'achieved',
-      assignedTo: 'Jane Smith',
-      notes: 'Premium location with high foot traffic',
-      createdAt: '2025-01-15T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    },
-    {
-      id: '3',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      targetAmount: 35000,
-      achievedAmount: 28000,
-      period: 'Q4 2025',
-      startDate: '2025-10-01',
-      endDate: '2025-12-31',
-      status: 'at-risk',
-      assignedTo: 'Mike Johnson',
-      notes: 'Kitchen specialty store',
-      createdAt: '2025-01-15T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    }
-  ]);
+  const [salesState, setSalesState] = useState<SalesTargetState>(() =>
+    loadSalesTargetState({ targets: INITIAL_TARGETS, sellOut: INITIAL_SELL_OUT, imports: [] })
+  );
+  const { targets: salesTargets, sellOut, imports } = salesState;
 
   const [showAddModal, setShowAddModal] = useState(false);
-  const [editingTarget, setEditingTarget] = useState<any>(null);
+  const [editingTarget, setEditingTarget] = useState<SalesTarget | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterPeriod, setFilterPeriod] = useState<string>('all');
+  const [leaderboardDimension, setLeaderboardDimension] = useState<LeaderboardDimension>('area');
+
+  // Sell-out import
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importFileName, setImportFileName] = useState('');
+  const [importRows, setImportRows] = useState<string[][]>([]);
+  const [importMapping, setImportMapping] = useState<SellOutColumnMapping>({});
+  const [importResult, setImportResult] = useState<SellOutParseResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveSalesTargetState(salesState);
+  }, [salesState]);
+
+  const asOf = new Date().toISOString().split('T')[0];
+
+  const progressById = useMemo(
+    () => new Map(salesTargets.map(target => [target.id, getTargetProgress(target, sellOut, asOf)])),
+    [salesTargets, sellOut, asOf]
+  );
+  const getProgress = (target: SalesTarget) => progressById.get(target.id) || getTargetProgress(target, sellOut, asOf);
+
+  const leaderboard = useMemo(
+    () => getSalesLeaderboard(salesTargets, sellOut, leaderboardDimension, asOf),
+    [salesTargets, sellOut, leaderboardDimension, asOf]
+  );
 
   // Dashboard statistics
-  const dashboardStats = {
-    totalTargets: 45,
-    totalTargetAmount: 2500000,
-    totalAchievedAmount: 2100000,
-    achievementRate: 84,
-    targetsByStatus: {
-      achieved: 18,
-      'in-progress': 20,
-      'at-risk': 5,
-      'not-started': 2
-    }
-  };
+  const dashboardStats = useMemo(() => {
+    const progress = Array.from(progressById.values());
+    const totalTargetAmount = salesTargets.reduce((sum, target) => sum + target.targetAmount, 0);
+    const totalAchievedAmount = progress.reduce((sum, entry) => sum + entry.achievedAmount, 0);
+    const countStatus = (status: string) => progress.filter(entry => entry.status === status).length;
+    return {
+      totalTargets: salesTargets.length,
+      totalTargetAmount,
+      totalAchievedAmount,
+      achievementRate: totalTargetAmount ? Math.round((totalAchievedAmount / totalTargetAmount) * 100) : 0,
+      targetsByStatus: {
+        achieved: countStatus('achieved'),
+        'in-progress': countStatus('in-progress'),
+        'at-risk': countStatus('at-risk'),
+        'not-started': countStatus('not-started')
+      }
+    };
+  }, [progressById, salesTargets]);
+
+  const periods = Array.from(new Set(salesTargets.map(target => target.period)));
 
   const handleAddTarget = () => {
     setEditingTarget(null);
     setShowAddModal(true);
   };
 
-  const handleEdit = (target: any) => {
+  const handleEdit = (target: SalesTarget) => {
     setEditingTarget(target);
     setShowAddModal(true);
   };
 
   const handleDelete = (targetId: string) => {
-    setSalesTargets(salesTargets.filter(t => t.id !== targetId));
+    setSalesState(prev => ({ ...prev, targets: prev.targets.filter(t => t.id !== targetId) }));
+  };
+
+  const resetImport = () => {
+    setImportFileName('');
+    setImportRows([]);
+    setImportMapping({});
+    setImportResult(null);
+    setImportError(null);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    resetImport();
+    if (!file) return;
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (!rows.length) {
+        setImportError(`${file.name} is empty`);
+        return;
+      }
+      setImportFileName(file.name);
+      setImportRows(rows);
+      setImportMapping(guessSellOutMapping(rows[0]));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleMappingChange = (column: keyof SellOutColumnMapping, header: string) => {
+    setImportMapping(prev => ({ ...prev, [column]: header || undefined }));
+    setImportResult(null);
+  };
+
+  const mappingProblems = importRows.length ? validateSellOutMapping(importMapping, importRows[0]) : [];
+
+  const handleCheckRows = () => {
+    try {
+      setImportResult(parseSellOutRows(importRows, importMapping, {
+        workplaceCodes: salesTargets.map(target => target.workplaceCode),
+        importId: `import-${Date.now()}`
+      }));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'The rows could not be checked');
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!importResult) return;
+    const importId = importResult.records[0]?.importId || `import-${Date.now()}`;
+    const summary = createSellOutImport(importId, importFileName, importMapping, importResult, 'Current User');
+    setSalesState(prev => ({
+      ...prev,
+      sellOut: mergeSellOut(prev.sellOut, importResult.records),
+      imports: [summary, ...prev.imports]
+    }));
+    setShowImportModal(false);
+    resetImport();
   };
 
   const getStatusColor = (status: string) => {
@@ -134,8 +267,8 @@ const SalesTargetManagement: React.FC = () => {
     }
   };
 
-  const getAchievementPercentage = (target: any) => {
-    return Math.round((target.achievedAmount / target.targetAmount) * 100);
+  const getAchievementPercentage = (target: SalesTarget) => {
+    return Math.round(getProgress(target).achievementPercentage);
   };
 
   const filteredTargets = salesTargets.filter(target => {
@@ -143,7 +276,7 @@ const SalesTargetManagement: React.FC = () => {
                          target.workplaceCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          target.assignedTo.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = filterStatus === 'all' || target.status === filterStatus;
+    const matchesStatus = filterStatus === 'all' || getProgress(target).status === filterStatus;
     const matchesPeriod = filterPeriod === 'all' || target.period === filterPeriod;
     
     return matchesSearch && matchesStatus && matchesPeriod;
@@ -157,13 +290,22 @@ const SalesTargetManagement: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-900">Sales Target Management</h2>
           <p className="text-gray-600">Set and track sales targets for each workplace</p>
         </div>
-        <button
-          onClick={handleAddTarget}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Sales Target
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import Sell-out
+          </button>
+          <button
+            onClick={handleAddTarget}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Sales Target
+          </button>
+        </div>
       </div>
 
       {/* Dashboard Statistics */}
@@ -244,6 +386,48 @@ const SalesTargetManagement: React.FC = () => {
         </div>
       </div>
 
+      {/* Leaderboard */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Leaderboard</h3>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {LEADERBOARD_DIMENSIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setLeaderboardDimension(value)}
+                className={`px-3 py-1 text-sm ${leaderboardDimension === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {leaderboard.map(entry => (
+            <div key={entry.name} className="px-6 py-3 flex items-center gap-4">
+              <div className="w-8 text-center">
+                {entry.rank <= 3 ? (
+                  <Trophy className={`h-5 w-5 mx-auto ${entry.rank === 1 ? 'text-yellow-500' : entry.rank === 2 ? 'text-gray-400' : 'text-orange-400'}`} />
+                ) : (
+                  <span className="text-sm text-gray-500">{entry.rank}</span>
+                )}
+              </div>
+              <div className="flex-1">
+                <div className="text-sm font-medium text-gray-900">{entry.name}</div>
+                <div className="text-xs text-gray-500">
+                  {entry.targetCount} target{entry.targetCount === 1 ? '' : 's'} · €{entry.achievedAmount.toLocaleString()} of €{entry.targetAmount.toLocaleString()}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-sm font-semibold text-gray-900">{entry.achievementPercentage}%</div>
+                <div className="text-xs text-gray-500">projected {entry.projectedPercentage}%</div>
+              </div>
+            </div>
+          ))}
+          {!leaderboard.length && <p className="px-6 py-4 text-sm text-gray-500">No targets yet.</p>}
+        </div>
+      </div>
+
       {/* Search and Filter */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -278,10 +462,9 @@ const SalesTargetManagement: React.FC = () => {
                 className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
               >
                 <option value="all">All Periods</option>
-                <option value="Q4 2025">Q4 2025</option>
-                <option value="Q3 2025">Q3 2025</option>
-                <option value="Q2 2025">Q2 2025</option>
-                <option value="Q1 2025">Q1 2025</option>
+                {periods.map(period => (
+                  <option key={period} value={period}>{period}</option>
+                ))}
               </select>
               <button className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
                 <Download className="h-4 w-4 mr-2" />
@@ -308,6 +491,9 @@ const SalesTargetManagement: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Progress
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Run-rate
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -335,7 +521,7 @@ const SalesTargetManagement: React.FC = () => {
                     <div className="text-sm font-medium text-gray-900">€{target.targetAmount.toLocaleString()}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">€{target.achievedAmount.toLocaleString()}</div>
+                    <div className="text-sm font-medium text-gray-900">€{getProgress(target).achievedAmount.toLocaleString()}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -353,9 +539,15 @@ const SalesTargetManagement: React.FC = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(target.status)}`}>
-                      {getStatusIcon(target.status)}
-                      <span className="ml-1">{target.status.replace('-', ' ')}</span>
+                    <div className="text-sm text-gray-900">€{getProgress(target).dailyRunRate.toLocaleString()}/day</div>
+                    <div className="text-xs text-gray-500">
+                      Projected €{getProgress(target).projectedAmount.toLocaleString()} ({getProgress(target).projectedPercentage}%)
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(getProgress(target).status)}`}>
+                      {getStatusIcon(getProgress(target).status)}
+                      <span className="ml-1">{getProgress(target).status.replace('-', ' ')}</span>
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -458,6 +650,131 @@ const SalesTargetManagement: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Sell-out Import Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Import Sell-out</h3>
+              <button
+                onClick={() => {
+                  setShowImportModal(false);
+                  resetImport();
+                }}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">CSV or XLSX file with daily sell-out per workplace and SKU</label>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => handleImportFile(e.target.files?.[0])}
+                  className="block w-full text-sm text-gray-700"
+                />
+              </div>
+
+              {importRows.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">
+                    Column mapping ({importRows.length - 1} rows in {importFileName})
+                  </h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {SELL_OUT_COLUMNS.map(({ column, label, required }) => (
+                      <div key={column}>
+                        <label className="block text-xs font-medium text-gray-700">
+                          {label}{required && <span className="text-red-500 ml-1">*</span>}
+                        </label>
+                        <select
+                          value={importMapping[column] || ''}
+                          onChange={(e) => handleMappingChange(column, e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">{required ? 'Select column' : 'Not in file'}</option>
+                          {importRows[0].map((header, index) => (
+                            <option key={`${header}-${index}`} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {mappingProblems.map(problem => (
+                    <p key={problem} className="text-xs text-orange-600 mt-2">{problem}</p>
+                  ))}
+                </div>
+              )}
+
+              {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+              {importResult && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-700">
+                    {importResult.records.length} of {importResult.totalRows} rows are ready to import
+                    {importResult.errors.length > 0 && `; ${new Set(importResult.errors.map(error => error.row)).size} rows have errors and will be skipped`}.
+                  </p>
+                  {importResult.errors.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {importResult.errors.map((error, index) => (
+                            <tr key={index}>
+                              <td className="px-3 py-2 text-gray-900">{error.row}</td>
+                              <td className="px-3 py-2 text-gray-700">{error.field}</td>
+                              <td className="px-3 py-2 text-red-600">{error.error}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {imports.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-1">Recent imports</h4>
+                  {imports.slice(0, 3).map(entry => (
+                    <p key={entry.id} className="text-xs text-gray-500">
+                      {entry.fileName} · {new Date(entry.createdAt).toLocaleString()} · {entry.processedRows} imported, {entry.failedRows} failed
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={handleCheckRows}
+                  disabled={!importRows.length || mappingProblems.length > 0}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Check Rows
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirmImport}
+                  disabled={!importResult?.records.length}
+                  className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Import {importResult?.records.length || ''} Rows
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,172 +1,223 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Plus,
-  Pencil,
   Trash2,
   GraduationCap,
   Search,
-  Filter,
   Download,
   CheckCircle,
   XCircle,
   AlertTriangle,
   Clock,
-  Eye,
-  RefreshCw,
   Award,
-  FileText,
-  Users,
-  BarChart3,
-  TrendingUp,
-  Target,
   Calendar,
-  BookOpen
+  BookOpen,
+  PlayCircle,
+  ShieldCheck
 } from 'lucide-react';
+import { TrainingCourse, TrainingEnrollment } from '../../types';
+import {
+  CertificateStatus,
+  getCertificateStatus,
+  getCurrentModule,
+  getEnrollmentProgress,
+  getRemainingAttempts,
+  INITIAL_TRAINING_STATE,
+  loadTrainingState,
+  saveTrainingState,
+  submitModule,
+  TrainingState
+} from '../../services/trainingCurriculum';
+import { formatCsv } from '../../services/spreadsheet';
+
+const WORKPLACES = [
+  { id: '1', name: 'BIG ONE Handels GmbH/ Os...', code: '20311' },
+  { id: '2', name: '#SamsungZeil (Showcase)/ Fra...', code: '15235' },
+  { id: '3', name: '3K-Kuechen Esslingen/ Essling...', code: '25280' }
+];
+
+const EMPLOYEES = [
+  { id: 'emp001', name: 'John Doe', workplaceId: '1' },
+  { id: 'emp002', name: 'Jane Smith', workplaceId: '2' },
+  { id: 'emp003', name: 'Mike Johnson', workplaceId: '3' }
+];
+
+const EMPTY_SCHEDULE = { employeeId: EMPLOYEES[0].id, courseId: INITIAL_TRAINING_STATE.courses[0].id, startDate: '' };
+const EMPTY_RULE = { brand: '', workplaceIds: [] as string[] };
 
 /**
  * Training Management Component
- * 
+ *
  * This component provides comprehensive training management functionality including:
- * - Employee training tracking and certification
- * - Training program management
- * - Skill assessment and development
- * - Training scheduling and completion tracking
- * - Certification renewal monitoring
- * - Performance improvement tracking
+ * - Courses made of modules with embedded quizzes and pass marks
+ * - Scheduling employees on courses and taking modules in order
+ * - Certificates with expiry dates issued on completion
+ * - "Must be certified for brand X" rules for workplaces, enforced
+ *   when employees are assigned
  */
 const TrainingManagement: React.FC = () => {
-  const [trainings, setTrainings] = useState([
-    {
-      id: '1',
-      employeeId: 'emp001',
-      employeeName: 'John Doe',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
-      trainingProgram: 'Product Knowledge - Samsung',
-      trainingType: 'Product Training',
-      status: 'completed',
-      startDate: '2025-01-10',
-      completionDate: '2025-01-15',
-      duration: 40, // hours
-      score: 92,
-      maxScore: 100,
-      certification: {
-        id: 'cert001',
-        name: 'Samsung Product Specialist',
-        issuedDate: '2025-01-15',
-        expiryDate: '2026-01-15',
-        status: 'active'
-      },
-      trainer: 'Sarah Wilson',
-      modules: [
-        {
-          id: 'mod1',
-          name: 'Samsung Galaxy Series',
-          status: 'completed',
-          score: 95
-        },
-        {
-          id: 'mod2',
-          name: 'Samsung TV Technology',
-          status: 'completed',
-          score: 88
-        }
-      ],
-      notes: 'Excellent performance in product training',
-      createdAt: '2025-01-10T00:00:00Z',
-      updatedAt: '2025-01-15T00:00:00Z'
-    },
-    {
-      id: '2',
-      employeeId: 'emp002',
-      employeeName: 'Jane Smith',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
-      trainingProgram: 'Customer Service Excellence',
-      trainingType: 'Soft Skills',
-      status: 'in-progress',
-      startDate: '2025-01-12',
-      completionDate: null,
-      duration: 24, // hours
-      score: 0,
-      maxScore: 100,
-      certification: null,
-      trainer: 'Michael Brown',
-      modules: [
-        {
-          id: 'mod3',
-          name: 'Communication Skills',
-          status: 'completed',
-          score: 90
-        },
-        {
-          id: 'mod4',
-          name: 'Conflict Resolution',
-          status: 'in-progress',
-          score: 0
-        }
-      ],
-      notes: 'Making good progress in customer service training',
-      createdAt: '2025-01-12T00:00:00Z',
-      updatedAt: '2025-01-14T00:00:00Z'
-    },
-    {
-      id: '3',
-      employeeId: 'emp003',
-      employeeName: 'Mike Johnson',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      trainingProgram: 'Kitchen Appliance Installation',
-      trainingType: 'Technical Training',
-      status: 'scheduled',
-      startDate: '2025-01-20',
-      completionDate: null,
-      duration: 60, // hours
-      score: 0,
-      maxScore: 100,
-      certification: null,
-      trainer: 'Lisa Garcia',
-      modules: [],
-      notes: 'Technical training scheduled for next week',
-      createdAt: '2025-01-13T00:00:00Z',
-      updatedAt: '2025-01-13T00:00:00Z'
-    }
-  ]);
+  const [trainingState, setTrainingState] = useState<TrainingState>(() => loadTrainingState(INITIAL_TRAINING_STATE));
+  const { courses, enrollments, certificates, rules } = trainingState;
+  const [now] = useState(() => new Date());
 
   const [showAddModal, setShowAddModal] = useState(false);
-  const [editingTraining, setEditingTraining] = useState<any>(null);
+  const [newSchedule, setNewSchedule] = useState(EMPTY_SCHEDULE);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, number[]>>({});
+  const [playerMessage, setPlayerMessage] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
   const [filterWorkplace, setFilterWorkplace] = useState<string>('all');
 
+  useEffect(() => {
+    saveTrainingState(trainingState);
+  }, [trainingState]);
+
+  const getCourse = (courseId: string) => courses.find(course => course.id === courseId);
+  const getEmployee = (employeeId: string) => EMPLOYEES.find(employee => employee.id === employeeId);
+  const getWorkplace = (workplaceId?: string) => WORKPLACES.find(workplace => workplace.id === workplaceId);
+
+  // Only the latest certificate per employee and course counts towards expiry
+  const latestCertificates = useMemo(() => {
+    const latest = new Map<string, typeof certificates[number]>();
+    certificates.forEach(certificate => {
+      const key = `${certificate.employeeId}|${certificate.courseId}`;
+      const current = latest.get(key);
+      if (!current || certificate.issuedAt > current.issuedAt) latest.set(key, certificate);
+    });
+    return Array.from(latest.values());
+  }, [certificates]);
+
   // Dashboard statistics
-  const dashboardStats = {
-    totalTrainings: 234,
-    completedTrainings: 156,
-    inProgressTrainings: 45,
-    scheduledTrainings: 33,
-    averageScore: 87.3,
-    certificationRate: 78.5,
-    expiringCertifications: 12,
-    trainingHours: 2847
-  };
+  const dashboardStats = useMemo(() => {
+    const completed = enrollments.filter(enrollment => enrollment.status === 'completed');
+    const statuses = latestCertificates.map(certificate => getCertificateStatus(certificate, now));
+    const certifiedEmployees = new Set(
+      latestCertificates.filter((certificate, index) => statuses[index] !== 'expired').map(certificate => certificate.employeeId)
+    );
+    return {
+      totalTrainings: enrollments.length,
+      completedTrainings: completed.length,
+      averageScore: completed.length
+        ? Math.round((completed.reduce((sum, enrollment) => sum + (enrollment.score || 0), 0) / completed.length) * 10) / 10
+        : 0,
+      certificationRate: Math.round((certifiedEmployees.size / EMPLOYEES.length) * 1000) / 10,
+      expiringCertifications: statuses.filter(status => status === 'expiring-soon').length,
+      expiredCertifications: statuses.filter(status => status === 'expired').length
+    };
+  }, [enrollments, latestCertificates, now]);
 
   const handleAddTraining = () => {
-    setEditingTraining(null);
+    setNewSchedule({ ...EMPTY_SCHEDULE, startDate: now.toISOString().split('T')[0] });
     setShowAddModal(true);
   };
 
-  const handleEdit = (training: any) => {
-    setEditingTraining(training);
-    setShowAddModal(true);
+  const handleSchedule = () => {
+    const employee = getEmployee(newSchedule.employeeId);
+    if (!employee || !newSchedule.startDate) return;
+    const enrollment: TrainingEnrollment = {
+      id: Date.now().toString(),
+      courseId: newSchedule.courseId,
+      employeeId: employee.id,
+      employeeName: employee.name,
+      status: 'scheduled',
+      startDate: newSchedule.startDate,
+      progress: []
+    };
+    setTrainingState(current => ({ ...current, enrollments: [...current.enrollments, enrollment] }));
+    setShowAddModal(false);
+  };
+
+  const handleDelete = (enrollmentId: string) => {
+    setTrainingState(current => ({
+      ...current,
+      enrollments: current.enrollments.filter(enrollment => enrollment.id !== enrollmentId)
+    }));
+  };
+
+  const handleOpenPlayer = (enrollmentId: string) => {
+    setPlayingId(enrollmentId);
+    setAnswers({});
+    setPlayerMessage(null);
+  };
+
+  const handleToggleAnswer = (questionId: string, option: number, multiple: boolean) => {
+    setAnswers(current => {
+      const chosen = current[questionId] || [];
+      if (!multiple) return { ...current, [questionId]: [option] };
+      return {
+        ...current,
+        [questionId]: chosen.includes(option) ? chosen.filter(index => index !== option) : [...chosen, option]
+      };
+    });
+  };
+
+  const handleSubmitModule = (enrollment: TrainingEnrollment, course: TrainingCourse, moduleId: string) => {
+    try {
+      const result = submitModule(enrollment, course, moduleId, answers);
+      const attempts = result.enrollment.progress.find(progress => progress.moduleId === moduleId)?.attempts || [];
+      const lastAttempt = attempts[attempts.length - 1];
+      setTrainingState(current => ({
+        ...current,
+        enrollments: current.enrollments.map(candidate => candidate.id === enrollment.id ? result.enrollment : candidate),
+        certificates: result.certificate ? [...current.certificates, result.certificate] : current.certificates
+      }));
+      setAnswers({});
+      if (result.certificate) {
+        setPlayerMessage(`Course completed with ${result.enrollment.score}%. ${result.certificate.name} certificate issued.`);
+      } else if (result.enrollment.status === 'failed') {
+        setPlayerMessage(`Scored ${lastAttempt?.score}%. No attempts left; the course has to be scheduled again.`);
+      } else if (lastAttempt && !lastAttempt.passed) {
+        setPlayerMessage(`Scored ${lastAttempt.score}%, below the pass mark. Review the material and try again.`);
+      } else {
+        setPlayerMessage(lastAttempt ? `Passed with ${lastAttempt.score}%.` : null);
+      }
+    } catch (error) {
+      setPlayerMessage((error as Error).message);
+    }
+  };
+
+  const handleToggleRule = (ruleId: string) => {
+    setTrainingState(current => ({
+      ...current,
+      rules: current.rules.map(rule => rule.id === ruleId ? { ...rule, isActive: !rule.isActive } : rule)
+    }));
+  };
+
+  const handleAddRule = () => {
+    if (!newRule.brand || !newRule.workplaceIds.length) return;
+    setTrainingState(current => ({
+      ...current,
+      rules: [...current.rules, { id: `rule-${Date.now()}`, brand: newRule.brand, workplaceIds: newRule.workplaceIds, isActive: true }]
+    }));
+    setNewRule(EMPTY_RULE);
   };
 
-  const handleDelete = (trainingId: string) => {
-    setTrainings(trainings.filter(t => t.id !== trainingId));
+  const handleExport = () => {
+    const rows = enrollments.map(enrollment => {
+      const course = getCourse(enrollment.courseId);
+      const certificate = certificates.find(candidate => candidate.enrollmentId === enrollment.id);
+      return [
+        enrollment.employeeName,
+        course?.title || enrollment.courseId,
+        enrollment.status,
+        enrollment.startDate,
+        enrollment.completedAt?.split('T')[0] || '',
+        enrollment.score ?? '',
+        certificate?.name || '',
+        certificate?.expiresAt?.split('T')[0] || ''
+      ];
+    });
+    const csv = formatCsv([['Employee', 'Course', 'Status', 'Start date', 'Completed', 'Score', 'Certificate', 'Expires'], ...rows]);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `training-${now.toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
   };
 
   const getStatusColor = (status: string) => {
@@ -174,7 +225,7 @@ const TrainingManagement: React.FC = () => {
       case 'completed': return 'text-green-600 bg-green-100';
       case 'in-progress': return 'text-blue-600 bg-blue-100';
       case 'scheduled': return 'text-yellow-600 bg-yellow-100';
-      case 'overdue': return 'text-red-600 bg-red-100';
+      case 'failed': return 'text-red-600 bg-red-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -184,7 +235,7 @@ const TrainingManagement: React.FC = () => {
       case 'completed': return <CheckCircle className="h-4 w-4" />;
       case 'in-progress': return <Clock className="h-4 w-4" />;
       case 'scheduled': return <Calendar className="h-4 w-4" />;
-      case 'overdue': return <AlertTriangle className="h-4 w-4" />;
+      case 'failed': return <XCircle className="h-4 w-4" />;
       default: return <Clock className="h-4 w-4" />;
     }
   };
@@ -196,7 +247,7 @@ const TrainingManagement: React.FC = () => {
     return 'text-red-600';
   };
 
-  const getCertificationStatusColor = (status: string) => {
+  const getCertificationStatusColor = (status: CertificateStatus) => {
     switch (status) {
       case 'active': return 'text-green-600 bg-green-100';
       case 'expired': return 'text-red-600 bg-red-100';
@@ -205,7 +256,7 @@ const TrainingManagement: React.FC = () => {
     }
   };
 
-  const getCertificationStatusIcon = (status: string) => {
+  const getCertificationStatusIcon = (status: CertificateStatus) => {
     switch (status) {
       case 'active': return <Award className="h-4 w-4" />;
       case 'expired': return <XCircle className="h-4 w-4" />;
@@ -214,27 +265,27 @@ const TrainingManagement: React.FC = () => {
     }
   };
 
-  const getModuleStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed': return 'text-green-600 bg-green-100';
-      case 'in-progress': return 'text-blue-600 bg-blue-100';
-      case 'not-started': return 'text-gray-600 bg-gray-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
-  };
+  const trainingTypes = Array.from(new Set(courses.map(course => course.trainingType)));
+  const brands = Array.from(new Set(courses.map(course => course.brand).filter((brand): brand is string => !!brand)));
+
+  const filteredEnrollments = enrollments.filter(enrollment => {
+    const course = getCourse(enrollment.courseId);
+    const workplace = getWorkplace(getEmployee(enrollment.employeeId)?.workplaceId);
+    const matchesSearch = enrollment.employeeName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (course?.title || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (workplace?.name || '').toLowerCase().includes(searchTerm.toLowerCase());
+
+    const matchesStatus = filterStatus === 'all' || enrollment.status === filterStatus;
+    const matchesType = filterType === 'all' || course?.trainingType === filterType;
+    const matchesWorkplace = filterWorkplace === 'all' || workplace?.id === filterWorkplace;
 
-  const filteredTrainings = trainings.filter(training => {
-    const matchesSearch = training.employeeName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         training.trainingProgram.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         training.workplaceName.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = filterStatus === 'all' || training.status === filterStatus;
-    const matchesType = filterType === 'all' || training.trainingType === filterType;
-    const matchesWorkplace = filterWorkplace === 'all' || training.workplaceId === filterWorkplace;
-    
     return matchesSearch && matchesStatus && matchesType && matchesWorkplace;
   });
 
+  const playing = enrollments.find(enrollment => enrollment.id === playingId);
+  const playingCourse = playing && getCourse(playing.courseId);
+  const currentModule = playing && playingCourse && getCurrentModule(playing, playingCourse);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -244,7 +295,10 @@ const TrainingManagement: React.FC = () => {
           <p className="text-gray-600">Employee training tracking and certification</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
             <Download className="h-4 w-4 mr-2" />
             Export Report
           </button>
@@ -268,7 +322,7 @@ const TrainingManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Trainings</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.totalTrainings}</p>
-              <p className="text-sm text-blue-600">This quarter</p>
+              <p className="text-sm text-blue-600">{dashboardStats.completedTrainings} completed</p>
             </div>
           </div>
         </div>
@@ -281,7 +335,7 @@ const TrainingManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Average Score</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.averageScore}%</p>
-              <p className="text-sm text-green-600">+3.2% from last quarter</p>
+              <p className="text-sm text-green-600">Completed courses</p>
             </div>
           </div>
         </div>
@@ -294,7 +348,7 @@ const TrainingManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Certification Rate</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.certificationRate}%</p>
-              <p className="text-sm text-indigo-600">Employees certified</p>
+              <p className="text-sm text-indigo-600">Employees with a valid certificate</p>
             </div>
           </div>
         </div>
@@ -307,12 +361,53 @@ const TrainingManagement: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Expiring Soon</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.expiringCertifications}</p>
-              <p className="text-sm text-orange-600">Certifications</p>
+              <p className="text-sm text-orange-600">{dashboardStats.expiredCertifications} already expired</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Courses */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Courses</h3>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          {courses.map(course => (
+            <div key={course.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{course.title}</div>
+                  <div className="text-xs text-gray-500">{course.trainingType}{course.brand ? ` · ${course.brand}` : ''}</div>
+                </div>
+                <BookOpen className="h-5 w-5 text-blue-600" />
+              </div>
+              {course.description && <p className="text-sm text-gray-600 mt-2">{course.description}</p>}
+              <ol className="mt-3 space-y-1 text-sm text-gray-700 list-decimal list-inside">
+                {course.modules.map(module => (
+                  <li key={module.id}>
+                    {module.title}
+                    <span className="text-xs text-gray-500">
+                      {' '}({module.durationMinutes} min{module.quiz?.length ? `, ${module.quiz.length}-question quiz` : ''})
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              <div className="mt-3 text-xs text-gray-500 space-y-1">
+                <div>Pass mark {course.passThreshold}%{course.maxAttempts ? `, ${course.maxAttempts} attempts per quiz` : ''}</div>
+                {course.certificateName && (
+                  <div className="flex items-center">
+                    <Award className="h-3 w-3 mr-1" />
+                    {course.certificateName}
+                    {course.certificateValidityMonths ? `, valid ${course.certificateValidityMonths} months` : ''}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -341,7 +436,7 @@ const TrainingManagement: React.FC = () => {
               <option value="completed">Completed</option>
               <option value="in-progress">In Progress</option>
               <option value="scheduled">Scheduled</option>
-              <option value="overdue">Overdue</option>
+              <option value="failed">Failed</option>
             </select>
           </div>
 
@@ -353,10 +448,9 @@ const TrainingManagement: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Types</option>
-              <option value="Product Training">Product Training</option>
-              <option value="Soft Skills">Soft Skills</option>
-              <option value="Technical Training">Technical Training</option>
-              <option value="Safety Training">Safety Training</option>
+              {trainingTypes.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
             </select>
           </div>
 
@@ -368,9 +462,9 @@ const TrainingManagement: React.FC = () => {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Workplaces</option>
-              <option value="1">BIG ONE Handels GmbH</option>
-              <option value="2">SamsungZeil Showcase</option>
-              <option value="3">3K-Kuechen Esslingen</option>
+              {WORKPLACES.map(workplace => (
+                <option key={workplace.id} value={workplace.id}>{workplace.name}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -379,13 +473,7 @@ const TrainingManagement: React.FC = () => {
       {/* Trainings List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
-          <div className="flex items-center justify-between">
-            <h3 className="text-lg font-medium text-gray-900">Training Programs</h3>
-            <button className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
-              <Download className="h-4 w-4 mr-1" />
-              Export
-            </button>
-          </div>
+          <h3 className="text-lg font-medium text-gray-900">Training Programs</h3>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -401,120 +489,304 @@ const TrainingManagement: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredTrainings.map((training) => (
-                <tr key={training.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{training.employeeName}</div>
-                      <div className="text-sm text-gray-500">{training.workplaceName}</div>
-                      <div className="text-xs text-gray-400">{training.workplaceCode}</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{training.trainingProgram}</div>
-                      <div className="text-sm text-gray-500">{training.trainingType}</div>
-                      <div className="text-xs text-gray-400">{training.duration}h duration</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">
-                        {training.modules.filter(m => m.status === 'completed').length}/{training.modules.length} modules
+              {filteredEnrollments.map((enrollment) => {
+                const course = getCourse(enrollment.courseId);
+                const workplace = getWorkplace(getEmployee(enrollment.employeeId)?.workplaceId);
+                const progress = course ? getEnrollmentProgress(enrollment, course) : { completedModules: 0, totalModules: 0, percent: 0 };
+                const certificate = certificates.find(candidate => candidate.enrollmentId === enrollment.id);
+                const certificateStatus = certificate && getCertificateStatus(certificate, now);
+                const open = enrollment.status === 'scheduled' || enrollment.status === 'in-progress';
+                return (
+                  <tr key={enrollment.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{enrollment.employeeName}</div>
+                        <div className="text-sm text-gray-500">{workplace?.name}</div>
+                        <div className="text-xs text-gray-400">{workplace?.code}</div>
                       </div>
-                      <div className="text-sm text-gray-500">{training.trainer}</div>
-                      <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
-                        <div 
-                          className={`h-2 rounded-full ${
-                            training.status === 'completed' ? 'bg-green-500' : 
-                            training.status === 'in-progress' ? 'bg-blue-500' : 'bg-gray-400'
-                          }`}
-                          style={{ 
-                            width: `${training.status === 'completed' ? 100 : 
-                                   training.status === 'in-progress' ? 
-                                   (training.modules.filter(m => m.status === 'completed').length / training.modules.length) * 100 : 0}%` 
-                          }}
-                        ></div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{course?.title || enrollment.courseId}</div>
+                        <div className="text-sm text-gray-500">{course?.trainingType}</div>
+                        <div className="text-xs text-gray-400">
+                          {course ? Math.round(course.modules.reduce((sum, module) => sum + module.durationMinutes, 0) / 6) / 10 : 0}h duration
+                        </div>
                       </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(training.status)}`}>
-                      {getStatusIcon(training.status)}
-                      <span className="ml-1">{training.status.replace('-', ' ')}</span>
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    {training.certification ? (
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
                       <div>
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getCertificationStatusColor(training.certification.status)}`}>
-                          {getCertificationStatusIcon(training.certification.status)}
-                          <span className="ml-1">{training.certification.status}</span>
-                        </span>
-                        <div className="text-xs text-gray-500 mt-1">
-                          Expires: {training.certification.expiryDate}
+                        <div className="text-sm font-medium text-gray-900">
+                          {progress.completedModules}/{progress.totalModules} modules
+                        </div>
+                        <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                          <div
+                            className={`h-2 rounded-full ${
+                              enrollment.status === 'completed' ? 'bg-green-500' :
+                              enrollment.status === 'failed' ? 'bg-red-500' : 'bg-blue-500'
+                            }`}
+                            style={{ width: `${progress.percent}%` }}
+                          ></div>
                         </div>
                       </div>
-                    ) : (
-                      <div className="text-sm text-gray-500">No certification</div>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className={`text-sm font-medium ${getScoreColor(training.score)}`}>
-                        {training.score > 0 ? `${training.score}%` : 'Pending'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(enrollment.status)}`}>
+                        {getStatusIcon(enrollment.status)}
+                        <span className="ml-1">{enrollment.status.replace('-', ' ')}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {certificate && certificateStatus ? (
+                        <div>
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getCertificationStatusColor(certificateStatus)}`}>
+                            {getCertificationStatusIcon(certificateStatus)}
+                            <span className="ml-1">{certificateStatus.replace('-', ' ')}</span>
+                          </span>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {certificate.expiresAt ? `Expires: ${certificate.expiresAt.split('T')[0]}` : 'Does not expire'}
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="text-sm text-gray-500">No certification</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className={`text-sm font-medium ${getScoreColor(enrollment.score || 0)}`}>
+                          {enrollment.score !== undefined ? `${enrollment.score}%` : 'Pending'}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {enrollment.startDate} - {enrollment.completedAt?.split('T')[0] || 'Ongoing'}
+                        </div>
                       </div>
-                      <div className="text-sm text-gray-500">
-                        {training.startDate} - {training.completionDate || 'Ongoing'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center space-x-2">
+                        {open && course && (
+                          <button
+                            onClick={() => handleOpenPlayer(enrollment.id)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title={enrollment.status === 'scheduled' ? 'Start course' : 'Continue course'}
+                          >
+                            <PlayCircle className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(enrollment.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
                       </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleEdit(training)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(training.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                      <button className="text-gray-600 hover:text-gray-900">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
       </div>
 
-      {/* Add/Edit Modal Placeholder */}
+      {/* Certification Rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-indigo-600" />
+            Certification Rules
+          </h3>
+          <p className="text-sm text-gray-500">Employees need a valid brand certificate before they can be assigned to these workplaces</p>
+        </div>
+        <div className="p-6 space-y-4">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">Must be certified for {rule.brand}</div>
+                <div className="text-xs text-gray-500">
+                  {rule.workplaceIds.map(id => getWorkplace(id)?.name || id).join(', ')}
+                </div>
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.isActive}
+                  onChange={() => handleToggleRule(rule.id)}
+                  className="mr-2"
+                />
+                Enforced
+              </label>
+            </div>
+          ))}
+          <div className="border-t border-gray-200 pt-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+              <select
+                value={newRule.brand}
+                onChange={(e) => setNewRule({ ...newRule, brand: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select brand</option>
+                {brands.map(brand => (
+                  <option key={brand} value={brand}>{brand}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Workplaces</label>
+              <div className="space-y-1">
+                {WORKPLACES.map(workplace => (
+                  <label key={workplace.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={newRule.workplaceIds.includes(workplace.id)}
+                      onChange={() => setNewRule({
+                        ...newRule,
+                        workplaceIds: newRule.workplaceIds.includes(workplace.id)
+                          ? newRule.workplaceIds.filter(id => id !== workplace.id)
+                          : [...newRule.workplaceIds, workplace.id]
+                      })}
+                      className="mr-2"
+                    />
+                    {workplace.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <button
+                onClick={handleAddRule}
+                disabled={!newRule.brand || !newRule.workplaceIds.length}
+                className="btn-primary disabled:opacity-50"
+              >
+                Add Rule
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Course Player Modal */}
+      {playing && playingCourse && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{playingCourse.title}</h3>
+                <p className="text-sm text-gray-500">
+                  {playing.employeeName} · {getEnrollmentProgress(playing, playingCourse).completedModules}/{playingCourse.modules.length} modules completed
+                </p>
+              </div>
+
+              {playerMessage && (
+                <div className="p-3 rounded-md bg-blue-50 text-sm text-blue-800">{playerMessage}</div>
+              )}
+
+              {currentModule && playing.status !== 'failed' ? (
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-md font-medium text-gray-900">{currentModule.title}</h4>
+                    <p className="text-sm text-gray-700 mt-1">{currentModule.content}</p>
+                  </div>
+                  {currentModule.quiz?.length ? (
+                    <div className="space-y-4">
+                      <div className="text-xs text-gray-500">
+                        Pass mark {currentModule.passThreshold ?? playingCourse.passThreshold}%
+                        {getRemainingAttempts(playing, playingCourse, currentModule.id) !== null &&
+                          ` · ${getRemainingAttempts(playing, playingCourse, currentModule.id)} attempts left`}
+                      </div>
+                      {currentModule.quiz.map(question => {
+                        const multiple = question.correctOptions.length > 1;
+                        return (
+                          <div key={question.id}>
+                            <div className="text-sm font-medium text-gray-900">
+                              {question.prompt}
+                              {multiple && <span className="text-xs text-gray-500"> (select all that apply)</span>}
+                            </div>
+                            <div className="mt-1 space-y-1">
+                              {question.options.map((option, index) => (
+                                <label key={index} className="flex items-center text-sm text-gray-700">
+                                  <input
+                                    type={multiple ? 'checkbox' : 'radio'}
+                                    name={question.id}
+                                    checked={(answers[question.id] || []).includes(index)}
+                                    onChange={() => handleToggleAnswer(question.id, index, multiple)}
+                                    className="mr-2"
+                                  />
+                                  {option}
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button onClick={() => setPlayingId(null)} className="btn-secondary">
+                  Close
+                </button>
+                {currentModule && playing.status !== 'failed' && (
+                  <button
+                    onClick={() => handleSubmitModule(playing, playingCourse, currentModule.id)}
+                    className="btn-primary"
+                  >
+                    {currentModule.quiz?.length ? 'Submit Quiz' : 'Mark Module Complete'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Schedule Training Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3 text-center">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">
-                {editingTraining ? 'Edit Training' : 'Schedule Training'}
-              </h3>
-              <p className="text-sm text-gray-500 mb-4">
-                {editingTraining ? 'Update training details' : 'Schedule new training program'}
-              </p>
-              <div className="flex justify-center space-x-4">
-                <button
-                  onClick={() => setShowAddModal(false)}
-                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">Schedule Training</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Employee</label>
+                <select
+                  value={newSchedule.employeeId}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, employeeId: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {EMPLOYEES.map(employee => (
+                    <option key={employee.id} value={employee.id}>{employee.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Course</label>
+                <select
+                  value={newSchedule.courseId}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, courseId: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
                 >
+                  {courses.map(course => (
+                    <option key={course.id} value={course.id}>{course.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Start Date</label>
+                <input
+                  type="date"
+                  value={newSchedule.startDate}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, startDate: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button onClick={() => setShowAddModal(false)} className="btn-secondary">
                   Cancel
                 </button>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
-                  {editingTraining ? 'Update' : 'Schedule'}
+                <button onClick={handleSchedule} disabled={!newSchedule.startDate} className="btn-primary disabled:opacity-50">
+                  Schedule
                 </button>
               </div>
             </div>
@@ -525,4 +797,4 @@ const TrainingManagement: React.FC = () => {
   );
 };
 
-export default TrainingManagement; 
\ No newline at end of file
+export default TrainingManagement;
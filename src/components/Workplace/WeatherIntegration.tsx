@@ -1,239 +1,269 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
-  Plus,
-  Pencil,
-  Trash2,
   Cloud,
   Search,
-  Filter,
   Download,
+  Upload,
   Sun,
   CloudRain,
   CloudSnow,
   Wind,
-  Eye,
   RefreshCw,
   MapPin,
   BarChart3,
-  TrendingUp,
-  Target,
   Calendar,
   Thermometer,
-  Umbrella,
-  AlertTriangle
+  AlertTriangle,
+  XCircle
 } from 'lucide-react';
+import {
+  WeatherColumnMapping,
+  WeatherCondition,
+  WeatherFactor,
+  WeatherImpact,
+  WeatherImpactMetric,
+  WeatherObservation
+} from '../../types';
+import {
+  createFixtureWeatherProvider,
+  describeWeatherImpact,
+  getWeatherRisks,
+  guessWeatherMapping,
+  loadWeatherObservations,
+  measureWeatherImpact,
+  mergeWeather,
+  parseWeatherRows,
+  refreshWeather,
+  saveWeatherObservations,
+  validateWeatherMapping,
+  WEATHER_COLUMNS,
+  WEATHER_FACTORS,
+  WEATHER_IMPACT_METRICS,
+  WeatherParseResult,
+  WeatherProvider
+} from '../../services/weatherImpact';
+import { loadActivityHistory } from '../../services/demandForecast';
+import { loadSalesTargetState } from '../../services/salesTargets';
+import { formatCsv, readSpreadsheetFile } from '../../services/spreadsheet';
+
+const WORKPLACES = [
+  { id: '1', name: 'BIG ONE Handels GmbH/ Os...', code: '20311', areaName: 'North', location: 'Osnabrück, Germany', latitude: 52.2799, longitude: 8.0472 },
+  { id: '2', name: '#SamsungZeil (Showcase)/ Fra...', code: '15235', areaName: 'Central', location: 'Frankfurt am Main, Germany', latitude: 50.1109, longitude: 8.6821 },
+  { id: '3', name: '3K-Kuechen Esslingen/ Essling...', code: '25280', areaName: 'South', location: 'Esslingen, Germany', latitude: 48.7406, longitude: 9.3108 }
+];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const HISTORY_START = '2025-07-07';
+
+// Demo weather for the twelve sample weeks of visit history and the coming ten days
+const demoObservation = (code: string, w: number, date: string, t: number): WeatherObservation => {
+  const wet = (2 * t + 3 * w) % 5 === 0 || t % 11 === 3;
+  const temperatureMax = Math.round(22 + 6 * Math.sin(t / 9) - w);
+  return {
+    date,
+    workplaceCode: code,
+    kind: date > today() ? 'forecast' : 'historical',
+    condition: wet ? 'rainy' : t % 3 === 0 ? 'partly-cloudy' : 'sunny',
+    temperatureMax,
+    temperatureMin: temperatureMax - 8,
+    precipitationMm: wet ? 4 + ((t + w) % 4) * 3 : 0,
+    windSpeedKmh: 10 + ((t * 3 + w) % 7) * 4,
+    source: 'fixture'
+  };
+};
+
+const DEMO_WEATHER: WeatherObservation[] = WORKPLACES.flatMap(({ code }, w) => {
+  const upcoming = Array.from({ length: 10 }, (_, i) => addDays(today(), i + 1));
+  const history = Array.from({ length: 84 }, (_, t) => addDays(HISTORY_START, t));
+  return [...history, ...upcoming].map(date => {
+    const t = Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${HISTORY_START}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+    return demoObservation(code, w, date, t);
+  });
+});
+
+const DEFAULT_PROVIDER = createFixtureWeatherProvider(DEMO_WEATHER);
+
+interface WeatherIntegrationProps {
+  provider?: WeatherProvider;    // Weather source for Refresh; the local fixture by default
+}
 
 /**
  * Weather Integration Component
- * 
- * This component provides comprehensive weather integration functionality including:
- * - Weather impact on operations
- * - Weather-based planning and scheduling
- * - Weather alerts and notifications
- * - Operational adjustments based on weather
- * - Weather analytics and reporting
- * - Seasonal planning tools
+ *
+ * This component provides weather impact analysis functionality including:
+ * - Import of historical and forecast weather from CSV/XLSX
+ * - Refresh from a pluggable weather provider
+ * - Weather joined to visits, attendance and sales per workplace
+ * - Impact per area or workplace, e.g. "Rain reduces visit completion 18% in Area North"
+ * - Upcoming days where journey plans should be rescheduled
+ * - Impact export
  */
-const WeatherIntegration: React.FC = () => {
-  const [weatherData, setWeatherData] = useState([
-    {
-      id: '1',
-      workplaceId: '1',
-      workplaceName: 'BIG ONE Handels GmbH/ Os...',
-      workplaceCode: '20311',
-      location: 'Osnabrück, Germany',
-      date: '2025-01-16',
-      currentWeather: {
-        temperature: 8,
-        feelsLike: 5,
-        humidity: 75,
-        windSpeed: 15,
-        condition: 'cloudy',
-        description: 'Partly cloudy with light rain'
-      },
-      forecast: [
-        {
-          time: '09:00',
-          temperature: 6,
-          condition: 'cloudy',
-          precipitation: 20
-        },
-        {
-          time: '12:00',
-          temperature: 9,
-          condition: 'partly-cloudy',
-          precipitation: 10
-        },
-        {
-          time: '15:00',
-          temperature: 7,
-          condition: 'rainy',
-          precipitation: 80
-        }
-      ],
-      impact: {
-        footTraffic: 'reduced',
-        deliveryDelays: 'moderate',
-        outdoorActivities: 'limited',
-        energyUsage: 'increased'
-      },
-      alerts: [
-        {
-          type: 'rain',
-          severity: 'moderate',
-          description: 'Light rain expected in afternoon'
-        }
-      ],
-      operationalAdjustments: [
-        'Increase indoor marketing focus',
-        'Prepare for delivery delays',
-        'Adjust staffing for reduced foot traffic'
-      ],
-      createdAt: '2025-01-16T06:00:00Z',
-      updatedAt: '2025-01-16T06:00:00Z'
-    },
-    {
-      id: '2',
-      workplaceId: '2',
-      workplaceName: '#SamsungZeil (Showcase)/ Fra...',
-      workplaceCode: '15235',
-      location: 'Frankfurt am Main, Germany',
-      date: '2025-01-16',
-      currentWeather: {
-        temperature: 12,
-        feelsLike: 10,
-        humidity: 65,
-        windSpeed: 20,
-        condition: 'sunny',
-        description: 'Clear skies with moderate wind'
-      },
-      forecast: [
-        {
-          time: '09:00',
-          temperature: 10,
-          condition: 'sunny',
-          precipitation: 0
-        },
-        {
-          time: '12:00',
-          temperature: 14,
-          condition: 'sunny',
-          precipitation: 0
-        },
-        {
-          time: '15:00',
-          temperature: 11,
-          condition: 'partly-cloudy',
-          precipitation: 5
-        }
-      ],
-      impact: {
-        footTraffic: 'normal',
-        deliveryDelays: 'minimal',
-        outdoorActivities: 'good',
-        energyUsage: 'normal'
-      },
-      alerts: [],
-      operationalAdjustments: [
-        'Maintain normal operations',
-        'Good conditions for outdoor displays'
-      ],
-      createdAt: '2025-01-16T06:00:00Z',
-      updatedAt: '2025-01-16T06:00:00Z'
-    },
-    {
-      id: '3',
-      workplaceId: '3',
-      workplaceName: '3K-Kuechen Esslingen/ Essling...',
-      workplaceCode: '25280',
-      location: 'Esslingen, Germany',
-      date: '2025-01-16',
-      currentWeather: {
-        temperature: 5,
-        feelsLike: 2,
-        humidity: 85,
-        windSpeed: 25,
-        condition: 'snowy',
-        description: 'Light snow with strong winds'
-      },
-      forecast: [
-        {
-          time: '09:00',
-          temperature: 3,
-          condition: 'snowy',
-          precipitation: 90
-        },
-        {
-          time: '12:00',
-          temperature: 4,
-          condition: 'snowy',
-          precipitation: 70
-        },
-        {
-          time: '15:00',
-          temperature: 2,
-          condition: 'cloudy',
-          precipitation: 30
-        }
-      ],
-      impact: {
-        footTraffic: 'significantly-reduced',
-        deliveryDelays: 'high',
-        outdoorActivities: 'cancelled',
-        energyUsage: 'high'
-      },
-      alerts: [
-        {
-          type: 'snow',
-          severity: 'high',
-          description: 'Heavy snow expected, travel disruptions likely'
-        }
-      ],
-      operationalAdjustments: [
-        'Reduce staffing due to weather',
-        'Prepare for delivery cancellations',
-        'Focus on online sales and support',
-        'Ensure heating systems are working'
-      ],
-      createdAt: '2025-01-16T06:00:00Z',
-      updatedAt: '2025-01-16T06:00:00Z'
-    }
-  ]);
+const WeatherIntegration: React.FC<WeatherIntegrationProps> = ({ provider = DEFAULT_PROVIDER }) => {
+  const [observations, setObservations] = useState<WeatherObservation[]>(() => loadWeatherObservations(DEMO_WEATHER));
+  const [activity] = useState(() => loadActivityHistory([]));
+  const [sellOut] = useState(() => loadSalesTargetState({ targets: [], sellOut: [], imports: [] }).sellOut);
 
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [editingWeather, setEditingWeather] = useState<any>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterCondition, setFilterCondition] = useState<string>('all');
-  const [filterImpact, setFilterImpact] = useState<string>('all');
-  const [filterWorkplace, setFilterWorkplace] = useState<string>('all');
+  const [scope, setScope] = useState<WeatherImpact['scope']>('area');
+  const [filterMetric, setFilterMetric] = useState<WeatherImpactMetric | 'all'>('visit-completion');
+  const [filterFactor, setFilterFactor] = useState<WeatherFactor | 'all'>('all');
+  const [onlySignificant, setOnlySignificant] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  // Weather import
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importFileName, setImportFileName] = useState('');
+  const [importRows, setImportRows] = useState<string[][]>([]);
+  const [importMapping, setImportMapping] = useState<WeatherColumnMapping>({});
+  const [importResult, setImportResult] = useState<WeatherParseResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveWeatherObservations(observations);
+  }, [observations]);
+
+  const impacts = useMemo(
+    () => measureWeatherImpact({ sellOut, activity }, observations, WORKPLACES, { scope }),
+    [sellOut, activity, observations, scope]
+  );
+
+  // Risks use workplace impacts where measured, otherwise the area's
+  const risks = useMemo(() => {
+    const allImpacts = [
+      ...measureWeatherImpact({ sellOut, activity }, observations, WORKPLACES, { scope: 'workplace', metrics: ['visit-completion'] }),
+      ...measureWeatherImpact({ sellOut, activity }, observations, WORKPLACES, { scope: 'area', metrics: ['visit-completion'] })
+    ];
+    return getWeatherRisks(observations, allImpacts, WORKPLACES, { from: today() });
+  }, [sellOut, activity, observations]);
+
+  const latestByWorkplace = useMemo(() => WORKPLACES.map(workplace => {
+    const own = observations.filter(observation => observation.workplaceCode === workplace.code);
+    const current = own.filter(observation => observation.date <= today()).pop();
+    const upcoming = own.filter(observation => observation.date > today()).slice(0, 3);
+    return { workplace, current, upcoming };
+  }), [observations]);
+
+  const filteredImpacts = impacts.filter(impact => {
+    const matchesSearch = impact.label.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         impact.key.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesMetric = filterMetric === 'all' || impact.metric === filterMetric;
+    const matchesFactor = filterFactor === 'all' || impact.factor === filterFactor;
+    return matchesSearch && matchesMetric && matchesFactor && (!onlySignificant || impact.significant);
+  });
 
   // Dashboard statistics
-  const dashboardStats = {
-    totalLocations: 45,
-    sunnyLocations: 18,
-    rainyLocations: 15,
-    snowyLocations: 8,
-    cloudyLocations: 4,
-    averageTemperature: 8.5,
-    weatherAlerts: 6,
-    operationalAdjustments: 23
+  const dashboardStats = useMemo(() => {
+    const observed = observations.filter(observation => observation.kind === 'historical');
+    const current = latestByWorkplace.flatMap(entry => (entry.current ? [entry.current.temperatureMax] : []));
+    return {
+      totalLocations: new Set(observations.map(observation => observation.workplaceCode)).size,
+      observedDays: observed.length,
+      averageTemperature: current.length ? Math.round((current.reduce((sum, value) => sum + value, 0) / current.length) * 10) / 10 : null,
+      significantImpacts: impacts.filter(impact => impact.significant).length,
+      reschedule: risks.filter(risk => risk.reschedule).length
+    };
+  }, [observations, latestByWorkplace, impacts, risks]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setRefreshError(null);
+    try {
+      const lastObserved = observations.filter(observation => observation.kind === 'historical').map(observation => observation.date).sort().pop();
+      const from = lastObserved ? addDays(lastObserved, 1) : addDays(today(), -84);
+      const updated = await refreshWeather(provider, {
+        workplaces: WORKPLACES.map(({ code, latitude, longitude }) => ({ code, latitude, longitude })),
+        from: from < today() ? from : today(),
+        to: addDays(today(), 10)
+      }, observations);
+      setObservations(updated);
+    } catch (error) {
+      setRefreshError(error instanceof Error ? error.message : 'Weather could not be refreshed');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const resetImport = () => {
+    setImportFileName('');
+    setImportRows([]);
+    setImportMapping({});
+    setImportResult(null);
+    setImportError(null);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    resetImport();
+    if (!file) return;
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (!rows.length) {
+        setImportError(`${file.name} is empty`);
+        return;
+      }
+      setImportFileName(file.name);
+      setImportRows(rows);
+      setImportMapping(guessWeatherMapping(rows[0]));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'The file could not be read');
+    }
   };
 
-  const handleAddWeather = () => {
-    setEditingWeather(null);
-    setShowAddModal(true);
+  const handleMappingChange = (column: keyof WeatherColumnMapping, header: string) => {
+    setImportMapping(prev => ({ ...prev, [column]: header || undefined }));
+    setImportResult(null);
   };
 
-  const handleEdit = (weather: any) => {
-    setEditingWeather(weather);
-    setShowAddModal(true);
+  const mappingProblems = importRows.length ? validateWeatherMapping(importMapping, importRows[0]) : [];
+
+  const handleCheckRows = () => {
+    try {
+      setImportResult(parseWeatherRows(importRows, importMapping, {
+        workplaceCodes: WORKPLACES.map(workplace => workplace.code),
+        source: importFileName,
+        importId: `weather-${Date.now()}`
+      }));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'The rows could not be checked');
+    }
   };
 
-  const handleDelete = (weatherId: string) => {
-    setWeatherData(weatherData.filter(w => w.id !== weatherId));
+  const handleConfirmImport = () => {
+    if (!importResult) return;
+    setObservations(prev => mergeWeather(prev, importResult.observations));
+    setShowImportModal(false);
+    resetImport();
   };
 
-  const getWeatherIcon = (condition: string) => {
+  const handleExport = () => {
+    const rows = filteredImpacts.map(impact => [
+      impact.scope,
+      impact.label,
+      impact.factor,
+      impact.metric,
+      impact.factorDays,
+      impact.baselineDays,
+      impact.factorValue,
+      impact.baselineValue,
+      impact.changePercentage,
+      impact.significant ? 'yes' : 'no'
+    ]);
+    const csv = formatCsv([['Scope', 'Name', 'Factor', 'Metric', 'Factor days', 'Plain days', 'Factor value', 'Plain value', 'Change %', 'Significant'], ...rows]);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `weather-impact-${today()}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const getWeatherIcon = (condition: WeatherCondition) => {
     switch (condition) {
       case 'sunny': return <Sun className="h-6 w-6 text-yellow-500" />;
       case 'cloudy': return <Cloud className="h-6 w-6 text-gray-500" />;
@@ -245,49 +275,28 @@ const WeatherIntegration: React.FC = () => {
     }
   };
 
-  const getWeatherColor = (condition: string) => {
-    switch (condition) {
-      case 'sunny': return 'text-yellow-600 bg-yellow-100';
-      case 'cloudy': return 'text-gray-600 bg-gray-100';
-      case 'partly-cloudy': return 'text-blue-600 bg-blue-100';
-      case 'rainy': return 'text-blue-600 bg-blue-100';
-      case 'snowy': return 'text-blue-300 bg-blue-50';
-      case 'windy': return 'text-gray-600 bg-gray-100';
+  const getFactorColor = (factor: WeatherFactor) => {
+    switch (factor) {
+      case 'rain': return 'text-blue-600 bg-blue-100';
+      case 'snow': return 'text-blue-300 bg-blue-50';
+      case 'heat': return 'text-orange-600 bg-orange-100';
+      case 'cold': return 'text-indigo-600 bg-indigo-100';
+      case 'wind': return 'text-gray-600 bg-gray-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
 
-  const getImpactColor = (impact: string) => {
-    switch (impact) {
-      case 'normal': return 'text-green-600 bg-green-100';
-      case 'reduced': return 'text-orange-600 bg-orange-100';
-      case 'significantly-reduced': return 'text-red-600 bg-red-100';
-      case 'minimal': return 'text-green-600 bg-green-100';
-      case 'moderate': return 'text-orange-600 bg-orange-100';
-      case 'high': return 'text-red-600 bg-red-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
+  const getChangeColor = (change: number) => {
+    if (change <= -10) return 'text-red-600 bg-red-100';
+    if (change < 0) return 'text-orange-600 bg-orange-100';
+    return 'text-green-600 bg-green-100';
   };
 
-  const getAlertSeverityColor = (severity: string) => {
-    switch (severity) {
-      case 'low': return 'text-green-600 bg-green-100';
-      case 'moderate': return 'text-orange-600 bg-orange-100';
-      case 'high': return 'text-red-600 bg-red-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
-  };
+  const factorLabel = (factor: WeatherFactor) => WEATHER_FACTORS.find(entry => entry.value === factor)?.label || factor;
 
-  const filteredWeatherData = weatherData.filter(weather => {
-    const matchesSearch = weather.workplaceName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         weather.location.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesCondition = filterCondition === 'all' || weather.currentWeather.condition === filterCondition;
-    const matchesImpact = filterImpact === 'all' || weather.impact.footTraffic === filterImpact;
-    const matchesWorkplace = filterWorkplace === 'all' || weather.workplaceId === filterWorkplace;
-    
-    return matchesSearch && matchesCondition && matchesImpact && matchesWorkplace;
-  });
+  const formatMetricValue = (metric: WeatherImpactMetric, value: number) => (metric === 'sales'
+    ? new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(value)
+    : `${value}%`);
 
   return (
     <div className="space-y-6">
@@ -295,23 +304,31 @@ const WeatherIntegration: React.FC = () => {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Weather Integration</h2>
-          <p className="text-gray-600">Weather impact on operations and planning</p>
+          <p className="text-gray-600">How weather changes visits, attendance and sales, and where to reschedule ahead of it</p>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh Data
+          <button
+            onClick={handleRefresh}
+            disabled={refreshing}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh from {provider.name}
           </button>
           <button
-            onClick={handleAddWeather}
+            onClick={() => setShowImportModal(true)}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Location
+            <Upload className="h-4 w-4 mr-2" />
+            Import Weather
           </button>
         </div>
       </div>
 
+      {refreshError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{refreshError}</div>
+      )}
+
       {/* Dashboard Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -320,9 +337,9 @@ const WeatherIntegration: React.FC = () => {
               <MapPin className="h-8 w-8 text-blue-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Total Locations</p>
+              <p className="text-sm font-medium text-gray-500">Locations</p>
               <p className="text-2xl font-bold text-gray-900">{dashboardStats.totalLocations}</p>
-              <p className="text-sm text-blue-600">Weather monitored</p>
+              <p className="text-sm text-blue-600">{dashboardStats.observedDays} observed days</p>
             </div>
           </div>
         </div>
@@ -333,8 +350,10 @@ const WeatherIntegration: React.FC = () => {
               <Thermometer className="h-8 w-8 text-orange-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Avg Temperature</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.averageTemperature}°C</p>
+              <p className="text-sm font-medium text-gray-500">Avg High Today</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {dashboardStats.averageTemperature === null ? '–' : `${dashboardStats.averageTemperature}°C`}
+              </p>
               <p className="text-sm text-orange-600">Across all locations</p>
             </div>
           </div>
@@ -343,12 +362,12 @@ const WeatherIntegration: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <AlertTriangle className="h-8 w-8 text-red-600" />
+              <BarChart3 className="h-8 w-8 text-indigo-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Weather Alerts</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.weatherAlerts}</p>
-              <p className="text-sm text-red-600">Active alerts</p>
+              <p className="text-sm font-medium text-gray-500">Significant Impacts</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.significantImpacts}</p>
+              <p className="text-sm text-indigo-600">By {scope}</p>
             </div>
           </div>
         </div>
@@ -356,27 +375,59 @@ const WeatherIntegration: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center">
             <div className="flex-shrink-0">
-              <Target className="h-8 w-8 text-indigo-600" />
+              <AlertTriangle className="h-8 w-8 text-red-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Adjustments</p>
-              <p className="text-2xl font-bold text-gray-900">{dashboardStats.operationalAdjustments}</p>
-              <p className="text-sm text-indigo-600">Made today</p>
+              <p className="text-sm font-medium text-gray-500">Reschedule</p>
+              <p className="text-2xl font-bold text-gray-900">{dashboardStats.reschedule}</p>
+              <p className="text-sm text-red-600">Workplace-days at risk</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Current Conditions */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {latestByWorkplace.map(({ workplace, current, upcoming }) => (
+          <div key={workplace.code} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{workplace.name}</div>
+                <div className="text-xs text-gray-500">{workplace.location} · Area {workplace.areaName}</div>
+              </div>
+              {current && getWeatherIcon(current.condition)}
+            </div>
+            {current ? (
+              <div className="mt-2 text-sm text-gray-700">
+                {current.temperatureMax}°C, {current.precipitationMm} mm, wind {current.windSpeedKmh} km/h
+                <span className="text-xs text-gray-400 ml-1">({current.date})</span>
+              </div>
+            ) : (
+              <div className="mt-2 text-sm text-gray-500">No observations</div>
+            )}
+            <div className="flex space-x-3 mt-2">
+              {upcoming.map(entry => (
+                <div key={entry.date} className="flex items-center space-x-1 text-xs text-gray-500">
+                  <span>{entry.date.slice(5)}</span>
+                  {getWeatherIcon(entry.condition)}
+                  <span className="font-medium">{entry.temperatureMax}°</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search locations, workplaces..."
+                placeholder="Search areas, workplaces..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
@@ -385,58 +436,69 @@ const WeatherIntegration: React.FC = () => {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Weather Condition</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Group By</label>
             <select
-              value={filterCondition}
-              onChange={(e) => setFilterCondition(e.target.value)}
+              value={scope}
+              onChange={(e) => setScope(e.target.value as WeatherImpact['scope'])}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Conditions</option>
-              <option value="sunny">Sunny</option>
-              <option value="cloudy">Cloudy</option>
-              <option value="partly-cloudy">Partly Cloudy</option>
-              <option value="rainy">Rainy</option>
-              <option value="snowy">Snowy</option>
-              <option value="windy">Windy</option>
+              <option value="area">Area</option>
+              <option value="workplace">Workplace</option>
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Foot Traffic Impact</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Metric</label>
             <select
-              value={filterImpact}
-              onChange={(e) => setFilterImpact(e.target.value)}
+              value={filterMetric}
+              onChange={(e) => setFilterMetric(e.target.value as WeatherImpactMetric | 'all')}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Impacts</option>
-              <option value="normal">Normal</option>
-              <option value="reduced">Reduced</option>
-              <option value="significantly-reduced">Significantly Reduced</option>
+              <option value="all">All Metrics</option>
+              {WEATHER_IMPACT_METRICS.map(metric => (
+                <option key={metric.value} value={metric.value}>{metric.label.charAt(0).toUpperCase() + metric.label.slice(1)}</option>
+              ))}
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Workplace</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Weather</label>
             <select
-              value={filterWorkplace}
-              onChange={(e) => setFilterWorkplace(e.target.value)}
+              value={filterFactor}
+              onChange={(e) => setFilterFactor(e.target.value as WeatherFactor | 'all')}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="all">All Workplaces</option>
-              <option value="1">BIG ONE Handels GmbH</option>
-              <option value="2">SamsungZeil Showcase</option>
-              <option value="3">3K-Kuechen Esslingen</option>
+              <option value="all">All Weather</option>
+              {WEATHER_FACTORS.map(factor => (
+                <option key={factor.value} value={factor.value}>{factor.label}</option>
+              ))}
             </select>
           </div>
+
+          <div className="flex items-end">
+            <label className="inline-flex items-center text-sm text-gray-700 py-2">
+              <input
+                type="checkbox"
+                checked={onlySignificant}
+                onChange={(e) => setOnlySignificant(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Significant only
+            </label>
+          </div>
         </div>
       </div>
 
-      {/* Weather Data List */}
+      {/* Weather Impact List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
-            <h3 className="text-lg font-medium text-gray-900">Weather Data</h3>
-            <button className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
+            <h3 className="text-lg font-medium text-gray-900">Weather Impact</h3>
+            <button
+              onClick={handleExport}
+              disabled={!filteredImpacts.length}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
               <Download className="h-4 w-4 mr-1" />
               Export
             </button>
@@ -446,124 +508,215 @@ const WeatherIntegration: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current Weather</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Impact</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alerts</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weather</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">With / Without</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredWeatherData.map((weather) => (
-                <tr key={weather.id} className="hover:bg-gray-50">
+              {filteredImpacts.map((impact) => (
+                <tr key={`${impact.metric}|${impact.key}|${impact.factor}`} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{describeWeatherImpact(impact)}</div>
+                    {!impact.significant && <div className="text-xs text-gray-400">Not significant yet</div>}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{weather.workplaceName}</div>
-                      <div className="text-sm text-gray-500">{weather.location}</div>
-                      <div className="text-xs text-gray-400">{weather.date}</div>
-                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getFactorColor(impact.factor)}`}>
+                      {factorLabel(impact.factor)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {formatMetricValue(impact.metric, impact.factorValue)} / {formatMetricValue(impact.metric, impact.baselineValue)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {impact.factorDays} vs {impact.baselineDays}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center space-x-3">
-                      {getWeatherIcon(weather.currentWeather.condition)}
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">
-                          {weather.currentWeather.temperature}°C
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          Feels like {weather.currentWeather.feelsLike}°C
-                        </div>
-                        <div className="text-xs text-gray-400">
-                          {weather.currentWeather.description}
-                        </div>
-                      </div>
-                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getChangeColor(impact.changePercentage)}`}>
+                      {impact.changePercentage > 0 ? '+' : ''}{impact.changePercentage}%
+                    </span>
                   </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!filteredImpacts.length && (
+            <p className="px-6 py-4 text-sm text-gray-500">
+              {activity.length || sellOut.length
+                ? 'No weather impact for this selection.'
+                : 'Import visit and attendance history on Predictive Analytics, or sell-out on Sales Targets, to measure weather impact.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Upcoming Weather Risks */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="flex items-center text-lg font-medium text-gray-900">
+            <Calendar className="h-5 w-5 mr-2 text-gray-500" />
+            Upcoming Weather Risks
+          </h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workplace</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Visit Completion</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Journey Plan</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {risks.map((risk) => (
+                <tr key={`${risk.date}|${risk.workplaceCode}`} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{risk.date}</td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="space-y-1">
-                      {weather.forecast.slice(0, 2).map((forecast, index) => (
-                        <div key={index} className="flex items-center space-x-2">
-                          <span className="text-xs text-gray-500">{forecast.time}</span>
-                          <span className="text-xs font-medium">{forecast.temperature}°C</span>
-                          {getWeatherIcon(forecast.condition)}
-                        </div>
-                      ))}
-                    </div>
+                    <div className="text-sm font-medium text-gray-900">{risk.workplaceName}</div>
+                    <div className="text-sm text-gray-500">Area {risk.areaName}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="space-y-1">
-                      <div className="text-sm">
-                        <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getImpactColor(weather.impact.footTraffic)}`}>
-                          Traffic: {weather.impact.footTraffic}
-                        </span>
-                      </div>
-                      <div className="text-sm">
-                        <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getImpactColor(weather.impact.deliveryDelays)}`}>
-                          Delivery: {weather.impact.deliveryDelays}
+                    <div className="flex flex-wrap gap-1">
+                      {risk.factors.map(factor => (
+                        <span key={factor} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getFactorColor(factor)}`}>
+                          {factorLabel(factor)}
                         </span>
-                      </div>
+                      ))}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="space-y-1">
-                      {weather.alerts.length > 0 ? (
-                        weather.alerts.map((alert, index) => (
-                          <span key={index} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getAlertSeverityColor(alert.severity)}`}>
-                            {alert.type}: {alert.severity}
-                          </span>
-                        ))
-                      ) : (
-                        <span className="text-xs text-gray-500">No alerts</span>
-                      )}
-                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getChangeColor(risk.expectedChange)}`}>
+                      {risk.expectedChange}%
+                    </span>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleEdit(weather)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(weather.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                      <button className="text-gray-600 hover:text-gray-900">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                    </div>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {risk.reschedule
+                      ? <span className="text-red-600 font-medium">Reschedule visits</span>
+                      : <span className="text-gray-500">Monitor</span>}
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
+          {!risks.length && (
+            <p className="px-6 py-4 text-sm text-gray-500">No forecast day is expected to reduce visit completion.</p>
+          )}
         </div>
       </div>
 
-      {/* Add/Edit Modal Placeholder */}
-      {showAddModal && (
+      {/* Weather Import Modal */}
+      {showImportModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3 text-center">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">
-                {editingWeather ? 'Edit Weather Data' : 'Add Weather Location'}
-              </h3>
-              <p className="text-sm text-gray-500 mb-4">
-                {editingWeather ? 'Update weather information' : 'Add new location for weather monitoring'}
-              </p>
-              <div className="flex justify-center space-x-4">
+          <div className="relative top-10 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Import Weather</h3>
+              <button
+                onClick={() => {
+                  setShowImportModal(false);
+                  resetImport();
+                }}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  CSV or XLSX file with daily observed or forecast weather per workplace
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => handleImportFile(e.target.files?.[0])}
+                  className="block w-full text-sm text-gray-700"
+                />
+              </div>
+
+              {importRows.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">
+                    Column mapping ({importRows.length - 1} rows in {importFileName})
+                  </h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {WEATHER_COLUMNS.map(({ column, label, required }) => (
+                      <div key={column}>
+                        <label className="block text-xs font-medium text-gray-700">
+                          {label}{required && <span className="text-red-500 ml-1">*</span>}
+                        </label>
+                        <select
+                          value={importMapping[column] || ''}
+                          onChange={(e) => handleMappingChange(column, e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">{required ? 'Select column' : 'Not in file'}</option>
+                          {importRows[0].map((header, index) => (
+                            <option key={`${header}-${index}`} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {mappingProblems.map(problem => (
+                    <p key={problem} className="text-xs text-orange-600 mt-2">{problem}</p>
+                  ))}
+                </div>
+              )}
+
+              {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+              {importResult && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-700">
+                    {importResult.observations.length} of {importResult.totalRows} rows are ready to import
+                    {importResult.errors.length > 0 && `; ${new Set(importResult.errors.map(error => error.row)).size} rows have errors and will be skipped`}.
+                  </p>
+                  {importResult.errors.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {importResult.errors.map((error, index) => (
+                            <tr key={index}>
+                              <td className="px-3 py-2 text-gray-900">{error.row}</td>
+                              <td className="px-3 py-2 text-gray-700">{error.field}</td>
+                              <td className="px-3 py-2 text-red-600">{error.error}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
                 <button
-                  onClick={() => setShowAddModal(false)}
-                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                  type="button"
+                  onClick={handleCheckRows}
+                  disabled={!importRows.length || mappingProblems.length > 0}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
                 >
-                  Cancel
+                  Check Rows
                 </button>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
-                  {editingWeather ? 'Update' : 'Add'}
+                <button
+                  type="button"
+                  onClick={handleConfirmImport}
+                  disabled={!importResult?.observations.length}
+                  className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Import {importResult?.observations.length || ''} Rows
                 </button>
               </div>
             </div>
@@ -574,4 +727,4 @@ const WeatherIntegration: React.FC = () => {
   );
 };
 
-export default WeatherIntegration; 
\ No newline at end of file
+export default WeatherIntegration;
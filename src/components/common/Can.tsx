@@ -0,0 +1,24 @@
+/**
+ * Can Component
+ *
+ * Renders its children only when the signed-in user may perform the action
+ * on the resource, and the fallback otherwise.
+ */
+
+import React, { ReactNode } from 'react';
+import { PermissionAction, PermissionResource, PermissionResourceType } from '../../types';
+import { useCan } from '../../contexts/AuthorizationContext';
+
+interface CanProps {
+  action: PermissionAction;
+  resource: PermissionResourceType | PermissionResource;
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export const Can: React.FC<CanProps> = ({ action, resource, fallback = null, children }) => {
+  const allowed = useCan(action, resource);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
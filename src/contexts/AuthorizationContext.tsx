@@ -0,0 +1,150 @@
+/**
+ * Authorization Context - Workforce Management Platform
+ *
+ * Evaluates what the signed-in user may do, using the policy evaluator in
+ * services/authorization.
+ *
+ * Features:
+ * - Resolves the signed-in user to a member of the directory
+ * - Policies from member role, group leadership and explicit grants
+ * - useCan(action, resource) hook for components
+ * - Explicit grants loaded from and saved to the backend; the server only
+ *   lets admins create or revoke them
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import {
+  AuthorizationDirectory,
+  Member,
+  PermissionAction,
+  PermissionDecision,
+  PermissionGrant,
+  PermissionPolicy,
+  PermissionResource,
+  PermissionResourceType
+} from '../types';
+import {
+  addPermissionGrant,
+  authorize as authorizeSubject,
+  createAuthorizationSubject,
+  resolveMember,
+  revokePermissionGrant
+} from '../services/authorization';
+import { permissionsAPI } from '../services/api';
+import { useAuth } from './AuthContext';
+
+// ===== TYPES =====
+
+interface AuthorizationContextType {
+  member: Member | null;
+  policies: PermissionPolicy[];
+  directory: AuthorizationDirectory;
+  authorize: (action: PermissionAction, resource: PermissionResourceType | PermissionResource) => PermissionDecision;
+  can: (action: PermissionAction, resource: PermissionResourceType | PermissionResource) => boolean;
+  addGrant: (grant: PermissionGrant) => Promise<void>;
+  revokeGrant: (grantId: string) => Promise<void>;
+}
+
+interface AuthorizationProviderProps {
+  children: ReactNode;
+  directory?: Omit<AuthorizationDirectory, 'grants'>; // Members and groups; the signed-in user alone when omitted
+}
+
+const EMPTY_DIRECTORY: Omit<AuthorizationDirectory, 'grants'> = { members: [], groups: [], groupMembers: [] };
+
+// ===== CONTEXT CREATION =====
+
+const AuthorizationContext = createContext<AuthorizationContextType | undefined>(undefined);
+
+// ===== MAIN COMPONENT =====
+
+export const AuthorizationProvider: React.FC<AuthorizationProviderProps> = ({ children, directory = EMPTY_DIRECTORY }) => {
+  const { user } = useAuth();
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+
+  // Admins receive every grant, other users the grants made to them
+  useEffect(() => {
+    setGrants([]);
+    if (!user) return;
+    let cancelled = false;
+    permissionsAPI.getGrants()
+      .then(res => {
+        if (!cancelled) setGrants((res.grants || []) as PermissionGrant[]);
+      })
+      .catch(error => {
+        console.error('Failed to load permission grants:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const fullDirectory = useMemo(() => ({ ...directory, grants }), [directory, grants]);
+
+  const subject = useMemo(
+    () => (user ? createAuthorizationSubject(resolveMember(fullDirectory, user), fullDirectory) : null),
+    [user, fullDirectory]
+  );
+
+  const authorize = useCallback(
+    (action: PermissionAction, resource: PermissionResourceType | PermissionResource): PermissionDecision =>
+      subject ? authorizeSubject(subject, action, resource) : { allowed: false, reason: 'Not signed in' },
+    [subject]
+  );
+
+  const can = useCallback(
+    (action: PermissionAction, resource: PermissionResourceType | PermissionResource) => authorize(action, resource).allowed,
+    [authorize]
+  );
+
+  // Rejects with AuthorizationError for invalid grants, or the API error the
+  // server returns, so forms can show the message
+  const addGrant = useCallback(async (grant: PermissionGrant) => {
+    addPermissionGrant(grants, grant, fullDirectory);
+    const { grantedBy, grantedAt, id, ...body } = grant;
+    const res = await permissionsAPI.createGrant(body);
+    const saved = (res.grant || grant) as PermissionGrant;
+    setGrants(prev => [...prev, saved]);
+  }, [grants, fullDirectory]);
+
+  const revokeGrant = useCallback(async (grantId: string) => {
+    await permissionsAPI.revokeGrant(grantId);
+    setGrants(prev => revokePermissionGrant(prev, grantId));
+  }, []);
+
+  const value: AuthorizationContextType = {
+    member: subject?.member || null,
+    policies: subject?.policies || [],
+    directory: fullDirectory,
+    authorize,
+    can,
+    addGrant,
+    revokeGrant
+  };
+
+  return (
+    <AuthorizationContext.Provider value={value}>
+      {children}
+    </AuthorizationContext.Provider>
+  );
+};
+
+// ===== HOOKS =====
+
+export const useAuthorization = (): AuthorizationContextType => {
+  const context = useContext(AuthorizationContext);
+  if (context === undefined) {
+    throw new Error('useAuthorization must be used within an AuthorizationProvider');
+  }
+  return context;
+};
+
+/**
+ * Whether the signed-in user may perform an action on a resource
+ * (or, given a bare resource type, on any resource of that type)
+ */
+export const useCan = (action: PermissionAction, resource: PermissionResourceType | PermissionResource): boolean =>
+  useAuthorization().can(action, resource);
@@ -0,0 +1,272 @@
+/**
+ * API Client Unit Tests
+ *
+ * Tests for the typed client and its interceptors including:
+ * - Operation paths, params, query and version headers
+ * - X-Request-ID tagging
+ * - 429 back-off with Retry-After
+ * - Token refresh and replay on 401
+ * - Typed errors for network failures and timeouts
+ */
+
+import {
+  ApiAuthError,
+  ApiError,
+  ApiNetworkError,
+  ApiRateLimitError,
+  createApiClient,
+  createAuthInterceptor,
+  createDefaultInterceptors,
+  createRateLimitInterceptor,
+  parseRetryAfter,
+  requestIdInterceptor
+} from '../client';
+import { API_VERSION } from '../schema';
+
+const mockResponse = (status: number, body?: unknown, headers: Record<string, string> = {}) => {
+  const lower = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  const text = body === undefined ? '' : JSON.stringify(body);
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    statusText: '',
+    headers: {
+      get: (name: string) => lower[name.toLowerCase()] ?? (body === undefined ? null : name.toLowerCase() === 'content-type' ? 'application/json' : null),
+    },
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(text),
+    blob: () => Promise.resolve(text),
+  } as unknown as Response;
+};
+
+const tokenExpiringIn = (seconds: number) =>
+  `header.${btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + seconds }))}.signature`;
+
+const headersOf = (fetchMock: jest.Mock, call = 0): Record<string, string> => fetchMock.mock.calls[call][1].headers;
+
+describe('API client', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('request', () => {
+    it('builds the URL from the operation, params and query', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(200, { todo: { id: 't 1' } }));
+      const client = createApiClient({ baseUrl: 'http://api.test', fetch: fetchMock, interceptors: [requestIdInterceptor] });
+
+      const data = await client.request('PUT /api/todos/{id}', {
+        params: { id: 't 1' },
+        body: { completed: true },
+        query: { notify: false, skip: undefined },
+      });
+
+      expect(data.todo?.id).toBe('t 1');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://api.test/api/todos/t%201?notify=false');
+      expect(init.method).toBe('PUT');
+      expect(init.body).toBe('{"completed":true}');
+      expect(headersOf(fetchMock)).toMatchObject({ 'X-API-Version': API_VERSION, 'Content-Type': 'application/json' });
+      expect(headersOf(fetchMock)['X-Request-ID']).toEqual(expect.any(String));
+    });
+
+    it('rejects a missing path parameter before sending', async () => {
+      const fetchMock = jest.fn();
+      const client = createApiClient({ baseUrl: 'http://api.test', fetch: fetchMock, interceptors: [] });
+
+      await expect(client.request('DELETE /api/todos/{id}', { params: {} as { id: string } }))
+        .rejects.toThrow('Missing path parameter "id" for /api/todos/{id}');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('surfaces server errors with status, code and request ID', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(400, { error: 'Title is required', code: 'validation' }));
+      const client = createApiClient({ baseUrl: 'http://api.test', fetch: fetchMock, interceptors: [requestIdInterceptor] });
+
+      const error = await client.request('POST /api/todos', { body: { title: '' } }).catch(err => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ message: 'Title is required', status: 400, code: 'validation' });
+      expect(error.requestId).toBe(headersOf(fetchMock)['X-Request-ID']);
+    });
+
+    it('maps network failures and timeouts to ApiNetworkError', async () => {
+      const offline = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: jest.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+        interceptors: [],
+      });
+      await expect(offline.request('GET /api/health')).rejects.toMatchObject({ name: 'ApiNetworkError', code: 'network' });
+
+      const hanging = jest.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      }));
+      const slow = createApiClient({ baseUrl: 'http://api.test', fetch: hanging as unknown as typeof fetch, interceptors: [], timeout: 5 });
+      const error = await slow.request('GET /api/health').catch(err => err);
+      expect(error).toBeInstanceOf(ApiNetworkError);
+      expect(error.code).toBe('timeout');
+    });
+
+    it('keeps the timeout when the caller passes its own signal', async () => {
+      const hanging = jest.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      }));
+      const client = createApiClient({ baseUrl: 'http://api.test', fetch: hanging as unknown as typeof fetch, interceptors: [], timeout: 5 });
+
+      await expect(client.send('/api/health', { signal: new AbortController().signal }))
+        .rejects.toMatchObject({ name: 'ApiNetworkError', code: 'timeout' });
+
+      const caller = new AbortController();
+      const cancelled = client.send('/api/health', { signal: caller.signal, timeout: 1000 }).catch(err => err);
+      caller.abort();
+      expect(await cancelled).toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('parses Retry-After as seconds or a date', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', new Date('2026-10-21T07:28:00Z'))).toBe(10000);
+      expect(parseRetryAfter(null)).toBeNull();
+    });
+
+    it('waits and retries 429 responses with the same request ID', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce(mockResponse(429, undefined, { 'Retry-After': '3' }))
+        .mockResolvedValueOnce(mockResponse(429))
+        .mockResolvedValueOnce(mockResponse(200, { status: 'ok' }));
+      const delay = jest.fn().mockResolvedValue(undefined);
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock,
+        interceptors: [requestIdInterceptor, createRateLimitInterceptor(3, delay)],
+      });
+
+      await expect(client.request('GET /api/health')).resolves.toEqual({ status: 'ok' });
+      expect(delay.mock.calls).toEqual([[3000, undefined], [2000, undefined]]);
+      expect(headersOf(fetchMock, 2)['X-Request-ID']).toBe(headersOf(fetchMock, 0)['X-Request-ID']);
+    });
+
+    it('gives up with ApiRateLimitError once retries run out', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(429, undefined, { 'Retry-After': '1' }));
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock,
+        interceptors: [createRateLimitInterceptor(1, () => Promise.resolve())],
+      });
+
+      const error = await client.request('GET /api/health').catch(err => err);
+      expect(error).toBeInstanceOf(ApiRateLimitError);
+      expect(error.retryAfterMs).toBe(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('times each attempt, so a Retry-After longer than the timeout still retries', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce(mockResponse(429, undefined, { 'Retry-After': '0.05' }))
+        .mockResolvedValueOnce(mockResponse(200, { status: 'ok' }));
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock,
+        interceptors: [createRateLimitInterceptor()],
+        timeout: 10,
+      });
+
+      await expect(client.request('GET /api/health')).resolves.toEqual({ status: 'ok' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops waiting when the caller cancels', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(429, undefined, { 'Retry-After': '30' }));
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock,
+        interceptors: [createRateLimitInterceptor()],
+      });
+
+      const caller = new AbortController();
+      const pending = client.send('/api/health', { signal: caller.signal }).catch(err => err);
+      await Promise.resolve();
+      caller.abort();
+      expect(await pending).toMatchObject({ name: 'AbortError' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('authentication', () => {
+    it('refreshes an expired session once and replays the request', async () => {
+      const oldToken = tokenExpiringIn(60);
+      const newToken = tokenExpiringIn(3600);
+      localStorage.setItem('authToken', oldToken);
+
+      const fetchMock = jest.fn((_url: string, init: RequestInit) => {
+        const auth = (init.headers as Record<string, string>).Authorization;
+        return Promise.resolve(auth === `Bearer ${newToken}` ? mockResponse(200, { todos: [] }) : mockResponse(401, { error: 'Expired' }));
+      });
+      const refresh = jest.fn().mockResolvedValue(newToken);
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock as unknown as typeof fetch,
+        interceptors: [createAuthInterceptor(refresh)],
+      });
+
+      const [first, second] = await Promise.all([client.request('GET /api/todos'), client.request('GET /api/todos')]);
+
+      expect(first).toEqual({ todos: [] });
+      expect(second).toEqual({ todos: [] });
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledWith(oldToken);
+      expect(localStorage.getItem('authToken')).toBe(newToken);
+    });
+
+    it('refreshes through auth-service at /api/auth/refresh-token', async () => {
+      const oldToken = tokenExpiringIn(60);
+      const newToken = tokenExpiringIn(3600);
+      localStorage.setItem('authToken', oldToken);
+
+      const fetchMock = jest.fn((url: string, init: RequestInit) => {
+        if (url.endsWith('/refresh-token')) return Promise.resolve(mockResponse(200, { token: newToken }));
+        const auth = (init.headers as Record<string, string>).Authorization;
+        return Promise.resolve(auth === `Bearer ${newToken}` ? mockResponse(200, { todos: [] }) : mockResponse(401, { error: 'Expired' }));
+      });
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock as unknown as typeof fetch,
+        interceptors: createDefaultInterceptors('http://api.test', fetchMock as unknown as typeof fetch),
+      });
+
+      await expect(client.request('GET /api/todos')).resolves.toEqual({ todos: [] });
+      expect(fetchMock.mock.calls[1][0]).toBe('http://api.test/api/auth/refresh-token');
+      expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: 'POST', headers: { Authorization: `Bearer ${oldToken}` } });
+    });
+
+    it('clears the session when the refresh fails', async () => {
+      localStorage.setItem('authToken', tokenExpiringIn(60));
+      localStorage.setItem('userData', '{}');
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: jest.fn().mockResolvedValue(mockResponse(401, { error: 'Expired' })),
+        interceptors: [createAuthInterceptor(() => Promise.resolve(null))],
+      });
+
+      const error = await client.request('GET /api/todos').catch(err => err);
+
+      expect(error).toBeInstanceOf(ApiAuthError);
+      expect(error.status).toBe(401);
+      expect(localStorage.getItem('authToken')).toBeNull();
+      expect(localStorage.getItem('userData')).toBeNull();
+    });
+
+    it('keeps an Authorization header the caller set', async () => {
+      localStorage.setItem('authToken', tokenExpiringIn(60));
+      const fetchMock = jest.fn().mockResolvedValue(mockResponse(200, { status: 'ok' }));
+      const client = createApiClient({
+        baseUrl: 'http://api.test',
+        fetch: fetchMock,
+        interceptors: [createAuthInterceptor(jest.fn())],
+      });
+
+      await client.send('/api/health', { headers: { Authorization: 'Bearer reset-token' } });
+      expect(headersOf(fetchMock).Authorization).toBe('Bearer reset-token');
+    });
+  });
+});
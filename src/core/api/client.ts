@@ -1,139 +1,504 @@
 /**
  * Core API Client
- * 
+ *
  * This module provides a centralized HTTP client for all API communication.
- * It handles authentication, request/response processing, and error handling.
+ * Operations described by backend/swagger.json are typed through the generated
+ * schema.ts, so a request or response that drifts from the contract fails the
+ * type check. Every request - typed or not - runs through the same interceptors:
+ * - Request IDs (X-Request-ID) for tracing a call through the gateway
+ * - 429 back-off honouring Retry-After
+ * - Bearer tokens with a single shared refresh on 401
+ * Failures surface as ApiError subclasses carrying status, code and request ID.
  */
 
-import { ApiResponse } from '../types';
+import { API_VERSION, ApiOperation, ApiOperations } from './schema';
 
 // ===== CONFIGURATION =====
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3010';
-const DEFAULT_TIMEOUT = 30000; // 30 seconds
-const RETRY_DELAY = 60000; // 1 minute for rate limiting
+const API_BASE_URL = process.env.REACT_APP_API_URL || process.env.REACT_APP_API_BASE_URL || 'http://localhost:8080';
+const DEFAULT_TIMEOUT = 30000; // 30 seconds per attempt, not counting 429 waits
+const REFRESH_PATH = '/api/auth/refresh-token'; // auth-service POST /refresh-token behind the gateway
+const MAX_RATE_LIMIT_RETRIES = 3;
+const RATE_LIMIT_BASE_DELAY = 1000; // doubled on every retry without Retry-After
+const MAX_RATE_LIMIT_DELAY = 60000; // 1 minute
+
+// ===== ERRORS =====
+
+export class ApiError<TBody = unknown> extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public code?: string,
+    public requestId?: string,
+    public body?: TBody
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * 401/403 that a token refresh could not fix
+ */
+export class ApiAuthError<TBody = unknown> extends ApiError<TBody> {
+  constructor(message: string, status: number, requestId?: string, body?: TBody) {
+    super(message, status, status === 401 ? 'unauthorized' : 'forbidden', requestId, body);
+    this.name = 'ApiAuthError';
+  }
+}
+
+/**
+ * 429 still returned after the back-off retries ran out
+ */
+export class ApiRateLimitError<TBody = unknown> extends ApiError<TBody> {
+  constructor(message: string, public retryAfterMs: number, requestId?: string, body?: TBody) {
+    super(message, 429, 'rate_limited', requestId, body);
+    this.name = 'ApiRateLimitError';
+  }
+}
+
+/**
+ * The request never got a response: offline, DNS, CORS or timeout
+ */
+export class ApiNetworkError extends ApiError<undefined> {
+  constructor(message: string, code: 'network' | 'timeout', requestId?: string) {
+    super(message, 0, code, requestId);
+    this.name = 'ApiNetworkError';
+  }
+}
+
+// ===== TYPES =====
+
+export type ApiResponseOf<K extends ApiOperation> = ApiOperations[K]['response'];
+
+export type ApiErrorBodyOf<K extends ApiOperation> = ApiOperations[K]['errors'][keyof ApiOperations[K]['errors']];
+
+export type ApiQueryOperation = Extract<ApiOperation, `GET ${string}`>;
+
+export type ApiMutationOperation = Exclude<ApiOperation, ApiQueryOperation>;
+
+type QueryValue = string | number | boolean | undefined;
+
+interface ApiCallBaseOptions {
+  query?: Record<string, QueryValue>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for a typed call: params and body are required exactly when the
+ * operation has path parameters or a request body
+ */
+export type ApiCallOptions<K extends ApiOperation> = ApiCallBaseOptions &
+  (ApiOperations[K]['params'] extends Record<string, never> ? { params?: undefined } : { params: ApiOperations[K]['params'] }) &
+  (ApiOperations[K]['body'] extends undefined ? { body?: undefined } : { body: ApiOperations[K]['body'] });
+
+export type ApiCallArgs<K extends ApiOperation> = {} extends ApiCallOptions<K>
+  ? [options?: ApiCallOptions<K>]
+  : [options: ApiCallOptions<K>];
+
+export interface ApiSendOptions extends RequestInit {
+  responseType?: 'json' | 'blob' | 'text';
+  timeout?: number;
+}
+
+export interface ApiRequestContext {
+  url: string;
+  init: Omit<RequestInit, 'headers'> & { headers: Record<string, string> };
+  attempt: number; // 0 for the first try, incremented by retrying interceptors
+}
+
+export type ApiInterceptor = (
+  request: ApiRequestContext,
+  next: (request: ApiRequestContext) => Promise<Response>
+) => Promise<Response>;
+
+export interface ApiClientConfig {
+  baseUrl: string;
+  interceptors?: ApiInterceptor[]; // outermost first; defaults to createDefaultInterceptors()
+  fetch?: typeof fetch;
+  timeout?: number;
+}
+
+export interface ApiClient {
+  baseUrl: string;
+  request: <K extends ApiOperation>(operation: K, ...args: ApiCallArgs<K>) => Promise<ApiResponseOf<K>>;
+  send: <T>(url: string, options?: ApiSendOptions) => Promise<T>;
+}
 
 // ===== UTILITY FUNCTIONS =====
 
+const abortError = () => Object.assign(new Error('The request was cancelled'), { name: 'AbortError' });
+
+/**
+ * Wait ms, rejecting with an AbortError as soon as signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Generate an ID for X-Request-ID, unique enough to find one call in the logs
+ */
+export const generateRequestId = (): string => {
+  const cryptoApi = typeof crypto !== 'undefined' ? (crypto as Crypto & { randomUUID?: () => string }) : undefined;
+  return cryptoApi?.randomUUID?.() || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
 /**
- * Get authentication headers for API requests
+ * Read a stored token, clearing the session if it is malformed or expired
  */
-const getAuthHeaders = (): Record<string, string> => {
+const getValidToken = (): string | null => {
   const token = localStorage.getItem('authToken');
-  
-  if (token) {
-    try {
-      // Decode JWT token to check expiration
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const currentTime = Date.now() / 1000;
-      
-      if (payload.exp && payload.exp < currentTime) {
-        // Token is expired, clear it
-        console.log('JWT token expired, clearing session');
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('userData');
-        return { 'Content-Type': 'application/json' };
-      }
-    } catch (error) {
-      // Invalid token format, clear it
-      console.log('Invalid JWT token format, clearing session');
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('userData');
-      return { 'Content-Type': 'application/json' };
+  if (!token) return null;
+
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    if (payload.exp && payload.exp < Date.now() / 1000) {
+      console.log('JWT token expired, clearing session');
+      clearAuth();
+      return null;
     }
+    return token;
+  } catch {
+    console.log('Invalid JWT token format, clearing session');
+    clearAuth();
+    return null;
   }
-  
-  return {
-    'Content-Type': 'application/json',
-    ...(token && { 'Authorization': `Bearer ${token}` })
-  };
 };
 
 /**
- * Handle API response and error handling
+ * Parse Retry-After, which is either seconds or an HTTP date
  */
-const handleResponse = async <T>(response: Response): Promise<T> => {
-  // Check if response is JSON
-  const contentType = response.headers.get('content-type');
-  if (!contentType || !contentType.includes('application/json')) {
-    // Handle non-JSON responses (like rate limiting HTML pages)
-    const text = await response.text();
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please wait a moment and try again.');
+export const parseRetryAfter = (header: string | null, now: Date = new Date()): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now.getTime());
+};
+
+const buildPath = (template: string, params: Record<string, string | number> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new ApiError(`Missing path parameter "${name}" for ${template}`, undefined, 'invalid_request');
     }
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    return encodeURIComponent(String(params[name]));
+  });
+
+const buildQuery = (query: Record<string, QueryValue> = {}): string => {
+  const entries = Object.entries(query).filter(([, value]) => value !== undefined);
+  if (!entries.length) return '';
+  return `?${entries.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`).join('&')}`;
+};
+
+/**
+ * Turn a failed response into the matching ApiError subclass
+ */
+const toApiError = async (response: Response, requestId?: string): Promise<ApiError> => {
+  const contentType = response.headers.get('content-type') || '';
+  const body = contentType.includes('application/json')
+    ? await response.json().catch(() => undefined)
+    : await response.text().catch(() => undefined);
+  const serverMessage = body && typeof body === 'object' ? (body.error || body.message) : undefined;
+  const id = response.headers.get('x-request-id') || requestId;
+
+  if (response.status === 429) {
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? MAX_RATE_LIMIT_DELAY;
+    return new ApiRateLimitError(
+      `Rate limit exceeded. Please wait ${Math.ceil(retryAfterMs / 1000)} seconds and try again.`,
+      retryAfterMs,
+      id,
+      body
+    );
   }
-  
-  const data = await response.json();
-  
-  if (!response.ok) {
-    throw new Error(data.error || `API request failed: ${response.status}`);
+  if (response.status === 401 || response.status === 403) {
+    return new ApiAuthError(
+      serverMessage || (response.status === 401 ? 'Your session has expired. Please log in again.' : 'You do not have permission to do this.'),
+      response.status,
+      id,
+      body
+    );
   }
-  
-  return data;
+  return new ApiError(
+    serverMessage || `API request failed: ${response.status} ${response.statusText}`.trim(),
+    response.status,
+    body && typeof body === 'object' ? body.code : undefined,
+    id,
+    body
+  );
 };
 
+// ===== INTERCEPTORS =====
+
 /**
- * Make an API request with proper error handling and retry logic
+ * Tag every request with an X-Request-ID, kept across retries of the same call
  */
-export const apiRequest = async <T>(
-  url: string, 
-  options: RequestInit = {}
-): Promise<T> => {
-  const fullUrl = url.startsWith('http') ? url : `${API_BASE_URL}${url}`;
-  
-  const config: RequestInit = {
-    ...options,
-    headers: {
-      ...getAuthHeaders(),
-      ...options.headers,
+export const requestIdInterceptor: ApiInterceptor = (request, next) =>
+  next({
+    ...request,
+    init: {
+      ...request.init,
+      headers: { 'X-Request-ID': generateRequestId(), ...request.init.headers },
     },
+  });
+
+/**
+ * Retry 429 responses after Retry-After, or with exponential back-off.
+ * The wait is cancelled with the caller's signal; the client timeout only
+ * covers each attempt, so a long Retry-After does not end as a timeout.
+ */
+export const createRateLimitInterceptor = (
+  maxRetries: number = MAX_RATE_LIMIT_RETRIES,
+  wait: (ms: number, signal?: AbortSignal | null) => Promise<void> = sleep
+): ApiInterceptor => async (request, next) => {
+  let response = await next(request);
+
+  for (let attempt = 1; response.status === 429 && attempt <= maxRetries; attempt++) {
+    const delay = parseRetryAfter(response.headers.get('retry-after')) ?? RATE_LIMIT_BASE_DELAY * Math.pow(2, attempt - 1);
+    if (delay > MAX_RATE_LIMIT_DELAY) break;
+
+    await wait(delay, request.init.signal);
+    response = await next({ ...request, attempt: request.attempt + attempt });
+  }
+
+  return response;
+};
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Attach the bearer token; on 401 refresh it once (shared by concurrent
+ * requests) and replay the request, clearing the session if that fails
+ */
+export const createAuthInterceptor = (
+  refresh: (token: string) => Promise<string | null>
+): ApiInterceptor => async (request, next) => {
+  const withToken = (token: string | null): ApiRequestContext => ({
+    ...request,
+    init: {
+      ...request.init,
+      headers: token && !request.init.headers.Authorization
+        ? { ...request.init.headers, Authorization: `Bearer ${token}` }
+        : request.init.headers,
+    },
+  });
+
+  const token = getValidToken();
+  const response = await next(withToken(token));
+  if (response.status !== 401 || !token || request.init.headers.Authorization) {
+    return response;
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = refresh(token)
+      .catch(() => null)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  const refreshed = await refreshInFlight;
+  if (!refreshed) {
+    clearAuth();
+    return response;
+  }
+
+  localStorage.setItem('authToken', refreshed);
+  return next(withToken(refreshed));
+};
+
+/**
+ * Exchange a token for a fresh one at REFRESH_PATH
+ */
+const refreshAt = (baseUrl: string, fetchImpl: typeof fetch) => async (token: string): Promise<string | null> => {
+  const response = await fetchImpl(`${baseUrl}${REFRESH_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  return data.token || null;
+};
+
+/**
+ * The interceptors every client uses unless it is configured otherwise.
+ * Tokens are issued by the main API, so they are refreshed there whatever
+ * the client's own base URL is.
+ */
+export const createDefaultInterceptors = (baseUrl: string = API_BASE_URL, fetchImpl: typeof fetch = fetch): ApiInterceptor[] => [
+  requestIdInterceptor,
+  createRateLimitInterceptor(),
+  createAuthInterceptor(refreshAt(baseUrl, (...args) => fetchImpl(...args))),
+];
+
+// ===== CLIENT =====
+
+/**
+ * Create a client for one base URL. Services on their own host (attendance,
+ * chat) create their own client so they share the interceptors, not the URL.
+ */
+export const createApiClient = (config: ApiClientConfig): ApiClient => {
+  const fetchImpl = config.fetch || ((...args: Parameters<typeof fetch>) => fetch(...args));
+  const interceptors = config.interceptors || createDefaultInterceptors(API_BASE_URL, fetchImpl);
+
+  /**
+   * Send one attempt with its own timeout, linked to the caller's signal so
+   * cancelling still works while the timeout keeps applying
+   */
+  const fetchWithTimeout = async (request: ApiRequestContext, timeout: number): Promise<Response> => {
+    const callerSignal = request.init.signal;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    if (callerSignal?.aborted) controller.abort();
+    callerSignal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await fetchImpl(request.url, { ...request.init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new ApiNetworkError('The server took too long to respond. Please try again.', 'timeout', request.init.headers['X-Request-ID']);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onAbort);
+    }
   };
 
-  try {
-    const response = await fetch(fullUrl, config);
-    return await handleResponse<T>(response);
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
-      // Store rate limit timestamp to prevent immediate retries
-      const lastRateLimit = localStorage.getItem('lastRateLimit');
-      const now = Date.now();
-      
-      if (!lastRateLimit || (now - parseInt(lastRateLimit)) > RETRY_DELAY) {
-        localStorage.setItem('lastRateLimit', now.toString());
+  // onSend sees the request as it finally leaves, after every interceptor
+  const dispatch = (
+    request: ApiRequestContext,
+    index: number,
+    timeout: number,
+    onSend: (request: ApiRequestContext) => void
+  ): Promise<Response> => {
+    if (index < interceptors.length) {
+      return interceptors[index](request, next => dispatch(next, index + 1, timeout, onSend));
+    }
+    onSend(request);
+    return fetchWithTimeout(request, timeout);
+  };
+
+  const send = async <T>(url: string, options: ApiSendOptions = {}): Promise<T> => {
+    const { responseType = 'json', timeout = config.timeout ?? DEFAULT_TIMEOUT, headers, ...init } = options;
+
+    const request: ApiRequestContext = {
+      url: url.startsWith('http') ? url : `${config.baseUrl}${url}`,
+      init: {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          'X-API-Version': API_VERSION,
+          ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+          ...(headers as Record<string, string> | undefined),
+        },
+      },
+      attempt: 0,
+    };
+
+    let response: Response;
+    let sentRequestId: string | undefined;
+    try {
+      response = await dispatch(request, 0, timeout, final => {
+        sentRequestId = final.init.headers['X-Request-ID'];
+      });
+    } catch (error) {
+      if (error instanceof ApiError) throw error; // an attempt timed out
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw error; // cancelled by the caller
       }
-      
-      throw new Error('Rate limit exceeded. Please wait 1 minute before trying again.');
+      throw new ApiNetworkError('Network error. Please check your connection and try again.', 'network', sentRequestId);
     }
-    
-    throw error;
-  }
+
+    const requestId = response.headers.get('x-request-id') || sentRequestId;
+    if (!response.ok) {
+      throw await toApiError(response, requestId);
+    }
+    if (responseType === 'blob') return (await response.blob()) as unknown as T;
+    if (responseType === 'text') return (await response.text()) as unknown as T;
+
+    const text = await response.text();
+    if (!text) return undefined as unknown as T;
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ApiError(`Expected JSON from ${request.url}`, response.status, 'invalid_response', requestId, text);
+    }
+  };
+
+  const request = async <K extends ApiOperation>(operation: K, ...[options]: ApiCallArgs<K>): Promise<ApiResponseOf<K>> => {
+    const [method, template] = operation.split(' ');
+    const { params, body, query, headers, signal } = (options || {}) as ApiCallBaseOptions & {
+      params?: Record<string, string | number>;
+      body?: unknown;
+    };
+
+    return send<ApiResponseOf<K>>(`${buildPath(template, params)}${buildQuery(query)}`, {
+      method,
+      headers,
+      signal,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  return { baseUrl: config.baseUrl, request, send };
 };
 
+/**
+ * Shared client for the API gateway, which serves backend/swagger.json
+ */
+export const apiClient = createApiClient({ baseUrl: API_BASE_URL });
+
 // ===== HTTP METHOD HELPERS =====
 
-export const apiGet = <T>(url: string): Promise<T> => 
+/**
+ * Untyped request for endpoints backend/swagger.json does not describe yet;
+ * prefer apiClient.request for everything it does
+ */
+export const apiRequest = <T>(
+  url: string,
+  options: ApiSendOptions = {}
+): Promise<T> => apiClient.send<T>(url, options);
+
+export const apiGet = <T>(url: string): Promise<T> =>
   apiRequest<T>(url, { method: 'GET' });
 
-export const apiPost = <T>(url: string, data?: any): Promise<T> => 
-  apiRequest<T>(url, { 
-    method: 'POST', 
-    body: data ? JSON.stringify(data) : undefined 
+export const apiPost = <T>(url: string, data?: any): Promise<T> =>
+  apiRequest<T>(url, {
+    method: 'POST',
+    body: data ? JSON.stringify(data) : undefined
   });
 
-export const apiPut = <T>(url: string, data?: any): Promise<T> => 
-  apiRequest<T>(url, { 
-    method: 'PUT', 
-    body: data ? JSON.stringify(data) : undefined 
+export const apiPut = <T>(url: string, data?: any): Promise<T> =>
+  apiRequest<T>(url, {
+    method: 'PUT',
+    body: data ? JSON.stringify(data) : undefined
   });
 
-export const apiDelete = <T>(url: string): Promise<T> => 
+export const apiDelete = <T>(url: string): Promise<T> =>
   apiRequest<T>(url, { method: 'DELETE' });
 
-export const apiPatch = <T>(url: string, data?: any): Promise<T> => 
-  apiRequest<T>(url, { 
-    method: 'PATCH', 
-    body: data ? JSON.stringify(data) : undefined 
+export const apiPatch = <T>(url: string, data?: any): Promise<T> =>
+  apiRequest<T>(url, {
+    method: 'PATCH',
+    body: data ? JSON.stringify(data) : undefined
   });
 
 // ===== AUTHENTICATION HELPERS =====
@@ -141,7 +506,7 @@ export const apiPatch = <T>(url: string, data?: any): Promise<T> =>
 export const isAuthenticated = (): boolean => {
   const token = localStorage.getItem('authToken');
   if (!token) return false;
-  
+
   try {
     const payload = JSON.parse(atob(token.split('.')[1]));
     const currentTime = Date.now() / 1000;
@@ -163,29 +528,18 @@ export const getAuthToken = (): string | null => {
 
 // ===== ERROR HANDLING =====
 
-export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public code?: string
-  ) {
-    super(message);
-    this.name = 'ApiError';
-  }
-}
-
 export const handleApiError = (error: any): string => {
   if (error instanceof ApiError) {
     return error.message;
   }
-  
+
   if (error.message?.includes('Rate limit exceeded')) {
     return 'Rate limit exceeded. Please wait a moment and try again.';
   }
-  
+
   if (error.message?.includes('Network Error')) {
     return 'Network error. Please check your connection and try again.';
   }
-  
+
   return error.message || 'An unexpected error occurred.';
-}; 
\ No newline at end of file
+};
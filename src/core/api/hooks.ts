@@ -1,39 +1,49 @@
 /**
  * API Hooks
- * 
+ *
  * This module provides reusable React hooks for API operations.
  * It handles loading states, error handling, and data management.
+ * Queries and mutations take an operation from backend/swagger.json
+ * (e.g. 'GET /api/todos'), so their variables and data are typed by the spec.
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { 
-  ApiHookState, 
-  ApiMutationState, 
-  ApiResponse 
+import {
+  ApiHookState,
+  ApiMutationState
 } from '../types';
-import { 
-  apiRequest, 
-  apiGet, 
-  apiPost, 
-  apiPut, 
-  apiDelete, 
-  handleApiError 
+import {
+  apiClient,
+  apiRequest,
+  ApiCallArgs,
+  ApiCallOptions,
+  ApiMutationOperation,
+  ApiQueryOperation,
+  ApiResponseOf,
+  handleApiError
 } from './client';
+import { ApiOperation } from './schema';
+
+type MutationVariables<K extends ApiOperation> = {} extends ApiCallOptions<K> ? ApiCallOptions<K> | void : ApiCallOptions<K>;
 
 // ===== GENERIC API HOOKS =====
 
 /**
  * Generic hook for API queries with automatic refetching
  */
-export const useApiQuery = <T>(
-  url: string,
+export const useApiQuery = <K extends ApiQueryOperation>(
+  operation: K,
+  options?: ApiCallOptions<K>,
   dependencies: any[] = []
-): ApiHookState<T> => {
-  const [data, setData] = useState<T | null>(null);
+): ApiHookState<ApiResponseOf<K>> => {
+  const [data, setData] = useState<ApiResponseOf<K> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Options are usually an inline object, so refetch on their content, not identity
+  const optionsKey = JSON.stringify(options || {});
+
   const fetchData = useCallback(async () => {
     // Cancel previous request if still pending
     if (abortControllerRef.current) {
@@ -47,9 +57,8 @@ export const useApiQuery = <T>(
     setError(null);
 
     try {
-      const response = await apiRequest<T>(url, {
-        signal: abortControllerRef.current.signal
-      });
+      const args = [{ ...JSON.parse(optionsKey), signal: abortControllerRef.current.signal }] as ApiCallArgs<K>;
+      const response = await apiClient.request(operation, ...args);
       setData(response);
     } catch (err: any) {
       if (err.name === 'AbortError') {
@@ -59,17 +68,18 @@ export const useApiQuery = <T>(
     } finally {
       setLoading(false);
     }
-  }, [url]);
+  }, [operation, optionsKey]);
 
   useEffect(() => {
     fetchData();
-    
+
     // Cleanup function to cancel pending requests
     return () => {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fetchData, ...dependencies]);
 
   const refetch = useCallback(() => {
@@ -82,7 +92,75 @@ export const useApiQuery = <T>(
 /**
  * Generic hook for API mutations (POST, PUT, DELETE)
  */
-export const useApiMutation = <T>(
+export const useApiMutation = <K extends ApiMutationOperation>(
+  operation: K
+): ApiMutationState<ApiResponseOf<K>, MutationVariables<K>> => {
+  const [data, setData] = useState<ApiResponseOf<K> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mutate = useCallback(async (variables: MutationVariables<K>) => {
+    setLoading(true);
+    setError(null);
+    setData(null);
+
+    try {
+      const args = [variables || undefined] as ApiCallArgs<K>;
+      const response = await apiClient.request(operation, ...args);
+      setData(response);
+      return response;
+    } catch (err: any) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [operation]);
+
+  const reset = useCallback(() => {
+    setData(null);
+    setError(null);
+    setLoading(false);
+  }, []);
+
+  return { data, loading, error, mutate, reset };
+};
+
+/**
+ * Query hook for endpoints backend/swagger.json does not describe yet.
+ * Add the endpoint to the spec and switch to useApiQuery as soon as it is.
+ */
+export const useRequestQuery = <T>(url: string): ApiHookState<T> => {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setData(await apiRequest<T>(url));
+    } catch (err: any) {
+      setError(handleApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [url]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, loading, error, refetch: fetchData };
+};
+
+/**
+ * Mutation hook for endpoints backend/swagger.json does not describe yet.
+ * Add the endpoint to the spec and switch to useApiMutation as soon as it is.
+ */
+export const useRequestMutation = <T>(
   url: string,
   method: 'POST' | 'PUT' | 'DELETE' | 'PATCH' = 'POST'
 ): ApiMutationState<T> => {
@@ -96,34 +174,16 @@ export const useApiMutation = <T>(
     setData(null);
 
     try {
-      let response: T;
-      
-      switch (method) {
-        case 'POST':
-          response = await apiPost<T>(url, requestData);
-          break;
-        case 'PUT':
-          response = await apiPut<T>(url, requestData);
-          break;
-        case 'DELETE':
-          response = await apiDelete<T>(url);
-          break;
-        case 'PATCH':
-          response = await apiRequest<T>(url, {
-            method: 'PATCH',
-            body: requestData ? JSON.stringify(requestData) : undefined
-          });
-          break;
-        default:
-          throw new Error(`Unsupported HTTP method: ${method}`);
-      }
-
+      const response = await apiRequest<T>(url, {
+        method,
+        body: requestData ? JSON.stringify(requestData) : undefined
+      });
       setData(response);
       return response;
     } catch (err: any) {
       const errorMessage = handleApiError(err);
       setError(errorMessage);
-      throw new Error(errorMessage);
+      throw err;
     } finally {
       setLoading(false);
     }
@@ -140,56 +200,53 @@ export const useApiMutation = <T>(
 
 // ===== SPECIALIZED HOOKS =====
 
+/**
+ * Operations whose response has the paginated shape
+ */
+type PaginatedOperation = {
+  [K in ApiQueryOperation]: ApiResponseOf<K> extends { data?: unknown[]; total?: number } ? K : never
+}[ApiQueryOperation];
+
 /**
  * Hook for paginated data with search and filtering
  */
-export const usePaginatedQuery = <T>(
-  url: string,
+export const usePaginatedQuery = <K extends PaginatedOperation>(
+  operation: K,
   page: number = 1,
   limit: number = 10,
   search?: string,
-  filters?: Record<string, any>
+  filters?: Record<string, string | number | boolean>
 ) => {
-  const [queryParams, setQueryParams] = useState(() => {
-    const params = new URLSearchParams({
-      page: page.toString(),
-      limit: limit.toString(),
-      ...(search && { search }),
-      ...filters
-    });
-    return params.toString();
-  });
-
-  const fullUrl = `${url}?${queryParams}`;
-  const { data, loading, error, refetch } = useApiQuery<{
-    data: T[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }>(fullUrl, [queryParams]);
+  const [query, setQuery] = useState<Record<string, string | number | boolean | undefined>>(() => ({
+    page,
+    limit,
+    search,
+    ...filters
+  }));
+
+  const { data, loading, error, refetch } = useApiQuery(operation, { query } as ApiCallOptions<K>);
+  const paginated = data as { data?: unknown[]; total?: number; page?: number; limit?: number; totalPages?: number } | null;
 
   const updateQuery = useCallback((newParams: {
     page?: number;
     limit?: number;
     search?: string;
-    filters?: Record<string, any>;
+    filters?: Record<string, string | number | boolean>;
   }) => {
-    const params = new URLSearchParams({
-      page: (newParams.page || page).toString(),
-      limit: (newParams.limit || limit).toString(),
-      ...(newParams.search && { search: newParams.search }),
+    setQuery({
+      page: newParams.page || page,
+      limit: newParams.limit || limit,
+      search: newParams.search,
       ...(newParams.filters || filters)
     });
-    setQueryParams(params.toString());
-  }, [page, limit, search, filters]);
+  }, [page, limit, filters]);
 
   return {
-    data: data?.data || [],
-    total: data?.total || 0,
-    page: data?.page || page,
-    limit: data?.limit || limit,
-    totalPages: data?.totalPages || 0,
+    data: (paginated?.data || []) as NonNullable<ApiResponseOf<K> extends { data?: infer D } ? D : never>,
+    total: paginated?.total || 0,
+    page: paginated?.page || page,
+    limit: paginated?.limit || limit,
+    totalPages: paginated?.totalPages || 0,
     loading,
     error,
     refetch,
@@ -200,12 +257,13 @@ export const usePaginatedQuery = <T>(
 /**
  * Hook for real-time data with polling
  */
-export const usePollingQuery = <T>(
-  url: string,
+export const usePollingQuery = <K extends ApiQueryOperation>(
+  operation: K,
   interval: number = 5000, // 5 seconds
-  enabled: boolean = true
+  enabled: boolean = true,
+  options?: ApiCallOptions<K>
 ) => {
-  const { data, loading, error, refetch } = useApiQuery<T>(url);
+  const { data, loading, error, refetch } = useApiQuery(operation, options);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -235,16 +293,15 @@ export const usePollingQuery = <T>(
 /**
  * Hook for optimistic updates
  */
-export const useOptimisticMutation = <T>(
-  url: string,
-  method: 'POST' | 'PUT' | 'DELETE' = 'POST',
-  updateQuery?: (data: T) => void
+export const useOptimisticMutation = <K extends ApiMutationOperation>(
+  operation: K,
+  updateQuery?: (data: ApiResponseOf<K>) => void
 ) => {
-  const { mutate, loading, error, reset } = useApiMutation<T>(url, method);
+  const { mutate, loading, error, reset } = useApiMutation(operation);
 
   const optimisticMutate = useCallback(async (
-    requestData: any,
-    optimisticData: T
+    variables: MutationVariables<K>,
+    optimisticData: ApiResponseOf<K>
   ) => {
     // Apply optimistic update immediately
     if (updateQuery) {
@@ -252,7 +309,7 @@ export const useOptimisticMutation = <T>(
     }
 
     try {
-      const result = await mutate(requestData);
+      const result = await mutate(variables);
       return result;
     } catch (err) {
       // Revert optimistic update on error
@@ -273,18 +330,15 @@ export const useOptimisticMutation = <T>(
 /**
  * Hook for managing form submission state
  */
-export const useFormSubmission = <T>(
-  url: string,
-  method: 'POST' | 'PUT' = 'POST'
-) => {
-  const { mutate, loading, error, reset } = useApiMutation<T>(url, method);
+export const useFormSubmission = <K extends ApiMutationOperation>(operation: K) => {
+  const { mutate, loading, error, reset } = useApiMutation(operation);
 
-  const submit = useCallback(async (formData: any) => {
+  const submit = useCallback(async (variables: MutationVariables<K>) => {
     try {
-      const result = await mutate(formData);
+      const result = await mutate(variables);
       return { success: true, data: result };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+      return { success: false, error: handleApiError(err) };
     }
   }, [mutate]);
 
@@ -296,23 +350,21 @@ export const useFormSubmission = <T>(
  */
 export const useFileUpload = <T>(url: string) => {
   const [uploadProgress, setUploadProgress] = useState(0);
-  const { mutate, loading, error, reset } = useApiMutation<T>(url, 'POST');
+  const { loading, error, reset } = useRequestMutation<T>(url, 'POST');
 
   const upload = useCallback(async (file: File) => {
     const formData = new FormData();
     formData.append('file', file);
 
     setUploadProgress(0);
-    
+
     try {
+      // FormData bodies get their multipart Content-Type from the browser
       const result = await apiRequest<T>(url, {
         method: 'POST',
-        body: formData,
-        headers: {
-          // Don't set Content-Type for FormData, let browser set it
-        }
+        body: formData
       });
-      
+
       setUploadProgress(100);
       return result;
     } catch (err) {
@@ -322,4 +374,4 @@ export const useFileUpload = <T>(url: string) => {
   }, [url]);
 
   return { upload, uploadProgress, loading, error, reset };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,278 @@
+/**
+ * API Schema
+ *
+ * GENERATED FROM backend/swagger.json BY scripts/generate-api-types.js - DO NOT EDIT.
+ * Run `npm run generate:api` after changing the spec; a response or request
+ * that no longer matches the spec then fails the type check.
+ */
+
+export const API_VERSION = '1.0.0';
+
+// ===== SCHEMAS =====
+
+export interface ApiSchemas {
+  User: {
+    id?: string; // Unique user identifier
+    email?: string; // User's email address
+    name?: string; // User's full name
+    role?: 'admin' | 'employee' | 'leader'; // User's role in the system
+    department?: string; // User's department
+    status?: 'active' | 'inactive' | 'suspended' | 'terminated'; // User account status
+    employeeId?: string; // HRIS employee ID
+    phone?: string; // Work phone number
+    position?: string; // Job title
+    hireDate?: string; // Hire date (YYYY-MM-DD)
+    managerId?: string; // User ID of the manager
+    workplaceId?: string; // Assigned workplace
+    groups?: string[]; // Group IDs
+    emergencyContact?: ApiSchemas['EmergencyContact'];
+    createdAt?: string; // Account creation timestamp
+  };
+  UserInput: {
+    email?: string; // User's email address
+    name?: string; // User's full name
+    role?: 'admin' | 'employee' | 'leader'; // User's role in the system
+    department?: string; // User's department
+    status?: 'active' | 'inactive' | 'suspended' | 'terminated'; // User account status
+    employeeId?: string; // HRIS employee ID
+    phone?: string; // Work phone number
+    position?: string; // Job title
+    hireDate?: string; // Hire date (YYYY-MM-DD)
+    managerId?: string; // User ID of the manager
+    workplaceId?: string; // Assigned workplace
+    groups?: string[]; // Group IDs
+    emergencyContact?: ApiSchemas['EmergencyContact'];
+  };
+  EmergencyContact: {
+    name?: string; // Contact's name
+    relationship?: string; // Relationship to the user
+    phone?: string; // Contact's phone number
+  };
+  Todo: {
+    id?: string; // Unique todo identifier
+    title?: string; // Todo title
+    description?: string; // Todo description
+    priority?: 'low' | 'medium' | 'high'; // Todo priority level
+    completed?: boolean; // Completion status
+    createdAt?: string; // Creation timestamp
+    completedAt?: string; // Completion timestamp
+    userId?: string; // Owner user ID
+  };
+  Report: {
+    id?: string; // Unique report identifier
+    title?: string; // Report title
+    type?: 'daily' | 'weekly' | 'monthly' | 'incident'; // Report type
+    content?: string; // Report content
+    status?: 'pending' | 'approved' | 'rejected'; // Report approval status
+    submittedAt?: string; // Submission timestamp
+    userId?: string; // Author user ID
+  };
+  Attendance: {
+    punchIn?: string; // Punch in timestamp
+    punchOut?: string; // Punch out timestamp
+    location?: string; // Punch in location
+    endLocation?: string; // Punch out location
+    photo?: string; // Punch in photo data
+    hoursWorked?: number; // Total hours worked
+  };
+  PermissionGrant: {
+    id?: string; // Unique grant identifier
+    memberId?: string; // Member receiving the grant
+    effect?: 'allow' | 'deny'; // Grant or restriction
+    actions?: string[]; // Actions covered, or * for all
+    resources?: string[]; // Resource types covered, or * for all
+    scope?: 'group-subtree' | 'workplace' | 'all'; // Reach of the grant
+    groupId?: string; // Root group for group-subtree scope
+    workplaceIds?: string[]; // Workplaces for workplace scope
+    grantedBy?: string; // Admin who made the grant
+    grantedAt?: string; // Grant timestamp
+    expiresAt?: string; // Grant is ignored after this timestamp
+    reason?: string; // Why the grant was made
+  };
+  Error: {
+    error?: string; // Error message
+  };
+}
+
+// ===== OPERATIONS =====
+
+export interface ApiOperations {
+  /** Health Check */
+  'GET /api/health': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { status?: string; message?: string; timestamp?: string };
+    errors: Record<string, never>;
+    secured: false;
+  };
+  /** Register New User */
+  'POST /api/auth/register': {
+    params: Record<string, never>;
+    body: { email: string; password: string; name: string; role?: 'admin' | 'employee' | 'leader'; department?: string };
+    response: { message?: string; user?: ApiSchemas['User']; token?: string };
+    errors: { 400: ApiSchemas['Error']; 409: ApiSchemas['Error'] };
+    secured: false;
+  };
+  /** User Login */
+  'POST /api/auth/login': {
+    params: Record<string, never>;
+    body: { email: string; password: string };
+    response: { message?: string; user?: ApiSchemas['User']; token?: string };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error']; 403: ApiSchemas['Error'] };
+    secured: false;
+  };
+  /** Get User Profile */
+  'GET /api/auth/profile': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { user?: ApiSchemas['User'] };
+    errors: { 401: ApiSchemas['Error']; 404: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Reset Password */
+  'POST /api/auth/reset-password': {
+    params: Record<string, never>;
+    body: { email: string; newPassword: string };
+    response: { message?: string };
+    errors: { 400: ApiSchemas['Error']; 404: ApiSchemas['Error'] };
+    secured: false;
+  };
+  /** Get User Todos */
+  'GET /api/todos': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { todos?: ApiSchemas['Todo'][] };
+    errors: { 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Create Todo */
+  'POST /api/todos': {
+    params: Record<string, never>;
+    body: { title: string; description?: string; priority?: 'low' | 'medium' | 'high' };
+    response: { message?: string; todo?: ApiSchemas['Todo'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Update Todo */
+  'PUT /api/todos/{id}': {
+    params: { id: string };
+    body: { title?: string; description?: string; priority?: 'low' | 'medium' | 'high'; completed?: boolean };
+    response: { message?: string; todo?: ApiSchemas['Todo'] };
+    errors: { 401: ApiSchemas['Error']; 404: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Delete Todo */
+  'DELETE /api/todos/{id}': {
+    params: { id: string };
+    body: undefined;
+    response: { message?: string };
+    errors: { 401: ApiSchemas['Error']; 404: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Get User Reports */
+  'GET /api/reports': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { reports?: ApiSchemas['Report'][] };
+    errors: { 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Create Report */
+  'POST /api/reports': {
+    params: Record<string, never>;
+    body: { title: string; type?: 'daily' | 'weekly' | 'monthly' | 'incident'; content: string };
+    response: { message?: string; report?: ApiSchemas['Report'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Punch In */
+  'POST /api/attendance/punch-in': {
+    params: Record<string, never>;
+    body: { location: string; photo?: string };
+    response: { message?: string; punchInTime?: string; attendance?: ApiSchemas['Attendance'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Punch Out */
+  'POST /api/attendance/punch-out': {
+    params: Record<string, never>;
+    body: { location: string };
+    response: { message?: string; punchOutTime?: string; hoursWorked?: number; attendance?: ApiSchemas['Attendance'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Get All Users (Admin Only) */
+  'GET /api/admin/users': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { users?: ApiSchemas['User'][] };
+    errors: { 401: ApiSchemas['Error']; 403: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Create User (Admin Only) */
+  'POST /api/admin/users': {
+    params: Record<string, never>;
+    body: ApiSchemas['UserInput'];
+    response: { message?: string; user?: ApiSchemas['User'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error']; 403: ApiSchemas['Error']; 409: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Update User (Admin Only) */
+  'PUT /api/admin/users/{id}': {
+    params: { id: string };
+    body: ApiSchemas['UserInput'];
+    response: { message?: string; user?: ApiSchemas['User'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error']; 403: ApiSchemas['Error']; 404: ApiSchemas['Error']; 409: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Get All Todos (Admin Only) */
+  'GET /api/admin/todos': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { todos?: ApiSchemas['Todo'][] };
+    errors: { 401: ApiSchemas['Error']; 403: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Get All Reports (Admin Only) */
+  'GET /api/admin/reports': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { reports?: ApiSchemas['Report'][] };
+    errors: { 401: ApiSchemas['Error']; 403: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Get All Attendance Data (Admin Only) */
+  'GET /api/admin/attendance': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { attendance?: Record<string, unknown> };
+    errors: { 401: ApiSchemas['Error']; 403: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Get Permission Grants */
+  'GET /api/permission-grants': {
+    params: Record<string, never>;
+    body: undefined;
+    response: { grants?: ApiSchemas['PermissionGrant'][] };
+    errors: { 401: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Create Permission Grant (Admin Only) */
+  'POST /api/permission-grants': {
+    params: Record<string, never>;
+    body: { memberId: string; effect: 'allow' | 'deny'; actions: string[]; resources: string[]; scope: 'group-subtree' | 'workplace' | 'all'; groupId?: string; workplaceIds?: string[]; expiresAt?: string; reason?: string };
+    response: { message?: string; grant?: ApiSchemas['PermissionGrant'] };
+    errors: { 400: ApiSchemas['Error']; 401: ApiSchemas['Error']; 403: ApiSchemas['Error'] };
+    secured: true;
+  };
+  /** Revoke Permission Grant (Admin Only) */
+  'DELETE /api/permission-grants/{id}': {
+    params: { id: string };
+    body: undefined;
+    response: { message?: string };
+    errors: { 401: ApiSchemas['Error']; 403: ApiSchemas['Error']; 404: ApiSchemas['Error'] };
+    secured: true;
+  };
+}
+
+export type ApiOperation = keyof ApiOperations;
@@ -5,13 +5,13 @@
  * It uses the todo service and API hooks for data management.
  */
 
-import { useState, useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { 
   Todo, 
   CreateTodoRequest, 
   UpdateTodoRequest
 } from '../types';
-import { useApiQuery, useApiMutation, usePaginatedQuery } from '../api/hooks';
+import { useApiQuery, useApiMutation, useRequestMutation } from '../api/hooks';
 import { 
   getTodos,
   createTodo,
@@ -28,7 +28,8 @@ import {
   getPriorityIcon,
   formatDueDate,
   isOverdue,
-  calculateCompletionPercentage
+  calculateCompletionPercentage,
+  normalizeTodo
 } from '../services/todo';
 
 // ===== BASIC TODO HOOKS =====
@@ -37,10 +38,11 @@ import {
  * Hook for fetching all todos
  */
 export const useTodos = () => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { data, loading, error, refetch } = useApiQuery('GET /api/todos');
+  const todos = useMemo(() => (data?.todos || []).map(normalizeTodo), [data]);
 
   return {
-    todos: data?.todos || [],
+    todos,
     loading,
     error,
     refetch
@@ -51,7 +53,7 @@ export const useTodos = () => {
  * Hook for creating a new todo
  */
 export const useCreateTodo = () => {
-  const { mutate, loading, error, reset } = useApiMutation<Todo>('/todos', 'POST');
+  const { mutate, loading, error, reset } = useApiMutation('POST /api/todos');
 
   const create = useCallback(async (todoData: CreateTodoRequest) => {
     const validation = validateTodo(todoData);
@@ -59,7 +61,7 @@ export const useCreateTodo = () => {
       throw new Error(validation.errors.join(', '));
     }
 
-    return await mutate(todoData);
+    return await mutate({ body: todoData });
   }, [mutate]);
 
   return { create, loading, error, reset };
@@ -69,10 +71,10 @@ export const useCreateTodo = () => {
  * Hook for updating a todo
  */
 export const useUpdateTodo = () => {
-  const { mutate, loading, error, reset } = useApiMutation<Todo>('/todos', 'PUT');
+  const { mutate, loading, error, reset } = useApiMutation('PUT /api/todos/{id}');
 
   const update = useCallback(async (id: string, todoData: UpdateTodoRequest) => {
-    return await mutate({ id, ...todoData });
+    return await mutate({ params: { id }, body: todoData });
   }, [mutate]);
 
   return { update, loading, error, reset };
@@ -82,10 +84,10 @@ export const useUpdateTodo = () => {
  * Hook for deleting a todo
  */
 export const useDeleteTodo = () => {
-  const { mutate, loading, error, reset } = useApiMutation('/todos', 'DELETE');
+  const { mutate, loading, error, reset } = useApiMutation('DELETE /api/todos/{id}');
 
   const remove = useCallback(async (id: string) => {
-    return await mutate({ id });
+    return await mutate({ params: { id } });
   }, [mutate]);
 
   return { remove, loading, error, reset };
@@ -95,10 +97,10 @@ export const useDeleteTodo = () => {
  * Hook for completing a todo
  */
 export const useCompleteTodo = () => {
-  const { mutate, loading, error, reset } = useApiMutation<Todo>('/todos/complete', 'POST');
+  const { mutate, loading, error, reset } = useApiMutation('PUT /api/todos/{id}');
 
   const complete = useCallback(async (id: string) => {
-    return await mutate({ id });
+    return await mutate({ params: { id }, body: { completed: true } });
   }, [mutate]);
 
   return { complete, loading, error, reset };
@@ -108,10 +110,10 @@ export const useCompleteTodo = () => {
  * Hook for marking a todo as incomplete
  */
 export const useIncompleteTodo = () => {
-  const { mutate, loading, error, reset } = useApiMutation<Todo>('/todos/incomplete', 'POST');
+  const { mutate, loading, error, reset } = useApiMutation('PUT /api/todos/{id}');
 
   const incomplete = useCallback(async (id: string) => {
-    return await mutate({ id });
+    return await mutate({ params: { id }, body: { completed: false } });
   }, [mutate]);
 
   return { incomplete, loading, error, reset };
@@ -123,9 +125,9 @@ export const useIncompleteTodo = () => {
  * Hook for todos by priority
  */
 export const useTodosByPriority = (priority: 'low' | 'medium' | 'high') => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { todos, loading, error, refetch } = useTodos();
 
-  const filteredTodos = data?.todos?.filter(todo => todo.priority === priority) || [];
+  const filteredTodos = todos.filter(todo => todo.priority === priority);
 
   return {
     todos: filteredTodos,
@@ -139,9 +141,9 @@ export const useTodosByPriority = (priority: 'low' | 'medium' | 'high') => {
  * Hook for completed todos
  */
 export const useCompletedTodos = () => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { todos, loading, error, refetch } = useTodos();
 
-  const completedTodos = data?.todos?.filter(todo => todo.completed) || [];
+  const completedTodos = todos.filter(todo => todo.completed);
 
   return {
     todos: completedTodos,
@@ -155,9 +157,9 @@ export const useCompletedTodos = () => {
  * Hook for incomplete todos
  */
 export const useIncompleteTodos = () => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { todos, loading, error, refetch } = useTodos();
 
-  const incompleteTodos = data?.todos?.filter(todo => !todo.completed) || [];
+  const incompleteTodos = todos.filter(todo => !todo.completed);
 
   return {
     todos: incompleteTodos,
@@ -171,13 +173,13 @@ export const useIncompleteTodos = () => {
  * Hook for searching todos
  */
 export const useSearchTodos = (searchTerm: string) => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { todos, loading, error, refetch } = useTodos();
 
   const searchLower = searchTerm.toLowerCase();
-  const filteredTodos = data?.todos?.filter(todo => 
+  const filteredTodos = todos.filter(todo => 
     todo.title.toLowerCase().includes(searchLower) ||
     todo.description.toLowerCase().includes(searchLower)
-  ) || [];
+  );
 
   return {
     todos: filteredTodos,
@@ -191,14 +193,14 @@ export const useSearchTodos = (searchTerm: string) => {
  * Hook for todos due today
  */
 export const useTodosDueToday = () => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { todos, loading, error, refetch } = useTodos();
 
   const today = new Date().toISOString().split('T')[0];
-  const dueTodayTodos = data?.todos?.filter(todo => {
+  const dueTodayTodos = todos.filter(todo => {
     if (!todo.dueDate) return false;
     const todoDate = new Date(todo.dueDate).toISOString().split('T')[0];
     return todoDate === today;
-  }) || [];
+  });
 
   return {
     todos: dueTodayTodos,
@@ -212,14 +214,14 @@ export const useTodosDueToday = () => {
  * Hook for overdue todos
  */
 export const useOverdueTodos = () => {
-  const { data, loading, error, refetch } = useApiQuery<{ todos: Todo[] }>('/todos');
+  const { todos, loading, error, refetch } = useTodos();
 
   const now = new Date();
-  const overdueTodos = data?.todos?.filter(todo => {
+  const overdueTodos = todos.filter(todo => {
     if (!todo.dueDate) return false;
     const dueDate = new Date(todo.dueDate);
     return dueDate < now && !todo.completed;
-  }) || [];
+  });
 
   return {
     todos: overdueTodos,
@@ -235,9 +237,7 @@ export const useOverdueTodos = () => {
  * Hook for todo statistics
  */
 export const useTodoStats = () => {
-  const { data: allTodosData } = useApiQuery<{ todos: Todo[] }>('/todos');
-
-  const allTodos = allTodosData?.todos || [];
+  const { todos: allTodos } = useTodos();
   const completedTodos = allTodos.filter(todo => todo.completed);
   const overdueTodos = allTodos.filter(todo => {
     if (!todo.dueDate) return false;
@@ -337,8 +337,8 @@ export const useOptimisticTodoComplete = () => {
  * Hook for bulk todo operations
  */
 export const useBulkTodoOperations = () => {
-  const { mutate: bulkUpdate, loading: bulkUpdateLoading, error: bulkUpdateError } = useApiMutation('/todos/bulk', 'POST');
-  const { mutate: bulkDelete, loading: bulkDeleteLoading, error: bulkDeleteError } = useApiMutation('/todos/bulk-delete', 'POST');
+  const { mutate: bulkUpdate, loading: bulkUpdateLoading, error: bulkUpdateError } = useRequestMutation('/todos/bulk', 'POST');
+  const { mutate: bulkDelete, loading: bulkDeleteLoading, error: bulkDeleteError } = useRequestMutation('/todos/bulk-delete', 'POST');
 
   const bulkUpdateTodos = useCallback(async (
     todoIds: string[],
@@ -19,8 +19,23 @@ export {
   isAuthenticated,
   clearAuth,
   ApiError,
-  handleApiError
+  ApiAuthError,
+  ApiRateLimitError,
+  ApiNetworkError,
+  handleApiError,
+  apiClient,
+  createApiClient
 } from './api/client';
+export type {
+  ApiClient,
+  ApiCallOptions,
+  ApiResponseOf,
+  ApiQueryOperation,
+  ApiMutationOperation,
+  ApiInterceptor
+} from './api/client';
+export { API_VERSION } from './api/schema';
+export type { ApiOperation, ApiOperations, ApiSchemas } from './api/schema';
 
 export * from './api/hooks';
 
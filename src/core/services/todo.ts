@@ -12,6 +12,7 @@ import {
   ApiResponse
 } from '../types';
 import { apiGet, apiPost, apiPut, apiDelete } from '../api/client';
+import { ApiSchemas } from '../api/schema';
 
 // ===== TODO ENDPOINTS =====
 
@@ -233,6 +234,20 @@ export const getOverdueTodos = async (): Promise<{
   return await getTodos(1, 10, undefined, { overdue: true });
 };
 
+/**
+ * Fill in the fields backend/swagger.json leaves optional on a todo
+ */
+export const normalizeTodo = (todo: ApiSchemas['Todo']): Todo => ({
+  id: todo.id || '',
+  title: todo.title || '',
+  description: todo.description || '',
+  priority: todo.priority || 'medium',
+  completed: todo.completed ?? false,
+  createdAt: todo.createdAt || '',
+  completedAt: todo.completedAt || null,
+  userId: todo.userId || ''
+});
+
 // ===== TODO VALIDATION FUNCTIONS =====
 
 /**
@@ -77,11 +77,11 @@ export interface ApiHookState<T> {
   refetch: () => void;
 }
 
-export interface ApiMutationState<T> {
+export interface ApiMutationState<T, TVariables = any> {
   data: T | null;
   loading: boolean;
   error: string | null;
-  mutate: (data: any) => Promise<T>;
+  mutate: (variables: TVariables) => Promise<T>;
   reset: () => void;
 }
 
@@ -0,0 +1,54 @@
+/**
+ * Authorization Directory Hook
+ *
+ * Loads the members and group structure the authorization module resolves
+ * policies from:
+ * - Members from the admin users API, HRIS imports included
+ * - Groups and group assignments from the saved group structure
+ *
+ * Reloads whenever the signed-in user changes; a failed member load leaves
+ * no members, so policies still come from role and grants.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AuthorizationDirectory, Member } from '../types';
+import api from '../services/api';
+import { discardImportedRoster, memberFromServerUser } from '../services/memberImport';
+import { loadReorgState, ReorgState } from '../services/groupRestructure';
+
+const EMPTY_REORG_STATE: ReorgState = { structure: { groups: [], groupMembers: [] }, history: [] };
+
+export const useAuthorizationDirectory = (userId?: string): Omit<AuthorizationDirectory, 'grants'> => {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [structure, setStructure] = useState(() => loadReorgState(EMPTY_REORG_STATE).structure);
+
+  useEffect(() => {
+    setStructure(loadReorgState(EMPTY_REORG_STATE).structure);
+    discardImportedRoster();
+    if (!userId) {
+      setMembers([]);
+      return;
+    }
+    let cancelled = false;
+    api.admin.getAllUsers()
+      .then(res => (res.users || []).map(memberFromServerUser))
+      .catch(error => {
+        console.error('Failed to load members for authorization:', error);
+        return [] as Member[];
+      })
+      .then(serverMembers => {
+        if (!cancelled) setMembers(serverMembers);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return useMemo(
+    () => ({ members, groups: structure.groups, groupMembers: structure.groupMembers }),
+    [members, structure]
+  );
+};
@@ -3,7 +3,15 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { ChatMessage, ChatChannel } from '../types/chat';
+import { ChatMessage, ChatChannel, OutboxEntry } from '../types/chat';
+import { transformMessage } from '../services/api';
+import {
+  flushChatOutbox,
+  getChatOfflineStore,
+  queueOutgoingMessage,
+  retryOutboxEntry,
+  toPendingMessage
+} from '../services/chatOffline';
 
 interface UseChatSocketOptions {
   userId: string;
@@ -39,7 +47,7 @@ interface UseChatSocketReturn {
   currentChannel: string | null;
   
   // Messaging
-  sendMessage: (channelId: string, message: string, attachments?: any[], messageType?: string) => Promise<void>;
+  sendMessage: (channelId: string, message: string, attachments?: any[], messageType?: string, replyToId?: string) => Promise<void>;
   sendDirectMessage: (recipientId: string, message: string, attachments?: any[], messageType?: string) => Promise<void>;
   
   // Typing & Presence
@@ -56,6 +64,11 @@ interface UseChatSocketReturn {
   // File Upload
   uploadFile: (channelId: string, file: File) => Promise<void>;
   
+  // Offline Outbox
+  pendingMessages: ChatMessage[];
+  retryMessage: (clientId: string) => Promise<void>;
+  flushPendingMessages: () => Promise<void>;
+  
   // Event Listeners
   onMessage: (handler: (msg: ChatMessage) => void) => void;
   onDirectMessage: (handler: (msg: ChatMessage) => void) => void;
@@ -69,6 +82,7 @@ interface UseChatSocketReturn {
   onError: (handler: (error: any) => void) => void;
   onConnect: (handler: () => void) => void;
   onDisconnect: (handler: () => void) => void;
+  onMessageSent: (handler: (msg: ChatMessage) => void) => void;
   
   // Cleanup
   off: (event: string, handler: (...args: any[]) => void) => void;
@@ -78,6 +92,8 @@ interface UseChatSocketReturn {
 // Configuration
 const CHAT_SOCKET_URL = process.env.REACT_APP_CHAT_SOCKET_URL || 'http://localhost:8080';
 const TYPING_DEBOUNCE_MS = 1000; // 1 second debounce for typing events
+const SEND_ACK_TIMEOUT_MS = 10000; // unacknowledged sends stay in the outbox
+const OUTBOX_RETRY_INTERVAL_MS = 5000;
 
 export function useChatSocket({
   userId,
@@ -94,10 +110,12 @@ export function useChatSocket({
   });
   const [currentChannel, setCurrentChannel] = useState<string | null>(null);
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [pendingMessages, setPendingMessages] = useState<ChatMessage[]>([]);
   
   const socketRef = useRef<Socket | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const eventHandlersRef = useRef<Map<string, Set<Function>>>(new Map());
+  const sentHandlersRef = useRef<Set<(msg: ChatMessage) => void>>(new Set());
 
   // Create Socket.IO instance
   const createSocket = useCallback(() => {
@@ -233,13 +251,72 @@ export function useChatSocket({
     }
   }, [currentChannel]);
 
-  // Messaging with enhanced error handling
+  // Send one outbox entry and wait for chat-service to acknowledge it
+  const emitOutboxEntry = useCallback((entry: OutboxEntry): Promise<ChatMessage> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) {
+      return Promise.reject(new Error('Socket not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('No acknowledgement from chat server'));
+      }, SEND_ACK_TIMEOUT_MS);
+
+      socket.emit('send-message', {
+        channelId: entry.channelId,
+        message: entry.content,
+        messageType: entry.messageType,
+        attachments: [],
+        parentMessageId: entry.replyToId,
+        clientMessageId: entry.clientId,
+        mentions: entry.mentions
+      }, (error: any, message?: any) => {
+        clearTimeout(timeout);
+        if (error) {
+          reject(new Error(error.message || 'Failed to send message'));
+        } else {
+          resolve(message ? transformMessage(message) : { ...toPendingMessage(entry), deliveryStatus: 'sent' });
+        }
+      });
+    });
+  }, []);
+
+  // Send queued messages in order; the ones left show as sending or failed
+  const flushPendingMessages = useCallback(async (): Promise<void> => {
+    // Offline messages wait for the connection instead of using up their attempts
+    if (!socketRef.current?.connected) return;
+
+    try {
+      const result = await flushChatOutbox(emitOutboxEntry);
+      setPendingMessages(result.pending.map(toPendingMessage));
+      result.sent.forEach(message => sentHandlersRef.current.forEach(handler => handler(message)));
+    } catch (error) {
+      console.error('Failed to send queued messages:', error);
+    }
+  }, [emitOutboxEntry]);
+
+  // Messaging with enhanced error handling. Text messages go through the
+  // offline outbox with a client ID, so they survive a dropped connection and
+  // a retry is stored only once; attachments still need a live connection.
   const sendMessage = useCallback(async (
     channelId: string, 
     message: string, 
     attachments: any[] = [], 
-    messageType = 'text'
+    messageType = 'text',
+    replyToId?: string
   ): Promise<void> => {
+    if (attachments.length === 0) {
+      const pending = await queueOutgoingMessage(getChatOfflineStore(), channelId, userId, {
+        content: message,
+        messageType: messageType as OutboxEntry['messageType'],
+        replyToId
+      });
+      setPendingMessages(prev => [...prev, pending]);
+      await flushPendingMessages();
+      return;
+    }
+
     if (!socketRef.current?.connected) {
       throw new Error('Socket not connected');
     }
@@ -249,7 +326,8 @@ export function useChatSocket({
         channelId,
         message,
         messageType,
-        attachments
+        attachments,
+        parentMessageId: replyToId
       }, (error: any) => {
         if (error) {
           reject(new Error(error.message || 'Failed to send message'));
@@ -258,7 +336,16 @@ export function useChatSocket({
         }
       });
     });
-  }, []);
+  }, [userId, flushPendingMessages]);
+
+  const retryMessage = useCallback(async (clientId: string): Promise<void> => {
+    const entry = await retryOutboxEntry(getChatOfflineStore(), clientId);
+    if (!entry) return;
+    setPendingMessages(prev => prev.map(message => 
+      message.clientId === clientId ? toPendingMessage(entry) : message
+    ));
+    await flushPendingMessages();
+  }, [flushPendingMessages]);
 
   const sendDirectMessage = useCallback(async (
     recipientId: string,
@@ -445,7 +532,17 @@ export function useChatSocket({
     addEventListener('disconnect', handler);
   }, [addEventListener]);
 
+  // Fired when an outbox message is acknowledged; a retry chat-service had
+  // already stored is not broadcast again, so this is the only copy the sender gets
+  const onMessageSent = useCallback((handler: (msg: ChatMessage) => void) => {
+    sentHandlersRef.current.add(handler);
+  }, []);
+
   const off = useCallback((event: string, handler: (...args: any[]) => void) => {
+    if (event === 'message-sent') {
+      sentHandlersRef.current.delete(handler);
+      return;
+    }
     removeEventListener(event, handler);
   }, [removeEventListener]);
 
@@ -462,6 +559,7 @@ export function useChatSocket({
       });
     });
     eventHandlersRef.current.clear();
+    sentHandlersRef.current.clear();
     
     disconnect();
   }, [disconnect]);
@@ -477,6 +575,28 @@ export function useChatSocket({
     };
   }, [userId, connect, cleanup]);
 
+  // Outbox: show what is still queued, send it whenever the socket connects
+  // and keep retrying on an interval while messages are waiting
+  useEffect(() => {
+    getChatOfflineStore().getOutbox()
+      .then(entries => setPendingMessages(entries.map(toPendingMessage)))
+      .catch(error => console.error('Failed to load queued messages:', error));
+  }, []);
+
+  useEffect(() => {
+    if (connectionStatus.connected) {
+      flushPendingMessages();
+    }
+  }, [connectionStatus.connected, flushPendingMessages]);
+
+  const hasSending = pendingMessages.some(message => message.deliveryStatus === 'sending');
+
+  useEffect(() => {
+    if (!connectionStatus.connected || !hasSending) return;
+    const interval = setInterval(flushPendingMessages, OUTBOX_RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [connectionStatus.connected, hasSending, flushPendingMessages]);
+
   // Handle typing users updates
   useEffect(() => {
     const handleTyping = (data: { userId: string; isTyping: boolean }) => {
@@ -533,6 +653,11 @@ export function useChatSocket({
     // File Upload
     uploadFile,
     
+    // Offline Outbox
+    pendingMessages,
+    retryMessage,
+    flushPendingMessages,
+    
     // Event Listeners
     onMessage,
     onDirectMessage,
@@ -546,6 +671,7 @@ export function useChatSocket({
     onError,
     onConnect,
     onDisconnect,
+    onMessageSent,
     
     // Cleanup
     off,
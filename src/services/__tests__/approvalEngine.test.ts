@@ -0,0 +1,391 @@
+/**
+ * Approval Engine Unit Tests
+ *
+ * Tests for the approval workflow engine including:
+ * - Condition evaluation
+ * - Approver resolution from the group hierarchy
+ * - Step advancement, rejection and delegation
+ * - Auto-approval, escalation and expiry timers
+ * - Audit trail
+ */
+
+import {
+  ApprovalEngineError,
+  createExpenseApprovalRequest,
+  createLeaveApprovalRequest,
+  evaluateConditions,
+  getActiveStep,
+  processApprovalTimers,
+  recordDecision,
+  resolveApprovers,
+  startApproval
+} from '../approvalEngine';
+import {
+  ApprovalDirectory,
+  ApprovalRequest,
+  ApprovalStatus,
+  ApprovalStep,
+  ApprovalWorkflow,
+  ApproverType,
+  DelegationStatus,
+  ApprovalRequestType,
+  ExpenseClaim,
+  Group,
+  GroupMember,
+  GroupMemberRole,
+  LeaveRequest,
+  Member,
+  MemberRole,
+  UserRole
+} from '../../types';
+
+const member = (id: string, groups: string[], extra: Partial<Member> = {}): Member => ({
+  id,
+  userId: `user-${id}`,
+  name: `Member ${id}`,
+  email: `${id}@example.com`,
+  role: MemberRole.EMPLOYEE,
+  hireDate: '2020-01-01',
+  groups,
+  isLeader: false,
+  isAdmin: false,
+  approvalAuthority: false,
+  status: 'active',
+  createdAt: '2020-01-01T00:00:00Z',
+  updatedAt: '2020-01-01T00:00:00Z',
+  ...extra,
+});
+
+const group = (id: string, depth: number, parentGroupId?: string): Group => ({
+  id,
+  name: `Group ${id}`,
+  description: '',
+  parentGroupId,
+  members: [],
+  depth,
+  isTopLevel: depth === 0,
+  isActive: true,
+  memberCount: 0,
+  leaderCount: 1,
+  workplaceIds: [],
+  settings: {} as Group['settings'],
+  createdBy: 'admin',
+  createdAt: '2020-01-01T00:00:00Z',
+  updatedAt: '2020-01-01T00:00:00Z',
+});
+
+const leaderOf = (groupId: string, memberId: string): GroupMember => ({
+  id: `${groupId}-${memberId}`,
+  groupId,
+  memberId,
+  memberName: memberId,
+  memberEmail: '',
+  role: GroupMemberRole.LEADER,
+  isLeader: true,
+  hasApprovalAuthority: true,
+  assignedWorkplaces: [],
+  assignedAt: '2020-01-01T00:00:00Z',
+  assignedBy: 'admin',
+  isActive: true,
+});
+
+// company (ceo) > region (rm) > team (tl) — emp works in team
+const directory: ApprovalDirectory = {
+  groups: [group('company', 0), group('region', 1, 'company'), group('team', 2, 'region')],
+  groupMembers: [leaderOf('company', 'ceo'), leaderOf('region', 'rm'), leaderOf('team', 'tl')],
+  members: [
+    member('emp', ['team']),
+    member('tl', ['team'], { role: MemberRole.LEADER, isLeader: true }),
+    member('rm', ['region'], { role: MemberRole.LEADER, isLeader: true }),
+    member('ceo', ['company'], { role: MemberRole.LEADER, isLeader: true }),
+    member('admin', ['company'], { role: MemberRole.ADMIN, isAdmin: true }),
+    member('deputy', ['team']),
+  ],
+};
+
+const step = (stepNumber: number, approverType: ApproverType, extra: Partial<ApprovalStep> = {}): ApprovalStep => ({
+  id: `step-${stepNumber}`,
+  stepNumber,
+  name: `Step ${stepNumber}`,
+  description: '',
+  approverType,
+  isRequired: true,
+  canDelegate: true,
+  actions: [
+    { id: 'approve', name: 'Approve', type: 'approve', label: 'Approve', icon: '', color: 'green', requiresComment: false, isPrimary: true },
+    { id: 'reject', name: 'Reject', type: 'reject', label: 'Reject', icon: '', color: 'red', requiresComment: true, isPrimary: false },
+  ],
+  ...extra,
+});
+
+const workflow = (steps: ApprovalStep[], extra: Partial<ApprovalWorkflow> = {}): ApprovalWorkflow => ({
+  id: 'wf',
+  name: 'Leave workflow',
+  description: '',
+  type: ApprovalRequestType.LEAVE_REQUEST,
+  steps,
+  allowSelfApproval: false,
+  allowDelegation: true,
+  autoApprove: false,
+  isActive: true,
+  createdBy: 'admin',
+  createdAt: '2020-01-01T00:00:00Z',
+  updatedAt: '2020-01-01T00:00:00Z',
+  ...extra,
+});
+
+const request = (wf: ApprovalWorkflow, requestData: any = { days: 2 }, requesterId = 'emp'): ApprovalRequest => ({
+  id: 'req-1',
+  type: ApprovalRequestType.LEAVE_REQUEST,
+  title: 'Leave',
+  description: '',
+  requesterId,
+  requesterName: requesterId,
+  requesterEmail: '',
+  requesterRole: UserRole.VIEWER,
+  status: ApprovalStatus.PENDING,
+  priority: 'medium',
+  category: 'leave',
+  requestData,
+  submittedAt: '2025-01-13T09:00:00.000Z',
+  workflow: wf,
+  currentStep: 0,
+  totalSteps: wf.steps.length,
+  canSelfApprove: false,
+  requiresDelegation: false,
+  createdAt: '2025-01-13T09:00:00.000Z',
+  updatedAt: '2025-01-13T09:00:00.000Z',
+});
+
+const at = (hours: number) => new Date(Date.UTC(2025, 0, 13, 9 + hours));
+
+describe('Approval Engine', () => {
+  describe('evaluateConditions', () => {
+    const req = request(workflow([]), { days: 5, leaveType: 'Vacation', tags: ['urgent'] });
+
+    it('compares request data fields', () => {
+      expect(evaluateConditions([{ id: 'c', field: 'days', operator: 'greater_than', value: 3 }], req)).toBe(true);
+      expect(evaluateConditions([{ id: 'c', field: 'leaveType', operator: 'in', value: 'Sick, Personal' }], req)).toBe(false);
+      expect(evaluateConditions([{ id: 'c', field: 'tags', operator: 'contains', value: 'urgent' }], req)).toBe(true);
+    });
+
+    it('joins conditions with and/or from left to right', () => {
+      expect(evaluateConditions([
+        { id: 'a', field: 'days', operator: 'less_than', value: 2 },
+        { id: 'b', field: 'leaveType', operator: 'equals', value: 'Vacation', logicalOperator: 'or' },
+      ], req)).toBe(true);
+      expect(evaluateConditions([
+        { id: 'a', field: 'days', operator: 'less_than', value: 2 },
+        { id: 'b', field: 'leaveType', operator: 'equals', value: 'Vacation' },
+      ], req)).toBe(false);
+    });
+  });
+
+  describe('resolveApprovers', () => {
+    const wf = workflow([]);
+
+    it('walks the group hierarchy for leader types', () => {
+      const req = request(wf);
+      expect(resolveApprovers(step(1, ApproverType.MANAGER), req, wf, directory)).toEqual(['tl']);
+      expect(resolveApprovers(step(1, ApproverType.UPPER_GROUP_LEADER), req, wf, directory)).toEqual(['rm']);
+      expect(resolveApprovers(step(1, ApproverType.TOP_GROUP_LEADER), req, wf, directory)).toEqual(['ceo']);
+      expect(resolveApprovers(step(1, ApproverType.ADMIN), req, wf, directory)).toEqual(['admin']);
+    });
+
+    it("sends a leader's own request one level up", () => {
+      expect(resolveApprovers(step(1, ApproverType.GROUP_LEADER), request(wf, {}, 'tl'), wf, directory)).toEqual(['rm']);
+    });
+
+    it('prefers an explicit manager over the group leader', () => {
+      const withManager = { ...directory, members: directory.members.map(m => m.id === 'emp' ? { ...m, managerId: 'rm' } : m) };
+      expect(resolveApprovers(step(1, ApproverType.MANAGER), request(wf), wf, withManager)).toEqual(['rm']);
+    });
+
+    it('hands steps to an active delegate', () => {
+      const delegated: ApprovalDirectory = {
+        ...directory,
+        delegations: [{
+          id: 'd1', delegatorId: 'tl', delegateId: 'deputy', delegateName: 'Deputy', delegateEmail: '',
+          delegateRole: UserRole.VIEWER, requestType: ApprovalRequestType.LEAVE_REQUEST,
+          startDate: '2025-01-10', endDate: '2025-01-20', reason: 'Holiday', status: DelegationStatus.ACTIVE,
+          isActive: true, createdAt: '', updatedAt: '',
+        }],
+      };
+      expect(resolveApprovers(step(1, ApproverType.GROUP_LEADER), request(wf), wf, delegated, at(0))).toEqual(['deputy']);
+    });
+  });
+
+  describe('decisions', () => {
+    const twoSteps = workflow([
+      step(1, ApproverType.GROUP_LEADER),
+      step(2, ApproverType.UPPER_GROUP_LEADER, {
+        conditions: [{ id: 'long', field: 'days', operator: 'greater_than', value: 3 }],
+      }),
+    ]);
+
+    it('moves through every step and approves the request', () => {
+      let instance = startApproval(request(twoSteps, { days: 5 }), directory, at(0));
+      expect(getActiveStep(instance)?.approverIds).toEqual(['tl']);
+
+      instance = recordDecision(instance, { actorId: 'tl', action: 'approve' }, directory, at(1));
+      expect(instance.request.status).toBe(ApprovalStatus.IN_REVIEW);
+      expect(instance.request.currentStep).toBe(2);
+      expect(getActiveStep(instance)?.approverIds).toEqual(['rm']);
+
+      instance = recordDecision(instance, { actorId: 'rm', action: 'approve' }, directory, at(2));
+      expect(instance.request.status).toBe(ApprovalStatus.APPROVED);
+      expect(instance.request.approvedBy).toBe('rm');
+      expect(instance.auditLog.map(entry => entry.action)).toEqual([
+        'submitted', 'step_started', 'step_approved', 'step_started', 'step_approved', 'request_approved',
+      ]);
+    });
+
+    it('skips steps whose conditions do not match', () => {
+      let instance = startApproval(request(twoSteps, { days: 1 }), directory, at(0));
+      instance = recordDecision(instance, { actorId: 'tl', action: 'approve' }, directory, at(1));
+
+      expect(instance.request.status).toBe(ApprovalStatus.APPROVED);
+      expect(instance.steps[1].status).toBe('skipped');
+    });
+
+    it('rejects with a comment and refuses outsiders', () => {
+      const instance = startApproval(request(twoSteps), directory, at(0));
+
+      expect(() => recordDecision(instance, { actorId: 'rm', action: 'approve' }, directory)).toThrow(ApprovalEngineError);
+      expect(() => recordDecision(instance, { actorId: 'tl', action: 'reject' }, directory)).toThrow(/comment is required/);
+
+      const rejected = recordDecision(instance, { actorId: 'tl', action: 'reject', comment: 'Peak season' }, directory, at(1));
+      expect(rejected.request.status).toBe(ApprovalStatus.REJECTED);
+      expect(rejected.request.rejectionReason).toBe('Peak season');
+      expect(instance.request.status).toBe(ApprovalStatus.PENDING);
+    });
+
+    it('lets admins override and records it', () => {
+      const instance = startApproval(request(twoSteps), directory, at(0));
+      const approved = recordDecision(instance, { actorId: 'admin', action: 'approve' }, directory, at(1));
+
+      expect(approved.request.status).toBe(ApprovalStatus.APPROVED);
+      expect(approved.auditLog.find(entry => entry.action === 'step_approved')?.details.override).toBe(true);
+    });
+
+    it('delegates a step to another member', () => {
+      const instance = startApproval(request(twoSteps), directory, at(0));
+      const delegated = recordDecision(instance, { actorId: 'tl', action: 'delegate', delegateTo: 'deputy' }, directory, at(1));
+
+      expect(getActiveStep(delegated)?.approverIds).toEqual(['deputy']);
+      expect(recordDecision(delegated, { actorId: 'deputy', action: 'approve' }, directory, at(2)).request.status)
+        .toBe(ApprovalStatus.APPROVED);
+    });
+  });
+
+  describe('timers', () => {
+    it('auto-approves matching requests on submission', () => {
+      const wf = workflow([step(1, ApproverType.GROUP_LEADER)], {
+        autoApprove: true,
+        autoApproveConditions: [{ id: 'short', field: 'days', operator: 'less_than', value: 2 }],
+      });
+
+      expect(startApproval(request(wf, { days: 1 }), directory, at(0)).request.status).toBe(ApprovalStatus.APPROVED);
+      expect(startApproval(request(wf, { days: 4 }), directory, at(0)).request.status).toBe(ApprovalStatus.PENDING);
+    });
+
+    it('auto-approves a step after its timeout', () => {
+      const wf = workflow([step(1, ApproverType.GROUP_LEADER, { autoApproveAfter: 24 })]);
+      const instance = startApproval(request(wf), directory, at(0));
+
+      expect(processApprovalTimers(instance, directory, at(23)).request.status).toBe(ApprovalStatus.PENDING);
+      expect(processApprovalTimers(instance, directory, at(24)).request.status).toBe(ApprovalStatus.APPROVED);
+    });
+
+    it('escalates to the next level once per rule', () => {
+      const wf = workflow([step(1, ApproverType.GROUP_LEADER)], {
+        escalationRules: [{
+          id: 'esc', name: 'Two days', triggerType: 'step_timeout', triggerValue: 48,
+          escalationType: 'next_level', notificationSettings: { email: true, push: false, sms: false }, isActive: true,
+        }],
+      });
+      let instance = startApproval(request(wf), directory, at(0));
+      instance = processApprovalTimers(instance, directory, at(48));
+      instance = processApprovalTimers(instance, directory, at(60));
+
+      expect(getActiveStep(instance)?.approverIds).toEqual(['rm']);
+      expect(getActiveStep(instance)?.escalationLevel).toBe(1);
+      expect(instance.auditLog.filter(entry => entry.action === 'step_escalated')).toHaveLength(1);
+    });
+
+    it('escalates a request time limit once, not again at later steps', () => {
+      const wf = workflow([step(1, ApproverType.GROUP_LEADER), step(2, ApproverType.ADMIN)], {
+        escalationRules: [{
+          id: 'deadline', name: 'Three days', triggerType: 'time_limit', triggerValue: 72,
+          escalationType: 'next_level', notificationSettings: { email: true, push: false, sms: false }, isActive: true,
+        }],
+      });
+      let instance = processApprovalTimers(startApproval(request(wf), directory, at(0)), directory, at(72));
+      expect(getActiveStep(instance)?.approverIds).toEqual(['rm']);
+
+      instance = recordDecision(instance, { actorId: 'rm', action: 'approve' }, directory, at(73));
+      instance = processApprovalTimers(instance, directory, at(96));
+
+      expect(getActiveStep(instance)).toMatchObject({ stepNumber: 2, approverIds: ['admin'], escalationLevel: 0 });
+      expect(instance.auditLog.filter(entry => entry.action === 'step_escalated')).toHaveLength(1);
+    });
+
+    it('expires required steps and skips optional ones at the time limit', () => {
+      const required = workflow([step(1, ApproverType.GROUP_LEADER, { timeLimit: 72 })]);
+      const expired = processApprovalTimers(startApproval(request(required), directory, at(0)), directory, at(72));
+      expect(expired.request.status).toBe(ApprovalStatus.EXPIRED);
+
+      const optional = workflow([
+        step(1, ApproverType.GROUP_LEADER, { timeLimit: 72, isRequired: false }),
+        step(2, ApproverType.ADMIN),
+      ]);
+      const moved = processApprovalTimers(startApproval(request(optional), directory, at(0)), directory, at(72));
+      expect(moved.steps[0].status).toBe('skipped');
+      expect(getActiveStep(moved)?.approverIds).toEqual(['admin']);
+    });
+  });
+
+  describe('createLeaveApprovalRequest', () => {
+    it('exposes leave details for conditions', () => {
+      const leave: LeaveRequest = {
+        id: '7',
+        userId: 'emp',
+        type: { id: '1', name: 'Vacation', maxDays: 20, color: '#10B981', requiresApproval: true },
+        startDate: '2025-02-03',
+        endDate: '2025-02-07',
+        reason: 'Trip',
+        status: 'pending',
+      };
+      const req = createLeaveApprovalRequest(leave, workflow([]), directory.members[0], at(0));
+
+      expect(req.requestData).toMatchObject({ days: 5, leaveType: 'Vacation' });
+      expect(req.requesterGroupId).toBe('team');
+    });
+  });
+
+  describe('createExpenseApprovalRequest', () => {
+    it('exposes the claim amount, cost centre and receipts for conditions', () => {
+      const claim: ExpenseClaim = {
+        id: '9',
+        employeeId: 'emp',
+        employeeName: 'Member emp',
+        areaId: 'north',
+        costCentre: 'CC-4200',
+        title: 'Store visits week 3',
+        lines: [
+          { id: 'l1', category: 'mileage', date: '2025-01-13', description: 'Mileage', amount: 37.5, kilometers: 125, journeyPlanId: 'j1', receipts: [] },
+          { id: 'l2', category: 'meals', date: '2025-01-13', description: 'Lunch', amount: 30, receipts: [{ id: 'r1', url: 'blob:r1', capturedAt: '2025-01-13T12:00:00Z' }] },
+        ],
+        total: 67.5,
+        status: 'submitted',
+        source: 'mobile',
+        createdAt: '2025-01-13T18:00:00Z',
+        updatedAt: '2025-01-13T18:00:00Z',
+      };
+      const req = createExpenseApprovalRequest(claim, workflow([]), directory.members[0], at(0));
+
+      expect(req).toMatchObject({ id: 'expense-9', type: ApprovalRequestType.EXPENSE_CLAIM, title: 'Store visits week 3: €67.50', attachments: ['blob:r1'] });
+      expect(req.requestData).toEqual({ amount: 67.5, areaId: 'north', costCentre: 'CC-4200', categories: ['mileage', 'meals'], kilometers: 125 });
+    });
+  });
+});
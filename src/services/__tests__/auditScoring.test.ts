@@ -0,0 +1,174 @@
+/**
+ * Audit Scoring Unit Tests
+ *
+ * Tests for scoring operations audits including:
+ * - Weighted sections and N/A handling
+ * - Critical auto-fail items
+ * - Next audit date from the score band
+ * - Corrective actions raised from failed items and closing them
+ * - Persisting audit state
+ */
+
+import {
+  AuditScoringError,
+  closeCorrectiveAction,
+  completeAudit,
+  DEFAULT_SCHEDULE_BANDS,
+  isCorrectiveActionOverdue,
+  loadAuditState,
+  raiseCorrectiveActions,
+  saveAuditState,
+  scoreAudit
+} from '../auditScoring';
+import { Audit, AuditAnswer, AuditTemplate } from '../../types';
+
+const template: AuditTemplate = {
+  id: 'tpl-1',
+  title: 'Store Safety',
+  type: 'safety',
+  passScore: 75,
+  scheduleBands: DEFAULT_SCHEDULE_BANDS,
+  actionDueDays: 14,
+  criticalActionDueDays: 2,
+  sections: [
+    {
+      id: 'fire',
+      title: 'Fire safety',
+      weight: 3,
+      items: [
+        { id: 'exits', question: 'Emergency exits clear', points: 2, critical: true, correctiveAction: 'Clear the exits' },
+        { id: 'extinguishers', question: 'Extinguishers charged', points: 2 },
+      ],
+    },
+    {
+      id: 'housekeeping',
+      title: 'Housekeeping',
+      weight: 1,
+      items: [
+        { id: 'floors', question: 'Floors dry', points: 1, correctiveAction: 'Mop and sign wet floors' },
+        { id: 'lift', question: 'Goods lift inspected', points: 1, allowNA: true },
+      ],
+    },
+  ],
+};
+
+const answers = (results: Record<string, AuditAnswer['result']>): AuditAnswer[] =>
+  Object.entries(results).map(([itemId, result]) => ({ itemId, result }));
+
+const audit: Audit = {
+  id: 'a1',
+  title: 'Safety audit',
+  type: 'safety',
+  location: 'Store 12',
+  auditor: 'Sarah Wilson',
+  date: '2024-01-16',
+  status: 'in-progress',
+  maxScore: 100,
+  findings: [],
+  recommendations: [],
+};
+
+describe('Audit scoring', () => {
+  describe('scoreAudit', () => {
+    it('weights section percentages', () => {
+      const result = scoreAudit(template, answers({ exits: 'pass', extinguishers: 'fail', floors: 'pass', lift: 'pass' }), '2024-01-16');
+
+      // (50% x 3 + 100% x 1) / 4
+      expect(result.score).toBe(62.5);
+      expect(result.sections).toEqual([
+        { sectionId: 'fire', earned: 2, possible: 4, percentage: 50 },
+        { sectionId: 'housekeeping', earned: 2, possible: 2, percentage: 100 },
+      ]);
+      expect(result).toMatchObject({ passed: false, autoFailed: false, band: { label: 'Needs improvement' }, nextAuditDate: '2024-02-15' });
+      expect(result.findings).toEqual(['Fire safety: Extinguishers charged']);
+    });
+
+    it('leaves N/A items and all-N/A sections out of the score', () => {
+      const partNA = scoreAudit(template, answers({ exits: 'pass', extinguishers: 'pass', floors: 'fail', lift: 'na' }), '2024-01-16');
+      expect(partNA.sections[1]).toEqual({ sectionId: 'housekeeping', earned: 0, possible: 1, percentage: 0 });
+      expect(partNA.score).toBe(75);
+
+      const allNA = scoreAudit({
+        ...template,
+        sections: [template.sections[0], { ...template.sections[1], items: [template.sections[1].items[1]] }],
+      }, answers({ exits: 'pass', extinguishers: 'pass', lift: 'na' }), '2024-01-16');
+      expect(allNA.sections[1].percentage).toBeNull();
+      expect(allNA).toMatchObject({ score: 100, passed: true, band: { label: 'Excellent' }, nextAuditDate: '2024-07-14' });
+    });
+
+    it('auto-fails on a critical item whatever the score', () => {
+      const result = scoreAudit(template, answers({ exits: 'fail', extinguishers: 'pass', floors: 'pass', lift: 'pass' }), '2024-01-16');
+
+      expect(result.score).toBe(62.5);
+      expect(result).toMatchObject({ autoFailed: true, passed: false, criticalFailures: ['exits'], band: { label: 'Poor' } });
+      expect(result.nextAuditDate).toBe('2024-01-23');
+      expect(result.findings).toEqual(['CRITICAL - Fire safety: Emergency exits clear']);
+      expect(result.recommendations).toEqual(['Clear the exits']);
+    });
+
+    it('lists unanswered items and rejects invalid answers', () => {
+      expect(scoreAudit(template, answers({ exits: 'pass' }), '2024-01-16').unanswered).toEqual(['extinguishers', 'floors', 'lift']);
+      expect(() => scoreAudit(template, answers({ floors: 'na' }), '2024-01-16')).toThrow('"Floors dry" cannot be answered N/A');
+      expect(() => scoreAudit(template, answers({ ghost: 'pass' }), '2024-01-16')).toThrow(AuditScoringError);
+    });
+  });
+
+  describe('completeAudit', () => {
+    it('stores the score, status and next audit date', () => {
+      const completed = completeAudit(audit, template, answers({ exits: 'pass', extinguishers: 'pass', floors: 'fail', lift: 'na' }));
+
+      expect(completed).toMatchObject({
+        status: 'completed', score: 75, maxScore: 100, templateId: 'tpl-1', autoFailed: false, nextAuditDate: '2024-04-15',
+        recommendations: ['Mop and sign wet floors'],
+      });
+    });
+
+    it('refuses incomplete audits', () => {
+      expect(() => completeAudit(audit, template, answers({ exits: 'pass' }))).toThrow('3 item(s) still need an answer');
+    });
+  });
+
+  describe('corrective actions', () => {
+    const completed = completeAudit(audit, template, answers({ exits: 'fail', extinguishers: 'pass', floors: 'fail', lift: 'pass' }));
+    const now = new Date('2024-01-16T15:00:00Z');
+
+    it('raises one action per failed item with a due date by criticality', () => {
+      const actions = raiseCorrectiveActions(completed, template, [], now);
+
+      expect(actions.map(({ id, dueDate, critical }) => ({ id, dueDate, critical }))).toEqual([
+        { id: 'a1-exits', dueDate: '2024-01-18', critical: true },
+        { id: 'a1-floors', dueDate: '2024-01-30', critical: false },
+      ]);
+      expect(actions[1]).toMatchObject({ status: 'open', action: 'Mop and sign wet floors', location: 'Store 12' });
+      expect(raiseCorrectiveActions(completed, template, actions, now)).toHaveLength(2);
+    });
+
+    it('tracks actions until they are closed with a resolution', () => {
+      const [exits] = raiseCorrectiveActions(completed, template, [], now);
+
+      expect(isCorrectiveActionOverdue(exits, '2024-01-19')).toBe(true);
+      expect(() => closeCorrectiveAction(exits, 'Mike', '  ', now)).toThrow(AuditScoringError);
+
+      const closed = closeCorrectiveAction(exits, 'Mike', 'Pallets moved', now);
+      expect(closed).toMatchObject({ status: 'closed', closedBy: 'Mike', resolution: 'Pallets moved' });
+      expect(isCorrectiveActionOverdue(closed, '2024-01-19')).toBe(false);
+      expect(() => closeCorrectiveAction(closed, 'Mike', 'Again', now)).toThrow('already closed');
+    });
+  });
+
+  describe('persistence', () => {
+    it('round-trips state and falls back on missing or old data', () => {
+      const store: Record<string, string> = {};
+      const storage = { getItem: (key: string) => store[key] ?? null, setItem: (key: string, value: string) => { store[key] = value; } };
+      const fallback = { templates: [template], audits: [], correctiveActions: [] };
+
+      expect(loadAuditState(fallback, storage)).toBe(fallback);
+
+      saveAuditState({ templates: [template], audits: [audit], correctiveActions: [] }, storage);
+      expect(loadAuditState(fallback, storage).audits).toEqual([audit]);
+
+      store.operationsAudits = JSON.stringify({ version: 0, audits: [] });
+      expect(loadAuditState(fallback, storage)).toBe(fallback);
+    });
+  });
+});
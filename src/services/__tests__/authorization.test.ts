@@ -0,0 +1,219 @@
+/**
+ * Authorization Unit Tests
+ *
+ * Tests for the policy evaluator including:
+ * - Role policies scoped to own resources and workplaces
+ * - Leader and approval policies reaching the group subtree
+ * - Explicit grants, expiry and deny precedence
+ * - Route to resource mapping
+ */
+
+import {
+  addPermissionGrant,
+  authorize,
+  AuthorizationError,
+  can,
+  createAuthorizationSubject,
+  getGroupSubtree,
+  getRouteResource,
+  getWidestScope,
+  resolveMember,
+  ROLE_POLICIES
+} from '../authorization';
+import {
+  AuthorizationDirectory,
+  Group,
+  GroupMember,
+  GroupMemberRole,
+  Member,
+  MemberRole,
+  PermissionGrant,
+  UserRole
+} from '../../types';
+
+const member = (id: string, groups: string[], extra: Partial<Member> = {}): Member => ({
+  id,
+  userId: `user-${id}`,
+  name: `Member ${id}`,
+  email: `${id}@example.com`,
+  role: MemberRole.EMPLOYEE,
+  hireDate: '2020-01-01',
+  groups,
+  isLeader: false,
+  isAdmin: false,
+  approvalAuthority: false,
+  status: 'active',
+  createdAt: '2020-01-01T00:00:00Z',
+  updatedAt: '2020-01-01T00:00:00Z',
+  ...extra,
+});
+
+const group = (id: string, parentGroupId?: string, workplaceIds: string[] = []): Group => ({
+  id,
+  name: `Group ${id}`,
+  description: '',
+  parentGroupId,
+  members: [],
+  depth: parentGroupId ? 1 : 0,
+  isTopLevel: !parentGroupId,
+  isActive: true,
+  memberCount: 0,
+  leaderCount: 1,
+  workplaceIds,
+  settings: {} as Group['settings'],
+  createdBy: 'admin',
+  createdAt: '2020-01-01T00:00:00Z',
+  updatedAt: '2020-01-01T00:00:00Z',
+});
+
+const leaderOf = (groupId: string, memberId: string, hasApprovalAuthority: boolean): GroupMember => ({
+  id: `${groupId}-${memberId}`,
+  groupId,
+  memberId,
+  memberName: memberId,
+  memberEmail: '',
+  role: GroupMemberRole.LEADER,
+  isLeader: true,
+  hasApprovalAuthority,
+  assignedWorkplaces: [],
+  assignedAt: '2020-01-01T00:00:00Z',
+  assignedBy: 'admin',
+  isActive: true,
+});
+
+const grant = (overrides: Partial<PermissionGrant>): PermissionGrant => ({
+  id: 'grant-1',
+  memberId: 'emp',
+  effect: 'allow',
+  actions: ['view'],
+  resources: ['report'],
+  scope: 'all',
+  grantedBy: 'admin',
+  grantedAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// north > north-east > north-east-1; south is a separate tree
+const GROUPS = [
+  group('north'),
+  group('north-east', 'north', ['wp-ne']),
+  group('north-east-1', 'north-east'),
+  group('south', undefined, ['wp-s']),
+];
+
+const MEMBERS = [
+  member('emp', ['north-east-1'], { workplaceId: 'wp-ne' }),
+  member('south-emp', ['south']),
+  member('lead', ['north-east'], { role: MemberRole.LEADER, isLeader: true }),
+  member('admin', ['north'], { role: MemberRole.ADMIN, isAdmin: true }),
+];
+
+const directory = (overrides: Partial<AuthorizationDirectory> = {}): AuthorizationDirectory => ({
+  members: MEMBERS,
+  groups: GROUPS,
+  groupMembers: [leaderOf('north-east', 'lead', false)],
+  grants: [],
+  ...overrides,
+});
+
+const subjectFor = (id: string, dir = directory()) =>
+  createAuthorizationSubject(dir.members.find(candidate => candidate.id === id)!, dir, new Date('2025-06-01T00:00:00Z'));
+
+describe('Authorization', () => {
+  describe('role policies', () => {
+    it('limits employees to their own records and workplaces', () => {
+      const employee = subjectFor('emp');
+      expect(can(employee, 'view', 'leave')).toBe(true);
+      expect(can(employee, 'view', { type: 'leave', ownerId: 'emp' })).toBe(true);
+      expect(can(employee, 'view', { type: 'leave', ownerId: 'user-emp' })).toBe(true);
+      expect(can(employee, 'view', { type: 'leave', ownerId: 'south-emp' })).toBe(false);
+      expect(can(employee, 'create', { type: 'in-store-data', workplaceId: 'wp-ne' })).toBe(true);
+      expect(can(employee, 'create', { type: 'in-store-data', workplaceId: 'wp-s' })).toBe(false);
+      expect(can(employee, 'view', 'member')).toBe(false);
+      expect(authorize(employee, 'approve', 'approval')).toEqual({ allowed: false, reason: 'No policy allows approve on approval' });
+    });
+
+    it('lets admins do everything and suspends inactive members', () => {
+      expect(can(subjectFor('admin'), 'manage', { type: 'member', ownerId: 'south-emp' })).toBe(true);
+      const dir = directory({ members: MEMBERS.map(entry => entry.id === 'admin' ? { ...entry, status: 'suspended' as const } : entry) });
+      expect(subjectFor('admin', dir).policies).toEqual([]);
+    });
+  });
+
+  describe('group subtree', () => {
+    it('gives leaders their group and every subgroup, but not other trees', () => {
+      const leader = subjectFor('lead');
+      expect(getGroupSubtree(GROUPS, 'north')).toEqual(['north', 'north-east', 'north-east-1']);
+      expect(can(leader, 'view', { type: 'attendance', ownerId: 'emp' })).toBe(true);
+      expect(can(leader, 'edit', { type: 'group', id: 'north-east-1' })).toBe(true);
+      expect(can(leader, 'view', { type: 'report', workplaceId: 'wp-ne' })).toBe(true);
+      expect(can(leader, 'view', { type: 'attendance', ownerId: 'south-emp' })).toBe(false);
+      expect(can(leader, 'edit', { type: 'group', id: 'north' })).toBe(false);
+    });
+
+    it('allows approvals only with approval authority', () => {
+      const resource = { type: 'leave' as const, ownerId: 'emp' };
+      expect(can(subjectFor('lead'), 'approve', resource)).toBe(false);
+
+      const approving = directory({ groupMembers: [leaderOf('north-east', 'lead', true)] });
+      expect(authorize(subjectFor('lead', approving), 'approve', resource)).toMatchObject({ allowed: true, policyId: 'approver:north-east' });
+
+      // Group.leaderId counts as leadership, with the member's own approval authority
+      const byLeaderId = directory({
+        groupMembers: [],
+        groups: GROUPS.map(entry => entry.id === 'south' ? { ...entry, leaderId: 'lead' } : entry),
+        members: MEMBERS.map(entry => entry.id === 'lead' ? { ...entry, approvalAuthority: true } : entry),
+      });
+      expect(can(subjectFor('lead', byLeaderId), 'approve', { type: 'leave', ownerId: 'south-emp' })).toBe(true);
+    });
+  });
+
+  describe('grants', () => {
+    it('extends access until the grant expires', () => {
+      const dir = directory({ grants: [grant({ scope: 'group-subtree', groupId: 'south', expiresAt: '2025-07-01T00:00:00Z' })] });
+      expect(can(subjectFor('emp', dir), 'view', { type: 'report', ownerId: 'south-emp' })).toBe(true);
+      expect(can(subjectFor('emp', dir), 'view', { type: 'report', groupId: 'north' })).toBe(false);
+
+      const expired = createAuthorizationSubject(MEMBERS[0], dir, new Date('2025-07-02T00:00:00Z'));
+      expect(can(expired, 'view', { type: 'report', ownerId: 'south-emp' })).toBe(false);
+    });
+
+    it('lets a deny win over any allow', () => {
+      const dir = directory({ grants: [grant({ memberId: 'admin', effect: 'deny', resources: ['admin'], actions: ['*'], reason: 'Audit freeze' })] });
+      expect(authorize(subjectFor('admin', dir), 'manage', 'admin')).toEqual({ allowed: false, policyId: 'grant:grant-1', reason: 'Denied by Audit freeze' });
+      expect(can(subjectFor('admin', dir), 'manage', 'member')).toBe(true);
+    });
+
+    it('validates new grants', () => {
+      const dir = directory();
+      expect(addPermissionGrant([], grant({}), dir)).toHaveLength(1);
+      expect(() => addPermissionGrant([], grant({ scope: 'group-subtree' }), dir)).toThrow('A group grant needs a group');
+      expect(() => addPermissionGrant([], grant({ scope: 'group-subtree', groupId: 'west' }), dir)).toThrow('Unknown group "west"');
+      expect(() => addPermissionGrant([], grant({ scope: 'workplace' }), dir)).toThrow(AuthorizationError);
+      expect(() => addPermissionGrant([], grant({ expiresAt: '2024-12-31T00:00:00Z' }), dir)).toThrow('A grant cannot expire before it is made');
+      expect(() => addPermissionGrant([grant({})], grant({}), dir)).toThrow('Grant grant-1 already exists');
+      expect(() => addPermissionGrant([], grant({ memberId: 'admin' }), dir)).toThrow('Grants cannot be made to yourself');
+    });
+  });
+
+  describe('helpers', () => {
+    it('reports the widest scope per role', () => {
+      expect(getWidestScope(ROLE_POLICIES[MemberRole.EMPLOYEE], 'view', 'report')).toBe('own');
+      expect(getWidestScope(ROLE_POLICIES[MemberRole.ADMIN], 'view', 'report')).toBe('all');
+      expect(getWidestScope(ROLE_POLICIES[MemberRole.LEADER], 'manage', 'group')).toBeNull();
+    });
+
+    it('stands up a member for users outside the directory', () => {
+      const resolved = resolveMember(directory(), { id: 'u9', email: 'u9@example.com', name: 'Nine', role: UserRole.EDITOR });
+      expect(resolved).toMatchObject({ id: 'u9', role: MemberRole.LEADER, groups: [] });
+      expect(resolveMember(directory(), { id: 'x', email: 'EMP@example.com', name: 'E', role: UserRole.VIEWER }).id).toBe('emp');
+    });
+
+    it('maps routes to resources by first segment', () => {
+      expect(getRouteResource('/')).toBe('dashboard');
+      expect(getRouteResource('/journey/settings')).toBe('journey-plan');
+      expect(getRouteResource('/grant-leave')).toBe('leave-grant');
+      expect(getRouteResource('/unknown')).toBeUndefined();
+    });
+  });
+});
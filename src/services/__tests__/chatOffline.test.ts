@@ -0,0 +1,186 @@
+/**
+ * Chat Offline Unit Tests
+ *
+ * Tests for the offline chat layer including:
+ * - Client message IDs and pending message merging
+ * - Outbox flushing with ordering, backoff and failure states
+ * - Incremental channel sync by cursor, including edits and deletes
+ * - One shared flush for the REST API and the socket
+ */
+
+import {
+  MAX_SEND_ATTEMPTS,
+  createClientMessageId,
+  createMemoryStore,
+  flushChatOutbox,
+  flushOutbox,
+  getSyncCursor,
+  loadChannelMessages,
+  mergeMessages,
+  queueOutgoingMessage,
+  retryOutboxEntry,
+  syncChannelMessages,
+  updateCachedMessage
+} from '../chatOffline';
+import { ChatMessage, OutboxEntry } from '../../types/chat';
+
+const message = (id: string, createdAt: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  channelId: 'general',
+  senderId: 'u1',
+  content: `Message ${id}`,
+  messageType: 'text',
+  isEdited: false,
+  isDeleted: false,
+  isPinned: false,
+  isFlagged: false,
+  createdAt,
+  updatedAt: createdAt,
+  metadata: {},
+  complianceData: {} as ChatMessage['complianceData'],
+  ...extra,
+});
+
+const confirm = (entry: OutboxEntry, id: string, createdAt: string): ChatMessage =>
+  message(id, createdAt, { channelId: entry.channelId, content: entry.content, metadata: { clientMessageId: entry.clientId } });
+
+describe('Chat Offline', () => {
+  it('creates distinct client IDs and replaces pending messages with their server copy', () => {
+    const now = new Date('2025-06-01T09:00:00Z');
+    expect(createClientMessageId(now, () => 0.25)).toBe(createClientMessageId(now, () => 0.25));
+    expect(createClientMessageId(now, () => 0.25)).not.toBe(createClientMessageId(now, () => 0.5));
+
+    const pending = message('client-1', '2025-06-01T09:02:00Z', { clientId: 'client-1', deliveryStatus: 'sending' });
+    const server = message('m2', '2025-06-01T09:02:01Z', { metadata: { clientMessageId: 'client-1' } });
+    const merged = mergeMessages([message('m1', '2025-06-01T09:00:00Z'), pending], [server, message('m1', '2025-06-01T09:00:00Z')]);
+
+    expect(merged.map(entry => entry.id)).toEqual(['m1', 'm2']);
+    expect(mergeMessages([server], [pending]).map(entry => entry.id)).toEqual(['m2']);
+    expect(getSyncCursor([...merged, message('client-2', '2025-06-01T10:00:00Z', { deliveryStatus: 'failed' })]))
+      .toBe('2025-06-01T09:02:01Z');
+  });
+
+  it('sends queued messages in order and keeps them across failed attempts', async () => {
+    const store = createMemoryStore();
+    const first = await queueOutgoingMessage(store, 'general', 'u1', { content: 'One', messageType: 'text' }, new Date('2025-06-01T09:00:00Z'));
+    await queueOutgoingMessage(store, 'general', 'u1', { content: 'Two', messageType: 'text' }, new Date('2025-06-01T09:00:01Z'));
+    await queueOutgoingMessage(store, 'ops', 'u1', { content: 'Elsewhere', messageType: 'text' }, new Date('2025-06-01T09:00:02Z'));
+    expect(first).toMatchObject({ id: first.clientId, deliveryStatus: 'sending', metadata: { clientMessageId: first.clientId } });
+    expect(await loadChannelMessages(store, 'general')).toHaveLength(2);
+
+    const attempted: string[] = [];
+    const offline = await flushOutbox(store, async entry => {
+      attempted.push(entry.content);
+      if (entry.channelId === 'general') throw new Error('Socket disconnected');
+      return confirm(entry, 'm9', '2025-06-01T09:00:03Z');
+    }, new Date('2025-06-01T09:01:00Z'));
+
+    expect(attempted).toEqual(['One', 'Elsewhere']);
+    expect(offline.sent).toEqual([expect.objectContaining({ id: 'm9', deliveryStatus: 'sent' })]);
+    expect(offline.failed).toEqual([expect.objectContaining({ content: 'One', attempts: 1, lastError: 'Socket disconnected', status: 'queued' })]);
+    expect(offline.pending.map(entry => entry.content)).toEqual(['One', 'Two']);
+
+    // Still backing off a moment later, then both go out in order
+    const early = await flushOutbox(store, async () => { throw new Error('unexpected'); }, new Date('2025-06-01T09:01:00.500Z'));
+    expect(early.failed).toEqual([]);
+    const online = await flushOutbox(store, async entry => confirm(entry, `s-${entry.content}`, '2025-06-01T09:02:00Z'), new Date('2025-06-01T09:01:02Z'));
+    expect(online.sent.map(entry => entry.id)).toEqual(['s-One', 's-Two']);
+    expect(await store.getOutbox()).toEqual([]);
+  });
+
+  it('marks a message failed after the last attempt until the user retries it', async () => {
+    const store = createMemoryStore();
+    const pending = await queueOutgoingMessage(store, 'general', 'u1', { content: 'Hi', messageType: 'text', clientId: 'client-fixed' });
+    expect(pending.clientId).toBe('client-fixed');
+
+    let now = Date.parse('2025-06-01T09:00:00Z');
+    for (let attempt = 0; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+      now += 120000;
+      await flushOutbox(store, async () => { throw new Error('Server unavailable'); }, new Date(now));
+    }
+    const [failed] = await store.getOutbox();
+    expect(failed).toMatchObject({ attempts: MAX_SEND_ATTEMPTS, status: 'failed' });
+    expect((await loadChannelMessages(store, 'general'))[0].deliveryStatus).toBe('failed');
+
+    const skipped = await flushOutbox(store, async () => { throw new Error('unexpected'); }, new Date(now + 3600000));
+    expect(skipped.failed).toEqual([]);
+
+    expect(await retryOutboxEntry(store, 'client-fixed')).toMatchObject({ attempts: 0, status: 'queued' });
+    expect(await retryOutboxEntry(store, 'missing')).toBeUndefined();
+    const sent = await flushOutbox(store, async entry => confirm(entry, 'm1', '2025-06-01T10:00:00Z'));
+    expect(sent.sent[0].clientId).toBe('client-fixed');
+  });
+
+  it('syncs a channel incrementally from its cursor and keeps the cache when offline', async () => {
+    const store = createMemoryStore();
+    const cursors: Array<string | undefined> = [];
+    const server = [
+      message('m1', '2025-06-01T09:00:00Z'),
+      message('m2', '2025-06-01T09:01:00Z'),
+      message('m3', '2025-06-01T09:02:00Z'),
+      message('m4', '2025-06-01T09:03:00Z'),
+    ];
+    const fetchSince = (available: ChatMessage[]) => async (cursor?: string) => {
+      cursors.push(cursor);
+      return available.filter(entry => !cursor || entry.createdAt >= cursor).slice(0, 2);
+    };
+
+    const initial = await syncChannelMessages(store, 'general', fetchSince(server.slice(0, 2)), { pageSize: 2 });
+    expect(initial).toMatchObject({ cursor: '2025-06-01T09:01:00Z', fetched: 2 });
+
+    const next = await syncChannelMessages(store, 'general', fetchSince(server), { pageSize: 2 });
+    expect(next.messages.map(entry => entry.id)).toEqual(['m1', 'm2', 'm3', 'm4']);
+    expect(cursors).toEqual([undefined, '2025-06-01T09:01:00Z', '2025-06-01T09:02:00Z', '2025-06-01T09:03:00Z']);
+
+    await queueOutgoingMessage(store, 'general', 'u1', { content: 'Offline note', messageType: 'text' });
+    const offline = await syncChannelMessages(store, 'general', async () => { throw new Error('Network Error'); });
+    expect(offline.error).toBe('Network Error');
+    expect(offline.messages.map(entry => entry.deliveryStatus || 'cached')).toEqual(['cached', 'cached', 'cached', 'cached', 'sending']);
+    expect((await store.getChannel('general'))?.cursor).toBe('2025-06-01T09:03:00Z');
+
+    await updateCachedMessage(store, 'general', 'm2', { content: 'Edited', isEdited: true });
+    await updateCachedMessage(store, 'general', 'm3', null);
+    expect((await store.getChannel('general'))?.messages.map(entry => entry.content))
+      .toEqual(['Message m1', 'Edited', 'Message m4']);
+  });
+
+  it('moves the cursor with edits and replaces cached messages with their tombstones', async () => {
+    const store = createMemoryStore();
+    const cursors: Array<string | undefined> = [];
+    await syncChannelMessages(store, 'general', async () => [message('m1', '2025-06-01T09:00:00Z'), message('m2', '2025-06-01T09:01:00Z')]);
+
+    const changes = [
+      message('m1', '2025-06-01T09:00:00Z', { content: 'Edited', isEdited: true, updatedAt: '2025-06-01T09:05:00Z' }),
+      message('m2', '2025-06-01T09:01:00Z', { content: '', isDeleted: true, updatedAt: '2025-06-01T09:06:00Z' }),
+    ];
+    const synced = await syncChannelMessages(store, 'general', async cursor => {
+      cursors.push(cursor);
+      return changes;
+    });
+
+    expect(cursors).toEqual(['2025-06-01T09:01:00Z']);
+    expect(synced.cursor).toBe('2025-06-01T09:06:00Z');
+    expect(synced.messages.map(entry => [entry.id, entry.content, entry.isDeleted])).toEqual([
+      ['m1', 'Edited', false],
+      ['m2', '', true],
+    ]);
+  });
+
+  it('shares one running flush between callers so no entry is sent twice', async () => {
+    const store = createMemoryStore();
+    await queueOutgoingMessage(store, 'general', 'u1', { content: 'Once', messageType: 'text' });
+    const sends: string[] = [];
+    const send = (transport: string) => async (entry: OutboxEntry) => {
+      sends.push(`${transport}:${entry.content}`);
+      return confirm(entry, 'm1', '2025-06-01T09:00:00Z');
+    };
+
+    const [rest, socket] = await Promise.all([flushChatOutbox(send('rest'), store), flushChatOutbox(send('socket'), store)]);
+
+    expect(sends).toEqual(['rest:Once']);
+    expect(socket).toBe(rest);
+    expect(await store.getOutbox()).toEqual([]);
+    expect((await store.getChannel('general'))?.messages.map(entry => entry.id)).toEqual(['m1']);
+    expect((await flushChatOutbox(send('socket'), store)).sent).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Chat Threads Unit Tests
+ *
+ * Tests for chat conversation state including:
+ * - Thread grouping of replies
+ * - @user and @channel mention parsing and autocomplete
+ * - Per-user unread and mention counters driven by read markers
+ * - Taking chat-service's counts without losing a newer local read
+ * - Mention-only notifications and quiet hours
+ */
+
+import {
+  applyUnreadSummaries,
+  buildThreads,
+  countUnread,
+  defaultNotificationSettings,
+  emptyInboxState,
+  getMentionQuery,
+  getMentionTargets,
+  insertMention,
+  isWithinQuietHours,
+  loadChatInboxState,
+  markChannelRead,
+  parseMentions,
+  recordIncomingMessage,
+  saveChatInboxState,
+  shouldNotify,
+  suggestMentions,
+  withNotificationMode
+} from '../chatThreads';
+import { ChatMessage, ChatUser } from '../../types/chat';
+
+const user = (id: string, name: string): ChatUser => ({
+  id,
+  name,
+  email: `${name.split(' ')[0].toLowerCase()}@acme.com`,
+  role: 'employee',
+  status: { status: 'online', lastSeenAt: '2025-06-01T00:00:00Z', isTyping: false, updatedAt: '2025-06-01T00:00:00Z' },
+  isOnline: true,
+  lastSeenAt: '2025-06-01T00:00:00Z',
+  isTyping: false,
+});
+
+const message = (id: string, senderId: string, content: string, createdAt: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  channelId: 'general',
+  senderId,
+  content,
+  messageType: 'text',
+  isEdited: false,
+  isDeleted: false,
+  isPinned: false,
+  isFlagged: false,
+  createdAt,
+  updatedAt: createdAt,
+  metadata: {},
+  complianceData: {} as ChatMessage['complianceData'],
+  ...extra,
+});
+
+const ANN = user('u1', 'Ann Lee');
+const ANNA = user('u2', 'Anna Berg');
+const BOB = user('u3', 'Bob Ray');
+const MEMBERS = [ANN, ANNA, BOB];
+
+describe('Chat Threads', () => {
+  it('moves replies under their root, following reply chains', () => {
+    const messages = [
+      message('m1', 'u1', 'Shelf plan for Friday?', '2025-06-01T09:00:00Z'),
+      message('m2', 'u2', 'Done', '2025-06-01T09:05:00Z', { replyToId: 'm1' }),
+      message('m3', 'u3', 'Photos?', '2025-06-01T09:10:00Z'),
+      message('m4', 'u3', 'Thanks', '2025-06-01T09:07:00Z', { replyToId: 'm2' }),
+      message('m5', 'u1', 'Re: older message', '2025-06-01T09:20:00Z', { replyToId: 'not-loaded' }),
+    ];
+    const { topLevel, threads } = buildThreads(messages);
+
+    expect(topLevel.map(entry => entry.id)).toEqual(['m1', 'm3', 'm5']);
+    expect(threads.m1.replies.map(entry => entry.id)).toEqual(['m2', 'm4']);
+    expect(threads.m1).toMatchObject({ participantIds: ['u1', 'u2', 'u3'], lastReplyAt: '2025-06-01T09:07:00Z' });
+  });
+
+  it('parses mentions by full name, handle and channel keyword', () => {
+    const mentions = parseMentions('@Ann Lee and @anna, see @channel. Mail ann@acme.com, not @Annabel', MEMBERS);
+    expect(mentions.map(({ type, userId, text }) => ({ type, userId, text }))).toEqual([
+      { type: 'user', userId: 'u1', text: '@Ann Lee' },
+      { type: 'user', userId: 'u2', text: '@anna' },
+      { type: 'channel', userId: undefined, text: '@channel' },
+    ]);
+    expect(mentions[0]).toMatchObject({ start: 0, end: 8 });
+    expect(getMentionTargets('@Ann Lee @ann @here @everyone @Bob Ray', MEMBERS)).toEqual(['u1', 'channel', 'u3']);
+  });
+
+  it('suggests channel members and inserts the chosen mention', () => {
+    const text = 'Thanks @an for';
+    const query = getMentionQuery(text, 10);
+    expect(query).toEqual({ query: 'an', start: 7 });
+    expect(getMentionQuery('mail ann@acme', 13)).toBeNull();
+
+    const suggestions = suggestMentions(query!.query, [...MEMBERS, ANN], { excludeUserId: 'u2' });
+    expect(suggestions.map(entry => entry.label)).toEqual(['Ann Lee']);
+    expect(suggestMentions('ra', MEMBERS).map(entry => entry.label)).toEqual(['Bob Ray']);
+    expect(suggestMentions('ch', MEMBERS)).toEqual([
+      { type: 'channel', label: '@channel', description: 'Notify every member of this channel', insert: '@channel ' },
+    ]);
+    expect(insertMention(text, query!.start, 10, suggestions[0])).toEqual({ text: 'Thanks @Ann Lee for', caret: 16 });
+  });
+
+  it('counts unread messages and mentions per user from the read marker', () => {
+    const messages = [
+      message('m1', 'u3', 'Morning', '2025-06-01T09:00:00Z'),
+      message('m2', 'u3', '@Ann Lee can you check?', '2025-06-01T09:05:00Z'),
+      message('m3', 'u1', 'On it', '2025-06-01T09:06:00Z'),
+      message('m4', 'u3', 'Reply @here', '2025-06-01T09:10:00Z', { replyToId: 'm1' }),
+      message('m5', 'u3', 'Seen elsewhere', '2025-06-01T09:11:00Z', { readBy: ['u1'] }),
+      message('m6', 'u3', '@Ann Lee removed', '2025-06-01T09:12:00Z', { isDeleted: true }),
+    ];
+    expect(countUnread(messages, 'u1', MEMBERS)).toEqual({ unread: 3, mentions: 2 });
+    expect(countUnread(messages, 'u1', MEMBERS, { lastReadAt: '2025-06-01T09:05:00Z' })).toEqual({ unread: 1, mentions: 1 });
+    expect(countUnread(messages, 'u3', MEMBERS)).toEqual({ unread: 1, mentions: 0 });
+  });
+
+  it('tracks incoming messages until the channel is marked read', () => {
+    let state = emptyInboxState();
+    state = recordIncomingMessage(state, message('m1', 'u3', 'Hi @Ann', '2025-06-01T09:00:00Z'), 'u1', [ANN]);
+    state = recordIncomingMessage(state, message('m2', 'u3', 'Anyone?', '2025-06-01T09:01:00Z'), 'u1', [ANN]);
+    state = recordIncomingMessage(state, message('m3', 'u1', 'Me', '2025-06-01T09:02:00Z'), 'u1', [ANN]);
+    expect(state.counts.general).toEqual({ unread: 2, mentions: 1 });
+
+    const latest = message('m2', 'u3', 'Anyone?', '2025-06-01T09:01:00Z');
+    state = markChannelRead(state, 'general', latest);
+    expect(state.counts.general).toEqual({ unread: 0, mentions: 0 });
+    expect(markChannelRead(state, 'general', message('m0', 'u3', 'Old', '2025-06-01T08:00:00Z')).markers.general)
+      .toEqual({ lastReadAt: '2025-06-01T09:01:00Z', lastReadMessageId: 'm2' });
+    expect(recordIncomingMessage(state, latest, 'u1', [ANN])).toBe(state);
+  });
+
+  it('takes server counts and markers unless this device read the channel more recently', () => {
+    let state = markChannelRead(emptyInboxState(), 'general', message('m2', 'u3', 'Anyone?', '2025-06-01T09:01:00Z'));
+    state = applyUnreadSummaries(state, [
+      { channelId: 'general', unread: 4, mentions: 1, lastReadAt: '2025-06-01T08:00:00Z' },
+      { channelId: 'shop-floor', unread: 2, mentions: 0 },
+      { channelId: 'ops', unread: 1, mentions: 1, lastReadAt: '2025-06-01T10:00:00Z' },
+    ]);
+
+    expect(state.counts).toEqual({ general: { unread: 0, mentions: 0 }, 'shop-floor': { unread: 2, mentions: 0 }, ops: { unread: 1, mentions: 1 } });
+    expect(state.markers).toEqual({
+      general: { lastReadAt: '2025-06-01T09:01:00Z', lastReadMessageId: 'm2' },
+      ops: { lastReadAt: '2025-06-01T10:00:00Z' },
+    });
+
+    state = applyUnreadSummaries(state, [{ channelId: 'general', unread: 1, mentions: 0, lastReadAt: '2025-06-01T09:30:00Z' }]);
+    expect(state.counts.general).toEqual({ unread: 1, mentions: 0 });
+    expect(state.markers.general).toEqual({ lastReadAt: '2025-06-01T09:30:00Z' });
+  });
+
+  it('notifies mention-only members on mentions outside quiet hours', () => {
+    const settings = withNotificationMode(defaultNotificationSettings('Europe/Berlin'), 'mentions');
+    const quiet = { ...settings, quietHours: { ...settings.quietHours, enabled: true } };
+    const mention = message('m1', 'u3', '@Ann Lee stock count?', '2025-06-01T09:00:00Z');
+    const chatter = message('m2', 'u3', 'Lunch?', '2025-06-01T09:00:00Z');
+    const noon = new Date('2025-06-01T10:00:00Z');  // 12:00 in Berlin
+    const night = new Date('2025-06-01T21:30:00Z'); // 23:30 in Berlin
+
+    expect(shouldNotify(mention, 'u1', settings, MEMBERS, noon)).toBe(true);
+    expect(shouldNotify(chatter, 'u1', settings, MEMBERS, noon)).toBe(false);
+    expect(shouldNotify(mention, 'u1', quiet, MEMBERS, noon)).toBe(true);
+    expect(shouldNotify(mention, 'u1', quiet, MEMBERS, night)).toBe(false);
+    expect(shouldNotify(chatter, 'u1', withNotificationMode(settings, 'all'), MEMBERS, night)).toBe(true);
+    expect(shouldNotify(mention, 'u1', withNotificationMode(settings, 'none'), MEMBERS, noon)).toBe(false);
+  });
+
+  it('reads quiet hours in their timezone, including windows over midnight', () => {
+    const hours = (startTime: string, endTime: string, timezone: string) => ({ enabled: true, startTime, endTime, timezone });
+    expect(isWithinQuietHours(hours('22:00', '07:00', 'UTC'), new Date('2025-06-01T06:59:00Z'))).toBe(true);
+    expect(isWithinQuietHours(hours('22:00', '07:00', 'UTC'), new Date('2025-06-01T07:00:00Z'))).toBe(false);
+    expect(isWithinQuietHours(hours('12:00', '14:00', 'Asia/Tokyo'), new Date('2025-06-01T04:00:00Z'))).toBe(true);
+    expect(isWithinQuietHours(hours('12:00', '14:00', 'UTC'), new Date('2025-06-01T04:00:00Z'))).toBe(false);
+    expect(isWithinQuietHours({ ...hours('12:00', '14:00', 'UTC'), enabled: false }, new Date('2025-06-01T13:00:00Z'))).toBe(false);
+  });
+
+  it('keeps each user\'s state apart in storage and falls back on unreadable data', () => {
+    const store = new Map<string, string>();
+    const storage = { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => { store.set(key, value); } };
+    const annState = markChannelRead(emptyInboxState(), 'general', message('m1', 'u3', 'Hi', '2025-06-01T09:00:00Z'));
+
+    saveChatInboxState('u1', annState, storage);
+    saveChatInboxState('u3', emptyInboxState(), storage);
+    expect(loadChatInboxState('u1', emptyInboxState(), storage)).toEqual(annState);
+    expect(loadChatInboxState('u3', annState, storage)).toEqual(emptyInboxState());
+
+    const fallback = emptyInboxState();
+    store.set('chatInboxState', '{');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(loadChatInboxState('u1', fallback, storage)).toBe(fallback);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Column Mapping Import Unit Tests
+ *
+ * Tests for the shared import steps including:
+ * - Guessing headers by label and alias
+ * - Missing, unknown and doubly mapped columns
+ * - Row errors, spreadsheet row numbers and duplicate rows
+ * - Date and number cells
+ */
+
+import {
+  ColumnDefinition,
+  guessColumnMapping,
+  parseCellDate,
+  parseCellNumber,
+  readMappedRows,
+  validateColumnMapping
+} from '../columnImport';
+
+type PriceColumn = 'sku' | 'price' | 'note';
+
+interface Price {
+  sku: string;
+  price: number;
+}
+
+const COLUMNS: ColumnDefinition<PriceColumn>[] = [
+  { column: 'sku', label: 'SKU', required: true, aliases: ['article'] },
+  { column: 'price', label: 'Price', required: true, aliases: ['amount', 'preis'] },
+  { column: 'note', label: 'Note', required: false, aliases: ['comment'] },
+];
+
+class PriceImportError extends Error {}
+
+const readPrices = (rows: string[][]) =>
+  readMappedRows<PriceColumn, Price>(rows, guessColumnMapping(COLUMNS, rows[0] || []), {
+    validate: (mapping, headers) => validateColumnMapping(COLUMNS, mapping, headers),
+    createError: message => new PriceImportError(message),
+    duplicate: { key: price => price.sku, column: 'sku', error: firstRow => `Same SKU as row ${firstRow}` },
+    readRow: ({ cell, fail }) => {
+      if (!cell('sku')) fail('sku', 'SKU is missing');
+      const price = Number(cell('price'));
+      if (!cell('price') || Number.isNaN(price)) fail('price', `"${cell('price')}" is not a price`);
+      return { sku: cell('sku'), price };
+    },
+  });
+
+describe('Column mapping import', () => {
+  it('guesses headers by label or alias and uses each header once', () => {
+    expect(guessColumnMapping(COLUMNS, [' Article ', 'Preis', 'Amount', 'Other'])).toEqual({ sku: ' Article ', price: 'Preis' });
+    expect(guessColumnMapping(COLUMNS, ['sku', 'PRICE', 'comment'])).toEqual({ sku: 'sku', price: 'PRICE', note: 'comment' });
+  });
+
+  it('reports missing, unknown and doubly mapped columns', () => {
+    const headers = ['SKU', 'Price'];
+    expect(validateColumnMapping(COLUMNS, { sku: 'SKU', price: 'Price' }, headers)).toEqual([]);
+    expect(validateColumnMapping(COLUMNS, { sku: 'SKU', price: 'SKU', note: 'Remark' }, headers)).toEqual([
+      'Column "SKU" is mapped to both sku and price',
+      'Column "Remark" is not in the file',
+    ]);
+    expect(validateColumnMapping(COLUMNS, { note: 'Price' }, headers)).toEqual([
+      'Choose the column that holds sku',
+      'Choose the column that holds price',
+    ]);
+  });
+
+  it('collects row errors with spreadsheet row numbers and rejects repeated keys', () => {
+    const result = readPrices([
+      ['Article', 'Price'],
+      ['A1', '2.5'],
+      ['', 'x'],
+      ['A1', '3'],
+      ['B2'],
+    ]);
+
+    expect(result.records).toEqual([{ sku: 'A1', price: 2.5 }]);
+    expect(result.totalRows).toBe(4);
+    expect(result.errors).toEqual([
+      { row: 3, field: 'Article', error: 'SKU is missing' },
+      { row: 3, field: 'Price', error: '"x" is not a price' },
+      { row: 4, field: 'Article', error: 'Same SKU as row 2' },
+      { row: 5, field: 'Price', error: '"" is not a price' },
+    ]);
+  });
+
+  it('throws the import error for an empty file or an unusable mapping', () => {
+    expect(() => readPrices([])).toThrow(new PriceImportError('The file is empty'));
+    expect(() => readPrices([['Article', 'Note']])).toThrow(new PriceImportError('Choose the column that holds price'));
+  });
+
+  it('reads ISO, European and Excel serial dates', () => {
+    expect(parseCellDate('2025-10-01')).toBe('2025-10-01');
+    expect(parseCellDate('1.10.2025')).toBe('2025-10-01');
+    expect(parseCellDate('45931')).toBe('2025-10-01');
+    expect(parseCellDate('31.02.2025')).toBeNull();
+    expect(parseCellDate('yesterday')).toBeNull();
+  });
+
+  it('reads decimal commas, thousands separators and currency signs', () => {
+    expect(parseCellNumber('1.234,50')).toBe(1234.5);
+    expect(parseCellNumber('€ 1,234.50')).toBe(1234.5);
+    expect(parseCellNumber('99,9')).toBe(99.9);
+    expect(parseCellNumber('12abc')).toBeNaN();
+  });
+
+  it('reads US and EU grouped numbers', () => {
+    // US: comma thousands, dot decimals
+    expect(parseCellNumber('1,234')).toBe(1234);
+    expect(parseCellNumber('12,345,678')).toBe(12345678);
+    expect(parseCellNumber('$1,234,567.89')).toBe(1234567.89);
+    expect(parseCellNumber('-1,500')).toBe(-1500);
+    // EU: dot thousands, comma decimals
+    expect(parseCellNumber('1.234.567,89')).toBe(1234567.89);
+    expect(parseCellNumber('12,5')).toBe(12.5);
+    expect(parseCellNumber('1,2345')).toBe(1.2345);
+  });
+});
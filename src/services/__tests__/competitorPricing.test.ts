@@ -0,0 +1,186 @@
+/**
+ * Competitor Pricing Unit Tests
+ *
+ * Tests for competitor price capture and analytics including:
+ * - Validating visit captures against the question's SKU list
+ * - Turning questionnaire responses into observations
+ * - Price index series per retailer and area by week and month
+ * - Corridor breaches on the latest own price per store
+ * - Promotion share, discount depth and facing share per brand
+ */
+
+import {
+  getCorridorBreaches,
+  getEffectivePrice,
+  getPeriod,
+  getPriceIndex,
+  getPriceIndexSeries,
+  mergeObservations,
+  observationsFromResponses,
+  summarizePromotions,
+  validateCompetitorPrices,
+  validateCorridor
+} from '../competitorPricing';
+import {
+  CompetitorAnalysisConfig,
+  CompetitorPriceLine,
+  CompetitorPriceObservation,
+  PriceCorridor,
+  QuestionType,
+  TodoQuestion,
+  TodoResponse
+} from '../../types';
+
+const line = (extra: Partial<CompetitorPriceLine> = {}): CompetitorPriceLine => ({
+  ownSku: 'S24',
+  ownPrice: 850,
+  ownFacings: 6,
+  competitorSku: 'IP15',
+  competitorBrand: 'Apple',
+  competitorName: 'iPhone 15',
+  shelfPrice: 1000,
+  promoMechanic: 'none',
+  facings: 4,
+  ...extra,
+});
+
+const observation = (id: string, observedAt: string, extra: Partial<CompetitorPriceObservation> = {}): CompetitorPriceObservation => ({
+  ...line(),
+  id,
+  workplaceId: 'w1',
+  workplaceName: 'Store One',
+  retailer: 'BIG ONE',
+  areaId: 'north',
+  areaName: 'North',
+  observedAt,
+  recordedBy: 'Ann Lee',
+  ...extra,
+});
+
+const config: CompetitorAnalysisConfig = {
+  competitorTypes: [],
+  analysisAreas: [],
+  dataCollectionMethods: [],
+  requirePhotos: true,
+  requirePricingData: true,
+  requireProductComparison: true,
+  products: [
+    { ownSku: 'S24', ownName: 'Galaxy S24', competitorSku: 'IP15', competitorBrand: 'Apple', competitorName: 'iPhone 15' },
+    { ownSku: 'S24', ownName: 'Galaxy S24', competitorSku: 'PX8', competitorBrand: 'Google', competitorName: 'Pixel 8' },
+  ],
+};
+
+describe('Competitor pricing', () => {
+  describe('visit capture', () => {
+    it('validates prices, promotions, listed pairs and photos', () => {
+      expect(validateCompetitorPrices(undefined)).toEqual(['Record the competitor prices']);
+      expect(validateCompetitorPrices({ lines: [line()] }, { ...config, requirePhotos: false, products: [] })).toEqual([]);
+
+      expect(validateCompetitorPrices({
+        lines: [
+          line({ ownPrice: 0, promoMechanic: 'price-cut' }),
+          line({ promoPrice: 1100, promoMechanic: 'cashback' }),
+        ],
+      }, config)).toEqual([
+        'Enter our shelf price next to iPhone 15',
+        'Enter the promo price of iPhone 15',
+        'The promo price of iPhone 15 must be below its shelf price',
+        'iPhone 15 is priced twice',
+        'Price Pixel 8',
+        'Add a photo of the competitor shelf',
+      ]);
+      expect(validateCompetitorPrices({ lines: [line({ facings: 1.5, promoPrice: 900 })] }, { ...config, products: [] }, undefined))
+        .toEqual(['Enter whole facings for iPhone 15', 'Choose the promotion mechanic of iPhone 15', 'Add a photo of the competitor shelf']);
+    });
+
+    it('turns competitor analysis responses into observations that replace on resync', () => {
+      const question = { id: 'q1', type: QuestionType.COMPETITOR_ANALYSIS } as TodoQuestion;
+      const response = {
+        id: 'r1', todoId: 'visit-1', questionId: 'q1', userId: 'u1',
+        answer: { lines: [line(), line({ competitorSku: 'PX8', competitorBrand: 'Google', shelfPrice: 800 })] },
+        createdAt: '2025-03-10T09:00:00.000Z',
+      } as unknown as TodoResponse;
+      const context = { workplaceId: 'w1', workplaceName: 'Store One', retailer: 'BIG ONE', areaId: 'north', areaName: 'North', recordedBy: 'Ann Lee' };
+
+      const captured = observationsFromResponses([response], [question], context);
+      expect(captured.map(entry => entry.id)).toEqual(['visit-1-q1-S24-IP15', 'visit-1-q1-S24-PX8']);
+      expect(captured[0]).toMatchObject({ retailer: 'BIG ONE', observedAt: '2025-03-10T09:00:00.000Z', source: { todoId: 'visit-1', questionId: 'q1' } });
+
+      const resynced = observationsFromResponses([{ ...response, answer: { lines: [line({ ownPrice: 870 })] } }], [question], context);
+      expect(mergeObservations(captured, resynced).map(entry => [entry.competitorSku, entry.ownPrice])).toEqual([
+        ['PX8', 850],
+        ['IP15', 870],
+      ]);
+    });
+  });
+
+  describe('analytics', () => {
+    it('indexes our price against what the shopper pays per retailer and area over time', () => {
+      expect(getEffectivePrice(line({ promoMechanic: 'cashback', promoPrice: 900 }))).toBe(900);
+      expect(getPriceIndex(line())).toBe(85);
+      expect(getPriceIndex(line({ promoMechanic: 'price-cut', promoPrice: 800 }))).toBe(106.3);
+      expect(getPeriod('2025-03-09T23:00:00.000Z', 'week')).toBe('2025-03-03');
+      expect(getPeriod('2025-03-10T08:00:00.000Z', 'week')).toBe('2025-03-10');
+
+      const observations = [
+        observation('a', '2025-03-04T10:00:00.000Z'),
+        observation('b', '2025-03-05T10:00:00.000Z', { ownPrice: 950 }),
+        observation('c', '2025-03-11T10:00:00.000Z', { promoMechanic: 'price-cut', promoPrice: 800 }),
+        observation('d', '2025-03-11T10:00:00.000Z', { retailer: 'Saturn', areaId: 'south', areaName: 'South', ownSku: 'QLED' }),
+      ];
+
+      expect(getPriceIndexSeries(observations, 'retailer', 'week')).toEqual([
+        {
+          key: 'BIG ONE',
+          label: 'BIG ONE',
+          points: [
+            { period: '2025-03-03', index: 90, observations: 2 },
+            { period: '2025-03-10', index: 106.3, observations: 1 },
+          ],
+        },
+        { key: 'Saturn', label: 'Saturn', points: [{ period: '2025-03-10', index: 85, observations: 1 }] },
+      ]);
+      expect(getPriceIndexSeries(observations, 'area', 'month', 'S24')).toEqual([
+        { key: 'north', label: 'North', points: [{ period: '2025-03', index: 95.4, observations: 3 }] },
+      ]);
+    });
+
+    it('flags stores whose latest own price is outside the corridor, retailer corridors first', () => {
+      const corridors: PriceCorridor[] = [
+        { id: 'all', ownSku: 'S24', ownName: 'Galaxy S24', minPrice: 800, maxPrice: 900 },
+        { id: 'saturn', ownSku: 'S24', ownName: 'Galaxy S24', retailer: 'Saturn', minPrice: 860, maxPrice: 900 },
+      ];
+      const observations = [
+        observation('a', '2025-03-04T10:00:00.000Z', { ownPrice: 780 }),
+        observation('b', '2025-03-11T10:00:00.000Z', { ownPrice: 850 }),
+        observation('c', '2025-03-11T10:00:00.000Z', { workplaceId: 'w2', workplaceName: 'Store Two', retailer: 'Saturn', ownPrice: 850 }),
+        observation('d', '2025-03-11T10:00:00.000Z', { workplaceId: 'w3', workplaceName: 'Store Three', ownPrice: 925 }),
+        observation('e', '2025-03-11T10:00:00.000Z', { workplaceId: 'w3', workplaceName: 'Store Three', ownSku: 'QLED', ownPrice: 5 }),
+      ];
+
+      expect(getCorridorBreaches(observations, corridors).map(({ corridorId, workplaceId, direction, deviation }) =>
+        [corridorId, workplaceId, direction, deviation])).toEqual([
+        ['all', 'w3', 'above', 25],
+        ['saturn', 'w2', 'below', 10],
+      ]);
+      expect(() => validateCorridor({ ...corridors[0], minPrice: 950 })).toThrow('needs a minimum above zero');
+    });
+
+    it('summarizes promotion share, mechanics, discount depth and facing share per brand', () => {
+      const observations = [
+        observation('a', '2025-03-04T10:00:00.000Z'),
+        observation('b', '2025-03-05T10:00:00.000Z', { promoMechanic: 'price-cut', promoPrice: 800 }),
+        observation('c', '2025-03-06T10:00:00.000Z', { promoMechanic: 'gift' }),
+        observation('d', '2025-03-06T10:00:00.000Z', { competitorBrand: 'Google', ownFacings: 2, facings: 6 }),
+      ];
+
+      expect(summarizePromotions(observations)).toEqual([
+        {
+          competitorBrand: 'Apple', observations: 3, promoShare: 66.7,
+          mechanics: { 'price-cut': 1, gift: 1 }, averageDiscount: 20, ownFacingShare: 60,
+        },
+        { competitorBrand: 'Google', observations: 1, promoShare: 0, mechanics: {}, averageDiscount: 0, ownFacingShare: 25 },
+      ]);
+    });
+  });
+});
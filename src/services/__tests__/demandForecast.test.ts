@@ -0,0 +1,199 @@
+/**
+ * Demand Forecast Unit Tests
+ *
+ * Tests for workplace forecasting including:
+ * - Mapping and validating visit / attendance imports
+ * - Daily and weekly metric series with gap handling
+ * - Holt-Winters and Holt forecasts with prediction intervals
+ * - Backtest accuracy and per-workplace results
+ */
+
+import {
+  backtestSeries,
+  buildMetricSeries,
+  forecastSeries,
+  forecastWorkplaces,
+  ForecastError,
+  guessActivityMapping,
+  loadActivityHistory,
+  mergeActivity,
+  parseActivityRows,
+  periodOf,
+  saveActivityHistory,
+  seasonalIndices,
+  validateActivityMapping
+} from '../demandForecast';
+import { SellOutRecord, WorkplaceActivityRecord } from '../../types';
+
+const sale = (date: string, workplaceCode: string, amount: number): SellOutRecord =>
+  ({ date, workplaceCode, sku: 'TV-55', quantity: 1, amount });
+
+const day = (offset: number) => new Date(Date.UTC(2025, 8, 1 + offset)).toISOString().split('T')[0];
+
+// Weekday pattern on a rising trend: Monday 2025-09-01 is position 0
+const WEEKLY_PATTERN = [10, 12, 14, 16, 30, 40, 8];
+const seasonal = (length: number) => Array.from({ length }, (_, t) => 100 + t * 0.5 + WEEKLY_PATTERN[t % 7]);
+
+describe('Demand forecast', () => {
+  describe('activity import', () => {
+    const headers = ['Datum', 'Filiale', 'Planned visits', 'Completed visits', 'Rostered', 'Present'];
+
+    it('guesses the mapping from common header names and checks it', () => {
+      const mapping = guessActivityMapping(headers);
+      expect(mapping).toEqual({
+        date: 'Datum', workplaceCode: 'Filiale', plannedVisits: 'Planned visits', completedVisits: 'Completed visits',
+        scheduledStaff: 'Rostered', presentStaff: 'Present',
+      });
+      expect(validateActivityMapping(mapping, headers)).toEqual([]);
+      expect(validateActivityMapping({ date: 'Datum', workplaceCode: 'Filiale', plannedVisits: 'Planned visits' }, headers)).toEqual([
+        'Choose the planned and completed visit columns, or the scheduled and present staff columns',
+      ]);
+    });
+
+    it('reports errors per spreadsheet row and keeps the valid rows', () => {
+      const rows = [
+        headers,
+        ['01.09.2025', '20311', '4', '3', '2', '2'],
+        ['02.09.2025', '20311', '', '', '2', '1'],
+        ['02.09.2025', '99999', '4', '5', '', ''],
+        ['01.09.2025', '20311', '4', '4', '', ''],
+        ['03.09.2025', '20311', '', '', '', ''],
+        ['01.11.2030', '20311', '2', 'x', '', ''],
+      ];
+      const result = parseActivityRows(rows, guessActivityMapping(headers), { workplaceCodes: ['20311'], importId: 'imp-1', today: '2025-10-18' });
+
+      expect(result.records).toEqual([
+        { date: '2025-09-01', workplaceCode: '20311', plannedVisits: 4, completedVisits: 3, scheduledStaff: 2, presentStaff: 2, importId: 'imp-1' },
+        { date: '2025-09-02', workplaceCode: '20311', scheduledStaff: 2, presentStaff: 1, importId: 'imp-1' },
+      ]);
+      expect(result.errors).toEqual([
+        { row: 4, field: 'Filiale', error: 'Unknown workplace code "99999"' },
+        { row: 4, field: 'Completed visits', error: 'Completed visits is more than planned visits' },
+        { row: 5, field: 'Datum', error: 'Same date and workplace as row 2' },
+        { row: 6, field: 'Planned visits', error: 'Row has no visit or attendance figures' },
+        { row: 7, field: 'Datum', error: 'Date is in the future' },
+        { row: 7, field: 'Completed visits', error: '"x" is not a whole number' },
+      ]);
+      expect(() => parseActivityRows([], {}, { workplaceCodes: [] })).toThrow(ForecastError);
+    });
+
+    it('replaces figures when the same day is imported again', () => {
+      const merged = mergeActivity(
+        [{ date: '2025-09-02', workplaceCode: '1', plannedVisits: 2, completedVisits: 1 }],
+        [{ date: '2025-09-02', workplaceCode: '1', plannedVisits: 2, completedVisits: 2 }, { date: '2025-09-01', workplaceCode: '1', plannedVisits: 1, completedVisits: 1 }]
+      );
+      expect(merged.map(record => [record.date, record.completedVisits])).toEqual([['2025-09-01', 1], ['2025-09-02', 2]]);
+    });
+  });
+
+  describe('series', () => {
+    it('buckets weeks from Monday and fills missing sales weeks with zero', () => {
+      expect(periodOf('2025-09-07', 'week')).toBe('2025-09-01');
+      expect(periodOf('2025-09-08', 'week')).toBe('2025-09-08');
+
+      const history = {
+        sellOut: [sale('2025-09-02', '1', 100), sale('2025-09-05', '1', 50), sale('2025-09-17', '1', 80), sale('2025-09-02', '2', 999)],
+        activity: [],
+      };
+      expect(buildMetricSeries(history, 'sales', '1', 'week')).toEqual([
+        { period: '2025-09-01', value: 150 },
+        { period: '2025-09-08', value: 0 },
+        { period: '2025-09-15', value: 80 },
+      ]);
+    });
+
+    it('computes rates from totals and repeats the last rate on days without a plan', () => {
+      const activity: WorkplaceActivityRecord[] = [
+        { date: '2025-09-01', workplaceCode: '1', plannedVisits: 4, completedVisits: 3, scheduledStaff: 2, presentStaff: 1 },
+        { date: '2025-09-03', workplaceCode: '1', plannedVisits: 5, completedVisits: 5 },
+      ];
+      expect(buildMetricSeries({ sellOut: [], activity }, 'visit-compliance', '1', 'day').map(point => point.value)).toEqual([75, 75, 100]);
+      expect(buildMetricSeries({ sellOut: [], activity }, 'visit-compliance', '1', 'week')).toEqual([{ period: '2025-09-01', value: 88.9 }]);
+      expect(buildMetricSeries({ sellOut: [], activity }, 'attendance', '1', 'day')).toEqual([{ period: '2025-09-01', value: 50 }]);
+    });
+  });
+
+  describe('smoothing', () => {
+    it('recovers the seasonal pattern from a decomposition', () => {
+      const indices = seasonalIndices(seasonal(42), 7);
+      const expected = WEEKLY_PATTERN.map(value => value - WEEKLY_PATTERN.reduce((sum, v) => sum + v, 0) / 7);
+      indices.forEach((index, i) => expect(index).toBeCloseTo(expected[i], 5));
+    });
+
+    it('forecasts a trending weekly pattern with Holt-Winters', () => {
+      const history = seasonal(56);
+      const future = seasonal(70).slice(56);
+      const forecast = forecastSeries(history, { horizon: 14, seasonLength: 7 });
+
+      expect(forecast.method).toBe('holt-winters');
+      forecast.points.forEach((point, i) => {
+        expect(Math.abs(point.value - future[i])).toBeLessThan(1);
+        expect(point.lower).toBeLessThanOrEqual(point.value);
+        expect(point.upper).toBeGreaterThanOrEqual(point.value);
+      });
+      expect(forecastSeries(history, { horizon: 14, seasonLength: 7 })).toEqual(forecast);
+    });
+
+    it('falls back to Holt on short history and refuses too little', () => {
+      const forecast = forecastSeries([10, 12, 14, 16, 18], { horizon: 2, seasonLength: 7 });
+      expect(forecast).toMatchObject({ method: 'holt', seasonLength: 1 });
+      expect(forecast.points[0].value).toBeCloseTo(20, 0);
+      expect(() => forecastSeries([1, 2, 3], { horizon: 2, seasonLength: 7 })).toThrow('At least 4 periods of history are needed, got 3');
+    });
+
+    it('widens intervals with the horizon and the confidence level and keeps them in bounds', () => {
+      const noisy = seasonal(42).map((value, t) => value + (t % 3 === 0 ? 6 : -3));
+      const at80 = forecastSeries(noisy, { horizon: 7, seasonLength: 7, confidenceLevel: 80 });
+      const at95 = forecastSeries(noisy, { horizon: 7, seasonLength: 7, confidenceLevel: 95 });
+      const width = (point: { lower: number; upper: number }) => point.upper - point.lower;
+
+      expect(width(at80.points[6])).toBeGreaterThan(width(at80.points[0]));
+      expect(width(at95.points[0])).toBeGreaterThan(width(at80.points[0]));
+
+      const capped = forecastSeries([96, 97, 98, 99, 100], { horizon: 3, seasonLength: 1, bounds: { min: 0, max: 100 } });
+      capped.points.forEach(point => expect(point.upper).toBeLessThanOrEqual(100));
+    });
+  });
+
+  describe('backtest', () => {
+    it('scores the held-out periods', () => {
+      const backtest = backtestSeries(seasonal(56), 7, { seasonLength: 7 });
+      expect(backtest).toMatchObject({ holdout: 7 });
+      expect(backtest?.accuracy).toBeGreaterThan(99);
+      expect(backtest?.wape).toBeLessThan(1);
+      expect(backtestSeries([1, 2, 3, 4, 5], 2, { seasonLength: 1 })).toBeNull();
+    });
+  });
+
+  describe('workplace forecasts', () => {
+    it('forecasts each workplace and lists the ones without enough history', () => {
+      const sellOut = seasonal(56).map((amount, t) => sale(day(t), '1', amount));
+      sellOut.push(sale('2025-09-01', '2', 100));
+
+      const result = forecastWorkplaces({ sellOut, activity: [] }, [{ code: '1', name: 'Store 1' }, { code: '2', name: 'Store 2' }], {
+        metric: 'sales', granularity: 'day', horizon: 7,
+      });
+
+      expect(result.skipped).toEqual([{ workplaceCode: '2', workplaceName: 'Store 2', metric: 'sales', reason: 'At least 4 periods of history are needed, got 1' }]);
+      expect(result.forecasts).toHaveLength(1);
+      expect(result.forecasts[0]).toMatchObject({ workplaceCode: '1', method: 'holt-winters', seasonLength: 7, confidenceLevel: 80 });
+      expect(result.forecasts[0].points[0].period).toBe(day(56));
+      expect(result.forecasts[0].changePercentage).toBeGreaterThan(0);
+      expect(result.forecasts[0].backtest?.holdout).toBe(7);
+    });
+  });
+
+  describe('persistence', () => {
+    it('round-trips the history and falls back on unknown versions', () => {
+      const store = new Map<string, string>();
+      const storage = { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => { store.set(key, value); } };
+      const activity = [{ date: '2025-09-01', workplaceCode: '1', plannedVisits: 1, completedVisits: 1 }];
+
+      expect(loadActivityHistory([], storage)).toEqual([]);
+      saveActivityHistory(activity, storage);
+      expect(loadActivityHistory([], storage)).toEqual(activity);
+      store.set('forecastActivity', JSON.stringify({ version: 99, activity: [] }));
+      expect(loadActivityHistory(activity, storage)).toBe(activity);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Expense Claims Unit Tests
+ *
+ * Tests for field expense claims and budgets including:
+ * - Mileage from journey plan distance and per-diem from hours away
+ * - Receipt and duplicate checks before submission
+ * - Claim status following the approval outcome
+ * - Budget vs actual with pending claims and burn-rate projections
+ * - Burn-rate alerts and rollups per area and cost centre
+ */
+
+import {
+  applyApprovalOutcome,
+  createMileageLine,
+  createPerDiemLine,
+  DEFAULT_EXPENSE_POLICY,
+  ExpenseError,
+  getBudgetActual,
+  getHoursAway,
+  getBurnRateAlerts,
+  rollupBudgets,
+  submitClaim,
+  validateClaim
+} from '../expenseClaims';
+import { ApprovalInstance, ApprovalStatus, Budget, ExpenseClaim, ExpenseClaimLine, JourneyPlan } from '../../types';
+
+const plan: JourneyPlan = {
+  id: 'j1',
+  title: 'North stores',
+  employeeId: 'emp1',
+  date: '2025-03-10',
+  startTime: '08:00',
+  endTime: '18:00',
+  actualStartTime: '07:30',
+  actualEndTime: '18:00',
+  locations: [],
+  status: 'completed',
+  totalDistance: 125,
+  estimatedDuration: 480,
+  createdBy: 'admin',
+  createdAt: '2025-03-01T00:00:00Z',
+  updatedAt: '2025-03-10T18:00:00Z',
+};
+
+const line = (id: string, date: string, amount: number, extra: Partial<ExpenseClaimLine> = {}): ExpenseClaimLine =>
+  ({ id, category: 'meals', date, description: `Line ${id}`, amount, receipts: [], ...extra });
+
+const claim = (id: string, lines: ExpenseClaimLine[], extra: Partial<ExpenseClaim> = {}): ExpenseClaim => ({
+  id,
+  employeeId: 'emp1',
+  employeeName: 'Ann Lee',
+  areaId: 'north',
+  costCentre: 'CC-4200',
+  title: `Claim ${id}`,
+  lines,
+  total: lines.reduce((sum, entry) => sum + entry.amount, 0),
+  status: 'draft',
+  source: 'mobile',
+  createdAt: '2025-03-10T18:00:00Z',
+  updatedAt: '2025-03-10T18:00:00Z',
+  ...extra,
+});
+
+const vanLease = { id: 'x1', description: 'Van lease', amount: 300, date: '2025-03-02', category: 'Transport', approvedBy: 'Finance' };
+
+const budget = (id: string, allocatedBudget: number, extra: Partial<Budget> = {}): Budget => ({
+  id,
+  name: `Budget ${id}`,
+  areaId: 'north',
+  areaName: 'North',
+  costCentre: 'CC-4200',
+  category: 'Travel',
+  periodStart: '2025-03-01',
+  periodEnd: '2025-03-31',
+  allocatedBudget,
+  expenses: [vanLease],
+  createdAt: '2025-03-01T00:00:00Z',
+  updatedAt: '2025-03-01T00:00:00Z',
+  ...extra,
+});
+
+describe('Expense claims', () => {
+  describe('claim lines', () => {
+    it('derives mileage from the journey distance and per-diem from hours away', () => {
+      expect(createMileageLine(plan, DEFAULT_EXPENSE_POLICY, 'l1')).toEqual({
+        id: 'l1', category: 'mileage', date: '2025-03-10', description: 'Mileage: North stores (125 km)',
+        amount: 37.5, kilometers: 125, journeyPlanId: 'j1', receipts: [],
+      });
+      expect(createPerDiemLine(plan, DEFAULT_EXPENSE_POLICY, 'l2')).toMatchObject({
+        amount: 14, description: 'Per-diem: More than 8 hours away (10.5 h)',
+      });
+
+      expect(() => createMileageLine({ ...plan, status: 'pending' }, DEFAULT_EXPENSE_POLICY, 'l3')).toThrow(ExpenseError);
+      expect(() => createPerDiemLine({ ...plan, actualStartTime: '12:00' }, DEFAULT_EXPENSE_POLICY, 'l4')).toThrow('6 hours away does not qualify');
+    });
+
+    it('counts hours away across days from departure and return date-times', () => {
+      expect(getHoursAway({ ...plan, endDate: '2025-03-11', actualEndTime: '09:30' })).toBe(26);
+      expect(getHoursAway({ ...plan, actualStartTime: '22:00', actualEndTime: '06:00' })).toBe(8);
+      expect(getHoursAway({ ...plan, endDate: '2025-03-10' })).toBe(10.5);
+
+      expect(createPerDiemLine({ ...plan, endDate: '2025-03-11', actualEndTime: '09:30' }, DEFAULT_EXPENSE_POLICY, 'l5'))
+        .toMatchObject({ amount: 28, description: 'Per-diem: Full day away (26 h)' });
+    });
+
+    it('requires receipts and refuses journeys and days claimed twice', () => {
+      const earlier = claim('c0', [createMileageLine(plan, DEFAULT_EXPENSE_POLICY, 'm0')], { status: 'approved' });
+      const draft = claim('c1', [
+        createMileageLine(plan, DEFAULT_EXPENSE_POLICY, 'm1'),
+        createPerDiemLine(plan, DEFAULT_EXPENSE_POLICY, 'p1'),
+        createPerDiemLine(plan, DEFAULT_EXPENSE_POLICY, 'p2'),
+        line('h1', '2025-03-10', 89, { category: 'lodging', description: 'Hotel' }),
+        line('s1', '2025-03-10', 12, { description: 'Snack' }),
+      ]);
+
+      expect(validateClaim(draft, DEFAULT_EXPENSE_POLICY, [earlier])).toEqual([
+        'Mileage for this journey was already claimed (2025-03-10)',
+        'A per-diem for 2025-03-10 was already claimed',
+        'Attach a receipt for Hotel',
+      ]);
+      expect(validateClaim(draft, DEFAULT_EXPENSE_POLICY, [{ ...earlier, status: 'rejected' }])).toHaveLength(2);
+      expect(validateClaim(claim('c2', []), DEFAULT_EXPENSE_POLICY)).toEqual(['Add at least one expense']);
+    });
+  });
+
+  describe('submission and approval', () => {
+    it('submits valid claims and follows the approval outcome', () => {
+      const draft = claim('c1', [line('a', '2025-03-10', 20), line('b', '2025-03-10', 18.45)]);
+      const submitted = submitClaim(draft, DEFAULT_EXPENSE_POLICY, [], new Date('2025-03-10T19:00:00Z'));
+      expect(submitted).toMatchObject({ status: 'submitted', total: 38.45, submittedAt: '2025-03-10T19:00:00.000Z' });
+      expect(() => submitClaim(submitted, DEFAULT_EXPENSE_POLICY)).toThrow('already submitted');
+      expect(() => submitClaim(claim('c2', [line('c', '2025-03-10', 40)]), DEFAULT_EXPENSE_POLICY)).toThrow('Attach a receipt for Line c');
+
+      const instance = (status: ApprovalStatus, extra = {}) =>
+        ({ request: { status, updatedAt: '2025-03-11T09:00:00.000Z', ...extra }, steps: [], auditLog: [] } as unknown as ApprovalInstance);
+      expect(applyApprovalOutcome(submitted, instance(ApprovalStatus.IN_REVIEW))).toBe(submitted);
+      expect(applyApprovalOutcome(submitted, instance(ApprovalStatus.APPROVED, { approvedAt: '2025-03-11T08:00:00.000Z' })))
+        .toMatchObject({ status: 'approved', decidedAt: '2025-03-11T08:00:00.000Z' });
+      expect(applyApprovalOutcome(submitted, instance(ApprovalStatus.REJECTED, { rejectionReason: 'Private trip' })))
+        .toMatchObject({ status: 'rejected', rejectionReason: 'Private trip' });
+    });
+  });
+
+  describe('budget vs actual', () => {
+    const claims = [
+      claim('approved', [line('a', '2025-03-05', 200), line('late', '2025-04-01', 80)], { status: 'approved' }),
+      claim('pending', [line('p', '2025-03-08', 100)], { status: 'submitted' }),
+      claim('elsewhere', [line('e', '2025-03-05', 500)], { status: 'approved', costCentre: 'CC-5100' }),
+    ];
+    const asOf = new Date('2025-03-10T12:00:00Z');
+
+    it('adds approved claims in the period to direct spend and projects the burn rate', () => {
+      expect(getBudgetActual(budget('b1', 1000), claims, DEFAULT_EXPENSE_POLICY, asOf)).toEqual({
+        budgetId: 'b1',
+        allocated: 1000,
+        spent: 500,
+        pending: 100,
+        remaining: 500,
+        utilization: 50,
+        elapsedShare: 0.32,
+        dailyBurnRate: 50,
+        projectedSpend: 1550,
+        status: 'at-risk',
+      });
+      expect(getBudgetActual(budget('b2', 3000), claims, DEFAULT_EXPENSE_POLICY, asOf).status).toBe('under-budget');
+      expect(getBudgetActual(budget('b3', 400), claims, DEFAULT_EXPENSE_POLICY, asOf).status).toBe('over-budget');
+    });
+
+    it('alerts on burn rates that overrun and rolls up per area and cost centre', () => {
+      const budgets = [
+        budget('b1', 1000),
+        budget('b2', 1600, { areaId: 'south', areaName: 'South', expenses: [{ ...vanLease, amount: 480 }] }),
+        budget('b3', 400, { costCentre: 'CC-5100', expenses: [] }),
+        budget('b4', 3000, { areaId: 'south', areaName: 'South', costCentre: 'CC-5100', expenses: [] }),
+      ];
+      const actuals = budgets.map(entry => getBudgetActual(entry, claims, DEFAULT_EXPENSE_POLICY, asOf));
+
+      expect(getBurnRateAlerts(budgets, actuals, DEFAULT_EXPENSE_POLICY)).toEqual([
+        {
+          budgetId: 'b1', severity: 'critical', projectedOverrun: 550, exhaustedOn: '2025-03-20',
+          message: 'Budget b1 runs out on 2025-03-20 at €50/day, €550 over by period end',
+        },
+        { budgetId: 'b2', severity: 'warning', projectedOverrun: 0, message: 'Budget b2 is projected to use 93% of its allocation' },
+        { budgetId: 'b3', severity: 'critical', projectedOverrun: 1150, exhaustedOn: '2025-03-08', message: 'Budget b3 is overspent by €100' },
+      ]);
+
+      expect(rollupBudgets(budgets, actuals, 'area').map(({ label, allocated, spent }) => [label, allocated, spent])).toEqual([
+        ['North', 1400, 1000],
+        ['South', 4600, 480],
+      ]);
+      expect(rollupBudgets(budgets, actuals, 'costCentre').map(({ key, remaining, budgetCount }) => [key, remaining, budgetCount])).toEqual([
+        ['CC-4200', 1620, 2],
+        ['CC-5100', 2900, 2],
+      ]);
+    });
+  });
+});
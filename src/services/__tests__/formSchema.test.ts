@@ -0,0 +1,177 @@
+/**
+ * Form Schema Unit Tests
+ *
+ * Tests for the shared versioned form schema including:
+ * - Migrating operations forms and report templates
+ * - Builder operations for fields and sections
+ * - Design checks and publishing versions
+ * - Validating values and rendering submissions with their own version
+ */
+
+import {
+  createFormField,
+  fromCustomForm,
+  fromReportTemplate,
+  FormSchemaError,
+  getCustomFormVersions,
+  moveFormField,
+  moveFormSection,
+  addFormSection,
+  publishFormSchema,
+  removeFormSection,
+  renderFormSubmission,
+  updateFormField,
+  validateFormSchema,
+  validateFormValues
+} from '../formSchema';
+import { CustomForm, FormSchema, ReportTemplate } from '../../types';
+
+const customForm: CustomForm = {
+  id: 'incident',
+  title: 'Incident Report',
+  description: 'Report workplace incidents',
+  category: 'Safety',
+  isActive: true,
+  createdAt: '2024-01-01',
+  fields: [
+    { id: '1', type: 'text', label: 'Incident Location', required: true },
+    { id: '2', type: 'select', label: 'Severity', required: true, options: ['Low', 'High'] },
+    { id: '3', type: 'checkbox', label: 'Services called', required: false, options: ['Police', 'Ambulance'] },
+  ],
+  submissions: [],
+};
+
+const schema = (fields: FormSchema['sections'][number]['fields'], extra: Partial<FormSchema> = {}): FormSchema => ({
+  format: 1, id: 'f1', version: 1, title: 'Form', source: 'operations', sections: [{ id: 'main', title: 'Main', fields }], ...extra,
+});
+
+describe('Form schema', () => {
+  describe('migration', () => {
+    it('keys operations forms by label, as their submissions are', () => {
+      const migrated = fromCustomForm(customForm);
+
+      expect(migrated).toMatchObject({ format: 1, id: 'incident', version: 1, source: 'operations' });
+      expect(migrated.sections[0].fields.map(({ key, type }) => ({ key, type }))).toEqual([
+        { key: 'Incident Location', type: 'text' },
+        { key: 'Severity', type: 'select' },
+        { key: 'Services called', type: 'multiselect' },
+      ]);
+      expect(getCustomFormVersions(customForm)).toEqual([migrated]);
+    });
+
+    it('orders report fields and carries validation and visibility', () => {
+      const template = {
+        id: 'r1', name: 'Visit Report', description: '', fields: [
+          { id: 'b', name: 'notes', label: 'Notes', type: 'textarea', required: false, order: 2, isVisible: false },
+          { id: 'a', name: 'sales', label: 'Sales', type: 'number', required: true, order: 1, isVisible: true, validation: { minValue: 0, customMessage: 'No negatives' } },
+        ],
+      } as unknown as ReportTemplate;
+
+      expect(fromReportTemplate(template).sections[0].fields).toEqual([
+        { id: 'a', key: 'sales', label: 'Sales', type: 'number', required: true, validation: { min: 0, message: 'No negatives' } },
+        { id: 'b', key: 'notes', label: 'Notes', type: 'textarea', required: false, hidden: true },
+      ]);
+    });
+  });
+
+  describe('builder operations', () => {
+    it('moves fields across sections and reorders sections', () => {
+      let form = schema([
+        { id: 'a', key: 'a', label: 'A', type: 'text', required: false },
+        { id: 'b', key: 'b', label: 'B', type: 'text', required: false },
+      ]);
+      form = addFormSection(form, 'Extra', 'extra');
+      form = moveFormField(form, 'b', 'extra');
+      form = moveFormField(form, 'a', 'extra', 'b');
+
+      expect(form.sections.map(section => section.fields.map(field => field.id))).toEqual([[], ['a', 'b']]);
+      expect(moveFormSection(form, 'extra', 'main').sections.map(section => section.id)).toEqual(['extra', 'main']);
+      expect(removeFormSection(form, 'main').sections).toEqual([{ id: 'extra', title: 'Extra', fields: form.sections[1].fields }]);
+    });
+
+    it('creates fields with unique keys and starter options', () => {
+      const form = schema([{ id: 'a', key: 'dropdown', label: 'Dropdown', type: 'select', required: false, options: [{ value: 'x', label: 'x' }] }]);
+      const field = createFormField('select', form, 'new');
+
+      expect(field).toMatchObject({ id: 'new', key: 'dropdown_2', label: 'Dropdown', required: false });
+      expect(field.options).toHaveLength(2);
+    });
+  });
+
+  describe('design checks and publishing', () => {
+    const v1 = schema([{ id: 'a', key: 'location', label: 'Location', type: 'text', required: true }]);
+
+    it('reports broken fields and changed keys', () => {
+      const draft = schema([
+        { id: 'a', key: 'where', label: 'Location', type: 'text', required: true },
+        { id: 'b', key: 'level', label: '', type: 'select', required: false, options: [] },
+        { id: 'c', key: 'level', label: 'Count', type: 'number', required: false, validation: { min: 5, max: 1 } },
+      ]);
+
+      expect(validateFormSchema(draft, [v1]).map(issue => issue.message)).toEqual([
+        '"Location" was published with key "location"; changing it would hide older answers',
+        'Every field needs a label',
+        '"level" needs at least one option',
+        'Data key "level" is used by more than one field',
+        '"Count" has a minimum above its maximum',
+      ]);
+    });
+
+    it('publishes changed drafts as new immutable versions', () => {
+      const now = new Date('2024-03-01T00:00:00Z');
+      const versions = publishFormSchema([], v1, now);
+      expect(versions[0]).toMatchObject({ version: 1, publishedAt: now.toISOString() });
+      expect(publishFormSchema(versions, { ...versions[0] }, now)).toBe(versions);
+
+      const relabelled = updateFormField(versions[0], 'a', { label: 'Store' });
+      const next = publishFormSchema(versions, relabelled, now);
+      expect(next.map(version => version.version)).toEqual([1, 2]);
+      expect(next[0].sections[0].fields[0].label).toBe('Location');
+
+      expect(() => publishFormSchema(next, schema([]), now)).toThrow(FormSchemaError);
+    });
+  });
+
+  describe('values and submissions', () => {
+    it('validates required fields, lengths, ranges and options', () => {
+      const form = schema([
+        { id: 'a', key: 'name', label: 'Name', type: 'text', required: true, validation: { pattern: '^[A-Z]' } },
+        { id: 'b', key: 'qty', label: 'Qty', type: 'number', required: false, validation: { min: 1 } },
+        { id: 'c', key: 'level', label: 'Level', type: 'radio', required: false, options: [{ value: 'low', label: 'Low' }] },
+        { id: 'd', key: 'agree', label: 'Agree', type: 'checkbox', required: true },
+        { id: 'e', key: 'secret', label: 'Secret', type: 'text', required: true, hidden: true },
+      ]);
+
+      expect(validateFormValues(form, { name: 'bob', qty: '0', level: 'high', agree: false })).toEqual({
+        name: 'Name is not in the expected format',
+        qty: 'Qty must be at least 1',
+        level: 'Level has a choice that is not an option',
+        agree: 'Agree is required',
+      });
+      expect(validateFormValues(form, { name: 'Bob', qty: 2, level: 'low', agree: true })).toEqual({});
+    });
+
+    it('renders an old submission with the version it was entered in', () => {
+      const versions = getCustomFormVersions(customForm);
+      const relabelled = updateFormField(versions[0], '2', { label: 'How bad was it?' });
+      const v2 = publishFormSchema(versions, {
+        ...relabelled,
+        sections: [{ ...relabelled.sections[0], fields: relabelled.sections[0].fields.filter(field => field.id !== '1') }],
+      }, new Date('2024-03-01T00:00:00Z'));
+      const data = { 'Incident Location': 'Aisle 3', Severity: 'High', 'Services called': ['Police'], Photo: 'spill.jpg' };
+
+      const { sections: oldSections, extra: oldExtra } = renderFormSubmission(v2, data);
+      expect(oldSections[0].values.map(({ label, display }) => [label, display])).toEqual([
+        ['Incident Location', 'Aisle 3'],
+        ['Severity', 'High'],
+        ['Services called', 'Police'],
+      ]);
+      expect(oldExtra).toEqual([{ key: 'Photo', label: 'Photo', type: 'unknown', value: 'spill.jpg', display: 'spill.jpg' }]);
+
+      const { sections, extra } = renderFormSubmission(v2, data, 2);
+      expect(sections[0].values.map(value => value.label)).toEqual(['How bad was it?', 'Services called']);
+      expect(extra.map(value => value.key)).toEqual(['Incident Location', 'Photo']);
+      expect(() => renderFormSubmission(v2, data, 3)).toThrow('Form "Incident Report" has no version 3');
+    });
+  });
+});
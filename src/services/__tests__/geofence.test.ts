@@ -0,0 +1,191 @@
+/**
+ * Geofence Service Unit Tests
+ *
+ * Tests for geofence boundaries and tracking including:
+ * - Circle and polygon containment
+ * - Hysteresis and confirmation of entry/exit
+ * - Pairing events into visits
+ * - Punch location validation
+ */
+
+import {
+  isPointInPolygon,
+  isWithinZone,
+  pairGeofenceEvents,
+  signedDistanceToZone,
+  updateGeofenceTracking,
+  validatePunchLocation,
+  GeofenceFix,
+  GeofenceTrackingState
+} from '../geofence';
+import { GeofenceEvent, GeofenceZone } from '../../types';
+
+// Roughly a 200m x 110m rectangle around a mall
+const mallPolygon = [
+  { lat: 52.0000, lng: 8.0000 },
+  { lat: 52.0000, lng: 8.0030 },
+  { lat: 52.0010, lng: 8.0030 },
+  { lat: 52.0010, lng: 8.0000 },
+];
+
+const mallZone: GeofenceZone = {
+  id: 'mall',
+  name: 'Mall',
+  center: { lat: 52.0005, lng: 8.0015 },
+  radius: 0,
+  address: 'Mall Street 1',
+  isActive: true,
+  allowedMethods: ['geolocation'],
+  shape: 'polygon',
+  polygon: mallPolygon,
+  workplaceId: 'wp1',
+  hysteresis: 20,
+};
+
+const circleZone: GeofenceZone = {
+  id: 'store',
+  name: 'Store',
+  center: { lat: 52.1, lng: 8.1 },
+  radius: 100,
+  address: 'Store Street 1',
+  isActive: true,
+  allowedMethods: ['geolocation'],
+  workplaceId: 'wp2',
+};
+
+const fix = (lat: number, lng: number, minute: number, accuracy = 10): GeofenceFix => ({
+  lat,
+  lng,
+  accuracy,
+  timestamp: new Date(Date.UTC(2025, 0, 16, 9, minute)).toISOString(),
+});
+
+const INSIDE = { lat: 52.0005, lng: 8.0015 };
+// About 5m north of the northern edge
+const JUST_OUTSIDE = { lat: 52.00105, lng: 8.0015 };
+// About 100m north of the northern edge
+const FAR_OUTSIDE = { lat: 52.0019, lng: 8.0015 };
+
+describe('Geofence Service', () => {
+  describe('boundaries', () => {
+    it('detects points inside and outside a polygon', () => {
+      expect(isPointInPolygon(INSIDE, mallPolygon)).toBe(true);
+      expect(isPointInPolygon(FAR_OUTSIDE, mallPolygon)).toBe(false);
+    });
+
+    it('returns signed distances to polygon edges', () => {
+      expect(signedDistanceToZone(INSIDE, mallZone)).toBeLessThan(0);
+      expect(signedDistanceToZone(JUST_OUTSIDE, mallZone)).toBeGreaterThan(0);
+      expect(signedDistanceToZone(JUST_OUTSIDE, mallZone)).toBeLessThan(10);
+      expect(signedDistanceToZone(FAR_OUTSIDE, mallZone)).toBeGreaterThan(90);
+    });
+
+    it('keeps supporting circular zones', () => {
+      expect(isWithinZone({ lat: 52.1, lng: 8.1005 }, circleZone)).toBe(true);
+      expect(isWithinZone({ lat: 52.102, lng: 8.1 }, circleZone)).toBe(false);
+    });
+  });
+
+  describe('tracking', () => {
+    const feed = (points: GeofenceFix[], zones: GeofenceZone[] = [mallZone]) => {
+      let state: GeofenceTrackingState = {};
+      const events: GeofenceEvent[] = [];
+      points.forEach(point => {
+        const result = updateGeofenceTracking(state, point, zones);
+        state = result.state;
+        events.push(...result.events);
+      });
+      return { state, events };
+    };
+
+    it('needs consecutive fixes to confirm an entry', () => {
+      expect(feed([fix(INSIDE.lat, INSIDE.lng, 0)]).events).toHaveLength(0);
+
+      const { events } = feed([fix(INSIDE.lat, INSIDE.lng, 0), fix(INSIDE.lat, INSIDE.lng, 1)]);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'entry', zoneId: 'mall', workplaceId: 'wp1' });
+    });
+
+    it('does not flip to outside for fixes within the hysteresis band', () => {
+      const { events, state } = feed([
+        fix(INSIDE.lat, INSIDE.lng, 0),
+        fix(INSIDE.lat, INSIDE.lng, 1),
+        fix(JUST_OUTSIDE.lat, JUST_OUTSIDE.lng, 2),
+        fix(JUST_OUTSIDE.lat, JUST_OUTSIDE.lng, 3),
+        fix(JUST_OUTSIDE.lat, JUST_OUTSIDE.lng, 4),
+      ]);
+      expect(events.map(e => e.type)).toEqual(['entry']);
+      expect(state.mall.inside).toBe(true);
+    });
+
+    it('ignores a single stray fix far outside', () => {
+      const { events } = feed([
+        fix(INSIDE.lat, INSIDE.lng, 0),
+        fix(INSIDE.lat, INSIDE.lng, 1),
+        fix(FAR_OUTSIDE.lat, FAR_OUTSIDE.lng, 2),
+        fix(INSIDE.lat, INSIDE.lng, 3),
+      ]);
+      expect(events.map(e => e.type)).toEqual(['entry']);
+    });
+
+    it('ignores inaccurate fixes', () => {
+      const { events } = feed([
+        fix(INSIDE.lat, INSIDE.lng, 0, 500),
+        fix(INSIDE.lat, INSIDE.lng, 1, 500),
+      ]);
+      expect(events).toHaveLength(0);
+    });
+
+    it('tracks several zones independently', () => {
+      const { events } = feed([
+        fix(INSIDE.lat, INSIDE.lng, 0),
+        fix(INSIDE.lat, INSIDE.lng, 1),
+        fix(FAR_OUTSIDE.lat, FAR_OUTSIDE.lng, 30),
+        fix(FAR_OUTSIDE.lat, FAR_OUTSIDE.lng, 31),
+        fix(52.1, 8.1, 50),
+        fix(52.1, 8.1, 51),
+      ], [mallZone, circleZone]);
+      expect(events.map(e => `${e.zoneId}:${e.type}`)).toEqual(['mall:entry', 'mall:exit', 'store:entry']);
+    });
+  });
+
+  describe('pairGeofenceEvents', () => {
+    it('pairs entries with exits into visits', () => {
+      const base = { zoneName: 'Mall', workplaceId: 'wp1', location: { lat: 0, lng: 0, accuracy: 5 } };
+      const visits = pairGeofenceEvents([
+        { ...base, id: '2', type: 'exit', zoneId: 'mall', timestamp: '2025-01-16T10:30:00.000Z' },
+        { ...base, id: '1', type: 'entry', zoneId: 'mall', timestamp: '2025-01-16T09:00:00.000Z' },
+        { ...base, id: '3', type: 'entry', zoneId: 'mall', timestamp: '2025-01-16T11:00:00.000Z' },
+      ]);
+
+      expect(visits).toHaveLength(2);
+      expect(visits[0]).toMatchObject({ enteredAt: '2025-01-16T09:00:00.000Z', durationMinutes: 90 });
+      expect(visits[1].exitedAt).toBeUndefined();
+    });
+  });
+
+  describe('validatePunchLocation', () => {
+    it('allows punches inside any zone', () => {
+      const result = validatePunchLocation(INSIDE, [circleZone, mallZone]);
+      expect(result.isAllowed).toBe(true);
+      expect(result.zone?.id).toBe('mall');
+    });
+
+    it('rejects punches outside with the distance to the nearest zone', () => {
+      const result = validatePunchLocation(FAR_OUTSIDE, [mallZone]);
+      expect(result.isAllowed).toBe(false);
+      expect(result.reason).toMatch(/outside Mall/);
+    });
+
+    it('trusts the tracker while a fix drifts within the hysteresis band', () => {
+      const state: GeofenceTrackingState = { mall: { inside: true, pendingFixes: 0 } };
+      expect(validatePunchLocation(JUST_OUTSIDE, [mallZone], state).isAllowed).toBe(true);
+    });
+
+    it('allows punches anywhere when the workplace has no active zones', () => {
+      const expected = { isAllowed: true, reason: 'No geofence configured', zone: null, distance: 0 };
+      expect(validatePunchLocation(FAR_OUTSIDE, [])).toEqual(expected);
+      expect(validatePunchLocation(FAR_OUTSIDE, [{ ...mallZone, isActive: false }])).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Group Restructuring Unit Tests
+ *
+ * Tests for moving groups and members including:
+ * - Validation against depth limits, subgroup and reassignment settings
+ * - Impact preview on approvers, workplaces and report visibility
+ * - Undo with conflict detection, history queries and persistence
+ */
+
+import {
+  commitReorgMove,
+  loadReorgState,
+  previewReorgMove,
+  queryReorgHistory,
+  ReorgError,
+  saveReorgState,
+  undoReorgMove,
+  validateReorgMove
+} from '../groupRestructure';
+import { Group, GroupMember, GroupMemberRole, GroupSettings, OrgStructure } from '../../types';
+
+const settings = (overrides: Partial<GroupSettings> = {}): GroupSettings => ({
+  allowSubgroups: true,
+  maxDepth: 7,
+  allowMemberReassignment: true,
+  requireLeaderApproval: false,
+  autoAssignNewMembers: false,
+  notificationSettings: {
+    emailNotifications: true,
+    pushNotifications: false,
+    smsNotifications: false,
+    memberChangeNotifications: true,
+    leaderChangeNotifications: true,
+  },
+  ...overrides,
+});
+
+const group = (id: string, parentGroupId: string | undefined, depth: number, extra: Partial<Group> = {}): Group => ({
+  id,
+  name: id,
+  description: '',
+  parentGroupId,
+  members: [],
+  depth,
+  isTopLevel: depth === 0,
+  isActive: true,
+  memberCount: 0,
+  leaderCount: 0,
+  workplaceIds: [],
+  settings: settings(),
+  createdBy: 'admin',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  ...extra,
+});
+
+const assignment = (groupId: string, memberId: string, extra: Partial<GroupMember> = {}): GroupMember => ({
+  id: `${groupId}-${memberId}`,
+  groupId,
+  memberId,
+  memberName: memberId.toUpperCase(),
+  memberEmail: `${memberId}@example.com`,
+  role: extra.isLeader ? GroupMemberRole.LEADER : GroupMemberRole.MEMBER,
+  isLeader: false,
+  hasApprovalAuthority: false,
+  assignedWorkplaces: [],
+  assignedAt: '2025-01-01T00:00:00Z',
+  assignedBy: 'admin',
+  isActive: true,
+  ...extra,
+});
+
+// acme > sales > north; acme > ops (no subgroups allowed below ops' child 'depot')
+const structure = (): OrgStructure => ({
+  groups: [
+    group('acme', undefined, 0, { members: ['ceo'], leaderId: 'ceo' }),
+    group('sales', 'acme', 1, { members: ['sam'], memberCount: 1, leaderCount: 1, workplaceIds: ['wp-sales'] }),
+    group('north', 'sales', 2, { members: ['nina', 'ned'], memberCount: 2, leaderCount: 1, workplaceIds: ['wp-n1', 'wp-n2'] }),
+    group('ops', 'acme', 1, { members: ['olga'], memberCount: 1, leaderCount: 1, workplaceIds: ['wp-ops'] }),
+    group('depot', 'ops', 2, { settings: settings({ allowSubgroups: false, allowMemberReassignment: false }) }),
+  ],
+  groupMembers: [
+    assignment('sales', 'sam', { isLeader: true, hasApprovalAuthority: true }),
+    assignment('north', 'nina', { isLeader: true, hasApprovalAuthority: false }),
+    assignment('north', 'ned', { assignedWorkplaces: ['wp-n1'] }),
+    assignment('ops', 'olga', { isLeader: true, hasApprovalAuthority: true }),
+  ],
+});
+
+const NOW = new Date('2025-06-01T09:00:00Z');
+
+describe('Group Restructuring', () => {
+  describe('validation', () => {
+    it('rejects cycles, the top level and groups that disallow subgroups', () => {
+      const org = structure();
+      expect(validateReorgMove(org, { type: 'group', groupId: 'sales', toParentId: 'north' }))
+        .toEqual(['"sales" cannot be moved under its own subgroup "north"']);
+      expect(validateReorgMove(org, { type: 'group', groupId: 'acme', toParentId: 'ops' })).toEqual(['The top-level group cannot be moved']);
+      expect(validateReorgMove(org, { type: 'group', groupId: 'north', toParentId: 'depot' })).toEqual(['"depot" does not allow subgroups']);
+      expect(validateReorgMove(org, { type: 'group', groupId: 'north', toParentId: 'ops' })).toEqual([]);
+    });
+
+    it('enforces the max depth set by any ancestor and the 7-level limit', () => {
+      const org = structure();
+      org.groups = org.groups.map(entry => entry.id === 'ops' ? { ...entry, settings: settings({ maxDepth: 2 }) } : entry);
+      expect(validateReorgMove(org, { type: 'group', groupId: 'sales', toParentId: 'ops' }))
+        .toEqual(['"north" would be at depth 3, beyond the limit of 2 set by "ops"']);
+
+      const deep = structure();
+      for (let level = 3; level <= 7; level++) deep.groups.push(group(`l${level}`, level === 3 ? 'north' : `l${level - 1}`, level));
+      expect(validateReorgMove(deep, { type: 'group', groupId: 'ops', toParentId: 'l7' }))
+        .toEqual(['"ops" would be at depth 8, beyond the 7-level limit']);
+    });
+
+    it('checks member moves against membership and reassignment settings', () => {
+      const org = structure();
+      expect(validateReorgMove(org, { type: 'member', memberId: 'ned', fromGroupId: 'sales', toGroupId: 'ops' })).toEqual(['NED is not in "sales"']);
+      expect(validateReorgMove(org, { type: 'member', memberId: 'ned', fromGroupId: 'north', toGroupId: 'depot' }))
+        .toEqual(['"depot" does not allow member reassignment']);
+      expect(() => commitReorgMove(org, [], { type: 'member', memberId: 'ned', fromGroupId: 'north', toGroupId: 'depot' }, 'admin', NOW))
+        .toThrow(ReorgError);
+    });
+  });
+
+  describe('impact preview', () => {
+    it('shows approvers, report viewers and leader workplaces changing with a group move', () => {
+      const preview = previewReorgMove(structure(), { type: 'group', groupId: 'north', toParentId: 'ops' }, NOW);
+      const change = (memberId: string, aspect: string) =>
+        preview.changes.find(entry => entry.memberId === memberId && entry.aspect === aspect);
+
+      expect(preview.summary).toBe('Moved group "north" from "sales" to "ops"');
+      expect(change('ned', 'approvers')).toMatchObject({ gained: ['olga'], lost: ['sam'] });
+      expect(change('ned', 'report-viewers')).toMatchObject({ gained: ['olga'], lost: ['sam'] });
+      expect(change('sam', 'workplaces')).toMatchObject({ gained: [], lost: ['wp-n1', 'wp-n2'] });
+      expect(change('olga', 'workplaces')).toMatchObject({ gained: ['wp-n1', 'wp-n2'], lost: [] });
+      expect(change('ceo', 'workplaces')).toBeUndefined();
+      expect(preview.depthChanges).toEqual([]);
+    });
+
+    it('drops leadership and out-of-group workplaces when a member moves', () => {
+      const org = structure();
+      const preview = previewReorgMove(org, { type: 'member', memberId: 'nina', fromGroupId: 'north', toGroupId: 'ops' }, NOW);
+      expect(preview.changes.find(entry => entry.memberId === 'ned' && entry.aspect === 'report-viewers'))
+        .toMatchObject({ gained: [], lost: ['nina'] });
+      expect(preview.changes.find(entry => entry.memberId === 'nina' && entry.aspect === 'approvers'))
+        .toMatchObject({ gained: ['olga'], lost: ['sam'] });
+
+      const { structure: next } = commitReorgMove(org, [], preview.move, 'admin', NOW);
+      expect(next.groupMembers.find(gm => gm.memberId === 'nina')).toMatchObject({ groupId: 'ops', isLeader: false, role: GroupMemberRole.MEMBER });
+      expect(next.groups.find(entry => entry.id === 'north')).toMatchObject({ members: ['ned'], memberCount: 1, leaderCount: 0 });
+      expect(next.groups.find(entry => entry.id === 'ops')).toMatchObject({ members: ['olga', 'nina'], memberCount: 2 });
+    });
+
+    it('recomputes depth across the moved subtree', () => {
+      const preview = previewReorgMove(structure(), { type: 'group', groupId: 'sales', toParentId: 'ops' }, NOW);
+      expect(preview.depthChanges).toEqual([
+        { groupId: 'sales', from: 1, to: 2 },
+        { groupId: 'north', from: 2, to: 3 },
+      ]);
+    });
+  });
+
+  describe('history', () => {
+    it('undoes moves, refusing while a later move touched the same records', () => {
+      const org = structure();
+      const first = commitReorgMove(org, [], { type: 'group', groupId: 'north', toParentId: 'ops' }, 'admin', NOW);
+      const second = commitReorgMove(first.structure, first.history, { type: 'group', groupId: 'north', toParentId: 'acme' }, 'admin', new Date('2025-06-02T09:00:00Z'));
+      expect(first.entry.move).toEqual({ type: 'group', groupId: 'north', toParentId: 'ops', fromParentId: 'sales' });
+
+      expect(() => undoReorgMove(second.structure, second.history, first.entry.id, 'admin', NOW))
+        .toThrow('Undo "Moved group "north" from "ops" to "acme"" first');
+
+      const undoneSecond = undoReorgMove(second.structure, second.history, second.entry.id, 'admin', NOW);
+      const undoneBoth = undoReorgMove(undoneSecond.structure, undoneSecond.history, first.entry.id, 'admin', NOW);
+      expect(undoneBoth.structure).toEqual(org);
+      expect(() => undoReorgMove(undoneBoth.structure, undoneBoth.history, first.entry.id, 'admin', NOW))
+        .toThrow('This re-org has already been undone');
+    });
+
+    it('queries history by group, member, user and date', () => {
+      const first = commitReorgMove(structure(), [], { type: 'group', groupId: 'north', toParentId: 'ops' }, 'admin', NOW);
+      const second = commitReorgMove(first.structure, first.history,
+        { type: 'member', memberId: 'sam', fromGroupId: 'sales', toGroupId: 'ops' }, 'hr', new Date('2025-06-03T09:00:00Z'));
+      const history = undoReorgMove(second.structure, second.history, second.entry.id, 'hr', NOW).history;
+
+      expect(queryReorgHistory(history, { groupId: 'sales' }).map(entry => entry.id)).toEqual([first.entry.id]);
+      expect(queryReorgHistory(history, { groupId: 'sales', includeUndone: true }).map(entry => entry.id))
+        .toEqual([second.entry.id, first.entry.id]);
+      expect(queryReorgHistory(history, { memberId: 'ned' })).toHaveLength(1);
+      expect(queryReorgHistory(history, { performedBy: 'hr', includeUndone: true })).toHaveLength(1);
+      expect(queryReorgHistory(history, { from: '2025-06-02', includeUndone: true }).map(entry => entry.id)).toEqual([second.entry.id]);
+    });
+
+    it('round-trips state and falls back on unreadable storage', () => {
+      const store = new Map<string, string>();
+      const storage = { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => { store.set(key, value); } };
+      const state = { structure: structure(), history: [] };
+
+      saveReorgState(state, storage);
+      expect(loadReorgState({ structure: { groups: [], groupMembers: [] }, history: [] }, storage)).toEqual(state);
+      store.set('groupReorgState', '{');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      expect(loadReorgState(state, storage)).toBe(state);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Incident Lifecycle Unit Tests
+ *
+ * Tests for workplace incidents including:
+ * - Moving through reported → triaged → assigned → resolved → verified
+ * - Reopening after a failed verification
+ * - Photo and GPS evidence on the timeline
+ * - SLA clocks per severity and escalation to the area manager
+ */
+
+import {
+  attachEvidence,
+  DEFAULT_SLA_POLICIES,
+  escalateBreachedIncidents,
+  getAverageResolutionHours,
+  getIncidentSla,
+  getNextStatuses,
+  IncidentError,
+  IncidentReport,
+  reportIncident,
+  transitionIncident
+} from '../incidentLifecycle';
+import { Area, Incident } from '../../types';
+
+const report: IncidentReport = {
+  id: 'inc-1',
+  workplaceId: 'w1',
+  workplaceName: 'Store 1',
+  workplaceCode: '20311',
+  areaId: 'north',
+  areaName: 'North',
+  incidentType: 'Equipment Failure',
+  severity: 'high',
+  title: 'Demo screen is black',
+  description: 'Main demo screen stopped working',
+};
+
+const areas: Area[] = [{
+  id: 'north', name: 'North', managerId: 'm-7', managerName: 'Petra Meyer',
+  isActive: true, createdBy: 'admin', createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z',
+}];
+
+const at = (time: string) => new Date(`2025-10-06T${time}:00.000Z`);
+
+const assigned = (): Incident => {
+  const triaged = transitionIncident(reportIncident(report, 'ann', at('08:00')), 'triaged', { by: 'lead' }, at('08:30'));
+  return transitionIncident(triaged, 'assigned', { by: 'lead', assignee: 'tech' }, at('09:00'));
+};
+
+describe('Incident lifecycle', () => {
+  describe('transitions', () => {
+    it('records every status change on the timeline', () => {
+      const resolved = transitionIncident(assigned(), 'resolved', { by: 'tech', note: 'Replaced the HDMI cable' }, at('12:00'));
+      const verified = transitionIncident(resolved, 'verified', { by: 'lead' }, at('13:00'));
+
+      expect(verified).toMatchObject({ status: 'verified', assignedTo: 'tech', resolution: 'Replaced the HDMI cable', updatedAt: '2025-10-06T13:00:00.000Z' });
+      expect(verified.timeline.map(({ from, to, by, note }) => [from, to, by, note])).toEqual([
+        [undefined, 'reported', 'ann', undefined],
+        ['reported', 'triaged', 'lead', undefined],
+        ['triaged', 'assigned', 'lead', 'Assigned to tech'],
+        ['assigned', 'resolved', 'tech', 'Replaced the HDMI cable'],
+        ['resolved', 'verified', 'lead', undefined],
+      ]);
+      expect(getNextStatuses(verified)).toEqual([]);
+    });
+
+    it('enforces the order and the details each step needs', () => {
+      const reported = reportIncident(report, 'ann', at('08:00'));
+      expect(() => transitionIncident(reported, 'resolved', { by: 'ann', note: 'done' })).toThrow('A reported incident cannot move to resolved');
+
+      const triaged = transitionIncident(reported, 'triaged', { by: 'lead' });
+      expect(() => transitionIncident(triaged, 'assigned', { by: 'lead' })).toThrow('Choose who the incident is assigned to');
+      expect(() => transitionIncident(assigned(), 'resolved', { by: 'tech', note: ' ' })).toThrow(IncidentError);
+
+      const resolved = transitionIncident(assigned(), 'resolved', { by: 'tech', note: 'Fixed' });
+      expect(() => transitionIncident(resolved, 'verified', { by: 'tech' })).toThrow('someone other than the assignee');
+    });
+
+    it('reopens a resolution that fails verification', () => {
+      const resolved = transitionIncident(assigned(), 'resolved', { by: 'tech', note: 'Restarted' }, at('10:00'));
+      expect(() => transitionIncident(resolved, 'assigned', { by: 'lead' })).toThrow('Say why');
+
+      const reopened = transitionIncident(resolved, 'assigned', { by: 'lead', note: 'Still flickers' }, at('11:00'));
+      expect(reopened).toMatchObject({ status: 'assigned', assignedTo: 'tech' });
+      expect(reopened.timeline[reopened.timeline.length - 1]).toMatchObject({ from: 'resolved', to: 'assigned', note: 'Still flickers' });
+    });
+  });
+
+  it('attaches photo and GPS evidence from the mobile app', () => {
+    const withPhoto = attachEvidence(assigned(), {
+      id: 'e1', type: 'photo', url: 'https://cdn/e1.jpg', location: { latitude: 50.11, longitude: 8.68 },
+      source: 'mobile', capturedBy: 'ann', capturedAt: '2025-10-06T09:10:00.000Z',
+    });
+    expect(withPhoto.evidence).toHaveLength(1);
+    expect(withPhoto.timeline[withPhoto.timeline.length - 1]).toMatchObject({ type: 'evidence', by: 'ann', note: 'Photo added from mobile' });
+
+    expect(() => attachEvidence(withPhoto, {
+      id: 'e2', type: 'location', location: { latitude: 95, longitude: 8 }, source: 'mobile', capturedBy: 'ann', capturedAt: '2025-10-06T09:20:00.000Z',
+    })).toThrow('not valid');
+    expect(() => attachEvidence(withPhoto, { id: 'e3', type: 'photo', source: 'web', capturedBy: 'ann', capturedAt: '' })).toThrow(IncidentError);
+  });
+
+  describe('SLA', () => {
+    it('runs the response clock until assigned, then the resolution clock', () => {
+      const reported = reportIncident(report, 'ann', at('08:00'));
+      expect(getIncidentSla(reported, DEFAULT_SLA_POLICIES, at('09:00'))).toEqual({
+        stage: 'response', dueAt: '2025-10-06T12:00:00.000Z', remainingMinutes: 180, status: 'on-track',
+      });
+      expect(getIncidentSla(reported, DEFAULT_SLA_POLICIES, at('11:30')).status).toBe('at-risk');
+      expect(getIncidentSla(reported, DEFAULT_SLA_POLICIES, at('12:01')).status).toBe('breached');
+
+      expect(getIncidentSla(assigned(), DEFAULT_SLA_POLICIES, at('12:01'))).toMatchObject({
+        stage: 'resolution', dueAt: '2025-10-07T08:00:00.000Z', status: 'on-track',
+      });
+
+      const resolved = transitionIncident(assigned(), 'resolved', { by: 'tech', note: 'Fixed' }, new Date('2025-10-07T09:00:00.000Z'));
+      expect(getIncidentSla(resolved, DEFAULT_SLA_POLICIES)).toMatchObject({ stage: 'done', remainingMinutes: -60, status: 'breached' });
+      expect(getAverageResolutionHours([resolved, assigned()])).toBe(25);
+    });
+
+    it('escalates a breached clock to the area manager once', () => {
+      const reported = reportIncident(report, 'ann', at('08:00'));
+      const elsewhere = reportIncident({ ...report, id: 'inc-2', areaId: 'south' }, 'ann', at('08:00'));
+
+      const first = escalateBreachedIncidents([reported, elsewhere], areas, DEFAULT_SLA_POLICIES, at('12:30'));
+      expect(first.escalated.map(incident => incident.id)).toEqual(['inc-1']);
+      expect(first.incidents[0].escalations).toEqual([
+        { stage: 'response', escalatedAt: '2025-10-06T12:30:00.000Z', escalatedTo: 'm-7', escalatedToName: 'Petra Meyer' },
+      ]);
+      expect(first.incidents[0].timeline[1]).toMatchObject({ type: 'escalation', by: 'system', note: 'Response SLA breached; escalated to Petra Meyer' });
+
+      const again = escalateBreachedIncidents(first.incidents, areas, DEFAULT_SLA_POLICIES, at('13:00'));
+      expect(again.escalated).toEqual([]);
+      expect(again.incidents).toBe(first.incidents);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Inventory Ledger Unit Tests
+ *
+ * Tests for the stock movement ledger including:
+ * - Validating visit counts against the count settings
+ * - Turning questionnaire responses into count movements
+ * - Replaying balances and count variances in time order
+ * - Demand, days-of-cover and out-of-stock streaks
+ * - Reorder quantities per distributor and the order CSV
+ */
+
+import {
+  countMovementsFromResponses,
+  formatReorderCsv,
+  getInventoryPosition,
+  getReorderSuggestions,
+  groupReorderSuggestions,
+  InventoryLedgerError,
+  InventoryMovementInput,
+  loadInventoryState,
+  postMovements,
+  recordInventoryMovements,
+  saveInventoryState,
+  validateInventoryCount
+} from '../inventoryLedger';
+import { buildTodoResponses } from '../questionnaire';
+import { InventoryCountConfig, InventoryItem, QuestionType, TodoQuestion } from '../../types';
+
+const config: InventoryCountConfig = {
+  countMethods: ['manual', 'scanner'],
+  accuracyThresholds: [95, 90],
+  requirePhotos: false,
+  requireLocationVerification: true,
+  requireDiscrepancyReporting: false,
+  products: [{ sku: 'TV-55', name: 'TV 55"' }, { sku: 'SB-1', name: 'Soundbar' }],
+};
+
+const item = (overrides: Partial<InventoryItem>): InventoryItem => ({
+  id: 'i1',
+  workplaceId: 'w1',
+  workplaceName: 'Store 1',
+  workplaceCode: '20311',
+  productId: 'p1',
+  productName: 'TV 55"',
+  category: 'Televisions',
+  sku: 'TV-55',
+  minStock: 2,
+  maxStock: 20,
+  reorderPoint: 5,
+  unitCost: 500,
+  distributorId: 'd1',
+  distributorName: 'ABC Distribution',
+  leadTimeDays: 4,
+  location: 'Aisle 1',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const count = (id: string, day: string, quantity: number, sku = 'TV-55', workplaceCode = '20311'): InventoryMovementInput =>
+  ({ id, workplaceCode, sku, type: 'count', quantity, occurredAt: `2025-10-${day}T09:00:00.000Z`, recordedBy: 'Ann' });
+
+describe('Inventory ledger', () => {
+  describe('visit counts', () => {
+    it('checks the method, every listed SKU, whole units and evidence', () => {
+      expect(validateInventoryCount({
+        method: 'manual',
+        lines: [{ sku: 'TV-55', quantity: 4 }, { sku: 'SB-1', quantity: 0 }],
+        location: { latitude: 52.5, longitude: 13.4 },
+      }, config)).toEqual([]);
+
+      expect(validateInventoryCount({
+        method: 'guess',
+        lines: [{ sku: 'TV-55', quantity: 1.5 }, { sku: 'TV-55', quantity: 2 }, { sku: 'X-1', quantity: 1 }],
+      }, config)).toEqual([
+        'Choose a counting method',
+        'Enter a whole number of units for TV-55',
+        'TV-55 is counted twice',
+        'X-1 is not on the count list',
+        'Count Soundbar',
+        'Capture where the count was taken',
+      ]);
+      expect(validateInventoryCount('12', config)).toEqual(['Count the stock']);
+    });
+
+    it('turns questionnaire responses into count movements keyed by visit', () => {
+      const question: TodoQuestion = {
+        id: 'q1',
+        type: QuestionType.INVENTORY_COUNT,
+        title: 'Count stock',
+        required: true,
+        order: 1,
+        merchandisingConfig: { inventoryCount: config },
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      };
+      const answer = { method: 'scanner', lines: [{ sku: 'TV-55', quantity: 4, note: 'one damaged' }, { sku: 'SB-1', quantity: 0 }] };
+      const responses = buildTodoResponses('todo-7', 'u1', [question], { q1: answer }, new Date('2025-10-05T10:00:00Z'));
+
+      const movements = countMovementsFromResponses(responses, [question], { workplaceCode: '20311', recordedBy: 'Ann' });
+      expect(movements).toEqual([
+        {
+          id: 'todo-7-q1-TV-55', workplaceCode: '20311', sku: 'TV-55', type: 'count', quantity: 4,
+          occurredAt: '2025-10-05T10:00:00.000Z', countMethod: 'scanner', note: 'one damaged',
+          source: { todoId: 'todo-7', questionId: 'q1' }, recordedBy: 'Ann',
+        },
+        expect.objectContaining({ id: 'todo-7-q1-SB-1', quantity: 0 }),
+      ]);
+    });
+  });
+
+  describe('postMovements', () => {
+    it('replays balances in time order and records count variances', () => {
+      const ledger = postMovements([], [
+        count('c2', '08', 6),
+        { id: 'd1', workplaceCode: '20311', sku: 'TV-55', type: 'delivery', quantity: 10, occurredAt: '2025-10-03T12:00:00.000Z', recordedBy: 'Ann' },
+        count('c1', '01', 5),
+        count('o1', '01', 3, 'TV-55', '15235'),
+      ]);
+
+      expect(ledger.map(({ id, balance, variance }) => [id, balance, variance])).toEqual([
+        ['c1', 5, undefined],
+        ['o1', 3, undefined],
+        ['d1', 15, undefined],
+        ['c2', 6, -9],
+      ]);
+    });
+
+    it('replaces a re-synced count and rejects invalid movements', () => {
+      const ledger = postMovements([], [count('c1', '01', 5), count('c2', '08', 2)]);
+      const resynced = postMovements(ledger, [count('c2', '08', 4)]);
+      expect(resynced).toHaveLength(2);
+      expect(resynced[1]).toMatchObject({ quantity: 4, balance: 4, variance: -1 });
+
+      expect(() => postMovements(ledger, [count('c3', '09', -1)])).toThrow(InventoryLedgerError);
+      expect(() => postMovements(ledger, [{ ...count('c3', '09', 1), occurredAt: 'soon' }])).toThrow('invalid movement time');
+    });
+  });
+
+  describe('recordInventoryMovements', () => {
+    const memoryStorage = () => {
+      const data = new Map<string, string>();
+      return { getItem: (key: string) => data.get(key) ?? null, setItem: (key: string, value: string) => { data.set(key, value); } };
+    };
+
+    it('posts counts to the saved ledger and keeps the saved items', () => {
+      const storage = memoryStorage();
+      saveInventoryState({ items: [item({})], movements: postMovements([], [count('a1', '01', 20)]) }, storage);
+
+      recordInventoryMovements([count('a2', '08', 13)], storage);
+
+      const saved = loadInventoryState({ items: [], movements: [] }, storage);
+      expect(saved.items.map(entry => entry.id)).toEqual(['i1']);
+      expect(saved.movements.map(movement => [movement.id, movement.balance])).toEqual([['a1', 20], ['a2', 13]]);
+    });
+
+    it('leaves items to the fallback when nothing was saved yet', () => {
+      const storage = memoryStorage();
+      recordInventoryMovements([count('a1', '01', 20)], storage);
+
+      const saved = loadInventoryState({ items: [item({ id: 'seed' })], movements: [] }, storage);
+      expect(saved.items.map(entry => entry.id)).toEqual(['seed']);
+      expect(saved.movements).toHaveLength(1);
+    });
+  });
+
+  describe('positions and reordering', () => {
+    const ledger = postMovements([], [
+      count('a1', '01', 20),
+      count('a2', '08', 13),
+      count('a3', '15', 6),
+      count('b1', '01', 4, 'SB-1'),
+      count('b2', '08', 0, 'SB-1'),
+      count('b3', '15', 0, 'SB-1'),
+    ]);
+    const asOf = new Date('2025-10-15T18:00:00Z');
+
+    it('derives demand, days of cover and out-of-stock streaks from counts', () => {
+      expect(getInventoryPosition(item({}), ledger, asOf)).toEqual({
+        itemId: 'i1',
+        currentStock: 6,
+        lastCountedAt: '2025-10-15T09:00:00.000Z',
+        averageDailyDemand: 1,
+        daysOfCover: 6,
+        outOfStockStreak: 0,
+        outOfStockSince: undefined,
+        status: 'healthy',
+      });
+      expect(getInventoryPosition(item({ id: 'i2', sku: 'SB-1' }), ledger, asOf)).toMatchObject({
+        currentStock: 0,
+        daysOfCover: 0,
+        outOfStockStreak: 2,
+        outOfStockSince: '2025-10-08T09:00:00.000Z',
+        status: 'out-of-stock',
+      });
+      expect(getInventoryPosition(item({}), ledger, new Date('2025-10-02T00:00:00Z'))).toMatchObject({ currentStock: 20, daysOfCover: null });
+    });
+
+    it('orders up to max stock in whole packs, grouped by distributor', () => {
+      const items = [
+        item({}),
+        item({ id: 'i2', sku: 'SB-1', productName: 'Soundbar', packSize: 6, distributorId: 'd2', distributorName: 'XYZ Logistics' }),
+        // Never counted: stock on hand is unknown
+        item({ id: 'i3', sku: 'TV-55', workplaceCode: '15235' }),
+      ];
+      const suggestions = getReorderSuggestions(items, ledger, asOf);
+
+      expect(suggestions.map(({ itemId, stockAtDelivery, quantity, reason }) => [itemId, stockAtDelivery, quantity, reason])).toEqual([
+        ['i1', 2, 18, '2 expected on delivery, reorder point 5'],
+        ['i2', 0, 24, 'Out of stock on the last 2 counts'],
+      ]);
+      expect(Array.from(groupReorderSuggestions(suggestions).keys())).toEqual(['d1', 'd2']);
+      expect(formatReorderCsv(suggestions.slice(0, 1))).toBe(
+        'Distributor,Workplace code,Workplace,SKU,Product,Current stock,Order quantity\n' +
+        'ABC Distribution,20311,Store 1,TV-55,"TV 55""",6,18'
+      );
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Leave Ledger Unit Tests
+ *
+ * Tests for the leave transaction ledger including:
+ * - Carry-over expiry rules from LeaveGrant
+ * - Pro-rated grants and monthly accruals
+ * - Balances as of any date, with derived expiries
+ * - Negative balances and leave-use checks
+ * - Manual adjustments
+ */
+
+import {
+  buildLeaveLedger,
+  checkLeaveUse,
+  createAdjustment,
+  createGrantTransactions,
+  createUseTransaction,
+  getCarryoverExpiry,
+  getLeaveBalance,
+  isLeaveTypeTracked,
+  LeaveLedgerError
+} from '../leaveLedger';
+import { LeaveGrant, LeaveRequest, LeaveTransaction, LeaveType } from '../../types';
+
+const vacation: LeaveType = { id: 'vacation', name: 'Vacation', maxDays: 20, color: '#10B981', requiresApproval: true };
+
+const grant = (id: string, year: number, extra: Partial<LeaveGrant> = {}): LeaveGrant => ({
+  id,
+  title: `Annual Leave ${year}`,
+  leaveTypeId: 'vacation',
+  employees: ['u1'],
+  grantType: 'same',
+  daysGranted: 15,
+  periodStart: `${year}-01-01`,
+  periodEnd: `${year}-12-31`,
+  carryoverType: 'months',
+  carryoverValue: 3,
+  createdBy: 'hr',
+  createdAt: `${year}-01-01T00:00:00Z`,
+  ...extra,
+});
+
+const request = (id: string, startDate: string, endDate: string): LeaveRequest => ({
+  id,
+  userId: 'u1',
+  type: vacation,
+  startDate,
+  endDate,
+  reason: 'Holiday',
+  status: 'approved',
+  approvedBy: 'leader-1',
+  approvedAt: `${startDate}T00:00:00Z`,
+});
+
+const NOW = new Date('2025-01-01T00:00:00Z');
+
+describe('Leave Ledger', () => {
+  describe('getCarryoverExpiry', () => {
+    it('supports every carryover type', () => {
+      expect(getCarryoverExpiry(grant('g', 2024))).toBe('2025-03-31');
+      expect(getCarryoverExpiry(grant('g', 2024, { carryoverType: 'days', carryoverValue: 10 }))).toBe('2025-01-10');
+      expect(getCarryoverExpiry(grant('g', 2024, { carryoverType: 'nextYear', carryoverValue: 2 }))).toBe('2025-02-28');
+      expect(getCarryoverExpiry(grant('g', 2024, { carryoverType: 'specificDate', carryoverValue: '2025-06-30' }))).toBe('2025-06-30');
+    });
+
+    it('prefers an individual expiration date', () => {
+      const detail = { userId: 'u1', daysGranted: 10, periodStart: '2024-01-01', periodEnd: '2024-12-31', carryoverExpiration: '2025-01-31' };
+      expect(getCarryoverExpiry(grant('g', 2024), detail)).toBe('2025-01-31');
+    });
+  });
+
+  describe('createGrantTransactions', () => {
+    it('pro-rates mid-year joiners and explains how', () => {
+      const [transaction] = createGrantTransactions(grant('g2024', 2024), [{ userId: 'u1', hireDate: '2024-07-01' }], NOW);
+
+      // 184 of 366 days in 2024
+      expect(transaction).toMatchObject({ type: 'grant', days: 7.541, effectiveDate: '2024-07-01', expiresOn: '2025-03-31' });
+      expect(transaction.description).toBe('Annual Leave 2024: 7.541 days (pro-rated from 15: hired 2024-07-01, 184 of 366 days)');
+    });
+
+    it('accrues monthly from the hire date', () => {
+      const accruals = createGrantTransactions(
+        grant('g2024', 2024, { accrualMethod: 'monthly', daysGranted: 12, employees: ['u1', 'u2'] }),
+        [{ userId: 'u2', hireDate: '2024-10-15' }],
+        NOW
+      );
+      const total = (userId: string) => accruals.filter(t => t.userId === userId).reduce((sum, t) => sum + t.days, 0);
+
+      expect(accruals.filter(t => t.userId === 'u1')).toHaveLength(12);
+      expect(total('u1')).toBe(12);
+      expect(accruals.filter(t => t.userId === 'u2').map(t => t.effectiveDate)).toEqual(['2024-11-01', '2024-12-01']);
+    });
+
+    it('skips employees hired after the period', () => {
+      expect(createGrantTransactions(grant('g2024', 2024), [{ userId: 'u1', hireDate: '2025-02-01' }], NOW)).toEqual([]);
+    });
+  });
+
+  describe('balances', () => {
+    const transactions: LeaveTransaction[] = [
+      ...createGrantTransactions(grant('g2024', 2024), [], NOW),
+      ...createGrantTransactions(grant('g2025', 2025), [], NOW),
+      createUseTransaction(request('r1', '2024-08-05', '2024-08-14')),
+      createUseTransaction(request('r2', '2025-02-03', '2025-02-05')),
+    ];
+
+    it('derives the balance as of any date', () => {
+      expect(getLeaveBalance(transactions, 'u1', 'vacation', '2024-06-30').remainingDays).toBe(15);
+      expect(getLeaveBalance(transactions, 'u1', 'vacation', '2024-12-31').remainingDays).toBe(5);
+      expect(getLeaveBalance(transactions, 'u1', 'vacation', '2025-03-31').remainingDays).toBe(17);
+    });
+
+    it('uses carried-over days first and expires the rest', () => {
+      const balance = getLeaveBalance(transactions, 'u1', 'vacation', '2025-04-01');
+      expect(balance).toEqual({
+        userId: 'u1', leaveTypeId: 'vacation', totalDays: 30, usedDays: 13, expiredDays: 2, remainingDays: 15, asOf: '2025-04-01',
+      });
+
+      const ledger = buildLeaveLedger(transactions, 'u1', 'vacation', '2025-04-01');
+      expect(ledger.map(entry => [entry.transaction.type, entry.transaction.days, entry.balance])).toEqual([
+        ['grant', 15, 15],
+        ['use', -10, 5],
+        ['grant', 15, 20],
+        ['use', -3, 17],
+        ['expiry', -2, 15],
+      ]);
+      expect(ledger[4].transaction).toMatchObject({
+        effectiveDate: '2025-04-01',
+        description: '2 unused days from "Annual Leave 2024: 15 days" expired after 2025-03-31',
+      });
+    });
+
+    it('pays off a negative balance from the next credit', () => {
+      const advance: LeaveTransaction[] = [
+        ...createGrantTransactions(grant('g2024', 2024, { daysGranted: 2 }), [], NOW),
+        createUseTransaction(request('r1', '2024-12-20', '2024-12-23')),
+        ...createGrantTransactions(grant('g2025', 2025, { daysGranted: 10 }), [], NOW),
+      ];
+
+      expect(getLeaveBalance(advance, 'u1', 'vacation', '2024-12-31').remainingDays).toBe(-2);
+      // The 2024 lot was used up, so nothing expires at the end of March
+      expect(getLeaveBalance(advance, 'u1', 'vacation', '2025-04-01')).toMatchObject({ remainingDays: 8, expiredDays: 0 });
+    });
+  });
+
+  describe('checkLeaveUse', () => {
+    const transactions = [
+      ...createGrantTransactions(grant('g2025', 2025, { daysGranted: 5 }), [], NOW),
+      createUseTransaction(request('r1', '2025-08-01', '2025-08-03')),
+    ];
+
+    it('reserves leave that is already booked', () => {
+      const check = checkLeaveUse(transactions, vacation, 'u1', 3, '2025-05-01');
+      expect(check).toEqual({ allowed: false, available: 2, message: 'Only 2 days available for Vacation' });
+    });
+
+    it('allows advance leave down to the negative limit', () => {
+      const advance = { ...vacation, allowNegativeBalance: true, maxNegativeDays: 2 };
+      expect(checkLeaveUse(transactions, advance, 'u1', 4, '2025-05-01')).toMatchObject({ allowed: true });
+      expect(checkLeaveUse(transactions, advance, 'u1', 5, '2025-05-01')).toEqual({
+        allowed: false,
+        available: 2,
+        message: "Only 2 days available; the balance can't go below -2",
+      });
+    });
+
+    it('only tracks leave types with granted days', () => {
+      const personal = { ...request('r2', '2025-08-01', '2025-08-01'), type: { ...vacation, id: 'personal' } };
+      expect(isLeaveTypeTracked(transactions, 'vacation')).toBe(true);
+      expect(isLeaveTypeTracked([...transactions, createUseTransaction(personal)], 'personal')).toBe(false);
+    });
+  });
+
+  describe('createAdjustment', () => {
+    it('requires a reason and records it', () => {
+      const base = { userId: 'u1', leaveTypeId: 'vacation', days: 0.5, effectiveDate: '2025-03-01', createdBy: 'hr' };
+
+      expect(() => createAdjustment({ ...base, reason: ' ' }, NOW)).toThrow(LeaveLedgerError);
+      expect(createAdjustment({ ...base, reason: 'Worked public holiday' }, NOW)).toMatchObject({
+        type: 'adjustment', days: 0.5, description: 'Adjustment: Worked public holiday',
+      });
+    });
+  });
+});
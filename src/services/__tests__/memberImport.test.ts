@@ -0,0 +1,220 @@
+/**
+ * Member Import Unit Tests
+ *
+ * Tests for the HRIS member import including:
+ * - Header mapping and row validation
+ * - Dry-run diff of creates, updates, moves and deactivations
+ * - Idempotent re-runs keyed on employee ID and export round-trips
+ * - Saving plans through the users API, managers created first
+ */
+
+import {
+  applyMemberImportPlan,
+  discardImportedRoster,
+  exportMemberRows,
+  findEmployeeIdConflict,
+  guessMemberImportMapping,
+  memberFromServerUser,
+  MemberImportError,
+  planMemberImport,
+  saveMemberImportPlan
+} from '../memberImport';
+import { Group, Member, MemberRole } from '../../types';
+
+const group = (id: string, name: string): Group => ({
+  id,
+  name,
+  description: '',
+  members: [],
+  depth: 0,
+  isTopLevel: true,
+  isActive: true,
+  memberCount: 0,
+  leaderCount: 0,
+  workplaceIds: [],
+  settings: {} as Group['settings'],
+  createdBy: 'admin',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+});
+
+const member = (id: string, extra: Partial<Member> = {}): Member => ({
+  id,
+  userId: `user-${id}`,
+  name: `Member ${id}`,
+  email: `${id}@acme.com`,
+  role: MemberRole.EMPLOYEE,
+  department: 'Sales',
+  position: 'Merchandiser',
+  employeeId: id.toUpperCase(),
+  hireDate: '2024-01-15',
+  groups: ['g-north'],
+  isLeader: false,
+  isAdmin: false,
+  approvalAuthority: false,
+  status: 'active',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...extra,
+});
+
+const GROUPS = [group('g-north', 'North Region'), group('g-south', 'South Region')];
+const MEMBERS = [
+  member('e1', { name: 'Ann Lee', email: 'ann@acme.com', role: MemberRole.LEADER, isLeader: true }),
+  member('e2', { name: 'Bob Ray', email: 'bob@acme.com', managerId: 'e1' }),
+  member('e3', { name: 'Cat Poe', email: 'cat@acme.com' }),
+];
+const HEADER = ['Personnel Number', 'Full Name', 'E-Mail', 'Department', 'Job Title', 'Start Date', 'Role', 'Groups', 'Manager ID'];
+const NOW = new Date('2025-06-01T02:00:00Z');
+
+const plan = (rows: string[][], members = MEMBERS, deactivateMissing = false) =>
+  planMemberImport(members, [HEADER, ...rows], guessMemberImportMapping(HEADER), { groups: GROUPS, deactivateMissing, now: NOW });
+
+describe('Member Import', () => {
+  it('maps usual HRIS headers and rejects unusable files', () => {
+    expect(guessMemberImportMapping(HEADER)).toMatchObject({
+      employeeId: 'Personnel Number', name: 'Full Name', email: 'E-Mail', position: 'Job Title', hireDate: 'Start Date', managerId: 'Manager ID',
+    });
+    expect(() => planMemberImport(MEMBERS, [], {}, { groups: GROUPS })).toThrow('The file is empty');
+    expect(() => planMemberImport(MEMBERS, [['Name']], { name: 'Name' }, { groups: GROUPS })).toThrow(MemberImportError);
+  });
+
+  it('plans creates, updates, moves and deactivations in a dry run', () => {
+    const result = plan([
+      ['E1', 'Ann Lee', 'ann@acme.com', 'Sales', 'Merchandiser', '15.01.2024', 'leader', 'North Region', ''],
+      ['E2', 'Bob Ray', 'bob@acme.com', 'Sales', 'Senior Merchandiser', '2024-01-15', 'employee', 'South Region', 'E1'],
+      ['E4', 'Dan Fox', 'dan@acme.com', 'Sales', 'Merchandiser', '2025-06-01', '', 'South Region', 'E2'],
+    ], MEMBERS, true);
+
+    const byId = (employeeId: string) => result.changes.find(change => change.employeeId === employeeId)!;
+    expect(result.counts).toEqual({ create: 1, update: 1, move: 1, deactivate: 1, unchanged: 1 });
+    expect(byId('E1').actions).toEqual(['unchanged']);
+    expect(byId('E2').actions).toEqual(['move', 'update']);
+    expect(byId('E2').fields).toEqual([
+      { field: 'position', from: 'Merchandiser', to: 'Senior Merchandiser' },
+      { field: 'groups', from: 'North Region', to: 'South Region' },
+    ]);
+    expect(byId('E3')).toMatchObject({ actions: ['deactivate'], after: { status: 'inactive' } });
+    expect(byId('E3').row).toBeUndefined();
+    expect(byId('E4').after).toMatchObject({ id: 'hris-E4', groups: ['g-south'], managerId: 'e2', role: MemberRole.EMPLOYEE });
+    expect(MEMBERS[2].status).toBe('active');
+  });
+
+  it('lists every row error and skips those rows', () => {
+    const result = plan([
+      ['', 'No Id', 'noid@acme.com', '', '', '', '', '', ''],
+      ['E5', 'Eve', 'not-an-email', '', '', '31.02.2024', 'boss', 'West', 'E9'],
+      ['E6', 'Fay', 'bob@acme.com', '', '', '', '', '', ''],
+      ['E7', 'Gus', 'gus@acme.com', '', '', '', '', '', ''],
+      ['E7', 'Gus Two', 'gus2@acme.com', '', '', '', '', '', ''],
+    ]);
+    expect(result.errors).toEqual([
+      { row: 2, field: 'Personnel Number', error: 'Employee ID is missing' },
+      { row: 3, field: 'E-Mail', error: '"not-an-email" is not an email address' },
+      { row: 3, field: 'Start Date', error: '"31.02.2024" is not a date' },
+      { row: 3, field: 'Role', error: 'Unknown role "boss"' },
+      { row: 3, field: 'Groups', error: 'Unknown group "West"' },
+      { row: 3, field: 'Manager ID', error: 'Unknown manager employee ID "E9"' },
+      { row: 4, field: 'E-Mail', error: 'Email is already used by Bob Ray' },
+      { row: 6, field: 'Personnel Number', error: 'Same employee ID as row 5' },
+    ]);
+    expect(result.changes.map(change => change.employeeId)).toEqual(['E7']);
+  });
+
+  it('is idempotent and exports in the import format', () => {
+    const rows = [
+      ['E2', 'Bob Ray', 'bob@acme.com', 'Sales', 'Senior Merchandiser', '2024-01-15', 'employee', 'South Region', 'E1'],
+      ['E4', 'Dan Fox', 'dan@acme.com', 'Sales', 'Merchandiser', '2025-06-01', 'leader', 'North Region; South Region', 'E2'],
+    ];
+    const applied = applyMemberImportPlan(MEMBERS, plan(rows));
+    expect(applied).toHaveLength(4);
+    expect(plan(rows, applied).counts).toEqual({ create: 0, update: 0, move: 0, deactivate: 0, unchanged: 2 });
+
+    const exported = exportMemberRows(applied, GROUPS);
+    expect(exported[0].slice(0, 3)).toEqual(['Employee ID', 'Name', 'Email']);
+    expect(exported[4].slice(0, 3)).toEqual(['E4', 'Dan Fox', 'dan@acme.com']);
+    const reimported = planMemberImport(applied, exported, guessMemberImportMapping(exported[0]), { groups: GROUPS, deactivateMissing: true, now: NOW });
+    expect(reimported.errors).toEqual([]);
+    expect(reimported.counts.unchanged).toBe(4);
+  });
+
+  it('adopts members without an employee ID by email', () => {
+    const unkeyed = [member('u9', { email: 'ann@acme.com', name: 'Ann Lee', employeeId: '' })];
+    const result = plan([['E1', 'Ann Lee', 'ann@acme.com', 'Sales', 'Merchandiser', '2024-01-15', '', 'North Region', '']], unkeyed);
+    expect(result.changes[0]).toMatchObject({ employeeId: 'E1', actions: ['update'], after: { id: 'u9', employeeId: 'E1' } });
+    expect(findEmployeeIdConflict(MEMBERS, ' e2 ', 'e1')?.name).toBe('Bob Ray');
+    expect(findEmployeeIdConflict(MEMBERS, 'E2', 'e2')).toBeUndefined();
+  });
+
+  it('skips rows whose new manager is on a row with errors', () => {
+    const result = plan([
+      ['E4', 'Dan Fox', 'not-an-email', '', '', '', '', '', ''],
+      ['E5', 'Eve Orr', 'eve@acme.com', '', '', '', '', '', 'E4'],
+      ['E6', 'Fay Kim', 'fay@acme.com', '', '', '', '', '', 'E5'],
+      ['E7', 'Gus Lim', 'gus@acme.com', '', '', '', '', '', 'E2'],
+    ]);
+    expect(result.errors).toEqual([
+      { row: 2, field: 'E-Mail', error: '"not-an-email" is not an email address' },
+      { row: 3, field: 'Manager ID', error: 'Manager "E4" is not imported because row 2 has errors' },
+      { row: 4, field: 'Manager ID', error: 'Manager "E5" is not imported because row 3 has errors' },
+    ]);
+    expect(result.changes.map(change => change.employeeId)).toEqual(['E7']);
+  });
+
+  it('saves creates before updates and points members at their new managers', async () => {
+    const result = plan([
+      ['E2', 'Bob Ray', 'bob@acme.com', 'Sales', 'Senior Merchandiser', '2024-01-15', '', 'North Region', 'E5'],
+      ['E4', 'Dan Fox', 'dan@acme.com', 'Sales', 'Merchandiser', '2025-06-01', '', '', 'E5'],
+      ['E5', 'Eve Orr', 'eve@acme.com', 'Sales', 'Team Lead', '2023-03-01', 'leader', '', ''],
+    ]);
+    const calls: string[] = [];
+    const users = {
+      create: jest.fn(async (input: any) => {
+        calls.push(`create ${input.employeeId}`);
+        return { id: `srv-${input.employeeId}` };
+      }),
+      update: jest.fn(async (id: string) => { calls.push(`update ${id}`); }),
+    };
+
+    await expect(saveMemberImportPlan(result, users)).resolves.toEqual({ saved: 3, failures: [] });
+    expect(calls).toEqual(['create E4', 'create E5', 'update e2', 'update srv-E4']);
+    expect(users.create.mock.calls[0][0]).toMatchObject({ email: 'dan@acme.com', hireDate: '2025-06-01', groups: [] });
+    expect(users.create.mock.calls[0][0]).not.toHaveProperty('managerId');
+    // Existing members only get their changed fields
+    expect(users.update).toHaveBeenCalledWith('e2', { position: 'Senior Merchandiser', managerId: 'srv-E5' });
+    expect(users.update).toHaveBeenCalledWith('srv-E4', { managerId: 'srv-E5' });
+  });
+
+  it('reports members the server rejects and saves the rest', async () => {
+    const result = plan([
+      ['E2', 'Bob Ray', 'bob@acme.com', 'Sales', 'Merchandiser', '2024-01-15', '', 'North Region', 'E5'],
+      ['E5', 'Eve Orr', 'eve@acme.com', '', '', '', '', '', ''],
+      ['E6', 'Fay Kim', 'fay@acme.com', '', '', '', '', '', ''],
+    ]);
+    const users = {
+      create: jest.fn(async (input: any) => {
+        if (input.employeeId === 'E5') throw new Error('Email or employee ID is already in use');
+        return { id: `srv-${input.employeeId}` };
+      }),
+      update: jest.fn(async () => undefined),
+    };
+
+    await expect(saveMemberImportPlan(result, users)).resolves.toEqual({
+      saved: 1,
+      failures: [
+        { employeeId: 'E5', error: 'Email or employee ID is already in use' },
+        { employeeId: 'E2', error: 'Manager E5 could not be created' },
+      ],
+    });
+    expect(users.update).not.toHaveBeenCalled();
+  });
+
+  it('reads server users and removes the roster earlier versions kept', () => {
+    expect(memberFromServerUser({ id: 17, email: 'lee@acme.com', name: 'Lee', role: 'leader', employeeId: 'E9', groups: null }))
+      .toMatchObject({ id: '17', userId: '17', employeeId: 'E9', isLeader: true, isAdmin: false, groups: [], status: 'active' });
+
+    const storage = { removeItem: jest.fn() };
+    discardImportedRoster(storage);
+    expect(storage.removeItem).toHaveBeenCalledWith('memberImportRoster');
+  });
+});
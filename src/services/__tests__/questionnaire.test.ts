@@ -0,0 +1,214 @@
+/**
+ * Questionnaire Runtime Unit Tests
+ *
+ * Tests for the AdvancedTodo questionnaire runtime including:
+ * - show / hide / require / skip conditional logic
+ * - Answer validation for text, numeric, choice, rating and matrix questions
+ * - Building TodoResponse records
+ * - Design-time reference and question type checks
+ */
+
+import {
+  buildTodoResponses,
+  getQuestionStates,
+  validateAnswer,
+  validateQuestionnaireAnswers,
+  validateQuestionnaireDesign
+} from '../questionnaire';
+import { QuestionType, TodoQuestion } from '../../types';
+
+const question = (id: string, order: number, type: QuestionType, extra: Partial<TodoQuestion> = {}): TodoQuestion => ({
+  id,
+  type,
+  title: `Question ${id}`,
+  required: false,
+  order,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  ...extra,
+});
+
+const options = (...values: string[]) => values.map(value => ({ id: value, label: value, value }));
+
+// Display present? -> (yes) rating + photo, (no) reason; low rating requires a comment
+const displayForm: TodoQuestion[] = [
+  question('present', 1, QuestionType.YES_NO, { required: true }),
+  question('rating', 2, QuestionType.RATING_SCALE, {
+    required: true,
+    ratingScale: { min: 1, max: 5 },
+    conditionalLogic: [{ questionId: 'present', operator: 'equals', value: true, action: 'show' }],
+  }),
+  question('reason', 3, QuestionType.SINGLE_CHOICE, {
+    options: options('not_delivered', 'removed', 'no_space'),
+    conditionalLogic: [
+      { questionId: 'present', operator: 'equals', value: 'yes', action: 'hide' },
+      { questionId: 'present', operator: 'equals', value: false, action: 'require' },
+    ],
+  }),
+  question('comment', 4, QuestionType.TEXTAREA_ANSWER, {
+    validation: { minLength: 10 },
+    conditionalLogic: [{ questionId: 'rating', operator: 'less_than', value: 3, action: 'require' }],
+  }),
+  question('competitor', 5, QuestionType.TEXT_ANSWER, {
+    required: true,
+    conditionalLogic: [{ questionId: 'reason', operator: 'equals', value: 'no_space', action: 'skip' }],
+  }),
+];
+
+describe('Questionnaire Runtime', () => {
+  describe('conditional logic', () => {
+    it('shows and hides questions from earlier answers', () => {
+      const yes = getQuestionStates(displayForm, { present: true });
+      expect(yes.rating.visible).toBe(true);
+      expect(yes.reason.visible).toBe(false);
+
+      const no = getQuestionStates(displayForm, { present: false });
+      expect(no.rating.visible).toBe(false);
+      expect(no.reason).toEqual({ visible: true, required: true, skipped: false });
+    });
+
+    it('requires a question while a require rule matches', () => {
+      expect(getQuestionStates(displayForm, { present: true, rating: 2 }).comment.required).toBe(true);
+      expect(getQuestionStates(displayForm, { present: true, rating: 4 }).comment.required).toBe(false);
+    });
+
+    it('ignores rules whose source question is hidden', () => {
+      // A low rating left over from before the display disappeared no longer counts
+      expect(getQuestionStates(displayForm, { present: false, rating: 1 }).comment.required).toBe(false);
+    });
+
+    it('skips questions without validating them', () => {
+      const answers = { present: false, reason: 'no_space' };
+      const result = validateQuestionnaireAnswers(displayForm, answers);
+
+      expect(result.states.competitor.skipped).toBe(true);
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('validation', () => {
+    it('reports missing required answers', () => {
+      const result = validateQuestionnaireAnswers(displayForm, { present: true });
+      expect(Object.keys(result.errors).sort()).toEqual(['competitor', 'rating']);
+    });
+
+    it('checks text length and patterns', () => {
+      const code = question('code', 1, QuestionType.TEXT_ANSWER, {
+        validation: { pattern: '^[A-Z]{3}-\\d{3}$', customValidation: 'Use the format ABC-123', maxLength: 7 },
+      });
+      expect(validateAnswer(code, 'ABC-123')).toEqual([]);
+      expect(validateAnswer(code, 'abc-12')).toEqual(['Use the format ABC-123']);
+      expect(validateAnswer(displayForm[3], 'Too short')).toEqual(['Enter at least 10 characters']);
+    });
+
+    it('checks numeric ranges and rating steps', () => {
+      const count = question('count', 1, QuestionType.NUMBER_INPUT, { validation: { minValue: 0, maxValue: 500 } });
+      const rating = question('rating', 2, QuestionType.RATING_SCALE, { ratingScale: { min: 0, max: 10, step: 2 } });
+
+      expect(validateAnswer(count, -1)).toEqual(['Value must be at least 0']);
+      expect(validateAnswer(count, 'lots')).toEqual(['Enter a number']);
+      expect(validateAnswer(rating, 6)).toEqual([]);
+      expect(validateAnswer(rating, 7)).toEqual(['Rating must be in steps of 2']);
+      expect(validateAnswer(rating, 12)).toEqual(['Rating must be at most 10']);
+    });
+
+    it('checks choice options and selection counts', () => {
+      const shelves = question('shelves', 1, QuestionType.MULTIPLE_CHOICE, {
+        options: options('top', 'eye', 'bottom'),
+        validation: { minValue: 2 },
+      });
+      expect(validateAnswer(shelves, ['top'])).toEqual(['Select at least 2']);
+      expect(validateAnswer(shelves, ['top', 'roof'])).toEqual(['Select one of the listed options']);
+      expect(validateAnswer(shelves, ['top', 'eye'])).toEqual([]);
+    });
+
+    it('checks every matrix row', () => {
+      const grid = question('grid', 1, QuestionType.MATRIX, {
+        required: true,
+        matrix: {
+          rows: [{ id: 'cola', label: 'Cola', value: 'cola' }, { id: 'water', label: 'Water', value: 'water' }],
+          columns: options('ok', 'low', 'oos'),
+        },
+      });
+      expect(validateAnswer(grid, { cola: 'ok' })).toEqual(['Answer "Water"']);
+      expect(validateAnswer(grid, { cola: 'ok', water: ['low', 'oos'] })).toEqual(['Choose one answer for "Water"']);
+      expect(validateAnswer(grid, { cola: 'ok', water: 'oos' })).toEqual([]);
+    });
+  });
+
+  describe('buildTodoResponses', () => {
+    it('drops answers to hidden and skipped questions', () => {
+      const answers = { present: false, rating: 4, reason: 'no_space', competitor: 'Brand X' };
+      const responses = buildTodoResponses('todo-1', 'user-1', displayForm, answers, new Date('2025-01-16T10:00:00Z'));
+
+      expect(responses.map(response => response.questionId)).toEqual(['present', 'reason']);
+      expect(responses[0]).toMatchObject({ todoId: 'todo-1', userId: 'user-1', answer: false });
+    });
+  });
+
+  describe('validateQuestionnaireDesign', () => {
+    it('accepts a consistent form', () => {
+      expect(validateQuestionnaireDesign(displayForm)).toEqual([]);
+    });
+
+    it('finds missing, self and circular references', () => {
+      const issues = validateQuestionnaireDesign([
+        question('a', 1, QuestionType.YES_NO, {
+          conditionalLogic: [{ questionId: 'b', operator: 'equals', value: true, action: 'show' }],
+        }),
+        question('b', 2, QuestionType.YES_NO, {
+          conditionalLogic: [{ questionId: 'a', operator: 'equals', value: true, action: 'show' }],
+        }),
+        question('c', 3, QuestionType.TEXT_ANSWER, {
+          conditionalLogic: [
+            { questionId: 'c', operator: 'equals', value: 'x', action: 'require' },
+            { questionId: 'gone', operator: 'equals', value: 'x', action: 'hide' },
+          ],
+        }),
+      ]);
+      const codes = issues.map(issue => `${issue.questionId}:${issue.code}`);
+
+      expect(codes).toContain('c:self_reference');
+      expect(codes).toContain('c:missing_reference');
+      expect(issues.filter(issue => issue.code === 'circular_reference')).toHaveLength(1);
+      expect(codes).toEqual(expect.arrayContaining(['a:unreachable', 'b:unreachable']));
+    });
+
+    it('flags conditions that can never match and the questions they strand', () => {
+      const issues = validateQuestionnaireDesign([
+        question('reason', 1, QuestionType.SINGLE_CHOICE, { options: options('removed', 'no_space') }),
+        question('detail', 2, QuestionType.TEXT_ANSWER, {
+          conditionalLogic: [{ questionId: 'reason', operator: 'equals', value: 'broken', action: 'show' }],
+        }),
+        question('photo', 3, QuestionType.PHOTO_UPLOAD, {
+          conditionalLogic: [{ questionId: 'detail', operator: 'contains', value: 'damage', action: 'show' }],
+        }),
+      ]);
+
+      expect(issues.map(issue => `${issue.questionId}:${issue.code}`)).toEqual([
+        'detail:impossible_condition', 'detail:unreachable', 'photo:unreachable',
+      ]);
+    });
+
+    it('warns about rules that depend on later questions', () => {
+      const issues = validateQuestionnaireDesign([
+        question('early', 1, QuestionType.TEXT_ANSWER, {
+          conditionalLogic: [{ questionId: 'late', operator: 'greater_than', value: 3, action: 'require' }],
+        }),
+        question('late', 2, QuestionType.NUMBER_INPUT),
+      ]);
+      expect(issues).toEqual([expect.objectContaining({ code: 'forward_reference', severity: 'warning' })]);
+    });
+
+    it('rejects question types that have no input', () => {
+      const issues = validateQuestionnaireDesign([
+        question('display', 1, QuestionType.DISPLAY_EVALUATION),
+        question('shelf', 2, QuestionType.SHELF_SHARE),
+      ]);
+      expect(issues).toEqual([expect.objectContaining({ questionId: 'display', code: 'unsupported_type', severity: 'error' })]);
+      expect(validateAnswer(question('display', 1, QuestionType.DISPLAY_EVALUATION), { notes: 'ok' })).toEqual([
+        'This question type cannot be answered yet',
+      ]);
+    });
+  });
+});
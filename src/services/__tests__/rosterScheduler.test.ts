@@ -0,0 +1,147 @@
+/**
+ * Roster Auto-Scheduler Unit Tests
+ *
+ * Tests for weekly roster generation including:
+ * - Coverage per workplace and template
+ * - Leave, days off and availability windows
+ * - Maximum weekly hours and rest between shifts
+ * - Explanations for unfilled slots
+ * - Violations in existing shifts
+ */
+
+import { findRosterViolations, generateRoster, getShiftHours, RosterInput } from '../rosterScheduler';
+import { EmployeeSchedule, LeaveRequest, RosterEmployee, Shift, ShiftTemplate } from '../../types';
+
+const templates: ShiftTemplate[] = [
+  { id: 'morning', name: 'Morning Shift', startTime: '09:00', endTime: '17:00', type: 'regular', color: '#3B82F6' },
+  { id: 'night', name: 'Night Shift', startTime: '22:00', endTime: '06:00', type: 'night', color: '#8B5CF6' },
+];
+
+const employee = (userId: string, workplaceIds: string[] = ['gangnam'], maxWeeklyHours = 40): RosterEmployee =>
+  ({ userId, name: `Employee ${userId}`, workplaceIds, maxWeeklyHours });
+
+const leave = (userId: string, startDate: string, endDate: string, status: LeaveRequest['status'] = 'approved'): LeaveRequest => ({
+  id: `leave-${userId}`,
+  userId,
+  type: { id: 'vacation', name: 'Vacation', maxDays: 15, color: '#000', requiresApproval: true },
+  startDate,
+  endDate,
+  reason: 'Holiday',
+  status,
+});
+
+const schedule = (userId: string, date: string, isWorkDay: boolean, startTime = '00:00', endTime = '23:59'): EmployeeSchedule => ({
+  id: `${userId}-${date}`,
+  userId,
+  date,
+  startTime,
+  endTime,
+  isWorkDay,
+  createdBy: 'admin',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+const shift = (id: string, userId: string, date: string, startTime: string, endTime: string, workplaceId = 'gangnam'): Shift =>
+  ({ id, userId, date, startTime, endTime, type: 'regular', status: 'scheduled', workplaceId });
+
+// Monday 15 January 2024
+const base: RosterInput = {
+  weekStart: '2024-01-15',
+  templates,
+  coverage: [{ workplaceId: 'gangnam', templateId: 'morning', daysOfWeek: [1, 2, 3], headcount: 1 }],
+  employees: [employee('a'), employee('b')],
+  workplaces: [{ id: 'gangnam', name: 'Gangnam Store' }],
+};
+
+describe('Roster Auto-Scheduler', () => {
+  it('measures overnight shifts', () => {
+    expect(getShiftHours({ date: '2024-01-15', startTime: '22:00', endTime: '06:00' })).toBe(8);
+  });
+
+  it('fills each required slot and spreads hours', () => {
+    const result = generateRoster(base);
+
+    expect(result.shifts.map(s => `${s.date}:${s.userId}`)).toEqual(['2024-01-15:a', '2024-01-16:b', '2024-01-17:a']);
+    expect(result.shifts[0]).toMatchObject({ workplaceId: 'gangnam', templateId: 'morning', startTime: '09:00', status: 'scheduled' });
+    expect(result.hoursByEmployee).toEqual({ a: 16, b: 8 });
+    expect(result.unfilled).toEqual([]);
+  });
+
+  it('only rosters employees at their workplaces', () => {
+    const result = generateRoster({ ...base, employees: [employee('a', ['mapo']), employee('b')] });
+    expect(new Set(result.shifts.map(s => s.userId))).toEqual(new Set(['b']));
+  });
+
+  it('respects approved leave, days off and available hours', () => {
+    const result = generateRoster({
+      ...base,
+      employees: [employee('a'), employee('b'), employee('c')],
+      leaveRequests: [leave('a', '2024-01-15', '2024-01-17'), leave('b', '2024-01-15', '2024-01-15', 'pending')],
+      availability: [schedule('b', '2024-01-16', false), schedule('c', '2024-01-15', true, '12:00', '20:00')],
+    });
+
+    expect(result.shifts.map(s => `${s.date}:${s.userId}`)).toEqual(['2024-01-15:b', '2024-01-16:c', '2024-01-17:b']);
+  });
+
+  it('keeps weekly hours and rest periods', () => {
+    const result = generateRoster({
+      ...base,
+      coverage: [
+        { workplaceId: 'gangnam', templateId: 'night', daysOfWeek: [1], headcount: 1 },
+        { workplaceId: 'gangnam', templateId: 'morning', daysOfWeek: [2, 3, 4], headcount: 1 },
+      ],
+      employees: [employee('a', ['gangnam'], 16)],
+    });
+
+    // Night Monday ends 06:00 Tuesday: too little rest for Tuesday morning, and 16h runs out after Wednesday
+    expect(result.shifts.map(s => `${s.date}:${s.templateId}`)).toEqual(['2024-01-15:night', '2024-01-17:morning']);
+    expect(result.unfilled.map(slot => [slot.date, slot.blockers])).toEqual([
+      ['2024-01-16', { rest_period: ['a'] }],
+      ['2024-01-18', { max_hours: ['a'] }],
+    ]);
+  });
+
+  it('explains every unfilled slot', () => {
+    const result = generateRoster({
+      ...base,
+      coverage: [{ workplaceId: 'gangnam', templateId: 'morning', daysOfWeek: [1], headcount: 3 }],
+      employees: [employee('a'), employee('b'), employee('c', ['mapo'])],
+      leaveRequests: [leave('b', '2024-01-15', '2024-01-15')],
+    });
+
+    expect(result.unfilled).toEqual([expect.objectContaining({
+      date: '2024-01-15',
+      required: 3,
+      filled: 1,
+      blockers: { not_eligible: ['c'], on_leave: ['b'] },
+      message: 'Morning Shift at Gangnam Store on 2024-01-15: 2 of 3 unfilled - 1 not assigned to this workplace, 1 on approved leave',
+    })]);
+  });
+
+  it('counts existing shifts towards coverage', () => {
+    const result = generateRoster({ ...base, shifts: [shift('s1', 'b', '2024-01-15', '09:00', '17:00')] });
+
+    expect(result.shifts.map(s => `${s.date}:${s.userId}`)).toEqual(['2024-01-16:a', '2024-01-17:a']);
+    expect(result.hoursByEmployee).toEqual({ a: 16, b: 8 });
+  });
+
+  it('reports rule violations in existing shifts', () => {
+    const violations = findRosterViolations({
+      ...base,
+      employees: [employee('a', ['gangnam'], 16)],
+      leaveRequests: [leave('a', '2024-01-19', '2024-01-19')],
+      shifts: [
+        shift('s1', 'a', '2024-01-15', '09:00', '17:00'),
+        shift('s2', 'a', '2024-01-15', '16:00', '20:00'),
+        shift('s3', 'a', '2024-01-16', '02:00', '06:00'),
+        shift('s4', 'a', '2024-01-19', '09:00', '17:00', 'mapo'),
+      ],
+    });
+
+    expect(violations.map(v => `${v.shiftId}:${v.rule}`)).toEqual([
+      's2:overlap', 's3:rest_period', 's4:not_eligible', 's4:max_hours',
+    ]);
+    expect(violations[3].message).toBe('Employee a 2024-01-19 09:00-17:00: 24h rostered, maximum is 16h');
+  });
+});
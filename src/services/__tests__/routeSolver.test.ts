@@ -0,0 +1,179 @@
+/**
+ * Route Solver Unit Tests
+ *
+ * Tests for the multi-vehicle route solver including:
+ * - Distance and time helpers
+ * - Time window and shift feasibility
+ * - Workload balancing across merchandisers
+ * - Journey plan adapters
+ */
+
+import {
+  calculateDistanceKm,
+  formatTimeOfDay,
+  measureJourneyPlan,
+  optimizeJourneyPlan,
+  parseStopPriority,
+  parseTimeOfDay,
+  solveRoutes
+} from '../routeSolver';
+import { JourneyPlan, RouteStop, RouteVehicle } from '../../types';
+
+const stop = (id: string, lat: number, lng: number, extra: Partial<RouteStop> = {}): RouteStop => ({
+  id,
+  name: `Store ${id}`,
+  location: { lat, lng },
+  visitDuration: 30,
+  ...extra,
+});
+
+const vehicle = (id: string, extra: Partial<RouteVehicle> = {}): RouteVehicle => ({
+  id,
+  name: `Merchandiser ${id}`,
+  shiftStart: '08:00',
+  shiftEnd: '17:00',
+  ...extra,
+});
+
+describe('Route Solver', () => {
+  describe('helpers', () => {
+    it('calculates great-circle distances', () => {
+      // Berlin to Munich is roughly 504 km in a straight line
+      const distance = calculateDistanceKm({ lat: 52.52, lng: 13.405 }, { lat: 48.1351, lng: 11.582 });
+      expect(distance).toBeGreaterThan(495);
+      expect(distance).toBeLessThan(510);
+    });
+
+    it('parses and formats times of day', () => {
+      expect(parseTimeOfDay('09:30')).toBe(570);
+      expect(formatTimeOfDay(570)).toBe('09:30');
+      expect(formatTimeOfDay(parseTimeOfDay('00:05'))).toBe('00:05');
+    });
+
+    it('reads priority labels and leaves unknown ones unset', () => {
+      expect(parseStopPriority(' High ')).toBe('high');
+      expect(parseStopPriority('low')).toBe('low');
+      expect(parseStopPriority('Urgent')).toBeUndefined();
+      expect(parseStopPriority('toString')).toBeUndefined();
+    });
+  });
+
+  describe('solveRoutes', () => {
+    it('visits a line of stops in order instead of zig-zagging', () => {
+      const stops = [
+        stop('c', 52.0, 8.2),
+        stop('a', 52.0, 8.0),
+        stop('d', 52.0, 8.3),
+        stop('b', 52.0, 8.1),
+      ];
+      const solution = solveRoutes(stops, [vehicle('v1', {
+        startLocation: { lat: 52.0, lng: 7.9 },
+        endLocation: { lat: 52.0, lng: 8.4 },
+      })]);
+
+      expect(solution.unassigned).toEqual([]);
+      expect(solution.routes[0].stops.map(s => s.stopId)).toEqual(['a', 'b', 'c', 'd']);
+      expect(solution.routes[0].serviceMinutes).toBe(120);
+    });
+
+    it('assigns every stop exactly once across vehicles', () => {
+      const stops = Array.from({ length: 12 }, (_, i) =>
+        stop(`s${i}`, 50 + (i % 4) * 0.05, 8 + Math.floor(i / 4) * 0.05)
+      );
+      const solution = solveRoutes(stops, [vehicle('v1'), vehicle('v2'), vehicle('v3')]);
+
+      const placed = solution.routes.flatMap(route => route.stops.map(s => s.stopId));
+      expect(placed.sort()).toEqual(stops.map(s => s.id).sort());
+      expect(solution.unassigned).toEqual([]);
+    });
+
+    it('balances workload between merchandisers', () => {
+      const stops = Array.from({ length: 8 }, (_, i) =>
+        stop(`s${i}`, 52 + i * 0.01, 8, { visitDuration: 60 })
+      );
+      const solution = solveRoutes(stops, [vehicle('v1'), vehicle('v2')], { balanceWeight: 1 });
+
+      expect(solution.routes.every(route => route.stops.length > 0)).toBe(true);
+      expect(solution.workloadSpread).toBeLessThan(90);
+    });
+
+    it('respects time windows and waits for a store to open', () => {
+      const stops = [
+        stop('early', 52.0, 8.0, { timeWindow: { start: '08:00', end: '09:00' } }),
+        stop('late', 52.0, 8.01, { timeWindow: { start: '11:00', end: '12:00' } }),
+      ];
+      const solution = solveRoutes(stops, [vehicle('v1')]);
+      const [first, second] = solution.routes[0].stops;
+
+      expect(first.stopId).toBe('early');
+      expect(second.stopId).toBe('late');
+      expect(second.startTime).toBe('11:00');
+      expect(second.waitMinutes).toBeGreaterThan(0);
+    });
+
+    it('reports stops that cannot fit any route', () => {
+      const stops = [
+        stop('tight', 52.0, 8.0, { visitDuration: 90, timeWindow: { start: '10:00', end: '11:00' } }),
+        stop('long', 52.0, 8.0, { visitDuration: 600 }),
+      ];
+      const solution = solveRoutes(stops, [vehicle('v1')]);
+
+      expect(solution.unassigned.map(u => u.stopId).sort()).toEqual(['long', 'tight']);
+      expect(solution.unassigned.find(u => u.stopId === 'tight')!.reason).toMatch(/window/);
+      expect(solution.unassigned.find(u => u.stopId === 'long')!.reason).toMatch(/longer than any shift/);
+    });
+
+    it('includes the return trip to the end location', () => {
+      const home = { lat: 52.0, lng: 8.0 };
+      const solution = solveRoutes([stop('a', 52.0, 8.1)], [vehicle('v1', { startLocation: home })]);
+      const outbound = solution.routes[0].stops[0].travelDistance;
+
+      expect(solution.routes[0].totalDistance).toBeCloseTo(outbound * 2, 0);
+    });
+
+    it('is deterministic', () => {
+      const stops = Array.from({ length: 10 }, (_, i) => stop(`s${i}`, 51 + (i * 7 % 10) * 0.02, 9 + (i * 3 % 10) * 0.02));
+      const vehicles = [vehicle('v1'), vehicle('v2')];
+
+      expect(solveRoutes(stops, vehicles)).toEqual(solveRoutes(stops, vehicles));
+    });
+  });
+
+  describe('journey plan adapters', () => {
+    const plan: JourneyPlan = {
+      id: 'jp1',
+      title: 'Test Route',
+      employeeId: 'emp1',
+      date: '2025-01-16',
+      startTime: '09:00',
+      endTime: '17:00',
+      locations: [
+        { id: 'l1', name: 'West', address: '', latitude: 52.0, longitude: 8.0, estimatedDuration: 30, priority: 'medium' },
+        { id: 'l3', name: 'East', address: '', latitude: 52.0, longitude: 8.2, estimatedDuration: 30, priority: 'medium' },
+        { id: 'l2', name: 'Middle', address: '', latitude: 52.0, longitude: 8.1, estimatedDuration: 30, priority: 'medium' },
+      ],
+      status: 'pending',
+      totalDistance: 0,
+      estimatedDuration: 0,
+      createdBy: 'admin',
+      createdAt: '2025-01-15T00:00:00Z',
+      updatedAt: '2025-01-15T00:00:00Z',
+    };
+
+    it('measures distance and duration for the current order', () => {
+      const measured = measureJourneyPlan(plan);
+
+      expect(measured.totalDistance).toBeGreaterThan(0);
+      expect(measured.estimatedDuration).toBeGreaterThan(90);
+      expect(measured.locations.map(l => l.id)).toEqual(['l1', 'l3', 'l2']);
+    });
+
+    it('reorders locations and shortens the plan', () => {
+      const { plan: optimized } = optimizeJourneyPlan(plan);
+
+      expect(optimized.totalDistance).toBeLessThan(measureJourneyPlan(plan).totalDistance);
+      expect(optimized.locations).toHaveLength(3);
+      expect(optimized.locations[1].id).toBe('l2');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Sales Target Unit Tests
+ *
+ * Tests for sales target tracking including:
+ * - Guessing and checking the sell-out column mapping
+ * - Row validation errors and replacing re-imported rows
+ * - Achievement, run-rate projection and status
+ * - Leaderboards by area, distributor and merchandiser
+ */
+
+import {
+  createSellOutImport,
+  getSalesLeaderboard,
+  getTargetProgress,
+  guessSellOutMapping,
+  mergeSellOut,
+  parseSellOutRows,
+  SalesTargetError,
+  validateSellOutMapping
+} from '../salesTargets';
+import { SalesTarget, SellOutRecord } from '../../types';
+
+const target = (overrides: Partial<SalesTarget>): SalesTarget => ({
+  id: 't1',
+  workplaceId: 'w1',
+  workplaceName: 'Store 1',
+  workplaceCode: '20311',
+  areaName: 'North',
+  distributorName: 'MediaMarkt',
+  assignedTo: 'John Doe',
+  targetAmount: 10000,
+  period: 'Oct 2025',
+  startDate: '2025-10-01',
+  endDate: '2025-10-31',
+  createdAt: '2025-09-01T00:00:00Z',
+  updatedAt: '2025-09-01T00:00:00Z',
+  ...overrides,
+});
+
+const sale = (date: string, workplaceCode: string, amount: number, sku = 'TV-55'): SellOutRecord =>
+  ({ date, workplaceCode, sku, quantity: 1, amount });
+
+describe('Sales targets', () => {
+  describe('import', () => {
+    const headers = ['Datum', 'Filiale', 'Artikel', 'Menge', 'Umsatz', 'Kommentar'];
+
+    it('guesses the mapping from common header names and checks it', () => {
+      const mapping = guessSellOutMapping(headers);
+      expect(mapping).toEqual({ date: 'Datum', workplaceCode: 'Filiale', sku: 'Artikel', quantity: 'Menge', amount: 'Umsatz' });
+      expect(validateSellOutMapping(mapping, headers)).toEqual([]);
+
+      expect(validateSellOutMapping({ date: 'Datum', workplaceCode: 'Datum', amount: 'Total' }, headers)).toEqual([
+        'Column "Datum" is mapped to both date and workplace code',
+        'Choose the column that holds sku',
+        'Column "Total" is not in the file',
+      ]);
+    });
+
+    it('reports errors per spreadsheet row and keeps the valid rows', () => {
+      const rows = [
+        headers,
+        ['01.10.2025', '20311', 'TV-55', '2', '1.998,00', ''],
+        ['02.10.2025', '99999', 'TV-55', '1', '999', ''],
+        ['', '20311', '', '1.5', 'lots', ''],
+        ['01.10.2025', '20311', 'TV-55', '1', '999', 'again'],
+        ['01.11.2030', '15235', 'SB-1', '', '10', ''],
+      ];
+      const result = parseSellOutRows(rows, guessSellOutMapping(headers), {
+        workplaceCodes: ['20311', '15235'], importId: 'imp-1', today: '2025-10-18',
+      });
+
+      expect(result.records).toEqual([{ date: '2025-10-01', workplaceCode: '20311', sku: 'TV-55', quantity: 2, amount: 1998, importId: 'imp-1' }]);
+      expect(result.errors).toEqual([
+        { row: 3, field: 'Filiale', error: 'Unknown workplace code "99999"' },
+        { row: 4, field: 'Datum', error: 'Date is missing' },
+        { row: 4, field: 'Artikel', error: 'SKU is missing' },
+        { row: 4, field: 'Menge', error: '"1.5" is not a whole number of units' },
+        { row: 4, field: 'Umsatz', error: '"lots" is not a number' },
+        { row: 5, field: 'Artikel', error: 'Same date, workplace and SKU as row 2' },
+        { row: 6, field: 'Datum', error: 'Date is in the future' },
+      ]);
+
+      const summary = createSellOutImport('imp-1', 'october.csv', {}, result, 'admin', new Date('2025-10-18T08:00:00Z'));
+      expect(summary).toMatchObject({ totalRows: 5, processedRows: 1, failedRows: 4, status: 'completed' });
+    });
+
+    it('refuses files it cannot map', () => {
+      expect(() => parseSellOutRows([], {}, { workplaceCodes: [] })).toThrow('The file is empty');
+      expect(() => parseSellOutRows([['a', 'b']], {}, { workplaceCodes: [] })).toThrow(SalesTargetError);
+    });
+
+    it('replaces figures when the same day is imported again', () => {
+      const merged = mergeSellOut(
+        [sale('2025-10-02', '20311', 100), sale('2025-10-01', '20311', 50)],
+        [sale('2025-10-02', '20311', 120), sale('2025-10-02', '20311', 30, 'SB-1')]
+      );
+      expect(merged.map(record => [record.date, record.sku, record.amount])).toEqual([
+        ['2025-10-01', 'TV-55', 50],
+        ['2025-10-02', 'TV-55', 120],
+        ['2025-10-02', 'SB-1', 30],
+      ]);
+    });
+  });
+
+  describe('progress', () => {
+    const records = [
+      sale('2025-09-30', '20311', 5000),
+      sale('2025-10-01', '20311', 2000),
+      sale('2025-10-10', '20311', 1000),
+      sale('2025-10-10', '15235', 9000),
+      sale('2025-10-20', '20311', 9000),
+    ];
+
+    it('projects the run-rate to the period end', () => {
+      expect(getTargetProgress(target({}), records, '2025-10-10')).toEqual({
+        targetId: 't1',
+        achievedAmount: 3000,
+        achievementPercentage: 30,
+        elapsedDays: 10,
+        totalDays: 31,
+        dailyRunRate: 300,
+        projectedAmount: 9300,
+        projectedPercentage: 93,
+        status: 'at-risk',
+      });
+      expect(getTargetProgress(target({ targetAmount: 9000 }), records, '2025-10-10').status).toBe('in-progress');
+    });
+
+    it('marks targets achieved, not started, and stops counting at period end', () => {
+      expect(getTargetProgress(target({}), records, '2025-12-01')).toMatchObject({ achievedAmount: 12000, elapsedDays: 31, status: 'achieved' });
+      expect(getTargetProgress(target({}), records, '2025-09-30')).toMatchObject({ achievedAmount: 0, elapsedDays: 0, projectedAmount: 0, status: 'not-started' });
+    });
+  });
+
+  describe('leaderboards', () => {
+    it('ranks combined achievement by the chosen dimension', () => {
+      const targets = [
+        target({ id: 'a', workplaceCode: '1', areaName: 'North', assignedTo: 'Ann', targetAmount: 1000 }),
+        target({ id: 'b', workplaceCode: '2', areaName: 'North', assignedTo: 'Ben', targetAmount: 1000 }),
+        target({ id: 'c', workplaceCode: '3', areaName: 'South', assignedTo: 'Ann', targetAmount: 1000 }),
+      ];
+      const records = [sale('2025-10-05', '1', 900), sale('2025-10-05', '2', 100), sale('2025-10-05', '3', 700)];
+
+      expect(getSalesLeaderboard(targets, records, 'area', '2025-10-31').map(({ rank, name, achievementPercentage }) => [rank, name, achievementPercentage])).toEqual([
+        [1, 'South', 70],
+        [2, 'North', 50],
+      ]);
+      expect(getSalesLeaderboard(targets, records, 'merchandiser', '2025-10-31')[0]).toMatchObject({
+        name: 'Ann', targetCount: 2, targetAmount: 2000, achievedAmount: 1600, achievementPercentage: 80, projectedPercentage: 80,
+      });
+      expect(getSalesLeaderboard(targets, records, 'distributor', '2025-10-31')).toHaveLength(1);
+    });
+  });
+});
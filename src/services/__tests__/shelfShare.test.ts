@@ -0,0 +1,178 @@
+/**
+ * Shelf Share Measurement Unit Tests
+ *
+ * Tests for planogram / share-of-shelf measurement including:
+ * - Facing and linear share per brand
+ * - Out-of-stock, short and empty-slot gaps
+ * - Misplaced SKUs and compliance scoring
+ * - Photo markup capture
+ * - Storing results on TodoResponse
+ */
+
+import {
+  calculateShelfShare,
+  facingsFromPhotoBoxes,
+  validateShelfMeasurement
+} from '../shelfShare';
+import { buildTodoResponses } from '../questionnaire';
+import { DisplayEvaluationConfig, PlanogramTarget, QuestionType, ShelfMeasurement, TodoQuestion } from '../../types';
+
+const planogram: PlanogramTarget = {
+  id: 'pg-cola',
+  name: 'Cola bay',
+  shelfCount: 3,
+  products: [
+    { sku: 'COLA-1L', name: 'Cola 1L', brand: 'FizzCo', widthCm: 10 },
+    { sku: 'COLA-330', name: 'Cola 330ml', brand: 'FizzCo', widthCm: 6 },
+    { sku: 'LEMON-1L', name: 'Lemon 1L', brand: 'FizzCo', widthCm: 10 },
+  ],
+  positions: [
+    { sku: 'COLA-1L', shelf: 2, facings: 4 },
+    { sku: 'COLA-330', shelf: 1, facings: 6 },
+    { sku: 'LEMON-1L', shelf: 3, facings: 2 },
+  ],
+};
+
+const config: Partial<DisplayEvaluationConfig> = { planogram, shareOfShelfTarget: 50, complianceThreshold: 80 };
+
+const facings = (entries: [string, number, number, string?][]): ShelfMeasurement => ({
+  method: 'facings',
+  facings: entries.map(([sku, shelf, count, brand]) => ({ sku, shelf, facings: count, brand })),
+});
+
+const NOW = new Date('2025-01-16T10:00:00Z');
+
+describe('Shelf Share', () => {
+  describe('calculateShelfShare', () => {
+    it('calculates facing and linear share per brand', () => {
+      const result = calculateShelfShare(facings([
+        ['COLA-1L', 2, 4],
+        ['COLA-330', 1, 6],
+        ['LEMON-1L', 3, 2],
+        ['RIVAL-1L', 2, 8, 'PopCorp'],
+      ]), config, NOW);
+
+      expect(result.totalFacings).toBe(20);
+      expect(result.shareByBrand.map(entry => [entry.brand, entry.share])).toEqual([['FizzCo', 60], ['PopCorp', 40]]);
+      // FizzCo: 4x10 + 6x6 + 2x10 = 96cm; PopCorp: 8 x average listed width (8.67) = 69.3cm
+      expect(result.shareByBrand.find(entry => entry.brand === 'FizzCo')!.linearShare).toBe(58.1);
+      expect(result.ownShare).toBe(60);
+      expect(result.complianceScore).toBe(100);
+      expect(result.isCompliant).toBe(true);
+      expect(result.calculatedAt).toBe(NOW.toISOString());
+    });
+
+    it('reports out-of-stock and short positions', () => {
+      const result = calculateShelfShare(facings([['COLA-1L', 2, 1], ['COLA-330', 1, 6]]), config, NOW);
+
+      expect(result.gaps).toEqual([
+        { sku: 'COLA-1L', shelf: 2, expectedFacings: 4, actualFacings: 1, type: 'short' },
+        { sku: 'LEMON-1L', shelf: 3, expectedFacings: 2, actualFacings: 0, type: 'out_of_stock' },
+      ]);
+      // 1 + 6 of 12 planned facings in place
+      expect(result.complianceScore).toBe(58.3);
+      expect(result.isCompliant).toBe(false);
+    });
+
+    it('flags SKUs on the wrong shelf without calling them out of stock', () => {
+      const result = calculateShelfShare(facings([['COLA-1L', 2, 4], ['COLA-330', 1, 6], ['LEMON-1L', 1, 2]]), config, NOW);
+
+      expect(result.misplaced).toEqual([{ sku: 'LEMON-1L', expectedShelf: 3, actualShelf: 1, facings: 2 }]);
+      expect(result.gaps).toEqual([expect.objectContaining({ sku: 'LEMON-1L', type: 'short' })]);
+    });
+
+    it('fails the share target even when the planogram is followed', () => {
+      const result = calculateShelfShare(facings([
+        ['COLA-1L', 2, 4], ['COLA-330', 1, 6], ['LEMON-1L', 3, 2], ['RIVAL-1L', 2, 20, 'PopCorp'],
+      ]), config, NOW);
+
+      expect(result.complianceScore).toBe(100);
+      expect(result.ownShare).toBe(37.5);
+      expect(result.isCompliant).toBe(false);
+    });
+
+    it('lists own-brand SKUs missing from the planogram', () => {
+      const result = calculateShelfShare(facings([['COLA-2L', 2, 2, 'FizzCo'], ['RIVAL-1L', 2, 2, 'PopCorp']]), config, NOW);
+      expect(result.unlistedSkus).toEqual(['COLA-2L']);
+    });
+  });
+
+  describe('photo markup', () => {
+    const box = (id: string, sku: string | null, shelf: number, x: number, width: number, brand?: string) =>
+      ({ id, sku, shelf, x, y: (shelf - 1) / 3, width, height: 0.3, brand });
+
+    const photo: ShelfMeasurement = {
+      method: 'photo',
+      facings: [],
+      photo: {
+        url: 'https://example.com/shelf.jpg',
+        boxes: [
+          box('b1', 'COLA-330', 1, 0, 0.1),
+          box('b2', 'COLA-330', 1, 0.1, 0.1),
+          box('b3', null, 1, 0.2, 0.1),
+          box('b4', 'RIVAL-1L', 2, 0, 0.3, 'PopCorp'),
+        ],
+      },
+    };
+
+    it('counts one facing per box', () => {
+      expect(facingsFromPhotoBoxes(photo.photo!.boxes)).toEqual([
+        { sku: 'COLA-330', brand: undefined, shelf: 1, facings: 2 },
+        { sku: 'RIVAL-1L', brand: 'PopCorp', shelf: 2, facings: 1 },
+      ]);
+    });
+
+    it('uses box widths for linear share and reports empty slots', () => {
+      const result = calculateShelfShare(photo, config, NOW);
+
+      expect(result.shareByBrand.find(entry => entry.brand === 'FizzCo')).toMatchObject({ facings: 2, linearShare: 40 });
+      expect(result.gaps).toContainEqual({ sku: null, shelf: 1, expectedFacings: 1, actualFacings: 0, type: 'empty_slot' });
+    });
+  });
+
+  describe('validateShelfMeasurement', () => {
+    it('checks counts, shelves, brands and box bounds', () => {
+      expect(validateShelfMeasurement(facings([['COLA-1L', 2, 4]]), planogram)).toEqual([]);
+      expect(validateShelfMeasurement(facings([['COLA-1L', 4, 1.5], ['RIVAL-1L', 1, 2]]), planogram)).toEqual([
+        'Facings for COLA-1L must be a whole number',
+        'Shelf 4 does not exist on this fixture',
+        'Add a brand for RIVAL-1L',
+      ]);
+      expect(validateShelfMeasurement({
+        method: 'photo',
+        facings: [],
+        photo: { url: 'shelf.jpg', boxes: [{ id: 'b1', sku: 'COLA-1L', shelf: 1, x: 0.9, y: 0, width: 0.2, height: 0.2 }] },
+      }, planogram)).toEqual(['A marked box lies outside the photo']);
+    });
+  });
+
+  describe('TodoResponse', () => {
+    it('stores the computed result with the answer', () => {
+      const question: TodoQuestion = {
+        id: 'shelf',
+        type: QuestionType.SHELF_SHARE,
+        title: 'Measure the cola bay',
+        required: true,
+        order: 1,
+        merchandisingConfig: {
+          displayEvaluation: {
+            displayTypes: [],
+            evaluationCriteria: [],
+            visualElements: [],
+            lightingAssessment: false,
+            trafficFlowAnalysis: false,
+            competitorComparison: true,
+            planogram,
+          },
+        },
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      };
+      const answer = facings([['COLA-1L', 2, 4], ['COLA-330', 1, 6]]);
+      const [response] = buildTodoResponses('todo-1', 'user-1', [question], { shelf: answer }, NOW);
+
+      expect(response.answer).toBe(answer);
+      expect(response.shelfShare).toMatchObject({ complianceScore: 83.3, ownShare: 100 });
+    });
+  });
+});
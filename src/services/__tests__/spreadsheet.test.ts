@@ -0,0 +1,96 @@
+/**
+ * Spreadsheet Reading Unit Tests
+ *
+ * Tests for reading uploaded sheets including:
+ * - CSV quoting and delimiter detection
+ * - XLSX shared strings, inline strings and sparse cells
+ * - Excel serial dates
+ */
+
+import { excelSerialToDate, parseCsv, readXlsx, SpreadsheetError } from '../spreadsheet';
+
+/**
+ * Zip archive with uncompressed (stored) entries; CRCs are not checked by the reader
+ */
+const storedZip = (files: Record<string, string>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = Array.from(encoder.encode(name));
+    const data = Array.from(encoder.encode(content));
+    const offset = local.length;
+    const sizes = [...u32(0), ...u32(data.length), ...u32(data.length)];
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(0), ...u32(0), ...sizes, ...u16(nameBytes.length), ...u16(0), ...nameBytes, ...data);
+    central.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(0), ...u32(0), ...sizes,
+      ...u16(nameBytes.length), ...u16(0), ...u16(0), ...u16(0), ...u16(0), ...u32(0), ...u32(offset), ...nameBytes);
+  });
+
+  const count = Object.keys(files).length;
+  const end = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(count), ...u16(count), ...u32(central.length), ...u32(local.length), ...u16(0)];
+  return new Uint8Array([...local, ...central, ...end]);
+};
+
+describe('Spreadsheet reading', () => {
+  describe('parseCsv', () => {
+    it('handles quotes, escaped quotes, CRLF and blank lines', () => {
+      const text = '\uFEFFstore,notes\r\n"20311","Says ""hi"", twice"\r\n\r\n15235,"two\nlines"\n';
+      expect(parseCsv(text)).toEqual([
+        ['store', 'notes'],
+        ['20311', 'Says "hi", twice'],
+        ['15235', 'two\nlines'],
+      ]);
+    });
+
+    it('detects semicolon and tab delimiters', () => {
+      expect(parseCsv('Datum;Umsatz\n01.10.2025;1.234,50')).toEqual([['Datum', 'Umsatz'], ['01.10.2025', '1.234,50']]);
+      expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('rejects an unterminated quote', () => {
+      expect(() => parseCsv('a,"b\n1,2')).toThrow(SpreadsheetError);
+    });
+  });
+
+  describe('readXlsx', () => {
+    const workbook = {
+      'xl/workbook.xml': '<workbook xmlns:r="r"><sheets><sheet name="Sell-out" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/data.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Date</t></si><si><t>Store</t></si><si><r><t>Rich</t></r><r><t> text</t></r></si></sst>',
+      'xl/worksheets/data.xml': `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Note</t></is></c></row>
+        <row r="2"><c r="B2" t="s"><v>2</v></c></row>
+        <row r="3"><c r="A3"/></row>
+        <row r="4"><c r="A4"><v>45931</v></c><c r="B4"><v>20311</v></c><c r="C4" t="b"><v>1</v></c></row>
+      </sheetData></worksheet>`,
+    };
+
+    it('reads the first sheet with shared and inline strings into a dense grid', async () => {
+      await expect(readXlsx(storedZip(workbook))).resolves.toEqual([
+        ['Date', 'Store', '', 'Note'],
+        ['', 'Rich text'],
+        ['45931', '20311', 'TRUE'],
+      ]);
+    });
+
+    it('inflates deflated entries and rejects non-zip files', async () => {
+      const inflateRaw = jest.fn(async (data: Uint8Array) => data);
+      const zip = storedZip(workbook);
+      // Mark the first central directory entry as deflated
+      const central = zip.findIndex((_, index) => zip[index] === 0x50 && zip[index + 1] === 0x4b && zip[index + 2] === 1 && zip[index + 3] === 2);
+      zip[central + 10] = 8;
+
+      await readXlsx(zip, inflateRaw);
+      expect(inflateRaw).toHaveBeenCalledTimes(1);
+      await expect(readXlsx(new TextEncoder().encode('date,amount'))).rejects.toThrow('not a valid XLSX workbook');
+    });
+  });
+
+  it('converts Excel serial dates', () => {
+    expect(excelSerialToDate(45931)).toBe('2025-10-01');
+    expect(excelSerialToDate(45931.75)).toBe('2025-10-01');
+  });
+});
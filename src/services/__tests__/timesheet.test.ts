@@ -0,0 +1,151 @@
+/**
+ * Payroll Timesheet Unit Tests
+ *
+ * Tests for turning attendance into payroll hours including:
+ * - Punch rounding and unpaid-break deduction
+ * - Daily and weekly overtime
+ * - Night and weekend premiums across midnight
+ * - CSV and fixed-width export layouts
+ */
+
+import {
+  buildTimesheets,
+  calculateTimesheetLine,
+  DEFAULT_PAY_RULES,
+  formatTimesheetExport,
+  roundMinutes,
+  TimesheetError
+} from '../timesheet';
+import { AttendanceRecord, Break, PayRules } from '../../types';
+
+const record = (
+  id: string,
+  date: string,
+  clockIn: string | undefined,
+  clockOut: string | undefined,
+  breaks: Partial<Break>[] = [],
+  userId = 'u1'
+): AttendanceRecord => ({
+  id,
+  userId,
+  date,
+  clockIn,
+  clockOut,
+  method: 'geolocation',
+  status: 'present',
+  breaks: breaks.map((item, index) => ({ id: `${id}-b${index}`, type: 'lunch', startTime: '12:00', ...item })),
+  requiresApproval: false,
+});
+
+const rules: PayRules = { ...DEFAULT_PAY_RULES, dailyOvertimeAfterHours: 10 };
+
+describe('Timesheets', () => {
+  describe('calculateTimesheetLine', () => {
+    it('rounds punches and deducts unpaid breaks', () => {
+      expect(roundMinutes(8 * 60 + 7, 15, 'nearest')).toBe(8 * 60 + 0);
+      expect(roundMinutes(8 * 60 + 8, 15, 'nearest')).toBe(8 * 60 + 15);
+
+      const line = calculateTimesheetLine(record('r1', '2024-01-15', '09:03', '17:58', [
+        { type: 'lunch', startTime: '12:00', endTime: '13:00' },
+        { type: 'coffee', startTime: '15:00', duration: 15 },
+      ]), rules);
+
+      expect(line).toMatchObject({
+        clockIn: '09:00', clockOut: '18:00', workedMinutes: 540, unpaidBreakMinutes: 60, paidMinutes: 480,
+        regularMinutes: 480, overtimeMinutes: 0, nightMinutes: 0, weekendMinutes: 0, issues: [],
+      });
+    });
+
+    it('caps paid break time', () => {
+      const line = calculateTimesheetLine(record('r1', '2024-01-15', '09:00', '17:00', [
+        { type: 'coffee', startTime: '10:00', duration: 20 },
+        { type: 'rest', startTime: '15:00', duration: 20 },
+      ]), rules);
+      expect(line.unpaidBreakMinutes).toBe(10);
+    });
+
+    it('applies the daily overtime threshold', () => {
+      const line = calculateTimesheetLine(record('r1', '2024-01-15', '07:00', '19:00', [{ duration: 30 }]), rules);
+      expect(line).toMatchObject({ paidMinutes: 690, regularMinutes: 600, overtimeMinutes: 90 });
+    });
+
+    it('splits night and weekend minutes across midnight', () => {
+      // Friday 20:00 to Saturday 04:00 with an unpaid break at midnight
+      const line = calculateTimesheetLine(record('r1', '2024-01-19', '20:00', '04:00', [{ startTime: '00:00', endTime: '00:30' }]), rules);
+
+      expect(line).toMatchObject({ workedMinutes: 480, paidMinutes: 450, nightMinutes: 330, weekendMinutes: 210 });
+    });
+
+    it('flags records payroll has to review', () => {
+      expect(calculateTimesheetLine(record('r1', '2024-01-15', '09:00', undefined), rules).issues).toEqual(['No clock-out']);
+      expect(calculateTimesheetLine(record('r2', '2024-01-15', '09:00', '17:00', [{ startTime: '12:00' }]), rules).issues)
+        .toEqual(['lunch break at 12:00 was never ended']);
+    });
+  });
+
+  describe('buildTimesheets', () => {
+    // Mon 15 - Fri 19 January 2024, 9 paid hours a day
+    const week = ['15', '16', '17', '18', '19'].map(day =>
+      record(`r${day}`, `2024-01-${day}`, '08:00', '17:30', [{ duration: 30 }]));
+
+    it('moves hours past the weekly threshold into overtime', () => {
+      const [sheet] = buildTimesheets(week, { start: '2024-01-15', end: '2024-01-21' }, rules);
+
+      expect(sheet.lines[4]).toMatchObject({ date: '2024-01-19', regularMinutes: 240, overtimeMinutes: 300 });
+      expect(sheet).toMatchObject({ regularHours: 40, overtimeHours: 5, paidHours: 45, weightedHours: 47.5 });
+    });
+
+    it('counts earlier days of a straddling week without paying them again', () => {
+      const [sheet] = buildTimesheets(week, { start: '2024-01-18', end: '2024-01-21' }, rules);
+
+      expect(sheet.lines.map(line => line.date)).toEqual(['2024-01-18', '2024-01-19']);
+      expect(sheet).toMatchObject({ regularHours: 13, overtimeHours: 5 });
+    });
+  });
+
+  describe('formatTimesheetExport', () => {
+    const sheets = buildTimesheets([
+      record('a1', '2024-01-20', '09:00', '13:00', [], 'u1'),
+      record('b1', '2024-01-15', '09:00', '17:00', [{ duration: 60 }], 'u2'),
+    ], { start: '2024-01-15', end: '2024-01-21' }, rules);
+
+    it('writes a CSV summary with payroll IDs', () => {
+      const csv = formatTimesheetExport(sheets, {
+        format: 'csv',
+        rows: 'summary',
+        columns: [
+          { field: 'payrollId', header: 'Employee No' },
+          { field: 'regularHours', header: 'Hours, regular' },
+          { field: 'weekendHours' },
+        ],
+      }, { u1: 'E-001' });
+
+      expect(csv).toBe('Employee No,"Hours, regular",weekendHours\r\nE-001,4.00,4.00\r\nu2,7.00,0.00\r\n');
+    });
+
+    it('writes fixed-width daily rows', () => {
+      const text = formatTimesheetExport(sheets, {
+        format: 'fixed-width',
+        rows: 'daily',
+        lineEnding: '\n',
+        decimals: 1,
+        columns: [
+          { field: 'payrollId', width: 6 },
+          { field: 'date', width: 10 },
+          { field: 'paidHours', width: 6 },
+        ],
+      });
+
+      expect(text).toBe('u1    2024-01-20   4.0\nu2    2024-01-15   7.0\n');
+    });
+
+    it('rejects unknown fields and values that do not fit', () => {
+      expect(() => formatTimesheetExport(sheets, { format: 'csv', rows: 'summary', columns: [{ field: 'date' }] }))
+        .toThrow('Unknown summary export field "date"');
+      expect(() => formatTimesheetExport(sheets, { format: 'fixed-width', rows: 'daily', columns: [{ field: 'date' }] }))
+        .toThrow(TimesheetError);
+      expect(() => formatTimesheetExport(sheets, { format: 'fixed-width', rows: 'daily', columns: [{ field: 'date', width: 8 }] }))
+        .toThrow('Value "2024-01-20" does not fit column "date" (width 8)');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Training Curriculum Unit Tests
+ *
+ * Tests for training courses including:
+ * - Validating courses and scoring quizzes
+ * - Completing modules in order against the pass mark
+ * - Failing an enrollment after the last allowed attempt
+ * - Issuing certificates with an expiry date, always for branded courses
+ * - Blocking assignments that need a valid brand certificate
+ */
+
+import {
+  checkAssignmentCertification,
+  getCertificateStatus,
+  getEnrollmentProgress,
+  scoreQuiz,
+  submitModule,
+  TrainingError,
+  validateCourse
+} from '../trainingCurriculum';
+import { CertificationRule, TrainingCertificate, TrainingCourse, TrainingEnrollment } from '../../types';
+
+const course: TrainingCourse = {
+  id: 'c1',
+  title: 'Samsung TV Essentials',
+  trainingType: 'Product Training',
+  brand: 'Samsung',
+  passThreshold: 80,
+  maxAttempts: 2,
+  certificateName: 'Samsung TV Specialist',
+  certificateValidityMonths: 12,
+  modules: [
+    { id: 'm1', title: 'Line-up', content: 'The 2025 range', durationMinutes: 20 },
+    {
+      id: 'm2',
+      title: 'Features',
+      content: 'Panels and sound',
+      durationMinutes: 30,
+      quiz: [
+        { id: 'q1', prompt: 'Which panel is self-lit?', options: ['QLED', 'OLED', 'LED'], correctOptions: [1] },
+        { id: 'q2', prompt: 'Which sizes ship with a stand?', options: ['43"', '55"', '98"'], correctOptions: [0, 1] },
+      ],
+    },
+  ],
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+const enrollment: TrainingEnrollment = {
+  id: 'e1',
+  courseId: 'c1',
+  employeeId: 'emp1',
+  employeeName: 'Ann Lee',
+  status: 'scheduled',
+  startDate: '2025-10-01',
+  progress: [],
+};
+
+const at = (date: string) => new Date(`${date}T10:00:00.000Z`);
+
+describe('Training curriculum', () => {
+  it('validates courses and scores quizzes by exact answers', () => {
+    expect(() => validateCourse(course)).not.toThrow();
+    expect(() => validateCourse({ ...course, modules: [] })).toThrow('has no modules');
+    expect(() => validateCourse({ ...course, passThreshold: 120 })).toThrow(TrainingError);
+
+    const quiz = course.modules[1].quiz!;
+    expect(scoreQuiz(quiz, { q1: [1], q2: [1, 0] })).toBe(100);
+    expect(scoreQuiz(quiz, { q1: [1], q2: [0] })).toBe(50);
+    expect(scoreQuiz(quiz, {})).toBe(0);
+  });
+
+  it('completes modules in order and issues an expiring certificate', () => {
+    expect(() => submitModule(enrollment, course, 'm2', {})).toThrow('in order');
+
+    const first = submitModule(enrollment, course, 'm1', {}, at('2025-10-01'));
+    expect(first.enrollment.status).toBe('in-progress');
+    expect(getEnrollmentProgress(first.enrollment, course)).toEqual({ completedModules: 1, totalModules: 2, percent: 50 });
+
+    const retry = submitModule(first.enrollment, course, 'm2', { q1: [0], q2: [0, 1] }, at('2025-10-02'));
+    expect(retry.enrollment.status).toBe('in-progress');
+    expect(retry.certificate).toBeUndefined();
+
+    const done = submitModule(retry.enrollment, course, 'm2', { q1: [1], q2: [0, 1] }, at('2025-10-03'));
+    expect(done.enrollment).toMatchObject({ status: 'completed', score: 100, completedAt: '2025-10-03T10:00:00.000Z' });
+    expect(done.enrollment.progress[1].attempts.map(attempt => attempt.passed)).toEqual([false, true]);
+    expect(done.certificate).toEqual({
+      id: 'cert-e1',
+      courseId: 'c1',
+      enrollmentId: 'e1',
+      employeeId: 'emp1',
+      employeeName: 'Ann Lee',
+      name: 'Samsung TV Specialist',
+      brand: 'Samsung',
+      score: 100,
+      issuedAt: '2025-10-03T10:00:00.000Z',
+      expiresAt: '2026-10-03T10:00:00.000Z',
+    });
+  });
+
+  it('issues a non-expiring certificate named after a branded course without certificate settings', () => {
+    const plain = { ...course, modules: course.modules.slice(0, 1), certificateName: undefined, certificateValidityMonths: undefined };
+
+    expect(submitModule(enrollment, plain, 'm1', {}, at('2025-10-01')).certificate)
+      .toMatchObject({ name: 'Samsung TV Essentials', brand: 'Samsung', expiresAt: undefined });
+    expect(submitModule(enrollment, { ...plain, brand: undefined }, 'm1', {}, at('2025-10-01')).certificate).toBeUndefined();
+  });
+
+  it('fails the enrollment after the last allowed attempt', () => {
+    const first = submitModule(enrollment, course, 'm1', {});
+    const once = submitModule(first.enrollment, course, 'm2', { q1: [0] });
+    const twice = submitModule(once.enrollment, course, 'm2', { q1: [0] });
+
+    expect(twice.enrollment.status).toBe('failed');
+    expect(() => submitModule(twice.enrollment, course, 'm2', { q1: [1], q2: [0, 1] })).toThrow('already failed');
+  });
+
+  it('blocks assignments to rule workplaces without a valid brand certificate', () => {
+    const certificate: TrainingCertificate = {
+      id: 'cert-1', courseId: 'c1', enrollmentId: 'e0', employeeId: 'emp1', employeeName: 'Ann Lee',
+      name: 'Samsung TV Specialist', brand: 'Samsung', score: 90,
+      issuedAt: '2024-10-01T00:00:00.000Z', expiresAt: '2025-10-01T00:00:00.000Z',
+    };
+    const rules: CertificationRule[] = [
+      { id: 'r1', brand: 'Samsung', workplaceIds: ['w1', 'w2'], isActive: true },
+      { id: 'r2', brand: 'Bosch', workplaceIds: ['w2'], isActive: true },
+      { id: 'r3', brand: 'LG', workplaceIds: ['w1'], isActive: false },
+    ];
+
+    expect(getCertificateStatus(certificate, at('2025-08-01'))).toBe('active');
+    expect(getCertificateStatus(certificate, at('2025-09-15'))).toBe('expiring-soon');
+    expect(getCertificateStatus(certificate, at('2025-10-02'))).toBe('expired');
+
+    expect(checkAssignmentCertification('emp1', 'w1', rules, [certificate], at('2025-09-15'))).toEqual([]);
+    expect(checkAssignmentCertification('emp1', 'w2', rules, [certificate], at('2025-10-02'))).toEqual([
+      { ruleId: 'r1', brand: 'Samsung', reason: 'expired', expiredAt: '2025-10-01T00:00:00.000Z' },
+      { ruleId: 'r2', brand: 'Bosch', reason: 'missing' },
+    ]);
+    expect(checkAssignmentCertification('emp1', 'w3', rules, [], at('2025-10-02'))).toEqual([]);
+
+    const renewed = { ...certificate, id: 'cert-2', expiresAt: '2026-10-01T00:00:00.000Z' };
+    expect(checkAssignmentCertification('emp1', 'w1', rules, [certificate, renewed], at('2025-10-02'))).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Versioned Store Unit Tests
+ *
+ * Tests for the shared localStorage persistence including:
+ * - Round-tripping state with its format version
+ * - Falling back on missing, outdated and unreadable data
+ * - Custom payloads and storage errors
+ */
+
+import { createVersionedStore } from '../versionedStore';
+
+interface NotesState {
+  notes: string[];
+  pinned: string[];
+}
+
+const memoryStorage = () => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value); },
+  };
+};
+
+const store = createVersionedStore<NotesState>({
+  key: 'notes',
+  version: 2,
+  label: 'notes',
+  read: (saved, fallback) => ({ notes: saved.notes || fallback.notes, pinned: saved.pinned || [] }),
+});
+
+describe('Versioned store', () => {
+  const fallback: NotesState = { notes: ['seed'], pinned: ['seed'] };
+
+  it('round-trips state with its version and fills missing fields', () => {
+    const storage = memoryStorage();
+    store.save({ notes: ['a', 'b'], pinned: ['b'] }, storage);
+
+    expect(JSON.parse(storage.data.get('notes')!)).toEqual({ version: 2, notes: ['a', 'b'], pinned: ['b'] });
+    expect(store.load(fallback, storage)).toEqual({ notes: ['a', 'b'], pinned: ['b'] });
+
+    storage.data.set('notes', JSON.stringify({ version: 2 }));
+    expect(store.load(fallback, storage)).toEqual({ notes: ['seed'], pinned: [] });
+  });
+
+  it('falls back on missing, outdated and unreadable data', () => {
+    const storage = memoryStorage();
+    expect(store.load(fallback, storage)).toBe(fallback);
+
+    storage.data.set('notes', JSON.stringify({ version: 1, notes: ['old'] }));
+    expect(store.load(fallback, storage)).toBe(fallback);
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    storage.data.set('notes', '{');
+    expect(store.load(fallback, storage)).toBe(fallback);
+    expect(error).toHaveBeenCalledWith('Error loading notes:', expect.any(SyntaxError));
+  });
+
+  it('stores custom payloads and reports storage errors instead of throwing', () => {
+    const list = createVersionedStore<string[]>({
+      key: 'list',
+      version: 1,
+      label: 'list',
+      read: saved => saved.items,
+      write: items => ({ items }),
+    });
+    const storage = memoryStorage();
+    list.save(['x'], storage);
+    expect(storage.data.get('list')).toBe('{"version":1,"items":["x"]}');
+    expect(list.load([], storage)).toEqual(['x']);
+
+    storage.data.set('list', JSON.stringify({ version: 1 }));
+    expect(list.load(['fallback'], storage)).toEqual(['fallback']);
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const full = { getItem: () => null, setItem: () => { throw new Error('QuotaExceededError'); } };
+    expect(() => list.save(['x'], full)).not.toThrow();
+    expect(error).toHaveBeenCalledWith('Error saving list:', expect.any(Error));
+  });
+});
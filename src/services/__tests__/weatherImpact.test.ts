@@ -0,0 +1,187 @@
+/**
+ * Weather Impact Unit Tests
+ *
+ * Tests for weather impact measurement including:
+ * - Classifying days by adverse weather factor
+ * - Importing observations and forecasts from spreadsheets
+ * - Fetching through a provider, with a local fixture provider
+ * - Impact of weather on visit completion per area and workplace
+ * - Forecast days where journey plans should be rescheduled
+ */
+
+import {
+  classifyWeather,
+  createFixtureWeatherProvider,
+  describeWeatherImpact,
+  getWeatherRisks,
+  guessWeatherMapping,
+  loadWeatherObservations,
+  measureWeatherImpact,
+  mergeWeather,
+  parseWeatherRows,
+  refreshWeather,
+  saveWeatherObservations,
+  validateWeatherMapping,
+  WeatherError,
+  WeatherProvider
+} from '../weatherImpact';
+import { WeatherObservation, WorkplaceActivityRecord } from '../../types';
+
+const day = (offset: number) => new Date(Date.UTC(2025, 8, 1 + offset)).toISOString().split('T')[0];
+
+const observation = (overrides: Partial<WeatherObservation>): WeatherObservation => ({
+  date: '2025-09-01',
+  workplaceCode: '1',
+  kind: 'historical',
+  condition: 'sunny',
+  temperatureMax: 20,
+  precipitationMm: 0,
+  windSpeedKmh: 10,
+  source: 'fixture',
+  ...overrides,
+});
+
+const WORKPLACES = [
+  { code: '1', name: 'Store 1', areaName: 'North' },
+  { code: '2', name: 'Store 2', areaName: 'North' },
+  { code: '3', name: 'Store 3', areaName: 'South' },
+];
+
+// Fixture: 30 days, rain every fifth day everywhere
+const rainy = (t: number) => t % 5 === 0;
+const FIXTURE: WeatherObservation[] = WORKPLACES.flatMap(({ code }) => Array.from({ length: 30 }, (_, t) => observation({
+  date: day(t),
+  workplaceCode: code,
+  condition: rainy(t) ? 'rainy' : 'sunny',
+  precipitationMm: rainy(t) ? 8 : 0,
+  temperatureMax: rainy(t) ? 15 : 20,
+})));
+
+// North completes fewer visits on rainy days, South does not notice the rain
+const ACTIVITY: WorkplaceActivityRecord[] = WORKPLACES.flatMap(({ code, areaName }) => Array.from({ length: 30 }, (_, t) => ({
+  date: day(t),
+  workplaceCode: code,
+  plannedVisits: 10,
+  completedVisits: (areaName === 'North' && rainy(t) ? 7 : 9) + (t % 2),
+})));
+
+describe('Weather impact', () => {
+  describe('classification', () => {
+    it('classifies wet, frozen, hot and windy days', () => {
+      expect(classifyWeather(observation({}))).toEqual([]);
+      expect(classifyWeather(observation({ precipitationMm: 4 }))).toEqual(['rain']);
+      expect(classifyWeather(observation({ precipitationMm: 4, temperatureMax: -2 }))).toEqual(['snow', 'cold']);
+      expect(classifyWeather(observation({ temperatureMax: 33, windSpeedKmh: 55 }))).toEqual(['heat', 'wind']);
+    });
+  });
+
+  describe('import', () => {
+    const headers = ['Datum', 'Filiale', 'Wetter', 'Temp', 'Rain mm', 'Wind'];
+
+    it('guesses the mapping and reads observations and forecasts', () => {
+      const mapping = guessWeatherMapping(headers);
+      expect(mapping).toEqual({ date: 'Datum', workplaceCode: 'Filiale', condition: 'Wetter', temperatureMax: 'Temp', precipitationMm: 'Rain mm', windSpeedKmh: 'Wind' });
+      expect(validateWeatherMapping(mapping, headers)).toEqual([]);
+
+      const result = parseWeatherRows([
+        headers,
+        ['01.09.2025', '1', 'Showers', '14,5', '6', '20'],
+        ['20.10.2025', '1', '', '-1', '3', ''],
+        ['02.09.2025', '9', 'hail', 'warm', '-1', ''],
+        ['01.09.2025', '1', 'sun', '20', '0', '5'],
+      ], mapping, { workplaceCodes: ['1'], source: 'weather.csv', today: '2025-10-18' });
+
+      expect(result.observations).toEqual([
+        observation({ condition: 'rainy', temperatureMax: 14.5, precipitationMm: 6, windSpeedKmh: 20, source: 'weather.csv' }),
+        observation({ date: '2025-10-20', kind: 'forecast', condition: 'snowy', temperatureMax: -1, precipitationMm: 3, windSpeedKmh: 0, source: 'weather.csv' }),
+      ]);
+      expect(result.errors).toEqual([
+        { row: 4, field: 'Filiale', error: 'Unknown workplace code "9"' },
+        { row: 4, field: 'Temp', error: '"warm" is not a number' },
+        { row: 4, field: 'Rain mm', error: 'Precipitation cannot be negative' },
+        { row: 4, field: 'Wetter', error: 'Unknown weather condition "hail"' },
+        { row: 5, field: 'Datum', error: 'Same date and workplace as row 2' },
+      ]);
+      expect(() => parseWeatherRows([['Datum']], {}, { workplaceCodes: [], source: 'x' })).toThrow(WeatherError);
+    });
+
+    it('never lets a forecast replace observed weather', () => {
+      const observed = observation({ precipitationMm: 5, condition: 'rainy' });
+      const merged = mergeWeather([observed], [
+        observation({ kind: 'forecast' }),
+        observation({ date: '2025-09-02', kind: 'forecast' }),
+      ]);
+      expect(merged).toEqual([observed, observation({ date: '2025-09-02', kind: 'forecast' })]);
+    });
+  });
+
+  describe('providers', () => {
+    it('fetches from the fixture provider for the requested workplaces and days', async () => {
+      const provider = createFixtureWeatherProvider(FIXTURE, 'test-fixture');
+      const observations = await refreshWeather(provider, { workplaces: [{ code: '3' }], from: day(0), to: day(2) }, []);
+      expect(observations.map(entry => [entry.workplaceCode, entry.date, entry.source])).toEqual([
+        ['3', day(0), 'test-fixture'],
+        ['3', day(1), 'test-fixture'],
+        ['3', day(2), 'test-fixture'],
+      ]);
+    });
+
+    it('reports providers that fail', async () => {
+      const failing: WeatherProvider = { id: 'api', name: 'Weather API', fetchObservations: () => Promise.reject(new Error('timeout')) };
+      await expect(refreshWeather(failing, { workplaces: [], from: day(0), to: day(1) }, [])).rejects.toThrow('Weather API could not be reached: timeout');
+    });
+  });
+
+  describe('impact', () => {
+    const history = { sellOut: [], activity: ACTIVITY };
+
+    it('quantifies rain against plain days per area', () => {
+      const impacts = measureWeatherImpact(history, FIXTURE, WORKPLACES, { scope: 'area', metrics: ['visit-completion'] });
+      const north = impacts.find(impact => impact.key === 'North');
+      const south = impacts.find(impact => impact.key === 'South');
+
+      expect(north).toMatchObject({ factor: 'rain', factorDays: 12, baselineDays: 48, factorValue: 75, baselineValue: 95, changePercentage: -21.1, significant: true });
+      expect(describeWeatherImpact(north!)).toBe('Rain reduces visit completion 21% in Area North');
+      expect(south).toMatchObject({ changePercentage: 0, significant: false });
+      expect(describeWeatherImpact(south!)).toBe('Rain does not change visit completion in Area South');
+    });
+
+    it('measures per workplace and ignores forecasts', () => {
+      const forecasts = FIXTURE.map(entry => ({ ...entry, kind: 'forecast' as const, condition: 'rainy' as const, precipitationMm: 9 }));
+      expect(measureWeatherImpact(history, forecasts, WORKPLACES, { scope: 'workplace' })).toEqual([]);
+
+      const impacts = measureWeatherImpact(history, FIXTURE, WORKPLACES, { scope: 'workplace', metrics: ['visit-completion'] });
+      expect(impacts.map(impact => [impact.key, impact.changePercentage])).toEqual([['1', -21.1], ['2', -21.1], ['3', 0]]);
+    });
+  });
+
+  describe('risks', () => {
+    it('flags forecast days with an expected drop in visit completion', () => {
+      const impacts = measureWeatherImpact({ sellOut: [], activity: ACTIVITY }, FIXTURE, WORKPLACES, { scope: 'area' });
+      const forecasts = [
+        observation({ date: '2025-10-20', workplaceCode: '2', kind: 'forecast', condition: 'rainy', precipitationMm: 12 }),
+        observation({ date: '2025-10-20', workplaceCode: '3', kind: 'forecast', condition: 'rainy', precipitationMm: 12 }),
+        observation({ date: '2025-10-21', workplaceCode: '1', kind: 'forecast' }),
+        observation({ date: '2025-10-01', workplaceCode: '1', kind: 'forecast', condition: 'rainy', precipitationMm: 12 }),
+      ];
+
+      expect(getWeatherRisks(forecasts, impacts, WORKPLACES, { from: '2025-10-18' })).toEqual([{
+        date: '2025-10-20', workplaceCode: '2', workplaceName: 'Store 2', areaName: 'North', factors: ['rain'], expectedChange: -21.1, reschedule: true,
+      }]);
+      expect(getWeatherRisks(forecasts, impacts, WORKPLACES, { from: '2025-10-18', rescheduleBelow: -25 })[0].reschedule).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    it('round-trips observations and falls back on unknown versions', () => {
+      const store = new Map<string, string>();
+      const storage = { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => { store.set(key, value); } };
+
+      saveWeatherObservations(FIXTURE.slice(0, 2), storage);
+      expect(loadWeatherObservations([], storage)).toEqual(FIXTURE.slice(0, 2));
+      store.set('weatherObservations', 'not json');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      expect(loadWeatherObservations(FIXTURE, storage)).toBe(FIXTURE);
+    });
+  });
+});
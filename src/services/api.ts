@@ -8,8 +8,9 @@
  * Features:
  * - JWT token management and authentication
  * - CRUD operations for todos, reports, and attendance
- * - Automatic error handling and response parsing
- * - TypeScript interfaces for type safety
+ * - Requests, auth refresh, rate-limit back-off and errors handled by the
+ *   shared client in core/api/client
+ * - Types for the endpoints in backend/swagger.json generated from the spec
  * - Local storage integration for user sessions
  * - Real-time data fetching with hooks
  * - Loading states and error handling
@@ -27,56 +28,32 @@
  * @lastUpdated 2025-07-12
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { apiClient, apiRequest, clearAuth, isAuthenticated, ApiResponseOf } from '../core/api/client';
+import { useApiQuery, useApiMutation, useRequestQuery, useRequestMutation } from '../core/api/hooks';
+import { ApiOperations, ApiSchemas } from '../core/api/schema';
 
-// API Gateway connection
-const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:8080';
+export { useApiQuery, useApiMutation } from '../core/api/hooks';
+export type { ApiHookState, ApiMutationState } from '../core/types';
 
 // ===== TYPE DEFINITIONS =====
 
 /**
  * User interface representing a system user
- * Contains user authentication and profile information
+ * Generated from the User schema in backend/swagger.json
  */
-export interface User {
-  id: string;                    // Unique user identifier
-  email: string;                 // User's email address (used for login)
-  name: string;                  // User's full name
-  role: 'admin' | 'employee';    // User role for access control
-  department: string;            // User's department/team
-  status: 'active' | 'inactive'; // Account status
-  createdAt: string;             // Account creation timestamp
-}
+export type User = ApiSchemas['User'];
 
 /**
  * Todo interface representing a task item
- * Contains task details and completion status
+ * Generated from the Todo schema in backend/swagger.json
  */
-export interface Todo {
-  id: string;                    // Unique todo identifier
-  title: string;                 // Todo title/name
-  description: string;           // Detailed description
-  priority: 'low' | 'medium' | 'high'; // Priority level
-  completed: boolean;            // Completion status
-  createdAt: string;             // Creation timestamp
-  completedAt: string | null;    // Completion timestamp (if completed)
-  userId: string;                // Owner user ID
-}
+export type Todo = ApiSchemas['Todo'];
 
 /**
  * Report interface representing a submitted report
- * Contains report content and approval status
+ * Generated from the Report schema in backend/swagger.json
  */
-export interface Report {
-  id: string;                    // Unique report identifier
-  title: string;                 // Report title
-  type: string;                  // Report type (daily, weekly, etc.)
-  content: string;               // Report content/body
-  status: 'pending' | 'approved' | 'rejected'; // Approval status
-  submittedAt: string;           // Submission timestamp
-  userId: string;                // Submitter user ID
-  userName: string;              // Submitter name
-}
+export type Report = ApiSchemas['Report'];
 
 /**
  * Attendance interface representing punch in/out records
@@ -133,11 +110,7 @@ export interface TeamStatus {
  * Login response interface
  * Returned after successful authentication
  */
-export interface LoginResponse {
-  message: string;               // Success message
-  user: User;                    // User profile data
-  token: string;                 // JWT authentication token
-}
+export type LoginResponse = ApiResponseOf<'POST /api/auth/login'>;
 
 /**
  * Generic API response interface
@@ -149,213 +122,18 @@ export interface ApiResponse<T> {
   message?: string;              // Success/info message
 }
 
-/**
- * API Hook State Interface
- * Standard state for all API hooks
- */
-export interface ApiHookState<T> {
-  data: T | null;
-  loading: boolean;
-  error: string | null;
-  refetch: () => void;
-}
-
-/**
- * API Mutation State Interface
- * State for mutation operations (create, update, delete)
- */
-export interface ApiMutationState<T> {
-  data: T | null;
-  loading: boolean;
-  error: string | null;
-  mutate: (data: any) => Promise<void>;
-  reset: () => void;
-}
-
-// ===== UTILITY FUNCTIONS =====
-
-/**
- * Get authentication headers for API requests
- * Retrieves JWT token from localStorage and formats Authorization header
- * Also checks token expiration and clears invalid tokens
- * 
- * @returns Object containing Content-Type and Authorization headers
- */
-const getAuthHeaders = () => {
-  const token = localStorage.getItem('authToken');
-  
-  // Check if token exists and is not expired
-  if (token) {
-    try {
-      // Decode JWT token to check expiration
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const currentTime = Date.now() / 1000;
-      
-      if (payload.exp && payload.exp < currentTime) {
-        // Token is expired, clear it
-        console.log('JWT token expired, clearing session');
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('userData');
-        return { 'Content-Type': 'application/json' };
-      }
-    } catch (error) {
-      // Invalid token format, clear it
-      console.log('Invalid JWT token format, clearing session');
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('userData');
-      return { 'Content-Type': 'application/json' };
-    }
-  }
-  
-  return {
-    'Content-Type': 'application/json',
-    ...(token && { 'Authorization': `Bearer ${token}` })
-  };
-};
+// ===== AUTHENTICATION API =====
 
 /**
- * Handle API response and error handling
- * Parses JSON response and throws error if request failed
- * 
- * @param response - Fetch API response object
- * @returns Parsed response data
- * @throws Error if response is not ok
+ * Store the session returned by login or register
  */
-const handleResponse = async <T>(response: Response): Promise<T> => {
-  // Check if response is JSON
-  const contentType = response.headers.get('content-type');
-  if (!contentType || !contentType.includes('application/json')) {
-    // Handle non-JSON responses (like rate limiting HTML pages)
-    await response.text(); // Consume the response body
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-    }
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
-  
-  if (!response.ok) {
-    throw new Error(data.error || `API request failed: ${response.status}`);
+const storeSession = (data: LoginResponse) => {
+  if (data.token) {
+    localStorage.setItem('authToken', data.token);
+    localStorage.setItem('userData', JSON.stringify(data.user));
   }
-  
-  return data;
 };
 
-/**
- * Generic API request function
- * Handles all HTTP methods with proper error handling
- * 
- * @param url - API endpoint URL
- * @param options - Fetch options
- * @returns Promise with response data
- */
-const apiRequest = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
-  const response = await fetch(`${API_BASE_URL}${url}`, {
-    ...options,
-    headers: {
-      ...getAuthHeaders(),
-      ...options.headers,
-    },
-  });
-  
-  return handleResponse<T>(response);
-};
-
-// ===== API HOOKS =====
-
-/**
- * Custom hook for data fetching with loading and error states
- * 
- * @param url - API endpoint URL
- * @param dependencies - Dependencies for useEffect
- * @returns Hook state with data, loading, error, and refetch function
- */
-export const useApiQuery = <T>(
-  url: string,
-  dependencies: any[] = []
-): ApiHookState<T> => {
-  const [data, setData] = useState<T | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchData = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const result = await apiRequest<T>(url);
-      setData(result);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
-  }, [url]);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]); // Only re-fetch when fetchData function changes
-
-  return {
-    data,
-    loading,
-    error,
-    refetch: fetchData,
-  };
-};
-
-/**
- * Custom hook for mutation operations (create, update, delete)
- * 
- * @param url - API endpoint URL
- * @param method - HTTP method
- * @returns Hook state with mutate function and operation state
- */
-export const useApiMutation = <T>(
-  url: string,
-  method: 'POST' | 'PUT' | 'DELETE' = 'POST'
-): ApiMutationState<T> => {
-  const [data, setData] = useState<T | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const mutate = useCallback(async (body?: any) => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const options: RequestInit = {
-        method,
-        ...(body && { body: JSON.stringify(body) }),
-      };
-      
-      const result = await apiRequest<T>(url, options);
-      setData(result);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      setError(errorMessage);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  }, [url, method]);
-
-  const reset = useCallback(() => {
-    setData(null);
-    setError(null);
-  }, []);
-
-  return {
-    data,
-    loading,
-    error,
-    mutate,
-    reset,
-  };
-};
-
-// ===== AUTHENTICATION API =====
-
 /**
  * Authentication API methods
  * Handles user login, registration, profile management, and session management
@@ -370,16 +148,8 @@ export const authAPI = {
    * @returns Promise with login response containing user data and token
    */
   login: async (email: string, password: string): Promise<LoginResponse> => {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password })
-    });
-    
-    const data = await handleResponse<LoginResponse>(response);
-    // Store authentication data in localStorage
-    localStorage.setItem('authToken', data.token);
-    localStorage.setItem('userData', JSON.stringify(data.user));
+    const data = await apiClient.request('POST /api/auth/login', { body: { email, password } });
+    storeSession(data);
     return data;
   },
 
@@ -390,23 +160,9 @@ export const authAPI = {
    * @param userData - User registration data
    * @returns Promise with registration response containing user data and token
    */
-  register: async (userData: {
-    email: string;
-    password: string;
-    name: string;
-    role?: string;
-    department?: string;
-  }): Promise<LoginResponse> => {
-    const response = await fetch(`${API_BASE_URL}/auth/register`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(userData)
-    });
-    
-    const data = await handleResponse<LoginResponse>(response);
-    // Store authentication data in localStorage
-    localStorage.setItem('authToken', data.token);
-    localStorage.setItem('userData', JSON.stringify(data.user));
+  register: async (userData: ApiOperations['POST /api/auth/register']['body']): Promise<LoginResponse> => {
+    const data = await apiClient.request('POST /api/auth/register', { body: userData });
+    storeSession(data);
     return data;
   },
 
@@ -416,12 +172,8 @@ export const authAPI = {
    * 
    * @returns Promise with user profile data
    */
-  getProfile: async (): Promise<{ user: User }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/profile`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ user: User }>(response);
+  getProfile: async () => {
+    return apiClient.request('GET /api/auth/profile');
   },
 
   /**
@@ -429,8 +181,7 @@ export const authAPI = {
    * Removes authentication data from localStorage
    */
   logout: () => {
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('userData');
+    clearAuth();
   },
 
   /**
@@ -440,30 +191,7 @@ export const authAPI = {
    * @returns True if JWT token exists and is valid
    */
   isAuthenticated: (): boolean => {
-    const token = localStorage.getItem('authToken');
-    if (!token) return false;
-    
-    try {
-      // Decode JWT token to check expiration
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const currentTime = Date.now() / 1000;
-      
-      if (payload.exp && payload.exp < currentTime) {
-        // Token is expired, clear it
-        console.log('JWT token expired, clearing session');
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('userData');
-        return false;
-      }
-      
-      return true;
-    } catch (error) {
-      // Invalid token format, clear it
-      console.log('Invalid JWT token format, clearing session');
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('userData');
-      return false;
-    }
+    return isAuthenticated();
   },
 
   /**
@@ -483,14 +211,8 @@ export const authAPI = {
    * @param newPassword - New password (minimum 6 characters)
    * @returns Promise with success message
    */
-  resetPassword: async (email: string, newPassword: string): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/auth/reset-password`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, newPassword })
-    });
-    
-    return handleResponse<{ message: string }>(response);
+  resetPassword: async (email: string, newPassword: string) => {
+    return apiClient.request('POST /api/auth/reset-password', { body: { email, newPassword } });
   }
 };
 
@@ -507,12 +229,8 @@ export const todosAPI = {
    * 
    * @returns Promise with array of user's todos
    */
-  getAll: async (): Promise<{ todos: Todo[] }> => {
-    const response = await fetch(`${API_BASE_URL}/todos`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ todos: Todo[] }>(response);
+  getAll: async () => {
+    return apiClient.request('GET /api/todos');
   },
 
   /**
@@ -521,18 +239,8 @@ export const todosAPI = {
    * @param todoData - Todo creation data
    * @returns Promise with created todo and success message
    */
-  create: async (todoData: {
-    title: string;
-    description?: string;
-    priority?: string;
-  }): Promise<{ message: string; todo: Todo }> => {
-    const response = await fetch(`${API_BASE_URL}/todos`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(todoData)
-    });
-    
-    return handleResponse<{ message: string; todo: Todo }>(response);
+  create: async (todoData: ApiOperations['POST /api/todos']['body']) => {
+    return apiClient.request('POST /api/todos', { body: todoData });
   },
 
   /**
@@ -542,19 +250,8 @@ export const todosAPI = {
    * @param updates - Fields to update
    * @returns Promise with updated todo and success message
    */
-  update: async (id: string, updates: {
-    title?: string;
-    description?: string;
-    priority?: string;
-    completed?: boolean;
-  }): Promise<{ message: string; todo: Todo }> => {
-    const response = await fetch(`${API_BASE_URL}/todos/${id}`, {
-      method: 'PUT',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(updates)
-    });
-    
-    return handleResponse<{ message: string; todo: Todo }>(response);
+  update: async (id: string, updates: ApiOperations['PUT /api/todos/{id}']['body']) => {
+    return apiClient.request('PUT /api/todos/{id}', { params: { id }, body: updates });
   },
 
   /**
@@ -563,13 +260,8 @@ export const todosAPI = {
    * @param id - Todo ID to delete
    * @returns Promise with success message
    */
-  delete: async (id: string): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/todos/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ message: string }>(response);
+  delete: async (id: string) => {
+    return apiClient.request('DELETE /api/todos/{id}', { params: { id } });
   }
 };
 
@@ -586,12 +278,8 @@ export const reportsAPI = {
    * 
    * @returns Promise with array of user's reports
    */
-  getAll: async (): Promise<{ reports: Report[] }> => {
-    const response = await fetch(`${API_BASE_URL}/reports`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ reports: Report[] }>(response);
+  getAll: async () => {
+    return apiClient.request('GET /api/reports');
   },
 
   /**
@@ -600,18 +288,8 @@ export const reportsAPI = {
    * @param reportData - Report creation data
    * @returns Promise with created report and success message
    */
-  create: async (reportData: {
-    title: string;
-    type: string;
-    content: string;
-  }): Promise<{ message: string; report: Report }> => {
-    const response = await fetch(`${API_BASE_URL}/reports`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(reportData)
-    });
-    
-    return handleResponse<{ message: string; report: Report }>(response);
+  create: async (reportData: ApiOperations['POST /api/reports']['body']) => {
+    return apiClient.request('POST /api/reports', { body: reportData });
   },
 
   /**
@@ -623,13 +301,10 @@ export const reportsAPI = {
    * @returns Promise with updated report and success message
    */
   updateStatus: async (id: string, status: string, comments?: string): Promise<{ message: string; report: Report }> => {
-    const response = await fetch(`${API_BASE_URL}/reports/${id}/status`, {
+    return apiRequest<{ message: string; report: Report }>(`/reports/${id}/status`, {
       method: 'PUT',
-      headers: getAuthHeaders(),
       body: JSON.stringify({ status, comments })
     });
-    
-    return handleResponse<{ message: string; report: Report }>(response);
   }
 };
 
@@ -647,11 +322,7 @@ export const attendanceAPI = {
    * @returns Promise with user's attendance records
    */
   getAttendance: async (): Promise<{ attendance: Record<string, Attendance> }> => {
-    const response = await fetch(`${API_BASE_URL}/attendance`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ attendance: Record<string, Attendance> }>(response);
+    return apiRequest<{ attendance: Record<string, Attendance> }>(`/attendance`);
   },
 
   /**
@@ -660,11 +331,7 @@ export const attendanceAPI = {
    * @returns Promise with current attendance status
    */
   getCurrentStatus: async (): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/current-status`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<any>(response);
+    return apiRequest<any>(`/attendance/current-status`);
   },
 
   /**
@@ -673,11 +340,7 @@ export const attendanceAPI = {
    * @returns Promise with today's summary
    */
   getTodaySummary: async (): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/today-summary`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<any>(response);
+    return apiRequest<any>(`/attendance/today-summary`);
   },
 
   /**
@@ -686,11 +349,7 @@ export const attendanceAPI = {
    * @returns Promise with team status array
    */
   getTeamStatus: async (): Promise<any[]> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/team-status`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<any[]>(response);
+    return apiRequest<any[]>(`/attendance/team-status`);
   },
 
   /**
@@ -700,13 +359,10 @@ export const attendanceAPI = {
    * @returns Promise with break confirmation
    */
   startBreak: async (type: string): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/break/start`, {
+    return apiRequest<any>(`/attendance/break/start`, {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify({ type })
     });
-    
-    return handleResponse<any>(response);
   },
 
   /**
@@ -715,12 +371,9 @@ export const attendanceAPI = {
    * @returns Promise with break end confirmation
    */
   endBreak: async (): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/break/end`, {
-      method: 'POST',
-      headers: getAuthHeaders()
+    return apiRequest<any>(`/attendance/break/end`, {
+      method: 'POST'
     });
-    
-    return handleResponse<any>(response);
   },
 
   /**
@@ -730,13 +383,10 @@ export const attendanceAPI = {
    * @returns Promise with request confirmation
    */
   requestApproval: async (request: any): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/approval/request`, {
+    return apiRequest<any>(`/attendance/approval/request`, {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify(request)
     });
-    
-    return handleResponse<any>(response);
   },
 
   /**
@@ -745,11 +395,7 @@ export const attendanceAPI = {
    * @returns Promise with pending approvals array
    */
   getPendingApprovals: async (): Promise<any[]> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/approval/pending`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<any[]>(response);
+    return apiRequest<any[]>(`/attendance/approval/pending`);
   },
 
   /**
@@ -760,13 +406,10 @@ export const attendanceAPI = {
    * @returns Promise with approval confirmation
    */
   approveRequest: async (requestId: string, approved: boolean): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/approval/${requestId}`, {
+    return apiRequest<any>(`/attendance/approval/${requestId}`, {
       method: 'PUT',
-      headers: getAuthHeaders(),
       body: JSON.stringify({ approved })
     });
-    
-    return handleResponse<any>(response);
   },
 
   /**
@@ -776,13 +419,10 @@ export const attendanceAPI = {
    * @returns Promise with attendance reports
    */
   getAttendanceReports: async (filters: any): Promise<any[]> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/reports`, {
+    return apiRequest<any[]>(`/attendance/reports`, {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify(filters)
     });
-    
-    return handleResponse<any[]>(response);
   },
 
   /**
@@ -793,13 +433,11 @@ export const attendanceAPI = {
    * @returns Promise with report blob
    */
   exportReport: async (filters: any, format: 'pdf' | 'excel'): Promise<Blob> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/reports/export`, {
+    return apiRequest<Blob>(`/attendance/reports/export`, {
       method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ filters, format })
+      body: JSON.stringify({ filters, format }),
+      responseType: 'blob'
     });
-    
-    return response.blob();
   },
 
   /**
@@ -809,14 +447,8 @@ export const attendanceAPI = {
    * @param photo - Optional photo verification (base64)
    * @returns Promise with punch in confirmation and attendance data
    */
-  punchIn: async (location: string, photo?: string): Promise<{ message: string; punchInTime: string; attendance: Attendance }> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/punch-in`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ location, photo })
-    });
-    
-    return handleResponse<{ message: string; punchInTime: string; attendance: Attendance }>(response);
+  punchIn: async (location: string, photo?: string) => {
+    return apiClient.request('POST /api/attendance/punch-in', { body: { location, photo } });
   },
 
   /**
@@ -825,14 +457,8 @@ export const attendanceAPI = {
    * @param location - GPS coordinates or location description
    * @returns Promise with punch out confirmation and calculated hours worked
    */
-  punchOut: async (location: string): Promise<{ message: string; punchOutTime: string; hoursWorked: number; attendance: Attendance }> => {
-    const response = await fetch(`${API_BASE_URL}/attendance/punch-out`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ location })
-    });
-    
-    return handleResponse<{ message: string; punchOutTime: string; hoursWorked: number; attendance: Attendance }>(response);
+  punchOut: async (location: string) => {
+    return apiClient.request('POST /api/attendance/punch-out', { body: { location } });
   }
 };
 
@@ -849,12 +475,8 @@ export const adminAPI = {
    * 
    * @returns Promise with array of all users
    */
-  getAllUsers: async (): Promise<{ users: User[] }> => {
-    const response = await fetch(`${API_BASE_URL}/admin/users`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ users: User[] }>(response);
+  getAllUsers: async () => {
+    return apiClient.request('GET /api/admin/users');
   },
 
   /**
@@ -862,12 +484,8 @@ export const adminAPI = {
    * 
    * @returns Promise with array of all todos
    */
-  getAllTodos: async (): Promise<{ todos: Todo[] }> => {
-    const response = await fetch(`${API_BASE_URL}/admin/todos`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ todos: Todo[] }>(response);
+  getAllTodos: async () => {
+    return apiClient.request('GET /api/admin/todos');
   },
 
   /**
@@ -875,12 +493,8 @@ export const adminAPI = {
    * 
    * @returns Promise with array of all reports
    */
-  getAllReports: async (): Promise<{ reports: Report[] }> => {
-    const response = await fetch(`${API_BASE_URL}/admin/reports`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ reports: Report[] }>(response);
+  getAllReports: async () => {
+    return apiClient.request('GET /api/admin/reports');
   },
 
   /**
@@ -888,12 +502,8 @@ export const adminAPI = {
    * 
    * @returns Promise with all users' attendance records
    */
-  getAllAttendance: async (): Promise<{ attendance: Record<string, Record<string, Attendance>> }> => {
-    const response = await fetch(`${API_BASE_URL}/admin/attendance`, {
-      headers: getAuthHeaders()
-    });
-    
-    return handleResponse<{ attendance: Record<string, Record<string, Attendance>> }>(response);
+  getAllAttendance: async () => {
+    return apiClient.request('GET /api/admin/attendance');
   },
 
   /**
@@ -903,35 +513,73 @@ export const adminAPI = {
    * @returns Promise with deletion confirmation
    */
   deleteUser: async (id: string): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/admin/users/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders(),
+    return apiRequest<{ message: string }>(`/admin/users/${id}`, {
+      method: 'DELETE'
     });
-    return handleResponse<{ message: string }>(response);
   },
 
   /**
-   * Update a user by ID (admin only)
+   * Create a user (admin only); the account gets a random password
+   * 
+   * @param userData - Account and HR fields; email and name are required
+   * @returns Promise with the created user
+   */
+  createUser: async (userData: ApiOperations['POST /api/admin/users']['body']) => {
+    return apiClient.request('POST /api/admin/users', { body: userData });
+  },
+
+  /**
+   * Update a user by ID (admin only); only the fields given are changed
    * 
    * @param id - User ID to update
    * @param userData - User data to update
    * @returns Promise with updated user data
    */
-  updateUser: async (id: string, userData: { name: string; role: string; department: string; status: string }): Promise<{ user: User; message: string }> => {
-    const response = await fetch(`${API_BASE_URL}/admin/users/${id}`, {
-      method: 'PUT',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(userData),
-    });
-    return handleResponse<{ user: User; message: string }>(response);
+  updateUser: async (id: string, userData: ApiOperations['PUT /api/admin/users/{id}']['body']) => {
+    return apiClient.request('PUT /api/admin/users/{id}', { params: { id }, body: userData });
+  }
+};
+
+/**
+ * Permission grants API methods
+ * Explicit grants are kept on the server: any signed-in user reads the
+ * grants made to them, only admins create or revoke grants
+ */
+export const permissionsAPI = {
+  /**
+   * Get permission grants (every grant for admins, the user's own otherwise)
+   *
+   * @returns Promise with the grants
+   */
+  getGrants: async () => {
+    return apiClient.request('GET /api/permission-grants');
+  },
+
+  /**
+   * Create a permission grant (admin only); the server records who made it and when
+   *
+   * @param grant - Grant to create
+   * @returns Promise with the stored grant
+   */
+  createGrant: async (grant: ApiOperations['POST /api/permission-grants']['body']) => {
+    return apiClient.request('POST /api/permission-grants', { body: grant });
+  },
+
+  /**
+   * Revoke a permission grant (admin only)
+   *
+   * @param id - Grant ID to revoke
+   * @returns Promise with revocation confirmation
+   */
+  revokeGrant: async (id: string) => {
+    return apiClient.request('DELETE /api/permission-grants/{id}', { params: { id } });
   }
 };
 
 // Health check
 export const healthAPI = {
-  check: async (): Promise<{ status: string; message: string; timestamp: string }> => {
-    const response = await fetch(`${API_BASE_URL}/health`);
-    return handleResponse<{ status: string; message: string; timestamp: string }>(response);
+  check: async () => {
+    return apiClient.request('GET /api/health');
   }
 };
 
@@ -941,77 +589,77 @@ export const healthAPI = {
  * Hook for fetching todos with real-time updates
  */
 export const useTodos = () => {
-  return useApiQuery<{ todos: Todo[] }>('/todos');
+  return useApiQuery('GET /api/todos');
 };
 
 /**
  * Hook for creating todos
  */
 export const useCreateTodo = () => {
-  return useApiMutation<{ message: string; todo: Todo }>('/todos', 'POST');
+  return useApiMutation('POST /api/todos');
 };
 
 /**
  * Hook for updating todos
  */
 export const useUpdateTodo = () => {
-  return useApiMutation<{ message: string; todo: Todo }>('/todos', 'PUT');
+  return useApiMutation('PUT /api/todos/{id}');
 };
 
 /**
  * Hook for deleting todos
  */
 export const useDeleteTodo = () => {
-  return useApiMutation<{ message: string }>('/todos', 'DELETE');
+  return useApiMutation('DELETE /api/todos/{id}');
 };
 
 /**
  * Hook for fetching reports
  */
 export const useReports = () => {
-  return useApiQuery<{ reports: Report[] }>('/reports');
+  return useApiQuery('GET /api/reports');
 };
 
 /**
  * Hook for creating reports
  */
 export const useCreateReport = () => {
-  return useApiMutation<{ message: string; report: Report }>('/reports', 'POST');
+  return useApiMutation('POST /api/reports');
 };
 
 /**
  * Hook for current attendance status
  */
 export const useAttendance = () => {
-  return useApiQuery<CurrentAttendanceStatus>('/api/attendance/current');
+  return useRequestQuery<CurrentAttendanceStatus>('/api/attendance/current');
 };
 
 /**
  * Hook for punch in operation
  */
 export const usePunchIn = () => {
-  return useApiMutation<{ success: boolean; message: string; data: Attendance }>('/api/attendance/punch-in', 'POST');
+  return useApiMutation('POST /api/attendance/punch-in');
 };
 
 /**
  * Hook for punch out operation
  */
 export const usePunchOut = () => {
-  return useApiMutation<{ success: boolean; message: string; data: Attendance }>('/api/attendance/punch-out', 'POST');
+  return useApiMutation('POST /api/attendance/punch-out');
 };
 
 /**
  * Hook for attendance history
  */
 export const useAttendanceHistory = () => {
-  return useApiQuery<{ success: boolean; data: Attendance[] }>('/api/attendance/history');
+  return useRequestQuery<{ success: boolean; data: Attendance[] }>('/api/attendance/history');
 };
 
 /**
  * Hook for team status
  */
 export const useTeamStatus = () => {
-  return useApiQuery<{ success: boolean; data: TeamStatus[] }>('/api/attendance/team/status');
+  return useRequestQuery<{ success: boolean; data: TeamStatus[] }>('/api/attendance/team/status');
 };
 
 /**
@@ -1019,8 +667,8 @@ export const useTeamStatus = () => {
  */
 export const useBreakManagement = () => {
   return {
-    startBreak: useApiMutation<{ message: string }>('/api/attendance/break/start', 'POST'),
-    endBreak: useApiMutation<{ message: string }>('/api/attendance/break/end', 'POST')
+    startBreak: useRequestMutation<{ message: string }>('/api/attendance/break/start', 'POST'),
+    endBreak: useRequestMutation<{ message: string }>('/api/attendance/break/end', 'POST')
   };
 };
 
@@ -1028,7 +676,7 @@ export const useBreakManagement = () => {
  * Hook for approval requests
  */
 export const useApprovalRequests = () => {
-  return useApiMutation<{ message: string }>('/api/attendance/approval/request', 'POST');
+  return useRequestMutation<{ message: string }>('/api/attendance/approval/request', 'POST');
 };
 
 // ===== APPROVAL API FUNCTIONS =====
@@ -1268,7 +916,7 @@ export const getChatSettings = async () => {
 export const updateChatSettings = async (settings: any) => {
   return apiRequest<any>('/api/chat/settings', {
     method: 'PUT',
-    body: settings
+    body: JSON.stringify(settings)
   });
 };
 
@@ -1292,8 +940,9 @@ export const createChatChannel = async (channel: any) => {
 /**
  * Transform API message to frontend message format
  */
-const transformMessage = (apiMessage: any): any => ({
+export const transformMessage = (apiMessage: any): any => ({
   id: apiMessage.id,
+  clientId: apiMessage.client_id ?? apiMessage.metadata?.clientMessageId,
   channelId: apiMessage.channel_id,
   senderId: apiMessage.sender_id,
   content: apiMessage.content,
@@ -1327,10 +976,12 @@ const transformMessage = (apiMessage: any): any => ({
 });
 
 /**
- * Get messages for a channel
+ * Get messages for a channel: the latest page, or with `after` every message
+ * created at or after that timestamp (oldest first) for incremental sync
  */
-export const getChannelMessages = async (channelId: string) => {
-  const response = await apiRequest<any[]>(`/api/chat/channels/${channelId}/messages`);
+export const getChannelMessages = async (channelId: string, after?: string) => {
+  const query = after ? `?${new URLSearchParams({ after })}` : '';
+  const response = await apiRequest<any[]>(`/api/chat/channels/${channelId}/messages${query}`);
   return response.map(transformMessage);
 };
 
@@ -1365,7 +1016,7 @@ export const getHelpDeskRequests = async () => {
 export const createHelpDeskRequest = async (request: any) => {
   return apiRequest<any>('/api/chat/help-desk/requests', {
     method: 'POST',
-    body: request
+    body: JSON.stringify(request)
   });
 };
 
@@ -1375,7 +1026,7 @@ export const createHelpDeskRequest = async (request: any) => {
 export const sendHelpDeskMessage = async (requestId: string, message: any) => {
   return apiRequest<any>(`/api/chat/help-desk/requests/${requestId}/messages`, {
     method: 'POST',
-    body: message
+    body: JSON.stringify(message)
   });
 };
 
@@ -1431,6 +1082,7 @@ const api = {
   reports: reportsAPI,
   attendance: attendanceAPI,
   admin: adminAPI,
+  permissions: permissionsAPI,
   health: healthAPI,
   approval: {
     getStats: getApprovalStats,
@@ -0,0 +1,758 @@
+/**
+ * Approval Workflow Engine
+ *
+ * Runs approval requests through their configured ApprovalWorkflow:
+ * - Evaluates step, auto-approve and action conditions against the request
+ * - Resolves approvers (manager, group leaders, roles, admins) from the
+ *   member directory and group hierarchy, honouring active delegations
+ * - Advances steps on decisions and applies auto-approve and escalation timers
+ * - Records every transition as an ApprovalAuditLog entry
+ *
+ * All functions are pure: they return a new ApprovalInstance and never
+ * mutate the one passed in.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  ApprovalAuditLog,
+  ApprovalCondition,
+  ApprovalDecision,
+  ApprovalDirectory,
+  ApprovalInstance,
+  ApprovalRequest,
+  ApprovalRequestType,
+  ApprovalStatus,
+  ApprovalStep,
+  ApprovalStepState,
+  ApprovalWorkflow,
+  ApproverType,
+  DelegationStatus,
+  EscalationRule,
+  ExpenseClaim,
+  LeaveRequest,
+  Member,
+  MemberRole,
+  UserRole
+} from '../types';
+import { getMemberPolicies, getWidestScope } from './authorization';
+
+export class ApprovalEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalEngineError';
+  }
+}
+
+const SYSTEM_ACTOR = 'system';
+const HOUR_MS = 60 * 60 * 1000;
+
+const USER_ROLE_TO_MEMBER_ROLE: Record<UserRole, MemberRole> = {
+  [UserRole.ADMIN]: MemberRole.ADMIN,
+  [UserRole.EDITOR]: MemberRole.LEADER,
+  [UserRole.VIEWER]: MemberRole.EMPLOYEE,
+};
+
+const TERMINAL_STATUSES = [
+  ApprovalStatus.APPROVED,
+  ApprovalStatus.REJECTED,
+  ApprovalStatus.CANCELLED,
+  ApprovalStatus.EXPIRED,
+];
+
+// ===== CONDITIONS =====
+
+const getFieldValue = (request: ApprovalRequest, field: string): any => {
+  const read = (source: any) =>
+    field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+  const direct = read(request);
+  return direct !== undefined ? direct : read(request.requestData);
+};
+
+const isNumeric = (value: any) => value !== '' && value !== null && !isNaN(Number(value));
+
+const toList = (value: any): any[] =>
+  Array.isArray(value) ? value : String(value).split(',').map(item => item.trim());
+
+const looselyEqual = (a: any, b: any) =>
+  isNumeric(a) && isNumeric(b) ? Number(a) === Number(b) : String(a) === String(b);
+
+const evaluateCondition = (condition: ApprovalCondition, request: ApprovalRequest): boolean => {
+  const actual = getFieldValue(request, condition.field);
+  switch (condition.operator) {
+    case 'equals':
+      return looselyEqual(actual, condition.value);
+    case 'not_equals':
+      return !looselyEqual(actual, condition.value);
+    case 'greater_than':
+      return isNumeric(actual) && Number(actual) > Number(condition.value);
+    case 'less_than':
+      return isNumeric(actual) && Number(actual) < Number(condition.value);
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(item => looselyEqual(item, condition.value))
+        : String(actual ?? '').toLowerCase().includes(String(condition.value).toLowerCase());
+    case 'in':
+      return toList(condition.value).some(item => looselyEqual(actual, item));
+    case 'not_in':
+      return !toList(condition.value).some(item => looselyEqual(actual, item));
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate a condition list against a request.
+ * Fields are read from the request first, then from requestData
+ * (dot paths allowed). Each condition's logicalOperator joins it to the
+ * result of the conditions before it; 'and' is the default.
+ * An empty list always passes.
+ */
+export const evaluateConditions = (conditions: ApprovalCondition[] | undefined, request: ApprovalRequest): boolean => {
+  if (!conditions || conditions.length === 0) return true;
+  return conditions.slice(1).reduce(
+    (result, condition) => condition.logicalOperator === 'or'
+      ? result || evaluateCondition(condition, request)
+      : result && evaluateCondition(condition, request),
+    evaluateCondition(conditions[0], request)
+  );
+};
+
+// ===== DIRECTORY LOOKUPS =====
+
+const findMember = (directory: ApprovalDirectory, id: string): Member | undefined =>
+  directory.members.find(member => member.id === id || member.userId === id);
+
+const isAdminMember = (member?: Member) =>
+  !!member && (member.isAdmin || member.role === MemberRole.ADMIN);
+
+const toUserRole = (member?: Member): UserRole => {
+  if (isAdminMember(member)) return UserRole.ADMIN;
+  return member?.role === MemberRole.LEADER ? UserRole.EDITOR : UserRole.VIEWER;
+};
+
+const getGroupLeaders = (directory: ApprovalDirectory, groupId: string): string[] => {
+  const leaders = directory.groupMembers
+    .filter(gm => gm.groupId === groupId && gm.isActive && gm.isLeader && gm.hasApprovalAuthority)
+    .map(gm => gm.memberId);
+  if (leaders.length) return leaders;
+  const group = directory.groups.find(g => g.id === groupId);
+  return group?.leaderId ? [group.leaderId] : [];
+};
+
+const getRequesterGroupId = (directory: ApprovalDirectory, request: ApprovalRequest): string | undefined => {
+  if (request.requesterGroupId) return request.requesterGroupId;
+  const member = findMember(directory, request.requesterId);
+  return member?.groups[0] ||
+    directory.groupMembers.find(gm => gm.isActive && gm.memberId === (member?.id ?? request.requesterId))?.groupId;
+};
+
+/**
+ * Leaders per level, from the requester's own group up to the top-level group.
+ * Levels whose only leader is the requester are skipped, so a leader's own
+ * request goes to the level above.
+ */
+export const getLeaderChain = (directory: ApprovalDirectory, request: ApprovalRequest): string[][] => {
+  const requester = findMember(directory, request.requesterId);
+  const isRequester = (id: string) => id === request.requesterId || id === requester?.id;
+  const chain: string[][] = [];
+  const visited = new Set<string>();
+  let groupId = getRequesterGroupId(directory, request);
+
+  while (groupId && !visited.has(groupId)) {
+    const currentId: string = groupId;
+    visited.add(currentId);
+    const leaders = getGroupLeaders(directory, currentId).filter(id => !isRequester(id));
+    if (leaders.length) chain.push(leaders);
+    groupId = directory.groups.find(g => g.id === currentId)?.parentGroupId;
+  }
+  return chain;
+};
+
+const getManagerChain = (directory: ApprovalDirectory, request: ApprovalRequest): string[] => {
+  const chain: string[] = [];
+  let current = findMember(directory, request.requesterId);
+  while (current?.managerId && !chain.includes(current.managerId)) {
+    chain.push(current.managerId);
+    current = findMember(directory, current.managerId);
+  }
+  return chain;
+};
+
+const getAdmins = (directory: ApprovalDirectory): string[] =>
+  directory.members.filter(member => member.status === 'active' && isAdminMember(member)).map(member => member.id);
+
+const resolveDelegate = (directory: ApprovalDirectory, approverId: string, type: ApprovalRequestType, now: Date): string => {
+  const delegation = (directory.delegations || []).find(d =>
+    d.isActive &&
+    d.delegatorId === approverId &&
+    d.requestType === type &&
+    (d.status === DelegationStatus.ACTIVE || d.status === DelegationStatus.APPROVED) &&
+    new Date(d.startDate).getTime() <= now.getTime() &&
+    now.getTime() <= new Date(d.endDate).getTime() + 24 * HOUR_MS
+  );
+  return delegation ? delegation.delegateId : approverId;
+};
+
+const finalizeApprovers = (
+  ids: string[],
+  directory: ApprovalDirectory,
+  workflow: ApprovalWorkflow,
+  request: ApprovalRequest,
+  now: Date
+): string[] => {
+  const requester = findMember(directory, request.requesterId);
+  const result: string[] = [];
+  ids.forEach(id => {
+    const approverId = workflow.allowDelegation ? resolveDelegate(directory, id, request.type, now) : id;
+    const member = findMember(directory, approverId);
+    const isSelf = approverId === request.requesterId || approverId === requester?.id;
+    if (member && member.status !== 'active') return;
+    if (isSelf && !workflow.allowSelfApproval) return;
+    if (!result.includes(approverId)) result.push(approverId);
+  });
+  return result;
+};
+
+/**
+ * Resolve the member IDs who may act on a step for a request
+ */
+export const resolveApprovers = (
+  step: ApprovalStep,
+  request: ApprovalRequest,
+  workflow: ApprovalWorkflow,
+  directory: ApprovalDirectory,
+  now: Date = new Date()
+): string[] => {
+  const leaderChain = getLeaderChain(directory, request);
+  const managerChain = getManagerChain(directory, request);
+  let ids: string[] = [];
+
+  switch (step.approverType) {
+    case ApproverType.SPECIFIC:
+      ids = step.approverIds || [];
+      break;
+    case ApproverType.ROLE: {
+      const roles = (step.approverRoles || []).map(role => USER_ROLE_TO_MEMBER_ROLE[role]);
+      ids = directory.members
+        .filter(member => roles.includes(member.role) || (roles.includes(MemberRole.ADMIN) && member.isAdmin))
+        .map(member => member.id);
+      break;
+    }
+    case ApproverType.GROUP:
+      ids = (step.approverGroups || []).reduce<string[]>(
+        (all, groupId) => all.concat(getGroupLeaders(directory, groupId)), []
+      );
+      break;
+    case ApproverType.MANAGER:
+      ids = managerChain.length ? [managerChain[0]] : leaderChain[0] || [];
+      break;
+    case ApproverType.UPPER_MANAGER:
+      ids = managerChain.length > 1 ? [managerChain[1]] : leaderChain[1] || [];
+      break;
+    case ApproverType.GROUP_LEADER:
+      ids = leaderChain[0] || [];
+      break;
+    case ApproverType.UPPER_GROUP_LEADER:
+      ids = leaderChain[1] || [];
+      break;
+    case ApproverType.TOP_GROUP_LEADER:
+      ids = leaderChain[leaderChain.length - 1] || [];
+      break;
+    case ApproverType.ANY_LEADER:
+      ids = leaderChain.reduce<string[]>((all, level) => all.concat(level), []);
+      break;
+    case ApproverType.ANY_MANAGER:
+      ids = managerChain.length ? managerChain : leaderChain.reduce<string[]>((all, level) => all.concat(level), []);
+      break;
+    case ApproverType.ADMIN:
+      ids = getAdmins(directory);
+      break;
+  }
+
+  return finalizeApprovers(ids, directory, workflow, request, now);
+};
+
+// ===== INSTANCE HELPERS =====
+
+const cloneInstance = (instance: ApprovalInstance): ApprovalInstance => ({
+  request: { ...instance.request },
+  steps: instance.steps.map(step => ({ ...step, approverIds: [...step.approverIds], firedEscalations: [...step.firedEscalations] })),
+  auditLog: [...instance.auditLog],
+});
+
+const getSortedSteps = (workflow: ApprovalWorkflow) =>
+  [...workflow.steps].sort((a, b) => a.stepNumber - b.stepNumber);
+
+const getStepDefinition = (instance: ApprovalInstance, state: ApprovalStepState): ApprovalStep =>
+  instance.request.workflow.steps.find(step => step.id === state.stepId)!;
+
+const hoursBetween = (from: string, to: Date) => (to.getTime() - new Date(from).getTime()) / HOUR_MS;
+
+const addAudit = (
+  instance: ApprovalInstance,
+  directory: ApprovalDirectory,
+  action: string,
+  performedBy: string,
+  now: Date,
+  details: any,
+  previousStatus?: ApprovalStatus
+) => {
+  const member = performedBy === SYSTEM_ACTOR ? undefined : findMember(directory, performedBy);
+  const entry: ApprovalAuditLog = {
+    id: `${instance.request.id}-audit-${instance.auditLog.length + 1}`,
+    requestId: instance.request.id,
+    action,
+    performedBy,
+    performedByName: member?.name || (performedBy === SYSTEM_ACTOR ? 'System' : performedBy),
+    performedByRole: performedBy === SYSTEM_ACTOR ? UserRole.ADMIN : toUserRole(member),
+    details,
+    timestamp: now.toISOString(),
+    previousStatus,
+    newStatus: instance.request.status,
+  };
+  instance.auditLog.push(entry);
+};
+
+const setStatus = (instance: ApprovalInstance, status: ApprovalStatus, now: Date) => {
+  instance.request.status = status;
+  instance.request.updatedAt = now.toISOString();
+};
+
+/**
+ * The step currently waiting for a decision, if any
+ */
+export const getActiveStep = (instance: ApprovalInstance): ApprovalStepState | undefined =>
+  instance.steps.find(step => step.status === 'active');
+
+/**
+ * Whether a member may decide the active step: one of its approvers, or
+ * anyone allowed to approve requests company-wide (admins, explicit grants)
+ */
+export const canActOnRequest = (instance: ApprovalInstance, memberId: string, directory: ApprovalDirectory): boolean => {
+  const active = getActiveStep(instance);
+  if (!active) return false;
+  const member = findMember(directory, memberId);
+  if (active.approverIds.includes(member?.id ?? memberId)) return true;
+  if (!member) return false;
+  const policies = getMemberPolicies(member, { ...directory, grants: directory.grants || [] });
+  return getWidestScope(policies, 'approve', 'approval') === 'all';
+};
+
+const finishApproved = (instance: ApprovalInstance, directory: ApprovalDirectory, by: string, now: Date) => {
+  const previous = instance.request.status;
+  setStatus(instance, ApprovalStatus.APPROVED, now);
+  instance.request.approvedAt = now.toISOString();
+  instance.request.approvedBy = by;
+  addAudit(instance, directory, 'request_approved', by, now, {}, previous);
+};
+
+/**
+ * Activate the next waiting step, skipping steps
+ * whose conditions do not match and optional steps nobody can approve.
+ */
+const activateNextStep = (instance: ApprovalInstance, directory: ApprovalDirectory, now: Date, lastActor: string) => {
+  const { request } = instance;
+  for (const state of instance.steps) {
+    if (state.status !== 'waiting') continue;
+    const step = getStepDefinition(instance, state);
+
+    if (!evaluateConditions(step.conditions, request)) {
+      Object.assign(state, { status: 'skipped', completedAt: now.toISOString(), decidedBy: SYSTEM_ACTOR, comment: 'Conditions not met' });
+      addAudit(instance, directory, 'step_skipped', SYSTEM_ACTOR, now, { stepNumber: step.stepNumber, stepName: step.name, reason: 'Conditions not met' });
+      continue;
+    }
+
+    let approverIds = resolveApprovers(step, request, request.workflow, directory, now);
+    if (!approverIds.length && !step.isRequired) {
+      Object.assign(state, { status: 'skipped', completedAt: now.toISOString(), decidedBy: SYSTEM_ACTOR, comment: 'No approver available' });
+      addAudit(instance, directory, 'step_skipped', SYSTEM_ACTOR, now, { stepNumber: step.stepNumber, stepName: step.name, reason: 'No approver available' });
+      continue;
+    }
+    if (!approverIds.length) {
+      approverIds = finalizeApprovers(getAdmins(directory), directory, request.workflow, request, now);
+      addAudit(instance, directory, 'approvers_unresolved', SYSTEM_ACTOR, now, {
+        stepNumber: step.stepNumber, approverType: step.approverType, fallback: 'admin',
+      });
+    }
+
+    Object.assign(state, { status: 'active', approverIds, startedAt: now.toISOString() });
+    request.currentStep = step.stepNumber;
+    addAudit(instance, directory, 'step_started', SYSTEM_ACTOR, now, {
+      stepNumber: step.stepNumber, stepName: step.name, approverIds,
+    });
+    return;
+  }
+
+  finishApproved(instance, directory, lastActor, now);
+};
+
+// ===== ESCALATION =====
+
+const resolveEscalationTargets = (
+  instance: ApprovalInstance,
+  state: ApprovalStepState,
+  rule: Pick<EscalationRule, 'escalationType' | 'escalationTarget'>,
+  directory: ApprovalDirectory,
+  now: Date
+): string[] => {
+  const { request } = instance;
+  const chain = getLeaderChain(directory, request);
+  let ids: string[];
+
+  switch (rule.escalationType) {
+    case 'specific_user':
+      ids = rule.escalationTarget ? [rule.escalationTarget] : [];
+      break;
+    case 'admin':
+      ids = getAdmins(directory);
+      break;
+    case 'group_leader':
+      ids = chain[0] || [];
+      break;
+    case 'next_level':
+    default: {
+      // One level above the highest level that already holds the step
+      let level = -1;
+      chain.forEach((leaders, index) => {
+        if (leaders.some(id => state.approverIds.includes(id))) level = index;
+      });
+      ids = chain[level + 1] || getAdmins(directory);
+      break;
+    }
+  }
+  return finalizeApprovers(ids, directory, request.workflow, request, now);
+};
+
+const escalateStep = (
+  instance: ApprovalInstance,
+  state: ApprovalStepState,
+  rule: Pick<EscalationRule, 'id' | 'name' | 'escalationType' | 'escalationTarget'>,
+  directory: ApprovalDirectory,
+  by: string,
+  now: Date
+) => {
+  const targets = resolveEscalationTargets(instance, state, rule, directory, now);
+  const previousApprovers = state.approverIds;
+  if (targets.length) {
+    state.approverIds = targets;
+  }
+  state.escalationLevel += 1;
+  state.escalatedAt = now.toISOString();
+  if (rule.id) state.firedEscalations.push(rule.id);
+  addAudit(instance, directory, 'step_escalated', by, now, {
+    stepNumber: state.stepNumber,
+    rule: rule.name,
+    escalationType: rule.escalationType,
+    from: previousApprovers,
+    to: state.approverIds,
+  });
+};
+
+// ===== PUBLIC API =====
+
+/**
+ * Submit a request into its workflow.
+ * Applies workflow-level auto-approval, then activates the first step.
+ */
+export const startApproval = (
+  request: ApprovalRequest,
+  directory: ApprovalDirectory,
+  now: Date = new Date()
+): ApprovalInstance => {
+  const workflow = request.workflow;
+  if (!workflow.isActive) {
+    throw new ApprovalEngineError(`Workflow "${workflow.name}" is not active`);
+  }
+
+  const steps = getSortedSteps(workflow);
+  const instance: ApprovalInstance = {
+    request: {
+      ...request,
+      status: ApprovalStatus.PENDING,
+      currentStep: 0,
+      totalSteps: steps.length,
+      submittedAt: request.submittedAt || now.toISOString(),
+      updatedAt: now.toISOString(),
+    },
+    steps: steps.map(step => ({
+      stepId: step.id,
+      stepNumber: step.stepNumber,
+      status: 'waiting',
+      approverIds: [],
+      escalationLevel: 0,
+      firedEscalations: [],
+    })),
+    auditLog: [],
+  };
+
+  addAudit(instance, directory, 'submitted', request.requesterId, now, { workflowId: workflow.id, workflowName: workflow.name });
+
+  if (workflow.autoApprove && evaluateConditions(workflow.autoApproveConditions, instance.request)) {
+    instance.steps.forEach(state => {
+      Object.assign(state, { status: 'skipped', completedAt: now.toISOString(), decidedBy: SYSTEM_ACTOR, comment: 'Auto-approved' });
+    });
+    addAudit(instance, directory, 'auto_approved', SYSTEM_ACTOR, now, { conditions: workflow.autoApproveConditions?.length || 0 });
+    finishApproved(instance, directory, SYSTEM_ACTOR, now);
+    return instance;
+  }
+
+  activateNextStep(instance, directory, now, SYSTEM_ACTOR);
+  return instance;
+};
+
+/**
+ * Apply an approver's decision to the active step
+ */
+export const recordDecision = (
+  current: ApprovalInstance,
+  decision: ApprovalDecision,
+  directory: ApprovalDirectory,
+  now: Date = new Date()
+): ApprovalInstance => {
+  if (TERMINAL_STATUSES.includes(current.request.status)) {
+    throw new ApprovalEngineError(`Request is already ${current.request.status}`);
+  }
+  if (!canActOnRequest(current, decision.actorId, directory)) {
+    throw new ApprovalEngineError('You are not an approver for the current step');
+  }
+
+  const instance = cloneInstance(current);
+  const state = getActiveStep(instance)!;
+  const step = getStepDefinition(instance, state);
+  const actor = findMember(directory, decision.actorId)?.id ?? decision.actorId;
+  const isOverride = !state.approverIds.includes(actor);
+  const actionDef = step.actions.find(action => action.type === decision.action);
+
+  if (actionDef?.requiresComment && !decision.comment?.trim()) {
+    throw new ApprovalEngineError(`A comment is required to ${actionDef.label.toLowerCase()}`);
+  }
+  if (actionDef?.conditions && !evaluateConditions(actionDef.conditions, instance.request)) {
+    throw new ApprovalEngineError(`${actionDef.label} is not available for this request`);
+  }
+
+  const previous = instance.request.status;
+  switch (decision.action) {
+    case 'approve': {
+      Object.assign(state, { status: 'approved', completedAt: now.toISOString(), decidedBy: actor, comment: decision.comment });
+      setStatus(instance, ApprovalStatus.IN_REVIEW, now);
+      addAudit(instance, directory, 'step_approved', actor, now, {
+        stepNumber: step.stepNumber, stepName: step.name, comment: decision.comment, override: isOverride,
+      }, previous);
+      activateNextStep(instance, directory, now, actor);
+      break;
+    }
+    case 'reject': {
+      Object.assign(state, { status: 'rejected', completedAt: now.toISOString(), decidedBy: actor, comment: decision.comment });
+      setStatus(instance, ApprovalStatus.REJECTED, now);
+      instance.request.rejectedAt = now.toISOString();
+      instance.request.rejectedBy = actor;
+      instance.request.rejectionReason = decision.comment;
+      addAudit(instance, directory, 'request_rejected', actor, now, {
+        stepNumber: step.stepNumber, stepName: step.name, comment: decision.comment, override: isOverride,
+      }, previous);
+      break;
+    }
+    case 'delegate': {
+      if (!instance.request.workflow.allowDelegation || !step.canDelegate) {
+        throw new ApprovalEngineError('This step cannot be delegated');
+      }
+      const delegate = decision.delegateTo && findMember(directory, decision.delegateTo);
+      if (!delegate || delegate.status !== 'active') {
+        throw new ApprovalEngineError('Choose an active member to delegate to');
+      }
+      state.approverIds = state.approverIds.filter(id => id !== actor).concat(
+        state.approverIds.includes(delegate.id) ? [] : [delegate.id]
+      );
+      addAudit(instance, directory, 'step_delegated', actor, now, {
+        stepNumber: step.stepNumber, delegateTo: delegate.id, comment: decision.comment,
+      });
+      break;
+    }
+    case 'escalate': {
+      const manualRule = (instance.request.workflow.escalationRules || [])
+        .find(rule => rule.isActive && rule.triggerType === 'manual');
+      escalateStep(instance, state, manualRule || { id: '', name: 'Manual escalation', escalationType: 'next_level' }, directory, actor, now);
+      break;
+    }
+  }
+  return instance;
+};
+
+/**
+ * Apply time-based rules to the active step:
+ * auto-approve after `autoApproveAfter` hours, escalation rules
+ * ('step_timeout' counts from step start and fires once per step,
+ * 'time_limit' counts from submission and fires once per request),
+ * and `timeLimit`, after which an optional step is skipped and a
+ * required step expires the request. Safe to call repeatedly.
+ */
+export const processApprovalTimers = (
+  current: ApprovalInstance,
+  directory: ApprovalDirectory,
+  now: Date = new Date()
+): ApprovalInstance => {
+  if (TERMINAL_STATUSES.includes(current.request.status) || !getActiveStep(current)) {
+    return current;
+  }
+
+  const instance = cloneInstance(current);
+  const rules = (instance.request.workflow.escalationRules || []).filter(rule => rule.isActive);
+  let state = getActiveStep(instance);
+
+  while (state) {
+    const step = getStepDefinition(instance, state);
+    const activeFor = hoursBetween(state.startedAt!, now);
+
+    if (step.autoApproveAfter !== undefined && activeFor >= step.autoApproveAfter) {
+      Object.assign(state, { status: 'approved', completedAt: now.toISOString(), decidedBy: SYSTEM_ACTOR, comment: 'Auto-approved after timeout' });
+      const previous = instance.request.status;
+      setStatus(instance, ApprovalStatus.IN_REVIEW, now);
+      addAudit(instance, directory, 'step_auto_approved', SYSTEM_ACTOR, now, {
+        stepNumber: step.stepNumber, stepName: step.name, afterHours: step.autoApproveAfter,
+      }, previous);
+      activateNextStep(instance, directory, now, SYSTEM_ACTOR);
+      state = getActiveStep(instance);
+      continue;
+    }
+
+    const activeState = state;
+    rules.forEach(rule => {
+      // A step timeout restarts with every step; a time limit has one deadline for the whole request
+      const fired = rule.triggerType === 'time_limit'
+        ? instance.steps.some(stepState => stepState.firedEscalations.includes(rule.id))
+        : activeState.firedEscalations.includes(rule.id);
+      if (fired || rule.triggerValue === undefined) return;
+      const elapsed = rule.triggerType === 'step_timeout'
+        ? activeFor
+        : rule.triggerType === 'time_limit' ? hoursBetween(instance.request.submittedAt, now) : -1;
+      if (elapsed >= rule.triggerValue) {
+        escalateStep(instance, activeState, rule, directory, SYSTEM_ACTOR, now);
+      }
+    });
+
+    const windowStart = state.escalatedAt || state.startedAt!;
+    if (step.timeLimit !== undefined && hoursBetween(windowStart, now) >= step.timeLimit) {
+      if (!step.isRequired) {
+        Object.assign(state, { status: 'skipped', completedAt: now.toISOString(), decidedBy: SYSTEM_ACTOR, comment: 'Time limit reached' });
+        addAudit(instance, directory, 'step_skipped', SYSTEM_ACTOR, now, { stepNumber: step.stepNumber, stepName: step.name, reason: 'Time limit reached' });
+        activateNextStep(instance, directory, now, SYSTEM_ACTOR);
+        state = getActiveStep(instance);
+        continue;
+      }
+      Object.assign(state, { status: 'expired', completedAt: now.toISOString(), decidedBy: SYSTEM_ACTOR });
+      const previous = instance.request.status;
+      setStatus(instance, ApprovalStatus.EXPIRED, now);
+      addAudit(instance, directory, 'request_expired', SYSTEM_ACTOR, now, {
+        stepNumber: step.stepNumber, stepName: step.name, timeLimit: step.timeLimit,
+      }, previous);
+    }
+    break;
+  }
+
+  return instance;
+};
+
+/**
+ * Instances waiting on a given member
+ */
+export const getPendingForApprover = (
+  instances: ApprovalInstance[],
+  memberId: string
+): ApprovalInstance[] =>
+  instances.filter(instance => getActiveStep(instance)?.approverIds.includes(memberId));
+
+// ===== ADAPTERS =====
+
+/**
+ * Wrap a leave request as an ApprovalRequest for the given workflow.
+ * requestData exposes leaveTypeId, leaveType, days, startDate, endDate
+ * and requiresApproval for workflow conditions.
+ */
+export const createLeaveApprovalRequest = (
+  leave: LeaveRequest,
+  workflow: ApprovalWorkflow,
+  requester: Member | undefined,
+  now: Date = new Date()
+): ApprovalRequest => {
+  const days = Math.round(
+    (new Date(leave.endDate).getTime() - new Date(leave.startDate).getTime()) / (24 * HOUR_MS)
+  ) + 1;
+  const timestamp = now.toISOString();
+  return {
+    id: `leave-${leave.id}`,
+    type: ApprovalRequestType.LEAVE_REQUEST,
+    title: `${leave.type.name}: ${leave.startDate} – ${leave.endDate}`,
+    description: leave.reason,
+    requesterId: requester?.id ?? leave.userId,
+    requesterName: requester?.name ?? leave.userId,
+    requesterEmail: requester?.email ?? '',
+    requesterRole: toUserRole(requester),
+    requesterGroupId: requester?.groups[0],
+    status: ApprovalStatus.PENDING,
+    priority: 'medium',
+    category: 'leave',
+    requestData: {
+      leaveTypeId: leave.type.id,
+      leaveType: leave.type.name,
+      days,
+      startDate: leave.startDate,
+      endDate: leave.endDate,
+      requiresApproval: leave.type.requiresApproval,
+    },
+    attachments: leave.attachments,
+    submittedAt: timestamp,
+    workflow,
+    currentStep: 0,
+    totalSteps: workflow.steps.length,
+    canSelfApprove: workflow.allowSelfApproval,
+    requiresDelegation: false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
+
+/**
+ * Wrap a submitted expense claim as an ApprovalRequest for the given workflow.
+ * requestData exposes amount, areaId, costCentre, categories and
+ * kilometers for workflow conditions.
+ */
+export const createExpenseApprovalRequest = (
+  claim: ExpenseClaim,
+  workflow: ApprovalWorkflow,
+  requester: Member | undefined,
+  now: Date = new Date()
+): ApprovalRequest => {
+  const timestamp = now.toISOString();
+  return {
+    id: `expense-${claim.id}`,
+    type: ApprovalRequestType.EXPENSE_CLAIM,
+    title: `${claim.title}: €${claim.total.toFixed(2)}`,
+    description: claim.lines.map(line => line.description).join('; '),
+    requesterId: requester?.id ?? claim.employeeId,
+    requesterName: requester?.name ?? claim.employeeName,
+    requesterEmail: requester?.email ?? '',
+    requesterRole: toUserRole(requester),
+    requesterGroupId: requester?.groups[0],
+    status: ApprovalStatus.PENDING,
+    priority: 'medium',
+    category: 'expense',
+    requestData: {
+      amount: claim.total,
+      areaId: claim.areaId,
+      costCentre: claim.costCentre,
+      categories: Array.from(new Set(claim.lines.map(line => line.category))),
+      kilometers: claim.lines.reduce((sum, line) => sum + (line.kilometers || 0), 0),
+    },
+    attachments: claim.lines.flatMap(line => line.receipts.map(receipt => receipt.url)),
+    submittedAt: timestamp,
+    workflow,
+    currentStep: 0,
+    totalSteps: workflow.steps.length,
+    canSelfApprove: workflow.allowSelfApproval,
+    requiresDelegation: false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
@@ -10,6 +10,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Attendance, CurrentAttendanceStatus, TeamStatus } from './api';
+import { createApiClient } from '../core/api/client';
 
 const ATTENDANCE_API_BASE = process.env.REACT_APP_ATTENDANCE_API_URL || 'http://localhost:3007/api/attendance';
 
@@ -49,24 +50,19 @@ interface BreakRequest {
   notes?: string;
 }
 
-// ===== UTILITY FUNCTIONS =====
+// ===== CLIENT =====
 
-const getAuthHeaders = () => {
-  const token = localStorage.getItem('authToken');
-  return {
-    'Content-Type': 'application/json',
-    'Authorization': token ? `Bearer ${token}` : '',
-  };
-};
+// The attendance service runs on its own host but shares auth, retries and request IDs
+const attendanceClient = createApiClient({ baseUrl: ATTENDANCE_API_BASE });
 
-const handleApiResponse = async <T>(response: Response): Promise<T> => {
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Network error' }));
-    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-  }
-  
-  const data = await response.json();
-  return data;
+const toQueryString = (params: Record<string, string | number | undefined> = {}): string => {
+  const queryParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) {
+      queryParams.append(key, String(value));
+    }
+  });
+  return queryParams.toString() ? `?${queryParams.toString()}` : '';
 };
 
 // ===== ATTENDANCE API FUNCTIONS =====
@@ -76,12 +72,7 @@ const handleApiResponse = async <T>(response: Response): Promise<T> => {
  */
 export const getCurrentAttendance = async (): Promise<CurrentAttendanceStatus> => {
   try {
-    const response = await fetch(`${ATTENDANCE_API_BASE}/current`, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-    
-    const data = await handleApiResponse<ApiResponse<CurrentAttendanceStatus>>(response);
+    const data = await attendanceClient.send<ApiResponse<CurrentAttendanceStatus>>('/current');
     return data.data || { isPunchedIn: false, currentAttendance: null };
   } catch (error) {
     console.error('Error fetching current attendance:', error);
@@ -108,15 +99,10 @@ export const punchIn = async (request: PunchInRequest): Promise<Attendance> => {
       formData.append('photo', request.photo);
     }
     
-    const response = await fetch(`${ATTENDANCE_API_BASE}/punch-in`, {
+    const data = await attendanceClient.send<ApiResponse<Attendance>>('/punch-in', {
       method: 'POST',
-      headers: {
-        'Authorization': getAuthHeaders().Authorization,
-      },
       body: formData,
     });
-    
-    const data = await handleApiResponse<ApiResponse<Attendance>>(response);
     return data.data!;
   } catch (error) {
     console.error('Error punching in:', error);
@@ -129,13 +115,10 @@ export const punchIn = async (request: PunchInRequest): Promise<Attendance> => {
  */
 export const punchOut = async (request: PunchOutRequest): Promise<Attendance> => {
   try {
-    const response = await fetch(`${ATTENDANCE_API_BASE}/punch-out`, {
+    const data = await attendanceClient.send<ApiResponse<Attendance>>('/punch-out', {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify(request),
     });
-    
-    const data = await handleApiResponse<ApiResponse<Attendance>>(response);
     return data.data!;
   } catch (error) {
     console.error('Error punching out:', error);
@@ -148,13 +131,10 @@ export const punchOut = async (request: PunchOutRequest): Promise<Attendance> =>
  */
 export const startBreak = async (request: BreakRequest): Promise<{ message: string }> => {
   try {
-    const response = await fetch(`${ATTENDANCE_API_BASE}/break/start`, {
+    const data = await attendanceClient.send<ApiResponse<{ message: string }>>('/break/start', {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify(request),
     });
-    
-    const data = await handleApiResponse<ApiResponse<{ message: string }>>(response);
     return data.data!;
   } catch (error) {
     console.error('Error starting break:', error);
@@ -167,12 +147,9 @@ export const startBreak = async (request: BreakRequest): Promise<{ message: stri
  */
 export const endBreak = async (): Promise<{ message: string }> => {
   try {
-    const response = await fetch(`${ATTENDANCE_API_BASE}/break/end`, {
+    const data = await attendanceClient.send<ApiResponse<{ message: string }>>('/break/end', {
       method: 'POST',
-      headers: getAuthHeaders(),
     });
-    
-    const data = await handleApiResponse<ApiResponse<{ message: string }>>(response);
     return data.data!;
   } catch (error) {
     console.error('Error ending break:', error);
@@ -191,23 +168,7 @@ export const getAttendanceHistory = async (params?: {
   offset?: number;
 }): Promise<Attendance[]> => {
   try {
-    const queryParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
-          queryParams.append(key, String(value));
-        }
-      });
-    }
-    
-    const url = `${ATTENDANCE_API_BASE}/history${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-    
-    const data = await handleApiResponse<ApiResponse<Attendance[]>>(response);
+    const data = await attendanceClient.send<ApiResponse<Attendance[]>>(`/history${toQueryString(params)}`);
     return data.data || [];
   } catch (error) {
     console.error('Error fetching attendance history:', error);
@@ -224,23 +185,7 @@ export const getTeamStatus = async (params?: {
   date?: string;
 }): Promise<TeamStatus[]> => {
   try {
-    const queryParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
-          queryParams.append(key, String(value));
-        }
-      });
-    }
-    
-    const url = `${ATTENDANCE_API_BASE}/team/status${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getAuthHeaders(),
-    });
-    
-    const data = await handleApiResponse<ApiResponse<TeamStatus[]>>(response);
+    const data = await attendanceClient.send<ApiResponse<TeamStatus[]>>(`/team/status${toQueryString(params)}`);
     return data.data || [];
   } catch (error) {
     console.error('Error fetching team status:', error);
@@ -259,13 +204,10 @@ export const requestApproval = async (request: {
   notes?: string;
 }): Promise<{ message: string }> => {
   try {
-    const response = await fetch(`${ATTENDANCE_API_BASE}/approval/request`, {
+    const data = await attendanceClient.send<ApiResponse<{ message: string }>>('/approval/request', {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify(request),
     });
-    
-    const data = await handleApiResponse<ApiResponse<{ message: string }>>(response);
     return data.data!;
   } catch (error) {
     console.error('Error requesting approval:', error);
@@ -278,13 +220,10 @@ export const requestApproval = async (request: {
  */
 export const handleApproval = async (requestId: string, action: 'approve' | 'reject', notes?: string): Promise<{ message: string }> => {
   try {
-    const response = await fetch(`${ATTENDANCE_API_BASE}/approval/${requestId}/action`, {
+    const data = await attendanceClient.send<ApiResponse<{ message: string }>>(`/approval/${requestId}/action`, {
       method: 'POST',
-      headers: getAuthHeaders(),
       body: JSON.stringify({ action, notes }),
     });
-    
-    const data = await handleApiResponse<ApiResponse<{ message: string }>>(response);
     return data.data!;
   } catch (error) {
     console.error('Error handling approval:', error);
@@ -0,0 +1,294 @@
+/**
+ * Audit Scoring
+ *
+ * Scores operations audits from checklist answers against a weighted
+ * AuditTemplate:
+ * - Each section scores earned / possible points of the items it applies to
+ * - Items answered N/A leave the section's possible points, and a section
+ *   where every item is N/A leaves the weighting altogether
+ * - The audit score is the weighted average of the applicable sections
+ * - Failing a critical item fails the audit whatever the score
+ * - nextAuditDate comes from the score band (auto-fails use the lowest band)
+ *
+ * Every failed item raises a CorrectiveAction that stays open until someone
+ * closes it with a resolution. Templates, audits and actions are persisted
+ * together in browser storage until the operations API exists.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  Audit,
+  AuditAnswer,
+  AuditScheduleBand,
+  AuditScoreResult,
+  AuditSectionScore,
+  AuditTemplate,
+  AuditTemplateItem,
+  CorrectiveAction
+} from '../types';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for invalid templates, answers and corrective-action changes
+ */
+export class AuditScoringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditScoringError';
+  }
+}
+
+export const DEFAULT_SCHEDULE_BANDS: AuditScheduleBand[] = [
+  { label: 'Excellent', minScore: 90, intervalDays: 180 },
+  { label: 'Good', minScore: 75, intervalDays: 90 },
+  { label: 'Needs improvement', minScore: 60, intervalDays: 30 },
+  { label: 'Poor', minScore: 0, intervalDays: 7 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// ===== TEMPLATES =====
+
+/**
+ * Check a template before audits are scored with it
+ */
+export const validateAuditTemplate = (template: AuditTemplate): void => {
+  if (!template.sections.length) {
+    throw new AuditScoringError(`Template "${template.title}" has no sections`);
+  }
+  if (!template.scheduleBands.length) {
+    throw new AuditScoringError(`Template "${template.title}" has no schedule bands`);
+  }
+
+  const itemIds = new Set<string>();
+  template.sections.forEach(section => {
+    if (!(section.weight >= 0)) {
+      throw new AuditScoringError(`Section "${section.title}" needs a weight of 0 or more`);
+    }
+    section.items.forEach(item => {
+      if (itemIds.has(item.id)) {
+        throw new AuditScoringError(`Item ID "${item.id}" is used more than once`);
+      }
+      if (!(item.points > 0)) {
+        throw new AuditScoringError(`Item "${item.question}" needs more than 0 points`);
+      }
+      itemIds.add(item.id);
+    });
+  });
+
+  if (!template.sections.some(section => section.weight > 0 && section.items.length)) {
+    throw new AuditScoringError(`Template "${template.title}" has no weighted items`);
+  }
+};
+
+/**
+ * Band for a score; auto-failed audits always get the lowest band
+ */
+export const getScheduleBand = (bands: AuditScheduleBand[], score: number, autoFailed = false): AuditScheduleBand => {
+  const sorted = [...bands].sort((a, b) => b.minScore - a.minScore);
+  const lowest = sorted[sorted.length - 1];
+  if (autoFailed) return lowest;
+  return sorted.find(band => score >= band.minScore) || lowest;
+};
+
+// ===== SCORING =====
+
+/**
+ * Score answers against a template. Unanswered items are left out of the
+ * score and listed, so a partly filled audit can be previewed.
+ */
+export const scoreAudit = (template: AuditTemplate, answers: AuditAnswer[], auditDate: string): AuditScoreResult => {
+  validateAuditTemplate(template);
+
+  const items = new Map<string, AuditTemplateItem>();
+  template.sections.forEach(section => section.items.forEach(item => items.set(item.id, item)));
+
+  const byItem = new Map<string, AuditAnswer>();
+  answers.forEach(answer => {
+    const item = items.get(answer.itemId);
+    if (!item) {
+      throw new AuditScoringError(`Answer for unknown item "${answer.itemId}"`);
+    }
+    if (answer.result === 'na' && !item.allowNA) {
+      throw new AuditScoringError(`"${item.question}" cannot be answered N/A`);
+    }
+    byItem.set(answer.itemId, answer);
+  });
+
+  const sections: AuditSectionScore[] = [];
+  const criticalFailures: string[] = [];
+  const findings: string[] = [];
+  const recommendations: string[] = [];
+  const unanswered: string[] = [];
+  let weighted = 0;
+  let totalWeight = 0;
+
+  template.sections.forEach(section => {
+    let earned = 0;
+    let possible = 0;
+
+    section.items.forEach(item => {
+      const answer = byItem.get(item.id);
+      if (!answer) {
+        unanswered.push(item.id);
+        return;
+      }
+      if (answer.result === 'na') return;
+
+      possible += item.points;
+      if (answer.result === 'pass') {
+        earned += item.points;
+        return;
+      }
+
+      if (item.critical) criticalFailures.push(item.id);
+      findings.push(`${item.critical ? 'CRITICAL - ' : ''}${section.title}: ${item.question}${answer.note ? ` (${answer.note})` : ''}`);
+      if (item.correctiveAction && !recommendations.includes(item.correctiveAction)) {
+        recommendations.push(item.correctiveAction);
+      }
+    });
+
+    const percentage = possible > 0 ? (earned / possible) * 100 : null;
+    sections.push({ sectionId: section.id, earned, possible, percentage: percentage === null ? null : round(percentage) });
+
+    if (percentage !== null && section.weight > 0) {
+      weighted += percentage * section.weight;
+      totalWeight += section.weight;
+    }
+  });
+
+  const score = totalWeight > 0 ? round(weighted / totalWeight) : 0;
+  const autoFailed = criticalFailures.length > 0;
+  const band = getScheduleBand(template.scheduleBands, score, autoFailed);
+
+  return {
+    score,
+    sections,
+    criticalFailures,
+    autoFailed,
+    passed: !autoFailed && score >= template.passScore,
+    band,
+    nextAuditDate: addDays(auditDate, band.intervalDays),
+    findings,
+    recommendations,
+    unanswered,
+  };
+};
+
+/**
+ * Finish an audit: every item must be answered and at least one must apply
+ */
+export const completeAudit = (audit: Audit, template: AuditTemplate, answers: AuditAnswer[]): Audit => {
+  const result = scoreAudit(template, answers, audit.date);
+
+  if (result.unanswered.length) {
+    throw new AuditScoringError(`${result.unanswered.length} item(s) still need an answer`);
+  }
+  if (result.sections.every(section => section.percentage === null)) {
+    throw new AuditScoringError('Every item was answered N/A, so the audit cannot be scored');
+  }
+
+  return {
+    ...audit,
+    templateId: template.id,
+    answers,
+    status: result.passed ? 'completed' : 'failed',
+    score: result.score,
+    maxScore: 100,
+    autoFailed: result.autoFailed,
+    findings: result.findings,
+    recommendations: result.recommendations,
+    nextAuditDate: result.nextAuditDate,
+  };
+};
+
+// ===== CORRECTIVE ACTIONS =====
+
+/**
+ * Raise an action for each failed item of a scored audit. Items that already
+ * have an action for this audit keep it, so re-scoring never duplicates one.
+ */
+export const raiseCorrectiveActions = (
+  audit: Audit,
+  template: AuditTemplate,
+  existing: CorrectiveAction[],
+  now: Date = new Date()
+): CorrectiveAction[] => {
+  const raised = new Set(existing.filter(action => action.auditId === audit.id).map(action => action.itemId));
+  const failed = (audit.answers || []).filter(answer => answer.result === 'fail' && !raised.has(answer.itemId));
+
+  const created = failed.map(answer => {
+    const section = template.sections.find(candidate => candidate.items.some(item => item.id === answer.itemId))!;
+    const item = section.items.find(candidate => candidate.id === answer.itemId)!;
+    const critical = Boolean(item.critical);
+
+    return {
+      id: `${audit.id}-${item.id}`,
+      auditId: audit.id,
+      itemId: item.id,
+      finding: `${section.title}: ${item.question}${answer.note ? ` (${answer.note})` : ''}`,
+      action: item.correctiveAction,
+      critical,
+      location: audit.location,
+      dueDate: addDays(audit.date, critical ? template.criticalActionDueDays : template.actionDueDays),
+      status: 'open' as const,
+      createdAt: now.toISOString(),
+    };
+  });
+
+  return [...existing, ...created];
+};
+
+/**
+ * Close an action; a resolution is required so the fix is on record
+ */
+export const closeCorrectiveAction = (
+  action: CorrectiveAction,
+  closedBy: string,
+  resolution: string,
+  now: Date = new Date()
+): CorrectiveAction => {
+  if (action.status === 'closed') {
+    throw new AuditScoringError(`Corrective action "${action.finding}" is already closed`);
+  }
+  if (!resolution.trim()) {
+    throw new AuditScoringError('Describe how the finding was resolved before closing it');
+  }
+  return { ...action, status: 'closed', closedAt: now.toISOString(), closedBy, resolution: resolution.trim() };
+};
+
+export const isCorrectiveActionOverdue = (action: CorrectiveAction, today: string): boolean =>
+  action.status === 'open' && action.dueDate < today;
+
+// ===== PERSISTENCE =====
+
+export interface AuditState {
+  templates: AuditTemplate[];
+  audits: Audit[];
+  correctiveActions: CorrectiveAction[];
+}
+
+const auditStore = createVersionedStore<AuditState>({
+  key: 'operationsAudits',
+  version: 1,
+  label: 'audits',
+  read: (saved, fallback) => ({
+    templates: saved.templates || fallback.templates,
+    audits: saved.audits || fallback.audits,
+    correctiveActions: saved.correctiveActions || [],
+  }),
+});
+
+/**
+ * Load saved audit state, or the fallback when nothing (valid) is stored
+ */
+export const loadAuditState = auditStore.load;
+
+export const saveAuditState = auditStore.save;
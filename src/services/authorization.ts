@@ -0,0 +1,495 @@
+/**
+ * Authorization Policy Evaluator
+ *
+ * Decides whether a member may perform an action on a resource:
+ * - Role policies from MemberRole (admin, leader, employee)
+ * - Leader policies for every group the member leads, reaching the whole
+ *   group subtree, and approval policies where the leader has approval authority
+ * - Explicit grants (allow or deny, optionally expiring) made by an admin
+ * - Scoping by group subtree, workplace or ownership; deny always wins
+ * - Route to resource mapping shared by the sidebar and protected routes
+ *
+ * All functions are pure; the React bindings live in AuthorizationContext.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  AuthorizationDirectory,
+  Group,
+  Member,
+  MemberRole,
+  PermissionAction,
+  PermissionDecision,
+  PermissionGrant,
+  PermissionPolicy,
+  PermissionResource,
+  PermissionResourceType,
+  PermissionScope,
+  User,
+  UserRole
+} from '../types';
+
+export class AuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export const PERMISSION_ACTIONS: { value: PermissionAction; label: string }[] = [
+  { value: 'view', label: 'View' },
+  { value: 'create', label: 'Create' },
+  { value: 'edit', label: 'Edit' },
+  { value: 'delete', label: 'Delete' },
+  { value: 'approve', label: 'Approve' },
+  { value: 'manage', label: 'Manage' },
+];
+
+export const PERMISSION_RESOURCES: { value: PermissionResourceType; label: string }[] = [
+  { value: 'dashboard', label: 'Dashboard' },
+  { value: 'attendance', label: 'Attendance' },
+  { value: 'schedule', label: 'Schedule' },
+  { value: 'leave', label: 'Leave' },
+  { value: 'leave-grant', label: 'Grant Leave' },
+  { value: 'overtime', label: 'Overtime' },
+  { value: 'journey-plan', label: 'Journey Plan' },
+  { value: 'simulation', label: 'Simulation' },
+  { value: 'notice', label: 'Notice & Survey' },
+  { value: 'report', label: 'Report' },
+  { value: 'posting-board', label: 'Posting Board' },
+  { value: 'todo', label: 'To-Do' },
+  { value: 'chat', label: 'Chat' },
+  { value: 'chatbot', label: 'AI Chatbot' },
+  { value: 'document', label: 'E-documents' },
+  { value: 'approval', label: 'Approval' },
+  { value: 'in-store-data', label: 'In-store Data' },
+  { value: 'group', label: 'Groups' },
+  { value: 'workplace', label: 'Workplaces' },
+  { value: 'member', label: 'Members' },
+  { value: 'company-settings', label: 'Company Settings' },
+  { value: 'employee-settings', label: 'Employee Settings' },
+  { value: 'admin', label: 'Admin' },
+];
+
+export const PERMISSION_SCOPES: { value: PermissionScope; label: string }[] = [
+  { value: 'all', label: 'Everything' },
+  { value: 'group-subtree', label: 'Group and subgroups' },
+  { value: 'workplace', label: 'Workplaces' },
+  { value: 'own', label: 'Own only' },
+];
+
+// Widest first
+const SCOPE_ORDER: PermissionScope[] = ['all', 'group-subtree', 'workplace', 'own'];
+
+const SELF_SERVICE: PermissionResourceType[] = [
+  'attendance', 'schedule', 'leave', 'overtime', 'journey-plan', 'todo', 'report', 'approval',
+];
+
+const TEAM_RESOURCES: PermissionResourceType[] = [
+  'member', 'group', 'workplace', 'attendance', 'schedule', 'leave', 'overtime',
+  'journey-plan', 'todo', 'report', 'approval', 'in-store-data',
+];
+
+const APPROVAL_RESOURCES: PermissionResourceType[] = ['approval', 'leave', 'overtime', 'report'];
+
+// ===== ROLE POLICIES =====
+
+const EMPLOYEE_POLICIES: PermissionPolicy[] = [
+  {
+    id: 'employee-self-service',
+    effect: 'allow',
+    actions: ['view', 'create', 'edit'],
+    resources: SELF_SERVICE,
+    scope: 'own',
+    source: 'role',
+    description: 'Employees use attendance, schedules, leave, tasks, reports and requests for themselves',
+  },
+  {
+    id: 'employee-workspace',
+    effect: 'allow',
+    actions: ['view'],
+    resources: ['dashboard', 'notice', 'document', 'chat', 'chatbot', 'posting-board'],
+    scope: 'all',
+    source: 'role',
+    description: 'Employees see the dashboard, notices, documents and communication channels',
+  },
+  {
+    id: 'employee-communication',
+    effect: 'allow',
+    actions: ['create'],
+    resources: ['chat', 'chatbot', 'posting-board'],
+    scope: 'all',
+    source: 'role',
+    description: 'Employees post in chat and on the posting board',
+  },
+  {
+    id: 'employee-workplace',
+    effect: 'allow',
+    actions: ['view', 'create'],
+    resources: ['workplace', 'in-store-data'],
+    scope: 'workplace',
+    source: 'role',
+    description: 'Employees collect in-store data at their own workplaces',
+  },
+];
+
+/**
+ * Baseline policies per role. Workplace-scoped policies get the member's
+ * workplaces filled in by getMemberPolicies.
+ */
+export const ROLE_POLICIES: Record<MemberRole, PermissionPolicy[]> = {
+  [MemberRole.ADMIN]: [
+    {
+      id: 'admin-all',
+      effect: 'allow',
+      actions: ['*'],
+      resources: ['*'],
+      scope: 'all',
+      source: 'role',
+      description: 'Admins manage everything',
+    },
+  ],
+  [MemberRole.LEADER]: [
+    ...EMPLOYEE_POLICIES,
+    {
+      id: 'leader-planning',
+      effect: 'allow',
+      actions: ['view'],
+      resources: ['simulation'],
+      scope: 'all',
+      source: 'role',
+      description: 'Leaders run workforce simulations',
+    },
+  ],
+  [MemberRole.EMPLOYEE]: EMPLOYEE_POLICIES,
+};
+
+/**
+ * Policies for leading a group: team management across the group subtree,
+ * plus approvals when the leader has approval authority
+ */
+export const getLeaderPolicies = (groupId: string, hasApprovalAuthority: boolean): PermissionPolicy[] => [
+  {
+    id: `leader:${groupId}`,
+    effect: 'allow',
+    actions: ['view', 'create', 'edit'],
+    resources: TEAM_RESOURCES,
+    scope: 'group-subtree',
+    groupIds: [groupId],
+    source: 'leader',
+    description: `Leader of group ${groupId} and its subgroups`,
+  },
+  ...(hasApprovalAuthority ? [{
+    id: `approver:${groupId}`,
+    effect: 'allow' as const,
+    actions: ['approve' as const],
+    resources: APPROVAL_RESOURCES,
+    scope: 'group-subtree' as const,
+    groupIds: [groupId],
+    source: 'approval-authority' as const,
+    description: `Approves requests in group ${groupId} and its subgroups`,
+  }] : []),
+];
+
+const grantToPolicy = (grant: PermissionGrant): PermissionPolicy => ({
+  id: `grant:${grant.id}`,
+  effect: grant.effect,
+  actions: grant.actions,
+  resources: grant.resources,
+  scope: grant.scope,
+  groupIds: grant.groupId ? [grant.groupId] : undefined,
+  workplaceIds: grant.workplaceIds,
+  source: 'grant',
+  description: grant.reason || `Granted by ${grant.grantedBy}`,
+});
+
+// ===== DIRECTORY LOOKUPS =====
+
+const isSameMember = (member: Member, id?: string) => !!id && (id === member.id || id === member.userId);
+
+/**
+ * The group and all of its subgroups (cycle-safe)
+ */
+export const getGroupSubtree = (groups: Group[], rootId: string): string[] => {
+  const subtree = [rootId];
+  for (let i = 0; i < subtree.length; i++) {
+    groups
+      .filter(group => group.parentGroupId === subtree[i] && !subtree.includes(group.id))
+      .forEach(group => subtree.push(group.id));
+  }
+  return subtree;
+};
+
+const getMemberGroupIds = (directory: AuthorizationDirectory, memberId: string): string[] => {
+  const member = directory.members.find(candidate => isSameMember(candidate, memberId));
+  const assigned = directory.groupMembers
+    .filter(gm => gm.isActive && (gm.memberId === memberId || (member && isSameMember(member, gm.memberId))))
+    .map(gm => gm.groupId);
+  return Array.from(new Set([...(member?.groups || []), ...assigned]));
+};
+
+const getMemberWorkplaceIds = (directory: AuthorizationDirectory, member: Member): string[] => {
+  const assigned = directory.groupMembers
+    .filter(gm => gm.isActive && isSameMember(member, gm.memberId))
+    .flatMap(gm => gm.assignedWorkplaces);
+  return Array.from(new Set([...(member.workplaceId ? [member.workplaceId] : []), ...assigned]));
+};
+
+/**
+ * Map an authenticated user's role onto a member role
+ */
+export const memberRoleForUser = (role: UserRole): MemberRole => {
+  switch (role) {
+    case UserRole.ADMIN: return MemberRole.ADMIN;
+    case UserRole.EDITOR: return MemberRole.LEADER;
+    default: return MemberRole.EMPLOYEE;
+  }
+};
+
+/**
+ * Find the member record for a signed-in user, or stand one up from the
+ * user's role when the directory does not know them
+ */
+export const resolveMember = (directory: AuthorizationDirectory, user: User): Member => {
+  const known = directory.members.find(member =>
+    member.userId === user.id || member.id === user.id || member.email.toLowerCase() === user.email.toLowerCase()
+  );
+  if (known) return known;
+  const role = memberRoleForUser(user.role);
+  return {
+    id: user.id,
+    userId: user.id,
+    name: user.name,
+    email: user.email,
+    role,
+    department: user.department,
+    position: user.position,
+    hireDate: '',
+    groups: [],
+    isLeader: role !== MemberRole.EMPLOYEE,
+    isAdmin: role === MemberRole.ADMIN,
+    approvalAuthority: false,
+    status: 'active',
+    createdAt: '',
+    updatedAt: '',
+  };
+};
+
+// ===== POLICIES =====
+
+/**
+ * All policies that apply to a member: role, group leadership and
+ * unexpired explicit grants
+ */
+export const getMemberPolicies = (
+  member: Member,
+  directory: AuthorizationDirectory,
+  now: Date = new Date()
+): PermissionPolicy[] => {
+  if (member.status !== 'active') return [];
+
+  const role = member.isAdmin ? MemberRole.ADMIN : member.role;
+  const workplaceIds = getMemberWorkplaceIds(directory, member);
+  const rolePolicies = (ROLE_POLICIES[role] || []).map(policy =>
+    policy.scope === 'workplace' ? { ...policy, workplaceIds } : policy
+  );
+
+  const led = new Map<string, boolean>();
+  directory.groupMembers
+    .filter(gm => gm.isActive && gm.isLeader && isSameMember(member, gm.memberId))
+    .forEach(gm => led.set(gm.groupId, gm.hasApprovalAuthority || !!led.get(gm.groupId)));
+  directory.groups
+    .filter(group => group.isActive && isSameMember(member, group.leaderId) && !led.has(group.id))
+    .forEach(group => led.set(group.id, member.approvalAuthority));
+  const leaderPolicies = Array.from(led.entries()).flatMap(([groupId, approves]) => getLeaderPolicies(groupId, approves));
+
+  const grantPolicies = directory.grants
+    .filter(grant => isSameMember(member, grant.memberId))
+    .filter(grant => !grant.expiresAt || new Date(grant.expiresAt).getTime() > now.getTime())
+    .map(grantToPolicy);
+
+  return [...rolePolicies, ...leaderPolicies, ...grantPolicies];
+};
+
+// ===== EVALUATION =====
+
+export interface AuthorizationSubject {
+  member: Member;
+  policies: PermissionPolicy[];
+  directory: AuthorizationDirectory;
+}
+
+export const createAuthorizationSubject = (
+  member: Member,
+  directory: AuthorizationDirectory,
+  now: Date = new Date()
+): AuthorizationSubject => ({ member, directory, policies: getMemberPolicies(member, directory, now) });
+
+const toResource = (resource: PermissionResourceType | PermissionResource): PermissionResource =>
+  typeof resource === 'string' ? { type: resource } : resource;
+
+const resourceGroupId = (resource: PermissionResource) =>
+  resource.groupId || (resource.type === 'group' ? resource.id : undefined);
+
+const resourceWorkplaceId = (resource: PermissionResource) =>
+  resource.workplaceId || (resource.type === 'workplace' ? resource.id : undefined);
+
+const isTypeLevel = (resource: PermissionResource) =>
+  !resource.ownerId && !resourceGroupId(resource) && !resourceWorkplaceId(resource);
+
+const coversAction = (policy: PermissionPolicy, action: PermissionAction) =>
+  policy.actions.some(candidate => candidate === '*' || candidate === 'manage' || candidate === action);
+
+const coversResource = (policy: PermissionPolicy, type: PermissionResourceType) =>
+  policy.resources.some(candidate => candidate === '*' || candidate === type);
+
+const coversScope = (policy: PermissionPolicy, resource: PermissionResource, subject: AuthorizationSubject): boolean => {
+  switch (policy.scope) {
+    case 'all':
+      return true;
+    case 'own':
+      return isSameMember(subject.member, resource.ownerId);
+    case 'workplace': {
+      const workplaceId = resourceWorkplaceId(resource);
+      return !!workplaceId && (policy.workplaceIds || []).includes(workplaceId);
+    }
+    case 'group-subtree': {
+      const { groups } = subject.directory;
+      const subtree = new Set((policy.groupIds || []).flatMap(groupId => getGroupSubtree(groups, groupId)));
+      const groupIds = [
+        ...(resourceGroupId(resource) ? [resourceGroupId(resource)!] : []),
+        ...(resource.ownerId ? getMemberGroupIds(subject.directory, resource.ownerId) : []),
+      ];
+      if (groupIds.some(groupId => subtree.has(groupId))) return true;
+      const workplaceId = resourceWorkplaceId(resource);
+      return !!workplaceId && groups.some(group => subtree.has(group.id) && group.workplaceIds.includes(workplaceId));
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Decide whether the subject may perform an action on a resource.
+ * A bare resource type asks whether the action is allowed on any resource
+ * of that type (used for menus and routes); only unscoped denies apply then.
+ * A deny that matches always wins over any allow.
+ */
+export const authorize = (
+  subject: AuthorizationSubject,
+  action: PermissionAction,
+  resource: PermissionResourceType | PermissionResource
+): PermissionDecision => {
+  const target = toResource(resource);
+  const typeLevel = isTypeLevel(target);
+  const matching = subject.policies.filter(policy => coversAction(policy, action) && coversResource(policy, target.type));
+
+  const deny = matching.find(policy => policy.effect === 'deny' &&
+    (typeLevel ? policy.scope === 'all' : coversScope(policy, target, subject)));
+  if (deny) return { allowed: false, policyId: deny.id, reason: `Denied by ${deny.description}` };
+
+  const allow = matching.find(policy => policy.effect === 'allow' &&
+    (typeLevel || coversScope(policy, target, subject)));
+  if (allow) return { allowed: true, policyId: allow.id, reason: `Allowed by ${allow.description}` };
+
+  return { allowed: false, reason: `No policy allows ${action} on ${target.type}` };
+};
+
+export const can = (
+  subject: AuthorizationSubject,
+  action: PermissionAction,
+  resource: PermissionResourceType | PermissionResource
+): boolean => authorize(subject, action, resource).allowed;
+
+/**
+ * Widest scope at which the policies allow an action on a resource type,
+ * or null when they do not allow it at all
+ */
+export const getWidestScope = (
+  policies: PermissionPolicy[],
+  action: PermissionAction,
+  type: PermissionResourceType
+): PermissionScope | null => {
+  const matching = policies.filter(policy => coversAction(policy, action) && coversResource(policy, type));
+  if (matching.some(policy => policy.effect === 'deny' && policy.scope === 'all')) return null;
+  const scopes = matching.filter(policy => policy.effect === 'allow').map(policy => policy.scope);
+  return SCOPE_ORDER.find(scope => scopes.includes(scope)) || null;
+};
+
+// ===== GRANTS =====
+
+/**
+ * Add an explicit grant after checking it against the directory
+ */
+export const addPermissionGrant = (
+  grants: PermissionGrant[],
+  grant: PermissionGrant,
+  directory: AuthorizationDirectory
+): PermissionGrant[] => {
+  if (!grant.memberId) throw new AuthorizationError('A grant needs a member');
+  if (grant.memberId === grant.grantedBy) throw new AuthorizationError('Grants cannot be made to yourself');
+  if (!grant.actions.length) throw new AuthorizationError('A grant needs at least one action');
+  if (!grant.resources.length) throw new AuthorizationError('A grant needs at least one resource');
+  if (grant.scope === 'group-subtree') {
+    if (!grant.groupId) throw new AuthorizationError('A group grant needs a group');
+    if (directory.groups.length && !directory.groups.some(group => group.id === grant.groupId)) {
+      throw new AuthorizationError(`Unknown group "${grant.groupId}"`);
+    }
+  }
+  if (grant.scope === 'workplace' && !grant.workplaceIds?.length) {
+    throw new AuthorizationError('A workplace grant needs at least one workplace');
+  }
+  if (grant.expiresAt && new Date(grant.expiresAt).getTime() <= new Date(grant.grantedAt).getTime()) {
+    throw new AuthorizationError('A grant cannot expire before it is made');
+  }
+  if (grants.some(existing => existing.id === grant.id)) {
+    throw new AuthorizationError(`Grant ${grant.id} already exists`);
+  }
+  return [...grants, grant];
+};
+
+export const revokePermissionGrant = (grants: PermissionGrant[], grantId: string): PermissionGrant[] =>
+  grants.filter(grant => grant.id !== grantId);
+
+// ===== ROUTES =====
+
+/**
+ * Resource protecting each top-level route; sidebar entries and protected
+ * routes both look up here so they cannot drift apart
+ */
+export const ROUTE_RESOURCES: Record<string, PermissionResourceType> = {
+  '/': 'dashboard',
+  '/attendance': 'attendance',
+  '/schedule': 'schedule',
+  '/leave': 'leave',
+  '/grant-leave': 'leave-grant',
+  '/overtime': 'overtime',
+  '/journey': 'journey-plan',
+  '/simulation': 'simulation',
+  '/notice-survey': 'notice',
+  '/reports': 'report',
+  '/posting-board': 'posting-board',
+  '/todo': 'todo',
+  '/chat': 'chat',
+  '/ai-chatbot': 'chatbot',
+  '/e-documents': 'document',
+  '/approval': 'approval',
+  '/in-store-data': 'in-store-data',
+  '/groups': 'group',
+  '/workplace': 'workplace',
+  '/members': 'member',
+  '/company': 'company-settings',
+  '/settings': 'company-settings',
+  '/employee': 'employee-settings',
+  '/admin': 'admin',
+};
+
+/**
+ * Resource for a path, matched on its first segment ('/journey/settings' → journey plan)
+ */
+export const getRouteResource = (path: string): PermissionResourceType | undefined => {
+  const segment = `/${path.split('/').filter(Boolean)[0] || ''}`;
+  return ROUTE_RESOURCES[segment];
+};
@@ -2,12 +2,14 @@
 // Comprehensive service for enterprise chat functionality
 
 import { 
+  ChannelUnreadSummary,
   ChatChannel, 
   ChatMessage, 
   ChatUser, 
   ChatApiResponse, 
   ChatMessagesResponse,
   CreateChannelForm,
+  OutboxEntry,
   SendMessageForm,
   FlagMessageForm,
   GDPRRequestForm,
@@ -16,12 +18,29 @@ import {
   ChatAnalytics,
   ContentModeration
 } from '../types/chat';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { io } from 'socket.io-client';
+import { ApiError, ApiNetworkError, createApiClient } from '../core/api/client';
+import {
+  cacheMessages,
+  flushChatOutbox,
+  getChatOfflineStore,
+  isPendingMessage,
+  loadChannelMessages,
+  mergeMessages,
+  queueOutgoingMessage,
+  retryOutboxEntry,
+  syncChannelMessages,
+  toPendingMessage,
+  updateCachedMessage
+} from './chatOffline';
 
 // Direct connection to chat service (bypassing API Gateway)
 const API_BASE = (process.env.REACT_APP_CHAT_API_URL || 'http://localhost:8080/api/chat');
 
+// Shares auth refresh, 429 back-off and request IDs with the main API client
+const chatClient = createApiClient({ baseUrl: API_BASE });
+
 // ===== UTILITY FUNCTIONS =====
 
 /**
@@ -78,6 +97,7 @@ const normalizeMessage = (raw: any): ChatMessage => ({
   messageType: raw.message_type ?? raw.messageType ?? 'text',
   replyToId: raw.parent_message_id ?? raw.replyToId,
   threadId: raw.threadId,
+  clientId: raw.client_id ?? raw.metadata?.clientMessageId ?? raw.clientId,
   isEdited: raw.is_edited ?? raw.isEdited ?? false,
   isDeleted: raw.is_deleted ?? raw.isDeleted ?? false,
   isPinned: raw.is_pinned ?? raw.isPinned ?? false,
@@ -106,47 +126,6 @@ const normalizeMessage = (raw: any): ChatMessage => ({
   sender: raw.sender,
 });
 
-/**
- * Get authentication headers with JWT token
- */
-const getAuthHeaders = (): Record<string, string> => {
-  const token = localStorage.getItem('authToken');
-  console.log('🔍 Debug - Token from localStorage:', token ? 'EXISTS' : 'MISSING');
-  
-  if (token) {
-    try {
-      // Decode JWT token to check expiration
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const currentTime = Date.now() / 1000;
-      console.log('🔍 Debug - Token payload:', payload);
-      console.log('🔍 Debug - Token expires at:', new Date(payload.exp * 1000));
-      console.log('🔍 Debug - Current time:', new Date(currentTime * 1000));
-      
-      if (payload.exp && payload.exp < currentTime) {
-        // Token is expired, clear it
-        console.log('JWT token expired, clearing session');
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('userData');
-        return { 'Content-Type': 'application/json' };
-      }
-    } catch (error) {
-      // Invalid token format, clear it
-      console.log('Invalid JWT token format, clearing session');
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('userData');
-      return { 'Content-Type': 'application/json' };
-    }
-  }
-  
-  const headers = {
-    'Content-Type': 'application/json',
-    ...(token && { 'Authorization': `Bearer ${token}` })
-  };
-  
-  console.log('🔍 Debug - Final headers:', headers);
-  return headers;
-};
-
 /**
  * Check if user is authenticated
  */
@@ -210,12 +189,14 @@ class SocketIOManager {
         this.reconnectAttempts = 0;
         this.isConnecting = false;
         this.startHeartbeat();
+        this.handleMessage({ type: 'connect' });
       });
 
       this.socket.on('disconnect', (reason: string) => {
         console.log('Socket.IO disconnected:', reason);
         this.isConnecting = false;
         this.stopHeartbeat();
+        this.handleMessage({ type: 'disconnect', data: { reason } });
         
         // Only attempt reconnect if it wasn't a clean disconnect
         if (reason !== 'io client disconnect') {
@@ -344,7 +325,8 @@ class SocketIOManager {
 // Global Socket.IO manager instance
 export const socketManager = new SocketIOManager();
 
-// Enhanced API request helper with authentication and retry logic
+// API request helper; auth, 401 refresh and 429 back-off come from chatClient,
+// this adds request spacing and retries for network and server errors
 // Rate limiting protection
 let lastRequestTime = 0;
 const MIN_REQUEST_INTERVAL = 2000; // 2 seconds between requests
@@ -364,48 +346,15 @@ async function apiRequest<T>(
   }
   lastRequestTime = Date.now();
 
-  const url = `${API_BASE}${endpoint}`;
-  const config: RequestInit = {
-    headers: {
-      ...getAuthHeaders(),
-      ...options.headers,
-    },
-    ...options,
-  };
-
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      const response = await fetch(url, config);
-      
-      // Handle authentication errors
-      if (response.status === 401) {
-        console.log('Authentication failed, clearing session');
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('userData');
-        throw new Error('Access token required. Please log in again.');
-      }
-
-      const data = await response.json();
-      // Removed debug logging to reduce console noise
-
-      if (!response.ok) {
-        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return data;
+      return await chatClient.send<ChatApiResponse<T>>(endpoint, options);
     } catch (error) {
       console.error(`API request error (attempt ${attempt}/${retries}):`, error);
-      
-      // Don't retry on authentication errors or client errors
-      if (error instanceof Error && (
-        error.message.includes('Access token required') ||
-        error.message.includes('HTTP 4')
-      )) {
-        throw error;
-      }
 
-      // Last attempt, throw the error
-      if (attempt === retries) {
+      // Only network failures and server errors are worth retrying
+      const retryable = error instanceof ApiNetworkError || (error instanceof ApiError && (error.status || 0) >= 500);
+      if (!retryable || attempt === retries) {
         throw error;
       }
 
@@ -509,6 +458,22 @@ export const channelApi = {
     });
   },
 
+  // Unread and mention counts per channel, from the member's read markers
+  async getUnreadCounts(): Promise<ChannelUnreadSummary[]> {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await apiRequest<any[]>('/channels/unread');
+    const rows = Array.isArray(response) ? response : (response.data || []);
+    return rows.map(row => ({
+      channelId: row.channel_id,
+      unread: Number(row.unread) || 0,
+      mentions: Number(row.mentions) || 0,
+      lastReadAt: row.last_read_at || undefined,
+    }));
+  },
+
   // Get channel members
   async getChannelMembers(channelId: string): Promise<ChatUser[]> {
     if (!isAuthenticated()) {
@@ -547,6 +512,9 @@ export const channelApi = {
 // MESSAGE API FUNCTIONS
 // ============================================================================
 
+const MESSAGE_PAGE_SIZE = 50;
+const OUTBOX_RETRY_INTERVAL = 5000;
+
 export const messageApi = {
   // Get channel messages
   async getMessages(
@@ -575,6 +543,22 @@ export const messageApi = {
     };
   },
 
+  // Messages created at or after `cursor`, oldest first; without a cursor the
+  // latest page, as for a channel that was never synced
+  async getMessagesSince(channelId: string, cursor?: string, limit: number = MESSAGE_PAGE_SIZE): Promise<ChatMessage[]> {
+    if (!cursor) {
+      return (await messageApi.getMessages(channelId, 1, limit)).data || [];
+    }
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const params = new URLSearchParams({ after: cursor, limit: limit.toString() });
+    const response = await apiRequest<ChatMessage[]>(`/channels/${channelId}/messages?${params}`);
+    const rawMessages = Array.isArray(response) ? response : ((response as any).data || []);
+    return rawMessages.map(normalizeMessage);
+  },
+
   // Send message
   async sendMessage(channelId: string, form: SendMessageForm): Promise<ChatMessage> {
     if (!isAuthenticated()) {
@@ -586,7 +570,14 @@ export const messageApi = {
       // chat-service's POST /channels/:id/messages destructures `message`
       // from the body (not `content`) - translate at the wire boundary so
       // the rest of the frontend can keep using `content` internally.
-      body: JSON.stringify({ message: form.content, messageType: form.messageType }),
+      // clientMessageId lets chat-service drop a retry of a message it already stored.
+      body: JSON.stringify({
+        message: form.content,
+        messageType: form.messageType,
+        parentMessageId: form.replyToId,
+        clientMessageId: form.clientId,
+        mentions: form.mentions,
+      }),
     });
     // Some chat-service endpoints wrap the payload in `data`, others return
     // it directly (see the identical fallback in channelApi.getChannels).
@@ -693,7 +684,8 @@ export const messageApi = {
     });
   },
 
-  // Mark message as read
+  // Mark message as read; chat-service moves the member's read marker up to
+  // this message, so marking the newest message reads the whole channel
   async markAsRead(messageId: string): Promise<void> {
     if (!isAuthenticated()) {
       throw new Error('User not authenticated');
@@ -926,6 +918,20 @@ export const wsApi = {
   }
 };
 
+// ============================================================================
+// OFFLINE OUTBOX
+// ============================================================================
+
+// Send one outbox entry over REST
+const sendOutboxEntry = (entry: OutboxEntry): Promise<ChatMessage> =>
+  messageApi.sendMessage(entry.channelId, {
+    content: entry.content,
+    messageType: entry.messageType,
+    replyToId: entry.replyToId,
+    clientId: entry.clientId,
+    mentions: entry.mentions,
+  });
+
 // ============================================================================
 // REACT HOOKS
 // ============================================================================
@@ -972,12 +978,15 @@ export function useChannels() {
   };
 }
 
-export function useMessages(channelId: string | null) {
+export function useMessages(channelId: string | null, senderId?: string) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [page, setPage] = useState(1);
+  // Async results for a channel the user already left are dropped
+  const channelRef = useRef(channelId);
+  channelRef.current = channelId;
 
   const fetchMessages = useCallback(async (reset: boolean = false) => {
     if (!channelId) return;
@@ -985,19 +994,35 @@ export function useMessages(channelId: string | null) {
     try {
       setLoading(true);
       setError(null);
-      
-      const currentPage = reset ? 1 : page;
-      const response = await messageApi.getMessages(channelId, currentPage);
-      
-             if (reset) {
-         setMessages(response.data || []);
-         setPage(1);
-       } else {
-         setMessages(prev => [...(response.data || []), ...prev]);
-         setPage(currentPage + 1);
-       }
-       
-       setHasMore((response.data || []).length === 50); // Assuming 50 is the page size
+      const store = getChatOfflineStore();
+
+      if (reset) {
+        // Cached history first, then only what arrived since the last sync
+        const cached = await loadChannelMessages(store, channelId);
+        if (channelRef.current !== channelId) return;
+        if (cached.length) setMessages(cached);
+
+        const result = await syncChannelMessages(
+          store,
+          channelId,
+          cursor => messageApi.getMessagesSince(channelId, cursor),
+          { pageSize: MESSAGE_PAGE_SIZE }
+        );
+        if (channelRef.current !== channelId) return;
+        setMessages(result.messages);
+        setPage(1);
+        setHasMore(result.messages.filter(message => !isPendingMessage(message)).length >= MESSAGE_PAGE_SIZE);
+        // Offline with a cache is still usable, only report the failure when there is nothing to show
+        if (result.error && !result.messages.length) setError(result.error);
+        return;
+      }
+
+      const response = await messageApi.getMessages(channelId, page);
+      if (channelRef.current !== channelId) return;
+      await cacheMessages(store, channelId, response.data || []);
+      setMessages(prev => mergeMessages(prev, response.data || []));
+      setPage(page + 1);
+      setHasMore((response.data || []).length === MESSAGE_PAGE_SIZE);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch messages';
       setError(errorMessage);
@@ -1024,19 +1049,94 @@ export function useMessages(channelId: string | null) {
   }, [hasMore, loading, fetchMessages]);
 
   const addMessage = useCallback((message: ChatMessage) => {
-    setMessages(prev => [...prev, message]);
+    // The sender gets its own message from both the POST response and the
+    // socket; either copy replaces the pending one with the same client ID
+    setMessages(prev => mergeMessages(prev, [message]));
+    if (message.channelId && !isPendingMessage(message)) {
+      cacheMessages(getChatOfflineStore(), message.channelId, [message]).catch((err: unknown) => {
+        console.error('Failed to cache message:', err);
+      });
+    }
   }, []);
 
   const updateMessage = useCallback((messageId: string, updates: Partial<ChatMessage>) => {
     setMessages(prev => prev.map(msg => 
       msg.id === messageId ? { ...msg, ...updates } : msg
     ));
-  }, []);
+    if (channelId) {
+      updateCachedMessage(getChatOfflineStore(), channelId, messageId, updates).catch((err: unknown) => {
+        console.error('Failed to update cached message:', err);
+      });
+    }
+  }, [channelId]);
 
   const removeMessage = useCallback((messageId: string) => {
     setMessages(prev => prev.filter(msg => msg.id !== messageId));
+    if (channelId) {
+      updateCachedMessage(getChatOfflineStore(), channelId, messageId, null).catch((err: unknown) => {
+        console.error('Failed to update cached message:', err);
+      });
+    }
+  }, [channelId]);
+
+  // Show what a flush did to this channel's messages: confirmed copies replace
+  // pending ones, entries still in the outbox show sending or failed
+  const deliverOutbox = useCallback(async () => {
+    try {
+      const result = await flushChatOutbox(sendOutboxEntry);
+      const current = channelRef.current;
+      if (!current) return;
+      const updates = [
+        ...result.sent.filter(message => message.channelId === current),
+        ...result.pending.filter(entry => entry.channelId === current).map(toPendingMessage),
+      ];
+      if (updates.length) setMessages(prev => mergeMessages(prev, updates));
+    } catch (err) {
+      console.error('Failed to send queued messages:', err);
+    }
   }, []);
 
+  // Every text message goes through the outbox, so it survives a dropped
+  // connection or a reload and is retried with the same client ID
+  const sendMessage = useCallback(async (form: SendMessageForm): Promise<ChatMessage | undefined> => {
+    if (!channelId || !senderId) return undefined;
+    const pending = await queueOutgoingMessage(getChatOfflineStore(), channelId, senderId, form);
+    setMessages(prev => mergeMessages(prev, [pending]));
+    await deliverOutbox();
+    return pending;
+  }, [channelId, senderId, deliverOutbox]);
+
+  const retryMessage = useCallback(async (clientId: string) => {
+    const entry = await retryOutboxEntry(getChatOfflineStore(), clientId);
+    if (!entry) return;
+    setMessages(prev => mergeMessages(prev, [toPendingMessage(entry)]));
+    await deliverOutbox();
+  }, [deliverOutbox]);
+
+  // Send queued messages on open, when the socket or the browser comes back
+  // online, and periodically while any are still sending
+  const hasSending = messages.some(message => message.deliveryStatus === 'sending');
+
+  useEffect(() => {
+    if (!channelId) return;
+    deliverOutbox();
+    const handleOnline = () => {
+      deliverOutbox();
+    };
+    wsApi.on('connect', handleOnline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      wsApi.off('connect', handleOnline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [channelId, deliverOutbox]);
+
+  useEffect(() => {
+    if (!hasSending) return;
+    const interval = setInterval(deliverOutbox, OUTBOX_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasSending, deliverOutbox]);
+
   return {
     messages,
     loading,
@@ -1046,10 +1146,26 @@ export function useMessages(channelId: string | null) {
     addMessage,
     updateMessage,
     removeMessage,
+    sendMessage,
+    retryMessage,
     refreshMessages: () => fetchMessages(true)
   };
 }
 
+/**
+ * Subscribe to messages arriving in real time in any of the user's channels
+ */
+export function useIncomingMessages(onMessage: (message: ChatMessage) => void) {
+  useEffect(() => {
+    const handleNewMessage = (event: any) => {
+      if (event?.data?.id) onMessage(normalizeMessage(event.data));
+    };
+
+    wsApi.on('new-message', handleNewMessage);
+    return () => wsApi.off('new-message', handleNewMessage);
+  }, [onMessage]);
+}
+
 export function useRealtimeUpdates(channelId: string | null) {
   const { addMessage, updateMessage, removeMessage } = useMessages(channelId);
 
@@ -0,0 +1,476 @@
+/**
+ * Offline Chat Outbox and Message Cache
+ *
+ * Keeps chat usable across dropped connections:
+ * - Per-channel message cache in IndexedDB, synced incrementally: only
+ *   messages created, edited or deleted at or after the channel's cursor are
+ *   fetched again, and deleted ones come back as tombstones
+ * - Outbox for messages typed while offline or while sending fails. Every
+ *   message carries a client-generated ID, so chat-service stores a retried
+ *   message once even when an earlier attempt did reach it
+ * - Delivery state for the message list: sending, sent or failed
+ *
+ * Retries back off exponentially; after MAX_SEND_ATTEMPTS a message is marked
+ * failed and waits for the user to retry it. Within a channel the outbox is
+ * sent in order, a failure holds back the messages queued after it. The REST
+ * API and the socket hook share one flush, so an entry is never sent twice at
+ * the same time.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import { ChannelMessageCache, ChatMessage, OutboxEntry, SendMessageForm } from '../types/chat';
+
+export const MAX_SEND_ATTEMPTS = 5;
+export const CHANNEL_CACHE_LIMIT = 500;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+const MAX_SYNC_PAGES = 10;
+
+// ===== STORE =====
+
+/**
+ * Persistence for cached channels and the outbox
+ */
+export interface ChatOfflineStore {
+  getChannel(channelId: string): Promise<ChannelMessageCache | undefined>;
+  putChannel(cache: ChannelMessageCache): Promise<void>;
+  getOutbox(): Promise<OutboxEntry[]>;
+  putOutboxEntry(entry: OutboxEntry): Promise<void>;
+  deleteOutboxEntry(clientId: string): Promise<void>;
+}
+
+const DB_NAME = 'workforceChat';
+const DB_VERSION = 1;
+const CHANNEL_STORE = 'channels';
+const OUTBOX_STORE = 'outbox';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * IndexedDB store: channel caches keyed by channel ID, outbox entries by client ID
+ */
+export const createIndexedDbStore = (factory: IDBFactory = indexedDB, name: string = DB_NAME): ChatOfflineStore => {
+  let opening: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!opening) {
+      opening = new Promise((resolve, reject) => {
+        const request = factory.open(name, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CHANNEL_STORE)) db.createObjectStore(CHANNEL_STORE, { keyPath: 'channelId' });
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'clientId' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let the next call try again instead of caching the failure
+      opening.catch(() => {
+        opening = null;
+      });
+    }
+    return opening;
+  };
+
+  const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return requestResult(action(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    getChannel: channelId => run<ChannelMessageCache | undefined>(CHANNEL_STORE, 'readonly', store => store.get(channelId)),
+    putChannel: async cache => {
+      await run(CHANNEL_STORE, 'readwrite', store => store.put(cache));
+    },
+    getOutbox: () => run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll()),
+    putOutboxEntry: async entry => {
+      await run(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+    },
+    deleteOutboxEntry: async clientId => {
+      await run(OUTBOX_STORE, 'readwrite', store => store.delete(clientId));
+    },
+  };
+};
+
+/**
+ * In-memory store, used where IndexedDB is unavailable; contents last for the page's lifetime
+ */
+export const createMemoryStore = (): ChatOfflineStore => {
+  const channels = new Map<string, ChannelMessageCache>();
+  const outbox = new Map<string, OutboxEntry>();
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    getChannel: async channelId => (channels.has(channelId) ? copy(channels.get(channelId)!) : undefined),
+    putChannel: async cache => {
+      channels.set(cache.channelId, copy(cache));
+    },
+    getOutbox: async () => Array.from(outbox.values()).map(copy),
+    putOutboxEntry: async entry => {
+      outbox.set(entry.clientId, copy(entry));
+    },
+    deleteOutboxEntry: async clientId => {
+      outbox.delete(clientId);
+    },
+  };
+};
+
+const withFallback = (primary: ChatOfflineStore, fallback: ChatOfflineStore): ChatOfflineStore => {
+  const guard = <A extends unknown[], R>(name: keyof ChatOfflineStore) => async (...args: A): Promise<R> => {
+    try {
+      return await (primary[name] as (...params: A) => Promise<R>)(...args);
+    } catch (error) {
+      console.error(`Chat offline store unavailable (${name}), keeping data in memory:`, error);
+      return (fallback[name] as (...params: A) => Promise<R>)(...args);
+    }
+  };
+
+  return {
+    getChannel: guard('getChannel'),
+    putChannel: guard('putChannel'),
+    getOutbox: guard('getOutbox'),
+    putOutboxEntry: guard('putOutboxEntry'),
+    deleteOutboxEntry: guard('deleteOutboxEntry'),
+  };
+};
+
+let sharedStore: ChatOfflineStore | null = null;
+
+/**
+ * The store shared by the chat API and socket hook: IndexedDB with an in-memory fallback
+ */
+export const getChatOfflineStore = (): ChatOfflineStore => {
+  if (!sharedStore) {
+    const memory = createMemoryStore();
+    sharedStore = typeof indexedDB === 'undefined' ? memory : withFallback(createIndexedDbStore(), memory);
+  }
+  return sharedStore;
+};
+
+// ===== MESSAGES =====
+
+const time = (value?: string): number => (value ? new Date(value).getTime() || 0 : 0);
+
+const byCreatedAt = (a: ChatMessage, b: ChatMessage) => time(a.createdAt) - time(b.createdAt);
+
+/**
+ * Client-generated message ID, sent along with the message and echoed back by chat-service
+ */
+export const createClientMessageId = (now: Date = new Date(), random: () => number = Math.random): string =>
+  `client-${now.getTime().toString(36)}-${random().toString(36).slice(2, 10)}`;
+
+/**
+ * The client ID a message was sent with, from the message or its server metadata
+ */
+export const getClientId = (message: ChatMessage): string | undefined =>
+  message.clientId || message.metadata?.clientMessageId;
+
+/**
+ * Whether a message only exists locally (still in the outbox)
+ */
+export const isPendingMessage = (message: ChatMessage): boolean =>
+  message.deliveryStatus === 'sending' || message.deliveryStatus === 'failed';
+
+/**
+ * Merge message lists by ID, oldest first. A server copy replaces the pending
+ * message with the same client ID, whichever list it comes from.
+ */
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const all = [...current, ...incoming];
+  const confirmed = new Set(all.filter(message => !isPendingMessage(message)).map(getClientId).filter(Boolean));
+  const merged = new Map<string, ChatMessage>();
+
+  all.forEach(message => {
+    if (isPendingMessage(message) && confirmed.has(getClientId(message))) return;
+    merged.set(message.id, message);
+  });
+
+  return Array.from(merged.values()).sort(byCreatedAt);
+};
+
+const changedAt = (message: ChatMessage): string => message.updatedAt || message.createdAt;
+
+/**
+ * Cursor for the next incremental sync: when the most recently changed confirmed message changed
+ */
+export const getSyncCursor = (messages: ChatMessage[]): string | undefined =>
+  messages
+    .filter(message => !isPendingMessage(message) && changedAt(message))
+    .reduce<string | undefined>((cursor, message) => (!cursor || time(changedAt(message)) > time(cursor) ? changedAt(message) : cursor), undefined);
+
+// ===== OUTBOX =====
+
+export const createOutboxEntry = (
+  channelId: string,
+  senderId: string,
+  form: SendMessageForm,
+  now: Date = new Date()
+): OutboxEntry => ({
+  clientId: form.clientId || createClientMessageId(now),
+  channelId,
+  senderId,
+  content: form.content,
+  messageType: form.messageType,
+  replyToId: form.replyToId,
+  mentions: form.mentions,
+  createdAt: now.toISOString(),
+  attempts: 0,
+  status: 'queued',
+});
+
+/**
+ * The message shown in the list while an outbox entry is waiting
+ */
+export const toPendingMessage = (entry: OutboxEntry): ChatMessage => ({
+  id: entry.clientId,
+  clientId: entry.clientId,
+  channelId: entry.channelId,
+  senderId: entry.senderId,
+  content: entry.content,
+  messageType: entry.messageType,
+  replyToId: entry.replyToId,
+  isEdited: false,
+  isDeleted: false,
+  isPinned: false,
+  isFlagged: false,
+  createdAt: entry.createdAt,
+  updatedAt: entry.lastAttemptAt || entry.createdAt,
+  metadata: { clientMessageId: entry.clientId },
+  complianceData: {
+    gdprCompliant: true,
+    retentionPolicy: 'default',
+    dataClassification: 'internal',
+    encryptionLevel: 'standard',
+    auditTrail: false,
+    legalHold: false,
+    exportable: true,
+    deletionAllowed: true,
+  },
+  deliveryStatus: entry.status === 'failed' ? 'failed' : 'sending',
+});
+
+/**
+ * When a queued entry may be attempted again: 1s, 2s, 4s ... up to a minute after the last attempt
+ */
+export const getNextAttemptAt = (entry: OutboxEntry): number => {
+  if (!entry.lastAttemptAt) return 0;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(entry.attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+  return time(entry.lastAttemptAt) + delay;
+};
+
+export const isDue = (entry: OutboxEntry, now: Date = new Date()): boolean =>
+  entry.status === 'queued' && now.getTime() >= getNextAttemptAt(entry);
+
+/**
+ * Put a message in the outbox and return the pending message to show
+ */
+export const queueOutgoingMessage = async (
+  store: ChatOfflineStore,
+  channelId: string,
+  senderId: string,
+  form: SendMessageForm,
+  now: Date = new Date()
+): Promise<ChatMessage> => {
+  const entry = createOutboxEntry(channelId, senderId, form, now);
+  await store.putOutboxEntry(entry);
+  return toPendingMessage(entry);
+};
+
+export interface OutboxFlushResult {
+  sent: ChatMessage[];
+  failed: OutboxEntry[];
+  pending: OutboxEntry[];
+}
+
+/**
+ * Send every due outbox entry, oldest first. Sent entries leave the outbox and
+ * come back as confirmed messages; failures count an attempt and hold back
+ * the rest of their channel until the next flush.
+ */
+export const flushOutbox = async (
+  store: ChatOfflineStore,
+  send: (entry: OutboxEntry) => Promise<ChatMessage>,
+  now: Date = new Date()
+): Promise<OutboxFlushResult> => {
+  const entries = (await store.getOutbox()).sort((a, b) => time(a.createdAt) - time(b.createdAt));
+  const blocked = new Set<string>();
+  const result: OutboxFlushResult = { sent: [], failed: [], pending: [] };
+
+  for (const entry of entries) {
+    if (blocked.has(entry.channelId) || !isDue(entry, now)) {
+      if (entry.status === 'queued') blocked.add(entry.channelId);
+      result.pending.push(entry);
+      continue;
+    }
+
+    try {
+      const message = await send(entry);
+      await store.deleteOutboxEntry(entry.clientId);
+      result.sent.push({ ...message, clientId: entry.clientId, deliveryStatus: 'sent' });
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const updated: OutboxEntry = {
+        ...entry,
+        attempts,
+        lastAttemptAt: now.toISOString(),
+        lastError: error instanceof Error ? error.message : 'Sending failed',
+        status: attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'queued',
+      };
+      await store.putOutboxEntry(updated);
+      blocked.add(entry.channelId);
+      result.failed.push(updated);
+      result.pending.push(updated);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Queue a failed message again with a fresh set of attempts
+ */
+export const retryOutboxEntry = async (store: ChatOfflineStore, clientId: string): Promise<OutboxEntry | undefined> => {
+  const entry = (await store.getOutbox()).find(candidate => candidate.clientId === clientId);
+  if (!entry) return undefined;
+  const retried: OutboxEntry = { ...entry, attempts: 0, lastAttemptAt: undefined, lastError: undefined, status: 'queued' };
+  await store.putOutboxEntry(retried);
+  return retried;
+};
+
+// ===== CACHE AND SYNC =====
+
+const pendingFor = async (store: ChatOfflineStore, channelId: string): Promise<ChatMessage[]> =>
+  (await store.getOutbox()).filter(entry => entry.channelId === channelId).map(toPendingMessage);
+
+/**
+ * Add confirmed messages to a channel's cache, keeping the newest CHANNEL_CACHE_LIMIT
+ */
+export const cacheMessages = async (
+  store: ChatOfflineStore,
+  channelId: string,
+  messages: ChatMessage[],
+  now: Date = new Date()
+): Promise<ChannelMessageCache> => {
+  const cached = await store.getChannel(channelId);
+  const confirmed = messages.filter(message => !isPendingMessage(message) && message.id);
+  const merged = mergeMessages(cached?.messages || [], confirmed).slice(-CHANNEL_CACHE_LIMIT);
+  const cache: ChannelMessageCache = {
+    channelId,
+    messages: merged,
+    cursor: getSyncCursor(merged),
+    syncedAt: cached?.syncedAt || now.toISOString(),
+  };
+  await store.putChannel(cache);
+  return cache;
+};
+
+/**
+ * Apply an edit seen live to a cached message, or drop it with `null`, so the
+ * cache is current before the next sync brings the server's copy.
+ */
+export const updateCachedMessage = async (
+  store: ChatOfflineStore,
+  channelId: string,
+  messageId: string,
+  updates: Partial<ChatMessage> | null
+): Promise<void> => {
+  const cached = await store.getChannel(channelId);
+  if (!cached || !cached.messages.some(message => message.id === messageId)) return;
+  const messages = updates
+    ? cached.messages.map(message => (message.id === messageId ? { ...message, ...updates } : message))
+    : cached.messages.filter(message => message.id !== messageId);
+  await store.putChannel({ ...cached, messages, cursor: getSyncCursor(messages) || cached.cursor });
+};
+
+/**
+ * Cached messages for a channel with its outbox messages, for showing before any sync
+ */
+export const loadChannelMessages = async (store: ChatOfflineStore, channelId: string): Promise<ChatMessage[]> => {
+  const cached = await store.getChannel(channelId);
+  return mergeMessages(cached?.messages || [], await pendingFor(store, channelId));
+};
+
+export interface ChannelSyncResult {
+  messages: ChatMessage[];
+  cursor?: string;
+  fetched: number;
+  error?: string;
+}
+
+/**
+ * Bring a channel's cache up to date. `fetchSince` gets the cursor (undefined
+ * for a channel that was never cached) and returns messages changed at or
+ * after it, deleted ones as tombstones that replace the cached copy; pages
+ * are fetched until one comes back short. A failed fetch
+ * returns the cached messages with the error instead of throwing.
+ */
+export const syncChannelMessages = async (
+  store: ChatOfflineStore,
+  channelId: string,
+  fetchSince: (cursor?: string) => Promise<ChatMessage[]>,
+  options: { pageSize?: number; now?: Date } = {}
+): Promise<ChannelSyncResult> => {
+  const now = options.now || new Date();
+  const cached = await store.getChannel(channelId);
+  let messages = cached?.messages || [];
+  let cursor = cached?.cursor;
+  let fetched = 0;
+  let error: string | undefined;
+
+  try {
+    for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+      const batch = await fetchSince(cursor);
+      fetched += batch.length;
+      messages = mergeMessages(messages, batch);
+      const nextCursor = getSyncCursor(messages);
+      if (!cursor || !options.pageSize || batch.length < options.pageSize || nextCursor === cursor) break;
+      cursor = nextCursor;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Messages could not be synced';
+  }
+
+  messages = messages.slice(-CHANNEL_CACHE_LIMIT);
+  cursor = getSyncCursor(messages);
+  if (!error) await store.putChannel({ channelId, messages, cursor, syncedAt: now.toISOString() });
+
+  return { messages: mergeMessages(messages, await pendingFor(store, channelId)), cursor, fetched, error };
+};
+
+// ===== SHARED FLUSH =====
+
+let runningFlush: Promise<OutboxFlushResult> | null = null;
+
+/**
+ * Send the outbox through `send` (REST or socket) and cache what was sent.
+ * While a flush runs, other callers get its result instead of starting
+ * another, whichever transport they use.
+ */
+export const flushChatOutbox = (
+  send: (entry: OutboxEntry) => Promise<ChatMessage>,
+  store: ChatOfflineStore = getChatOfflineStore()
+): Promise<OutboxFlushResult> => {
+  // Offline messages wait for the connection instead of using up their attempts
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return store.getOutbox().then(pending => ({ sent: [], failed: [], pending }));
+  }
+  if (!runningFlush) {
+    runningFlush = flushOutbox(store, send)
+      .then(async result => {
+        for (const message of result.sent) {
+          if (message.channelId) await cacheMessages(store, message.channelId, [message]);
+        }
+        return result;
+      })
+      .finally(() => {
+        runningFlush = null;
+      });
+  }
+  return runningFlush;
+};
@@ -0,0 +1,430 @@
+/**
+ * Chat Threads, Mentions and Unread Counters
+ *
+ * Conversation state for the chat page, kept out of the components:
+ * - Threads built from replyToId/threadId; replies live in the thread
+ *   panel, the main list only shows top-level messages
+ * - @user and @channel mention parsing against channel members, and the
+ *   autocomplete suggestions offered while typing
+ * - Per-user read markers with unread and mention counters per channel;
+ *   a channel counts as read up to the newest message passed to markAsRead.
+ *   chat-service keeps the markers and counts; the local copy covers
+ *   messages that arrive between fetches
+ * - Notification decisions per channel (all messages, mentions only or
+ *   none), silenced during quiet hours in the member's timezone
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  ChannelNotificationMode,
+  ChannelReadMarker,
+  ChannelUnreadCount,
+  ChannelUnreadSummary,
+  ChatInboxState,
+  ChatMessage,
+  ChatUser,
+  MentionSuggestion,
+  MessageMention,
+  MessageThread,
+  NotificationSettings
+} from '../types/chat';
+import { createVersionedStore, KeyValueStorage } from './versionedStore';
+
+// ===== THREADS =====
+
+const time = (value?: string): number => (value ? new Date(value).getTime() || 0 : 0);
+
+const byCreatedAt = (a: ChatMessage, b: ChatMessage) => time(a.createdAt) - time(b.createdAt);
+
+/**
+ * ID of the message a reply belongs under, following replyToId up to the
+ * first message that is not itself a reply. Undefined for top-level messages.
+ */
+export const getThreadRootId = (message: ChatMessage, byId: Map<string, ChatMessage>): string | undefined => {
+  if (message.threadId) return message.threadId;
+
+  let rootId = message.replyToId;
+  const seen = new Set<string>([message.id]);
+  while (rootId && !seen.has(rootId)) {
+    seen.add(rootId);
+    const parent = byId.get(rootId);
+    if (!parent) break;
+    if (parent.threadId) return parent.threadId;
+    if (!parent.replyToId) break;
+    rootId = parent.replyToId;
+  }
+  return rootId;
+};
+
+/**
+ * Split loaded messages into the main list and threads keyed by root message ID.
+ * Replies whose root is not loaded stay in the main list so nothing disappears.
+ */
+export const buildThreads = (messages: ChatMessage[]): { topLevel: ChatMessage[]; threads: Record<string, MessageThread> } => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const topLevel: ChatMessage[] = [];
+  const threads: Record<string, MessageThread> = {};
+
+  messages.forEach(message => {
+    const rootId = getThreadRootId(message, byId);
+    const root = rootId ? byId.get(rootId) : undefined;
+    if (!root) {
+      topLevel.push(message);
+      return;
+    }
+    if (!threads[root.id]) threads[root.id] = { root, replies: [], participantIds: [] };
+    threads[root.id].replies.push(message);
+  });
+
+  Object.values(threads).forEach(thread => {
+    thread.replies.sort(byCreatedAt);
+    thread.participantIds = Array.from(new Set([thread.root.senderId, ...thread.replies.map(reply => reply.senderId)]));
+    thread.lastReplyAt = thread.replies[thread.replies.length - 1]?.createdAt;
+  });
+
+  return { topLevel, threads };
+};
+
+// ===== MENTIONS =====
+
+/**
+ * Keywords that mention every member of the channel
+ */
+export const CHANNEL_MENTIONS = ['channel', 'here', 'everyone'];
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[A-Za-z0-9_À-ɏ]/.test(char);
+
+const handleOf = (member: ChatUser): string => (member.email ? member.email.split('@')[0] : '');
+
+const uniqueMembers = (members: ChatUser[]): ChatUser[] =>
+  members.filter((member, index) => member && members.findIndex(other => other?.id === member.id) === index);
+
+/**
+ * Find @user and @channel mentions in message text. Users match on their full
+ * name or email handle, longest match first so "@Ann Lee" beats "@Ann".
+ */
+export const parseMentions = (content: string, members: ChatUser[]): MessageMention[] => {
+  const candidates = [
+    ...CHANNEL_MENTIONS.map(keyword => ({ text: keyword, type: 'channel' as const, userId: undefined as string | undefined })),
+    ...uniqueMembers(members).flatMap(member => [member.name, handleOf(member)]
+      .filter(Boolean)
+      .map(text => ({ text, type: 'user' as const, userId: member.id }))),
+  ].sort((a, b) => b.text.length - a.text.length);
+
+  const lower = content.toLowerCase();
+  const mentions: MessageMention[] = [];
+  for (let index = lower.indexOf('@'); index >= 0; index = lower.indexOf('@', index + 1)) {
+    if (isWordChar(content[index - 1])) continue;
+    const match = candidates.find(candidate =>
+      lower.startsWith(candidate.text.toLowerCase(), index + 1) && !isWordChar(content[index + 1 + candidate.text.length]));
+    if (!match) continue;
+
+    const end = index + 1 + match.text.length;
+    mentions.push({ type: match.type, userId: match.userId, text: content.slice(index, end), start: index, end });
+    index = end - 1;
+  }
+  return mentions;
+};
+
+/**
+ * Whether a message mentions the user directly or through @channel
+ */
+export const mentionsUser = (message: ChatMessage, userId: string, members: ChatUser[]): boolean =>
+  !message.isDeleted && parseMentions(message.content || '', members)
+    .some(mention => mention.type === 'channel' || mention.userId === userId);
+
+/**
+ * Who a message mentions, as sent to chat-service: user IDs, and 'channel'
+ * for @channel, @here or @everyone
+ */
+export const getMentionTargets = (content: string, members: ChatUser[]): string[] =>
+  parseMentions(content, members)
+    .map(mention => (mention.type === 'channel' ? 'channel' : mention.userId as string))
+    .filter((target, index, targets) => targets.indexOf(target) === index);
+
+/**
+ * The @query being typed at the caret, or null when the caret is not in a mention
+ */
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start < 0 || isWordChar(text[start - 1])) return null;
+
+  const query = before.slice(start + 1);
+  if (query.length > 40 || /\n|\s\s/.test(query) || query.startsWith(' ')) return null;
+  return { query, start };
+};
+
+/**
+ * Autocomplete entries for a mention query: channel members whose name, any
+ * part of it or email handle starts with the query, then the channel keywords
+ */
+export const suggestMentions = (
+  query: string,
+  members: ChatUser[],
+  options: { excludeUserId?: string; limit?: number } = {}
+): MentionSuggestion[] => {
+  const needle = query.trim().toLowerCase();
+  const users: MentionSuggestion[] = uniqueMembers(members)
+    .filter(member => member.id !== options.excludeUserId)
+    .filter(member => {
+      const name = member.name.toLowerCase();
+      return !needle || name.startsWith(needle) || name.split(/\s+/).some(part => part.startsWith(needle))
+        || handleOf(member).toLowerCase().startsWith(needle);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(member => ({ type: 'user', userId: member.id, label: member.name, description: member.email, insert: `@${member.name} ` }));
+
+  const channel: MentionSuggestion[] = CHANNEL_MENTIONS
+    .filter(keyword => keyword.startsWith(needle))
+    .map(keyword => ({ type: 'channel', label: `@${keyword}`, description: 'Notify every member of this channel', insert: `@${keyword} ` }));
+
+  return [...users, ...channel].slice(0, options.limit ?? 6);
+};
+
+/**
+ * Replace the query from `start` to the caret with the suggestion
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  suggestion: MentionSuggestion
+): { text: string; caret: number } => {
+  const after = text.slice(caret).replace(/^\s+/, '');
+  const before = text.slice(0, start) + suggestion.insert;
+  return { text: before + after, caret: before.length };
+};
+
+// ===== READ MARKERS AND COUNTERS =====
+
+export const emptyInboxState = (): ChatInboxState => ({ markers: {}, counts: {}, notificationSettings: {} });
+
+/**
+ * Unread for the user: sent by someone else, not deleted, not in readBy and
+ * newer than the channel's read marker
+ */
+export const isUnreadFor = (message: ChatMessage, userId: string, marker?: ChannelReadMarker): boolean =>
+  message.senderId !== userId
+  && !message.isDeleted
+  && !(message.readBy || []).includes(userId)
+  && (!marker || time(message.createdAt) > time(marker.lastReadAt));
+
+/**
+ * Unread and mention counts for one channel from its loaded messages, thread replies included
+ */
+export const countUnread = (
+  messages: ChatMessage[],
+  userId: string,
+  members: ChatUser[],
+  marker?: ChannelReadMarker
+): ChannelUnreadCount => {
+  const unread = messages.filter(message => isUnreadFor(message, userId, marker));
+  return { unread: unread.length, mentions: unread.filter(message => mentionsUser(message, userId, members)).length };
+};
+
+/**
+ * The newest message in a list; passing it to markAsRead marks the channel read up to it
+ */
+export const getLatestMessage = (messages: ChatMessage[]): ChatMessage | undefined =>
+  messages.reduce<ChatMessage | undefined>((latest, message) =>
+    !latest || time(message.createdAt) > time(latest.createdAt) ? message : latest, undefined);
+
+/**
+ * Count a message that arrived in real time against its channel
+ */
+export const recordIncomingMessage = (
+  state: ChatInboxState,
+  message: ChatMessage,
+  userId: string,
+  members: ChatUser[]
+): ChatInboxState => {
+  if (!message.channelId || !isUnreadFor(message, userId, state.markers[message.channelId])) return state;
+
+  const count = state.counts[message.channelId] || { unread: 0, mentions: 0 };
+  return {
+    ...state,
+    counts: {
+      ...state.counts,
+      [message.channelId]: {
+        unread: count.unread + 1,
+        mentions: count.mentions + (mentionsUser(message, userId, members) ? 1 : 0),
+      },
+    },
+  };
+};
+
+/**
+ * Move the channel's read marker up to a message and clear its counters.
+ * The marker never moves backwards.
+ */
+export const markChannelRead = (state: ChatInboxState, channelId: string, message: ChatMessage): ChatInboxState => {
+  const marker = state.markers[channelId];
+  const nextMarker = marker && time(marker.lastReadAt) >= time(message.createdAt)
+    ? marker
+    : { lastReadAt: message.createdAt, lastReadMessageId: message.id };
+  return {
+    ...state,
+    markers: { ...state.markers, [channelId]: nextMarker },
+    counts: { ...state.counts, [channelId]: { unread: 0, mentions: 0 } },
+  };
+};
+
+/**
+ * Recount a channel from its loaded messages, e.g. when it loads while the page is hidden
+ */
+export const syncChannelCounts = (
+  state: ChatInboxState,
+  channelId: string,
+  messages: ChatMessage[],
+  userId: string,
+  members: ChatUser[]
+): ChatInboxState => ({
+  ...state,
+  counts: { ...state.counts, [channelId]: countUnread(messages, userId, members, state.markers[channelId]) },
+});
+
+/**
+ * Whether a channel has a read marker newer than a message, i.e. markAsRead is not needed
+ */
+export const isReadUpTo = (state: ChatInboxState, channelId: string, message: ChatMessage): boolean => {
+  const marker = state.markers[channelId];
+  return !!marker && time(marker.lastReadAt) >= time(message.createdAt);
+};
+
+/**
+ * Take chat-service's counts and read markers. A marker only moves forward,
+ * so a channel read on this device stays read until the server catches up.
+ */
+export const applyUnreadSummaries = (state: ChatInboxState, summaries: ChannelUnreadSummary[]): ChatInboxState =>
+  summaries.reduce<ChatInboxState>((next, { channelId, unread, mentions, lastReadAt }) => {
+    const marker = next.markers[channelId];
+    if (marker && time(marker.lastReadAt) > time(lastReadAt)) return next;
+    return {
+      ...next,
+      markers: lastReadAt && time(lastReadAt) > time(marker?.lastReadAt)
+        ? { ...next.markers, [channelId]: { lastReadAt } }
+        : next.markers,
+      counts: { ...next.counts, [channelId]: { unread, mentions } },
+    };
+  }, state);
+
+// ===== NOTIFICATIONS =====
+
+export const NOTIFICATION_MODES: { value: ChannelNotificationMode; label: string }[] = [
+  { value: 'all', label: 'All messages' },
+  { value: 'mentions', label: 'Mentions only' },
+  { value: 'none', label: 'Nothing' },
+];
+
+const localTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const defaultNotificationSettings = (timezone: string = localTimezone()): NotificationSettings => ({
+  mentions: true,
+  allMessages: true,
+  importantOnly: false,
+  quietHours: { enabled: false, startTime: '22:00', endTime: '07:00', timezone },
+});
+
+export const getChannelNotificationSettings = (state: ChatInboxState, channelId: string): NotificationSettings =>
+  state.notificationSettings[channelId] || defaultNotificationSettings();
+
+export const setChannelNotificationSettings = (
+  state: ChatInboxState,
+  channelId: string,
+  settings: NotificationSettings
+): ChatInboxState => ({ ...state, notificationSettings: { ...state.notificationSettings, [channelId]: settings } });
+
+export const getNotificationMode = (settings: NotificationSettings): ChannelNotificationMode =>
+  settings.allMessages ? 'all' : settings.mentions ? 'mentions' : 'none';
+
+export const withNotificationMode = (settings: NotificationSettings, mode: ChannelNotificationMode): NotificationSettings => ({
+  ...settings,
+  allMessages: mode === 'all',
+  mentions: mode !== 'none',
+});
+
+const parseClock = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const minutesIn = (now: Date, timezone: string): number => {
+  try {
+    const [hours, minutes] = new Intl.DateTimeFormat('en-GB', { timeZone: timezone || undefined, hour: '2-digit', minute: '2-digit' })
+      .format(now)
+      .split(':')
+      .map(Number);
+    return (hours % 24) * 60 + minutes;
+  } catch {
+    // Unknown timezone: fall back to the browser's clock
+    return now.getHours() * 60 + now.getMinutes();
+  }
+};
+
+/**
+ * Whether `now` falls in the quiet hours, read in their timezone.
+ * Windows may wrap midnight (22:00 to 07:00); equal start and end means no window.
+ */
+export const isWithinQuietHours = (quietHours: NotificationSettings['quietHours'], now: Date = new Date()): boolean => {
+  if (!quietHours?.enabled) return false;
+  const start = parseClock(quietHours.startTime);
+  const end = parseClock(quietHours.endTime);
+  if (start === null || end === null || start === end) return false;
+
+  const minutes = minutesIn(now, quietHours.timezone);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+/**
+ * Whether a message should raise a notification for the user under the
+ * channel's settings. Nothing notifies during quiet hours, mentions included.
+ */
+export const shouldNotify = (
+  message: ChatMessage,
+  userId: string,
+  settings: NotificationSettings,
+  members: ChatUser[],
+  now: Date = new Date()
+): boolean => {
+  if (message.senderId === userId || message.isDeleted) return false;
+  const mode = getNotificationMode(settings);
+  if (mode === 'none' || isWithinQuietHours(settings.quietHours, now)) return false;
+  return mode === 'all' || mentionsUser(message, userId, members);
+};
+
+// ===== PERSISTENCE =====
+
+// Every user's inbox state on this device, keyed by user ID
+const inboxStore = createVersionedStore<Record<string, ChatInboxState>>({
+  key: 'chatInboxState',
+  version: 1,
+  label: 'chat inbox state',
+  read: saved => saved.users,
+  write: users => ({ users }),
+});
+
+
+/**
+ * Load a user's read markers, counters and notification settings, or the fallback
+ */
+export const loadChatInboxState = (userId: string, fallback: ChatInboxState, storage?: KeyValueStorage): ChatInboxState => {
+  const saved = inboxStore.load({}, storage)[userId];
+  if (!saved) return fallback;
+  return { markers: saved.markers || {}, counts: saved.counts || {}, notificationSettings: saved.notificationSettings || {} };
+};
+
+export const saveChatInboxState = (userId: string, state: ChatInboxState, storage?: KeyValueStorage): void => {
+  // Unreadable entries from other users are dropped rather than blocking the save
+  const users = inboxStore.load({}, storage);
+  inboxStore.save({ ...users, [userId]: state }, storage);
+};
@@ -0,0 +1,198 @@
+/**
+ * Column Mapping Import
+ *
+ * Shared steps of the spreadsheet import screens:
+ * - Guessing which header holds each column from its usual names
+ * - Checking a column mapping before any row is read
+ * - Reading data rows with errors per row, as BatchImportError
+ * - Reading date and number cells written in European or US style
+ *
+ * Each import keeps its own column definitions and decides how a row
+ * becomes a record; this module only handles headers, cells, row
+ * numbers and duplicate rows.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import { BatchImportError } from '../types';
+import { excelSerialToDate } from './spreadsheet';
+
+export interface ColumnDefinition<C extends string> {
+  column: C;
+  label: string;
+  required: boolean;
+  aliases: string[];             // Lower-case headers recognised automatically
+}
+
+export type ColumnMapping<C extends string> = Partial<Record<C, string>>;
+
+// ===== MAPPING =====
+
+/**
+ * Map headers to columns by their label or usual names
+ */
+export const guessColumnMapping = <C extends string>(columns: ColumnDefinition<C>[], headers: string[]): ColumnMapping<C> => {
+  const mapping: ColumnMapping<C> = {};
+  const used = new Set<string>();
+  columns.forEach(({ column, label, aliases }) => {
+    const header = headers.find(candidate =>
+      !used.has(candidate) && [label.toLowerCase(), ...aliases].includes(candidate.trim().toLowerCase())
+    );
+    if (header) {
+      mapping[column] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+};
+
+/**
+ * Problems with a column mapping; empty when the file can be imported
+ */
+export const validateColumnMapping = <C extends string>(
+  columns: ColumnDefinition<C>[],
+  mapping: ColumnMapping<C>,
+  headers: string[]
+): string[] => {
+  const problems: string[] = [];
+  const seen = new Map<string, string>();
+
+  columns.forEach(({ column, label, required }) => {
+    const header = mapping[column];
+    if (!header) {
+      if (required) problems.push(`Choose the column that holds ${label.toLowerCase()}`);
+      return;
+    }
+    if (!headers.includes(header)) {
+      problems.push(`Column "${header}" is not in the file`);
+    } else if (seen.has(header)) {
+      problems.push(`Column "${header}" is mapped to both ${seen.get(header)} and ${label.toLowerCase()}`);
+    }
+    seen.set(header, label.toLowerCase());
+  });
+
+  return problems;
+};
+
+// ===== CELLS =====
+
+/**
+ * Date cell as YYYY-MM-DD. Accepts ISO dates, DD.MM.YYYY, DD/MM/YYYY
+ * and Excel serial day numbers.
+ */
+export const parseCellDate = (value: string): string | null => {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const european = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (european) {
+    [day, month, year] = [Number(european[1]), Number(european[2]), Number(european[3])];
+  } else if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return excelSerialToDate(Number(text));
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Number from a spreadsheet cell; handles currency signs, thousands
+ * separators and decimal commas ("1.234,50"). Commas between groups of
+ * three digits ("1,234" or "1,234,567.5") are thousands separators.
+ */
+export const parseCellNumber = (value: string): number => {
+  let text = value.trim().replace(/[€$£\s]/g, '');
+  if (!text) return NaN;
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/,/g, '');
+  } else if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+};
+
+// ===== ROWS =====
+
+export interface MappedRow<C extends string> {
+  row: number;                   // Spreadsheet row number; the header is row 1
+  cell: (column: C) => string;   // Trimmed cell text; empty for unmapped columns
+  fail: (column: C, error: string) => void;
+  failed: () => boolean;         // Whether the row has errors so far
+}
+
+export interface MappedRowsOptions<C extends string, R> {
+  validate: (mapping: ColumnMapping<C>, headers: string[]) => string[];
+  createError: (message: string) => Error;
+  readRow: (row: MappedRow<C>) => R | undefined; // Record for the row; ignored once the row has errors
+  duplicate?: {
+    key: (record: R) => string;
+    column: C;
+    error: (firstRow: number) => string;
+  };
+}
+
+export interface MappedRowsResult<R> {
+  records: R[];
+  errors: BatchImportError[];
+  totalRows: number;
+}
+
+/**
+ * Read spreadsheet rows (header first) into records. An empty file or an
+ * unusable mapping throws the import's own error; row problems are
+ * collected, and a row repeating an earlier record's key is rejected.
+ */
+export const readMappedRows = <C extends string, R>(
+  rows: string[][],
+  mapping: ColumnMapping<C>,
+  { validate, createError, readRow, duplicate }: MappedRowsOptions<C, R>
+): MappedRowsResult<R> => {
+  if (!rows.length) {
+    throw createError('The file is empty');
+  }
+  const [headers, ...dataRows] = rows;
+  const problems = validate(mapping, headers);
+  if (problems.length) {
+    throw createError(problems.join('; '));
+  }
+
+  const index = (column: C) => (mapping[column] ? headers.indexOf(mapping[column] as string) : -1);
+  const firstRowByKey = new Map<string, number>();
+  const records: R[] = [];
+  const errors: BatchImportError[] = [];
+
+  dataRows.forEach((cells, offset) => {
+    const row = offset + 2;
+    const rowErrors: BatchImportError[] = [];
+    const fail = (column: C, error: string) => rowErrors.push({ row, field: mapping[column] || column, error });
+    const cell = (column: C) => (index(column) >= 0 ? (cells[index(column)] ?? '').trim() : '');
+
+    const record = readRow({ row, cell, fail, failed: () => rowErrors.length > 0 });
+    if (!rowErrors.length && record !== undefined) {
+      const key = duplicate ? duplicate.key(record) : '';
+      const firstRow = firstRowByKey.get(key);
+      if (duplicate && firstRow) {
+        fail(duplicate.column, duplicate.error(firstRow));
+      } else {
+        if (duplicate) firstRowByKey.set(key, row);
+        records.push(record);
+      }
+    }
+    errors.push(...rowErrors);
+  });
+
+  return { records, errors, totalRows: dataRows.length };
+};
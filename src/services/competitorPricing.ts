@@ -0,0 +1,333 @@
+/**
+ * Competitor Pricing
+ *
+ * Competitor shelf prices, promotions and facings captured on visits:
+ * - Competitor analysis questions list own / competitor SKU pairs; the
+ *   answer records both shelf prices, the promo mechanic and facings
+ * - Answers become observations tagged with workplace, retailer and area
+ * - Price index (our price / competitor effective price x 100) per
+ *   retailer or area by week or month
+ * - Stores whose latest own price is outside the agreed corridor
+ * - Promotion pressure and shelf presence per competitor brand
+ *
+ * The competitor's effective price is its promo price while a promotion
+ * with a promo price is running, otherwise its shelf price.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  CompetitorAnalysisConfig,
+  CompetitorPriceAnswer,
+  CompetitorPriceLine,
+  CompetitorPriceObservation,
+  CompetitorPromoSummary,
+  CorridorBreach,
+  PriceCorridor,
+  PriceIndexSeries,
+  PricingVerificationConfig,
+  PromoMechanic,
+  QuestionType,
+  TodoQuestion,
+  TodoResponse
+} from '../types';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for price captures that cannot be recorded
+ */
+export class CompetitorPricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompetitorPricingError';
+  }
+}
+
+export const PROMO_MECHANICS: { value: PromoMechanic; label: string }[] = [
+  { value: 'none', label: 'No promotion' },
+  { value: 'price-cut', label: 'Price cut' },
+  { value: 'multi-buy', label: 'Multi-buy' },
+  { value: 'bundle', label: 'Bundle' },
+  { value: 'gift', label: 'Gift with purchase' },
+  { value: 'cashback', label: 'Cashback' },
+  { value: 'display', label: 'Display only' },
+];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const pairKey = (line: Pick<CompetitorPriceLine, 'ownSku' | 'competitorSku'>) => `${line.ownSku}|${line.competitorSku}`;
+
+// ===== VISIT CAPTURE =====
+
+export const getCompetitorAnalysisConfig = (question: TodoQuestion): CompetitorAnalysisConfig | undefined =>
+  question.merchandisingConfig?.competitorAnalysis;
+
+export const getPricingVerificationConfig = (question: TodoQuestion): PricingVerificationConfig | undefined =>
+  question.merchandisingConfig?.pricingVerification;
+
+/**
+ * Add or replace the line of a SKU pair; pass undefined to remove it
+ */
+export const setPriceLine = (
+  answer: CompetitorPriceAnswer,
+  pair: Pick<CompetitorPriceLine, 'ownSku' | 'competitorSku'>,
+  line: CompetitorPriceLine | undefined
+): CompetitorPriceAnswer => {
+  const others = answer.lines.filter(existing => pairKey(existing) !== pairKey(pair));
+  return { ...answer, lines: line ? [...others, line] : others };
+};
+
+/**
+ * Validate a competitor price answer against its question settings
+ */
+export const validateCompetitorPrices = (
+  answer: any,
+  config?: CompetitorAnalysisConfig,
+  pricing?: PricingVerificationConfig
+): string[] => {
+  if (!answer || typeof answer !== 'object' || !Array.isArray(answer.lines)) return ['Record the competitor prices'];
+  const capture = answer as CompetitorPriceAnswer;
+  const errors: string[] = [];
+  const products = config?.products || [];
+  const seen = new Set<string>();
+
+  capture.lines.forEach(line => {
+    const label = line.competitorName || `${line.competitorBrand} ${line.competitorSku}`;
+    if (!(line.ownPrice > 0)) errors.push(`Enter our shelf price next to ${label}`);
+    if (!(line.shelfPrice > 0)) errors.push(`Enter the shelf price of ${label}`);
+    if (![line.ownFacings, line.facings].every(facings => Number.isInteger(facings) && facings >= 0)) {
+      errors.push(`Enter whole facings for ${label}`);
+    }
+    if (line.promoMechanic === 'price-cut' && line.promoPrice === undefined) {
+      errors.push(`Enter the promo price of ${label}`);
+    }
+    if (line.promoPrice !== undefined && !(line.promoPrice > 0 && line.promoPrice < line.shelfPrice)) {
+      errors.push(`The promo price of ${label} must be below its shelf price`);
+    }
+    if (line.promoPrice !== undefined && line.promoMechanic === 'none') {
+      errors.push(`Choose the promotion mechanic of ${label}`);
+    }
+    if (seen.has(pairKey(line))) errors.push(`${label} is priced twice`);
+    seen.add(pairKey(line));
+  });
+
+  if (config?.requirePricingData) {
+    products.filter(product => !seen.has(pairKey(product))).forEach(product => errors.push(`Price ${product.competitorName}`));
+  }
+  if (!capture.lines.length && !(config?.requirePricingData && products.length)) {
+    errors.push('Price at least one competitor product');
+  }
+  if ((config?.requirePhotos || pricing?.requirePhotos) && !capture.photos?.length) {
+    errors.push('Add a photo of the competitor shelf');
+  }
+
+  return errors;
+};
+
+/**
+ * Price observations from a visit's questionnaire responses. IDs are
+ * derived from the visit, so syncing the same visit twice replaces its prices.
+ */
+export const observationsFromResponses = (
+  responses: TodoResponse[],
+  questions: TodoQuestion[],
+  context: Pick<CompetitorPriceObservation, 'workplaceId' | 'workplaceName' | 'retailer' | 'areaId' | 'areaName' | 'recordedBy'>
+): CompetitorPriceObservation[] =>
+  responses.flatMap(response => {
+    const question = questions.find(candidate => candidate.id === response.questionId);
+    if (question?.type !== QuestionType.COMPETITOR_ANALYSIS) return [];
+    const answer = response.answer as CompetitorPriceAnswer;
+    return answer.lines.map(line => ({
+      ...line,
+      ...context,
+      id: `${response.todoId}-${response.questionId}-${line.ownSku}-${line.competitorSku}`,
+      observedAt: response.metadata?.timestamp || response.createdAt,
+      source: { todoId: response.todoId, questionId: response.questionId },
+    }));
+  });
+
+/**
+ * Add observations, replacing any with the same ID
+ */
+export const mergeObservations = (
+  existing: CompetitorPriceObservation[],
+  incoming: CompetitorPriceObservation[]
+): CompetitorPriceObservation[] => {
+  const ids = new Set(incoming.map(observation => observation.id));
+  return [...existing.filter(observation => !ids.has(observation.id)), ...incoming]
+    .sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+};
+
+// ===== PRICE INDEX =====
+
+/**
+ * What the shopper pays for the competitor SKU
+ */
+export const getEffectivePrice = (line: CompetitorPriceLine): number =>
+  line.promoMechanic !== 'none' && line.promoPrice !== undefined ? line.promoPrice : line.shelfPrice;
+
+/**
+ * Our price as a percentage of the competitor's effective price; above 100 means we are dearer
+ */
+export const getPriceIndex = (line: CompetitorPriceLine): number =>
+  round1((line.ownPrice / getEffectivePrice(line)) * 100);
+
+/**
+ * Week start (Monday, UTC) or month of a timestamp
+ */
+export const getPeriod = (timestamp: string, granularity: 'week' | 'month'): string => {
+  const date = new Date(timestamp);
+  if (granularity === 'month') return date.toISOString().slice(0, 7);
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+  return monday.toISOString().split('T')[0];
+};
+
+/**
+ * Average price index per retailer or area and period, optionally for one own SKU
+ */
+export const getPriceIndexSeries = (
+  observations: CompetitorPriceObservation[],
+  by: 'retailer' | 'area',
+  granularity: 'week' | 'month',
+  ownSku?: string
+): PriceIndexSeries[] => {
+  const groups = new Map<string, { label: string; periods: Map<string, number[]> }>();
+  observations
+    .filter(observation => !ownSku || observation.ownSku === ownSku)
+    .forEach(observation => {
+      const key = by === 'retailer' ? observation.retailer : observation.areaId;
+      const group = groups.get(key) || { label: by === 'retailer' ? observation.retailer : observation.areaName, periods: new Map() };
+      const period = getPeriod(observation.observedAt, granularity);
+      group.periods.set(period, [...(group.periods.get(period) || []), getPriceIndex(observation)]);
+      groups.set(key, group);
+    });
+
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    label: group.label,
+    points: Array.from(group.periods, ([period, indices]) => ({
+      period,
+      index: round1(indices.reduce((sum, index) => sum + index, 0) / indices.length),
+      observations: indices.length,
+    })).sort((a, b) => a.period.localeCompare(b.period)),
+  })).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// ===== CORRIDORS =====
+
+/**
+ * The corridor for an own SKU at a retailer; a retailer's own corridor wins over the general one
+ */
+export const findCorridor = (corridors: PriceCorridor[], ownSku: string, retailer: string): PriceCorridor | undefined =>
+  corridors.find(corridor => corridor.ownSku === ownSku && corridor.retailer === retailer) ||
+  corridors.find(corridor => corridor.ownSku === ownSku && !corridor.retailer);
+
+/**
+ * Where a price sits against its corridor
+ */
+export const checkCorridor = (price: number, corridor: PriceCorridor): { direction: 'below' | 'above'; deviation: number } | null => {
+  if (price < corridor.minPrice) return { direction: 'below', deviation: round2(corridor.minPrice - price) };
+  if (price > corridor.maxPrice) return { direction: 'above', deviation: round2(price - corridor.maxPrice) };
+  return null;
+};
+
+export const validateCorridor = (corridor: PriceCorridor): void => {
+  if (!corridor.ownSku.trim()) {
+    throw new CompetitorPricingError('Choose the SKU the corridor applies to');
+  }
+  if (!(corridor.minPrice > 0) || !(corridor.maxPrice >= corridor.minPrice)) {
+    throw new CompetitorPricingError(`The corridor for ${corridor.ownName || corridor.ownSku} needs a minimum above zero and a maximum at or above it`);
+  }
+};
+
+/**
+ * Stores whose latest own shelf price of a SKU is outside its corridor,
+ * largest deviation first
+ */
+export const getCorridorBreaches = (observations: CompetitorPriceObservation[], corridors: PriceCorridor[]): CorridorBreach[] => {
+  const latest = new Map<string, CompetitorPriceObservation>();
+  observations.forEach(observation => {
+    const key = `${observation.workplaceId}|${observation.ownSku}`;
+    const current = latest.get(key);
+    if (!current || observation.observedAt > current.observedAt) latest.set(key, observation);
+  });
+
+  return Array.from(latest.values())
+    .flatMap((observation): CorridorBreach[] => {
+      const corridor = findCorridor(corridors, observation.ownSku, observation.retailer);
+      const breach = corridor && checkCorridor(observation.ownPrice, corridor);
+      if (!corridor || !breach) return [];
+      return [{
+        corridorId: corridor.id,
+        workplaceId: observation.workplaceId,
+        workplaceName: observation.workplaceName,
+        retailer: observation.retailer,
+        areaName: observation.areaName,
+        ownSku: observation.ownSku,
+        ownName: corridor.ownName,
+        ownPrice: observation.ownPrice,
+        minPrice: corridor.minPrice,
+        maxPrice: corridor.maxPrice,
+        observedAt: observation.observedAt,
+        ...breach,
+      }];
+    })
+    .sort((a, b) => b.deviation - a.deviation || a.workplaceName.localeCompare(b.workplaceName));
+};
+
+// ===== PROMOTIONS =====
+
+/**
+ * Promotion share, mechanics, discount depth and facing share per competitor brand
+ */
+export const summarizePromotions = (observations: CompetitorPriceObservation[]): CompetitorPromoSummary[] => {
+  const brands = new Map<string, CompetitorPriceObservation[]>();
+  observations.forEach(observation => {
+    brands.set(observation.competitorBrand, [...(brands.get(observation.competitorBrand) || []), observation]);
+  });
+
+  return Array.from(brands, ([competitorBrand, lines]) => {
+    const promoted = lines.filter(line => line.promoMechanic !== 'none');
+    const discounts = promoted.filter(line => line.promoPrice !== undefined)
+      .map(line => (1 - line.promoPrice! / line.shelfPrice) * 100);
+    const mechanics: Partial<Record<PromoMechanic, number>> = {};
+    promoted.forEach(line => { mechanics[line.promoMechanic] = (mechanics[line.promoMechanic] || 0) + 1; });
+    const ownFacings = lines.reduce((sum, line) => sum + line.ownFacings, 0);
+    const totalFacings = ownFacings + lines.reduce((sum, line) => sum + line.facings, 0);
+
+    return {
+      competitorBrand,
+      observations: lines.length,
+      promoShare: round1((promoted.length / lines.length) * 100),
+      mechanics,
+      averageDiscount: discounts.length ? round1(discounts.reduce((sum, discount) => sum + discount, 0) / discounts.length) : 0,
+      ownFacingShare: totalFacings ? round1((ownFacings / totalFacings) * 100) : 0,
+    };
+  }).sort((a, b) => b.promoShare - a.promoShare || a.competitorBrand.localeCompare(b.competitorBrand));
+};
+
+// ===== PERSISTENCE =====
+
+export interface CompetitorPricingState {
+  observations: CompetitorPriceObservation[];
+  corridors: PriceCorridor[];
+}
+
+const competitorPricingStore = createVersionedStore<CompetitorPricingState>({
+  key: 'competitor-pricing',
+  version: 1,
+  label: 'competitor prices',
+  read: (saved, fallback) => ({
+    observations: saved.observations || fallback.observations,
+    corridors: saved.corridors || fallback.corridors,
+  }),
+});
+
+/**
+ * Load saved observations and corridors, or the fallback when nothing (valid) is stored
+ */
+export const loadCompetitorPricingState = competitorPricingStore.load;
+
+export const saveCompetitorPricingState = competitorPricingStore.save;
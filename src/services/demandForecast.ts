@@ -0,0 +1,524 @@
+/**
+ * Demand Forecasting
+ *
+ * Per-workplace forecasts of sales, visit compliance and attendance,
+ * computed locally from imported history:
+ * - Daily visit / attendance figures imported from CSV/XLSX with a
+ *   column mapping, like sell-out
+ * - Series by day or week: sales are summed, compliance and attendance
+ *   are completed / planned and present / scheduled in percent
+ * - Additive Holt-Winters smoothing, initialised from a classical
+ *   seasonal decomposition; trend-only Holt when the history covers
+ *   fewer than two seasons
+ * - Prediction intervals from the one-step residuals
+ * - Backtest accuracy by refitting without the latest periods
+ *
+ * Smoothing parameters are picked from a fixed grid by the lowest
+ * one-step squared error, so the same history always gives the same
+ * forecast.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  ForecastBacktest,
+  ForecastGranularity,
+  ForecastMetric,
+  ForecastPoint,
+  MetricPoint,
+  SellOutRecord,
+  WorkplaceActivityColumn,
+  WorkplaceActivityColumnMapping,
+  WorkplaceActivityRecord,
+  WorkplaceForecast
+} from '../types';
+import {
+  ColumnDefinition,
+  guessColumnMapping,
+  MappedRowsResult,
+  parseCellDate,
+  parseCellNumber,
+  readMappedRows,
+  validateColumnMapping
+} from './columnImport';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for series that cannot be forecast and unusable imports
+ */
+export class ForecastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForecastError';
+  }
+}
+
+export const FORECAST_METRICS: { value: ForecastMetric; label: string }[] = [
+  { value: 'sales', label: 'Sales' },
+  { value: 'visit-compliance', label: 'Visit compliance' },
+  { value: 'attendance', label: 'Attendance' },
+];
+
+export type ActivityColumnDefinition = ColumnDefinition<WorkplaceActivityColumn>;
+
+export const ACTIVITY_COLUMNS: ActivityColumnDefinition[] = [
+  { column: 'date', label: 'Date', required: true, aliases: ['date', 'day', 'datum'] },
+  { column: 'workplaceCode', label: 'Workplace code', required: true, aliases: ['workplace code', 'workplace', 'store code', 'store', 'outlet code', 'outlet', 'filiale'] },
+  { column: 'plannedVisits', label: 'Planned visits', required: false, aliases: ['planned visits', 'visits planned', 'planned'] },
+  { column: 'completedVisits', label: 'Completed visits', required: false, aliases: ['completed visits', 'visits completed', 'completed', 'visited'] },
+  { column: 'scheduledStaff', label: 'Scheduled staff', required: false, aliases: ['scheduled staff', 'scheduled', 'rostered', 'shifts'] },
+  { column: 'presentStaff', label: 'Present staff', required: false, aliases: ['present staff', 'present', 'attended', 'punched in'] },
+];
+
+type ActivityCountColumn = Exclude<WorkplaceActivityColumn, 'date' | 'workplaceCode'>;
+
+// Total / done pairs; a row needs at least one of them
+const ACTIVITY_PAIRS: [ActivityCountColumn, ActivityCountColumn][] = [
+  ['plannedVisits', 'completedVisits'],
+  ['scheduledStaff', 'presentStaff'],
+];
+
+const Z_SCORES: Record<number, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+const ALPHAS = [0.1, 0.2, 0.4, 0.6, 0.8];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.4];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== DATE AND NUMBER HELPERS =====
+
+const parseDay = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+const formatDay = (time: number) => new Date(time).toISOString().split('T')[0];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+/**
+ * Period a day falls in: the day itself, or the Monday of its week
+ */
+export const periodOf = (date: string, granularity: ForecastGranularity): string => {
+  if (granularity === 'day') return date.slice(0, 10);
+  const time = parseDay(date);
+  const weekday = (new Date(time).getUTCDay() + 6) % 7;
+  return formatDay(time - weekday * DAY_MS);
+};
+
+const addPeriods = (period: string, count: number, granularity: ForecastGranularity) =>
+  formatDay(parseDay(period) + count * (granularity === 'day' ? 1 : 7) * DAY_MS);
+
+/**
+ * Periods per season: a week of days, or a year of weeks
+ */
+export const defaultSeasonLength = (granularity: ForecastGranularity): number => (granularity === 'day' ? 7 : 52);
+
+// ===== ACTIVITY IMPORT =====
+
+/**
+ * Map headers to activity columns by their usual names
+ */
+export const guessActivityMapping = (headers: string[]): WorkplaceActivityColumnMapping => guessColumnMapping(ACTIVITY_COLUMNS, headers);
+
+/**
+ * Problems with a column mapping; empty when the file can be imported
+ */
+export const validateActivityMapping = (mapping: WorkplaceActivityColumnMapping, headers: string[]): string[] => {
+  const problems = validateColumnMapping(ACTIVITY_COLUMNS, mapping, headers);
+  if (!ACTIVITY_PAIRS.some(([total, done]) => mapping[total] && mapping[done])) {
+    problems.push('Choose the planned and completed visit columns, or the scheduled and present staff columns');
+  }
+  return problems;
+};
+
+const activityKey = (record: Pick<WorkplaceActivityRecord, 'date' | 'workplaceCode'>) => `${record.date}|${record.workplaceCode}`;
+
+export type ActivityParseResult = MappedRowsResult<WorkplaceActivityRecord>;
+
+const columnLabel = (column: WorkplaceActivityColumn) => ACTIVITY_COLUMNS.find(entry => entry.column === column)?.label;
+
+/**
+ * Validate spreadsheet rows (header first) into activity records.
+ * Row numbers in errors match the spreadsheet, so the header is row 1.
+ */
+export const parseActivityRows = (
+  rows: string[][],
+  mapping: WorkplaceActivityColumnMapping,
+  options: { workplaceCodes: string[]; importId?: string; today?: string }
+): ActivityParseResult => {
+  const knownCodes = new Set(options.workplaceCodes);
+  const today = options.today || formatDay(Date.now());
+
+  return readMappedRows<WorkplaceActivityColumn, WorkplaceActivityRecord>(rows, mapping, {
+    validate: validateActivityMapping,
+    createError: message => new ForecastError(message),
+    duplicate: { key: activityKey, column: 'date', error: firstRow => `Same date and workplace as row ${firstRow}` },
+    readRow: ({ cell, fail, failed }) => {
+      const date = parseCellDate(cell('date'));
+      if (!cell('date')) fail('date', 'Date is missing');
+      else if (!date) fail('date', `"${cell('date')}" is not a date`);
+      else if (date > today) fail('date', 'Date is in the future');
+
+      const workplaceCode = cell('workplaceCode');
+      if (!workplaceCode) fail('workplaceCode', 'Workplace code is missing');
+      else if (!knownCodes.has(workplaceCode)) fail('workplaceCode', `Unknown workplace code "${workplaceCode}"`);
+
+      const counts: Partial<Record<ActivityCountColumn, number>> = {};
+      ACTIVITY_PAIRS.forEach(([total, done]) => {
+        if (!cell(total) && !cell(done)) return;
+        [total, done].forEach(column => {
+          const value = parseCellNumber(cell(column));
+          if (!cell(column)) fail(column, `${columnLabel(column)} is missing`);
+          else if (Number.isNaN(value) || value < 0 || !Number.isInteger(value)) fail(column, `"${cell(column)}" is not a whole number`);
+          else counts[column] = value;
+        });
+        if ((counts[done] ?? 0) > (counts[total] ?? 0)) {
+          fail(done, `${columnLabel(done)} is more than ${columnLabel(total)?.toLowerCase()}`);
+        }
+      });
+      if (!Object.keys(counts).length && !failed()) {
+        fail(mapping.plannedVisits ? 'plannedVisits' : 'scheduledStaff', 'Row has no visit or attendance figures');
+      }
+
+      return date ? { date, workplaceCode, ...counts, importId: options.importId } : undefined;
+    },
+  });
+};
+
+/**
+ * Add imported records, replacing earlier figures for the same date and workplace
+ */
+export const mergeActivity = (existing: WorkplaceActivityRecord[], incoming: WorkplaceActivityRecord[]): WorkplaceActivityRecord[] => {
+  const byKey = new Map(existing.map(record => [activityKey(record), record]));
+  incoming.forEach(record => byKey.set(activityKey(record), record));
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.workplaceCode.localeCompare(b.workplaceCode));
+};
+
+// ===== SERIES =====
+
+export interface ForecastHistory {
+  sellOut: SellOutRecord[];
+  activity: WorkplaceActivityRecord[];
+}
+
+/**
+ * Metric per period for one workplace, from its first to its last
+ * observed period. Periods without sell-out count as zero sales;
+ * periods without planned visits or rostered staff repeat the previous
+ * rate.
+ */
+export const buildMetricSeries = (
+  history: ForecastHistory,
+  metric: ForecastMetric,
+  workplaceCode: string,
+  granularity: ForecastGranularity
+): MetricPoint[] => {
+  const totals = new Map<string, { total: number; done: number }>();
+  const add = (date: string, total: number, done: number) => {
+    const period = periodOf(date, granularity);
+    const entry = totals.get(period) || { total: 0, done: 0 };
+    totals.set(period, { total: entry.total + total, done: entry.done + done });
+  };
+
+  if (metric === 'sales') {
+    history.sellOut
+      .filter(record => record.workplaceCode === workplaceCode)
+      .forEach(record => add(record.date, record.amount, 0));
+  } else {
+    const [totalColumn, doneColumn] = metric === 'visit-compliance' ? ACTIVITY_PAIRS[0] : ACTIVITY_PAIRS[1];
+    history.activity
+      .filter(record => record.workplaceCode === workplaceCode && record[totalColumn] !== undefined)
+      .forEach(record => add(record.date, record[totalColumn] as number, (record[doneColumn] as number) || 0));
+  }
+
+  const periods = Array.from(totals.keys()).sort();
+  if (!periods.length) return [];
+
+  const points: MetricPoint[] = [];
+  let previous = 0;
+  for (let period = periods[0]; period <= periods[periods.length - 1]; period = addPeriods(period, 1, granularity)) {
+    const entry = totals.get(period);
+    let value: number;
+    if (metric === 'sales') value = round2(entry ? entry.total : 0);
+    else value = entry && entry.total > 0 ? round1((entry.done / entry.total) * 100) : previous;
+    points.push({ period, value });
+    previous = value;
+  }
+  return points;
+};
+
+// ===== SMOOTHING =====
+
+export interface SmoothingParameters {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface SeriesForecastOptions {
+  horizon: number;               // Periods to forecast
+  seasonLength: number;          // Periods per season; 1 for none
+  confidenceLevel?: 80 | 90 | 95;
+  bounds?: { min?: number; max?: number };
+  parameters?: SmoothingParameters; // Skip the grid search
+}
+
+export interface SeriesForecast {
+  method: WorkplaceForecast['method'];
+  seasonLength: number;
+  parameters: SmoothingParameters;
+  residualSd: number;
+  points: { value: number; lower: number; upper: number }[];
+}
+
+interface SmoothingRun {
+  sse: number;
+  errors: number;
+  level: number;
+  trend: number;
+  seasonal: number[];
+}
+
+/**
+ * Seasonal indices from a classical additive decomposition: centred
+ * moving-average trend, then the average detrended value per position,
+ * shifted to sum to zero
+ */
+export const seasonalIndices = (values: number[], seasonLength: number): number[] => {
+  const half = Math.floor(seasonLength / 2);
+  const sums = new Array(seasonLength).fill(0);
+  const counts = new Array(seasonLength).fill(0);
+
+  for (let t = half; t < values.length - half; t++) {
+    let trend: number;
+    if (seasonLength % 2) {
+      trend = mean(values.slice(t - half, t + half + 1));
+    } else {
+      // 2 x m moving average so the window stays centred on t
+      const window = values.slice(t - half, t + half + 1);
+      trend = (window.reduce((sum, value) => sum + value, 0) - (window[0] + window[window.length - 1]) / 2) / seasonLength;
+    }
+    sums[t % seasonLength] += values[t] - trend;
+    counts[t % seasonLength] += 1;
+  }
+
+  const raw = sums.map((sum, position) => (counts[position] ? sum / counts[position] : 0));
+  const offset = mean(raw);
+  return raw.map(index => index - offset);
+};
+
+const runSmoothing = (values: number[], seasonLength: number, { alpha, beta, gamma }: SmoothingParameters): SmoothingRun => {
+  const seasonal = seasonLength > 1 ? seasonalIndices(values, seasonLength) : [0];
+  let level: number;
+  let trend: number;
+  let start: number;
+
+  if (seasonLength > 1) {
+    level = mean(values.slice(0, seasonLength));
+    trend = (mean(values.slice(seasonLength, 2 * seasonLength)) - level) / seasonLength;
+    // The first season's level sits in its middle; move it back to just before t = 0
+    level -= trend * ((seasonLength + 1) / 2);
+    start = 0;
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    start = 1;
+  }
+
+  let sse = 0;
+  let errors = 0;
+  for (let t = start; t < values.length; t++) {
+    const position = seasonLength > 1 ? t % seasonLength : 0;
+    const error = values[t] - (level + trend + seasonal[position]);
+    sse += error * error;
+    errors += 1;
+
+    const previousLevel = level;
+    level = alpha * (values[t] - seasonal[position]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (seasonLength > 1) {
+      seasonal[position] = gamma * (values[t] - level) + (1 - gamma) * seasonal[position];
+    }
+  }
+
+  return { sse, errors, level, trend, seasonal };
+};
+
+/**
+ * Minimum history for a forecast: two seasons for Holt-Winters, four
+ * periods for trend-only smoothing
+ */
+export const minimumHistory = (seasonLength: number): number => (seasonLength > 1 ? 2 * seasonLength : 4);
+
+/**
+ * Forecast a series with additive Holt-Winters. Falls back to trend-only
+ * Holt when the series is shorter than two seasons.
+ */
+export const forecastSeries = (values: number[], options: SeriesForecastOptions): SeriesForecast => {
+  const seasonLength = values.length >= minimumHistory(options.seasonLength) ? options.seasonLength : 1;
+  if (values.length < minimumHistory(seasonLength)) {
+    throw new ForecastError(`At least ${minimumHistory(seasonLength)} periods of history are needed, got ${values.length}`);
+  }
+
+  let parameters = options.parameters;
+  let run: SmoothingRun | null = parameters ? runSmoothing(values, seasonLength, parameters) : null;
+  if (!parameters) {
+    const gammas = seasonLength > 1 ? GAMMAS : [0];
+    ALPHAS.forEach(alpha => BETAS.forEach(beta => gammas.forEach(gamma => {
+      const candidate = runSmoothing(values, seasonLength, { alpha, beta, gamma });
+      if (!run || candidate.sse < run.sse - 1e-9) {
+        run = candidate;
+        parameters = { alpha, beta, gamma };
+      }
+    })));
+  }
+  const fitted = run as SmoothingRun;
+  const chosen = parameters as SmoothingParameters;
+
+  const residualSd = Math.sqrt(fitted.sse / Math.max(1, fitted.errors));
+  const z = Z_SCORES[options.confidenceLevel || 80];
+  const { min = -Infinity, max = Infinity } = options.bounds || {};
+  const clamp = (value: number) => Math.min(max, Math.max(min, value));
+
+  // Variance of an h-step error for additive Holt-Winters:
+  // sigma^2 * (1 + sum over j < h of (alpha * (1 + j * beta) + gamma * [j is a whole season])^2)
+  let varianceFactor = 1;
+  const points = Array.from({ length: options.horizon }, (_, i) => {
+    const h = i + 1;
+    if (h > 1) {
+      const j = h - 1;
+      const c = chosen.alpha * (1 + j * chosen.beta) + (seasonLength > 1 && j % seasonLength === 0 ? chosen.gamma : 0);
+      varianceFactor += c * c;
+    }
+    const position = seasonLength > 1 ? (values.length - 1 + h) % seasonLength : 0;
+    const value = fitted.level + h * fitted.trend + fitted.seasonal[position];
+    const margin = z * residualSd * Math.sqrt(varianceFactor);
+    return { value: round2(clamp(value)), lower: round2(clamp(value - margin)), upper: round2(clamp(value + margin)) };
+  });
+
+  return {
+    method: seasonLength > 1 ? 'holt-winters' : 'holt',
+    seasonLength,
+    parameters: chosen,
+    residualSd: round2(residualSd),
+    points,
+  };
+};
+
+/**
+ * Refit without the latest `holdout` periods and score the forecast of
+ * those periods. Null when the remaining history is too short.
+ */
+export const backtestSeries = (
+  values: number[],
+  holdout: number,
+  options: Omit<SeriesForecastOptions, 'horizon' | 'parameters'>
+): ForecastBacktest | null => {
+  const training = values.slice(0, values.length - holdout);
+  if (holdout < 1 || training.length < minimumHistory(1)) return null;
+
+  const actuals = values.slice(values.length - holdout);
+  const { points } = forecastSeries(training, { ...options, horizon: holdout });
+  const absoluteErrors = actuals.map((actual, i) => Math.abs(actual - points[i].value));
+  const totalError = absoluteErrors.reduce((sum, error) => sum + error, 0);
+  const totalActual = actuals.reduce((sum, actual) => sum + Math.abs(actual), 0);
+  const wape = totalActual > 0 ? (totalError / totalActual) * 100 : (totalError > 0 ? 100 : 0);
+  const covered = actuals.filter((actual, i) => actual >= points[i].lower && actual <= points[i].upper).length;
+
+  return {
+    holdout,
+    mae: round2(totalError / holdout),
+    wape: round1(wape),
+    accuracy: round1(Math.max(0, 100 - wape)),
+    coverage: round1((covered / holdout) * 100),
+  };
+};
+
+// ===== WORKPLACE FORECASTS =====
+
+export interface WorkplaceForecastOptions {
+  metric: ForecastMetric;
+  granularity: ForecastGranularity;
+  horizon: number;
+  confidenceLevel?: 80 | 90 | 95;
+}
+
+export interface WorkplaceForecastResult {
+  forecasts: WorkplaceForecast[];
+  skipped: { workplaceCode: string; workplaceName: string; metric: ForecastMetric; reason: string }[];
+}
+
+/**
+ * Forecast a metric for every workplace. Workplaces with too little
+ * history are listed as skipped with the reason.
+ */
+export const forecastWorkplaces = (
+  history: ForecastHistory,
+  workplaces: { code: string; name: string }[],
+  options: WorkplaceForecastOptions
+): WorkplaceForecastResult => {
+  const { metric, granularity, horizon } = options;
+  const confidenceLevel = options.confidenceLevel || 80;
+  const bounds = metric === 'sales' ? { min: 0 } : { min: 0, max: 100 };
+  const result: WorkplaceForecastResult = { forecasts: [], skipped: [] };
+
+  workplaces.forEach(({ code, name }) => {
+    const series = buildMetricSeries(history, metric, code, granularity);
+    const values = series.map(point => point.value);
+    let forecast: SeriesForecast;
+    try {
+      forecast = forecastSeries(values, { horizon, seasonLength: defaultSeasonLength(granularity), confidenceLevel, bounds });
+    } catch (error) {
+      if (!(error instanceof ForecastError)) throw error;
+      result.skipped.push({ workplaceCode: code, workplaceName: name, metric, reason: error.message });
+      return;
+    }
+
+    const holdout = Math.min(horizon, Math.floor(values.length / 4));
+    const backtest = backtestSeries(values, holdout, { seasonLength: forecast.seasonLength, confidenceLevel, bounds });
+    const lastPeriod = series[series.length - 1].period;
+    const points: ForecastPoint[] = forecast.points.map((point, i) => ({ period: addPeriods(lastPeriod, i + 1, granularity), ...point }));
+    const recentAverage = round2(mean(values.slice(-horizon)));
+    const forecastAverage = round2(mean(points.map(point => point.value)));
+
+    result.forecasts.push({
+      workplaceCode: code,
+      workplaceName: name,
+      metric,
+      granularity,
+      method: forecast.method,
+      seasonLength: forecast.seasonLength,
+      parameters: forecast.parameters,
+      confidenceLevel,
+      history: series,
+      points,
+      recentAverage,
+      forecastAverage,
+      changePercentage: recentAverage ? round1(((forecastAverage - recentAverage) / Math.abs(recentAverage)) * 100) : 0,
+      backtest,
+    });
+  });
+
+  return result;
+};
+
+// ===== PERSISTENCE =====
+
+const activityStore = createVersionedStore<WorkplaceActivityRecord[]>({
+  key: 'forecastActivity',
+  version: 1,
+  label: 'visit and attendance history',
+  read: saved => saved.activity,
+  write: activity => ({ activity }),
+});
+
+/**
+ * Load saved visit and attendance history, or the fallback when nothing (valid) is stored
+ */
+export const loadActivityHistory = activityStore.load;
+
+export const saveActivityHistory = activityStore.save;
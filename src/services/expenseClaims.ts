@@ -0,0 +1,401 @@
+/**
+ * Expense Claims
+ *
+ * Field mileage and expense claims and the budgets they are charged to:
+ * - Mileage lines come from a completed JourneyPlan's totalDistance at the
+ *   policy's rate per kilometre; per-diem lines from the hours the journey
+ *   kept the employee away
+ * - Claims are validated (receipts, duplicate journeys and days) before
+ *   they go through the expense approval workflow
+ * - Budgets per area and cost centre compare allocation with direct
+ *   expenses plus approved claims, and flag burn rates that will run
+ *   through the allocation before the period ends
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  ApprovalInstance,
+  ApprovalStatus,
+  Budget,
+  BudgetActual,
+  BurnRateAlert,
+  ExpenseClaim,
+  ExpenseClaimLine,
+  ExpensePolicy,
+  JourneyPlan,
+  PerDiemRule
+} from '../types';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for claims the policy does not allow
+ */
+export class ExpenseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpenseError';
+  }
+}
+
+export const DEFAULT_EXPENSE_POLICY: ExpensePolicy = {
+  mileageRatePerKm: 0.3,
+  perDiemRules: [
+    { id: 'partial-day', name: 'More than 8 hours away', minHours: 8, amount: 14 },
+    { id: 'full-day', name: 'Full day away', minHours: 24, amount: 28 },
+  ],
+  receiptRequiredAbove: 25,
+  burnRateWarningShare: 0.9,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNDER_BUDGET_SHARE = 0.75;
+
+// Mileage and per-diem are derived from the journey, so they need no receipt
+const RECEIPT_EXEMPT = ['mileage', 'per-diem'];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// ===== CLAIM LINES =====
+
+/**
+ * Mileage line for a completed journey
+ */
+export const createMileageLine = (plan: JourneyPlan, policy: ExpensePolicy, id: string): ExpenseClaimLine => {
+  if (plan.status !== 'completed') {
+    throw new ExpenseError(`Mileage can only be claimed for completed journeys; "${plan.title}" is ${plan.status}`);
+  }
+  if (!(plan.totalDistance > 0)) {
+    throw new ExpenseError(`"${plan.title}" has no distance to claim`);
+  }
+  return {
+    id,
+    category: 'mileage',
+    date: plan.date,
+    description: `Mileage: ${plan.title} (${plan.totalDistance} km)`,
+    amount: roundCurrency(plan.totalDistance * policy.mileageRatePerKm),
+    kilometers: plan.totalDistance,
+    journeyPlanId: plan.id,
+    receipts: [],
+  };
+};
+
+const toDayNumber = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / 86400000);
+
+/**
+ * Hours a journey kept the employee away, from departure on the journey
+ * date to return on its end date, using the actual times when recorded.
+ * A return time before the departure time with no end date is the next day.
+ */
+export const getHoursAway = (plan: JourneyPlan): number => {
+  const start = toMinutes(plan.actualStartTime || plan.startTime);
+  const end = toMinutes(plan.actualEndTime || plan.endTime);
+  const days = plan.endDate
+    ? toDayNumber(plan.endDate) - toDayNumber(plan.date)
+    : end < start ? 1 : 0;
+  return Math.max(0, days * 24 * 60 + end - start) / 60;
+};
+
+/**
+ * The highest per-diem rule a day away qualifies for
+ */
+export const getPerDiemRule = (hoursAway: number, policy: ExpensePolicy): PerDiemRule | undefined =>
+  policy.perDiemRules
+    .filter(rule => hoursAway >= rule.minHours)
+    .sort((a, b) => b.amount - a.amount)[0];
+
+/**
+ * Per-diem line for a completed journey
+ */
+export const createPerDiemLine = (plan: JourneyPlan, policy: ExpensePolicy, id: string): ExpenseClaimLine => {
+  if (plan.status !== 'completed') {
+    throw new ExpenseError(`Per-diem can only be claimed for completed journeys; "${plan.title}" is ${plan.status}`);
+  }
+  const hours = Math.round(getHoursAway(plan) * 10) / 10;
+  const rule = getPerDiemRule(hours, policy);
+  if (!rule) {
+    throw new ExpenseError(`${hours} hours away does not qualify for a per-diem`);
+  }
+  return {
+    id,
+    category: 'per-diem',
+    date: plan.date,
+    description: `Per-diem: ${rule.name} (${hours} h)`,
+    amount: rule.amount,
+    journeyPlanId: plan.id,
+    receipts: [],
+  };
+};
+
+export const getClaimTotal = (lines: ExpenseClaimLine[]): number =>
+  roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+// ===== VALIDATION =====
+
+/**
+ * Problems that stop a claim from being submitted, in line order.
+ * Other claims by the same employee are checked for journeys and
+ * per-diem days that were already claimed.
+ */
+export const validateClaim = (claim: ExpenseClaim, policy: ExpensePolicy, otherClaims: ExpenseClaim[] = []): string[] => {
+  const errors: string[] = [];
+  if (!claim.lines.length) {
+    return ['Add at least one expense'];
+  }
+
+  const claimed = otherClaims
+    .filter(other => other.id !== claim.id && other.employeeId === claim.employeeId && other.status !== 'rejected' && other.status !== 'draft')
+    .flatMap(other => other.lines);
+  const seen: ExpenseClaimLine[] = [];
+
+  claim.lines.forEach(line => {
+    const label = line.description || line.category;
+    if (!(line.amount > 0)) {
+      errors.push(`Enter an amount for ${label}`);
+    }
+    if (!line.date) {
+      errors.push(`Enter the date of ${label}`);
+    }
+    if (!RECEIPT_EXEMPT.includes(line.category) && line.amount > policy.receiptRequiredAbove && !line.receipts.length) {
+      errors.push(`Attach a receipt for ${label}`);
+    }
+    const duplicate = [...claimed, ...seen].find(previous =>
+      previous.category === line.category &&
+      (line.category === 'mileage' ? !!line.journeyPlanId && previous.journeyPlanId === line.journeyPlanId : line.category === 'per-diem' && previous.date === line.date)
+    );
+    if (duplicate && line.category === 'mileage') {
+      errors.push(`Mileage for this journey was already claimed (${line.date})`);
+    } else if (duplicate) {
+      errors.push(`A per-diem for ${line.date} was already claimed`);
+    }
+    seen.push(line);
+  });
+  return errors;
+};
+
+/**
+ * Validate and submit a claim. Throws ExpenseError with the first problem.
+ */
+export const submitClaim = (
+  claim: ExpenseClaim,
+  policy: ExpensePolicy,
+  otherClaims: ExpenseClaim[] = [],
+  now: Date = new Date()
+): ExpenseClaim => {
+  if (claim.status !== 'draft' && claim.status !== 'rejected') {
+    throw new ExpenseError(`This claim is already ${claim.status}`);
+  }
+  const [problem] = validateClaim(claim, policy, otherClaims);
+  if (problem) {
+    throw new ExpenseError(problem);
+  }
+  const at = now.toISOString();
+  return {
+    ...claim,
+    total: getClaimTotal(claim.lines),
+    status: 'submitted',
+    submittedAt: at,
+    decidedAt: undefined,
+    rejectionReason: undefined,
+    updatedAt: at,
+  };
+};
+
+/**
+ * Claim status that follows its approval outcome
+ */
+export const applyApprovalOutcome = (claim: ExpenseClaim, instance: ApprovalInstance): ExpenseClaim => {
+  const { request } = instance;
+  switch (request.status) {
+    case ApprovalStatus.APPROVED:
+      return { ...claim, status: 'approved', decidedAt: request.approvedAt || request.updatedAt, updatedAt: request.updatedAt };
+    case ApprovalStatus.REJECTED:
+    case ApprovalStatus.EXPIRED:
+    case ApprovalStatus.CANCELLED:
+      return {
+        ...claim,
+        status: 'rejected',
+        decidedAt: request.rejectedAt || request.updatedAt,
+        rejectionReason: request.rejectionReason || (request.status === ApprovalStatus.EXPIRED ? 'Approval expired' : undefined),
+        updatedAt: request.updatedAt,
+      };
+    default:
+      return claim;
+  }
+};
+
+// ===== BUDGET VS ACTUAL =====
+
+const inPeriod = (date: string, budget: Budget) => date >= budget.periodStart && date <= budget.periodEnd;
+
+const chargesBudget = (claim: ExpenseClaim, budget: Budget) =>
+  claim.areaId === budget.areaId && claim.costCentre === budget.costCentre;
+
+const sumClaimLines = (claims: ExpenseClaim[], budget: Budget) =>
+  claims
+    .filter(claim => chargesBudget(claim, budget))
+    .reduce((sum, claim) => sum + claim.lines.filter(line => inPeriod(line.date, budget)).reduce((total, line) => total + line.amount, 0), 0);
+
+const getPeriodDays = (budget: Budget) =>
+  Math.round((Date.parse(budget.periodEnd) - Date.parse(budget.periodStart)) / DAY_MS) + 1;
+
+/**
+ * Actual spend of a budget as of a date: direct expenses plus approved
+ * claim lines of its area and cost centre dated in the period. The burn
+ * rate is projected linearly over the rest of the period.
+ */
+export const getBudgetActual = (
+  budget: Budget,
+  claims: ExpenseClaim[],
+  policy: ExpensePolicy,
+  asOf: Date = new Date()
+): BudgetActual => {
+  const direct = budget.expenses.filter(expense => inPeriod(expense.date, budget)).reduce((sum, expense) => sum + expense.amount, 0);
+  const spent = roundCurrency(direct + sumClaimLines(claims.filter(claim => claim.status === 'approved'), budget));
+  const pending = roundCurrency(sumClaimLines(claims.filter(claim => claim.status === 'submitted'), budget));
+
+  const periodDays = getPeriodDays(budget);
+  const elapsedDays = Math.min(periodDays, Math.max(0, Math.floor((asOf.getTime() - Date.parse(budget.periodStart)) / DAY_MS) + 1));
+  const dailyBurnRate = elapsedDays ? roundCurrency(spent / elapsedDays) : 0;
+  const projectedSpend = roundCurrency(spent + dailyBurnRate * (periodDays - elapsedDays));
+  const allocated = budget.allocatedBudget;
+
+  let status: BudgetActual['status'] = 'on-track';
+  if (spent > allocated) status = 'over-budget';
+  else if (projectedSpend > allocated * policy.burnRateWarningShare) status = 'at-risk';
+  else if (elapsedDays > 0 && projectedSpend < allocated * UNDER_BUDGET_SHARE) status = 'under-budget';
+
+  return {
+    budgetId: budget.id,
+    allocated,
+    spent,
+    pending,
+    remaining: roundCurrency(allocated - spent),
+    utilization: allocated ? Math.round((spent / allocated) * 1000) / 10 : 0,
+    elapsedShare: Math.round((elapsedDays / periodDays) * 100) / 100,
+    dailyBurnRate,
+    projectedSpend,
+    status,
+  };
+};
+
+/**
+ * Alerts for budgets overspent, projected to overrun, or close to it
+ */
+export const getBurnRateAlerts = (budgets: Budget[], actuals: BudgetActual[], policy: ExpensePolicy): BurnRateAlert[] =>
+  budgets.flatMap((budget): BurnRateAlert[] => {
+    const actual = actuals.find(candidate => candidate.budgetId === budget.id);
+    if (!actual || actual.projectedSpend <= actual.allocated * policy.burnRateWarningShare) return [];
+
+    const projectedOverrun = roundCurrency(Math.max(0, actual.projectedSpend - actual.allocated));
+    const daysToExhaust = actual.dailyBurnRate > 0 ? Math.ceil(actual.allocated / actual.dailyBurnRate) : undefined;
+    const exhaustedOn = daysToExhaust !== undefined
+      ? new Date(Date.parse(budget.periodStart) + (daysToExhaust - 1) * DAY_MS).toISOString().split('T')[0]
+      : undefined;
+
+    if (actual.spent > actual.allocated) {
+      return [{
+        budgetId: budget.id,
+        severity: 'critical',
+        message: `${budget.name} is overspent by €${roundCurrency(actual.spent - actual.allocated).toLocaleString()}`,
+        projectedOverrun,
+        exhaustedOn,
+      }];
+    }
+    if (projectedOverrun > 0) {
+      return [{
+        budgetId: budget.id,
+        severity: 'critical',
+        message: `${budget.name} runs out on ${exhaustedOn} at €${actual.dailyBurnRate.toLocaleString()}/day, €${projectedOverrun.toLocaleString()} over by period end`,
+        projectedOverrun,
+        exhaustedOn,
+      }];
+    }
+    return [{
+      budgetId: budget.id,
+      severity: 'warning',
+      message: `${budget.name} is projected to use ${Math.round((actual.projectedSpend / actual.allocated) * 100)}% of its allocation`,
+      projectedOverrun,
+    }];
+  });
+
+export interface BudgetRollup {
+  key: string;                   // Area ID or cost centre
+  label: string;                 // Area name or cost centre
+  allocated: number;
+  spent: number;
+  pending: number;
+  remaining: number;
+  utilization: number;
+  budgetCount: number;
+}
+
+/**
+ * Budget vs actual summed per area or per cost centre
+ */
+export const rollupBudgets = (budgets: Budget[], actuals: BudgetActual[], by: 'area' | 'costCentre'): BudgetRollup[] => {
+  const rollups = new Map<string, BudgetRollup>();
+  budgets.forEach(budget => {
+    const actual = actuals.find(candidate => candidate.budgetId === budget.id);
+    if (!actual) return;
+    const key = by === 'area' ? budget.areaId : budget.costCentre;
+    const rollup = rollups.get(key) || {
+      key,
+      label: by === 'area' ? budget.areaName : budget.costCentre,
+      allocated: 0,
+      spent: 0,
+      pending: 0,
+      remaining: 0,
+      utilization: 0,
+      budgetCount: 0,
+    };
+    rollup.allocated += actual.allocated;
+    rollup.spent += actual.spent;
+    rollup.pending += actual.pending;
+    rollup.budgetCount += 1;
+    rollups.set(key, rollup);
+  });
+  return Array.from(rollups.values())
+    .map(rollup => ({
+      ...rollup,
+      spent: roundCurrency(rollup.spent),
+      pending: roundCurrency(rollup.pending),
+      remaining: roundCurrency(rollup.allocated - rollup.spent),
+      utilization: rollup.allocated ? Math.round((rollup.spent / rollup.allocated) * 1000) / 10 : 0,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// ===== PERSISTENCE =====
+
+export interface ExpenseState {
+  budgets: Budget[];
+  claims: ExpenseClaim[];
+  approvals: Record<string, ApprovalInstance>;
+  policy: ExpensePolicy;
+}
+
+const expenseStore = createVersionedStore<ExpenseState>({
+  key: 'expenses',
+  version: 1,
+  label: 'expenses',
+  read: (saved, fallback) => ({
+    budgets: saved.budgets || fallback.budgets,
+    claims: saved.claims || fallback.claims,
+    approvals: saved.approvals || fallback.approvals,
+    policy: saved.policy || fallback.policy,
+  }),
+});
+
+/**
+ * Load saved budgets, claims, approvals and policy, or the fallback when nothing (valid) is stored
+ */
+export const loadExpenseState = expenseStore.load;
+
+export const saveExpenseState = expenseStore.save;
@@ -0,0 +1,499 @@
+/**
+ * Form Schema
+ *
+ * One versioned form model shared by operations custom forms and report
+ * templates:
+ * - Migration from each of the older models
+ * - Builder operations: add, edit, move and remove fields and sections
+ * - Design checks that block publishing a broken form
+ * - Publishing immutable versions
+ * - Validating values and rendering a submission with the version it was
+ *   entered in
+ *
+ * Submission data is keyed by FormSchemaField.key. A key never changes once
+ * a version containing it is published, so relabelling, reordering or
+ * removing fields in a later version cannot orphan older submissions.
+ * Migrated forms keep the key their model already stored data under
+ * (the label for operations forms, the name for report fields).
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  CustomForm,
+  CustomFormField,
+  FormFieldOption,
+  FormFieldType,
+  FormSchema,
+  FormSchemaField,
+  FormSchemaIssue,
+  FormSchemaSection,
+  FormSubmissionValue,
+  ReportTemplate
+} from '../types';
+
+/**
+ * Error raised for forms that cannot be published and versions that don't exist
+ */
+export class FormSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormSchemaError';
+  }
+}
+
+export const FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: 'Short text',
+  textarea: 'Long text',
+  number: 'Number',
+  date: 'Date',
+  time: 'Time',
+  datetime: 'Date & time',
+  select: 'Dropdown',
+  multiselect: 'Multiple choice',
+  radio: 'Single choice',
+  checkbox: 'Checkbox',
+  yes_no: 'Yes / No',
+  rating: 'Rating',
+  file: 'File upload',
+  image: 'Photo',
+  location: 'Location',
+  signature: 'Signature',
+  custom: 'Custom',
+};
+
+export const CHOICE_FIELD_TYPES: FormFieldType[] = ['select', 'multiselect', 'radio'];
+
+const DEFAULT_SECTION_ID = 'main';
+
+const toOptions = (values: string[] = []): FormFieldOption[] => values.map(value => ({ value, label: value }));
+
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+const singleSection = (title: string, fields: FormSchemaField[]): FormSchemaSection[] => [
+  { id: DEFAULT_SECTION_ID, title, fields },
+];
+
+// ===== MIGRATION =====
+
+const CUSTOM_FORM_TYPES: Record<CustomFormField['type'], FormFieldType> = {
+  text: 'text',
+  number: 'number',
+  select: 'select',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  textarea: 'textarea',
+  date: 'date',
+  file: 'file',
+};
+
+/**
+ * Operations custom form as version 1. Its submissions are keyed by label.
+ */
+export const fromCustomForm = (form: CustomForm): FormSchema => ({
+  format: 1,
+  id: form.id,
+  version: 1,
+  title: form.title,
+  description: form.description,
+  source: 'operations',
+  sections: singleSection(form.title, form.fields.map(field => compact({
+    id: field.id,
+    key: field.label,
+    label: field.label,
+    // A checkbox with options was a "tick all that apply" list
+    type: field.type === 'checkbox' && field.options?.length ? 'multiselect' : CUSTOM_FORM_TYPES[field.type],
+    required: field.required,
+    placeholder: field.placeholder,
+    options: field.options && toOptions(field.options),
+    validation: field.validation ? { pattern: field.validation } : undefined,
+  }))),
+});
+
+/**
+ * Report template as version 1, fields in their configured order
+ */
+export const fromReportTemplate = (template: ReportTemplate): FormSchema => ({
+  format: 1,
+  id: template.id,
+  version: 1,
+  title: template.name,
+  description: template.description,
+  source: 'report',
+  sections: singleSection(template.name, [...template.fields]
+    .sort((a, b) => a.order - b.order)
+    .map(field => compact({
+      id: field.id,
+      key: field.name,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      placeholder: field.placeholder,
+      options: field.options && toOptions(field.options),
+      validation: field.validation && compact({
+        minLength: field.validation.minLength,
+        maxLength: field.validation.maxLength,
+        min: field.validation.minValue,
+        max: field.validation.maxValue,
+        pattern: field.validation.pattern,
+        message: field.validation.customMessage,
+      }),
+      defaultValue: field.defaultValue,
+      hidden: field.isVisible ? undefined : true,
+    }))),
+});
+
+/**
+ * Published versions of a form, migrating the pre-schema fields on first use
+ */
+export const getCustomFormVersions = (form: CustomForm): FormSchema[] =>
+  form.formVersions?.length ? form.formVersions : [fromCustomForm(form)];
+
+export const getReportTemplateVersions = (template: ReportTemplate): FormSchema[] =>
+  template.formVersions?.length ? template.formVersions : [fromReportTemplate(template)];
+
+// ===== BUILDER OPERATIONS =====
+
+let idCounter = 0;
+
+const generateId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+export const getSchemaFields = (schema: FormSchema): FormSchemaField[] =>
+  schema.sections.flatMap(section => section.fields);
+
+const uniqueKey = (base: string, taken: string[]) => {
+  let key = base;
+  for (let suffix = 2; taken.includes(key); suffix++) key = `${base}_${suffix}`;
+  return key;
+};
+
+/**
+ * New field of a type, with a key no other field of the schema uses
+ */
+export const createFormField = (type: FormFieldType, schema: FormSchema, id: string = generateId('field')): FormSchemaField => {
+  const label = FIELD_TYPE_LABELS[type];
+  return {
+    id,
+    key: uniqueKey(label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''), getSchemaFields(schema).map(field => field.key)),
+    label,
+    type,
+    required: false,
+    ...(CHOICE_FIELD_TYPES.includes(type) ? { options: toOptions(['Option 1', 'Option 2']) } : {}),
+  };
+};
+
+export const addFormSection = (schema: FormSchema, title: string, id: string = generateId('section')): FormSchema => ({
+  ...schema,
+  sections: [...schema.sections, { id, title, fields: [] }],
+});
+
+export const updateFormSection = (schema: FormSchema, sectionId: string, changes: Partial<Omit<FormSchemaSection, 'id' | 'fields'>>): FormSchema => ({
+  ...schema,
+  sections: schema.sections.map(section => (section.id === sectionId ? { ...section, ...changes } : section)),
+});
+
+/**
+ * Remove a section; its fields move to the previous section (or the next one)
+ */
+export const removeFormSection = (schema: FormSchema, sectionId: string): FormSchema => {
+  const index = schema.sections.findIndex(section => section.id === sectionId);
+  if (index < 0 || schema.sections.length === 1) return schema;
+
+  const target = schema.sections[index > 0 ? index - 1 : 1];
+  const removed = schema.sections[index];
+  return {
+    ...schema,
+    sections: schema.sections
+      .filter(section => section.id !== sectionId)
+      .map(section => (section.id === target.id ? { ...section, fields: [...section.fields, ...removed.fields] } : section)),
+  };
+};
+
+/**
+ * Move a section in front of another, or to the end
+ */
+export const moveFormSection = (schema: FormSchema, sectionId: string, beforeSectionId?: string): FormSchema => {
+  const moving = schema.sections.find(section => section.id === sectionId);
+  if (!moving || sectionId === beforeSectionId) return schema;
+
+  const rest = schema.sections.filter(section => section.id !== sectionId);
+  const index = beforeSectionId ? rest.findIndex(section => section.id === beforeSectionId) : -1;
+  rest.splice(index < 0 ? rest.length : index, 0, moving);
+  return { ...schema, sections: rest };
+};
+
+/**
+ * Insert a field into a section in front of another field, or at the end
+ */
+export const insertFormField = (
+  schema: FormSchema,
+  field: FormSchemaField,
+  sectionId: string,
+  beforeFieldId?: string
+): FormSchema => ({
+  ...schema,
+  sections: schema.sections.map(section => {
+    if (section.id !== sectionId) return section;
+    const fields = [...section.fields];
+    const index = beforeFieldId ? fields.findIndex(candidate => candidate.id === beforeFieldId) : -1;
+    fields.splice(index < 0 ? fields.length : index, 0, field);
+    return { ...section, fields };
+  }),
+});
+
+export const removeFormField = (schema: FormSchema, fieldId: string): FormSchema => ({
+  ...schema,
+  sections: schema.sections.map(section => ({ ...section, fields: section.fields.filter(field => field.id !== fieldId) })),
+});
+
+/**
+ * Move a field within or across sections, in front of another field or to the end
+ */
+export const moveFormField = (schema: FormSchema, fieldId: string, sectionId: string, beforeFieldId?: string): FormSchema => {
+  const field = getSchemaFields(schema).find(candidate => candidate.id === fieldId);
+  if (!field || fieldId === beforeFieldId) return schema;
+  return insertFormField(removeFormField(schema, fieldId), field, sectionId, beforeFieldId);
+};
+
+export const updateFormField = (schema: FormSchema, fieldId: string, changes: Partial<Omit<FormSchemaField, 'id'>>): FormSchema => ({
+  ...schema,
+  sections: schema.sections.map(section => ({
+    ...section,
+    fields: section.fields.map(field => (field.id === fieldId ? { ...field, ...changes } : field)),
+  })),
+});
+
+// ===== DESIGN CHECKS =====
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Problems that would make the form unusable or break older submissions
+ */
+export const validateFormSchema = (schema: FormSchema, published: FormSchema[] = []): FormSchemaIssue[] => {
+  const issues: FormSchemaIssue[] = [];
+  const fields = getSchemaFields(schema);
+  const publishedById = new Map(published.flatMap(version => getSchemaFields(version)).map(field => [field.id, field]));
+  const seenKeys = new Set<string>();
+  const seenIds = new Set<string>();
+
+  if (!schema.title.trim()) {
+    issues.push({ severity: 'error', message: 'The form needs a title' });
+  }
+  if (!fields.length) {
+    issues.push({ severity: 'error', message: 'Add at least one field' });
+  }
+
+  schema.sections.forEach(section => {
+    if (!section.title.trim()) {
+      issues.push({ sectionId: section.id, severity: 'error', message: 'Every section needs a title' });
+    }
+    if (!section.fields.length && schema.sections.length > 1) {
+      issues.push({ sectionId: section.id, severity: 'warning', message: `Section "${section.title}" has no fields and will not be shown` });
+    }
+  });
+
+  fields.forEach(field => {
+    const name = field.label.trim() || field.key || field.id;
+    const error = (message: string) => issues.push({ fieldId: field.id, severity: 'error', message });
+
+    if (seenIds.has(field.id)) error(`Field ID "${field.id}" is used more than once`);
+    seenIds.add(field.id);
+
+    if (!field.label.trim()) error('Every field needs a label');
+    if (!field.key.trim()) {
+      error(`"${name}" needs a data key`);
+    } else if (seenKeys.has(field.key)) {
+      error(`Data key "${field.key}" is used by more than one field`);
+    }
+    seenKeys.add(field.key);
+
+    const before = publishedById.get(field.id);
+    if (before && before.key !== field.key) {
+      error(`"${name}" was published with key "${before.key}"; changing it would hide older answers`);
+    }
+
+    if (CHOICE_FIELD_TYPES.includes(field.type)) {
+      const values = (field.options || []).map(option => option.value);
+      if (!values.length) error(`"${name}" needs at least one option`);
+      if (values.some(value => !value.trim())) error(`"${name}" has an empty option`);
+      if (new Set(values).size !== values.length) error(`"${name}" has duplicate options`);
+    }
+
+    const rules = field.validation || {};
+    if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+      error(`"${name}" has a minimum length above its maximum`);
+    }
+    if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+      error(`"${name}" has a minimum above its maximum`);
+    }
+    if (rules.pattern && !isValidPattern(rules.pattern)) {
+      error(`"${name}" has an invalid pattern`);
+    }
+    if (field.hidden && field.required) {
+      issues.push({ fieldId: field.id, severity: 'warning', message: `"${name}" is required but hidden, so it is never asked` });
+    }
+  });
+
+  return issues;
+};
+
+// ===== VERSIONS =====
+
+const sameContent = (a: FormSchema, b: FormSchema) => {
+  const strip = ({ version, publishedAt, ...rest }: FormSchema) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+};
+
+/**
+ * Publish a draft as the next version. Publishing an unchanged draft is a no-op.
+ */
+export const publishFormSchema = (versions: FormSchema[], draft: FormSchema, now: Date = new Date()): FormSchema[] => {
+  const errors = validateFormSchema(draft, versions).filter(issue => issue.severity === 'error');
+  if (errors.length) {
+    throw new FormSchemaError(errors.map(issue => issue.message).join('; '));
+  }
+
+  const latest = versions[versions.length - 1];
+  if (latest && sameContent(latest, draft)) return versions;
+
+  return [...versions, { ...draft, format: 1, version: latest ? latest.version + 1 : 1, publishedAt: now.toISOString() }];
+};
+
+/**
+ * A specific version, or the latest one when no version is given
+ */
+export const getFormVersion = (versions: FormSchema[], version?: number): FormSchema => {
+  const found = version === undefined ? versions[versions.length - 1] : versions.find(candidate => candidate.version === version);
+  if (!found) {
+    throw new FormSchemaError(`Form "${versions[0]?.title || 'unknown'}" has no version ${version ?? ''}`.trim());
+  }
+  return found;
+};
+
+// ===== VALUES =====
+
+const isEmpty = (field: FormSchemaField, value: any) =>
+  value === undefined || value === null || value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (field.type === 'checkbox' && value === false);
+
+/**
+ * Validate submitted values; returns an error message per field key
+ */
+export const validateFormValues = (schema: FormSchema, values: Record<string, any>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  getSchemaFields(schema).filter(field => !field.hidden).forEach(field => {
+    const value = values[field.key];
+    const rules = field.validation || {};
+    const fail = (message: string) => {
+      errors[field.key] = rules.message || message;
+    };
+
+    if (isEmpty(field, value)) {
+      if (field.required) errors[field.key] = `${field.label} is required`;
+      return;
+    }
+
+    switch (field.type) {
+      case 'text':
+      case 'textarea': {
+        const text = String(value);
+        if (rules.minLength !== undefined && text.length < rules.minLength) fail(`${field.label} needs at least ${rules.minLength} characters`);
+        else if (rules.maxLength !== undefined && text.length > rules.maxLength) fail(`${field.label} allows at most ${rules.maxLength} characters`);
+        else if (rules.pattern && isValidPattern(rules.pattern) && !new RegExp(rules.pattern).test(text)) fail(`${field.label} is not in the expected format`);
+        break;
+      }
+      case 'number':
+      case 'rating': {
+        const number = Number(value);
+        if (isNaN(number)) fail(`${field.label} must be a number`);
+        else if (rules.min !== undefined && number < rules.min) fail(`${field.label} must be at least ${rules.min}`);
+        else if (rules.max !== undefined && number > rules.max) fail(`${field.label} must be at most ${rules.max}`);
+        break;
+      }
+      case 'select':
+      case 'radio':
+      case 'multiselect': {
+        const chosen: string[] = Array.isArray(value) ? value : [value];
+        const allowsOther = field.options?.some(option => option.isOther);
+        if (!allowsOther && chosen.some(choice => !field.options?.some(option => option.value === choice))) {
+          fail(`${field.label} has a choice that is not an option`);
+        } else if (rules.min !== undefined && chosen.length < rules.min) {
+          fail(`Choose at least ${rules.min} for ${field.label}`);
+        } else if (rules.max !== undefined && chosen.length > rules.max) {
+          fail(`Choose at most ${rules.max} for ${field.label}`);
+        }
+        break;
+      }
+      default:
+        if (rules.pattern && typeof value === 'string' && isValidPattern(rules.pattern) && !new RegExp(rules.pattern).test(value)) {
+          fail(`${field.label} is not in the expected format`);
+        }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Format a stored value for display with the field it was entered in
+ */
+export const formatFormValue = (field: FormSchemaField | undefined, value: any): string => {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && !value.length)) return '—';
+
+  const optionLabel = (choice: any) => field?.options?.find(option => option.value === choice)?.label ?? String(choice);
+
+  if (Array.isArray(value)) {
+    return value.map(item => (item && typeof item === 'object' ? formatFormValue(undefined, item) : optionLabel(item))).join(', ');
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') {
+    if (typeof value.latitude === 'number' && typeof value.longitude === 'number') {
+      return value.address || `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`;
+    }
+    if (value.name || value.fileName) return value.name || value.fileName;
+    if (value.url) return value.url;
+    return JSON.stringify(value);
+  }
+  return optionLabel(value);
+};
+
+/**
+ * Lay a submission out with the version it was entered in. Data the version
+ * has no field for is returned separately so nothing submitted is dropped.
+ */
+export const renderFormSubmission = (
+  versions: FormSchema[],
+  data: Record<string, any>,
+  version: number = 1
+): { schema: FormSchema; sections: { id: string; title: string; values: FormSubmissionValue[] }[]; extra: FormSubmissionValue[] } => {
+  const schema = getFormVersion(versions, version);
+  const known = new Set(getSchemaFields(schema).map(field => field.key));
+
+  return {
+    schema,
+    sections: schema.sections
+      .map(section => ({
+        id: section.id,
+        title: section.title,
+        values: section.fields
+          .filter(field => !field.hidden || data[field.key] !== undefined)
+          .map(field => ({ key: field.key, label: field.label, type: field.type, value: data[field.key], display: formatFormValue(field, data[field.key]) })),
+      }))
+      .filter(section => section.values.length),
+    extra: Object.keys(data)
+      .filter(key => !known.has(key))
+      .map(key => ({ key, label: key, type: 'unknown' as const, value: data[key], display: formatFormValue(undefined, data[key]) })),
+  };
+};
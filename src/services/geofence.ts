@@ -0,0 +1,272 @@
+/**
+ * Geofence Service
+ *
+ * Boundary checks for circular and polygon geofence zones, plus a small
+ * state machine that turns a stream of GPS fixes into entry and exit events.
+ *
+ * Noisy fixes near a boundary are smoothed in two ways:
+ * - An exit is only recognised once the fix is further outside than the
+ *   zone's hysteresis distance; an entry needs the fix inside the boundary.
+ * - A change must be confirmed by several consecutive fixes, and fixes with
+ *   poor accuracy are ignored for transitions altogether.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  GeofenceEvent,
+  GeofenceMembership,
+  GeofenceValidation,
+  GeofenceVisit,
+  GeofenceZone
+} from '../types';
+import { calculateDistanceKm } from './routeSolver';
+
+type LatLng = { lat: number; lng: number };
+
+export interface GeofenceFix extends LatLng {
+  accuracy: number;              // Meters
+  timestamp: string;             // ISO timestamp
+}
+
+export interface GeofenceTrackingOptions {
+  hysteresisMeters?: number;     // Default exit buffer for zones without their own
+  confirmationFixes?: number;    // Consecutive fixes needed to change state
+  maxAccuracyMeters?: number;    // Fixes less accurate than this never change state
+}
+
+export type GeofenceTrackingState = Record<string, GeofenceMembership>;
+
+const DEFAULT_TRACKING: Required<GeofenceTrackingOptions> = {
+  hysteresisMeters: 20,
+  confirmationFixes: 2,
+  maxAccuracyMeters: 100,
+};
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// ===== GEOMETRY =====
+
+/**
+ * Distance between two coordinates in meters
+ */
+export const distanceMeters = (from: LatLng, to: LatLng): number => calculateDistanceKm(from, to) * 1000;
+
+/**
+ * Project a coordinate onto a local flat plane (meters) around an origin.
+ * Accurate enough for store-sized polygons.
+ */
+const toLocalMeters = (point: LatLng, origin: LatLng) => ({
+  x: (point.lng - origin.lng) * METERS_PER_DEGREE_LAT * Math.cos((origin.lat * Math.PI) / 180),
+  y: (point.lat - origin.lat) * METERS_PER_DEGREE_LAT,
+});
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export const isPointInPolygon = (point: LatLng, polygon: LatLng[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToPolygonEdge = (point: LatLng, polygon: LatLng[]): number => {
+  const p = toLocalMeters(point, point);
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = toLocalMeters(polygon[j], point);
+    const b = toLocalMeters(polygon[i], point);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+    const cx = a.x + t * dx - p.x;
+    const cy = a.y + t * dy - p.y;
+    min = Math.min(min, Math.sqrt(cx * cx + cy * cy));
+  }
+  return min;
+};
+
+const isPolygonZone = (zone: GeofenceZone) =>
+  zone.shape === 'polygon' && !!zone.polygon && zone.polygon.length >= 3;
+
+/**
+ * Signed distance from a point to a zone boundary in meters:
+ * negative inside the zone, positive outside.
+ */
+export const signedDistanceToZone = (point: LatLng, zone: GeofenceZone): number => {
+  if (isPolygonZone(zone)) {
+    const edge = distanceToPolygonEdge(point, zone.polygon!);
+    return isPointInPolygon(point, zone.polygon!) ? -edge : edge;
+  }
+  return distanceMeters(point, zone.center) - zone.radius;
+};
+
+/**
+ * Whether a point lies inside a zone boundary (no smoothing)
+ */
+export const isWithinZone = (point: LatLng, zone: GeofenceZone): boolean =>
+  signedDistanceToZone(point, zone) <= 0;
+
+/**
+ * All active zones configured for a workplace
+ */
+export const getWorkplaceZones = (zones: GeofenceZone[], workplaceId: string): GeofenceZone[] =>
+  zones.filter(zone => zone.isActive && zone.workplaceId === workplaceId);
+
+/**
+ * Nearest active zone to a point, by distance to its boundary
+ */
+export const findNearestZone = (
+  point: LatLng,
+  zones: GeofenceZone[]
+): { zone: GeofenceZone; distance: number } | null => {
+  let nearest: { zone: GeofenceZone; distance: number } | null = null;
+  zones.forEach(zone => {
+    if (!zone.isActive) return;
+    const distance = signedDistanceToZone(point, zone);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { zone, distance };
+    }
+  });
+  return nearest;
+};
+
+// ===== ENTRY / EXIT TRACKING =====
+
+/**
+ * Feed one GPS fix into the tracker.
+ * Returns the next state and any entry/exit events the fix confirmed.
+ */
+export const updateGeofenceTracking = (
+  state: GeofenceTrackingState,
+  fix: GeofenceFix,
+  zones: GeofenceZone[],
+  trackingOptions: GeofenceTrackingOptions = {}
+): { state: GeofenceTrackingState; events: GeofenceEvent[] } => {
+  const options = { ...DEFAULT_TRACKING, ...trackingOptions };
+  const next: GeofenceTrackingState = {};
+  const events: GeofenceEvent[] = [];
+  const reliable = fix.accuracy <= options.maxAccuracyMeters;
+
+  zones.forEach(zone => {
+    const previous = state[zone.id] || { inside: false, pendingFixes: 0 };
+    if (!zone.isActive || !reliable) {
+      next[zone.id] = previous;
+      return;
+    }
+
+    const distance = signedDistanceToZone(fix, zone);
+    const hysteresis = zone.hysteresis ?? options.hysteresisMeters;
+    const suggestsChange = previous.inside ? distance > hysteresis : distance <= 0;
+
+    if (!suggestsChange) {
+      next[zone.id] = { ...previous, pendingFixes: 0 };
+      return;
+    }
+
+    const pendingFixes = previous.pendingFixes + 1;
+    if (pendingFixes < options.confirmationFixes) {
+      next[zone.id] = { ...previous, pendingFixes };
+      return;
+    }
+
+    const inside = !previous.inside;
+    next[zone.id] = { inside, pendingFixes: 0, since: fix.timestamp };
+    events.push({
+      id: `${zone.id}-${inside ? 'entry' : 'exit'}-${fix.timestamp}`,
+      type: inside ? 'entry' : 'exit',
+      zoneId: zone.id,
+      zoneName: zone.name,
+      workplaceId: zone.workplaceId,
+      timestamp: fix.timestamp,
+      location: { lat: fix.lat, lng: fix.lng, accuracy: fix.accuracy },
+    });
+  });
+
+  return { state: next, events };
+};
+
+/**
+ * Zones the tracker currently considers the employee to be inside
+ */
+export const getZonesInside = (state: GeofenceTrackingState, zones: GeofenceZone[]): GeofenceZone[] =>
+  zones.filter(zone => state[zone.id]?.inside);
+
+/**
+ * Pair entry and exit events into stays per zone, in chronological order.
+ * Gaps between stays at a workplace during a shift are candidate breaks.
+ */
+export const pairGeofenceEvents = (events: GeofenceEvent[]): GeofenceVisit[] => {
+  const open = new Map<string, GeofenceVisit>();
+  const visits: GeofenceVisit[] = [];
+
+  [...events]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(event => {
+      if (event.type === 'entry') {
+        if (!open.has(event.zoneId)) {
+          const visit: GeofenceVisit = { zoneId: event.zoneId, workplaceId: event.workplaceId, enteredAt: event.timestamp };
+          open.set(event.zoneId, visit);
+          visits.push(visit);
+        }
+        return;
+      }
+      const visit = open.get(event.zoneId);
+      if (visit) {
+        visit.exitedAt = event.timestamp;
+        visit.durationMinutes = Math.round(
+          (new Date(event.timestamp).getTime() - new Date(visit.enteredAt).getTime()) / 60000
+        );
+        open.delete(event.zoneId);
+      }
+    });
+
+  return visits;
+};
+
+// ===== PUNCH VALIDATION =====
+
+/**
+ * Check whether a location may be used to punch in or out.
+ *
+ * When a tracking state is supplied, a zone the tracker still considers
+ * "inside" is accepted even if this single fix drifted just past the
+ * boundary, so punch validation and the indicator never disagree.
+ *
+ * Geofencing is opt-in per workplace: with no active zones there is no
+ * boundary to enforce, so the punch is allowed and the reason says so.
+ */
+export const validatePunchLocation = (
+  point: LatLng,
+  zones: GeofenceZone[],
+  state?: GeofenceTrackingState
+): GeofenceValidation => {
+  const activeZones = zones.filter(zone => zone.isActive);
+  if (!activeZones.length) {
+    return { isAllowed: true, reason: 'No geofence configured', zone: null, distance: 0 };
+  }
+
+  const tracked = state ? getZonesInside(state, activeZones)[0] : undefined;
+  if (tracked) {
+    return { isAllowed: true, reason: `Within ${tracked.name}`, zone: tracked, distance: 0 };
+  }
+
+  const nearest = findNearestZone(point, activeZones)!;
+  if (nearest.distance <= 0) {
+    return { isAllowed: true, reason: `Within ${nearest.zone.name}`, zone: nearest.zone, distance: 0 };
+  }
+  return {
+    isAllowed: false,
+    reason: `${Math.round(nearest.distance)}m outside ${nearest.zone.name}`,
+    zone: nearest.zone,
+    distance: nearest.distance,
+  };
+};
@@ -0,0 +1,451 @@
+/**
+ * Group Restructuring
+ *
+ * Moves groups and members around the group hierarchy:
+ * - Validation against the 7-level limit, each ancestor's
+ *   GroupSettings.maxDepth, allowSubgroups and allowMemberReassignment,
+ *   and moves that would put a group under its own subgroup
+ * - Impact preview before a move is committed: per member, the approvers
+ *   and report viewers gained or lost along the leader chain, and the
+ *   workplaces gained or lost through group and leadership assignments
+ * - Re-org history with undo, refused while a later move touched the
+ *   same records, and queries by group, member, user and date
+ *
+ * Approvers follow the approval engine: leaders with approval authority on
+ * each level from the member's group up to the top level, falling back to
+ * Group.leaderId. Every leader on those levels can see the member's reports.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  Group,
+  GroupMember,
+  GroupMemberRole,
+  OrgStructure,
+  ReorgEntry,
+  ReorgHistoryFilters,
+  ReorgImpactAspect,
+  ReorgImpactChange,
+  ReorgMove,
+  ReorgPreview
+} from '../types';
+import { getGroupSubtree } from './authorization';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for moves that fail validation and undo conflicts
+ */
+export class ReorgError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReorgError';
+  }
+}
+
+export const MAX_GROUP_DEPTH = 7;
+
+export const REORG_IMPACT_ASPECTS: { value: ReorgImpactAspect; label: string }[] = [
+  { value: 'approvers', label: 'Approvers' },
+  { value: 'workplaces', label: 'Workplaces' },
+  { value: 'report-viewers', label: 'Report visibility' },
+];
+
+// ===== LOOKUPS =====
+
+const findGroup = (structure: OrgStructure, groupId: string): Group | undefined =>
+  structure.groups.find(group => group.id === groupId);
+
+const groupName = (structure: OrgStructure, groupId?: string): string =>
+  (groupId && findGroup(structure, groupId)?.name) || groupId || 'none';
+
+/**
+ * The group followed by its ancestors up to the top level (cycle-safe)
+ */
+export const getGroupPath = (groups: Group[], groupId: string): Group[] => {
+  const path: Group[] = [];
+  let current = groups.find(group => group.id === groupId);
+  while (current && !path.includes(current)) {
+    path.push(current);
+    const parentId: string | undefined = current.parentGroupId;
+    current = parentId ? groups.find(group => group.id === parentId) : undefined;
+  }
+  return path;
+};
+
+const isInGroup = (structure: OrgStructure, memberId: string, groupId: string): boolean =>
+  !!findGroup(structure, groupId)?.members.includes(memberId) ||
+  structure.groupMembers.some(gm => gm.isActive && gm.groupId === groupId && gm.memberId === memberId);
+
+const getMemberGroupIds = (structure: OrgStructure, memberId: string): string[] => Array.from(new Set([
+  ...structure.groups.filter(group => group.members.includes(memberId)).map(group => group.id),
+  ...structure.groupMembers.filter(gm => gm.isActive && gm.memberId === memberId).map(gm => gm.groupId),
+]));
+
+const getAllMemberIds = (structure: OrgStructure): string[] => Array.from(new Set([
+  ...structure.groups.flatMap(group => group.members),
+  ...structure.groupMembers.map(gm => gm.memberId),
+]));
+
+const getMemberName = (structure: OrgStructure, memberId: string): string =>
+  structure.groupMembers.find(gm => gm.memberId === memberId)?.memberName || memberId;
+
+const getLeaders = (structure: OrgStructure, groupId: string): string[] => {
+  const leaders = structure.groupMembers
+    .filter(gm => gm.groupId === groupId && gm.isActive && gm.isLeader)
+    .map(gm => gm.memberId);
+  const leaderId = findGroup(structure, groupId)?.leaderId;
+  return Array.from(new Set([...leaders, ...(leaderId ? [leaderId] : [])]));
+};
+
+const getApprovers = (structure: OrgStructure, groupId: string): string[] => {
+  const approvers = structure.groupMembers
+    .filter(gm => gm.groupId === groupId && gm.isActive && gm.isLeader && gm.hasApprovalAuthority)
+    .map(gm => gm.memberId);
+  if (approvers.length) return approvers;
+  const leaderId = findGroup(structure, groupId)?.leaderId;
+  return leaderId ? [leaderId] : [];
+};
+
+const collectUpChain = (
+  structure: OrgStructure,
+  memberId: string,
+  pick: (structure: OrgStructure, groupId: string) => string[]
+): string[] => {
+  const ids = new Set<string>();
+  getMemberGroupIds(structure, memberId).forEach(groupId =>
+    getGroupPath(structure.groups, groupId).forEach(group => pick(structure, group.id).forEach(id => ids.add(id)))
+  );
+  ids.delete(memberId);
+  return Array.from(ids).sort();
+};
+
+const getWorkplaces = (structure: OrgStructure, memberId: string): string[] => {
+  const ids = new Set<string>();
+  getMemberGroupIds(structure, memberId).forEach(groupId =>
+    findGroup(structure, groupId)?.workplaceIds.forEach(id => ids.add(id))
+  );
+  structure.groupMembers
+    .filter(gm => gm.isActive && gm.memberId === memberId)
+    .forEach(gm => gm.assignedWorkplaces.forEach(id => ids.add(id)));
+  structure.groups
+    .filter(group => getLeaders(structure, group.id).includes(memberId))
+    .forEach(group => getGroupSubtree(structure.groups, group.id).forEach(id =>
+      findGroup(structure, id)?.workplaceIds.forEach(workplaceId => ids.add(workplaceId))
+    ));
+  return Array.from(ids).sort();
+};
+
+const IMPACT_RESOLVERS: Record<ReorgImpactAspect, (structure: OrgStructure, memberId: string) => string[]> = {
+  'approvers': (structure, memberId) => collectUpChain(structure, memberId, getApprovers),
+  'workplaces': getWorkplaces,
+  'report-viewers': (structure, memberId) => collectUpChain(structure, memberId, getLeaders),
+};
+
+// ===== VALIDATION =====
+
+const validateGroupMove = (structure: OrgStructure, move: Extract<ReorgMove, { type: 'group' }>): string[] => {
+  const group = findGroup(structure, move.groupId);
+  const target = findGroup(structure, move.toParentId);
+  if (!group) return [`Unknown group "${move.groupId}"`];
+  if (!target) return [`Unknown group "${move.toParentId}"`];
+  if (group.isTopLevel) return ['The top-level group cannot be moved'];
+  if (group.parentGroupId === target.id) return [`"${group.name}" is already under "${target.name}"`];
+
+  const subtree = getGroupSubtree(structure.groups, group.id);
+  if (subtree.includes(target.id)) return [`"${group.name}" cannot be moved under its own subgroup "${target.name}"`];
+
+  const errors: string[] = [];
+  if (!target.isActive) errors.push(`"${target.name}" is inactive`);
+  if (target.settings?.allowSubgroups === false) errors.push(`"${target.name}" does not allow subgroups`);
+
+  const delta = target.depth + 1 - group.depth;
+  const newPath = getGroupPath(structure.groups, target.id);
+  for (const id of subtree) {
+    const node = findGroup(structure, id)!;
+    const depth = node.depth + delta;
+    if (depth > MAX_GROUP_DEPTH) {
+      errors.push(`"${node.name}" would be at depth ${depth}, beyond the ${MAX_GROUP_DEPTH}-level limit`);
+      break;
+    }
+    // Limits come from the new ancestors and from groups inside the moved subtree
+    const limiting = [...getGroupPath(structure.groups, id).filter(ancestor => subtree.includes(ancestor.id)), ...newPath]
+      .find(ancestor => ancestor.settings?.maxDepth !== undefined && depth > ancestor.settings.maxDepth);
+    if (limiting) {
+      errors.push(`"${node.name}" would be at depth ${depth}, beyond the limit of ${limiting.settings.maxDepth} set by "${limiting.name}"`);
+      break;
+    }
+  }
+  return errors;
+};
+
+const validateMemberMove = (structure: OrgStructure, move: Extract<ReorgMove, { type: 'member' }>): string[] => {
+  const from = findGroup(structure, move.fromGroupId);
+  const to = findGroup(structure, move.toGroupId);
+  if (!from) return [`Unknown group "${move.fromGroupId}"`];
+  if (!to) return [`Unknown group "${move.toGroupId}"`];
+  if (from.id === to.id) return [`${getMemberName(structure, move.memberId)} is already in "${to.name}"`];
+  if (!isInGroup(structure, move.memberId, from.id)) return [`${getMemberName(structure, move.memberId)} is not in "${from.name}"`];
+
+  const errors: string[] = [];
+  if (isInGroup(structure, move.memberId, to.id)) errors.push(`${getMemberName(structure, move.memberId)} is already in "${to.name}"`);
+  if (!to.isActive) errors.push(`"${to.name}" is inactive`);
+  [from, to]
+    .filter(group => group.settings?.allowMemberReassignment === false)
+    .forEach(group => errors.push(`"${group.name}" does not allow member reassignment`));
+  return errors;
+};
+
+/**
+ * Reasons the move cannot be made; empty when it is allowed
+ */
+export const validateReorgMove = (structure: OrgStructure, move: ReorgMove): string[] =>
+  move.type === 'group' ? validateGroupMove(structure, move) : validateMemberMove(structure, move);
+
+export const describeReorgMove = (structure: OrgStructure, move: ReorgMove): string => {
+  if (move.type === 'group') {
+    const fromParentId = move.fromParentId ?? findGroup(structure, move.groupId)?.parentGroupId;
+    return `Moved group "${groupName(structure, move.groupId)}" from "${groupName(structure, fromParentId)}" to "${groupName(structure, move.toParentId)}"`;
+  }
+  return `Moved ${getMemberName(structure, move.memberId)} from "${groupName(structure, move.fromGroupId)}" to "${groupName(structure, move.toGroupId)}"`;
+};
+
+// ===== APPLYING MOVES =====
+
+const replaceById = <T extends { id: string }>(items: T[], replacements: T[]): T[] =>
+  items.map(item => replacements.find(replacement => replacement.id === item.id) || item);
+
+/**
+ * Apply a move without recording it. Returns the new structure and the
+ * changed records as they were, so the move can be undone.
+ */
+export const applyReorgMove = (
+  structure: OrgStructure,
+  move: ReorgMove,
+  now: Date = new Date()
+): { structure: OrgStructure; previous: OrgStructure } => {
+  const errors = validateReorgMove(structure, move);
+  if (errors.length) throw new ReorgError(errors[0]);
+  const updatedAt = now.toISOString();
+
+  if (move.type === 'group') {
+    const group = findGroup(structure, move.groupId)!;
+    const delta = findGroup(structure, move.toParentId)!.depth + 1 - group.depth;
+    const subtree = getGroupSubtree(structure.groups, group.id);
+    const previous = structure.groups.filter(candidate => subtree.includes(candidate.id));
+    const moved = previous.map(candidate => ({
+      ...candidate,
+      parentGroupId: candidate.id === group.id ? move.toParentId : candidate.parentGroupId,
+      depth: candidate.depth + delta,
+      updatedAt,
+    }));
+    return {
+      structure: { ...structure, groups: replaceById(structure.groups, moved) },
+      previous: { groups: previous, groupMembers: [] },
+    };
+  }
+
+  const from = findGroup(structure, move.fromGroupId)!;
+  const to = findGroup(structure, move.toGroupId)!;
+  const assignments = structure.groupMembers.filter(gm => gm.groupId === from.id && gm.memberId === move.memberId);
+  const wasLeader = assignments.some(gm => gm.isLeader) || from.leaderId === move.memberId;
+
+  // Leadership stays with the group: the member joins the new group as a regular member
+  const movedAssignments: GroupMember[] = assignments.map(gm => ({
+    ...gm,
+    groupId: to.id,
+    role: GroupMemberRole.MEMBER,
+    isLeader: false,
+    hasApprovalAuthority: false,
+    assignedWorkplaces: gm.assignedWorkplaces.filter(id => to.workplaceIds.includes(id)),
+    assignedAt: updatedAt,
+  }));
+  const fromMembers = from.members.filter(id => id !== move.memberId);
+  const groups: Group[] = [
+    {
+      ...from,
+      members: fromMembers,
+      memberCount: Math.max(0, from.memberCount - 1),
+      leaderCount: wasLeader ? Math.max(0, from.leaderCount - 1) : from.leaderCount,
+      leaderId: from.leaderId === move.memberId ? undefined : from.leaderId,
+      updatedAt,
+    },
+    {
+      ...to,
+      members: to.members.includes(move.memberId) ? to.members : [...to.members, move.memberId],
+      memberCount: to.memberCount + 1,
+      updatedAt,
+    },
+  ];
+  return {
+    structure: {
+      groups: replaceById(structure.groups, groups),
+      groupMembers: replaceById(structure.groupMembers, movedAssignments),
+    },
+    previous: { groups: [from, to], groupMembers: assignments },
+  };
+};
+
+// ===== IMPACT PREVIEW =====
+
+/**
+ * Per-member differences in approvers, workplaces and report viewers
+ * between two structures
+ */
+export const diffReorgImpact = (before: OrgStructure, after: OrgStructure): ReorgImpactChange[] => {
+  const memberIds = Array.from(new Set([...getAllMemberIds(before), ...getAllMemberIds(after)])).sort();
+  const changes: ReorgImpactChange[] = [];
+  memberIds.forEach(memberId => {
+    REORG_IMPACT_ASPECTS.forEach(({ value: aspect }) => {
+      const was = IMPACT_RESOLVERS[aspect](before, memberId);
+      const now = IMPACT_RESOLVERS[aspect](after, memberId);
+      const gained = now.filter(id => !was.includes(id));
+      const lost = was.filter(id => !now.includes(id));
+      if (gained.length || lost.length) {
+        changes.push({ memberId, memberName: getMemberName(after, memberId), aspect, gained, lost });
+      }
+    });
+  });
+  return changes;
+};
+
+/**
+ * Validate a move and work out who it affects, without committing it
+ */
+export const previewReorgMove = (structure: OrgStructure, move: ReorgMove, now: Date = new Date()): ReorgPreview => {
+  const summary = describeReorgMove(structure, move);
+  const errors = validateReorgMove(structure, move);
+  if (errors.length) return { move, errors, summary, changes: [], affectedMemberIds: [], depthChanges: [] };
+
+  const { structure: after } = applyReorgMove(structure, move, now);
+  const changes = diffReorgImpact(structure, after);
+  const depthChanges = after.groups
+    .map(group => ({ groupId: group.id, from: findGroup(structure, group.id)!.depth, to: group.depth }))
+    .filter(change => change.from !== change.to);
+  return {
+    move,
+    errors,
+    summary,
+    changes,
+    affectedMemberIds: Array.from(new Set(changes.map(change => change.memberId))),
+    depthChanges,
+  };
+};
+
+// ===== HISTORY =====
+
+/**
+ * Apply a move and record it in the re-org history
+ */
+export const commitReorgMove = (
+  structure: OrgStructure,
+  history: ReorgEntry[],
+  move: ReorgMove,
+  performedBy: string,
+  now: Date = new Date()
+): { structure: OrgStructure; history: ReorgEntry[]; entry: ReorgEntry } => {
+  const preview = previewReorgMove(structure, move, now);
+  if (preview.errors.length) throw new ReorgError(preview.errors[0]);
+  const { structure: next, previous } = applyReorgMove(structure, move, now);
+
+  const entry: ReorgEntry = {
+    id: `reorg-${now.getTime()}-${history.length + 1}`,
+    move: move.type === 'group' ? { ...move, fromParentId: findGroup(structure, move.groupId)!.parentGroupId } : move,
+    summary: preview.summary,
+    affectedMemberIds: preview.affectedMemberIds,
+    changeCount: preview.changes.length,
+    previous,
+    performedBy,
+    performedAt: now.toISOString(),
+  };
+  return { structure: next, history: [...history, entry], entry };
+};
+
+const touchedIds = (entry: ReorgEntry): string[] => [
+  ...entry.previous.groups.map(group => group.id),
+  ...entry.previous.groupMembers.map(gm => gm.id),
+];
+
+/**
+ * Restore the records a move changed. Refused when a later move, still in
+ * effect, changed any of the same groups or assignments.
+ */
+export const undoReorgMove = (
+  structure: OrgStructure,
+  history: ReorgEntry[],
+  entryId: string,
+  undoneBy: string,
+  now: Date = new Date()
+): { structure: OrgStructure; history: ReorgEntry[] } => {
+  const index = history.findIndex(entry => entry.id === entryId);
+  const entry = history[index];
+  if (!entry) throw new ReorgError(`Unknown re-org ${entryId}`);
+  if (entry.undoneAt) throw new ReorgError('This re-org has already been undone');
+
+  const touched = touchedIds(entry);
+  const blocking = history
+    .slice(index + 1)
+    .reverse()
+    .find(later => !later.undoneAt && touchedIds(later).some(id => touched.includes(id)));
+  if (blocking) throw new ReorgError(`Undo "${blocking.summary}" first`);
+
+  return {
+    structure: {
+      groups: replaceById(structure.groups, entry.previous.groups),
+      groupMembers: replaceById(structure.groupMembers, entry.previous.groupMembers),
+    },
+    history: history.map(candidate =>
+      candidate.id === entryId ? { ...candidate, undoneBy, undoneAt: now.toISOString() } : candidate
+    ),
+  };
+};
+
+const entryTouchesGroup = (entry: ReorgEntry, groupId: string): boolean => {
+  const { move } = entry;
+  const ids = move.type === 'group'
+    ? [move.groupId, move.toParentId, move.fromParentId]
+    : [move.fromGroupId, move.toGroupId];
+  return ids.includes(groupId);
+};
+
+/**
+ * Re-orgs matching the filters, newest first
+ */
+export const queryReorgHistory = (history: ReorgEntry[], filters: ReorgHistoryFilters = {}): ReorgEntry[] => {
+  const from = filters.from ? new Date(filters.from).getTime() : -Infinity;
+  const to = filters.to ? new Date(filters.to).getTime() : Infinity;
+  return history
+    .filter(entry => filters.includeUndone || !entry.undoneAt)
+    .filter(entry => !filters.groupId || entryTouchesGroup(entry, filters.groupId))
+    .filter(entry => !filters.memberId ||
+      (entry.move.type === 'member' && entry.move.memberId === filters.memberId) ||
+      entry.affectedMemberIds.includes(filters.memberId))
+    .filter(entry => !filters.performedBy || entry.performedBy === filters.performedBy)
+    .filter(entry => {
+      const time = new Date(entry.performedAt).getTime();
+      return time >= from && time <= to;
+    })
+    .sort((a, b) => b.performedAt.localeCompare(a.performedAt));
+};
+
+// ===== PERSISTENCE =====
+
+export interface ReorgState {
+  structure: OrgStructure;
+  history: ReorgEntry[];
+}
+
+const reorgStore = createVersionedStore<ReorgState>({
+  key: 'groupReorgState',
+  version: 1,
+  label: 'group re-org state',
+  read: saved => (saved.structure ? { structure: saved.structure, history: saved.history || [] } : undefined),
+});
+
+/**
+ * Load the saved structure and history, or the fallback when nothing (valid) is stored
+ */
+export const loadReorgState = reorgStore.load;
+
+export const saveReorgState = reorgStore.save;
@@ -0,0 +1,304 @@
+/**
+ * Incident Lifecycle
+ *
+ * Moves workplace incidents through reported → triaged → assigned →
+ * resolved → verified and keeps their SLA clocks:
+ * - Each severity has a response target (until assigned) and a
+ *   resolution target (until resolved), both counted from the report
+ * - A breached clock escalates the incident to its area manager once
+ *   per clock
+ * - Photo and GPS evidence from the mobile app attaches to the incident
+ * - Every status change, escalation and attachment lands on the timeline
+ *
+ * A resolved incident that fails verification is reopened to assigned;
+ * its resolution clock keeps running from the original report.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  Area,
+  Incident,
+  IncidentEscalation,
+  IncidentEvidence,
+  IncidentSeverity,
+  IncidentSlaPolicy,
+  IncidentSlaState,
+  IncidentStatus,
+  IncidentTimelineEntry
+} from '../types';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for transitions and evidence the lifecycle does not allow
+ */
+export class IncidentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncidentError';
+  }
+}
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ['reported', 'triaged', 'assigned', 'resolved', 'verified'];
+
+export const DEFAULT_SLA_POLICIES: IncidentSlaPolicy[] = [
+  { severity: 'critical', responseHours: 1, resolutionHours: 4 },
+  { severity: 'high', responseHours: 4, resolutionHours: 24 },
+  { severity: 'medium', responseHours: 8, resolutionHours: 72 },
+  { severity: 'low', responseHours: 24, resolutionHours: 168 },
+];
+
+// Allowed next statuses; resolved → assigned reopens after a failed verification
+const TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  reported: ['triaged'],
+  triaged: ['assigned'],
+  assigned: ['assigned', 'resolved'],
+  resolved: ['verified', 'assigned'],
+  verified: [],
+};
+
+const SYSTEM_ACTOR = 'system';
+const MINUTE_MS = 60 * 1000;
+const AT_RISK_SHARE = 0.25;
+
+// ===== HELPERS =====
+
+const addEntry = (incident: Incident, entry: Omit<IncidentTimelineEntry, 'id'>): Incident => ({
+  ...incident,
+  timeline: [...incident.timeline, { id: `${incident.id}-t${incident.timeline.length + 1}`, ...entry }],
+  updatedAt: entry.at,
+});
+
+const addHours = (iso: string, hours: number) => new Date(new Date(iso).getTime() + hours * 60 * MINUTE_MS).toISOString();
+
+/**
+ * SLA targets for a severity
+ */
+export const getSlaPolicy = (policies: IncidentSlaPolicy[], severity: IncidentSeverity): IncidentSlaPolicy => {
+  const policy = policies.find(candidate => candidate.severity === severity);
+  if (!policy) {
+    throw new IncidentError(`No SLA is defined for ${severity} incidents`);
+  }
+  return policy;
+};
+
+/**
+ * When the incident last reached a status, from its timeline
+ */
+export const getStatusReachedAt = (incident: Incident, status: IncidentStatus): string | undefined =>
+  incident.timeline.filter(entry => entry.type === 'status' && entry.to === status).pop()?.at;
+
+// ===== LIFECYCLE =====
+
+export interface IncidentReport {
+  id: string;
+  workplaceId: string;
+  workplaceName: string;
+  workplaceCode: string;
+  areaId: string;
+  areaName: string;
+  incidentType: string;
+  severity: IncidentSeverity;
+  title: string;
+  description: string;
+}
+
+/**
+ * Create a reported incident; the SLA clock starts now
+ */
+export const reportIncident = (report: IncidentReport, reportedBy: string, now: Date = new Date()): Incident => {
+  if (!report.title.trim()) {
+    throw new IncidentError('Give the incident a title');
+  }
+  const at = now.toISOString();
+  return addEntry({
+    ...report,
+    status: 'reported',
+    reportedBy,
+    reportedAt: at,
+    evidence: [],
+    timeline: [],
+    escalations: [],
+    createdAt: at,
+    updatedAt: at,
+  }, { type: 'status', at, by: reportedBy, to: 'reported' });
+};
+
+/**
+ * Statuses an incident can move to next
+ */
+export const getNextStatuses = (incident: Incident): IncidentStatus[] => TRANSITIONS[incident.status];
+
+/**
+ * Move an incident to its next status. Assigning needs an assignee,
+ * resolving needs a resolution, and verification must come from someone
+ * other than the assignee. Reopening a resolved incident needs a reason.
+ */
+export const transitionIncident = (
+  incident: Incident,
+  to: IncidentStatus,
+  change: { by: string; assignee?: string; note?: string },
+  now: Date = new Date()
+): Incident => {
+  if (!TRANSITIONS[incident.status].includes(to)) {
+    throw new IncidentError(`A ${incident.status} incident cannot move to ${to}`);
+  }
+
+  const note = change.note?.trim();
+  const updated: Incident = { ...incident, status: to };
+
+  if (to === 'assigned') {
+    const assignee = change.assignee?.trim() || (incident.status === 'resolved' ? incident.assignedTo : undefined);
+    if (!assignee) throw new IncidentError('Choose who the incident is assigned to');
+    if (incident.status === 'resolved' && !note) throw new IncidentError('Say why the resolution was not accepted');
+    updated.assignedTo = assignee;
+  }
+  if (to === 'resolved') {
+    if (!note) throw new IncidentError('Describe how the incident was resolved');
+    updated.resolution = note;
+  }
+  if (to === 'verified' && change.by === incident.assignedTo) {
+    throw new IncidentError('The resolution must be verified by someone other than the assignee');
+  }
+
+  const detail = to === 'assigned' && incident.status !== 'resolved'
+    ? [`Assigned to ${updated.assignedTo}`, note].filter(Boolean).join(': ')
+    : note;
+  return addEntry(updated, { type: 'status', at: now.toISOString(), by: change.by, from: incident.status, to, note: detail });
+};
+
+/**
+ * Attach photo or GPS evidence, e.g. uploaded from the mobile app
+ */
+export const attachEvidence = (incident: Incident, evidence: IncidentEvidence): Incident => {
+  if (incident.status === 'verified') {
+    throw new IncidentError('Evidence cannot be added to a verified incident');
+  }
+  if (evidence.type === 'photo' && !evidence.url) {
+    throw new IncidentError('A photo needs an image');
+  }
+  const location = evidence.location;
+  if (evidence.type === 'location' && !location) {
+    throw new IncidentError('GPS evidence needs a position');
+  }
+  if (location && (Math.abs(location.latitude) > 90 || Math.abs(location.longitude) > 180)) {
+    throw new IncidentError('The GPS position is not valid');
+  }
+
+  const kind = evidence.type === 'photo' ? 'Photo' : 'GPS position';
+  return addEntry(
+    { ...incident, evidence: [...incident.evidence, evidence] },
+    { type: 'evidence', at: evidence.capturedAt, by: evidence.capturedBy, note: `${kind} added from ${evidence.source}` }
+  );
+};
+
+// ===== SLA =====
+
+/**
+ * Where an incident stands against the SLA of its severity. The response
+ * clock runs until the incident is first assigned, then the resolution
+ * clock until it is resolved; either is at risk in its last quarter.
+ */
+export const getIncidentSla = (incident: Incident, policies: IncidentSlaPolicy[], now: Date = new Date()): IncidentSlaState => {
+  const policy = getSlaPolicy(policies, incident.severity);
+  const resolutionDue = addHours(incident.reportedAt, policy.resolutionHours);
+
+  if (incident.status === 'resolved' || incident.status === 'verified') {
+    const resolvedAt = getStatusReachedAt(incident, 'resolved') || incident.updatedAt;
+    const remainingMinutes = Math.round((Date.parse(resolutionDue) - Date.parse(resolvedAt)) / MINUTE_MS);
+    return { stage: 'done', dueAt: resolutionDue, remainingMinutes, status: remainingMinutes >= 0 ? 'met' : 'breached' };
+  }
+
+  const responding = !getStatusReachedAt(incident, 'assigned');
+  const hours = responding ? policy.responseHours : policy.resolutionHours;
+  const dueAt = responding ? addHours(incident.reportedAt, policy.responseHours) : resolutionDue;
+  const remainingMinutes = Math.round((Date.parse(dueAt) - now.getTime()) / MINUTE_MS);
+
+  return {
+    stage: responding ? 'response' : 'resolution',
+    dueAt,
+    remainingMinutes,
+    status: remainingMinutes < 0 ? 'breached' : remainingMinutes <= hours * 60 * AT_RISK_SHARE ? 'at-risk' : 'on-track',
+  };
+};
+
+/**
+ * Escalate every incident whose running SLA clock is breached to its area
+ * manager, once per clock. Incidents in areas without a manager are left
+ * alone. Safe to call repeatedly.
+ */
+export const escalateBreachedIncidents = (
+  incidents: Incident[],
+  areas: Area[],
+  policies: IncidentSlaPolicy[],
+  now: Date = new Date()
+): { incidents: Incident[]; escalated: Incident[] } => {
+  const escalated: Incident[] = [];
+
+  const updated = incidents.map(incident => {
+    const sla = getIncidentSla(incident, policies, now);
+    if (sla.stage === 'done' || sla.status !== 'breached') return incident;
+    if (incident.escalations.some(escalation => escalation.stage === sla.stage)) return incident;
+
+    const area = areas.find(candidate => candidate.id === incident.areaId);
+    if (!area?.managerId) return incident;
+
+    const escalation: IncidentEscalation = {
+      stage: sla.stage,
+      escalatedAt: now.toISOString(),
+      escalatedTo: area.managerId,
+      escalatedToName: area.managerName || area.managerId,
+    };
+    const next = addEntry({ ...incident, escalations: [...incident.escalations, escalation] }, {
+      type: 'escalation',
+      at: escalation.escalatedAt,
+      by: SYSTEM_ACTOR,
+      note: `${sla.stage === 'response' ? 'Response' : 'Resolution'} SLA breached; escalated to ${escalation.escalatedToName}`,
+    });
+    escalated.push(next);
+    return next;
+  });
+
+  return { incidents: escalated.length ? updated : incidents, escalated };
+};
+
+/**
+ * Average hours from report to resolution of resolved incidents
+ */
+export const getAverageResolutionHours = (incidents: Incident[]): number | null => {
+  const durations = incidents
+    .map(incident => {
+      const resolvedAt = getStatusReachedAt(incident, 'resolved');
+      return resolvedAt && (incident.status === 'resolved' || incident.status === 'verified')
+        ? (Date.parse(resolvedAt) - Date.parse(incident.reportedAt)) / (60 * MINUTE_MS)
+        : null;
+    })
+    .filter((hours): hours is number => hours !== null);
+  if (!durations.length) return null;
+  return Math.round((durations.reduce((sum, hours) => sum + hours, 0) / durations.length) * 10) / 10;
+};
+
+// ===== PERSISTENCE =====
+
+export interface IncidentState {
+  incidents: Incident[];
+  policies: IncidentSlaPolicy[];
+}
+
+const incidentStore = createVersionedStore<IncidentState>({
+  key: 'incidents',
+  version: 1,
+  label: 'incidents',
+  read: (saved, fallback) => ({
+    incidents: saved.incidents || fallback.incidents,
+    policies: saved.policies || fallback.policies,
+  }),
+});
+
+/**
+ * Load saved incidents and SLA policies, or the fallback when nothing (valid) is stored
+ */
+export const loadIncidentState = incidentStore.load;
+
+export const saveIncidentState = incidentStore.save;
@@ -0,0 +1,345 @@
+/**
+ * Inventory Movement Ledger
+ *
+ * Keeps stock per workplace and SKU as a ledger of movements and derives
+ * replenishment figures from it:
+ * - Visit counts from InventoryCountConfig questions become count movements
+ * - Deliveries and adjustments move the balance between counts
+ * - Demand, days-of-cover and out-of-stock streaks per item
+ * - Reorder suggestions per distributor, exportable as CSV
+ *
+ * A count sets the balance; its variance against the balance the ledger
+ * expected is what was sold (or lost) since the previous movement, which
+ * is where average daily demand comes from. Movements are replayed in
+ * time order, so a count synced late still lands in the right place.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  InventoryCountAnswer,
+  InventoryCountConfig,
+  InventoryItem,
+  InventoryMovement,
+  InventoryPosition,
+  QuestionType,
+  ReorderSuggestion,
+  TodoQuestion,
+  TodoResponse
+} from '../types';
+import { formatCsv } from './spreadsheet';
+import { createVersionedStore, KeyValueStorage } from './versionedStore';
+
+/**
+ * Error raised for movements that cannot be posted
+ */
+export class InventoryLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InventoryLedgerError';
+  }
+}
+
+export type InventoryMovementInput = Omit<InventoryMovement, 'balance' | 'variance'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DEMAND_WINDOW_DAYS = 28;
+
+// ===== HELPERS =====
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const stockKey = (workplaceCode: string, sku: string) => `${workplaceCode}|${sku}`;
+
+const movementsFor = (ledger: InventoryMovement[], workplaceCode: string, sku: string) =>
+  ledger.filter(movement => movement.workplaceCode === workplaceCode && movement.sku === sku);
+
+// ===== VISIT COUNTS =====
+
+/**
+ * Inventory count settings for a question
+ */
+export const getInventoryCountConfig = (question: TodoQuestion): InventoryCountConfig | undefined =>
+  question.merchandisingConfig?.inventoryCount;
+
+/**
+ * An empty answer for an inventory count question
+ */
+export const createEmptyInventoryCount = (config?: InventoryCountConfig): InventoryCountAnswer => ({
+  method: config?.countMethods[0] || 'manual',
+  lines: [],
+});
+
+/**
+ * Set (or clear, with undefined) the units counted for a SKU
+ */
+export const setCountLine = (answer: InventoryCountAnswer, sku: string, quantity: number | undefined, note?: string): InventoryCountAnswer => {
+  const others = answer.lines.filter(line => line.sku !== sku);
+  if (quantity === undefined) return { ...answer, lines: others };
+  return { ...answer, lines: [...others, { sku, quantity, ...(note ? { note } : {}) }] };
+};
+
+/**
+ * Validate an inventory count answer against its question settings
+ */
+export const validateInventoryCount = (answer: any, config?: InventoryCountConfig): string[] => {
+  if (!answer || typeof answer !== 'object' || !Array.isArray(answer.lines)) return ['Count the stock'];
+  const count = answer as InventoryCountAnswer;
+  const errors: string[] = [];
+  const products = config?.products || [];
+  const seen = new Set<string>();
+
+  if (config?.countMethods.length && !config.countMethods.includes(count.method)) {
+    errors.push('Choose a counting method');
+  }
+
+  count.lines.forEach(line => {
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      errors.push(`Enter a whole number of units for ${line.sku}`);
+    }
+    if (seen.has(line.sku)) errors.push(`${line.sku} is counted twice`);
+    seen.add(line.sku);
+    if (products.length && !products.some(product => product.sku === line.sku)) {
+      errors.push(`${line.sku} is not on the count list`);
+    }
+  });
+
+  products.filter(product => !seen.has(product.sku)).forEach(product => errors.push(`Count ${product.name}`));
+  if (!products.length && !count.lines.length) errors.push('Count at least one product');
+
+  if (config?.requirePhotos && !count.photos?.length) errors.push('Add a photo of the counted stock');
+  if (config?.requireLocationVerification && !count.location) errors.push('Capture where the count was taken');
+
+  return errors;
+};
+
+/**
+ * Count movements from a visit's questionnaire responses. Movement IDs are
+ * derived from the visit, so syncing the same visit twice replaces its counts.
+ */
+export const countMovementsFromResponses = (
+  responses: TodoResponse[],
+  questions: TodoQuestion[],
+  context: { workplaceCode: string; recordedBy: string }
+): InventoryMovementInput[] =>
+  responses.flatMap(response => {
+    const question = questions.find(candidate => candidate.id === response.questionId);
+    if (question?.type !== QuestionType.INVENTORY_COUNT) return [];
+    const answer = response.answer as InventoryCountAnswer;
+    return answer.lines.map(line => ({
+      id: `${response.todoId}-${response.questionId}-${line.sku}`,
+      workplaceCode: context.workplaceCode,
+      sku: line.sku,
+      type: 'count' as const,
+      quantity: line.quantity,
+      occurredAt: response.metadata?.timestamp || response.createdAt,
+      countMethod: answer.method,
+      note: line.note,
+      source: { todoId: response.todoId, questionId: response.questionId },
+      recordedBy: context.recordedBy,
+    }));
+  });
+
+// ===== LEDGER =====
+
+/**
+ * Post movements and replay the ledger: movements with an existing ID
+ * replace it, and balances and count variances are recalculated in time order.
+ */
+export const postMovements = (ledger: InventoryMovement[], inputs: InventoryMovementInput[]): InventoryMovement[] => {
+  inputs.forEach(input => {
+    if (!Number.isFinite(input.quantity) || (input.type !== 'adjustment' && input.quantity < 0)) {
+      throw new InventoryLedgerError(`${input.sku}: ${input.type} quantity must not be negative`);
+    }
+    if (isNaN(new Date(input.occurredAt).getTime())) {
+      throw new InventoryLedgerError(`${input.sku}: invalid movement time "${input.occurredAt}"`);
+    }
+  });
+
+  const byId = new Map<string, InventoryMovementInput>(ledger.map(movement => [movement.id, movement]));
+  inputs.forEach(input => byId.set(input.id, input));
+
+  const ordered = Array.from(byId.values())
+    .map((movement, index) => ({ movement, index }))
+    .sort((a, b) => a.movement.occurredAt.localeCompare(b.movement.occurredAt) || a.index - b.index)
+    .map(({ movement }) => movement);
+
+  const balances = new Map<string, number>();
+  return ordered.map(({ balance: _balance, variance: _variance, ...movement }: InventoryMovementInput & Partial<InventoryMovement>) => {
+    const key = stockKey(movement.workplaceCode, movement.sku);
+    const previous = balances.get(key);
+    const before = previous ?? 0;
+
+    let balance: number;
+    let variance: number | undefined;
+    if (movement.type === 'count') {
+      balance = movement.quantity;
+      variance = previous === undefined ? undefined : movement.quantity - previous;
+    } else {
+      balance = Math.max(0, before + movement.quantity);
+    }
+    balances.set(key, balance);
+
+    return variance === undefined ? { ...movement, balance } : { ...movement, balance, variance };
+  });
+};
+
+// ===== POSITIONS =====
+
+/**
+ * Stock, demand, days-of-cover and out-of-stock streak of an item
+ */
+export const getInventoryPosition = (
+  item: InventoryItem,
+  ledger: InventoryMovement[],
+  asOf: Date = new Date(),
+  demandWindowDays: number = DEFAULT_DEMAND_WINDOW_DAYS
+): InventoryPosition => {
+  const until = asOf.toISOString();
+  const movements = movementsFor(ledger, item.workplaceCode, item.sku).filter(movement => movement.occurredAt <= until);
+  const counts = movements.filter(movement => movement.type === 'count');
+  const currentStock = movements.length ? movements[movements.length - 1].balance : 0;
+  const lastCount = counts[counts.length - 1];
+
+  // Demand: stock that disappeared between counts inside the window
+  const windowStart = new Date(asOf.getTime() - demandWindowDays * DAY_MS).toISOString();
+  const windowCounts = counts.filter(count => count.occurredAt >= windowStart);
+  let averageDailyDemand = 0;
+  if (windowCounts.length > 1) {
+    const used = windowCounts.slice(1).reduce((sum, count) => sum + Math.max(0, -(count.variance ?? 0)), 0);
+    const days = (Date.parse(windowCounts[windowCounts.length - 1].occurredAt) - Date.parse(windowCounts[0].occurredAt)) / DAY_MS;
+    averageDailyDemand = days > 0 ? round1(used / days) : 0;
+  }
+
+  let outOfStockStreak = 0;
+  let outOfStockSince: string | undefined;
+  if (currentStock <= 0) {
+    for (let index = counts.length - 1; index >= 0 && counts[index].quantity === 0; index--) {
+      outOfStockStreak++;
+      outOfStockSince = counts[index].occurredAt;
+    }
+  }
+
+  return {
+    itemId: item.id,
+    currentStock,
+    lastCountedAt: lastCount?.occurredAt,
+    averageDailyDemand,
+    daysOfCover: averageDailyDemand > 0 ? round1(currentStock / averageDailyDemand) : null,
+    outOfStockStreak,
+    outOfStockSince,
+    status: currentStock <= 0 ? 'out-of-stock' : currentStock <= Math.max(item.minStock, item.reorderPoint) ? 'low-stock' : 'healthy',
+  };
+};
+
+// ===== REORDERING =====
+
+/**
+ * Order-up-to suggestions: order when the stock expected on delivery is at
+ * or below the reorder point, enough to reach maxStock, in whole packs
+ */
+export const getReorderSuggestions = (
+  items: InventoryItem[],
+  ledger: InventoryMovement[],
+  asOf: Date = new Date()
+): ReorderSuggestion[] =>
+  items
+    .map(item => {
+      const position = getInventoryPosition(item, ledger, asOf);
+      // Without a count the stock on hand is unknown
+      if (!position.lastCountedAt) return null;
+      const stockAtDelivery = Math.max(0, Math.floor(position.currentStock - position.averageDailyDemand * item.leadTimeDays));
+      if (stockAtDelivery > item.reorderPoint) return null;
+
+      const packSize = item.packSize && item.packSize > 0 ? item.packSize : 1;
+      const quantity = Math.ceil(Math.max(0, item.maxStock - stockAtDelivery) / packSize) * packSize;
+      if (!quantity) return null;
+
+      const reason = position.outOfStockStreak
+        ? `Out of stock on the last ${position.outOfStockStreak} count${position.outOfStockStreak === 1 ? '' : 's'}`
+        : `${stockAtDelivery} expected on delivery, reorder point ${item.reorderPoint}`;
+
+      return {
+        itemId: item.id,
+        workplaceCode: item.workplaceCode,
+        workplaceName: item.workplaceName,
+        sku: item.sku,
+        productName: item.productName,
+        distributorId: item.distributorId,
+        distributorName: item.distributorName,
+        currentStock: position.currentStock,
+        stockAtDelivery,
+        quantity,
+        reason,
+      };
+    })
+    .filter((suggestion): suggestion is ReorderSuggestion => suggestion !== null)
+    .sort((a, b) => a.distributorName.localeCompare(b.distributorName) || a.workplaceCode.localeCompare(b.workplaceCode) || a.sku.localeCompare(b.sku));
+
+/**
+ * Reorder suggestions grouped by distributor ID
+ */
+export const groupReorderSuggestions = (suggestions: ReorderSuggestion[]): Map<string, ReorderSuggestion[]> =>
+  suggestions.reduce((groups, suggestion) => {
+    groups.set(suggestion.distributorId, [...(groups.get(suggestion.distributorId) || []), suggestion]);
+    return groups;
+  }, new Map<string, ReorderSuggestion[]>());
+
+/**
+ * Order file for a distributor
+ */
+export const formatReorderCsv = (suggestions: ReorderSuggestion[]): string =>
+  formatCsv([
+    ['Distributor', 'Workplace code', 'Workplace', 'SKU', 'Product', 'Current stock', 'Order quantity'],
+    ...suggestions.map(suggestion => [
+      suggestion.distributorName,
+      suggestion.workplaceCode,
+      suggestion.workplaceName,
+      suggestion.sku,
+      suggestion.productName,
+      suggestion.currentStock,
+      suggestion.quantity,
+    ]),
+  ]);
+
+// ===== PERSISTENCE =====
+
+export interface InventoryState {
+  items: InventoryItem[];
+  movements: InventoryMovement[];
+}
+
+// Fields are read one by one: counts may be posted before any items are saved
+const inventoryStore = createVersionedStore<Partial<InventoryState>>({
+  key: 'inventoryLedger',
+  version: 1,
+  label: 'inventory',
+  read: saved => ({ items: saved.items, movements: saved.movements }),
+});
+
+
+/**
+ * Load saved items and ledger, or the fallback when nothing (valid) is stored
+ */
+export const loadInventoryState = (fallback: InventoryState, storage?: KeyValueStorage): InventoryState => {
+  const saved = inventoryStore.load({}, storage);
+  return {
+    items: saved.items || fallback.items,
+    movements: saved.movements || fallback.movements,
+  };
+};
+
+export const saveInventoryState = (state: InventoryState, storage?: KeyValueStorage): void =>
+  inventoryStore.save(state, storage);
+
+/**
+ * Post movements straight to the saved ledger, e.g. the counts of a submitted
+ * visit questionnaire. Saved items are kept as they are.
+ */
+export const recordInventoryMovements = (inputs: InventoryMovementInput[], storage?: KeyValueStorage): InventoryMovement[] => {
+  const saved = inventoryStore.load({}, storage);
+  const movements = postMovements(saved.movements || [], inputs);
+  inventoryStore.save({ ...saved, movements }, storage);
+  return movements;
+};
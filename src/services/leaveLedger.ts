@@ -0,0 +1,434 @@
+/**
+ * Leave Ledger
+ *
+ * Keeps leave as a ledger of transactions instead of stored totals:
+ * - Grants and monthly accruals from LeaveGrant, pro-rated for mid-period joiners
+ * - Use of approved LeaveRequests
+ * - Manual adjustments with a reason
+ * - Carry-over expiry derived from the grant's carryoverType / carryoverValue
+ *
+ * LeaveBalance is derived by replaying the transactions up to a date, so
+ * any employee's balance can be shown as of any day together with the
+ * lines that produced it.
+ *
+ * Replay rules:
+ * - Debits use the credits that expire first
+ * - Unused credits expire the day after their expiresOn date; expiry
+ *   transactions are derived during replay and are never stored
+ * - A debit larger than the balance leaves a negative balance that the
+ *   next credits pay off first
+ * - On the same day credits apply before debits
+ *
+ * Leave days are counted as calendar days, like the approval workflow.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  LeaveBalance,
+  LeaveGrant,
+  LeaveGrantDetail,
+  LeaveLedgerEntry,
+  LeaveRequest,
+  LeaveTransaction,
+  LeaveType
+} from '../types';
+
+/**
+ * Error raised for transactions the ledger refuses to record
+ */
+export class LeaveLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeaveLedgerError';
+  }
+}
+
+/**
+ * Employee details needed to pro-rate grants
+ */
+export interface LeaveEmployee {
+  userId: string;
+  hireDate?: string;             // YYYY-MM-DD; joiners after periodStart are pro-rated
+}
+
+export interface LeaveUseCheck {
+  allowed: boolean;
+  available: number;             // Days available before this use
+  message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== DATE HELPERS =====
+
+const toDay = (value: string) => value.slice(0, 10);
+
+const parseDay = (date: string) => Date.parse(`${toDay(date)}T00:00:00Z`);
+
+const formatDay = (time: number) => new Date(time).toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => formatDay(parseDay(date) + days * DAY_MS);
+
+const addMonths = (date: string, months: number) => {
+  const source = new Date(parseDay(date));
+  const target = new Date(Date.UTC(source.getUTCFullYear(), source.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(source.getUTCDate(), lastDay));
+  return formatDay(target.getTime());
+};
+
+const endOfMonth = (date: string) => {
+  const source = new Date(parseDay(date));
+  return formatDay(Date.UTC(source.getUTCFullYear(), source.getUTCMonth() + 1, 0));
+};
+
+const today = () => formatDay(Date.now());
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Calendar days from start to end, both inclusive
+ */
+export const countLeaveDays = (startDate: string, endDate: string): number =>
+  Math.round((parseDay(endDate) - parseDay(startDate)) / DAY_MS) + 1;
+
+// ===== GRANTS =====
+
+/**
+ * Last day carried-over days from a grant can be used
+ */
+export const getCarryoverExpiry = (grant: LeaveGrant, detail?: LeaveGrantDetail): string => {
+  if (detail?.carryoverExpiration) return toDay(detail.carryoverExpiration);
+
+  const periodEnd = toDay(detail?.periodEnd || grant.periodEnd);
+  const value = grant.carryoverValue;
+
+  switch (grant.carryoverType) {
+    case 'months':
+      // N months counted from the month the period ended
+      return endOfMonth(addMonths(periodEnd, Number(value) || 0));
+    case 'days':
+      return addDays(periodEnd, Number(value) || 0);
+    case 'nextYear': {
+      // The chosen month (default December) of the year after the period
+      const month = Math.min(Math.max(Number(value) || 12, 1), 12);
+      const year = new Date(parseDay(periodEnd)).getUTCFullYear() + 1;
+      return formatDay(Date.UTC(year, month, 0));
+    }
+    case 'specificDate':
+      return value ? toDay(String(value)) : periodEnd;
+    default:
+      return periodEnd;
+  }
+};
+
+/**
+ * Pro-rate days for an employee who joins during the period
+ */
+export const prorateDays = (days: number, periodStart: string, periodEnd: string, hireDate?: string): number => {
+  if (!hireDate || toDay(hireDate) <= toDay(periodStart)) return days;
+  if (toDay(hireDate) > toDay(periodEnd)) return 0;
+  return round3(days * countLeaveDays(hireDate, periodEnd) / countLeaveDays(periodStart, periodEnd));
+};
+
+/**
+ * Credit transactions for a leave grant: one upfront grant per employee,
+ * or one accrual per month of the period for monthly grants.
+ */
+export const createGrantTransactions = (
+  grant: LeaveGrant,
+  employees: LeaveEmployee[] = [],
+  now: Date = new Date()
+): LeaveTransaction[] => {
+  const timestamp = now.toISOString();
+  const userIds = grant.grantType === 'individual' && grant.details
+    ? grant.details.map(detail => detail.userId)
+    : grant.employees;
+
+  return userIds.flatMap(userId => {
+    const detail = grant.details?.find(item => item.userId === userId);
+    const fullDays = detail?.daysGranted ?? grant.daysGranted ?? 0;
+    const periodStart = toDay(detail?.periodStart || grant.periodStart);
+    const periodEnd = toDay(detail?.periodEnd || grant.periodEnd);
+    const hireDate = employees.find(employee => employee.userId === userId)?.hireDate;
+    const expiresOn = getCarryoverExpiry(grant, detail);
+
+    const base = { userId, leaveTypeId: grant.leaveTypeId, grantId: grant.id, expiresOn, createdBy: grant.createdBy, createdAt: timestamp };
+
+    if (grant.accrualMethod === 'monthly') {
+      const months: string[] = [];
+      for (let month = periodStart; month <= periodEnd; month = addMonths(periodStart, months.length)) {
+        months.push(month);
+      }
+      const perMonth = round3(fullDays / months.length);
+
+      return months
+        .map((date, index): LeaveTransaction => ({
+          ...base,
+          id: `${grant.id}-${userId}-accrual-${index + 1}`,
+          type: 'accrual',
+          // The last month takes the rounding remainder so a full period adds up exactly
+          days: index === months.length - 1 ? round3(fullDays - perMonth * (months.length - 1)) : perMonth,
+          effectiveDate: date,
+          description: `${grant.title}: accrual ${index + 1} of ${months.length}`,
+        }))
+        .filter(transaction => !hireDate || transaction.effectiveDate >= toDay(hireDate));
+    }
+
+    const days = prorateDays(fullDays, periodStart, periodEnd, hireDate);
+    if (days <= 0) return [];
+
+    const prorated = days !== fullDays
+      ? ` (pro-rated from ${fullDays}: hired ${toDay(hireDate!)}, ` +
+        `${countLeaveDays(hireDate!, periodEnd)} of ${countLeaveDays(periodStart, periodEnd)} days)`
+      : '';
+
+    return [{
+      ...base,
+      id: `${grant.id}-${userId}-grant`,
+      type: 'grant',
+      days,
+      effectiveDate: hireDate && toDay(hireDate) > periodStart ? toDay(hireDate) : periodStart,
+      description: `${grant.title}: ${days} days${prorated}`,
+    }];
+  });
+};
+
+// ===== USE AND ADJUSTMENTS =====
+
+/**
+ * Debit transaction for an approved leave request
+ */
+export const createUseTransaction = (request: LeaveRequest, now: Date = new Date()): LeaveTransaction => {
+  const days = countLeaveDays(request.startDate, request.endDate);
+  return {
+    id: `use-${request.id}`,
+    userId: request.userId,
+    leaveTypeId: request.type.id,
+    type: 'use',
+    days: -days,
+    effectiveDate: toDay(request.startDate),
+    leaveRequestId: request.id,
+    description: `${request.type.name} ${toDay(request.startDate)} – ${toDay(request.endDate)} (${days} day${days === 1 ? '' : 's'})`,
+    createdBy: request.approvedBy || 'system',
+    createdAt: request.approvedAt || now.toISOString(),
+  };
+};
+
+/**
+ * Manual correction by HR. Positive adjustments are credits that may
+ * expire; negative adjustments are debits.
+ */
+export const createAdjustment = (
+  adjustment: Pick<LeaveTransaction, 'userId' | 'leaveTypeId' | 'days' | 'effectiveDate' | 'createdBy' | 'expiresOn'> & { reason: string },
+  now: Date = new Date()
+): LeaveTransaction => {
+  if (!adjustment.reason.trim()) throw new LeaveLedgerError('An adjustment needs a reason');
+  if (!adjustment.days) throw new LeaveLedgerError('An adjustment must change the balance');
+
+  const { reason, ...fields } = adjustment;
+  return {
+    ...fields,
+    id: `adj-${adjustment.userId}-${now.getTime()}`,
+    type: 'adjustment',
+    effectiveDate: toDay(adjustment.effectiveDate),
+    description: `Adjustment: ${reason.trim()}`,
+    createdAt: now.toISOString(),
+  };
+};
+
+// ===== LEDGER =====
+
+interface CreditLot {
+  source: LeaveTransaction;
+  remaining: number;
+}
+
+const byExpiry = (a: CreditLot, b: CreditLot) =>
+  (a.source.expiresOn || '9999-12-31').localeCompare(b.source.expiresOn || '9999-12-31');
+
+/**
+ * Replay an employee's transactions for one leave type up to asOf
+ * (inclusive), adding derived expiries. Each entry carries the balance
+ * after it, which is what HR walks through to explain a balance.
+ */
+export const buildLeaveLedger = (
+  transactions: LeaveTransaction[],
+  userId: string,
+  leaveTypeId: string,
+  asOf: string = today()
+): LeaveLedgerEntry[] => {
+  const cutoff = toDay(asOf);
+  const relevant = transactions
+    .filter(transaction =>
+      transaction.userId === userId &&
+      transaction.leaveTypeId === leaveTypeId &&
+      transaction.type !== 'expiry' &&
+      toDay(transaction.effectiveDate) <= cutoff
+    )
+    .sort((a, b) =>
+      toDay(a.effectiveDate).localeCompare(toDay(b.effectiveDate)) ||
+      Number(a.days < 0) - Number(b.days < 0) ||
+      a.id.localeCompare(b.id)
+    );
+
+  const entries: LeaveLedgerEntry[] = [];
+  let lots: CreditLot[] = [];
+  let debt = 0;
+  let balance = 0;
+
+  const post = (transaction: LeaveTransaction) => {
+    balance = round3(balance + transaction.days);
+    entries.push({ transaction, balance });
+  };
+
+  // Expire every lot whose last usable day is before the given date
+  const expireBefore = (date: string) => {
+    lots
+      .filter(lot => lot.source.expiresOn && lot.source.expiresOn < date && lot.remaining > 0)
+      .sort(byExpiry)
+      .forEach(lot => {
+        const expiresOn = lot.source.expiresOn!;
+        post({
+          id: `expiry-${lot.source.id}`,
+          userId,
+          leaveTypeId,
+          type: 'expiry',
+          days: -lot.remaining,
+          effectiveDate: addDays(expiresOn, 1),
+          grantId: lot.source.grantId,
+          description: `${lot.remaining} unused day${lot.remaining === 1 ? '' : 's'} from "${lot.source.description}" expired after ${expiresOn}`,
+          createdBy: 'system',
+          createdAt: `${addDays(expiresOn, 1)}T00:00:00.000Z`,
+        });
+        lot.remaining = 0;
+      });
+    lots = lots.filter(lot => lot.remaining > 0);
+  };
+
+  relevant.forEach(transaction => {
+    expireBefore(toDay(transaction.effectiveDate));
+
+    if (transaction.days > 0) {
+      // A negative balance is paid off before the credit becomes usable
+      const payoff = Math.min(debt, transaction.days);
+      debt = round3(debt - payoff);
+      const remaining = round3(transaction.days - payoff);
+      if (remaining > 0) lots.push({ source: transaction, remaining });
+    } else {
+      let needed = -transaction.days;
+      lots.sort(byExpiry).forEach(lot => {
+        const taken = Math.min(lot.remaining, needed);
+        lot.remaining = round3(lot.remaining - taken);
+        needed = round3(needed - taken);
+      });
+      lots = lots.filter(lot => lot.remaining > 0);
+      debt = round3(debt + needed);
+    }
+
+    post(transaction);
+  });
+
+  expireBefore(cutoff);
+  return entries;
+};
+
+/**
+ * Balance for one employee and leave type as of a date
+ */
+export const getLeaveBalance = (
+  transactions: LeaveTransaction[],
+  userId: string,
+  leaveTypeId: string,
+  asOf: string = today()
+): LeaveBalance => {
+  const entries = buildLeaveLedger(transactions, userId, leaveTypeId, asOf);
+  const sum = (types: LeaveTransaction['type'][]) => round3(entries
+    .filter(entry => types.includes(entry.transaction.type))
+    .reduce((total, entry) => total + entry.transaction.days, 0));
+
+  const totalDays = sum(['grant', 'accrual', 'adjustment']);
+  const usedDays = Math.abs(sum(['use']));
+  const expiredDays = Math.abs(sum(['expiry']));
+
+  return {
+    userId,
+    leaveTypeId,
+    totalDays,
+    usedDays,
+    expiredDays,
+    remainingDays: entries.length ? entries[entries.length - 1].balance : 0,
+    asOf: toDay(asOf),
+  };
+};
+
+/**
+ * Balances for every employee and leave type with transactions
+ */
+export const getLeaveBalances = (transactions: LeaveTransaction[], asOf: string = today()): LeaveBalance[] => {
+  const pairs = new Map<string, { userId: string; leaveTypeId: string }>();
+  transactions.forEach(({ userId, leaveTypeId }) => pairs.set(`${userId}|${leaveTypeId}`, { userId, leaveTypeId }));
+
+  return Array.from(pairs.values())
+    .filter(({ userId, leaveTypeId }) =>
+      transactions.some(transaction =>
+        transaction.userId === userId &&
+        transaction.leaveTypeId === leaveTypeId &&
+        toDay(transaction.effectiveDate) <= toDay(asOf)
+      )
+    )
+    .map(({ userId, leaveTypeId }) => getLeaveBalance(transactions, userId, leaveTypeId, asOf));
+};
+
+/**
+ * Whether a leave type is tracked in the ledger, i.e. days are granted,
+ * accrued or adjusted for it. Untracked types (personal or parental leave
+ * without an allowance) have no balance to check.
+ */
+export const isLeaveTypeTracked = (transactions: LeaveTransaction[], leaveTypeId: string): boolean =>
+  transactions.some(transaction => transaction.leaveTypeId === leaveTypeId && transaction.type !== 'use');
+
+/**
+ * Check whether an employee may take leave starting on a date. Leave
+ * already booked after that date is reserved from the balance, and the
+ * leave type decides how far the balance may go negative.
+ */
+export const checkLeaveUse = (
+  transactions: LeaveTransaction[],
+  leaveType: LeaveType,
+  userId: string,
+  days: number,
+  date: string
+): LeaveUseCheck => {
+  const booked = transactions
+    .filter(transaction =>
+      transaction.userId === userId &&
+      transaction.leaveTypeId === leaveType.id &&
+      transaction.type === 'use' &&
+      toDay(transaction.effectiveDate) > toDay(date)
+    )
+    .reduce((total, transaction) => total + transaction.days, 0);
+  const available = round3(getLeaveBalance(transactions, userId, leaveType.id, date).remainingDays + booked);
+  const floor = leaveType.allowNegativeBalance ? -(leaveType.maxNegativeDays ?? Infinity) : 0;
+  const after = round3(available - days);
+
+  if (after >= floor) {
+    return {
+      allowed: true,
+      available,
+      message: after < 0
+        ? `${days} days leaves a balance of ${after} days, taken in advance`
+        : `${after} days remain after this leave`,
+    };
+  }
+
+  return {
+    allowed: false,
+    available,
+    message: leaveType.allowNegativeBalance
+      ? `Only ${available} days available; the balance can't go below ${floor}`
+      : `Only ${available} days available for ${leaveType.name}`,
+  };
+};
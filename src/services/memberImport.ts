@@ -0,0 +1,517 @@
+/**
+ * Member Import and Export
+ *
+ * Reconciles the member list with an HRIS file (CSV or XLSX):
+ * - Columns mapped from the file's headers, guessed from their usual names
+ * - A dry-run plan of members to create, update, move between groups or
+ *   deactivate, with every row error listed before anything is applied
+ * - Keyed on employeeId, so running the same file again changes nothing
+ *   and the import can run nightly
+ * - Only mapped columns are compared, so a partial file leaves other
+ *   fields alone; members missing from the file are deactivated on request
+ * - Export in the same columns, so an exported file imports back unchanged
+ * - Saving through the admin users API; nothing is kept in the browser
+ *
+ * Groups are written as group names separated by semicolons and managers as
+ * the manager's employee ID.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  BatchImportError,
+  Group,
+  Member,
+  MemberImportAction,
+  MemberImportChange,
+  MemberImportColumn,
+  MemberImportColumnMapping,
+  MemberImportPlan,
+  MemberRole
+} from '../types';
+import { ColumnDefinition, guessColumnMapping, parseCellDate, validateColumnMapping } from './columnImport';
+
+/**
+ * Error raised for unusable member files
+ */
+export class MemberImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemberImportError';
+  }
+}
+
+export type MemberImportColumnDefinition = ColumnDefinition<MemberImportColumn>;
+
+export const MEMBER_IMPORT_COLUMNS: MemberImportColumnDefinition[] = [
+  { column: 'employeeId', label: 'Employee ID', required: true, aliases: ['employee id', 'employee number', 'employee no', 'emp id', 'personnel number', 'staff id', 'personalnummer'] },
+  { column: 'name', label: 'Name', required: true, aliases: ['name', 'full name', 'employee name', 'display name'] },
+  { column: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'email address', 'work email', 'mail'] },
+  { column: 'phone', label: 'Phone', required: false, aliases: ['phone', 'mobile', 'phone number', 'telephone', 'telefon'] },
+  { column: 'department', label: 'Department', required: false, aliases: ['department', 'dept', 'abteilung'] },
+  { column: 'position', label: 'Position', required: false, aliases: ['position', 'job title', 'title', 'role title'] },
+  { column: 'hireDate', label: 'Hire date', required: false, aliases: ['hire date', 'start date', 'date of hire', 'joined', 'eintritt'] },
+  { column: 'role', label: 'Role', required: false, aliases: ['role', 'access role', 'system role'] },
+  { column: 'status', label: 'Status', required: false, aliases: ['status', 'employment status'] },
+  { column: 'groups', label: 'Groups', required: false, aliases: ['groups', 'group', 'team', 'teams'] },
+  { column: 'managerId', label: 'Manager employee ID', required: false, aliases: ['manager employee id', 'manager id', 'manager', 'reports to'] },
+  { column: 'workplaceId', label: 'Workplace', required: false, aliases: ['workplace', 'workplace id', 'store', 'location'] },
+  { column: 'emergencyContactName', label: 'Emergency contact name', required: false, aliases: ['emergency contact name', 'emergency contact'] },
+  { column: 'emergencyContactPhone', label: 'Emergency contact phone', required: false, aliases: ['emergency contact phone', 'emergency phone'] },
+  { column: 'emergencyContactRelationship', label: 'Emergency contact relationship', required: false, aliases: ['emergency contact relationship', 'relationship'] },
+];
+
+export const MEMBER_IMPORT_ACTIONS: { value: MemberImportAction; label: string }[] = [
+  { value: 'create', label: 'Create' },
+  { value: 'update', label: 'Update' },
+  { value: 'move', label: 'Move groups' },
+  { value: 'deactivate', label: 'Deactivate' },
+  { value: 'unchanged', label: 'Unchanged' },
+];
+
+const ROLE_ALIASES: Record<MemberRole, string[]> = {
+  [MemberRole.ADMIN]: ['admin', 'administrator'],
+  [MemberRole.LEADER]: ['leader', 'team leader', 'manager', 'supervisor'],
+  [MemberRole.EMPLOYEE]: ['employee', 'staff', 'member'],
+};
+
+const STATUSES: Member['status'][] = ['active', 'inactive', 'suspended', 'terminated'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const employeeKey = (employeeId?: string) => (employeeId || '').trim().toLowerCase();
+
+const importedMemberId = (employeeId: string) => `hris-${employeeId.trim()}`;
+
+// ===== COLUMN VALUES =====
+
+interface MemberLookup {
+  groups: Group[];
+  members: Member[];
+}
+
+const splitGroups = (value: string) => value.split(/[;|]/).map(part => part.trim()).filter(Boolean);
+
+/**
+ * A member's value for a column, as written to and compared with the file
+ */
+export const getMemberColumnValue = (member: Member, column: MemberImportColumn, lookup: MemberLookup): string => {
+  switch (column) {
+    case 'groups':
+      return member.groups
+        .map(id => lookup.groups.find(group => group.id === id)?.name || id)
+        .sort((a, b) => a.localeCompare(b))
+        .join('; ');
+    case 'managerId': {
+      if (!member.managerId) return '';
+      const manager = lookup.members.find(candidate => candidate.id === member.managerId);
+      return manager?.employeeId || member.managerId;
+    }
+    case 'emergencyContactName':
+      return member.emergencyContact?.name || '';
+    case 'emergencyContactPhone':
+      return member.emergencyContact?.phone || '';
+    case 'emergencyContactRelationship':
+      return member.emergencyContact?.relationship || '';
+    default:
+      return String(member[column] ?? '');
+  }
+};
+
+// ===== MAPPING =====
+
+/**
+ * Map headers to member columns by their label or usual names
+ */
+export const guessMemberImportMapping = (headers: string[]): MemberImportColumnMapping =>
+  guessColumnMapping(MEMBER_IMPORT_COLUMNS, headers);
+
+/**
+ * Problems with a column mapping; empty when the file can be imported
+ */
+export const validateMemberImportMapping = (mapping: MemberImportColumnMapping, headers: string[]): string[] =>
+  validateColumnMapping(MEMBER_IMPORT_COLUMNS, mapping, headers);
+
+// ===== DRY RUN =====
+
+const parseRole = (value: string): MemberRole | null => {
+  const text = value.trim().toLowerCase();
+  const match = (Object.keys(ROLE_ALIASES) as MemberRole[]).find(role => ROLE_ALIASES[role].includes(text));
+  return match || null;
+};
+
+const parseStatus = (value: string): Member['status'] | null => {
+  const text = value.trim().toLowerCase();
+  return STATUSES.find(status => status === text) || null;
+};
+
+const emptyCounts = (): Record<MemberImportAction, number> => ({ create: 0, update: 0, move: 0, deactivate: 0, unchanged: 0 });
+
+/**
+ * Compare the file with the member list without changing anything.
+ * Row numbers in errors match the spreadsheet, so the header is row 1.
+ */
+export const planMemberImport = (
+  members: Member[],
+  rows: string[][],
+  mapping: MemberImportColumnMapping,
+  options: { groups: Group[]; deactivateMissing?: boolean; now?: Date }
+): MemberImportPlan => {
+  if (!rows.length) {
+    throw new MemberImportError('The file is empty');
+  }
+  const [headers, ...dataRows] = rows;
+  const problems = validateMemberImportMapping(mapping, headers);
+  if (problems.length) {
+    throw new MemberImportError(problems.join('; '));
+  }
+
+  const updatedAt = (options.now || new Date()).toISOString();
+  const mapped = MEMBER_IMPORT_COLUMNS.map(({ column }) => column).filter(column => !!mapping[column]);
+  const index = (column: MemberImportColumn) => (mapping[column] ? headers.indexOf(mapping[column] as string) : -1);
+  const cellOf = (cells: string[], column: MemberImportColumn) => (index(column) >= 0 ? (cells[index(column)] ?? '').trim() : '');
+
+  const existingByKey = new Map(members.filter(member => member.employeeId).map(member => [employeeKey(member.employeeId), member]));
+  const firstRowByKey = new Map<string, number>();
+  const firstRowByEmail = new Map<string, number>();
+  dataRows.forEach((cells, offset) => {
+    const key = employeeKey(cellOf(cells, 'employeeId'));
+    if (key && !firstRowByKey.has(key)) firstRowByKey.set(key, offset + 2);
+  });
+
+  const errors: BatchImportError[] = [];
+  const parsed: { row: number; before?: Member; after: Member; newManager?: string }[] = [];
+  const failedKeys = new Set<string>();
+
+  dataRows.forEach((cells, offset) => {
+    const row = offset + 2;
+    const cell = (column: MemberImportColumn) => cellOf(cells, column);
+    const rowErrors: BatchImportError[] = [];
+    const fail = (field: MemberImportColumn, error: string) => rowErrors.push({ row, field: mapping[field] || field, error });
+    if (cells.every(value => !value.trim())) return;
+
+    const employeeId = cell('employeeId');
+    const key = employeeKey(employeeId);
+    const email = cell('email');
+    const emailKey = email.toLowerCase();
+    // Members without an employee ID yet are adopted by email
+    const before = existingByKey.get(key) ||
+      (emailKey ? members.find(member => !member.employeeId && member.email.toLowerCase() === emailKey) : undefined);
+    if (!employeeId) fail('employeeId', 'Employee ID is missing');
+    else if (firstRowByKey.get(key) !== row) fail('employeeId', `Same employee ID as row ${firstRowByKey.get(key)}`);
+
+    const name = cell('name');
+    if (!name) fail('name', 'Name is missing');
+
+    const emailOwner = members.find(member => member !== before && member.email.toLowerCase() === emailKey);
+    if (!email) fail('email', 'Email is missing');
+    else if (!EMAIL_PATTERN.test(email)) fail('email', `"${email}" is not an email address`);
+    else if (firstRowByEmail.has(emailKey)) fail('email', `Same email as row ${firstRowByEmail.get(emailKey)}`);
+    else if (emailOwner) fail('email', `Email is already used by ${emailOwner.name}`);
+    if (email && !firstRowByEmail.has(emailKey)) firstRowByEmail.set(emailKey, row);
+
+    const hireDate = cell('hireDate') ? parseCellDate(cell('hireDate')) : null;
+    if (cell('hireDate') && !hireDate) fail('hireDate', `"${cell('hireDate')}" is not a date`);
+
+    const role = cell('role') ? parseRole(cell('role')) : null;
+    if (cell('role') && !role) fail('role', `Unknown role "${cell('role')}"`);
+
+    const status = cell('status') ? parseStatus(cell('status')) : null;
+    if (cell('status') && !status) fail('status', `Unknown status "${cell('status')}"`);
+
+    const groupIds: string[] = [];
+    splitGroups(cell('groups')).forEach(part => {
+      const group = options.groups.find(candidate =>
+        candidate.id === part || candidate.name.toLowerCase() === part.toLowerCase()
+      );
+      if (!group) fail('groups', `Unknown group "${part}"`);
+      else if (!groupIds.includes(group.id)) groupIds.push(group.id);
+    });
+
+    let managerId: string | undefined;
+    let newManager: string | undefined;
+    const managerKey = employeeKey(cell('managerId'));
+    if (managerKey) {
+      if (managerKey === key) fail('managerId', 'A member cannot be their own manager');
+      else if (existingByKey.has(managerKey)) managerId = existingByKey.get(managerKey)!.id;
+      else if (firstRowByKey.has(managerKey)) {
+        managerId = importedMemberId(cell('managerId'));
+        newManager = cell('managerId');
+      } else fail('managerId', `Unknown manager employee ID "${cell('managerId')}"`);
+    }
+
+    if (rowErrors.length) {
+      errors.push(...rowErrors);
+      // Managers resolve to the first row with their ID, so only that row counts
+      if (key && firstRowByKey.get(key) === row) failedKeys.add(key);
+      return;
+    }
+
+    const base: Member = before || {
+      id: importedMemberId(employeeId),
+      userId: importedMemberId(employeeId),
+      name,
+      email,
+      role: MemberRole.EMPLOYEE,
+      employeeId,
+      hireDate: '',
+      groups: [],
+      isLeader: false,
+      isAdmin: false,
+      approvalAuthority: false,
+      status: 'active',
+      createdAt: updatedAt,
+      updatedAt,
+    };
+    const set = <K extends keyof Member>(column: MemberImportColumn, field: K, value: Member[K]) =>
+      (mapping[column] ? { [field]: value } : {}) as Partial<Member>;
+    const nextRole = role || (before ? before.role : MemberRole.EMPLOYEE);
+    const emergencyContact = {
+      ...(base.emergencyContact || { name: '', relationship: '', phone: '' }),
+      ...(mapping.emergencyContactName ? { name: cell('emergencyContactName') } : {}),
+      ...(mapping.emergencyContactPhone ? { phone: cell('emergencyContactPhone') } : {}),
+      ...(mapping.emergencyContactRelationship ? { relationship: cell('emergencyContactRelationship') } : {}),
+    };
+
+    const after: Member = {
+      ...base,
+      name,
+      email,
+      employeeId: employeeId,
+      ...set('phone', 'phone', cell('phone')),
+      ...set('department', 'department', cell('department')),
+      ...set('position', 'position', cell('position')),
+      ...set('hireDate', 'hireDate', hireDate || ''),
+      ...(mapping.role ? { role: nextRole, isAdmin: nextRole === MemberRole.ADMIN, isLeader: nextRole === MemberRole.LEADER } : {}),
+      ...set('status', 'status', status || base.status),
+      ...set('groups', 'groups', groupIds),
+      ...set('managerId', 'managerId', managerId),
+      ...set('workplaceId', 'workplaceId', cell('workplaceId')),
+      ...(mapping.emergencyContactName || mapping.emergencyContactPhone || mapping.emergencyContactRelationship ? { emergencyContact } : {}),
+    };
+    parsed.push({ row, before, after, newManager });
+  });
+
+  // A manager created by this file must be created too; skipping a row
+  // skips the rows reporting to it, and the rows reporting to those
+  for (let skipped = true; skipped;) {
+    skipped = false;
+    for (let i = parsed.length - 1; i >= 0; i -= 1) {
+      const { row, after, newManager } = parsed[i];
+      if (!newManager || !failedKeys.has(employeeKey(newManager))) continue;
+      errors.push({
+        row,
+        field: mapping.managerId || 'managerId',
+        error: `Manager "${newManager}" is not imported because row ${firstRowByKey.get(employeeKey(newManager))} has errors`,
+      });
+      failedKeys.add(employeeKey(after.employeeId));
+      parsed.splice(i, 1);
+      skipped = true;
+    }
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  // Managers may refer to members created by the same file
+  const lookup: MemberLookup = { groups: options.groups, members: [...members, ...parsed.filter(entry => !entry.before).map(entry => entry.after)] };
+  const changes: MemberImportChange[] = parsed.map(({ row, before, after }) => {
+    if (!before) {
+      return {
+        employeeId: after.employeeId!,
+        row,
+        actions: ['create'],
+        fields: mapped.map(field => ({ field, from: '', to: getMemberColumnValue(after, field, lookup) })).filter(change => change.to),
+        after,
+      };
+    }
+    const fields = mapped
+      .map(field => ({ field, from: getMemberColumnValue(before, field, lookup), to: getMemberColumnValue(after, field, lookup) }))
+      .filter(change => change.from !== change.to);
+    const actions: MemberImportAction[] = [];
+    if (fields.some(change => change.field === 'status' && before.status === 'active')) actions.push('deactivate');
+    if (fields.some(change => change.field === 'groups')) actions.push('move');
+    if (fields.some(change => change.field !== 'groups' && !(change.field === 'status' && before.status === 'active'))) actions.push('update');
+    return {
+      employeeId: after.employeeId!,
+      row,
+      actions: actions.length ? actions : ['unchanged'],
+      fields,
+      before,
+      after: actions.length ? { ...after, updatedAt } : before,
+    };
+  });
+
+  if (options.deactivateMissing) {
+    const inFile = new Set(firstRowByKey.keys());
+    members
+      .filter(member => member.employeeId && member.status === 'active' && !inFile.has(employeeKey(member.employeeId)))
+      .forEach(member => changes.push({
+        employeeId: member.employeeId!,
+        actions: ['deactivate'],
+        fields: [{ field: 'status', from: 'active', to: 'inactive' }],
+        before: member,
+        after: { ...member, status: 'inactive', updatedAt },
+      }));
+  }
+
+  const counts = emptyCounts();
+  changes.forEach(change => change.actions.forEach(action => { counts[action] += 1; }));
+  return { changes, errors, totalRows: dataRows.length, counts };
+};
+
+// ===== APPLY AND EXPORT =====
+
+/**
+ * Apply a plan: rows with errors were already left out
+ */
+export const applyMemberImportPlan = (members: Member[], plan: MemberImportPlan): Member[] => {
+  const changed = plan.changes.filter(change => !change.actions.includes('unchanged'));
+  const byId = new Map(changed.filter(change => change.before).map(change => [change.before!.id, change.after]));
+  return [
+    ...members.map(member => byId.get(member.id) || member),
+    ...changed.filter(change => !change.before).map(change => change.after),
+  ];
+};
+
+/**
+ * Member rows in the import format, header first
+ */
+export const exportMemberRows = (members: Member[], groups: Group[]): string[][] => {
+  const lookup: MemberLookup = { groups, members };
+  return [
+    MEMBER_IMPORT_COLUMNS.map(({ label }) => label),
+    ...members.map(member => MEMBER_IMPORT_COLUMNS.map(({ column }) => getMemberColumnValue(member, column, lookup))),
+  ];
+};
+
+/**
+ * The member already holding an employee ID, other than the member being edited
+ */
+export const findEmployeeIdConflict = (members: Member[], employeeId: string, memberId?: string): Member | undefined => {
+  const key = employeeKey(employeeId);
+  return key ? members.find(member => member.id !== memberId && employeeKey(member.employeeId) === key) : undefined;
+};
+
+// ===== SAVING =====
+
+/**
+ * Account and HR fields of a member as the admin users API takes them
+ */
+export type MemberUserInput = Partial<Pick<Member,
+  'email' | 'name' | 'role' | 'department' | 'status' | 'employeeId' | 'phone' | 'position' |
+  'hireDate' | 'managerId' | 'workplaceId' | 'groups' | 'emergencyContact'>>;
+
+export interface MemberImportUsersApi {
+  create: (input: MemberUserInput) => Promise<{ id: string }>;
+  update: (id: string, input: MemberUserInput) => Promise<unknown>;
+}
+
+export interface MemberImportSaveResult {
+  saved: number;                                  // Members created or updated
+  failures: { employeeId: string; error: string }[];
+}
+
+const USER_INPUT_FIELDS: (keyof MemberUserInput)[] = [
+  'email', 'name', 'role', 'department', 'status', 'employeeId', 'phone', 'position',
+  'hireDate', 'managerId', 'workplaceId', 'groups', 'emergencyContact',
+];
+
+const inputField = (column: MemberImportColumn): keyof MemberUserInput =>
+  column.startsWith('emergencyContact') ? 'emergencyContact' : column as keyof MemberUserInput;
+
+const pickInput = (member: Member, fields: (keyof MemberUserInput)[]): MemberUserInput =>
+  fields.reduce((input, field) => ({ ...input, [field]: member[field] ?? '' }), {} as MemberUserInput);
+
+const isImportedMemberId = (id?: string) => !!id && id.startsWith('hris-');
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Save a plan through the admin users API. New members are created first,
+ * so managers created by the same file have server IDs before anyone is
+ * pointed at them; existing members only get their changed fields.
+ * A failed member is reported and the rest are still saved.
+ */
+export const saveMemberImportPlan = async (plan: MemberImportPlan, users: MemberImportUsersApi): Promise<MemberImportSaveResult> => {
+  const changed = plan.changes.filter(change => !change.actions.includes('unchanged'));
+  const serverIds = new Map<string, string>();
+  const failures: MemberImportSaveResult['failures'] = [];
+  const managerUpdates: { id: string; change: MemberImportChange }[] = [];
+  let saved = 0;
+
+  const run = async (change: MemberImportChange, save: () => Promise<unknown>) => {
+    try {
+      await save();
+      return true;
+    } catch (error) {
+      failures.push({ employeeId: change.employeeId, error: errorMessage(error) });
+      return false;
+    }
+  };
+  const managerOf = (change: MemberImportChange) => {
+    const { managerId } = change.after;
+    if (!isImportedMemberId(managerId)) return managerId;
+    if (serverIds.has(managerId!)) return serverIds.get(managerId!);
+    throw new Error(`Manager ${managerId!.replace(/^hris-/, '')} could not be created`);
+  };
+
+  for (const change of changed.filter(entry => !entry.before)) {
+    const fields = USER_INPUT_FIELDS.filter(field => field !== 'managerId' || !isImportedMemberId(change.after.managerId));
+    const created = await run(change, async () => {
+      const { id } = await users.create(pickInput(change.after, fields));
+      serverIds.set(change.after.id, id);
+      if (isImportedMemberId(change.after.managerId)) managerUpdates.push({ id, change });
+    });
+    if (created) saved += 1;
+  }
+
+  for (const change of changed.filter(entry => entry.before)) {
+    const fields = Array.from(new Set(change.fields.map(({ field }) => inputField(field))));
+    const updated = await run(change, () => users.update(change.before!.id, {
+      ...pickInput(change.after, fields),
+      ...(fields.includes('managerId') ? { managerId: managerOf(change) } : {}),
+    }));
+    if (updated) saved += 1;
+  }
+
+  // Members created above whose manager was created in the same run
+  for (const { id, change } of managerUpdates) {
+    await run(change, () => users.update(id, { managerId: managerOf(change) }));
+  }
+
+  return { saved, failures };
+};
+
+/**
+ * Member record for a user returned by the admin users API
+ */
+export const memberFromServerUser = (user: any): Member => ({
+  ...user,
+  id: String(user.id),
+  userId: String(user.id),
+  hireDate: user.hireDate || '',
+  groups: user.groups || [],
+  isLeader: user.role === 'leader',
+  isAdmin: user.role === 'admin',
+  approvalAuthority: false,
+  position: user.position || '',
+  employeeId: user.employeeId || '',
+  phone: user.phone || '',
+  managerId: user.managerId || '',
+  workplaceId: user.workplaceId || '',
+  emergencyContact: user.emergencyContact || {},
+  lastLoginAt: user.lastLoginAt || '',
+  createdAt: user.createdAt || '',
+  updatedAt: user.updatedAt || '',
+  status: user.status || 'active',
+  avatar: user.avatar || '',
+});
+
+// ===== PERSISTENCE =====
+
+/**
+ * Remove the imported roster earlier versions kept in localStorage, which
+ * held HR details; imports are saved on the server now
+ */
+export const discardImportedRoster = (storage: Pick<Storage, 'removeItem'> = localStorage): void =>
+  storage.removeItem('memberImportRoster');
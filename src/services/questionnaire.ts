@@ -0,0 +1,579 @@
+/**
+ * Questionnaire Runtime
+ *
+ * Evaluates AdvancedTodo questionnaires while a merchandiser fills them in:
+ * - Applies TodoQuestion.conditionalLogic (show / hide / require / skip) live
+ * - Validates answers for every QuestionType against QuestionValidation
+ * - Converts answers to and from TodoResponse records
+ * - Checks a template at design time for circular, missing and
+ *   unreachable question references, and for question types that
+ *   have no input yet
+ *
+ * Answer shapes by question type:
+ * - single_choice: option value; multiple_choice, checklist: option values[]
+ * - text_answer, textarea_answer, signature, date_time: string
+ * - number_input, slider, rating_scale: number; yes_no: boolean
+ * - location: { latitude, longitude, accuracy? }
+ * - photo_upload, file_upload: file URLs[]
+ * - matrix: { [rowId]: column value | column values[] }
+ * - shelf_share: ShelfMeasurement (see shelfShare.ts)
+ * - inventory_count: InventoryCountAnswer (see inventoryLedger.ts)
+ * - competitor_analysis: CompetitorPriceAnswer (see competitorPricing.ts)
+ * Other merchandising types cannot be answered yet; templates using them
+ * fail the design check.
+ *
+ * A rule fires only when its source question is answered and itself
+ * visible and not skipped, so hiding a question also switches off the
+ * rules that depend on it.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  ConditionalLogic,
+  QuestionState,
+  QuestionType,
+  QuestionnaireIssue,
+  TodoQuestion,
+  TodoResponse
+} from '../types';
+import { getCompetitorAnalysisConfig, getPricingVerificationConfig, validateCompetitorPrices } from './competitorPricing';
+import { getInventoryCountConfig, validateInventoryCount } from './inventoryLedger';
+import { calculateShelfShare, getShelfShareConfig, validateShelfMeasurement } from './shelfShare';
+
+export type QuestionAnswers = Record<string, any>;
+
+export interface QuestionnaireValidation {
+  isValid: boolean;
+  errors: Record<string, string[]>;
+  states: Record<string, QuestionState>;
+}
+
+const CHOICE_TYPES = [QuestionType.SINGLE_CHOICE, QuestionType.MULTIPLE_CHOICE, QuestionType.CHECKLIST];
+const MULTI_VALUE_TYPES = [QuestionType.MULTIPLE_CHOICE, QuestionType.CHECKLIST, QuestionType.PHOTO_UPLOAD, QuestionType.FILE_UPLOAD];
+const NUMERIC_TYPES = [QuestionType.NUMBER_INPUT, QuestionType.SLIDER, QuestionType.RATING_SCALE];
+const TEXT_TYPES = [QuestionType.TEXT_ANSWER, QuestionType.TEXTAREA_ANSWER];
+
+/**
+ * Question types the questionnaire form has an input for
+ */
+export const ANSWERABLE_QUESTION_TYPES: QuestionType[] = [
+  ...TEXT_TYPES,
+  ...NUMERIC_TYPES,
+  ...CHOICE_TYPES,
+  QuestionType.YES_NO,
+  QuestionType.MATRIX,
+  QuestionType.DATE_TIME,
+  QuestionType.LOCATION,
+  QuestionType.PHOTO_UPLOAD,
+  QuestionType.FILE_UPLOAD,
+  QuestionType.SIGNATURE,
+  QuestionType.SHELF_SHARE,
+  QuestionType.INVENTORY_COUNT,
+  QuestionType.COMPETITOR_ANALYSIS,
+];
+
+// ===== ANSWER HELPERS =====
+
+/**
+ * Sort questions by their display order
+ */
+export const sortQuestions = (questions: TodoQuestion[]): TodoQuestion[] =>
+  [...questions].sort((a, b) => a.order - b.order);
+
+/**
+ * Whether an answer counts as filled in for its question type
+ */
+export const isAnswered = (question: TodoQuestion, answer: any): boolean => {
+  if (answer === undefined || answer === null) return false;
+  if (question.type === QuestionType.YES_NO) return typeof answer === 'boolean';
+  if (NUMERIC_TYPES.includes(question.type)) return String(answer).trim() !== '';
+  if (Array.isArray(answer)) return answer.length > 0;
+  if (typeof answer === 'string') return answer.trim().length > 0;
+  if (typeof answer === 'object') return Object.keys(answer).length > 0;
+  return true;
+};
+
+const toComparable = (value: any): string => {
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  const text = String(value).trim().toLowerCase();
+  if (text === 'yes') return 'true';
+  if (text === 'no') return 'false';
+  return text;
+};
+
+const answerValues = (answer: any): any[] => {
+  if (Array.isArray(answer)) return answer;
+  if (answer && typeof answer === 'object') {
+    return Object.values(answer).reduce<any[]>((all, value) => all.concat(value), []);
+  }
+  return [answer];
+};
+
+const isNumber = (value: any) => value !== '' && value !== null && typeof value !== 'boolean' && !isNaN(Number(value));
+
+/**
+ * Evaluate one rule's condition against the source question's answer
+ */
+export const matchesCondition = (rule: ConditionalLogic, answer: any): boolean => {
+  const values = answerValues(answer);
+  const target = toComparable(rule.value);
+
+  switch (rule.operator) {
+    case 'equals':
+      return values.some(value => isNumber(value) && isNumber(rule.value)
+        ? Number(value) === Number(rule.value)
+        : toComparable(value) === target);
+    case 'not_equals':
+      return !values.some(value => toComparable(value) === target);
+    case 'contains':
+      return values.some(value => toComparable(value).includes(target));
+    case 'greater_than':
+      return isNumber(answer) && isNumber(rule.value) && Number(answer) > Number(rule.value);
+    case 'less_than':
+      return isNumber(answer) && isNumber(rule.value) && Number(answer) < Number(rule.value);
+    default:
+      return false;
+  }
+};
+
+// ===== CONDITIONAL LOGIC =====
+
+/**
+ * Apply every question's conditional logic to the current answers.
+ *
+ * - show: the question is hidden until at least one show rule matches
+ * - hide: the question is hidden while any hide rule matches
+ * - require: the question becomes required while a require rule matches
+ * - skip: the question stays in place but is marked skipped
+ */
+export const getQuestionStates = (
+  questions: TodoQuestion[],
+  answers: QuestionAnswers
+): Record<string, QuestionState> => {
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const states: Record<string, QuestionState> = {};
+  const resolving = new Set<string>();
+
+  const resolve = (question: TodoQuestion): QuestionState => {
+    if (states[question.id]) return states[question.id];
+    // A reference cycle cannot be satisfied; treat the inner question as inactive
+    if (resolving.has(question.id)) return { visible: false, required: false, skipped: true };
+    resolving.add(question.id);
+
+    const fires = (rule: ConditionalLogic) => {
+      const source = byId.get(rule.questionId);
+      if (!source || source.id === question.id) return false;
+      const sourceState = resolve(source);
+      if (!sourceState.visible || sourceState.skipped) return false;
+      const answer = answers[source.id];
+      return isAnswered(source, answer) && matchesCondition(rule, answer);
+    };
+
+    const rules = question.conditionalLogic || [];
+    const showRules = rules.filter(rule => rule.action === 'show');
+    const visible = (showRules.length === 0 || showRules.some(fires)) &&
+      !rules.some(rule => rule.action === 'hide' && fires(rule));
+    const skipped = visible && rules.some(rule => rule.action === 'skip' && fires(rule));
+    const required = visible && !skipped &&
+      (question.required || !!question.validation?.required || rules.some(rule => rule.action === 'require' && fires(rule)));
+
+    resolving.delete(question.id);
+    states[question.id] = { visible, required, skipped };
+    return states[question.id];
+  };
+
+  questions.forEach(resolve);
+  return states;
+};
+
+/**
+ * Questions the merchandiser should currently see, in display order
+ */
+export const getVisibleQuestions = (questions: TodoQuestion[], answers: QuestionAnswers): TodoQuestion[] => {
+  const states = getQuestionStates(questions, answers);
+  return sortQuestions(questions).filter(question => states[question.id].visible);
+};
+
+// ===== VALIDATION =====
+
+const validateRange = (label: string, value: number, min?: number, max?: number): string[] => {
+  const errors: string[] = [];
+  if (min !== undefined && value < min) errors.push(`${label} must be at least ${min}`);
+  if (max !== undefined && value > max) errors.push(`${label} must be at most ${max}`);
+  return errors;
+};
+
+const validateText = (question: TodoQuestion, answer: any): string[] => {
+  if (typeof answer !== 'string') return ['Enter text'];
+  const rules = question.validation || {};
+  const errors: string[] = [];
+  if (rules.minLength !== undefined && answer.length < rules.minLength) {
+    errors.push(`Enter at least ${rules.minLength} characters`);
+  }
+  if (rules.maxLength !== undefined && answer.length > rules.maxLength) {
+    errors.push(`Enter no more than ${rules.maxLength} characters`);
+  }
+  if (rules.pattern) {
+    let matches = true;
+    try {
+      matches = new RegExp(rules.pattern).test(answer);
+    } catch (error) {
+      console.error(`Invalid pattern on question ${question.id}:`, error);
+    }
+    if (!matches) errors.push(rules.customValidation || 'Answer has an invalid format');
+  }
+  return errors;
+};
+
+const validateNumber = (question: TodoQuestion, answer: any): string[] => {
+  if (!isNumber(answer)) return ['Enter a number'];
+  const value = Number(answer);
+  const rules = question.validation || {};
+
+  if (question.type === QuestionType.RATING_SCALE && question.ratingScale) {
+    const { min, max, step } = question.ratingScale;
+    const errors = validateRange('Rating', value, min, max);
+    if (step && Math.abs((value - min) / step - Math.round((value - min) / step)) > 1e-9) {
+      errors.push(`Rating must be in steps of ${step}`);
+    }
+    return errors;
+  }
+  return validateRange('Value', value, rules.minValue, rules.maxValue);
+};
+
+const validateChoice = (question: TodoQuestion, answer: any): string[] => {
+  const allowed = (question.options || []).map(option => option.value);
+  const otherAllowed = (question.options || []).some(option => option.isOther);
+  const selected = question.type === QuestionType.SINGLE_CHOICE ? [answer] : answer;
+
+  if (question.type !== QuestionType.SINGLE_CHOICE && !Array.isArray(answer)) return ['Select one or more options'];
+  if (allowed.length && !otherAllowed && selected.some((value: any) => !allowed.includes(value))) {
+    return ['Select one of the listed options'];
+  }
+  if (question.type === QuestionType.SINGLE_CHOICE) return [];
+
+  const rules = question.validation || {};
+  const errors: string[] = [];
+  if (rules.minValue !== undefined && selected.length < rules.minValue) errors.push(`Select at least ${rules.minValue}`);
+  if (rules.maxValue !== undefined && selected.length > rules.maxValue) errors.push(`Select no more than ${rules.maxValue}`);
+  return errors;
+};
+
+const validateMatrix = (question: TodoQuestion, answer: any, required: boolean): string[] => {
+  if (!question.matrix) return [];
+  if (typeof answer !== 'object' || Array.isArray(answer)) return ['Answer the grid'];
+  const { rows, columns, allowMultiple } = question.matrix;
+  const columnValues = columns.map(column => column.value);
+  const errors: string[] = [];
+
+  rows.forEach(row => {
+    const cell = answer[row.id];
+    const values = cell === undefined || cell === null || cell === '' ? [] : Array.isArray(cell) ? cell : [cell];
+    if (!values.length) {
+      if (required) errors.push(`Answer "${row.label}"`);
+      return;
+    }
+    if (!allowMultiple && values.length > 1) errors.push(`Choose one answer for "${row.label}"`);
+    if (values.some(value => !columnValues.includes(value))) errors.push(`Invalid answer for "${row.label}"`);
+  });
+  return errors;
+};
+
+const validateFiles = (question: TodoQuestion, answer: any): string[] => {
+  if (!Array.isArray(answer)) return ['Upload a file'];
+  const errors: string[] = [];
+  if (question.maxFiles !== undefined && answer.length > question.maxFiles) {
+    errors.push(`Upload no more than ${question.maxFiles} file${question.maxFiles === 1 ? '' : 's'}`);
+  }
+  const rules = question.validation || {};
+  if (rules.minValue !== undefined && answer.length < rules.minValue) {
+    errors.push(`Upload at least ${rules.minValue} file${rules.minValue === 1 ? '' : 's'}`);
+  }
+  return errors;
+};
+
+const validateByType = (question: TodoQuestion, answer: any, required: boolean): string[] => {
+  if (TEXT_TYPES.includes(question.type)) return validateText(question, answer);
+  if (NUMERIC_TYPES.includes(question.type)) return validateNumber(question, answer);
+  if (CHOICE_TYPES.includes(question.type)) return validateChoice(question, answer);
+
+  switch (question.type) {
+    case QuestionType.MATRIX:
+      return validateMatrix(question, answer, required);
+    case QuestionType.PHOTO_UPLOAD:
+    case QuestionType.FILE_UPLOAD:
+      return validateFiles(question, answer);
+    case QuestionType.YES_NO:
+      return typeof answer === 'boolean' ? [] : ['Answer yes or no'];
+    case QuestionType.DATE_TIME:
+      return isNaN(new Date(answer).getTime()) ? ['Enter a valid date and time'] : [];
+    case QuestionType.LOCATION:
+      return isNumber(answer?.latitude) && isNumber(answer?.longitude) &&
+        Math.abs(answer.latitude) <= 90 && Math.abs(answer.longitude) <= 180
+        ? []
+        : ['Capture a valid location'];
+    case QuestionType.SIGNATURE:
+      return typeof answer === 'string' ? [] : ['Add a signature'];
+    case QuestionType.SHELF_SHARE:
+      return validateShelfMeasurement(answer, getShelfShareConfig(question)?.planogram);
+    case QuestionType.INVENTORY_COUNT:
+      return validateInventoryCount(answer, getInventoryCountConfig(question));
+    case QuestionType.COMPETITOR_ANALYSIS:
+      return validateCompetitorPrices(answer, getCompetitorAnalysisConfig(question), getPricingVerificationConfig(question));
+    default:
+      return ['This question type cannot be answered yet'];
+  }
+};
+
+/**
+ * Validate one answer. Returns error messages (empty when valid).
+ * Unanswered optional questions are always valid.
+ */
+export const validateAnswer = (question: TodoQuestion, answer: any, required: boolean = question.required): string[] => {
+  if (!isAnswered(question, answer)) {
+    // A required matrix reports the rows that are missing
+    if (required && question.type === QuestionType.MATRIX && question.matrix) {
+      return validateMatrix(question, answer && typeof answer === 'object' ? answer : {}, true);
+    }
+    return required ? ['This question is required'] : [];
+  }
+  return validateByType(question, answer, required);
+};
+
+/**
+ * Validate a whole questionnaire under its current conditional logic.
+ * Hidden and skipped questions are never validated.
+ */
+export const validateQuestionnaireAnswers = (
+  questions: TodoQuestion[],
+  answers: QuestionAnswers
+): QuestionnaireValidation => {
+  const states = getQuestionStates(questions, answers);
+  const errors: Record<string, string[]> = {};
+
+  questions.forEach(question => {
+    const state = states[question.id];
+    if (!state.visible || state.skipped) return;
+    const questionErrors = validateAnswer(question, answers[question.id], state.required);
+    if (questionErrors.length) errors[question.id] = questionErrors;
+  });
+
+  return { isValid: Object.keys(errors).length === 0, errors, states };
+};
+
+// ===== RESPONSES =====
+
+/**
+ * Build TodoResponse records for the answers that count:
+ * hidden and skipped questions are left out. Shelf-share answers
+ * also store their computed share and compliance.
+ */
+export const buildTodoResponses = (
+  todoId: string,
+  userId: string,
+  questions: TodoQuestion[],
+  answers: QuestionAnswers,
+  now: Date = new Date()
+): TodoResponse[] => {
+  const states = getQuestionStates(questions, answers);
+  const timestamp = now.toISOString();
+
+  return sortQuestions(questions)
+    .filter(question => states[question.id].visible && !states[question.id].skipped)
+    .filter(question => isAnswered(question, answers[question.id]))
+    .map(question => ({
+      id: `${todoId}-${question.id}`,
+      todoId,
+      userId,
+      questionId: question.id,
+      answer: answers[question.id],
+      files: MULTI_VALUE_TYPES.includes(question.type) && !CHOICE_TYPES.includes(question.type)
+        ? answers[question.id]
+        : undefined,
+      shelfShare: question.type === QuestionType.SHELF_SHARE
+        ? calculateShelfShare(answers[question.id], getShelfShareConfig(question), now)
+        : undefined,
+      metadata: { timestamp },
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    }));
+};
+
+/**
+ * Restore an answer map from saved responses (e.g. a draft submission)
+ */
+export const answersFromResponses = (responses: TodoResponse[]): QuestionAnswers =>
+  responses.reduce<QuestionAnswers>((answers, response) => ({ ...answers, [response.questionId]: response.answer }), {});
+
+/**
+ * Initial answers from each question's defaultValue
+ */
+export const getDefaultAnswers = (questions: TodoQuestion[]): QuestionAnswers =>
+  questions.reduce<QuestionAnswers>((answers, question) => (
+    question.defaultValue !== undefined ? { ...answers, [question.id]: question.defaultValue } : answers
+  ), {});
+
+// ===== DESIGN-TIME CHECKS =====
+
+const canEverMatch = (rule: ConditionalLogic, source: TodoQuestion): boolean => {
+  const numericOperator = rule.operator === 'greater_than' || rule.operator === 'less_than';
+
+  if (CHOICE_TYPES.includes(source.type) && source.options?.length && !source.options.some(option => option.isOther)) {
+    if (numericOperator) {
+      return source.options.some(option => isNumber(option.value));
+    }
+    if (rule.operator === 'equals') {
+      return source.options.some(option => toComparable(option.value) === toComparable(rule.value));
+    }
+    if (rule.operator === 'contains') {
+      return source.options.some(option => toComparable(option.value).includes(toComparable(rule.value)));
+    }
+    return true;
+  }
+
+  if (source.type === QuestionType.YES_NO && rule.operator === 'equals') {
+    return ['true', 'false'].includes(toComparable(rule.value));
+  }
+
+  if (numericOperator) {
+    if (!NUMERIC_TYPES.includes(source.type) || !isNumber(rule.value)) return false;
+    const value = Number(rule.value);
+    const min = source.type === QuestionType.RATING_SCALE ? source.ratingScale?.min : source.validation?.minValue;
+    const max = source.type === QuestionType.RATING_SCALE ? source.ratingScale?.max : source.validation?.maxValue;
+    if (rule.operator === 'greater_than' && max !== undefined && value >= max) return false;
+    if (rule.operator === 'less_than' && min !== undefined && value <= min) return false;
+  }
+  return true;
+};
+
+/**
+ * Check a questionnaire template before it is saved:
+ * - question types merchandisers cannot answer yet
+ * - rules that reference missing questions or the question itself
+ * - circular references between questions
+ * - conditions that can never match the source question's answers
+ * - questions that can never become visible
+ * - rules on questions that come earlier than their source (warning)
+ */
+export const validateQuestionnaireDesign = (questions: TodoQuestion[]): QuestionnaireIssue[] => {
+  const issues: QuestionnaireIssue[] = [];
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const deadRules = new Set<ConditionalLogic>();
+
+  sortQuestions(questions).forEach(question => {
+    if (!ANSWERABLE_QUESTION_TYPES.includes(question.type)) {
+      issues.push({
+        questionId: question.id,
+        severity: 'error',
+        code: 'unsupported_type',
+        message: `"${question.title}" uses the ${question.type.replace(/_/g, ' ')} type, which cannot be answered yet`,
+      });
+    }
+  });
+
+  questions.forEach(question => {
+    (question.conditionalLogic || []).forEach(rule => {
+      const source = byId.get(rule.questionId);
+      if (!source) {
+        deadRules.add(rule);
+        issues.push({
+          questionId: question.id,
+          severity: 'error',
+          code: 'missing_reference',
+          message: `"${question.title}" depends on a question that does not exist (${rule.questionId})`,
+        });
+        return;
+      }
+      if (source.id === question.id) {
+        deadRules.add(rule);
+        issues.push({
+          questionId: question.id,
+          severity: 'error',
+          code: 'self_reference',
+          message: `"${question.title}" has a rule that depends on its own answer`,
+        });
+        return;
+      }
+      if (!canEverMatch(rule, source)) {
+        deadRules.add(rule);
+        issues.push({
+          questionId: question.id,
+          severity: 'warning',
+          code: 'impossible_condition',
+          message: `"${question.title}" ${rule.action} rule can never match: "${source.title}" ${rule.operator.replace('_', ' ')} ${rule.value}`,
+        });
+      }
+      if (source.order > question.order) {
+        issues.push({
+          questionId: question.id,
+          severity: 'warning',
+          code: 'forward_reference',
+          message: `"${question.title}" depends on "${source.title}", which comes later in the form`,
+        });
+      }
+    });
+  });
+
+  // Circular references: depth-first search over question -> source edges
+  const visiting: string[] = [];
+  const done = new Set<string>();
+  const inCycle = new Set<string>();
+  const reported = new Set<string>();
+  const visit = (id: string) => {
+    if (done.has(id)) return;
+    const loopStart = visiting.indexOf(id);
+    if (loopStart !== -1) {
+      const cycle = visiting.slice(loopStart);
+      cycle.forEach(member => inCycle.add(member));
+      const key = [...cycle].sort().join('|');
+      if (!reported.has(key)) {
+        reported.add(key);
+        const names = cycle.concat(id).map(member => `"${byId.get(member)!.title}"`).join(' → ');
+        issues.push({
+          questionId: id,
+          severity: 'error',
+          code: 'circular_reference',
+          message: `Circular reference: ${names}`,
+        });
+      }
+      return;
+    }
+    visiting.push(id);
+    (byId.get(id)!.conditionalLogic || []).forEach(rule => {
+      if (byId.has(rule.questionId) && rule.questionId !== id) visit(rule.questionId);
+    });
+    visiting.pop();
+    done.add(id);
+  };
+  sortQuestions(questions).forEach(question => visit(question.id));
+
+  // Unreachable: questions with show rules none of which can ever fire
+  const unreachable = new Set<string>();
+  let previousSize = -1;
+  while (unreachable.size !== previousSize) {
+    previousSize = unreachable.size;
+    questions.forEach(question => {
+      if (unreachable.has(question.id)) return;
+      const showRules = (question.conditionalLogic || []).filter(rule => rule.action === 'show');
+      if (!showRules.length) return;
+      const canShow = showRules.some(rule =>
+        !deadRules.has(rule) && !unreachable.has(rule.questionId) && !(inCycle.has(question.id) && inCycle.has(rule.questionId))
+      );
+      if (!canShow) unreachable.add(question.id);
+    });
+  }
+  sortQuestions(questions).forEach(question => {
+    if (unreachable.has(question.id)) {
+      issues.push({
+        questionId: question.id,
+        severity: 'error',
+        code: 'unreachable',
+        message: `"${question.title}" can never be shown`,
+      });
+    }
+  });
+
+  return issues;
+};
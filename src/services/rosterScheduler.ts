@@ -0,0 +1,362 @@
+/**
+ * Roster Auto-Scheduler
+ *
+ * Fills a week's roster from shift templates and coverage requirements:
+ * - Headcount per ShiftTemplate and Workplace on chosen weekdays
+ * - EmployeeSchedule availability (days off and available hours)
+ * - Approved LeaveRequests
+ * - Maximum weekly hours, overlaps and minimum rest between shifts
+ *
+ * Existing shifts are kept as they are and count towards coverage. Slots
+ * with the fewest possible candidates are staffed first, and each
+ * position goes to the eligible employee with the fewest hours so far.
+ * Every slot that stays short is explained by listing which rule ruled
+ * out each employee, and existing shifts are checked against the same
+ * rules.
+ *
+ * Dates are YYYY-MM-DD and times HH:MM; a shift ending at or before its
+ * start time runs past midnight.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  CoverageRequirement,
+  EmployeeSchedule,
+  LeaveRequest,
+  RosterEmployee,
+  RosterResult,
+  RosterRule,
+  RosterUnfilledSlot,
+  RosterViolation,
+  Shift,
+  ShiftTemplate,
+  Workplace
+} from '../types';
+
+export interface RosterInput {
+  weekStart: string;                              // First day of the week
+  templates: ShiftTemplate[];
+  coverage: CoverageRequirement[];
+  employees: RosterEmployee[];
+  workplaces?: Pick<Workplace, 'id' | 'name'>[];  // Used for names in explanations
+  shifts?: Shift[];                               // Shifts already on the roster
+  availability?: EmployeeSchedule[];
+  leaveRequests?: LeaveRequest[];
+  minRestHours?: number;                          // Default 11
+}
+
+interface TimedShift {
+  id: string;
+  userId: string;
+  date: string;
+  start: number;
+  end: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_MIN_REST_HOURS = 11;
+
+/** Order in which rules are checked; the first broken rule is reported */
+const RULE_ORDER: RosterRule[] = [
+  'not_eligible', 'on_leave', 'day_off', 'outside_availability', 'overlap', 'rest_period', 'max_hours'
+];
+
+const RULE_LABELS: Record<RosterRule, string> = {
+  not_eligible: 'not assigned to this workplace',
+  on_leave: 'on approved leave',
+  day_off: 'on a day off',
+  outside_availability: 'not available for these hours',
+  overlap: 'already on an overlapping shift',
+  rest_period: 'without enough rest between shifts',
+  max_hours: 'at their maximum weekly hours',
+};
+
+// ===== TIME HELPERS =====
+
+const toTimestamp = (date: string, time: string) => Date.parse(`${date}T${time}:00Z`);
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * The seven dates of the week starting at weekStart
+ */
+export const getWeekDates = (weekStart: string): string[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+/**
+ * Start and end of a shift in milliseconds; overnight shifts end the next day
+ */
+export const getShiftInterval = (shift: Pick<Shift, 'date' | 'startTime' | 'endTime'>) => {
+  const start = toTimestamp(shift.date, shift.startTime);
+  let end = toTimestamp(shift.date, shift.endTime);
+  if (end <= start) end += DAY_MS;
+  return { start, end };
+};
+
+/**
+ * Length of a shift in hours
+ */
+export const getShiftHours = (shift: Pick<Shift, 'date' | 'startTime' | 'endTime'>): number => {
+  const { start, end } = getShiftInterval(shift);
+  return (end - start) / HOUR_MS;
+};
+
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// ===== RULE CHECKS =====
+
+interface RuleContext {
+  availability: EmployeeSchedule[];
+  leaveRequests: LeaveRequest[];
+  minRestMs: number;
+}
+
+const isOnLeave = (userId: string, date: string, leaveRequests: LeaveRequest[]) =>
+  leaveRequests.some(leave =>
+    leave.userId === userId &&
+    leave.status === 'approved' &&
+    leave.startDate.slice(0, 10) <= date &&
+    leave.endDate.slice(0, 10) >= date
+  );
+
+/**
+ * Rules that depend only on the employee and the date, not on other shifts
+ */
+const checkStaticRules = (
+  employee: RosterEmployee,
+  shift: Pick<Shift, 'date' | 'startTime' | 'endTime' | 'workplaceId'>,
+  context: RuleContext
+): RosterRule | null => {
+  if (shift.workplaceId && !employee.workplaceIds.includes(shift.workplaceId)) return 'not_eligible';
+  if (isOnLeave(employee.userId, shift.date, context.leaveRequests)) return 'on_leave';
+
+  // Without an EmployeeSchedule entry the employee is available all day
+  const schedule = context.availability.find(entry => entry.userId === employee.userId && entry.date === shift.date);
+  if (schedule && !schedule.isWorkDay) return 'day_off';
+  if (schedule) {
+    const available = getShiftInterval(schedule);
+    const interval = getShiftInterval(shift);
+    if (interval.start < available.start || interval.end > available.end) return 'outside_availability';
+  }
+  return null;
+};
+
+/**
+ * Rules that depend on the employee's other shifts
+ */
+const checkShiftRules = (
+  interval: { start: number; end: number },
+  otherShifts: TimedShift[],
+  context: RuleContext
+): RosterRule | null => {
+  if (otherShifts.some(other => other.start < interval.end && interval.start < other.end)) return 'overlap';
+  const tooClose = otherShifts.some(other =>
+    Math.max(other.start - interval.end, interval.start - other.end) < context.minRestMs
+  );
+  return tooClose ? 'rest_period' : null;
+};
+
+// ===== EXPLANATIONS =====
+
+const describeBlockers = (blockers: Partial<Record<RosterRule, string[]>>): string => {
+  const parts = RULE_ORDER
+    .filter(rule => blockers[rule]?.length)
+    .map(rule => `${blockers[rule]!.length} ${RULE_LABELS[rule]}`);
+  return parts.length ? parts.join(', ') : 'no employees to roster';
+};
+
+const workplaceName = (workplaceId: string, workplaces: Pick<Workplace, 'id' | 'name'>[]) =>
+  workplaces.find(workplace => workplace.id === workplaceId)?.name || workplaceId;
+
+// ===== VIOLATIONS =====
+
+/**
+ * Check shifts in the week against the roster rules. Overlaps and short
+ * rests are reported on the later shift; max hours on the shift that
+ * first goes over the limit.
+ */
+export const findRosterViolations = (input: RosterInput): RosterViolation[] => {
+  const weekDates = getWeekDates(input.weekStart);
+  const context: RuleContext = {
+    availability: input.availability || [],
+    leaveRequests: input.leaveRequests || [],
+    minRestMs: (input.minRestHours ?? DEFAULT_MIN_REST_HOURS) * HOUR_MS,
+  };
+  const employees = new Map(input.employees.map(employee => [employee.userId, employee] as [string, RosterEmployee]));
+
+  const shifts = (input.shifts || [])
+    .filter(shift => shift.status !== 'cancelled' && weekDates.includes(shift.date))
+    .map(shift => ({ shift, ...getShiftInterval(shift) }))
+    .sort((a, b) => a.start - b.start || a.shift.id.localeCompare(b.shift.id));
+
+  const violations: RosterViolation[] = [];
+  const hours = new Map<string, number>();
+  const earlier = new Map<string, TimedShift[]>();
+
+  shifts.forEach(({ shift, start, end }) => {
+    const employee = employees.get(shift.userId);
+    if (!employee) return;
+
+    const report = (rule: RosterRule, detail: string) => violations.push({
+      shiftId: shift.id,
+      userId: shift.userId,
+      date: shift.date,
+      rule,
+      message: `${employee.name} ${shift.date} ${shift.startTime}-${shift.endTime}: ${detail}`,
+    });
+
+    const staticRule = checkStaticRules(employee, shift, context);
+    if (staticRule) report(staticRule, RULE_LABELS[staticRule]);
+
+    const previous = earlier.get(shift.userId) || [];
+    const shiftRule = checkShiftRules({ start, end }, previous, context);
+    if (shiftRule) report(shiftRule, RULE_LABELS[shiftRule]);
+
+    const before = hours.get(shift.userId) || 0;
+    const after = before + (end - start) / HOUR_MS;
+    if (before <= employee.maxWeeklyHours && after > employee.maxWeeklyHours) {
+      report('max_hours', `${after}h rostered, maximum is ${employee.maxWeeklyHours}h`);
+    }
+
+    hours.set(shift.userId, after);
+    earlier.set(shift.userId, [...previous, { id: shift.id, userId: shift.userId, date: shift.date, start, end }]);
+  });
+
+  return violations;
+};
+
+// ===== AUTO-FILL =====
+
+/**
+ * Generate shifts for a week's uncovered slots and explain the ones that
+ * can't be filled. Existing shifts are never moved or removed.
+ */
+export const generateRoster = (input: RosterInput): RosterResult => {
+  const weekDates = getWeekDates(input.weekStart);
+  const workplaces = input.workplaces || [];
+  const context: RuleContext = {
+    availability: input.availability || [],
+    leaveRequests: input.leaveRequests || [],
+    minRestMs: (input.minRestHours ?? DEFAULT_MIN_REST_HOURS) * HOUR_MS,
+  };
+  const existing = (input.shifts || []).filter(shift => shift.status !== 'cancelled' && weekDates.includes(shift.date));
+  const templates = new Map(input.templates.map(template => [template.id, template] as [string, ShiftTemplate]));
+
+  // Running state: shifts and hours per employee
+  const byUser = new Map<string, TimedShift[]>();
+  const hours = new Map<string, number>();
+  const addTimed = (shift: Shift) => {
+    const interval = getShiftInterval(shift);
+    byUser.set(shift.userId, [...(byUser.get(shift.userId) || []), { id: shift.id, userId: shift.userId, date: shift.date, ...interval }]);
+    hours.set(shift.userId, (hours.get(shift.userId) || 0) + getShiftHours(shift));
+  };
+  existing.forEach(addTimed);
+
+  // One slot per requirement, date and template
+  const slots = input.coverage.flatMap(requirement => {
+    const template = templates.get(requirement.templateId);
+    if (!template) return [];
+    return weekDates
+      .filter(date => requirement.daysOfWeek.includes(dayOfWeek(date)))
+      .map(date => {
+        const shape = { date, startTime: template.startTime, endTime: template.endTime, workplaceId: requirement.workplaceId };
+        const assigned = existing
+          .filter(shift =>
+            shift.workplaceId === requirement.workplaceId &&
+            shift.date === date &&
+            (shift.templateId === template.id ||
+              (shift.startTime === template.startTime && shift.endTime === template.endTime))
+          )
+          .map(shift => shift.userId);
+        const possible = input.employees.filter(employee => !checkStaticRules(employee, shape, context)).length;
+        return { requirement, template, shape, assigned, possible };
+      });
+  });
+
+  // Most constrained slots first, then chronologically
+  slots.sort((a, b) =>
+    (a.possible - (a.requirement.headcount - a.assigned.length)) -
+      (b.possible - (b.requirement.headcount - b.assigned.length)) ||
+    getShiftInterval(a.shape).start - getShiftInterval(b.shape).start ||
+    a.requirement.workplaceId.localeCompare(b.requirement.workplaceId)
+  );
+
+  const generated: Shift[] = [];
+  const unfilled: RosterUnfilledSlot[] = [];
+
+  slots.forEach(({ requirement, template, shape, assigned }) => {
+    const interval = getShiftInterval(shape);
+    const shiftHours = getShiftHours(shape);
+
+    const ruleFor = (employee: RosterEmployee): RosterRule | null =>
+      checkStaticRules(employee, shape, context) ||
+      checkShiftRules(interval, byUser.get(employee.userId) || [], context) ||
+      ((hours.get(employee.userId) || 0) + shiftHours > employee.maxWeeklyHours ? 'max_hours' : null);
+
+    while (assigned.length < requirement.headcount) {
+      const candidate = input.employees
+        .filter(employee => !assigned.includes(employee.userId) && !ruleFor(employee))
+        .sort((a, b) => (hours.get(a.userId) || 0) - (hours.get(b.userId) || 0) || a.userId.localeCompare(b.userId))[0];
+      if (!candidate) break;
+
+      const shift: Shift = {
+        id: `auto-${requirement.workplaceId}-${template.id}-${shape.date}-${assigned.length + 1}`,
+        userId: candidate.userId,
+        date: shape.date,
+        startTime: template.startTime,
+        endTime: template.endTime,
+        type: template.type,
+        status: 'scheduled',
+        notes: 'Auto-filled',
+        workplaceId: requirement.workplaceId,
+        templateId: template.id,
+      };
+      generated.push(shift);
+      addTimed(shift);
+      assigned.push(candidate.userId);
+    }
+
+    if (assigned.length >= requirement.headcount) return;
+
+    const blockers: Partial<Record<RosterRule, string[]>> = {};
+    input.employees
+      .filter(employee => !assigned.includes(employee.userId))
+      .forEach(employee => {
+        const rule = ruleFor(employee);
+        if (rule) blockers[rule] = [...(blockers[rule] || []), employee.userId];
+      });
+
+    const missing = requirement.headcount - assigned.length;
+    unfilled.push({
+      workplaceId: requirement.workplaceId,
+      templateId: template.id,
+      date: shape.date,
+      required: requirement.headcount,
+      filled: assigned.length,
+      blockers,
+      message: `${template.name} at ${workplaceName(requirement.workplaceId, workplaces)} on ${shape.date}: ` +
+        `${missing} of ${requirement.headcount} unfilled - ${describeBlockers(blockers)}`,
+    });
+  });
+
+  unfilled.sort((a, b) =>
+    a.date.localeCompare(b.date) ||
+    templates.get(a.templateId)!.startTime.localeCompare(templates.get(b.templateId)!.startTime) ||
+    a.workplaceId.localeCompare(b.workplaceId)
+  );
+
+  return {
+    weekStart: input.weekStart,
+    shifts: generated.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)),
+    unfilled,
+    violations: findRosterViolations(input),
+    hoursByEmployee: Object.fromEntries(hours.entries()),
+  };
+};
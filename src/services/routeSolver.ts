@@ -0,0 +1,486 @@
+/**
+ * Route Solver Service
+ *
+ * In-browser multi-vehicle routing for merchandiser journeys. Stops are placed
+ * with a cheapest-insertion heuristic that respects visit time windows and
+ * shift lengths, then routes are improved with 2-opt and cross-route
+ * relocation so that travel is short and workloads stay balanced.
+ *
+ * Distances are great-circle distances multiplied by a road factor, so the
+ * solver works offline and gives the same answer for the same input.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  JourneyLocation,
+  JourneyPlan,
+  PlannedRouteStop,
+  RouteSolution,
+  RouteSolverOptions,
+  RouteStop,
+  RouteVehicle,
+  VehicleRoute,
+  Workplace
+} from '../types';
+
+type LatLng = { lat: number; lng: number };
+
+const DEFAULT_OPTIONS: Required<RouteSolverOptions> = {
+  averageSpeedKmh: 40,
+  roadFactor: 1.3,
+  balanceWeight: 0.5,
+  maxIterations: 50,
+};
+
+const EARTH_RADIUS_KM = 6371;
+const END_OF_DAY = 24 * 60;
+const OPEN_ENDED_SHIFT = '99:59';
+const EPSILON = 1e-6;
+
+const PRIORITY_RANK: Record<NonNullable<RouteStop['priority']>, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// ===== TIME AND DISTANCE HELPERS =====
+
+/**
+ * Great-circle distance between two coordinates in kilometers
+ */
+export const calculateDistanceKm = (from: LatLng, to: LatLng): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Convert an HH:MM string to minutes after midnight
+ */
+export const parseTimeOfDay = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Convert minutes after midnight to an HH:MM string
+ */
+export const formatTimeOfDay = (minutes: number): string => {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60) % 24;
+  const mins = total % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+};
+
+const roundTo = (value: number, digits: number): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const travelBetween = (from: LatLng, to: LatLng, options: Required<RouteSolverOptions>) => {
+  const distance = calculateDistanceKm(from, to) * options.roadFactor;
+  return { distance, minutes: (distance / options.averageSpeedKmh) * 60 };
+};
+
+// ===== ROUTE SIMULATION =====
+
+/**
+ * Drive a vehicle through the given stops in order.
+ * Returns null when a visit misses its time window or the day overruns the shift.
+ */
+const simulateRoute = (
+  vehicle: RouteVehicle,
+  stops: RouteStop[],
+  options: Required<RouteSolverOptions>
+): VehicleRoute | null => {
+  const shiftStart = parseTimeOfDay(vehicle.shiftStart);
+  const shiftEnd = parseTimeOfDay(vehicle.shiftEnd);
+  const endLocation = vehicle.endLocation || vehicle.startLocation;
+
+  let position: LatLng | undefined = vehicle.startLocation;
+  let clock = shiftStart;
+  let departure = shiftStart;
+  let totalDistance = 0;
+  let travelMinutes = 0;
+  let serviceMinutes = 0;
+  let waitMinutes = 0;
+  const planned: PlannedRouteStop[] = [];
+
+  for (let i = 0; i < stops.length; i++) {
+    const stop = stops[i];
+    const leg = position ? travelBetween(position, stop.location, options) : { distance: 0, minutes: 0 };
+
+    // Leave later rather than wait at the first stop
+    if (i === 0 && stop.timeWindow) {
+      departure = Math.max(shiftStart, parseTimeOfDay(stop.timeWindow.start) - leg.minutes);
+      clock = departure;
+    }
+
+    const arrival = clock + leg.minutes;
+    let start = arrival;
+    if (stop.timeWindow) {
+      start = Math.max(arrival, parseTimeOfDay(stop.timeWindow.start));
+      if (start + stop.visitDuration > parseTimeOfDay(stop.timeWindow.end) + EPSILON) {
+        return null;
+      }
+    }
+    const finish = start + stop.visitDuration;
+    if (finish > shiftEnd + EPSILON) {
+      return null;
+    }
+
+    planned.push({
+      stopId: stop.id,
+      order: i + 1,
+      arrivalTime: formatTimeOfDay(arrival),
+      startTime: formatTimeOfDay(start),
+      departureTime: formatTimeOfDay(finish),
+      waitMinutes: Math.round(start - arrival),
+      travelDistance: roundTo(leg.distance, 1),
+      travelMinutes: Math.round(leg.minutes),
+    });
+
+    totalDistance += leg.distance;
+    travelMinutes += leg.minutes;
+    serviceMinutes += stop.visitDuration;
+    waitMinutes += start - arrival;
+    clock = finish;
+    position = stop.location;
+  }
+
+  if (position && endLocation) {
+    const leg = travelBetween(position, endLocation, options);
+    totalDistance += leg.distance;
+    travelMinutes += leg.minutes;
+    clock += leg.minutes;
+    if (clock > shiftEnd + EPSILON) {
+      return null;
+    }
+  }
+
+  return {
+    vehicleId: vehicle.id,
+    stops: planned,
+    totalDistance,
+    travelMinutes,
+    serviceMinutes,
+    waitMinutes,
+    totalDuration: clock - departure,
+    startTime: formatTimeOfDay(departure),
+    endTime: formatTimeOfDay(clock),
+  };
+};
+
+/** Minutes that are not spent on site; the quantity insertion and 2-opt try to shrink */
+const overheadOf = (route: VehicleRoute) => route.travelMinutes + route.waitMinutes;
+
+const objectiveOf = (routes: VehicleRoute[], options: Required<RouteSolverOptions>) => {
+  const durations = routes.map(route => route.totalDuration);
+  const spread = durations.length ? Math.max(...durations) - Math.min(...durations) : 0;
+  return routes.reduce((sum, route) => sum + overheadOf(route), 0) + options.balanceWeight * spread;
+};
+
+const compareStops = (a: RouteStop, b: RouteStop) => {
+  const rankA = PRIORITY_RANK[a.priority || 'medium'];
+  const rankB = PRIORITY_RANK[b.priority || 'medium'];
+  if (rankA !== rankB) return rankA - rankB;
+  // Tight windows are the hardest to fit, so place them while routes are still empty
+  const closeA = a.timeWindow ? parseTimeOfDay(a.timeWindow.end) : END_OF_DAY;
+  const closeB = b.timeWindow ? parseTimeOfDay(b.timeWindow.end) : END_OF_DAY;
+  if (closeA !== closeB) return closeA - closeB;
+  if (a.visitDuration !== b.visitDuration) return b.visitDuration - a.visitDuration;
+  return a.id.localeCompare(b.id);
+};
+
+const explainUnassigned = (stop: RouteStop, vehicles: RouteVehicle[]): string => {
+  if (!vehicles.length) {
+    return 'No merchandisers available';
+  }
+  if (stop.timeWindow) {
+    const windowLength = parseTimeOfDay(stop.timeWindow.end) - parseTimeOfDay(stop.timeWindow.start);
+    if (stop.visitDuration > windowLength) {
+      return `Visit of ${stop.visitDuration} min does not fit the ${stop.timeWindow.start}-${stop.timeWindow.end} window`;
+    }
+  }
+  const longestShift = Math.max(
+    ...vehicles.map(v => parseTimeOfDay(v.shiftEnd) - parseTimeOfDay(v.shiftStart))
+  );
+  if (stop.visitDuration > longestShift) {
+    return `Visit of ${stop.visitDuration} min is longer than any shift`;
+  }
+  return 'No merchandiser has enough shift time left to reach this stop';
+};
+
+// ===== IMPROVEMENT MOVES =====
+
+/**
+ * Reverse segments of a single route while that shortens it (2-opt)
+ */
+const improveWithTwoOpt = (
+  vehicle: RouteVehicle,
+  stops: RouteStop[],
+  current: VehicleRoute,
+  options: Required<RouteSolverOptions>
+): { stops: RouteStop[]; route: VehicleRoute } | null => {
+  for (let i = 0; i < stops.length - 1; i++) {
+    for (let j = i + 1; j < stops.length; j++) {
+      const candidate = [
+        ...stops.slice(0, i),
+        ...stops.slice(i, j + 1).reverse(),
+        ...stops.slice(j + 1),
+      ];
+      const route = simulateRoute(vehicle, candidate, options);
+      if (route && overheadOf(route) < overheadOf(current) - EPSILON) {
+        return { stops: candidate, route };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Move one stop to another vehicle when that lowers the overall objective
+ */
+const improveWithRelocate = (
+  vehicles: RouteVehicle[],
+  assignment: RouteStop[][],
+  routes: VehicleRoute[],
+  options: Required<RouteSolverOptions>
+): boolean => {
+  const baseline = objectiveOf(routes, options);
+
+  for (let from = 0; from < vehicles.length; from++) {
+    for (let index = 0; index < assignment[from].length; index++) {
+      const moving = assignment[from][index];
+      const remaining = assignment[from].filter((_, i) => i !== index);
+      const fromRoute = simulateRoute(vehicles[from], remaining, options);
+      if (!fromRoute) continue;
+
+      for (let to = 0; to < vehicles.length; to++) {
+        if (to === from) continue;
+        for (let position = 0; position <= assignment[to].length; position++) {
+          const receiving = [
+            ...assignment[to].slice(0, position),
+            moving,
+            ...assignment[to].slice(position),
+          ];
+          const toRoute = simulateRoute(vehicles[to], receiving, options);
+          if (!toRoute) continue;
+
+          const candidateRoutes = routes.map((route, i) =>
+            i === from ? fromRoute : i === to ? toRoute : route
+          );
+          if (objectiveOf(candidateRoutes, options) < baseline - EPSILON) {
+            assignment[from] = remaining;
+            assignment[to] = receiving;
+            routes[from] = fromRoute;
+            routes[to] = toRoute;
+            return true;
+          }
+        }
+      }
+    }
+  }
+  return false;
+};
+
+// ===== SOLVER =====
+
+/**
+ * Distribute stops across vehicles and order each route.
+ *
+ * Every stop ends up either on exactly one route or in `unassigned` with a
+ * reason. The result is deterministic for a given input.
+ */
+export const solveRoutes = (
+  stops: RouteStop[],
+  vehicles: RouteVehicle[],
+  solverOptions: RouteSolverOptions = {}
+): RouteSolution => {
+  const options: Required<RouteSolverOptions> = { ...DEFAULT_OPTIONS, ...solverOptions };
+  const assignment: RouteStop[][] = vehicles.map(() => []);
+  const routes: VehicleRoute[] = [];
+  const unassigned: RouteSolution['unassigned'] = [];
+
+  for (const vehicle of vehicles) {
+    const empty = simulateRoute(vehicle, [], options);
+    if (!empty) {
+      throw new Error(`Vehicle ${vehicle.id} cannot return to its end location within its shift`);
+    }
+    routes.push(empty);
+  }
+
+  // Construction: cheapest feasible insertion, biased towards lighter routes
+  for (const stop of [...stops].sort(compareStops)) {
+    let best: { vehicle: number; stops: RouteStop[]; route: VehicleRoute; cost: number } | null = null;
+
+    for (let v = 0; v < vehicles.length; v++) {
+      for (let position = 0; position <= assignment[v].length; position++) {
+        const candidate = [
+          ...assignment[v].slice(0, position),
+          stop,
+          ...assignment[v].slice(position),
+        ];
+        const route = simulateRoute(vehicles[v], candidate, options);
+        if (!route) continue;
+
+        const cost = overheadOf(route) - overheadOf(routes[v]) + options.balanceWeight * route.totalDuration;
+        if (!best || cost < best.cost - EPSILON) {
+          best = { vehicle: v, stops: candidate, route, cost };
+        }
+      }
+    }
+
+    if (best) {
+      assignment[best.vehicle] = best.stops;
+      routes[best.vehicle] = best.route;
+    } else {
+      unassigned.push({ stopId: stop.id, reason: explainUnassigned(stop, vehicles) });
+    }
+  }
+
+  // Improvement: local search until nothing helps or the pass budget runs out
+  for (let iteration = 0; iteration < options.maxIterations; iteration++) {
+    let improved = false;
+
+    for (let v = 0; v < vehicles.length; v++) {
+      let step = improveWithTwoOpt(vehicles[v], assignment[v], routes[v], options);
+      while (step) {
+        assignment[v] = step.stops;
+        routes[v] = step.route;
+        improved = true;
+        step = improveWithTwoOpt(vehicles[v], assignment[v], routes[v], options);
+      }
+    }
+
+    if (improveWithRelocate(vehicles, assignment, routes, options)) {
+      improved = true;
+    }
+
+    if (!improved) break;
+  }
+
+  const finalRoutes = routes.map(route => ({
+    ...route,
+    totalDistance: roundTo(route.totalDistance, 1),
+    travelMinutes: Math.round(route.travelMinutes),
+    waitMinutes: Math.round(route.waitMinutes),
+    totalDuration: Math.round(route.totalDuration),
+  }));
+  const durations = finalRoutes.map(route => route.totalDuration);
+
+  return {
+    routes: finalRoutes,
+    unassigned,
+    totalDistance: roundTo(finalRoutes.reduce((sum, route) => sum + route.totalDistance, 0), 1),
+    totalDuration: finalRoutes.reduce((sum, route) => sum + route.totalDuration, 0),
+    workloadSpread: durations.length ? Math.max(...durations) - Math.min(...durations) : 0,
+  };
+};
+
+/**
+ * Measure a fixed stop order without reordering it or enforcing windows and shift end
+ */
+export const measureRoute = (
+  stops: RouteStop[],
+  startTime: string,
+  solverOptions: RouteSolverOptions = {}
+): VehicleRoute => {
+  const options: Required<RouteSolverOptions> = { ...DEFAULT_OPTIONS, ...solverOptions };
+  const relaxed = stops.map(({ timeWindow, ...stop }) => stop);
+  // An open-ended shift cannot be overrun, so the simulation always succeeds
+  const route = simulateRoute(
+    { id: 'measure', name: 'measure', shiftStart: startTime, shiftEnd: OPEN_ENDED_SHIFT },
+    relaxed,
+    options
+  )!;
+  return {
+    ...route,
+    totalDistance: roundTo(route.totalDistance, 1),
+    travelMinutes: Math.round(route.travelMinutes),
+    waitMinutes: Math.round(route.waitMinutes),
+    totalDuration: Math.round(route.totalDuration),
+  };
+};
+
+// ===== DOMAIN ADAPTERS =====
+
+/**
+ * Read a priority label such as "High" as a solver priority; unknown labels
+ * are left unset so the stop is ranked as medium
+ */
+export const parseStopPriority = (value?: string): RouteStop['priority'] => {
+  const key = (value || '').trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(PRIORITY_RANK, key) ? (key as RouteStop['priority']) : undefined;
+};
+
+/**
+ * Build a solver stop from a registered workplace
+ */
+export const workplaceToRouteStop = (
+  workplace: Workplace,
+  visitDuration: number,
+  timeWindow?: RouteStop['timeWindow'],
+  priority?: RouteStop['priority']
+): RouteStop => ({
+  id: workplace.id,
+  name: workplace.name,
+  location: { lat: workplace.location.lat, lng: workplace.location.lng },
+  visitDuration,
+  timeWindow,
+  priority,
+});
+
+/**
+ * Build a solver stop from a journey plan location
+ */
+export const journeyLocationToRouteStop = (location: JourneyLocation): RouteStop => ({
+  id: location.id,
+  name: location.name,
+  location: { lat: location.latitude, lng: location.longitude },
+  visitDuration: location.estimatedDuration,
+  priority: location.priority,
+});
+
+/**
+ * Recompute a journey plan's totalDistance and estimatedDuration for its current order
+ */
+export const measureJourneyPlan = (plan: JourneyPlan, solverOptions: RouteSolverOptions = {}): JourneyPlan => {
+  const route = measureRoute(plan.locations.map(journeyLocationToRouteStop), plan.startTime, solverOptions);
+  return {
+    ...plan,
+    totalDistance: route.totalDistance,
+    estimatedDuration: route.totalDuration,
+  };
+};
+
+/**
+ * Reorder a journey plan's locations to fit between its start and end time.
+ * Locations that do not fit stay on the plan, after the solved ones, and are
+ * reported in the returned solution.
+ */
+export const optimizeJourneyPlan = (
+  plan: JourneyPlan,
+  solverOptions: RouteSolverOptions = {}
+): { plan: JourneyPlan; solution: RouteSolution } => {
+  const solution = solveRoutes(
+    plan.locations.map(journeyLocationToRouteStop),
+    [{ id: plan.employeeId, name: plan.employeeId, shiftStart: plan.startTime, shiftEnd: plan.endTime }],
+    solverOptions
+  );
+  const byId = new Map(plan.locations.map(location => [location.id, location]));
+  const ordered = solution.routes[0].stops.map(stop => byId.get(stop.stopId)!);
+  const leftOver = solution.unassigned.map(entry => byId.get(entry.stopId)!);
+
+  return {
+    plan: measureJourneyPlan({ ...plan, locations: [...ordered, ...leftOver] }, solverOptions),
+    solution,
+  };
+};
@@ -0,0 +1,277 @@
+/**
+ * Sales Target Tracking
+ *
+ * Measures workplace sales targets against imported sell-out data:
+ * - Column mapping for CSV/XLSX sell-out files
+ * - Row validation with errors per row, as BatchImportError
+ * - Achievement %, daily run-rate and projection to period end
+ * - Leaderboards by area, distributor and merchandiser
+ *
+ * Sell-out rows are keyed by date, workplace code and SKU, so importing
+ * a corrected file replaces the earlier figures instead of adding them
+ * twice.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  SalesLeaderboardEntry,
+  SalesTarget,
+  SalesTargetProgress,
+  SellOutColumn,
+  SellOutColumnMapping,
+  SellOutImport,
+  SellOutRecord
+} from '../types';
+import {
+  ColumnDefinition,
+  guessColumnMapping,
+  MappedRowsResult,
+  parseCellDate,
+  parseCellNumber,
+  readMappedRows,
+  validateColumnMapping
+} from './columnImport';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for unusable column mappings and empty files
+ */
+export class SalesTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SalesTargetError';
+  }
+}
+
+export type SellOutColumnDefinition = ColumnDefinition<SellOutColumn>;
+
+export const SELL_OUT_COLUMNS: SellOutColumnDefinition[] = [
+  { column: 'date', label: 'Date', required: true, aliases: ['date', 'day', 'sales date', 'datum'] },
+  { column: 'workplaceCode', label: 'Workplace code', required: true, aliases: ['workplace code', 'workplace', 'store code', 'store', 'outlet code', 'outlet', 'filiale'] },
+  { column: 'sku', label: 'SKU', required: true, aliases: ['sku', 'article', 'article number', 'product code', 'product', 'ean', 'artikel'] },
+  { column: 'quantity', label: 'Quantity', required: false, aliases: ['quantity', 'qty', 'units', 'pieces', 'menge'] },
+  { column: 'amount', label: 'Amount', required: true, aliases: ['amount', 'sales', 'revenue', 'value', 'net sales', 'umsatz'] },
+];
+
+export type LeaderboardDimension = 'area' | 'distributor' | 'merchandiser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== DATE AND NUMBER HELPERS =====
+
+const parseDay = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+const formatDay = (time: number) => new Date(time).toISOString().split('T')[0];
+
+const daysInclusive = (from: string, to: string) => Math.round((parseDay(to) - parseDay(from)) / DAY_MS) + 1;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ===== IMPORT =====
+
+/**
+ * Map headers to sell-out columns by their usual names
+ */
+export const guessSellOutMapping = (headers: string[]): SellOutColumnMapping => guessColumnMapping(SELL_OUT_COLUMNS, headers);
+
+/**
+ * Problems with a column mapping; empty when the file can be imported
+ */
+export const validateSellOutMapping = (mapping: SellOutColumnMapping, headers: string[]): string[] =>
+  validateColumnMapping(SELL_OUT_COLUMNS, mapping, headers);
+
+const rowKey = (record: Pick<SellOutRecord, 'date' | 'workplaceCode' | 'sku'>) =>
+  `${record.date}|${record.workplaceCode}|${record.sku}`;
+
+export type SellOutParseResult = MappedRowsResult<SellOutRecord>;
+
+/**
+ * Validate spreadsheet rows (header first) into sell-out records.
+ * Row numbers in errors match the spreadsheet, so the header is row 1.
+ */
+export const parseSellOutRows = (
+  rows: string[][],
+  mapping: SellOutColumnMapping,
+  options: { workplaceCodes: string[]; importId?: string; today?: string }
+): SellOutParseResult => {
+  const knownCodes = new Set(options.workplaceCodes);
+  const today = options.today || formatDay(Date.now());
+
+  return readMappedRows<SellOutColumn, SellOutRecord>(rows, mapping, {
+    validate: validateSellOutMapping,
+    createError: message => new SalesTargetError(message),
+    duplicate: { key: rowKey, column: 'sku', error: firstRow => `Same date, workplace and SKU as row ${firstRow}` },
+    readRow: ({ cell, fail }) => {
+      const date = parseCellDate(cell('date'));
+      if (!cell('date')) fail('date', 'Date is missing');
+      else if (!date) fail('date', `"${cell('date')}" is not a date`);
+      else if (date > today) fail('date', 'Date is in the future');
+
+      const workplaceCode = cell('workplaceCode');
+      if (!workplaceCode) fail('workplaceCode', 'Workplace code is missing');
+      else if (!knownCodes.has(workplaceCode)) fail('workplaceCode', `Unknown workplace code "${workplaceCode}"`);
+
+      const sku = cell('sku');
+      if (!sku) fail('sku', 'SKU is missing');
+
+      const quantity = mapping.quantity && cell('quantity') ? parseCellNumber(cell('quantity')) : 0;
+      if (Number.isNaN(quantity) || quantity < 0 || !Number.isInteger(quantity)) {
+        fail('quantity', `"${cell('quantity')}" is not a whole number of units`);
+      }
+
+      const amount = parseCellNumber(cell('amount'));
+      if (!cell('amount')) fail('amount', 'Amount is missing');
+      else if (Number.isNaN(amount)) fail('amount', `"${cell('amount')}" is not a number`);
+
+      return date ? { date, workplaceCode, sku, quantity, amount: round2(amount), importId: options.importId } : undefined;
+    },
+  });
+};
+
+/**
+ * Add imported records, replacing earlier figures for the same date, workplace and SKU
+ */
+export const mergeSellOut = (existing: SellOutRecord[], incoming: SellOutRecord[]): SellOutRecord[] => {
+  const byKey = new Map(existing.map(record => [rowKey(record), record]));
+  incoming.forEach(record => byKey.set(rowKey(record), record));
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.workplaceCode.localeCompare(b.workplaceCode));
+};
+
+/**
+ * Import summary in the shape of BatchScheduleImport
+ */
+export const createSellOutImport = (
+  id: string,
+  fileName: string,
+  mapping: SellOutColumnMapping,
+  result: SellOutParseResult,
+  createdBy: string,
+  now: Date = new Date()
+): SellOutImport => {
+  const failedRows = new Set(result.errors.map(error => error.row)).size;
+  return {
+    id,
+    fileName,
+    mapping,
+    totalRows: result.totalRows,
+    processedRows: result.records.length,
+    failedRows,
+    errors: result.errors,
+    status: result.records.length ? 'completed' : 'failed',
+    createdBy,
+    createdAt: now.toISOString(),
+    completedAt: now.toISOString(),
+  };
+};
+
+// ===== PROGRESS =====
+
+/**
+ * Achievement and run-rate projection of a target as of a date
+ */
+export const getTargetProgress = (target: SalesTarget, records: SellOutRecord[], asOf: string): SalesTargetProgress => {
+  const totalDays = daysInclusive(target.startDate, target.endDate);
+  const lastDay = asOf < target.endDate ? asOf : target.endDate;
+  const elapsedDays = asOf < target.startDate ? 0 : daysInclusive(target.startDate, lastDay);
+
+  const achievedAmount = round2(records
+    .filter(record => record.workplaceCode === target.workplaceCode && record.date >= target.startDate && record.date <= lastDay)
+    .reduce((sum, record) => sum + record.amount, 0));
+
+  const dailyRunRate = elapsedDays ? achievedAmount / elapsedDays : 0;
+  const projectedAmount = round2(dailyRunRate * totalDays);
+  const percentage = (amount: number) => (target.targetAmount > 0 ? round1((amount / target.targetAmount) * 100) : 0);
+
+  let status: SalesTargetProgress['status'];
+  if (target.targetAmount > 0 && achievedAmount >= target.targetAmount) status = 'achieved';
+  else if (!elapsedDays) status = 'not-started';
+  else if (projectedAmount < target.targetAmount) status = 'at-risk';
+  else status = 'in-progress';
+
+  return {
+    targetId: target.id,
+    achievedAmount,
+    achievementPercentage: percentage(achievedAmount),
+    elapsedDays,
+    totalDays,
+    dailyRunRate: round2(dailyRunRate),
+    projectedAmount,
+    projectedPercentage: percentage(projectedAmount),
+    status,
+  };
+};
+
+const dimensionName = (target: SalesTarget, dimension: LeaderboardDimension) => {
+  switch (dimension) {
+    case 'area': return target.areaName;
+    case 'distributor': return target.distributorName;
+    default: return target.assignedTo;
+  }
+};
+
+/**
+ * Rank areas, distributors or merchandisers by achievement of their combined targets
+ */
+export const getSalesLeaderboard = (
+  targets: SalesTarget[],
+  records: SellOutRecord[],
+  dimension: LeaderboardDimension,
+  asOf: string
+): SalesLeaderboardEntry[] => {
+  const groups = new Map<string, { targetCount: number; targetAmount: number; achievedAmount: number; projectedAmount: number }>();
+
+  targets.forEach(target => {
+    const name = dimensionName(target, dimension) || 'Unassigned';
+    const progress = getTargetProgress(target, records, asOf);
+    const group = groups.get(name) || { targetCount: 0, targetAmount: 0, achievedAmount: 0, projectedAmount: 0 };
+    groups.set(name, {
+      targetCount: group.targetCount + 1,
+      targetAmount: group.targetAmount + target.targetAmount,
+      achievedAmount: group.achievedAmount + progress.achievedAmount,
+      projectedAmount: group.projectedAmount + progress.projectedAmount,
+    });
+  });
+
+  return Array.from(groups.entries())
+    .map(([name, group]) => ({
+      rank: 0,
+      name,
+      targetCount: group.targetCount,
+      targetAmount: group.targetAmount,
+      achievedAmount: round2(group.achievedAmount),
+      achievementPercentage: group.targetAmount > 0 ? round1((group.achievedAmount / group.targetAmount) * 100) : 0,
+      projectedPercentage: group.targetAmount > 0 ? round1((group.projectedAmount / group.targetAmount) * 100) : 0,
+    }))
+    .sort((a, b) => b.achievementPercentage - a.achievementPercentage || b.achievedAmount - a.achievedAmount || a.name.localeCompare(b.name))
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
+
+// ===== PERSISTENCE =====
+
+export interface SalesTargetState {
+  targets: SalesTarget[];
+  sellOut: SellOutRecord[];
+  imports: SellOutImport[];
+}
+
+const salesTargetStore = createVersionedStore<SalesTargetState>({
+  key: 'salesTargets',
+  version: 1,
+  label: 'sales targets',
+  read: (saved, fallback) => ({
+    targets: saved.targets || fallback.targets,
+    sellOut: saved.sellOut || fallback.sellOut,
+    imports: saved.imports || [],
+  }),
+});
+
+/**
+ * Load saved targets and sell-out, or the fallback when nothing (valid) is stored
+ */
+export const loadSalesTargetState = salesTargetStore.load;
+
+export const saveSalesTargetState = salesTargetStore.save;
@@ -0,0 +1,306 @@
+/**
+ * Shelf Share Measurement
+ *
+ * Turns a merchandiser's shelf capture into share-of-shelf and planogram
+ * compliance for DisplayEvaluationConfig questions:
+ * - Facings entered per SKU and shelf, or boxes drawn on a shelf photo
+ * - Facing and width-weighted (linear) share per brand
+ * - Out-of-stock, short-faced and empty-slot gaps against the planogram
+ * - Listed SKUs found on the wrong shelf
+ * - Compliance score: planogram facings in place / facings expected
+ *
+ * Shelves are numbered from 1 (top). Photo box coordinates are fractions
+ * of the image so results don't depend on the photo's resolution.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  DisplayEvaluationConfig,
+  PlanogramProduct,
+  PlanogramTarget,
+  ShelfFacingCount,
+  ShelfGap,
+  ShelfMeasurement,
+  ShelfPhotoBox,
+  ShelfShareResult,
+  TodoQuestion
+} from '../types';
+
+const DEFAULT_COMPLIANCE_THRESHOLD = 90;
+const UNKNOWN_BRAND = 'Unknown';
+
+// ===== HELPERS =====
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const percent = (part: number, total: number) => (total > 0 ? round1((part / total) * 100) : 0);
+
+const positionKey = (sku: string, shelf: number) => `${sku}@${shelf}`;
+
+/**
+ * Display evaluation settings for a shelf-share question
+ */
+export const getShelfShareConfig = (question: TodoQuestion): DisplayEvaluationConfig | undefined =>
+  question.merchandisingConfig?.displayEvaluation;
+
+/**
+ * An empty answer for a shelf-share question
+ */
+export const createEmptyMeasurement = (planogram?: PlanogramTarget): ShelfMeasurement => ({
+  method: 'facings',
+  fixtureId: planogram?.fixtureId,
+  facings: [],
+});
+
+// ===== CAPTURE =====
+
+/**
+ * Count facings from boxes drawn on a shelf photo: each box holding a SKU
+ * is one facing. Empty-slot boxes are not facings.
+ */
+export const facingsFromPhotoBoxes = (boxes: ShelfPhotoBox[]): ShelfFacingCount[] => {
+  const counts = new Map<string, ShelfFacingCount>();
+
+  boxes.forEach(box => {
+    if (!box.sku) return;
+    const key = positionKey(box.sku, box.shelf);
+    const existing = counts.get(key);
+    if (existing) {
+      existing.facings += 1;
+    } else {
+      counts.set(key, { sku: box.sku, brand: box.brand, shelf: box.shelf, facings: 1 });
+    }
+  });
+
+  return Array.from(counts.values());
+};
+
+/**
+ * Facings for a measurement; photo captures are always recounted from
+ * their boxes so edited markup can't drift from the stored counts.
+ */
+export const getMeasuredFacings = (measurement: ShelfMeasurement): ShelfFacingCount[] =>
+  measurement.method === 'photo' && measurement.photo
+    ? facingsFromPhotoBoxes(measurement.photo.boxes)
+    : measurement.facings;
+
+/**
+ * Set the facings for one SKU on one shelf (0 removes the entry)
+ */
+export const setFacingCount = (
+  facings: ShelfFacingCount[],
+  entry: ShelfFacingCount
+): ShelfFacingCount[] => {
+  const key = positionKey(entry.sku, entry.shelf);
+  const others = facings.filter(item => positionKey(item.sku, item.shelf) !== key);
+  return entry.facings > 0 ? [...others, entry] : others;
+};
+
+/**
+ * Check a shelf capture. Returns error messages (empty when valid).
+ */
+export const validateShelfMeasurement = (measurement: ShelfMeasurement, planogram?: PlanogramTarget): string[] => {
+  if (!measurement || !Array.isArray(measurement.facings)) return ['Enter facings or mark up a shelf photo'];
+
+  const errors: string[] = [];
+  const listed = new Set((planogram?.products || []).map(product => product.sku));
+  const shelfCount = planogram?.shelfCount;
+  const shelfOutOfRange = (shelf: number) =>
+    !Number.isInteger(shelf) || shelf < 1 || (shelfCount !== undefined && shelf > shelfCount);
+
+  measurement.facings.forEach(entry => {
+    if (!entry.sku) errors.push('Every facing count needs a SKU');
+    if (!Number.isInteger(entry.facings) || entry.facings < 0) {
+      errors.push(`Facings for ${entry.sku || 'a SKU'} must be a whole number`);
+    }
+    if (shelfOutOfRange(entry.shelf)) errors.push(`Shelf ${entry.shelf} does not exist on this fixture`);
+    if (entry.sku && !listed.has(entry.sku) && !entry.brand) errors.push(`Add a brand for ${entry.sku}`);
+  });
+
+  if (measurement.method === 'photo') {
+    if (!measurement.photo?.url) errors.push('Add a shelf photo');
+    (measurement.photo?.boxes || []).forEach(box => {
+      const inside = box.x >= 0 && box.y >= 0 && box.width > 0 && box.height > 0 &&
+        box.x + box.width <= 1 && box.y + box.height <= 1;
+      if (!inside) errors.push('A marked box lies outside the photo');
+      if (shelfOutOfRange(box.shelf)) errors.push(`Shelf ${box.shelf} does not exist on this fixture`);
+      if (box.sku && !listed.has(box.sku) && !box.brand) errors.push(`Add a brand for ${box.sku}`);
+    });
+  }
+
+  // The same problem on several entries is reported once
+  return Array.from(new Set(errors));
+};
+
+// ===== CALCULATION =====
+
+const resolveBrand = (entry: { sku: string; brand?: string }, products: Map<string, PlanogramProduct>) =>
+  products.get(entry.sku)?.brand || entry.brand || UNKNOWN_BRAND;
+
+/**
+ * Width of one facing for linear share. Products without a width count as
+ * the average listed width, so a partial catalogue still weighs sensibly.
+ */
+const facingWidths = (
+  measurement: ShelfMeasurement,
+  facings: ShelfFacingCount[],
+  products: Map<string, PlanogramProduct>
+): Map<string, number> => {
+  const widths = new Map<string, number>();
+
+  if (measurement.method === 'photo' && measurement.photo) {
+    // Marked-up photos carry their own widths
+    measurement.photo.boxes.forEach(box => {
+      if (!box.sku) return;
+      const key = positionKey(box.sku, box.shelf);
+      widths.set(key, (widths.get(key) || 0) + box.width);
+    });
+    return widths;
+  }
+
+  const known = Array.from(products.values()).map(product => product.widthCm).filter((width): width is number => !!width);
+  const fallback = known.length ? known.reduce((sum, width) => sum + width, 0) / known.length : 1;
+
+  facings.forEach(entry => {
+    const width = products.get(entry.sku)?.widthCm || fallback;
+    widths.set(positionKey(entry.sku, entry.shelf), entry.facings * width);
+  });
+  return widths;
+};
+
+const findGaps = (
+  measurement: ShelfMeasurement,
+  planogram: PlanogramTarget | undefined,
+  actual: Map<string, number>,
+  skuTotals: Map<string, number>
+): ShelfGap[] => {
+  const gaps: ShelfGap[] = [];
+
+  (planogram?.positions || []).forEach(position => {
+    const found = actual.get(positionKey(position.sku, position.shelf)) || 0;
+    if (found >= position.facings) return;
+    gaps.push({
+      sku: position.sku,
+      shelf: position.shelf,
+      expectedFacings: position.facings,
+      actualFacings: found,
+      // A SKU that is merely on the wrong shelf is short here, not out of stock
+      type: (skuTotals.get(position.sku) || 0) === 0 ? 'out_of_stock' : 'short',
+    });
+  });
+
+  if (measurement.method === 'photo' && measurement.photo) {
+    const emptyByShelf = new Map<number, number>();
+    measurement.photo.boxes.filter(box => !box.sku).forEach(box => {
+      emptyByShelf.set(box.shelf, (emptyByShelf.get(box.shelf) || 0) + 1);
+    });
+    emptyByShelf.forEach((count, shelf) => {
+      // For empty slots the expected count is the number of empty facings
+      gaps.push({ sku: null, shelf, expectedFacings: count, actualFacings: 0, type: 'empty_slot' });
+    });
+  }
+
+  return gaps.sort((a, b) => a.shelf - b.shelf);
+};
+
+/**
+ * Calculate share-of-shelf and planogram compliance for a shelf capture.
+ *
+ * Own brands default to the brands on the planogram. Without a planogram
+ * the compliance score is 100 and only the share target applies.
+ */
+export const calculateShelfShare = (
+  measurement: ShelfMeasurement,
+  config: Partial<DisplayEvaluationConfig> = {},
+  now: Date = new Date()
+): ShelfShareResult => {
+  const planogram = config.planogram;
+  const products = new Map((planogram?.products || []).map(product => [product.sku, product] as [string, PlanogramProduct]));
+  const ownBrands = new Set(config.ownBrands?.length
+    ? config.ownBrands
+    : Array.from(products.values()).map(product => product.brand));
+
+  const facings = getMeasuredFacings(measurement).filter(entry => entry.facings > 0);
+  const widths = facingWidths(measurement, facings, products);
+
+  // Share per brand
+  const brands = new Map<string, { facings: number; width: number }>();
+  const actual = new Map<string, number>();
+  const skuTotals = new Map<string, number>();
+  let totalFacings = 0;
+  let totalWidth = 0;
+
+  facings.forEach(entry => {
+    const key = positionKey(entry.sku, entry.shelf);
+    const width = widths.get(key) || 0;
+    const brand = resolveBrand(entry, products);
+    const totals = brands.get(brand) || { facings: 0, width: 0 };
+
+    brands.set(brand, { facings: totals.facings + entry.facings, width: totals.width + width });
+    actual.set(key, (actual.get(key) || 0) + entry.facings);
+    skuTotals.set(entry.sku, (skuTotals.get(entry.sku) || 0) + entry.facings);
+    totalFacings += entry.facings;
+    totalWidth += width;
+  });
+
+  const shareByBrand = Array.from(brands.entries())
+    .map(([brand, totals]) => ({
+      brand,
+      facings: totals.facings,
+      share: percent(totals.facings, totalFacings),
+      linearShare: percent(totals.width, totalWidth),
+    }))
+    .sort((a, b) => b.facings - a.facings || a.brand.localeCompare(b.brand));
+
+  const ownFacings = shareByBrand
+    .filter(entry => ownBrands.has(entry.brand))
+    .reduce((sum, entry) => sum + entry.facings, 0);
+  const ownShare = percent(ownFacings, totalFacings);
+
+  // Planogram compliance
+  const positions = planogram?.positions || [];
+  const expected = positions.reduce((sum, position) => sum + position.facings, 0);
+  const inPlace = positions.reduce(
+    (sum, position) => sum + Math.min(actual.get(positionKey(position.sku, position.shelf)) || 0, position.facings),
+    0
+  );
+  const complianceScore = expected > 0 ? percent(inPlace, expected) : 100;
+
+  const plannedShelves = new Map<string, number[]>();
+  positions.forEach(position => {
+    plannedShelves.set(position.sku, [...(plannedShelves.get(position.sku) || []), position.shelf]);
+  });
+
+  const misplaced = facings
+    .filter(entry => plannedShelves.has(entry.sku) && !plannedShelves.get(entry.sku)!.includes(entry.shelf))
+    .map(entry => ({
+      sku: entry.sku,
+      expectedShelf: plannedShelves.get(entry.sku)![0],
+      actualShelf: entry.shelf,
+      facings: entry.facings,
+    }));
+
+  const unlistedSkus = Array.from(new Set(
+    facings
+      .filter(entry => planogram && !products.has(entry.sku) && ownBrands.has(resolveBrand(entry, products)))
+      .map(entry => entry.sku)
+  ));
+
+  const threshold = config.complianceThreshold ?? DEFAULT_COMPLIANCE_THRESHOLD;
+  const shareTarget = config.shareOfShelfTarget;
+
+  return {
+    totalFacings,
+    shareByBrand,
+    ownShare,
+    shareTarget,
+    gaps: findGaps(measurement, planogram, actual, skuTotals),
+    misplaced,
+    unlistedSkus,
+    complianceScore,
+    isCompliant: complianceScore >= threshold && (shareTarget === undefined || ownShare >= shareTarget),
+    calculatedAt: now.toISOString(),
+  };
+};
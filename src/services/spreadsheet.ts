@@ -0,0 +1,232 @@
+/**
+ * Spreadsheet Reading
+ *
+ * Reads uploaded CSV and XLSX files into rows of cell text so import
+ * screens can map columns and validate rows themselves:
+ * - CSV with quoted cells and comma, semicolon or tab delimiters
+ * - Writing CSV for exports
+ * - XLSX first worksheet, shared and inline strings
+ *
+ * XLSX files are zip archives; deflated entries are inflated with the
+ * browser's DecompressionStream. Cell values are returned as stored, so
+ * dates formatted in Excel arrive as serial day numbers (see
+ * excelSerialToDate).
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+/**
+ * Error raised for files that cannot be read as a spreadsheet
+ */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+export type InflateRaw = (data: Uint8Array) => Promise<Uint8Array>;
+
+// ===== CSV =====
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+};
+
+/**
+ * Parse CSV text into rows. Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter?: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const separator = delimiter || detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new SpreadsheetError('The file ends inside a quoted cell');
+  }
+  if (cell !== '' || row.length) endRow();
+
+  return rows;
+};
+
+/**
+ * Format rows as CSV, quoting cells that need it
+ */
+export const formatCsv = (rows: (string | number)[][], delimiter: string = ','): string =>
+  rows.map(row => row.map(value => {
+    const text = String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(delimiter)).join('\n');
+
+// ===== XLSX =====
+
+const readUint16 = (data: Uint8Array, offset: number) => data[offset] | (data[offset + 1] << 8);
+const readUint32 = (data: Uint8Array, offset: number) => (readUint16(data, offset) | (readUint16(data, offset + 2) << 16)) >>> 0;
+
+const browserInflateRaw: InflateRaw = async (data) => {
+  const Decompression = (globalThis as any).DecompressionStream;
+  if (!Decompression) {
+    throw new SpreadsheetError('This browser cannot open XLSX files; save the sheet as CSV instead');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new Decompression('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Entries of a zip archive by path
+ */
+const readZip = async (data: Uint8Array, inflateRaw: InflateRaw): Promise<Map<string, string>> => {
+  let end = data.length - 22;
+  while (end >= 0 && readUint32(data, end) !== 0x06054b50) end--;
+  if (end < 0) {
+    throw new SpreadsheetError('The file is not a valid XLSX workbook');
+  }
+
+  const entries = new Map<string, string>();
+  const decoder = new TextDecoder('utf-8');
+  let offset = readUint32(data, end + 16);
+
+  for (let index = readUint16(data, end + 10); index > 0; index--) {
+    if (readUint32(data, offset) !== 0x02014b50) {
+      throw new SpreadsheetError('The XLSX workbook is damaged');
+    }
+    const method = readUint16(data, offset + 10);
+    const compressedSize = readUint32(data, offset + 20);
+    const nameLength = readUint16(data, offset + 28);
+    const localOffset = readUint32(data, offset + 42);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + readUint16(data, offset + 30) + readUint16(data, offset + 32);
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+    const start = localOffset + 30 + readUint16(data, localOffset + 26) + readUint16(data, localOffset + 28);
+    const raw = data.subarray(start, start + compressedSize);
+    if (method === 0) {
+      entries.set(name, decoder.decode(raw));
+    } else if (method === 8) {
+      entries.set(name, decoder.decode(await inflateRaw(raw)));
+    } else {
+      throw new SpreadsheetError(`Unsupported compression in ${name}`);
+    }
+  }
+
+  return entries;
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const textOf = (element: Element) =>
+  Array.from(element.getElementsByTagName('t')).map(node => node.textContent || '').join('');
+
+const columnIndex = (reference: string) =>
+  reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const firstSheetPath = (entries: Map<string, string>) => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const sheet = parseXml(workbook).getElementsByTagName('sheet')[0];
+    const relationId = sheet?.getAttribute('r:id');
+    const target = Array.from(parseXml(rels).getElementsByTagName('Relationship'))
+      .find(relationship => relationship.getAttribute('Id') === relationId)
+      ?.getAttribute('Target');
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows. Blank rows are dropped.
+ */
+export const readXlsx = async (data: ArrayBuffer | Uint8Array, inflateRaw: InflateRaw = browserInflateRaw): Promise<string[][]> => {
+  const entries = await readZip(data instanceof Uint8Array ? data : new Uint8Array(data), inflateRaw);
+  const sheetXml = entries.get(firstSheetPath(entries));
+  if (!sheetXml) {
+    throw new SpreadsheetError('The workbook has no worksheet');
+  }
+
+  const sharedXml = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedXml
+    ? Array.from(parseXml(sharedXml).getElementsByTagName('si')).map(textOf)
+    : [];
+
+  const rows: string[][] = [];
+  Array.from(parseXml(sheetXml).getElementsByTagName('row')).forEach(rowElement => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cellElement, position) => {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cellElement.getAttribute('t');
+      const value = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text = value;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textOf(cellElement);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+  });
+
+  return rows;
+};
+
+/**
+ * Convert an Excel serial day number (1900 date system) to YYYY-MM-DD
+ */
+export const excelSerialToDate = (serial: number): string =>
+  new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+
+// ===== FILES =====
+
+/**
+ * Read an uploaded .csv or .xlsx file into rows
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    return parseCsv(await file.text());
+  }
+  if (name.endsWith('.xlsx')) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  throw new SpreadsheetError(`${file.name} is not a CSV or XLSX file`);
+};
@@ -0,0 +1,354 @@
+/**
+ * Payroll Timesheets
+ *
+ * Turns AttendanceRecord and Break data into paid hours per pay period:
+ * - Punch rounding (nearest / up / down to an increment)
+ * - Unpaid break deduction, with a cap on paid break time
+ * - Daily and weekly overtime thresholds
+ * - Night and weekend premium hours
+ * - CSV or fixed-width export in a configurable column layout
+ *
+ * Night and weekend hours are premiums: they are counted inside the
+ * regular/overtime split and reported separately so payroll can add
+ * the premium factor on top. Records before the pay period in the same
+ * overtime week still count towards the weekly threshold.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  AttendanceRecord,
+  Break,
+  PayRules,
+  Timesheet,
+  TimesheetExportLayout,
+  TimesheetLine
+} from '../types';
+
+/**
+ * Error raised for invalid export layouts and values that don't fit them
+ */
+export class TimesheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimesheetError';
+  }
+}
+
+export const DEFAULT_PAY_RULES: PayRules = {
+  dailyOvertimeAfterHours: 8,
+  weeklyOvertimeAfterHours: 40,
+  weekStartsOn: 1,
+  overtimeMultiplier: 1.5,
+  nightStart: '22:00',
+  nightEnd: '06:00',
+  nightPremium: 0.25,
+  weekendDays: [0, 6],
+  weekendPremium: 0.5,
+  paidBreakTypes: ['coffee', 'rest'],
+  maxPaidBreakMinutes: 30,
+  roundingMinutes: 15,
+  roundingMode: 'nearest',
+};
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+
+// ===== TIME HELPERS =====
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatTime = (minutes: number) => {
+  const inDay = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+  return `${String(Math.floor(inDay / 60)).padStart(2, '0')}:${String(inDay % 60).padStart(2, '0')}`;
+};
+
+const dayNumber = (date: string) => Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / (DAY_MINUTES * 60000));
+
+const weekday = (day: number) => new Date(day * DAY_MINUTES * 60000).getUTCDay();
+
+const overlap = (a: Interval, b: Interval) => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+const overlapAll = (intervals: Interval[], windows: Interval[]) =>
+  intervals.reduce((sum, interval) => sum + windows.reduce((inner, window) => inner + overlap(interval, window), 0), 0);
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+/**
+ * Round a time of day in minutes to the rule's increment
+ */
+export const roundMinutes = (minutes: number, increment: number, mode: PayRules['roundingMode']): number => {
+  if (increment <= 0) return minutes;
+  const steps = minutes / increment;
+  const rounded = mode === 'up' ? Math.ceil(steps) : mode === 'down' ? Math.floor(steps) : Math.round(steps);
+  return rounded * increment;
+};
+
+// ===== DAILY CALCULATION =====
+
+/**
+ * Break intervals split into the unpaid part. Paid break types stay
+ * paid until the daily cap; anything beyond it is unpaid.
+ */
+const unpaidBreakIntervals = (breaks: Break[], workStart: number, rules: PayRules, issues: string[]): Interval[] => {
+  let paidLeft = rules.maxPaidBreakMinutes ?? Infinity;
+  const unpaid: Interval[] = [];
+
+  [...breaks].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime)).forEach(item => {
+    let start = Math.floor(workStart / DAY_MINUTES) * DAY_MINUTES + toMinutes(item.startTime);
+    // Breaks after midnight belong to the next day of an overnight shift
+    if (start < workStart) start += DAY_MINUTES;
+
+    let duration = item.duration;
+    if (duration === undefined && item.endTime) {
+      duration = (toMinutes(item.endTime) - toMinutes(item.startTime) + DAY_MINUTES) % DAY_MINUTES;
+    }
+    if (duration === undefined) {
+      issues.push(`${item.type} break at ${item.startTime} was never ended`);
+      return;
+    }
+
+    if (rules.paidBreakTypes.includes(item.type)) {
+      const paid = Math.min(duration, paidLeft);
+      paidLeft -= paid;
+      if (duration > paid) unpaid.push({ start: start + paid, end: start + duration });
+    } else {
+      unpaid.push({ start, end: start + duration });
+    }
+  });
+
+  return unpaid;
+};
+
+/**
+ * Paid time for one attendance record, before weekly overtime
+ */
+export const calculateTimesheetLine = (record: AttendanceRecord, rules: PayRules = DEFAULT_PAY_RULES): TimesheetLine => {
+  const line: TimesheetLine = {
+    recordId: record.id,
+    userId: record.userId,
+    date: record.date,
+    workedMinutes: 0,
+    unpaidBreakMinutes: 0,
+    paidMinutes: 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+    nightMinutes: 0,
+    weekendMinutes: 0,
+    issues: [],
+  };
+
+  if (record.status === 'absent') return line;
+  if (!record.clockIn || !record.clockOut) {
+    line.issues.push(record.clockIn ? 'No clock-out' : 'No clock-in');
+    return line;
+  }
+
+  const day = dayNumber(record.date);
+  const base = day * DAY_MINUTES;
+  const start = base + roundMinutes(toMinutes(record.clockIn), rules.roundingMinutes, rules.roundingMode);
+  let end = base + roundMinutes(toMinutes(record.clockOut), rules.roundingMinutes, rules.roundingMode);
+  if (end <= start) end += DAY_MINUTES;
+  const work: Interval = { start, end };
+
+  // Unpaid breaks only count while on the clock
+  const unpaid = unpaidBreakIntervals(record.breaks || [], start, rules, line.issues)
+    .map(interval => ({ start: Math.max(interval.start, start), end: Math.min(interval.end, end) }))
+    .filter(interval => interval.end > interval.start);
+  const paidWithin = (windows: Interval[]) =>
+    Math.max(0, overlapAll([work], windows) - overlapAll(unpaid, windows));
+
+  // Night windows that can touch a shift starting on this day
+  const nightStart = toMinutes(rules.nightStart);
+  const nightEnd = toMinutes(rules.nightEnd);
+  const nightWindows = [-1, 0, 1].map(offset => {
+    const windowStart = base + offset * DAY_MINUTES + nightStart;
+    return { start: windowStart, end: windowStart + ((nightEnd - nightStart + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES) };
+  });
+
+  const weekendWindows = [0, 1]
+    .filter(offset => rules.weekendDays.includes(weekday(day + offset)))
+    .map(offset => ({ start: base + offset * DAY_MINUTES, end: base + (offset + 1) * DAY_MINUTES }));
+
+  line.clockIn = formatTime(start);
+  line.clockOut = formatTime(end);
+  line.workedMinutes = end - start;
+  line.unpaidBreakMinutes = Math.min(unpaid.reduce((sum, interval) => sum + interval.end - interval.start, 0), line.workedMinutes);
+  line.paidMinutes = line.workedMinutes - line.unpaidBreakMinutes;
+  line.nightMinutes = paidWithin(nightWindows);
+  line.weekendMinutes = weekendWindows.length ? paidWithin(weekendWindows) : 0;
+
+  const dailyLimit = rules.dailyOvertimeAfterHours !== undefined ? rules.dailyOvertimeAfterHours * 60 : Infinity;
+  line.overtimeMinutes = Math.max(0, line.paidMinutes - dailyLimit);
+  line.regularMinutes = line.paidMinutes - line.overtimeMinutes;
+
+  if (record.requiresApproval && !record.approvedBy) line.issues.push('Not approved');
+  return line;
+};
+
+// ===== PAY PERIODS =====
+
+/**
+ * Timesheets per employee for a pay period (dates inclusive)
+ */
+export const buildTimesheets = (
+  records: AttendanceRecord[],
+  period: { start: string; end: string },
+  rules: PayRules = DEFAULT_PAY_RULES
+): Timesheet[] => {
+  const sorted = records
+    .filter(record => record.date <= period.end)
+    .sort((a, b) =>
+      a.userId.localeCompare(b.userId) ||
+      a.date.localeCompare(b.date) ||
+      (a.clockIn || '').localeCompare(b.clockIn || '')
+    );
+
+  const weeklyLimit = rules.weeklyOvertimeAfterHours !== undefined ? rules.weeklyOvertimeAfterHours * 60 : Infinity;
+  const weeklyRegular = new Map<string, number>();
+  const byUser = new Map<string, TimesheetLine[]>();
+
+  sorted.forEach(record => {
+    const line = calculateTimesheetLine(record, rules);
+    const day = dayNumber(record.date);
+    const weekKey = `${record.userId}|${day - ((weekday(day) - rules.weekStartsOn + 7) % 7)}`;
+
+    // Regular hours beyond the weekly threshold become overtime
+    const used = weeklyRegular.get(weekKey) || 0;
+    const excess = Math.max(0, used + line.regularMinutes - weeklyLimit);
+    line.regularMinutes -= excess;
+    line.overtimeMinutes += excess;
+    weeklyRegular.set(weekKey, used + line.regularMinutes);
+
+    if (record.date < period.start) return;
+    byUser.set(record.userId, [...(byUser.get(record.userId) || []), line]);
+  });
+
+  return Array.from(byUser.entries()).map(([userId, lines]) => {
+    const total = (field: keyof Pick<TimesheetLine, 'regularMinutes' | 'overtimeMinutes' | 'nightMinutes' | 'weekendMinutes'>) =>
+      lines.reduce((sum, line) => sum + line[field], 0);
+
+    const regularHours = toHours(total('regularMinutes'));
+    const overtimeHours = toHours(total('overtimeMinutes'));
+    const nightHours = toHours(total('nightMinutes'));
+    const weekendHours = toHours(total('weekendMinutes'));
+
+    return {
+      userId,
+      periodStart: period.start,
+      periodEnd: period.end,
+      lines,
+      regularHours,
+      overtimeHours,
+      nightHours,
+      weekendHours,
+      paidHours: Math.round((regularHours + overtimeHours) * 100) / 100,
+      weightedHours: Math.round((
+        regularHours +
+        overtimeHours * rules.overtimeMultiplier +
+        nightHours * rules.nightPremium +
+        weekendHours * rules.weekendPremium
+      ) * 100) / 100,
+    };
+  });
+};
+
+// ===== EXPORT =====
+
+const HOUR_FIELDS = ['regularHours', 'overtimeHours', 'nightHours', 'weekendHours', 'paidHours', 'weightedHours'];
+
+const SUMMARY_FIELDS = ['payrollId', 'userId', 'periodStart', 'periodEnd', ...HOUR_FIELDS];
+
+const DAILY_FIELDS = [
+  'payrollId', 'userId', 'periodStart', 'periodEnd', 'date', 'clockIn', 'clockOut',
+  'regularHours', 'overtimeHours', 'nightHours', 'weekendHours', 'paidHours', 'unpaidBreakMinutes', 'issues'
+];
+
+const exportRows = (timesheets: Timesheet[], layout: TimesheetExportLayout, payrollIds: Record<string, string>) =>
+  timesheets.flatMap(sheet => {
+    const shared = {
+      payrollId: payrollIds[sheet.userId] ?? sheet.userId,
+      userId: sheet.userId,
+      periodStart: sheet.periodStart,
+      periodEnd: sheet.periodEnd,
+    };
+    if (layout.rows === 'summary') {
+      const { lines, ...totals } = sheet;
+      return [{ ...totals, ...shared } as Record<string, unknown>];
+    }
+    return sheet.lines.map(line => ({
+      ...shared,
+      date: line.date,
+      clockIn: line.clockIn ?? '',
+      clockOut: line.clockOut ?? '',
+      regularHours: toHours(line.regularMinutes),
+      overtimeHours: toHours(line.overtimeMinutes),
+      nightHours: toHours(line.nightMinutes),
+      weekendHours: toHours(line.weekendMinutes),
+      paidHours: toHours(line.paidMinutes),
+      unpaidBreakMinutes: line.unpaidBreakMinutes,
+      issues: line.issues.join('; '),
+    } as Record<string, unknown>));
+  });
+
+const escapeCsv = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || /[\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Write timesheets in a payroll provider's import layout.
+ * payrollIds maps user IDs to the provider's employee numbers.
+ */
+export const formatTimesheetExport = (
+  timesheets: Timesheet[],
+  layout: TimesheetExportLayout,
+  payrollIds: Record<string, string> = {}
+): string => {
+  const allowed = layout.rows === 'summary' ? SUMMARY_FIELDS : DAILY_FIELDS;
+  layout.columns.forEach(column => {
+    if (!allowed.includes(column.field)) {
+      throw new TimesheetError(`Unknown ${layout.rows} export field "${column.field}"`);
+    }
+    if (layout.format === 'fixed-width' && !(column.width && column.width > 0)) {
+      throw new TimesheetError(`Column "${column.field}" needs a width for fixed-width export`);
+    }
+  });
+
+  const decimals = layout.decimals ?? 2;
+  const delimiter = layout.delimiter ?? ',';
+  const includeHeader = layout.includeHeader ?? layout.format === 'csv';
+
+  const formatValue = (field: string, value: unknown) =>
+    HOUR_FIELDS.includes(field) ? Number(value).toFixed(decimals) : String(value ?? '');
+
+  const fixed = (text: string, column: TimesheetExportLayout['columns'][number], isHeader: boolean) => {
+    const width = column.width!;
+    if (text.length > width) {
+      if (isHeader) return text.slice(0, width);
+      throw new TimesheetError(`Value "${text}" does not fit column "${column.field}" (width ${width})`);
+    }
+    const align = column.align ?? (HOUR_FIELDS.includes(column.field) || column.field === 'unpaidBreakMinutes' ? 'right' : 'left');
+    return align === 'right' ? text.padStart(width) : text.padEnd(width);
+  };
+
+  const writeRow = (cells: string[], isHeader: boolean) =>
+    layout.format === 'csv'
+      ? cells.map(cell => escapeCsv(cell, delimiter)).join(delimiter)
+      : cells.map((cell, index) => fixed(cell, layout.columns[index], isHeader)).join('');
+
+  const lines = exportRows(timesheets, layout, payrollIds)
+    .map(row => writeRow(layout.columns.map(column => formatValue(column.field, row[column.field])), false));
+  if (includeHeader) lines.unshift(writeRow(layout.columns.map(column => column.header ?? column.field), true));
+
+  const lineEnding = layout.lineEnding ?? '\r\n';
+  return lines.join(lineEnding) + lineEnding;
+};
@@ -0,0 +1,437 @@
+/**
+ * Training Curriculum
+ *
+ * Delivers training courses and tracks the certificates they earn:
+ * - Courses are modules completed in order; a module with a quiz is only
+ *   complete once the quiz reaches its pass mark
+ * - Running out of quiz attempts fails the enrollment
+ * - Completing every module issues the course certificate, which expires
+ *   after the course's validity period; branded courses always issue one
+ * - Certification rules require a valid brand certificate before an
+ *   employee is assigned to the rule's workplaces
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  CertificationRule,
+  CertificationViolation,
+  TrainingCertificate,
+  TrainingCourse,
+  TrainingEnrollment,
+  TrainingModule,
+  TrainingModuleProgress,
+  TrainingQuizQuestion
+} from '../types';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for invalid courses and out-of-order progress
+ */
+export class TrainingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrainingError';
+  }
+}
+
+export type CertificateStatus = 'active' | 'expiring-soon' | 'expired';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_WARNING_DAYS = 30;
+
+// ===== COURSES =====
+
+/**
+ * Check a course before it is published. Throws TrainingError on the first problem.
+ */
+export const validateCourse = (course: TrainingCourse): void => {
+  if (!course.modules.length) {
+    throw new TrainingError(`${course.title} has no modules`);
+  }
+  const thresholds = [course.passThreshold, ...course.modules.map(module => module.passThreshold)];
+  if (thresholds.some(threshold => threshold !== undefined && (threshold < 0 || threshold > 100))) {
+    throw new TrainingError('Pass marks must be between 0 and 100%');
+  }
+  course.modules.forEach(module => {
+    (module.quiz || []).forEach(question => {
+      if (question.options.length < 2) {
+        throw new TrainingError(`"${question.prompt}" needs at least two options`);
+      }
+      if (!question.correctOptions.length || question.correctOptions.some(index => index < 0 || index >= question.options.length)) {
+        throw new TrainingError(`Mark the correct answer for "${question.prompt}"`);
+      }
+    });
+  });
+};
+
+const getPassThreshold = (course: TrainingCourse, module: TrainingModule) => module.passThreshold ?? course.passThreshold;
+
+// ===== QUIZZES =====
+
+/**
+ * Percent of questions answered exactly right (every correct option and nothing else)
+ */
+export const scoreQuiz = (questions: TrainingQuizQuestion[], answers: Record<string, number[]>): number => {
+  if (!questions.length) return 100;
+  const correct = questions.filter(question => {
+    const chosen = Array.from(new Set(answers[question.id] || [])).sort();
+    const expected = Array.from(new Set(question.correctOptions)).sort();
+    return chosen.length === expected.length && chosen.every((option, index) => option === expected[index]);
+  }).length;
+  return Math.round((correct / questions.length) * 100);
+};
+
+/**
+ * The module the employee has to complete next, if any
+ */
+export const getCurrentModule = (enrollment: TrainingEnrollment, course: TrainingCourse): TrainingModule | undefined =>
+  course.modules.find(module => !enrollment.progress.find(progress => progress.moduleId === module.id)?.completedAt);
+
+/**
+ * Completed modules and percent done
+ */
+export const getEnrollmentProgress = (enrollment: TrainingEnrollment, course: TrainingCourse) => {
+  const completedModules = course.modules.filter(module =>
+    enrollment.progress.some(progress => progress.moduleId === module.id && progress.completedAt)
+  ).length;
+  return {
+    completedModules,
+    totalModules: course.modules.length,
+    percent: course.modules.length ? Math.round((completedModules / course.modules.length) * 100) : 0,
+  };
+};
+
+/**
+ * Remaining quiz attempts on a module (null when unlimited)
+ */
+export const getRemainingAttempts = (enrollment: TrainingEnrollment, course: TrainingCourse, moduleId: string): number | null => {
+  if (!course.maxAttempts) return null;
+  const used = enrollment.progress.find(progress => progress.moduleId === moduleId)?.attempts.length || 0;
+  return Math.max(0, course.maxAttempts - used);
+};
+
+/**
+ * Whether completing a course earns a certificate. Branded courses always do,
+ * since certification rules check brand certificates; without a certificate
+ * name the course title is used.
+ */
+export const earnsCertificate = (course: TrainingCourse): boolean =>
+  Boolean(course.brand || course.certificateName || course.certificateValidityMonths);
+
+/**
+ * Certificate for a completed enrollment, expiring after the course's validity period
+ */
+export const issueCertificate = (enrollment: TrainingEnrollment, course: TrainingCourse, now: Date = new Date()): TrainingCertificate => {
+  if (enrollment.status !== 'completed' || enrollment.score === undefined) {
+    throw new TrainingError('Only completed courses earn a certificate');
+  }
+  let expiresAt: string | undefined;
+  if (course.certificateValidityMonths) {
+    const expiry = new Date(now);
+    expiry.setUTCMonth(expiry.getUTCMonth() + course.certificateValidityMonths);
+    expiresAt = expiry.toISOString();
+  }
+  return {
+    id: `cert-${enrollment.id}`,
+    courseId: course.id,
+    enrollmentId: enrollment.id,
+    employeeId: enrollment.employeeId,
+    employeeName: enrollment.employeeName,
+    name: course.certificateName || course.title,
+    brand: course.brand,
+    score: enrollment.score,
+    issuedAt: now.toISOString(),
+    expiresAt,
+  };
+};
+
+/**
+ * Submit the current module: its quiz answers, or nothing for a module
+ * without a quiz. Completing the last module completes the enrollment
+ * and issues its certificate.
+ */
+export const submitModule = (
+  enrollment: TrainingEnrollment,
+  course: TrainingCourse,
+  moduleId: string,
+  answers: Record<string, number[]> = {},
+  now: Date = new Date()
+): { enrollment: TrainingEnrollment; certificate?: TrainingCertificate } => {
+  if (enrollment.status === 'completed' || enrollment.status === 'failed') {
+    throw new TrainingError(`This enrollment is already ${enrollment.status}`);
+  }
+  const module = getCurrentModule(enrollment, course);
+  if (!module || module.id !== moduleId) {
+    throw new TrainingError('Modules must be completed in order');
+  }
+
+  const at = now.toISOString();
+  const previous: TrainingModuleProgress = enrollment.progress.find(entry => entry.moduleId === moduleId) || { moduleId, attempts: [] };
+  let progress: TrainingModuleProgress;
+  if (module.quiz?.length) {
+    const score = scoreQuiz(module.quiz, answers);
+    const passed = score >= getPassThreshold(course, module);
+    progress = {
+      ...previous,
+      attempts: [...previous.attempts, { answers, score, passed, submittedAt: at }],
+      ...(passed ? { completedAt: at } : {}),
+    };
+  } else {
+    progress = { ...previous, completedAt: at };
+  }
+
+  const updated: TrainingEnrollment = {
+    ...enrollment,
+    status: 'in-progress',
+    progress: [...enrollment.progress.filter(entry => entry.moduleId !== moduleId), progress],
+  };
+
+  if (!progress.completedAt) {
+    const remaining = getRemainingAttempts(updated, course, moduleId);
+    return { enrollment: remaining === 0 ? { ...updated, status: 'failed' } : updated };
+  }
+  if (getCurrentModule(updated, course)) {
+    return { enrollment: updated };
+  }
+
+  // Course score: average of the passing attempt of every quiz module
+  const passedScores = updated.progress
+    .map(entry => entry.attempts[entry.attempts.length - 1]?.score)
+    .filter((score): score is number => score !== undefined);
+  const completed: TrainingEnrollment = {
+    ...updated,
+    status: 'completed',
+    completedAt: at,
+    score: passedScores.length ? Math.round(passedScores.reduce((sum, score) => sum + score, 0) / passedScores.length) : 100,
+  };
+  return {
+    enrollment: completed,
+    certificate: earnsCertificate(course) ? issueCertificate(completed, course, now) : undefined,
+  };
+};
+
+// ===== CERTIFICATES =====
+
+/**
+ * Whether a certificate is active, expiring within 30 days, or expired
+ */
+export const getCertificateStatus = (certificate: TrainingCertificate, asOf: Date = new Date()): CertificateStatus => {
+  if (!certificate.expiresAt) return 'active';
+  const remaining = Date.parse(certificate.expiresAt) - asOf.getTime();
+  if (remaining <= 0) return 'expired';
+  return remaining <= EXPIRY_WARNING_DAYS * DAY_MS ? 'expiring-soon' : 'active';
+};
+
+/**
+ * Latest certificate an employee holds for a brand
+ */
+export const getLatestCertificate = (
+  certificates: TrainingCertificate[],
+  employeeId: string,
+  brand: string
+): TrainingCertificate | undefined =>
+  certificates
+    .filter(certificate => certificate.employeeId === employeeId && certificate.brand?.toLowerCase() === brand.toLowerCase())
+    .sort((a, b) => (b.expiresAt || '9999').localeCompare(a.expiresAt || '9999'))[0];
+
+/**
+ * Certification rules an employee breaks by working at a workplace.
+ * An empty list means the assignment is allowed.
+ */
+export const checkAssignmentCertification = (
+  employeeId: string,
+  workplaceId: string,
+  rules: CertificationRule[],
+  certificates: TrainingCertificate[],
+  asOf: Date = new Date()
+): CertificationViolation[] =>
+  rules
+    .filter(rule => rule.isActive && rule.workplaceIds.includes(workplaceId))
+    .flatMap((rule): CertificationViolation[] => {
+      const latest = getLatestCertificate(certificates, employeeId, rule.brand);
+      if (!latest) return [{ ruleId: rule.id, brand: rule.brand, reason: 'missing' }];
+      if (getCertificateStatus(latest, asOf) === 'expired') {
+        return [{ ruleId: rule.id, brand: rule.brand, reason: 'expired', expiredAt: latest.expiresAt }];
+      }
+      return [];
+    });
+
+/**
+ * Message for a certification violation
+ */
+export const describeViolation = (violation: CertificationViolation): string =>
+  violation.reason === 'missing'
+    ? `Needs a ${violation.brand} certificate`
+    : `${violation.brand} certificate expired on ${violation.expiredAt?.split('T')[0]}`;
+
+// ===== PERSISTENCE =====
+
+export interface TrainingState {
+  courses: TrainingCourse[];
+  enrollments: TrainingEnrollment[];
+  certificates: TrainingCertificate[];
+  rules: CertificationRule[];
+}
+
+const trainingStore = createVersionedStore<TrainingState>({
+  key: 'training',
+  version: 1,
+  label: 'training',
+  read: (saved, fallback) => ({
+    courses: saved.courses || fallback.courses,
+    enrollments: saved.enrollments || fallback.enrollments,
+    certificates: saved.certificates || fallback.certificates,
+    rules: saved.rules || fallback.rules,
+  }),
+});
+
+/**
+ * Load saved courses, enrollments, certificates and rules, or the fallback when nothing (valid) is stored
+ */
+export const loadTrainingState = trainingStore.load;
+
+export const saveTrainingState = trainingStore.save;
+
+// ===== SEED DATA =====
+
+const SEED_COURSES: TrainingCourse[] = [
+  {
+    id: 'samsung-product',
+    title: 'Product Knowledge - Samsung',
+    trainingType: 'Product Training',
+    brand: 'Samsung',
+    description: 'Galaxy and TV line-up for in-store promoters',
+    passThreshold: 80,
+    maxAttempts: 3,
+    certificateName: 'Samsung Product Specialist',
+    certificateValidityMonths: 12,
+    modules: [
+      {
+        id: 'galaxy',
+        title: 'Samsung Galaxy Series',
+        content: 'Positioning of the Galaxy S, Z and A series, trade-in offers and the accessories to recommend with each device.',
+        durationMinutes: 45,
+        quiz: [
+          { id: 'galaxy-1', prompt: 'Which series are foldable?', options: ['Galaxy S', 'Galaxy Z', 'Galaxy A'], correctOptions: [1] },
+          { id: 'galaxy-2', prompt: 'Which accessories belong in every Galaxy S bundle pitch?', options: ['Case', 'Charger', 'HDMI cable'], correctOptions: [0, 1] }
+        ]
+      },
+      {
+        id: 'tv',
+        title: 'Samsung TV Technology',
+        content: 'QLED, Neo QLED and OLED panels, what sets them apart on the demo wall and how to set up picture modes.',
+        durationMinutes: 60,
+        quiz: [
+          { id: 'tv-1', prompt: 'Which panel has self-lit pixels?', options: ['QLED', 'Neo QLED', 'OLED'], correctOptions: [2] },
+          { id: 'tv-2', prompt: 'Which picture mode suits the demo wall?', options: ['Dynamic', 'Movie', 'Filmmaker'], correctOptions: [0] }
+        ]
+      }
+    ],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  },
+  {
+    id: 'bosch-kitchen',
+    title: 'Kitchen Appliance Installation - Bosch',
+    trainingType: 'Technical Training',
+    brand: 'Bosch',
+    description: 'Installing and demonstrating Bosch built-in appliances',
+    passThreshold: 90,
+    maxAttempts: 2,
+    certificateName: 'Bosch Kitchen Installer',
+    certificateValidityMonths: 24,
+    modules: [
+      {
+        id: 'safety',
+        title: 'Electrical Safety',
+        content: 'Isolating circuits, connection ratings for ovens and hobs, and when an electrician must be called.',
+        durationMinutes: 40,
+        quiz: [
+          { id: 'safety-1', prompt: 'What do you do before connecting a hob?', options: ['Isolate the circuit', 'Test the hob', 'Fit the worktop'], correctOptions: [0] }
+        ]
+      },
+      {
+        id: 'built-in',
+        title: 'Built-in Ovens and Dishwashers',
+        content: 'Niche dimensions, ventilation gaps and levelling for built-in units.',
+        durationMinutes: 50
+      }
+    ],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  },
+  {
+    id: 'customer-service',
+    title: 'Customer Service Excellence',
+    trainingType: 'Soft Skills',
+    passThreshold: 70,
+    modules: [
+      { id: 'communication', title: 'Communication Skills', content: 'Greeting, open questions and active listening on the shop floor.', durationMinutes: 30 },
+      {
+        id: 'conflict',
+        title: 'Conflict Resolution',
+        content: 'Calming an upset customer and handing over to the store manager.',
+        durationMinutes: 30,
+        quiz: [
+          { id: 'conflict-1', prompt: 'What comes first with an upset customer?', options: ['Listen', 'Offer a discount', 'Call security'], correctOptions: [0] }
+        ]
+      }
+    ],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  }
+];
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const enroll = (id: string, courseId: string, [employeeId, employeeName]: [string, string], startDate: Date): TrainingEnrollment => ({
+  id,
+  courseId,
+  employeeId,
+  employeeName,
+  status: 'scheduled',
+  startDate: startDate.toISOString().split('T')[0],
+  progress: []
+});
+
+const correctAnswers = (course: TrainingCourse, moduleId: string) =>
+  Object.fromEntries((course.modules.find(module => module.id === moduleId)?.quiz || []).map(question => [question.id, question.correctOptions]));
+
+// Pass the first `moduleCount` modules of a course on the given day
+const completeModules = (enrollment: TrainingEnrollment, moduleCount: number, at: Date): TrainingState => {
+  const course = SEED_COURSES.find(candidate => candidate.id === enrollment.courseId)!;
+  return course.modules.slice(0, moduleCount).reduce<TrainingState>((state, module) => {
+    const result = submitModule(state.enrollments[0], course, module.id, correctAnswers(course, module.id), at);
+    return {
+      ...state,
+      enrollments: [result.enrollment],
+      certificates: result.certificate ? [result.certificate] : state.certificates
+    };
+  }, { courses: [], enrollments: [enrollment], certificates: [], rules: [] });
+};
+
+// John is certified, Jane's certificate lapsed last month and Mike has not started yet
+const SEEDED = [
+  completeModules(enroll('1', 'samsung-product', ['emp001', 'John Doe'], daysAgo(95)), 2, daysAgo(90)),
+  completeModules(enroll('2', 'samsung-product', ['emp002', 'Jane Smith'], daysAgo(400)), 2, daysAgo(396)),
+  completeModules(enroll('3', 'customer-service', ['emp002', 'Jane Smith'], daysAgo(5)), 1, daysAgo(4)),
+  completeModules(enroll('4', 'bosch-kitchen', ['emp003', 'Mike Johnson'], daysAgo(-3)), 0, daysAgo(0))
+];
+
+const SEED_RULES: CertificationRule[] = [
+  { id: 'rule-samsung', brand: 'Samsung', workplaceIds: ['1', '2'], isActive: true },
+  { id: 'rule-bosch', brand: 'Bosch', workplaceIds: ['3'], isActive: true }
+];
+
+/**
+ * Seed courses, enrollments, certificates and rules for the training and
+ * assignment pages until the training API exists
+ */
+export const INITIAL_TRAINING_STATE: TrainingState = {
+  courses: SEED_COURSES,
+  enrollments: SEEDED.flatMap(state => state.enrollments),
+  certificates: SEEDED.flatMap(state => state.certificates),
+  rules: SEED_RULES
+};
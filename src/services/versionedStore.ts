@@ -0,0 +1,57 @@
+/**
+ * Versioned Store
+ *
+ * Shared localStorage persistence for service state:
+ * - State is saved as JSON under one key together with a format version
+ * - Loading returns the fallback when nothing is stored, the version does
+ *   not match or the stored JSON is unreadable
+ * - Each service decides which stored fields it reads and how missing
+ *   fields fall back
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface VersionedStoreOptions<T> {
+  key: string;                   // Storage key
+  version: number;               // Format version; other versions are ignored
+  label: string;                 // What is stored, for error messages
+  read: (saved: any, fallback: T) => T | undefined; // State from the stored payload; undefined falls back
+  write?: (state: T) => object;  // Payload to store (default: the state's own fields)
+}
+
+export interface VersionedStore<T> {
+  load: (fallback: T, storage?: KeyValueStorage) => T;
+  save: (state: T, storage?: KeyValueStorage) => void;
+}
+
+/**
+ * Load and save functions for state kept under one versioned storage key
+ */
+export const createVersionedStore = <T>({
+  key,
+  version,
+  label,
+  read,
+  write = state => ({ ...(state as unknown as object) }),
+}: VersionedStoreOptions<T>): VersionedStore<T> => ({
+  load: (fallback, storage = localStorage) => {
+    try {
+      const saved = JSON.parse(storage.getItem(key) || 'null');
+      if (!saved || saved.version !== version) return fallback;
+      return read(saved, fallback) ?? fallback;
+    } catch (error) {
+      console.error(`Error loading ${label}:`, error);
+      return fallback;
+    }
+  },
+  save: (state, storage = localStorage) => {
+    try {
+      storage.setItem(key, JSON.stringify({ version, ...write(state) }));
+    } catch (error) {
+      console.error(`Error saving ${label}:`, error);
+    }
+  },
+});
@@ -0,0 +1,488 @@
+/**
+ * Weather Impact
+ *
+ * Daily weather per workplace joined to visits, attendance and sales:
+ * - Observations and forecasts imported from CSV/XLSX with a column
+ *   mapping, or fetched through a pluggable WeatherProvider
+ * - Days classified by adverse factor (rain, snow, heat, cold, wind)
+ * - Impact per area or workplace: the metric on days with a factor
+ *   against plain days, with a Welch t-test so a handful of odd days
+ *   does not count as an effect
+ * - Forecast days where a significant drop in visit completion is
+ *   expected, so journey plans can be rescheduled ahead of time
+ *
+ * Observed weather always wins over a forecast for the same day and
+ * workplace; only observed weather is used to measure impact.
+ *
+ * @author Workforce Management Team
+ * @version 1.0.0
+ */
+
+import {
+  BatchImportError,
+  WeatherColumn,
+  WeatherColumnMapping,
+  WeatherCondition,
+  WeatherFactor,
+  WeatherImpact,
+  WeatherImpactMetric,
+  WeatherObservation,
+  WeatherRisk
+} from '../types';
+import {
+  ColumnDefinition,
+  guessColumnMapping,
+  parseCellDate,
+  parseCellNumber,
+  readMappedRows,
+  validateColumnMapping
+} from './columnImport';
+import { ForecastHistory } from './demandForecast';
+import { createVersionedStore } from './versionedStore';
+
+/**
+ * Error raised for unusable weather files and failing providers
+ */
+export class WeatherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WeatherError';
+  }
+}
+
+export const WEATHER_FACTORS: { value: WeatherFactor; label: string }[] = [
+  { value: 'rain', label: 'Rain' },
+  { value: 'snow', label: 'Snow' },
+  { value: 'heat', label: 'Heat' },
+  { value: 'cold', label: 'Frost' },
+  { value: 'wind', label: 'Strong wind' },
+];
+
+export const WEATHER_IMPACT_METRICS: { value: WeatherImpactMetric; label: string }[] = [
+  { value: 'visit-completion', label: 'visit completion' },
+  { value: 'attendance', label: 'attendance' },
+  { value: 'sales', label: 'sales' },
+];
+
+export const WEATHER_THRESHOLDS = {
+  precipitationMm: 1,            // Wet day from this much rain or snow
+  snowMaxC: 1,                   // Precipitation falls as snow at or below this high
+  heatC: 30,                     // Hot day from this high
+  coldC: 0,                      // Frost day at or below this high
+  windKmh: 40,                   // Windy day from this wind speed
+};
+
+export type WeatherColumnDefinition = ColumnDefinition<WeatherColumn>;
+
+export const WEATHER_COLUMNS: WeatherColumnDefinition[] = [
+  { column: 'date', label: 'Date', required: true, aliases: ['date', 'day', 'datum'] },
+  { column: 'workplaceCode', label: 'Workplace code', required: true, aliases: ['workplace code', 'workplace', 'store code', 'store', 'outlet code', 'outlet', 'filiale'] },
+  { column: 'kind', label: 'Observed / forecast', required: false, aliases: ['kind', 'type', 'observed / forecast', 'source type'] },
+  { column: 'condition', label: 'Condition', required: false, aliases: ['condition', 'weather', 'conditions', 'wetter'] },
+  { column: 'temperatureMax', label: 'High (°C)', required: true, aliases: ['high (°c)', 'temperature', 'temp', 'max temp', 'temperature max', 'tmax', 'high'] },
+  { column: 'temperatureMin', label: 'Low (°C)', required: false, aliases: ['low (°c)', 'min temp', 'temperature min', 'tmin', 'low'] },
+  { column: 'precipitationMm', label: 'Precipitation (mm)', required: true, aliases: ['precipitation (mm)', 'precipitation', 'rain', 'rain mm', 'niederschlag'] },
+  { column: 'windSpeedKmh', label: 'Wind (km/h)', required: false, aliases: ['wind (km/h)', 'wind', 'wind speed', 'wind kmh'] },
+];
+
+const CONDITION_ALIASES: Record<WeatherCondition, string[]> = {
+  sunny: ['sunny', 'sun', 'clear', 'fair'],
+  'partly-cloudy': ['partly-cloudy', 'partly cloudy', 'mostly sunny'],
+  cloudy: ['cloudy', 'overcast', 'fog', 'mist', 'mostly cloudy'],
+  rainy: ['rainy', 'rain', 'showers', 'drizzle', 'thunderstorm', 'storm'],
+  snowy: ['snowy', 'snow', 'sleet', 'snow showers'],
+  windy: ['windy', 'wind', 'gale'],
+};
+
+const MIN_DAYS = 3;
+const MIN_T = 2;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const formatDay = (time: number) => new Date(time).toISOString().split('T')[0];
+
+// ===== CLASSIFICATION =====
+
+/**
+ * Weather condition from free text, or null when it is not recognised
+ */
+export const parseWeatherCondition = (value: string): WeatherCondition | null => {
+  const text = value.trim().toLowerCase();
+  const match = (Object.keys(CONDITION_ALIASES) as WeatherCondition[]).find(condition => CONDITION_ALIASES[condition].includes(text));
+  return match || null;
+};
+
+/**
+ * Condition implied by the measurements when a file has none
+ */
+export const deriveWeatherCondition = (observation: Pick<WeatherObservation, 'temperatureMax' | 'precipitationMm' | 'windSpeedKmh'>): WeatherCondition => {
+  if (observation.precipitationMm >= WEATHER_THRESHOLDS.precipitationMm) {
+    return observation.temperatureMax <= WEATHER_THRESHOLDS.snowMaxC ? 'snowy' : 'rainy';
+  }
+  if (observation.windSpeedKmh >= WEATHER_THRESHOLDS.windKmh) return 'windy';
+  return observation.precipitationMm > 0 ? 'cloudy' : 'sunny';
+};
+
+/**
+ * Adverse factors of a day; empty for a plain day
+ */
+export const classifyWeather = (observation: WeatherObservation): WeatherFactor[] => {
+  const factors: WeatherFactor[] = [];
+  const wet = observation.precipitationMm >= WEATHER_THRESHOLDS.precipitationMm;
+  if (observation.condition === 'snowy' || (wet && observation.temperatureMax <= WEATHER_THRESHOLDS.snowMaxC)) factors.push('snow');
+  else if (observation.condition === 'rainy' || wet) factors.push('rain');
+  if (observation.temperatureMax >= WEATHER_THRESHOLDS.heatC) factors.push('heat');
+  if (observation.temperatureMax <= WEATHER_THRESHOLDS.coldC) factors.push('cold');
+  if (observation.condition === 'windy' || observation.windSpeedKmh >= WEATHER_THRESHOLDS.windKmh) factors.push('wind');
+  return factors;
+};
+
+// ===== IMPORT =====
+
+/**
+ * Map headers to weather columns by their usual names
+ */
+export const guessWeatherMapping = (headers: string[]): WeatherColumnMapping => guessColumnMapping(WEATHER_COLUMNS, headers);
+
+/**
+ * Problems with a column mapping; empty when the file can be imported
+ */
+export const validateWeatherMapping = (mapping: WeatherColumnMapping, headers: string[]): string[] =>
+  validateColumnMapping(WEATHER_COLUMNS, mapping, headers);
+
+const weatherKey = (observation: Pick<WeatherObservation, 'date' | 'workplaceCode'>) => `${observation.date}|${observation.workplaceCode}`;
+
+export interface WeatherParseResult {
+  observations: WeatherObservation[];
+  errors: BatchImportError[];
+  totalRows: number;
+}
+
+/**
+ * Validate spreadsheet rows (header first) into weather observations.
+ * Without a kind column, days after today are forecasts.
+ * Row numbers in errors match the spreadsheet, so the header is row 1.
+ */
+export const parseWeatherRows = (
+  rows: string[][],
+  mapping: WeatherColumnMapping,
+  options: { workplaceCodes: string[]; source: string; importId?: string; today?: string }
+): WeatherParseResult => {
+  const knownCodes = new Set(options.workplaceCodes);
+  const today = options.today || formatDay(Date.now());
+
+  const { records, errors, totalRows } = readMappedRows<WeatherColumn, WeatherObservation>(rows, mapping, {
+    validate: validateWeatherMapping,
+    createError: message => new WeatherError(message),
+    duplicate: { key: weatherKey, column: 'date', error: firstRow => `Same date and workplace as row ${firstRow}` },
+    readRow: ({ cell, fail }) => {
+      const number = (column: WeatherColumn, label: string, fallback?: number) => {
+        if (!cell(column)) {
+          if (fallback === undefined) fail(column, `${label} is missing`);
+          return fallback;
+        }
+        const value = parseCellNumber(cell(column));
+        if (Number.isNaN(value)) {
+          fail(column, `"${cell(column)}" is not a number`);
+          return undefined;
+        }
+        return value;
+      };
+
+      const date = parseCellDate(cell('date'));
+      if (!cell('date')) fail('date', 'Date is missing');
+      else if (!date) fail('date', `"${cell('date')}" is not a date`);
+
+      const workplaceCode = cell('workplaceCode');
+      if (!workplaceCode) fail('workplaceCode', 'Workplace code is missing');
+      else if (!knownCodes.has(workplaceCode)) fail('workplaceCode', `Unknown workplace code "${workplaceCode}"`);
+
+      let kind: WeatherObservation['kind'] = date && date > today ? 'forecast' : 'historical';
+      const kindText = cell('kind').toLowerCase();
+      if (['forecast', 'predicted'].includes(kindText)) kind = 'forecast';
+      else if (['historical', 'observed', 'actual'].includes(kindText)) kind = 'historical';
+      else if (kindText) fail('kind', `"${cell('kind')}" is neither observed nor forecast`);
+      if (kind === 'historical' && date && date > today) fail('date', 'Observed weather cannot be in the future');
+
+      const temperatureMax = number('temperatureMax', 'High');
+      const temperatureMin = number('temperatureMin', 'Low', NaN);
+      const precipitationMm = number('precipitationMm', 'Precipitation');
+      const windSpeedKmh = number('windSpeedKmh', 'Wind', 0);
+      if (precipitationMm !== undefined && precipitationMm < 0) fail('precipitationMm', 'Precipitation cannot be negative');
+      if (windSpeedKmh !== undefined && windSpeedKmh < 0) fail('windSpeedKmh', 'Wind cannot be negative');
+
+      let condition: WeatherCondition | null = null;
+      if (cell('condition')) {
+        condition = parseWeatherCondition(cell('condition'));
+        if (!condition) fail('condition', `Unknown weather condition "${cell('condition')}"`);
+      }
+
+      if (!date || temperatureMax === undefined || precipitationMm === undefined || windSpeedKmh === undefined) return undefined;
+      return {
+        date,
+        workplaceCode,
+        kind,
+        condition: condition || deriveWeatherCondition({ temperatureMax, precipitationMm, windSpeedKmh }),
+        temperatureMax,
+        ...(temperatureMin !== undefined && !Number.isNaN(temperatureMin) ? { temperatureMin } : {}),
+        precipitationMm,
+        windSpeedKmh,
+        source: options.source,
+        importId: options.importId,
+      };
+    },
+  });
+
+  return { observations: records, errors, totalRows };
+};
+
+/**
+ * Add observations, replacing earlier ones for the same date and
+ * workplace. A forecast never replaces observed weather.
+ */
+export const mergeWeather = (existing: WeatherObservation[], incoming: WeatherObservation[]): WeatherObservation[] => {
+  const byKey = new Map(existing.map(observation => [weatherKey(observation), observation]));
+  incoming.forEach(observation => {
+    const current = byKey.get(weatherKey(observation));
+    if (current && current.kind === 'historical' && observation.kind === 'forecast') return;
+    byKey.set(weatherKey(observation), observation);
+  });
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.workplaceCode.localeCompare(b.workplaceCode));
+};
+
+// ===== PROVIDERS =====
+
+export interface WeatherProviderRequest {
+  workplaces: { code: string; latitude?: number; longitude?: number }[];
+  from: string;                  // First day (YYYY-MM-DD)
+  to: string;                    // Last day (YYYY-MM-DD), may be in the future for forecasts
+}
+
+/**
+ * Source of weather observations and forecasts, e.g. a weather API
+ */
+export interface WeatherProvider {
+  id: string;
+  name: string;
+  fetchObservations: (request: WeatherProviderRequest) => Promise<WeatherObservation[]>;
+}
+
+/**
+ * Provider serving a fixed set of observations, for tests and demos
+ */
+export const createFixtureWeatherProvider = (observations: WeatherObservation[], id: string = 'fixture'): WeatherProvider => ({
+  id,
+  name: 'Local fixture',
+  fetchObservations: async ({ workplaces, from, to }) => {
+    const codes = new Set(workplaces.map(workplace => workplace.code));
+    return observations
+      .filter(observation => codes.has(observation.workplaceCode) && observation.date >= from && observation.date <= to)
+      .map(observation => ({ ...observation, source: id }));
+  },
+});
+
+/**
+ * Fetch from a provider and merge into the stored observations
+ */
+export const refreshWeather = async (
+  provider: WeatherProvider,
+  request: WeatherProviderRequest,
+  existing: WeatherObservation[]
+): Promise<WeatherObservation[]> => {
+  let fetched: WeatherObservation[];
+  try {
+    fetched = await provider.fetchObservations(request);
+  } catch (error) {
+    throw new WeatherError(`${provider.name} could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return mergeWeather(existing, fetched);
+};
+
+// ===== IMPACT =====
+
+export interface WeatherWorkplace {
+  code: string;
+  name: string;
+  areaName: string;
+}
+
+interface DaySample {
+  total: number;
+  done: number;
+}
+
+/**
+ * Per workplace-day totals of a metric: planned / completed visits,
+ * scheduled / present staff, or one day / its sell-out
+ */
+const dailySamples = (history: ForecastHistory, metric: WeatherImpactMetric): Map<string, DaySample> => {
+  const samples = new Map<string, DaySample>();
+  const add = (key: string, total: number, done: number) => {
+    const sample = samples.get(key) || { total: 0, done: 0 };
+    samples.set(key, { total: metric === 'sales' ? 1 : sample.total + total, done: sample.done + done });
+  };
+
+  if (metric === 'sales') {
+    history.sellOut.forEach(record => add(weatherKey(record), 1, record.amount));
+  } else {
+    history.activity.forEach(record => {
+      const total = metric === 'visit-completion' ? record.plannedVisits : record.scheduledStaff;
+      const done = metric === 'visit-completion' ? record.completedVisits : record.presentStaff;
+      if (total) add(weatherKey(record), total, done || 0);
+    });
+  }
+  return samples;
+};
+
+const groupValue = (samples: DaySample[], metric: WeatherImpactMetric) => {
+  const total = samples.reduce((sum, sample) => sum + sample.total, 0);
+  const done = samples.reduce((sum, sample) => sum + sample.done, 0);
+  if (!total) return 0;
+  return metric === 'sales' ? done / total : (done / total) * 100;
+};
+
+/**
+ * Welch's t statistic for the difference of two means
+ */
+export const welchT = (a: number[], b: number[]): number => {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = (values: number[], m: number) => values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1);
+  if (a.length < 2 || b.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  const error = Math.sqrt(variance(a, meanA) / a.length + variance(b, meanB) / b.length);
+  if (!error) return meanA === meanB ? 0 : Math.sign(meanA - meanB) * Infinity;
+  return (meanA - meanB) / error;
+};
+
+/**
+ * Metric on days with each weather factor against plain days, per area
+ * or workplace. Sorted with the largest drop first.
+ */
+export const measureWeatherImpact = (
+  history: ForecastHistory,
+  weather: WeatherObservation[],
+  workplaces: WeatherWorkplace[],
+  options: { scope: WeatherImpact['scope']; metrics?: WeatherImpactMetric[] }
+): WeatherImpact[] => {
+  const byCode = new Map(workplaces.map(workplace => [workplace.code, workplace]));
+  const observed = weather.filter(observation => observation.kind === 'historical' && byCode.has(observation.workplaceCode));
+  const metrics = options.metrics || WEATHER_IMPACT_METRICS.map(entry => entry.value);
+  const impacts: WeatherImpact[] = [];
+
+  metrics.forEach(metric => {
+    const samples = dailySamples(history, metric);
+    // group key -> factor (or '' for plain days) -> samples
+    const groups = new Map<string, { label: string; byFactor: Map<string, DaySample[]> }>();
+
+    observed.forEach(observation => {
+      const sample = samples.get(weatherKey(observation));
+      if (!sample) return;
+      const workplace = byCode.get(observation.workplaceCode) as WeatherWorkplace;
+      const key = options.scope === 'area' ? workplace.areaName : workplace.code;
+      const group = groups.get(key) || { label: options.scope === 'area' ? workplace.areaName : workplace.name, byFactor: new Map() };
+      const factors = classifyWeather(observation);
+      (factors.length ? factors : ['']).forEach(factor => {
+        group.byFactor.set(factor, [...(group.byFactor.get(factor) || []), sample]);
+      });
+      groups.set(key, group);
+    });
+
+    groups.forEach(({ label, byFactor }, key) => {
+      const baseline = byFactor.get('') || [];
+      if (!baseline.length) return;
+      const baselineValue = groupValue(baseline, metric);
+      const perDay = (entries: DaySample[]) => entries.map(sample => groupValue([sample], metric));
+
+      WEATHER_FACTORS.forEach(({ value: factor }) => {
+        const factorSamples = byFactor.get(factor) || [];
+        if (!factorSamples.length) return;
+        const factorValue = groupValue(factorSamples, metric);
+        const t = welchT(perDay(factorSamples), perDay(baseline));
+        impacts.push({
+          factor,
+          metric,
+          scope: options.scope,
+          key,
+          label,
+          factorDays: factorSamples.length,
+          baselineDays: baseline.length,
+          factorValue: round1(factorValue),
+          baselineValue: round1(baselineValue),
+          changePercentage: baselineValue ? round1(((factorValue - baselineValue) / baselineValue) * 100) : 0,
+          significant: factorSamples.length >= MIN_DAYS && baseline.length >= MIN_DAYS && Math.abs(t) >= MIN_T,
+        });
+      });
+    });
+  });
+
+  return impacts.sort((a, b) => a.changePercentage - b.changePercentage || a.label.localeCompare(b.label));
+};
+
+/**
+ * Impact as a sentence, e.g. "Rain reduces visit completion 18% in Area North"
+ */
+export const describeWeatherImpact = (impact: WeatherImpact): string => {
+  const factor = WEATHER_FACTORS.find(entry => entry.value === impact.factor)?.label || impact.factor;
+  const metric = WEATHER_IMPACT_METRICS.find(entry => entry.value === impact.metric)?.label || impact.metric;
+  const where = impact.scope === 'area' ? `Area ${impact.label}` : impact.label;
+  if (!impact.changePercentage) return `${factor} does not change ${metric} in ${where}`;
+  const verb = impact.changePercentage < 0 ? 'reduces' : 'increases';
+  return `${factor} ${verb} ${metric} ${Math.abs(Math.round(impact.changePercentage))}% in ${where}`;
+};
+
+/**
+ * Forecast days with a significant expected drop in visit completion.
+ * Workplace impacts are used where measured, otherwise the area's.
+ */
+export const getWeatherRisks = (
+  weather: WeatherObservation[],
+  impacts: WeatherImpact[],
+  workplaces: WeatherWorkplace[],
+  options: { from: string; rescheduleBelow?: number }
+): WeatherRisk[] => {
+  const rescheduleBelow = options.rescheduleBelow ?? -10;
+  const byCode = new Map(workplaces.map(workplace => [workplace.code, workplace]));
+  const findImpact = (scope: WeatherImpact['scope'], key: string, factor: WeatherFactor) =>
+    impacts.find(impact => impact.metric === 'visit-completion' && impact.significant && impact.scope === scope && impact.key === key && impact.factor === factor);
+
+  return weather
+    .filter(observation => observation.kind === 'forecast' && observation.date >= options.from && byCode.has(observation.workplaceCode))
+    .flatMap(observation => {
+      const workplace = byCode.get(observation.workplaceCode) as WeatherWorkplace;
+      const factors = classifyWeather(observation);
+      const changes = factors
+        .map(factor => findImpact('workplace', workplace.code, factor) || findImpact('area', workplace.areaName, factor))
+        .filter((impact): impact is WeatherImpact => !!impact && impact.changePercentage < 0)
+        .map(impact => impact.changePercentage);
+      if (!changes.length) return [];
+      const expectedChange = Math.min(...changes);
+      return [{
+        date: observation.date,
+        workplaceCode: workplace.code,
+        workplaceName: workplace.name,
+        areaName: workplace.areaName,
+        factors,
+        expectedChange,
+        reschedule: expectedChange <= rescheduleBelow,
+      }];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.expectedChange - b.expectedChange);
+};
+
+// ===== PERSISTENCE =====
+
+const weatherStore = createVersionedStore<WeatherObservation[]>({
+  key: 'weatherObservations',
+  version: 1,
+  label: 'weather observations',
+  read: saved => saved.observations,
+  write: observations => ({ observations }),
+});
+
+/**
+ * Load saved observations, or the fallback when nothing (valid) is stored
+ */
+export const loadWeatherObservations = weatherStore.load;
+
+export const saveWeatherObservations = weatherStore.save;
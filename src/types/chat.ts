@@ -66,9 +66,12 @@ export interface ChatMessage {
   sender?: ChatUser;
   replyTo?: ChatMessage;
   threadMessages?: ChatMessage[];
+  clientId?: string;
+  deliveryStatus?: MessageDeliveryStatus;
 }
 
 export interface MessageMetadata {
+  clientMessageId?: string; // client-generated ID the message was sent with
   clientInfo?: {
     platform: string;
     version: string;
@@ -394,6 +397,81 @@ export interface ChatEvent {
   channelId?: string;
 }
 
+// Threads, Mentions and Unread Types
+
+export interface MessageThread {
+  root: ChatMessage;
+  replies: ChatMessage[];
+  participantIds: string[];
+  lastReplyAt?: string;
+}
+
+export interface MessageMention {
+  type: 'user' | 'channel';
+  userId?: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface MentionSuggestion {
+  type: 'user' | 'channel';
+  userId?: string;
+  label: string;
+  description?: string;
+  insert: string;
+}
+
+export interface ChannelReadMarker {
+  lastReadAt: string;
+  lastReadMessageId?: string;
+}
+
+export interface ChannelUnreadCount {
+  unread: number;
+  mentions: number;
+}
+
+// Counts chat-service keeps from the member's read marker
+export interface ChannelUnreadSummary extends ChannelUnreadCount {
+  channelId: string;
+  lastReadAt?: string;
+}
+
+export type ChannelNotificationMode = 'all' | 'mentions' | 'none';
+
+export interface ChatInboxState {
+  markers: Record<string, ChannelReadMarker>;
+  counts: Record<string, ChannelUnreadCount>;
+  notificationSettings: Record<string, NotificationSettings>;
+}
+
+// Offline Outbox and Message Cache Types
+
+export type MessageDeliveryStatus = 'sending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  clientId: string;
+  channelId: string;
+  senderId: string;
+  content: string;
+  messageType: SendMessageForm['messageType'];
+  replyToId?: string;
+  mentions?: string[];
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+  status: 'queued' | 'failed';
+}
+
+export interface ChannelMessageCache {
+  channelId: string;
+  messages: ChatMessage[];
+  cursor?: string;
+  syncedAt?: string;
+}
+
 // API Response Types
 
 export interface ChatApiResponse<T> {
@@ -436,6 +514,8 @@ export interface SendMessageForm {
   threadId?: string;
   attachments?: File[];
   metadata?: Record<string, any>;
+  clientId?: string;
+  mentions?: string[];           // Mentioned user IDs, and 'channel' for @channel
 }
 
 export interface UpdateMessageForm {
@@ -117,6 +117,83 @@ export interface WorkShift {
   isActive: boolean;             // Whether shift is active
 }
 
+/**
+ * Pay rules for turning attendance into payroll hours
+ */
+export interface PayRules {
+  dailyOvertimeAfterHours?: number;   // Paid hours per day before overtime (e.g. 8)
+  weeklyOvertimeAfterHours?: number;  // Regular hours per week before overtime (e.g. 40)
+  weekStartsOn: number;          // First day of the overtime week (0 = Sunday)
+  overtimeMultiplier: number;    // Pay factor for overtime hours (e.g. 1.5)
+  nightStart: string;            // Night premium window start (HH:MM)
+  nightEnd: string;              // Night premium window end (HH:MM)
+  nightPremium: number;          // Extra pay factor for night hours (e.g. 0.25)
+  weekendDays: number[];         // Weekend days (0 = Sunday)
+  weekendPremium: number;        // Extra pay factor for weekend hours (e.g. 0.5)
+  paidBreakTypes: Break['type'][];  // Break types that stay paid
+  maxPaidBreakMinutes?: number;  // Paid break minutes per day; the rest is unpaid
+  roundingMinutes: number;       // Punch rounding increment (0 = no rounding)
+  roundingMode: 'nearest' | 'up' | 'down';  // How punches are rounded
+}
+
+/**
+ * Paid time for one attendance record
+ */
+export interface TimesheetLine {
+  recordId: string;              // Source attendance record
+  userId: string;                // Employee ID
+  date: string;                  // Work date (YYYY-MM-DD)
+  clockIn?: string;              // Rounded clock-in (HH:MM)
+  clockOut?: string;             // Rounded clock-out (HH:MM)
+  workedMinutes: number;         // Clock-in to clock-out
+  unpaidBreakMinutes: number;    // Deducted break time
+  paidMinutes: number;           // Worked minus unpaid breaks
+  regularMinutes: number;        // Paid at the base rate
+  overtimeMinutes: number;       // Paid at the overtime rate
+  nightMinutes: number;          // Paid minutes inside the night window
+  weekendMinutes: number;        // Paid minutes on weekend days
+  issues: string[];              // Problems payroll should review
+}
+
+/**
+ * Timesheet for one employee and pay period
+ */
+export interface Timesheet {
+  userId: string;                // Employee ID
+  periodStart: string;           // Pay period start (YYYY-MM-DD)
+  periodEnd: string;             // Pay period end (YYYY-MM-DD)
+  lines: TimesheetLine[];        // One line per attendance record
+  regularHours: number;          // Total regular hours
+  overtimeHours: number;         // Total overtime hours
+  nightHours: number;            // Total night premium hours
+  weekendHours: number;          // Total weekend premium hours
+  paidHours: number;             // Regular + overtime
+  weightedHours: number;         // Hours with overtime and premium factors applied
+}
+
+/**
+ * Column in a payroll export layout
+ */
+export interface TimesheetExportColumn {
+  field: string;                 // Timesheet or line field, or 'payrollId'
+  header?: string;               // Header text (defaults to the field)
+  width?: number;                // Column width (required for fixed-width)
+  align?: 'left' | 'right';      // Padding side for fixed-width (numbers default right)
+}
+
+/**
+ * Payroll provider import layout
+ */
+export interface TimesheetExportLayout {
+  format: 'csv' | 'fixed-width'; // Output format
+  rows: 'summary' | 'daily';     // One row per employee or per attendance record
+  columns: TimesheetExportColumn[];  // Output columns in order
+  delimiter?: string;            // CSV delimiter (default ',')
+  includeHeader?: boolean;       // Write a header row (default true for CSV)
+  decimals?: number;             // Decimals for hour values (default 2)
+  lineEnding?: '\n' | '\r\n';    // Line ending (default '\r\n')
+}
+
 /**
  * Geofence zone for location-based attendance
  */
@@ -127,10 +204,64 @@ export interface GeofenceZone {
     lat: number;                 // Latitude
     lng: number;                 // Longitude
   };
-  radius: number;                // Zone radius in meters
+  radius: number;                // Zone radius in meters (circle zones)
   address: string;               // Zone address
   isActive: boolean;             // Whether zone is active
   allowedMethods: string[];      // Allowed attendance methods for this zone
+  shape?: 'circle' | 'polygon';  // Boundary shape (defaults to circle)
+  polygon?: Array<{              // Boundary vertices in order (polygon zones)
+    lat: number;
+    lng: number;
+  }>;
+  workplaceId?: string;          // Workplace this zone belongs to (a workplace may have several)
+  hysteresis?: number;           // Meters beyond the boundary before an exit is recognised
+}
+
+/**
+ * Entry or exit of a geofence zone, derived from a stream of GPS fixes
+ */
+export interface GeofenceEvent {
+  id: string;                    // Unique event ID
+  type: 'entry' | 'exit';        // Transition direction
+  zoneId: string;                // Zone that was entered or left
+  zoneName: string;              // Zone name at the time of the event
+  workplaceId?: string;          // Workplace of the zone
+  timestamp: string;             // Time of the confirming GPS fix
+  location: {                    // Confirming GPS fix
+    lat: number;
+    lng: number;
+    accuracy: number;
+  };
+}
+
+/**
+ * Per-zone inside/outside memory used to smooth noisy GPS fixes
+ */
+export interface GeofenceMembership {
+  inside: boolean;               // Confirmed state
+  pendingFixes: number;          // Consecutive fixes that disagree with the confirmed state
+  since?: string;                // When the confirmed state started
+}
+
+/**
+ * Result of checking a location against geofence zones for a punch
+ */
+export interface GeofenceValidation {
+  isAllowed: boolean;            // Whether the location satisfies the geofence
+  reason: string;                // Human readable explanation
+  zone: GeofenceZone | null;     // Zone that matched, or the nearest zone
+  distance: number;              // Meters outside the boundary (0 when inside)
+}
+
+/**
+ * A continuous stay inside a zone, paired from entry and exit events
+ */
+export interface GeofenceVisit {
+  zoneId: string;                // Zone ID
+  workplaceId?: string;          // Workplace ID
+  enteredAt: string;             // Entry timestamp
+  exitedAt?: string;             // Exit timestamp (missing while still inside)
+  durationMinutes?: number;      // Length of the stay once exited
 }
 
 /**
@@ -448,6 +579,8 @@ export interface Shift {
   type: 'regular' | 'overtime' | 'night' | 'weekend';  // Shift type
   status: 'scheduled' | 'approved' | 'completed' | 'cancelled';  // Shift status
   notes?: string;                // Additional notes
+  workplaceId?: string;          // Workplace the shift covers
+  templateId?: string;           // Template the shift was created from
 }
 
 /**
@@ -462,6 +595,73 @@ export interface ShiftTemplate {
   color: string;                 // Color for UI display
 }
 
+/**
+ * Required headcount for a shift template at a workplace
+ */
+export interface CoverageRequirement {
+  workplaceId: string;           // Workplace to cover
+  templateId: string;            // Shift template to staff
+  daysOfWeek: number[];          // Days the requirement applies (0 = Sunday)
+  headcount: number;             // Employees needed per shift
+}
+
+/**
+ * Employee as seen by the roster auto-scheduler
+ */
+export interface RosterEmployee {
+  userId: string;                // Employee ID
+  name: string;                  // Display name
+  workplaceIds: string[];        // Workplaces the employee may be rostered at
+  maxWeeklyHours: number;        // Maximum hours per scheduled week
+}
+
+/**
+ * Rule the auto-scheduler checks for every assignment
+ */
+export type RosterRule =
+  | 'not_eligible'               // Not assigned to the workplace
+  | 'on_leave'                   // Approved leave covers the date
+  | 'day_off'                    // EmployeeSchedule marks the date as not a work day
+  | 'outside_availability'       // Shift falls outside the available hours
+  | 'overlap'                    // Overlaps another shift of the employee
+  | 'rest_period'                // Too little rest since/before another shift
+  | 'max_hours';                 // Would exceed maximum weekly hours
+
+/**
+ * Coverage slot the auto-scheduler could not fill completely
+ */
+export interface RosterUnfilledSlot {
+  workplaceId: string;           // Workplace
+  templateId: string;            // Shift template
+  date: string;                  // Shift date (YYYY-MM-DD)
+  required: number;              // Headcount required
+  filled: number;                // Headcount assigned
+  blockers: Partial<Record<RosterRule, string[]>>;  // Employees ruled out, by rule
+  message: string;               // Explanation for schedulers
+}
+
+/**
+ * Rule broken by a shift already on the roster
+ */
+export interface RosterViolation {
+  shiftId: string;               // Offending shift
+  userId: string;                // Employee
+  date: string;                  // Shift date
+  rule: RosterRule;              // Broken rule
+  message: string;               // Explanation for schedulers
+}
+
+/**
+ * Result of auto-filling a week's roster
+ */
+export interface RosterResult {
+  weekStart: string;             // First day of the week (YYYY-MM-DD)
+  shifts: Shift[];               // Newly generated shifts
+  unfilled: RosterUnfilledSlot[];  // Slots still short of headcount
+  violations: RosterViolation[];   // Rule violations in existing shifts
+  hoursByEmployee: Record<string, number>;  // Rostered hours per employee for the week
+}
+
 // ============================================================================
 // LEAVE MANAGEMENT TYPES
 // ============================================================================
@@ -491,6 +691,8 @@ export interface LeaveType {
   maxDays: number;               // Maximum days allowed per year
   color: string;                 // Color for UI display
   requiresApproval: boolean;     // Whether approval is required
+  allowNegativeBalance?: boolean;  // Whether leave may be taken in advance
+  maxNegativeDays?: number;      // Deepest allowed negative balance (when allowed)
 }
 
 /**
@@ -502,6 +704,8 @@ export interface LeaveBalance {
   totalDays: number;             // Total days allocated
   usedDays: number;              // Days used
   remainingDays: number;         // Days remaining
+  expiredDays?: number;          // Days lost to carryover expiry (ledger-derived)
+  asOf?: string;                 // Date the balance was derived for (YYYY-MM-DD)
 }
 
 // ============================================================================
@@ -522,6 +726,7 @@ export interface LeaveGrant {
   periodEnd: string;             // Period end date
   carryoverType: 'months' | 'days' | 'nextYear' | 'specificDate';  // Carryover type
   carryoverValue?: number | string;  // Carryover value
+  accrualMethod?: 'upfront' | 'monthly';  // Credit all days at once or month by month (default upfront)
   createdBy: string;             // Admin who created the grant
   createdAt: string;             // Creation timestamp
   details?: LeaveGrantDetail[];  // Individual details (for 'individual' type)
@@ -538,6 +743,32 @@ export interface LeaveGrantDetail {
   carryoverExpiration: string;   // Carryover expiration date
 }
 
+/**
+ * Leave ledger transaction; balances are always derived from these
+ */
+export interface LeaveTransaction {
+  id: string;                    // Transaction ID
+  userId: string;                // Employee ID
+  leaveTypeId: string;           // Leave type ID
+  type: 'grant' | 'accrual' | 'use' | 'expiry' | 'adjustment';  // Transaction type
+  days: number;                  // Signed days: credits positive, debits negative
+  effectiveDate: string;         // Date the transaction applies (YYYY-MM-DD)
+  expiresOn?: string;            // Last usable day of credited days
+  grantId?: string;              // Source LeaveGrant
+  leaveRequestId?: string;       // Source LeaveRequest (for 'use')
+  description: string;           // Human-readable explanation
+  createdBy: string;             // Who recorded the transaction
+  createdAt: string;             // Creation timestamp
+}
+
+/**
+ * Ledger line: a transaction with the balance after it
+ */
+export interface LeaveLedgerEntry {
+  transaction: LeaveTransaction; // Recorded or derived transaction
+  balance: number;               // Balance after the transaction
+}
+
 // ============================================================================
 // JOURNEY PLAN TYPES
 // ============================================================================
@@ -558,6 +789,151 @@ export interface JourneyLocation {
   priority: 'high' | 'medium' | 'low';  // Visit priority
 }
 
+// ============================================================================
+// FORM SCHEMA TYPES
+// ============================================================================
+
+/**
+ * Field types of the shared form schema
+ */
+export type FormFieldType =
+  | 'text' | 'textarea' | 'number' | 'date' | 'time' | 'datetime'
+  | 'select' | 'multiselect' | 'radio' | 'checkbox' | 'yes_no' | 'rating'
+  | 'file' | 'image' | 'location' | 'signature'
+  | 'custom';                    // Type-specific widget described by config (e.g. merchandising questions)
+
+/**
+ * Choice of a select, multiselect or radio field
+ */
+export interface FormFieldOption {
+  value: string;                 // Stored value
+  label: string;                 // Display label
+  id?: string;                   // Source option ID, kept for migrated questions
+  description?: string;          // Extra explanation
+  image?: string;                // Option image URL
+  isOther?: boolean;             // "Other" option with free text
+}
+
+/**
+ * Validation rules of a form field
+ */
+export interface FormFieldValidation {
+  minLength?: number;            // Shortest text
+  maxLength?: number;            // Longest text
+  min?: number;                  // Lowest number (or fewest choices for multiselect)
+  max?: number;                  // Highest number (or most choices for multiselect)
+  pattern?: string;              // Regex the text must match
+  message?: string;              // Message shown instead of the default
+}
+
+/**
+ * Field of the shared form schema
+ */
+export interface FormSchemaField {
+  id: string;                    // Field ID
+  key: string;                   // Key of the value in submission data; never changes once published
+  label: string;                 // Display label
+  type: FormFieldType;           // Field type
+  required: boolean;             // Whether a value is required
+  placeholder?: string;          // Placeholder text
+  helpText?: string;             // Help shown under the field
+  options?: FormFieldOption[];   // Choices for select, multiselect and radio
+  validation?: FormFieldValidation;  // Validation rules
+  defaultValue?: any;            // Initial value
+  hidden?: boolean;              // Kept in the schema but not shown
+  config?: Record<string, any>;  // Type-specific settings carried over from the source model
+}
+
+/**
+ * Section of a form schema
+ */
+export interface FormSchemaSection {
+  id: string;                    // Section ID
+  title: string;                 // Section title
+  description?: string;          // Section description
+  fields: FormSchemaField[];     // Fields in display order
+}
+
+/**
+ * One published version of a form. Versions are immutable once published,
+ * so a submission is always rendered with the version it was entered in.
+ */
+export interface FormSchema {
+  format: 1;                     // Schema format, bumped on incompatible changes to these types
+  id: string;                    // Form ID, shared by all versions
+  version: number;               // Form version, starting at 1
+  title: string;                 // Form title
+  description?: string;          // Form description
+  source: 'operations' | 'report';  // Model the form belongs to
+  sections: FormSchemaSection[]; // Sections in display order
+  publishedAt?: string;          // Publication timestamp
+}
+
+/**
+ * Design-time problem found in a form schema
+ */
+export interface FormSchemaIssue {
+  sectionId?: string;            // Section with the problem
+  fieldId?: string;              // Field with the problem
+  severity: 'error' | 'warning'; // Errors block publishing
+  message: string;               // Human-readable explanation
+}
+
+/**
+ * Submitted value shown against the form version it was entered in
+ */
+export interface FormSubmissionValue {
+  key: string;                   // Data key
+  label: string;                 // Label in that version (the key for data the version lacks)
+  type: FormFieldType | 'unknown';  // Field type in that version
+  value: any;                    // Raw value
+  display: string;               // Formatted value
+}
+
+/**
+ * Operations custom form
+ */
+export interface CustomForm {
+  id: string;                    // Form ID
+  title: string;                 // Form title
+  description: string;           // Form description
+  category: string;              // Form category
+  fields: CustomFormField[];     // Fields before the shared schema; formVersions wins when present
+  formVersions?: FormSchema[];   // Published schema versions, oldest first
+  isActive: boolean;             // Whether the form is active
+  createdAt: string;             // Creation timestamp
+  submissions: CustomFormSubmission[];  // Submissions
+}
+
+/**
+ * Operations custom form field (pre-schema model)
+ */
+export interface CustomFormField {
+  id: string;                    // Field ID
+  type: 'text' | 'number' | 'select' | 'checkbox' | 'radio' | 'textarea' | 'date' | 'file';  // Field type
+  label: string;                 // Label, also the key of submitted data
+  required: boolean;             // Whether a value is required
+  options?: string[];            // Choices
+  placeholder?: string;          // Placeholder text
+  validation?: string;           // Regex the value must match
+}
+
+/**
+ * Operations custom form submission
+ */
+export interface CustomFormSubmission {
+  id: string;                    // Submission ID
+  formId: string;                // Form ID
+  formVersion?: number;          // Form version it was entered in (1 when missing)
+  submittedBy: string;           // Submitter
+  submittedAt: string;           // Submission timestamp
+  data: Record<string, any>;     // Values by field key
+  status: 'pending' | 'approved' | 'rejected';  // Review status
+  reviewedBy?: string;           // Reviewer
+  reviewedAt?: string;           // Review timestamp
+  notes?: string;                // Review notes
+}
+
 // ============================================================================
 // REPORT TYPES
 // ============================================================================
@@ -570,7 +946,8 @@ export interface ReportTemplate {
   name: string;                  // Template name (e.g., "Visit Report", "Work Log")
   description: string;           // Template description
   category: 'daily' | 'weekly' | 'monthly' | 'custom' | 'application';  // Report category
-  fields: ReportField[];         // Array of form fields
+  fields: ReportField[];         // Array of form fields (pre-schema model); formVersions wins when present
+  formVersions?: FormSchema[];   // Published schema versions, oldest first
   isActive: boolean;             // Whether template is active
   isRecurring: boolean;          // Whether this is a recurring report
   recurrencePattern?: {          // Recurrence pattern for recurring reports
@@ -624,6 +1001,7 @@ export interface ReportSubmission {
   dueDate?: string;              // Due date (if applicable)
   status: 'draft' | 'submitted' | 'approved' | 'rejected' | 'overdue';  // Submission status
   data: Record<string, any>;     // Submitted form data
+  templateVersion?: number;      // Form version the data was entered in (1 when missing)
   attachments?: string[];        // File attachments
   location?: {                   // Submission location
     latitude: number;
@@ -700,6 +1078,7 @@ export interface JourneyPlan {
   title: string;                 // Journey plan title
   employeeId: string;            // Assigned employee ID
   date: string;                  // Journey date (YYYY-MM-DD)
+  endDate?: string;              // Return date for journeys over several days (YYYY-MM-DD)
   startTime: string;             // Start time (HH:MM)
   endTime: string;               // End time (HH:MM)
   locations: JourneyLocation[];  // List of locations to visit
@@ -757,6 +1136,99 @@ export interface JourneyPlanSettings {
   updatedAt: string;             // Last update timestamp
 }
 
+// ============================================================================
+// ROUTE OPTIMIZATION TYPES
+// ============================================================================
+
+/**
+ * A stop the route solver must place on exactly one merchandiser's route
+ */
+export interface RouteStop {
+  id: string;                    // Stop ID (usually the workplace or location ID)
+  name: string;                  // Display name
+  location: {                    // GPS coordinates
+    lat: number;
+    lng: number;
+  };
+  visitDuration: number;         // Time spent on site in minutes
+  timeWindow?: {                 // Optional opening window (HH:MM, same day)
+    start: string;
+    end: string;
+  };
+  priority?: 'high' | 'medium' | 'low';  // High priority stops are placed first
+}
+
+/**
+ * A merchandiser (vehicle) available to the route solver
+ */
+export interface RouteVehicle {
+  id: string;                    // Employee ID
+  name: string;                  // Employee name
+  shiftStart: string;            // Shift start (HH:MM)
+  shiftEnd: string;              // Shift end (HH:MM)
+  startLocation?: {              // Home or depot; omitted means the route starts at the first stop
+    lat: number;
+    lng: number;
+  };
+  endLocation?: {                // Where the day ends; defaults to startLocation
+    lat: number;
+    lng: number;
+  };
+}
+
+/**
+ * Tuning knobs for the route solver
+ */
+export interface RouteSolverOptions {
+  averageSpeedKmh?: number;      // Average travel speed (default 40)
+  roadFactor?: number;           // Road distance vs. straight line multiplier (default 1.3)
+  balanceWeight?: number;        // How strongly workloads are evened out (default 0.5)
+  maxIterations?: number;        // Improvement passes after construction (default 50)
+}
+
+/**
+ * A stop as scheduled on a solved route
+ */
+export interface PlannedRouteStop {
+  stopId: string;                // Stop ID
+  order: number;                 // 1-based position on the route
+  arrivalTime: string;           // Planned arrival (HH:MM)
+  startTime: string;             // Planned service start after any wait (HH:MM)
+  departureTime: string;         // Planned departure (HH:MM)
+  waitMinutes: number;           // Minutes waited for the time window to open
+  travelDistance: number;        // Kilometers from the previous point
+  travelMinutes: number;         // Minutes from the previous point
+}
+
+/**
+ * One merchandiser's solved route
+ */
+export interface VehicleRoute {
+  vehicleId: string;             // Employee ID
+  stops: PlannedRouteStop[];     // Ordered stops
+  totalDistance: number;         // Kilometers, including return to endLocation
+  travelMinutes: number;         // Minutes driving
+  serviceMinutes: number;        // Minutes on site
+  waitMinutes: number;           // Minutes waiting for time windows
+  totalDuration: number;         // Minutes from leaving to finishing the day
+  startTime: string;             // Departure (HH:MM)
+  endTime: string;               // Finish (HH:MM)
+}
+
+/**
+ * Full output of the route solver
+ */
+export interface RouteSolution {
+  routes: VehicleRoute[];        // One entry per vehicle, in input order
+  unassigned: Array<{            // Stops that fit no route
+    stopId: string;
+    reason: string;
+  }>;
+  totalDistance: number;         // Sum of route distances in kilometers
+  totalDuration: number;         // Sum of route durations in minutes
+  workloadSpread: number;        // Longest minus shortest route duration, in minutes
+}
+
 // ============================================================================
 // TASK MANAGEMENT TYPES
 // ============================================================================
@@ -789,6 +1261,131 @@ export interface TaskCategory {
   description?: string;          // Category description
 }
 
+// ============================================================================
+// OPERATIONS AUDIT TYPES
+// ============================================================================
+
+/**
+ * Checklist item in an audit template
+ */
+export interface AuditTemplateItem {
+  id: string;                    // Item ID, unique within the template
+  question: string;              // What the auditor checks
+  points: number;                // Points earned when the item passes
+  critical?: boolean;            // Failing it fails the whole audit
+  allowNA?: boolean;             // Whether the item may be answered N/A
+  correctiveAction?: string;     // Recommended fix when the item fails
+}
+
+/**
+ * Weighted section of an audit template
+ */
+export interface AuditTemplateSection {
+  id: string;                    // Section ID
+  title: string;                 // Section title
+  weight: number;                // Relative weight in the overall score
+  items: AuditTemplateItem[];    // Checklist items
+}
+
+/**
+ * Score band that decides when the next audit is due
+ */
+export interface AuditScheduleBand {
+  label: string;                 // Band name (e.g. 'Excellent')
+  minScore: number;              // Lowest score in the band (0-100)
+  intervalDays: number;          // Days until the next audit
+}
+
+/**
+ * Weighted audit template
+ */
+export interface AuditTemplate {
+  id: string;                    // Template ID
+  title: string;                 // Template title
+  type: Audit['type'];           // Audit type the template is for
+  sections: AuditTemplateSection[];  // Weighted sections
+  passScore: number;             // Lowest passing score (0-100)
+  scheduleBands: AuditScheduleBand[];  // Next-audit intervals by score
+  actionDueDays: number;         // Days to close a corrective action
+  criticalActionDueDays: number; // Days to close one raised by a critical item
+}
+
+/**
+ * Auditor's answer to one checklist item
+ */
+export interface AuditAnswer {
+  itemId: string;                // Template item ID
+  result: 'pass' | 'fail' | 'na';  // Outcome
+  note?: string;                 // Auditor's note
+}
+
+/**
+ * Score of one template section
+ */
+export interface AuditSectionScore {
+  sectionId: string;             // Template section ID
+  earned: number;                // Points from passed items
+  possible: number;              // Points of items not answered N/A
+  percentage: number | null;     // earned / possible, null when every item is N/A
+}
+
+/**
+ * Outcome of scoring an audit's answers against its template
+ */
+export interface AuditScoreResult {
+  score: number;                 // Weighted score (0-100)
+  sections: AuditSectionScore[]; // Score per section
+  criticalFailures: string[];    // IDs of failed critical items
+  autoFailed: boolean;           // Whether a critical item failed
+  passed: boolean;               // Passing score and no critical failure
+  band: AuditScheduleBand;       // Score band used for scheduling
+  nextAuditDate: string;         // Next audit due date (YYYY-MM-DD)
+  findings: string[];            // One line per failed item
+  recommendations: string[];     // Corrective actions of failed items
+  unanswered: string[];          // IDs of items without an answer
+}
+
+/**
+ * Operations audit
+ */
+export interface Audit {
+  id: string;                    // Audit ID
+  title: string;                 // Audit title
+  type: 'safety' | 'quality' | 'compliance' | 'maintenance' | 'inventory';  // Audit type
+  location: string;              // Audited location
+  auditor: string;               // Auditor name
+  date: string;                  // Audit date (YYYY-MM-DD)
+  status: 'scheduled' | 'in-progress' | 'completed' | 'failed';  // Audit status
+  score?: number;                // Score out of maxScore
+  maxScore: number;              // Highest possible score
+  findings: string[];            // Issues found
+  recommendations: string[];     // Recommended fixes
+  attachments?: string[];        // Related files
+  nextAuditDate?: string;        // When the location is audited next
+  templateId?: string;           // Template the audit is scored with
+  answers?: AuditAnswer[];       // Checklist answers
+  autoFailed?: boolean;          // Failed on a critical item
+}
+
+/**
+ * Corrective action raised by a failed audit item
+ */
+export interface CorrectiveAction {
+  id: string;                    // Action ID
+  auditId: string;               // Audit that raised it
+  itemId: string;                // Failed template item
+  finding: string;               // What failed
+  action?: string;               // Recommended fix
+  critical: boolean;             // Raised by a critical item
+  location: string;              // Audited location
+  dueDate: string;               // Close-by date (YYYY-MM-DD)
+  status: 'open' | 'closed';     // Action status
+  createdAt: string;             // Creation timestamp
+  closedAt?: string;             // Closing timestamp
+  closedBy?: string;             // Who closed it
+  resolution?: string;           // How it was fixed
+}
+
 // ============================================================================
 // COMMUNICATION TYPES
 // ============================================================================
@@ -1270,7 +1867,7 @@ export interface TodoTask {
   description: string;           // Task description
   assignedBy: string;            // User who assigned the task
   assignedTo: string[];          // Employee IDs assigned to this task
-  assignedWorkplaces?: string[]; // Workplace IDs (if assigned by workplace)
+  assignedWorkplaces?: string[]; // Workplace codes (if assigned by workplace)
   priority: 'low' | 'medium' | 'high' | 'urgent';  // Task priority
   difficulty?: 'easy' | 'medium' | 'hard';  // Task difficulty level
   status: 'pending' | 'in-progress' | 'completed' | 'overdue' | 'cancelled';  // Task status
@@ -1631,6 +2228,75 @@ export interface GroupMemberFilters {
   searchTerm?: string;           // Search term for member name/email
 }
 
+/**
+ * Groups and member assignments a re-org operates on
+ */
+export interface OrgStructure {
+  groups: Group[];               // All groups, flat with parentGroupId links
+  groupMembers: GroupMember[];   // Member assignments, including leaders
+}
+
+/**
+ * A single restructuring step: a group moved under a new parent, or a
+ * member moved to another group
+ */
+export type ReorgMove =
+  | { type: 'group'; groupId: string; toParentId: string; fromParentId?: string }
+  | { type: 'member'; memberId: string; fromGroupId: string; toGroupId: string };
+
+/**
+ * What a member gains or loses through a re-org
+ */
+export type ReorgImpactAspect = 'approvers' | 'workplaces' | 'report-viewers';
+
+export interface ReorgImpactChange {
+  memberId: string;              // Member whose access or reporting line changes
+  memberName: string;            // Member name for display
+  aspect: ReorgImpactAspect;     // What changes
+  gained: string[];              // Member or workplace IDs gained
+  lost: string[];                // Member or workplace IDs lost
+}
+
+/**
+ * Result of checking a move before it is committed
+ */
+export interface ReorgPreview {
+  move: ReorgMove;               // Move being previewed
+  errors: string[];              // Validation failures; empty when the move is allowed
+  summary: string;               // Human-readable description of the move
+  changes: ReorgImpactChange[];  // Per-member impact
+  affectedMemberIds: string[];   // Members with at least one change
+  depthChanges: { groupId: string; from: number; to: number }[]; // Groups whose depth changes
+}
+
+/**
+ * Committed re-org, kept so it can be undone and audited
+ */
+export interface ReorgEntry {
+  id: string;                    // Entry ID
+  move: ReorgMove;               // Move that was applied
+  summary: string;               // Human-readable description
+  affectedMemberIds: string[];   // Members whose access changed
+  changeCount: number;           // Number of impact changes at the time
+  previous: OrgStructure;        // Changed records as they were before the move
+  performedBy: string;           // User who made the move
+  performedAt: string;           // Timestamp
+  undoneBy?: string;             // User who undid the move
+  undoneAt?: string;             // Undo timestamp
+}
+
+/**
+ * Filters for querying re-org history
+ */
+export interface ReorgHistoryFilters {
+  groupId?: string;              // Moves touching this group
+  memberId?: string;             // Moves of, or affecting, this member
+  performedBy?: string;          // Moves made by this user
+  from?: string;                 // Performed on or after (ISO date)
+  to?: string;                   // Performed on or before (ISO date)
+  includeUndone?: boolean;       // Include moves that were undone
+}
+
 /**
  * Group import data for bulk operations
  */
@@ -1791,6 +2457,8 @@ export interface Area {
   id: string;                    // Area ID
   name: string;                  // Area name
   description?: string;          // Area description
+  managerId?: string;            // Area manager member ID; receives incident escalations
+  managerName?: string;          // Area manager name
   isActive: boolean;             // Whether area is active
   createdBy: string;             // Admin who created this area
   createdAt: string;             // Creation timestamp
@@ -1998,43 +2666,11 @@ export interface Member {
     phone: string;
     email?: string;
   };
-  permissions: MemberPermissions;  // Member's permissions
   lastLoginAt?: string;          // Last login timestamp
   createdAt: string;             // Member creation timestamp
   updatedAt: string;             // Last update timestamp
 }
 
-/**
- * Member permissions based on role
- */
-export interface MemberPermissions {
-  // Admin permissions
-  canManageAllGroups: boolean;   // Can manage all groups
-  canManageAllMembers: boolean;  // Can manage all members
-  canViewAllData: boolean;       // Can view all company data
-  canApproveAllRequests: boolean; // Can approve all requests
-  canManageSystemSettings: boolean; // Can manage system settings
-  
-  // Leader permissions
-  canManageAssignedGroups: boolean; // Can manage assigned groups
-  canViewGroupMembers: boolean;  // Can view members in managed groups
-  canViewGroupReports: boolean;  // Can view reports for managed groups
-  canViewGroupAttendance: boolean; // Can view attendance for managed groups
-  canViewGroupSchedules: boolean; // Can view schedules for managed groups
-  canApproveGroupRequests: boolean; // Can approve requests from group members
-  canCreateGroupTasks: boolean;  // Can create tasks for group members
-  canManageGroupSettings: boolean; // Can manage group-specific settings
-  
-  // Employee permissions
-  canViewOwnData: boolean;       // Can view own data
-  canSubmitRequests: boolean;    // Can submit approval requests
-  canCreateReports: boolean;     // Can create reports
-  canUseAttendance: boolean;     // Can use attendance features
-  canViewOwnSchedule: boolean;   // Can view own schedule
-  canUseChat: boolean;           // Can use chat features
-  canUsePostingBoard: boolean;   // Can use posting board
-}
-
 /**
  * Member statistics and metrics
  */
@@ -2087,18 +2723,75 @@ export interface MemberImportData {
   groups?: string[];             // Group assignments
   managerId?: string;            // Manager ID
   workplaceId?: string;          // Workplace ID
+  status?: Member['status'];     // Employment status from the HRIS
   emergencyContactName?: string; // Emergency contact name
   emergencyContactPhone?: string; // Emergency contact phone
   emergencyContactRelationship?: string; // Emergency contact relationship
 }
 
 /**
- * Member management settings
+ * Columns of an HRIS member file; the same columns are used for export
  */
-export interface MemberManagementSettings {
-  id: string;                    // Settings ID
-  allowSelfRegistration: boolean; // Allow members to self-register
-  requireApprovalForRegistration: boolean; // Require approval for new registrations
+export type MemberImportColumn =
+  | 'employeeId'
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'department'
+  | 'position'
+  | 'hireDate'
+  | 'role'
+  | 'status'
+  | 'groups'
+  | 'managerId'
+  | 'workplaceId'
+  | 'emergencyContactName'
+  | 'emergencyContactPhone'
+  | 'emergencyContactRelationship';
+
+/**
+ * Which header in the uploaded file holds each member column
+ */
+export type MemberImportColumnMapping = Partial<Record<MemberImportColumn, string>>;
+
+/**
+ * What an import does to a member; a member can be updated and moved at once
+ */
+export type MemberImportAction = 'create' | 'update' | 'move' | 'deactivate' | 'unchanged';
+
+/**
+ * One member in a dry-run diff
+ */
+export interface MemberImportChange {
+  employeeId: string;            // Key matching the file to existing members
+  row?: number;                  // File row; absent for members missing from the file
+  actions: MemberImportAction[]; // What happens to the member
+  fields: {                      // Field-level differences
+    field: MemberImportColumn;
+    from: string;
+    to: string;
+  }[];
+  before?: Member;               // Member as it is now; absent for new members
+  after: Member;                 // Member once the import is applied
+}
+
+/**
+ * Dry-run result of an import; nothing is changed until it is applied
+ */
+export interface MemberImportPlan {
+  changes: MemberImportChange[]; // Per-member changes, unchanged members included
+  errors: BatchImportError[];    // Row errors; those rows are skipped
+  totalRows: number;             // Data rows in the file
+  counts: Record<MemberImportAction, number>; // Members per action
+}
+
+/**
+ * Member management settings
+ */
+export interface MemberManagementSettings {
+  id: string;                    // Settings ID
+  allowSelfRegistration: boolean; // Allow members to self-register
+  requireApprovalForRegistration: boolean; // Require approval for new registrations
   defaultRole: MemberRole;       // Default role for new members
   allowRoleChanges: boolean;     // Allow changing member roles
   allowGroupChanges: boolean;    // Allow changing group assignments
@@ -2116,6 +2809,867 @@ export interface MemberManagementSettings {
   updatedAt: string;             // Last update timestamp
 }
 
+// ============================================================================
+// AUTHORIZATION TYPES
+// ============================================================================
+
+/**
+ * Actions a policy can allow or deny; 'manage' implies every other action
+ */
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'approve' | 'manage';
+
+/**
+ * Resource types protected by the authorization module
+ */
+export type PermissionResourceType =
+  | 'dashboard'
+  | 'attendance'
+  | 'schedule'
+  | 'leave'
+  | 'leave-grant'
+  | 'overtime'
+  | 'journey-plan'
+  | 'simulation'
+  | 'notice'
+  | 'report'
+  | 'posting-board'
+  | 'todo'
+  | 'chat'
+  | 'chatbot'
+  | 'document'
+  | 'approval'
+  | 'in-store-data'
+  | 'group'
+  | 'workplace'
+  | 'member'
+  | 'company-settings'
+  | 'employee-settings'
+  | 'admin';
+
+/**
+ * A concrete resource to authorize against.
+ * Without ownerId, groupId or workplaceId the check is type-level:
+ * "can the member do this to any resource of this type".
+ */
+export interface PermissionResource {
+  type: PermissionResourceType;  // Resource type
+  id?: string;                   // Resource ID (group ID for 'group', workplace ID for 'workplace')
+  ownerId?: string;              // Member the resource belongs to
+  groupId?: string;              // Group the resource belongs to
+  workplaceId?: string;          // Workplace the resource belongs to
+}
+
+/**
+ * How far a policy reaches:
+ * - all: every resource
+ * - group-subtree: resources in the policy's groups or any of their subgroups
+ * - workplace: resources at the policy's workplaces
+ * - own: resources owned by the member
+ */
+export type PermissionScope = 'all' | 'group-subtree' | 'workplace' | 'own';
+
+/**
+ * Where a policy comes from
+ */
+export type PermissionPolicySource = 'role' | 'leader' | 'approval-authority' | 'grant';
+
+/**
+ * Allow or deny rule evaluated by the authorization module
+ */
+export interface PermissionPolicy {
+  id: string;                    // Policy ID
+  effect: 'allow' | 'deny';      // Deny wins over allow
+  actions: (PermissionAction | '*')[]; // Actions covered
+  resources: (PermissionResourceType | '*')[]; // Resource types covered
+  scope: PermissionScope;        // Reach of the policy
+  groupIds?: string[];           // Root groups for group-subtree scope
+  workplaceIds?: string[];       // Workplaces for workplace scope
+  source: PermissionPolicySource; // Role, group membership or explicit grant
+  description: string;           // Human-readable summary
+}
+
+/**
+ * Explicit permission granted (or denied) to one member by an admin
+ */
+export interface PermissionGrant {
+  id: string;                    // Grant ID
+  memberId: string;              // Member receiving the grant
+  effect: 'allow' | 'deny';      // Grant or restriction
+  actions: (PermissionAction | '*')[]; // Actions covered
+  resources: (PermissionResourceType | '*')[]; // Resource types covered
+  scope: Exclude<PermissionScope, 'own'>; // Reach of the grant
+  groupId?: string;              // Root group for group-subtree scope
+  workplaceIds?: string[];       // Workplaces for workplace scope
+  grantedBy: string;             // Admin who made the grant
+  grantedAt: string;             // Grant timestamp
+  expiresAt?: string;            // Grant is ignored after this timestamp
+  reason?: string;               // Why the grant was made
+}
+
+/**
+ * Directory the authorization module resolves memberships and grants from
+ */
+export interface AuthorizationDirectory {
+  members: Member[];             // All members
+  groups: Group[];               // Group hierarchy
+  groupMembers: GroupMember[];   // Group assignments with leader flags
+  grants: PermissionGrant[];     // Explicit grants
+}
+
+/**
+ * Outcome of a permission check with the deciding policy
+ */
+export interface PermissionDecision {
+  allowed: boolean;              // Whether the action is allowed
+  policyId?: string;             // Deciding policy, if any matched
+  reason: string;                // Explanation for audit and debugging
+}
+
+// ============================================================================
+// SALES TARGET TYPES
+// ============================================================================
+
+/**
+ * Sales target for a workplace over a period
+ */
+export interface SalesTarget {
+  id: string;                    // Target ID
+  workplaceId: string;           // Workplace ID
+  workplaceName: string;         // Workplace name
+  workplaceCode: string;         // Workplace code, matched against sell-out rows
+  areaName: string;              // Area the workplace belongs to
+  distributorName: string;       // Distributor supplying the workplace
+  assignedTo: string;            // Merchandiser responsible for the target
+  targetAmount: number;          // Target sell-out amount
+  period: string;                // Period label (e.g., 'Q4 2025')
+  startDate: string;             // First day of the period (YYYY-MM-DD)
+  endDate: string;               // Last day of the period (YYYY-MM-DD)
+  notes?: string;                // Notes
+  createdAt: string;             // Creation timestamp
+  updatedAt: string;             // Last update timestamp
+}
+
+/**
+ * Daily sell-out of one SKU at one workplace
+ */
+export interface SellOutRecord {
+  date: string;                  // Sales date (YYYY-MM-DD)
+  workplaceCode: string;         // Workplace code
+  sku: string;                   // Product SKU
+  quantity: number;              // Units sold
+  amount: number;                // Sales value
+  importId?: string;             // Import the row came from
+}
+
+/**
+ * Sell-out column a spreadsheet column can be mapped to
+ */
+export type SellOutColumn = 'date' | 'workplaceCode' | 'sku' | 'quantity' | 'amount';
+
+/**
+ * Spreadsheet header chosen for each sell-out column
+ */
+export type SellOutColumnMapping = Partial<Record<SellOutColumn, string>>;
+
+/**
+ * Sell-out import result
+ */
+export interface SellOutImport {
+  id: string;                    // Import ID
+  fileName: string;              // Uploaded file name
+  mapping: SellOutColumnMapping; // Column mapping used
+  totalRows: number;             // Total data rows in file
+  processedRows: number;         // Rows imported
+  failedRows: number;            // Rows rejected
+  errors: BatchImportError[];    // Errors per row
+  status: 'processing' | 'completed' | 'failed';  // Import status
+  createdBy: string;             // Who ran the import
+  createdAt: string;             // Import timestamp
+  completedAt?: string;          // Completion timestamp
+}
+
+/**
+ * Achievement and run-rate of a sales target on a given day
+ */
+export interface SalesTargetProgress {
+  targetId: string;              // Target ID
+  achievedAmount: number;        // Sell-out so far in the period
+  achievementPercentage: number; // Achieved as % of target
+  elapsedDays: number;           // Days of the period up to the as-of date
+  totalDays: number;             // Days in the period
+  dailyRunRate: number;          // Average sell-out per elapsed day
+  projectedAmount: number;       // Sell-out at period end at the current run-rate
+  projectedPercentage: number;   // Projection as % of target
+  status: 'achieved' | 'in-progress' | 'at-risk' | 'not-started';  // Derived status
+}
+
+/**
+ * Leaderboard row for an area, distributor or merchandiser
+ */
+export interface SalesLeaderboardEntry {
+  rank: number;                  // Position, 1 = best achievement
+  name: string;                  // Area, distributor or merchandiser name
+  targetCount: number;           // Targets counted
+  targetAmount: number;          // Sum of targets
+  achievedAmount: number;        // Sum of sell-out
+  achievementPercentage: number; // Achieved as % of target
+  projectedPercentage: number;   // Projected as % of target
+}
+
+// ============================================================================
+// INVENTORY TYPES
+// ============================================================================
+
+/**
+ * Product stocked at a workplace
+ */
+export interface InventoryItem {
+  id: string;                    // Item ID
+  workplaceId: string;           // Workplace ID
+  workplaceName: string;         // Workplace name
+  workplaceCode: string;         // Workplace code, matched against ledger movements
+  productId: string;             // Product ID
+  productName: string;           // Product name
+  category: string;              // Product category
+  sku: string;                   // SKU code
+  minStock: number;              // Safety stock kept on hand
+  maxStock: number;              // Order-up-to level
+  reorderPoint: number;          // Reorder when stock at delivery would fall to this
+  unitCost: number;              // Cost per unit
+  distributorId: string;         // Distributor that supplies the item
+  distributorName: string;       // Distributor name
+  leadTimeDays: number;          // Days from order to delivery
+  packSize?: number;             // Orders are rounded up to whole packs
+  location: string;              // Location in the workplace
+  notes?: string;                // Notes
+  createdAt: string;             // Creation timestamp
+  updatedAt: string;             // Last update timestamp
+}
+
+/**
+ * Stock movement of one SKU at one workplace
+ */
+export interface InventoryMovement {
+  id: string;                    // Movement ID; visit counts use `${todoId}-${questionId}-${sku}`
+  workplaceCode: string;         // Workplace code
+  sku: string;                   // SKU code
+  type: 'count' | 'delivery' | 'adjustment';  // Counts set stock, deliveries and adjustments change it
+  quantity: number;              // Units counted, delivered or adjusted (+/-)
+  occurredAt: string;            // When the movement happened
+  balance: number;               // Stock after the movement
+  variance?: number;             // Count minus the stock the ledger expected
+  countMethod?: string;          // Counting method for counts
+  note?: string;                 // Discrepancy note or reason
+  source?: {                     // Visit the count came from
+    todoId: string;
+    questionId: string;
+  };
+  recordedBy: string;            // Who recorded the movement
+}
+
+/**
+ * Stock position of an item derived from the ledger
+ */
+export interface InventoryPosition {
+  itemId: string;                // Item ID
+  currentStock: number;          // Latest ledger balance
+  lastCountedAt?: string;        // Latest count
+  averageDailyDemand: number;    // Units used per day over the demand window
+  daysOfCover: number | null;    // Days the stock lasts at that demand; null without demand
+  outOfStockStreak: number;      // Consecutive latest counts at zero
+  outOfStockSince?: string;      // First count of the current zero streak
+  status: 'healthy' | 'low-stock' | 'out-of-stock';  // Stock status
+}
+
+/**
+ * Suggested order for an item
+ */
+export interface ReorderSuggestion {
+  itemId: string;                // Item ID
+  workplaceCode: string;         // Workplace code
+  workplaceName: string;         // Workplace name
+  sku: string;                   // SKU code
+  productName: string;           // Product name
+  distributorId: string;         // Distributor to order from
+  distributorName: string;       // Distributor name
+  currentStock: number;          // Stock now
+  stockAtDelivery: number;       // Expected stock when an order placed today arrives
+  quantity: number;              // Units to order
+  reason: string;                // Why the order is suggested
+}
+
+// ============================================================================
+// INCIDENT TYPES
+// ============================================================================
+
+/**
+ * Incident lifecycle stage, in order
+ */
+export type IncidentStatus = 'reported' | 'triaged' | 'assigned' | 'resolved' | 'verified';
+
+/**
+ * Incident severity; each severity has its own SLA clock
+ */
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * SLA targets for one severity, in hours from the report
+ */
+export interface IncidentSlaPolicy {
+  severity: IncidentSeverity;    // Severity the targets apply to
+  responseHours: number;         // Hours until someone must be assigned
+  resolutionHours: number;       // Hours until the incident must be resolved
+}
+
+/**
+ * Photo or GPS evidence attached to an incident
+ */
+export interface IncidentEvidence {
+  id: string;                    // Evidence ID
+  type: 'photo' | 'location';    // Evidence type
+  url?: string;                  // Photo URL
+  location?: {                   // GPS position where the evidence was captured
+    latitude: number;
+    longitude: number;
+    accuracy?: number;           // Accuracy in meters
+  };
+  caption?: string;              // Caption
+  source: 'mobile' | 'web';      // App the evidence was captured in
+  capturedBy: string;            // User who captured it
+  capturedAt: string;            // Capture timestamp
+}
+
+/**
+ * Entry in an incident's timeline
+ */
+export interface IncidentTimelineEntry {
+  id: string;                    // Entry ID
+  type: 'status' | 'escalation' | 'evidence' | 'note';  // What happened
+  at: string;                    // Timestamp
+  by: string;                    // User (or 'system') responsible
+  from?: IncidentStatus;         // Previous status (status changes)
+  to?: IncidentStatus;           // New status (status changes)
+  note?: string;                 // Details
+}
+
+/**
+ * Escalation of an incident whose SLA was breached
+ */
+export interface IncidentEscalation {
+  stage: 'response' | 'resolution'; // SLA that was breached
+  escalatedAt: string;           // When it was escalated
+  escalatedTo: string;           // Area manager member ID
+  escalatedToName: string;       // Area manager name
+}
+
+/**
+ * Workplace incident
+ */
+export interface Incident {
+  id: string;                    // Incident ID
+  workplaceId: string;           // Workplace ID
+  workplaceName: string;         // Workplace name
+  workplaceCode: string;         // Workplace code
+  areaId: string;                // Area the workplace belongs to
+  areaName: string;              // Area name
+  incidentType: string;          // Incident type (Safety Incident, Equipment Failure, etc.)
+  severity: IncidentSeverity;    // Severity
+  status: IncidentStatus;        // Lifecycle stage
+  title: string;                 // Short title
+  description: string;           // What happened
+  reportedBy: string;            // Reporter
+  reportedAt: string;            // When it was reported; starts the SLA clock
+  assignedTo?: string;           // Who is working on it
+  resolution?: string;           // How it was resolved
+  evidence: IncidentEvidence[];  // Photo and GPS evidence
+  timeline: IncidentTimelineEntry[]; // Every status change, escalation and attachment
+  escalations: IncidentEscalation[]; // SLA escalations to the area manager
+  createdAt: string;             // Creation timestamp
+  updatedAt: string;             // Last update timestamp
+}
+
+/**
+ * Where an incident stands against its SLA
+ */
+export interface IncidentSlaState {
+  stage: 'response' | 'resolution' | 'done'; // Clock that is running
+  dueAt: string;                 // When the running clock expires
+  remainingMinutes: number;      // Minutes left (negative when breached)
+  status: 'on-track' | 'at-risk' | 'breached' | 'met'; // SLA status
+}
+
+// ============================================================================
+// TRAINING TYPES
+// ============================================================================
+
+/**
+ * Quiz question inside a training module
+ */
+export interface TrainingQuizQuestion {
+  id: string;                    // Question ID
+  prompt: string;                // Question text
+  options: string[];             // Answer options
+  correctOptions: number[];      // Indexes of the correct options (more than one allows several answers)
+}
+
+/**
+ * Module of a training course
+ */
+export interface TrainingModule {
+  id: string;                    // Module ID
+  title: string;                 // Module title
+  content: string;               // Learning material
+  durationMinutes: number;       // Expected time to complete
+  quiz?: TrainingQuizQuestion[]; // Quiz that must be passed to complete the module
+  passThreshold?: number;        // Quiz pass mark in percent (defaults to the course's)
+}
+
+/**
+ * Training course made of modules
+ */
+export interface TrainingCourse {
+  id: string;                    // Course ID
+  title: string;                 // Course title
+  trainingType: string;          // Product Training, Soft Skills, etc.
+  brand?: string;                // Brand the course certifies for
+  description?: string;          // Course description
+  modules: TrainingModule[];     // Modules, completed in order
+  passThreshold: number;         // Default quiz pass mark in percent
+  maxAttempts?: number;          // Quiz attempts per module before the enrollment fails
+  certificateName?: string;      // Certificate issued on completion
+  certificateValidityMonths?: number; // Months until the certificate expires (none: never)
+  createdAt: string;             // Creation timestamp
+  updatedAt: string;             // Last update timestamp
+}
+
+/**
+ * One submitted quiz
+ */
+export interface TrainingQuizAttempt {
+  answers: Record<string, number[]>; // Chosen option indexes per question
+  score: number;                 // Percent of questions answered correctly
+  passed: boolean;               // Whether the score reached the pass mark
+  submittedAt: string;           // Submission timestamp
+}
+
+/**
+ * Progress on one module of an enrollment
+ */
+export interface TrainingModuleProgress {
+  moduleId: string;              // Module ID
+  attempts: TrainingQuizAttempt[]; // Quiz attempts, oldest first
+  completedAt?: string;          // When the module was completed
+}
+
+/**
+ * Employee enrolled in a course
+ */
+export interface TrainingEnrollment {
+  id: string;                    // Enrollment ID
+  courseId: string;              // Course ID
+  employeeId: string;            // Employee ID
+  employeeName: string;          // Employee name
+  status: 'scheduled' | 'in-progress' | 'completed' | 'failed'; // Enrollment status
+  startDate: string;             // Planned start date (YYYY-MM-DD)
+  progress: TrainingModuleProgress[]; // Progress per started module
+  score?: number;                // Average quiz score once completed
+  completedAt?: string;          // Completion timestamp
+}
+
+/**
+ * Certificate issued for a completed course
+ */
+export interface TrainingCertificate {
+  id: string;                    // Certificate ID
+  courseId: string;              // Course completed
+  enrollmentId: string;          // Enrollment that earned it
+  employeeId: string;            // Employee ID
+  employeeName: string;          // Employee name
+  name: string;                  // Certificate name
+  brand?: string;                // Brand the certificate covers
+  score: number;                 // Course score
+  issuedAt: string;              // Issue timestamp
+  expiresAt?: string;            // Expiry timestamp (none: never expires)
+}
+
+/**
+ * Rule requiring a valid brand certificate to be assigned to workplaces
+ */
+export interface CertificationRule {
+  id: string;                    // Rule ID
+  brand: string;                 // Brand a certificate is needed for
+  workplaceIds: string[];        // Workplaces the rule applies to
+  isActive: boolean;             // Whether the rule is enforced
+}
+
+/**
+ * Rule an employee does not meet for an assignment
+ */
+export interface CertificationViolation {
+  ruleId: string;                // Rule broken
+  brand: string;                 // Brand a certificate is needed for
+  reason: 'missing' | 'expired'; // No certificate, or only expired ones
+  expiredAt?: string;            // When the latest certificate expired
+}
+
+// ============================================================================
+// BUDGET & EXPENSE TYPES
+// ============================================================================
+
+export type ExpenseCategory = 'mileage' | 'per-diem' | 'meals' | 'lodging' | 'transport' | 'materials' | 'other';
+
+/**
+ * Spend booked directly against a budget (invoices, purchase orders)
+ */
+export interface BudgetExpense {
+  id: string;                    // Expense ID
+  description: string;           // What was bought
+  amount: number;                // Amount in EUR
+  date: string;                  // Booking date (YYYY-MM-DD)
+  category: string;              // Expense category
+  approvedBy: string;            // Who approved the spend
+}
+
+/**
+ * Budget allocated to an area and cost centre for a period
+ */
+export interface Budget {
+  id: string;                    // Budget ID
+  name: string;                  // Budget name
+  areaId: string;                // Area the budget belongs to
+  areaName: string;              // Area name
+  costCentre: string;            // Cost centre code
+  category: string;              // Operations, Marketing, Travel, etc.
+  periodStart: string;           // First day of the period (YYYY-MM-DD)
+  periodEnd: string;             // Last day of the period (YYYY-MM-DD)
+  allocatedBudget: number;       // Allocated amount in EUR
+  expenses: BudgetExpense[];     // Spend booked directly against the budget
+  notes?: string;                // Budget notes
+  createdAt: string;             // Creation timestamp
+  updatedAt: string;             // Last update timestamp
+}
+
+/**
+ * Receipt photo attached to an expense line
+ */
+export interface ExpenseReceipt {
+  id: string;                    // Receipt ID
+  url: string;                   // Photo URL
+  fileName?: string;             // Original file name
+  capturedAt: string;            // Capture timestamp
+}
+
+/**
+ * One line of an expense claim
+ */
+export interface ExpenseClaimLine {
+  id: string;                    // Line ID
+  category: ExpenseCategory;     // Expense category
+  date: string;                  // Day the cost was incurred (YYYY-MM-DD)
+  description: string;           // What the cost was for
+  amount: number;                // Amount claimed in EUR
+  kilometers?: number;           // Distance driven (mileage)
+  journeyPlanId?: string;        // Journey the mileage or per-diem comes from
+  receipts: ExpenseReceipt[];    // Receipt photos
+}
+
+/**
+ * Mileage and expense claim submitted by a field employee
+ */
+export interface ExpenseClaim {
+  id: string;                    // Claim ID
+  employeeId: string;            // Claimant's member ID
+  employeeName: string;          // Claimant's name
+  areaId: string;                // Area the claim is charged to
+  costCentre: string;            // Cost centre the claim is charged to
+  title: string;                 // Claim title
+  lines: ExpenseClaimLine[];     // Claimed costs
+  total: number;                 // Sum of the lines in EUR
+  status: 'draft' | 'submitted' | 'approved' | 'rejected'; // Claim status
+  source: 'mobile' | 'web';      // Where the claim was entered
+  submittedAt?: string;          // Submission timestamp
+  decidedAt?: string;            // Approval or rejection timestamp
+  rejectionReason?: string;      // Why the claim was rejected
+  createdAt: string;             // Creation timestamp
+  updatedAt: string;             // Last update timestamp
+}
+
+/**
+ * Per-diem allowance for a day away of at least `minHours`
+ */
+export interface PerDiemRule {
+  id: string;                    // Rule ID
+  name: string;                  // Rule name
+  minHours: number;              // Minimum hours away from base
+  amount: number;                // Daily allowance in EUR
+}
+
+/**
+ * Reimbursement rules for expense claims
+ */
+export interface ExpensePolicy {
+  mileageRatePerKm: number;      // EUR reimbursed per kilometre driven
+  perDiemRules: PerDiemRule[];   // Daily allowances by hours away
+  receiptRequiredAbove: number;  // Lines above this amount need a receipt (mileage and per-diem excepted)
+  burnRateWarningShare: number;  // Projected share of the budget that raises a warning (e.g. 0.9)
+}
+
+/**
+ * Budget compared with its actual and pending spend
+ */
+export interface BudgetActual {
+  budgetId: string;              // Budget ID
+  allocated: number;             // Allocated amount
+  spent: number;                 // Direct expenses plus approved claims
+  pending: number;               // Claims waiting for approval
+  remaining: number;             // Allocated minus spent
+  utilization: number;           // Spent as percent of allocated
+  elapsedShare: number;          // Share of the period elapsed (0-1)
+  dailyBurnRate: number;         // Average spend per elapsed day
+  projectedSpend: number;        // Spend at period end at the current burn rate
+  status: 'under-budget' | 'on-track' | 'at-risk' | 'over-budget'; // Budget status
+}
+
+/**
+ * Budget whose burn rate runs ahead of its allocation
+ */
+export interface BurnRateAlert {
+  budgetId: string;              // Budget ID
+  severity: 'warning' | 'critical'; // Critical once the budget is overspent or projected to be
+  message: string;               // Alert text
+  projectedOverrun: number;      // Projected spend above the allocation
+  exhaustedOn?: string;          // Day the budget runs out at the current rate (YYYY-MM-DD)
+}
+
+// ============================================================================
+// COMPETITOR PRICE TYPES
+// ============================================================================
+
+/**
+ * Competitor price line captured on a visit, with where and when it was seen
+ */
+export interface CompetitorPriceObservation extends CompetitorPriceLine {
+  id: string;                    // Observation ID; visit captures use `${todoId}-${questionId}-${ownSku}-${competitorSku}`
+  workplaceId: string;           // Workplace ID
+  workplaceName: string;         // Workplace name
+  retailer: string;              // Retailer (chain) the workplace belongs to
+  areaId: string;                // Area ID
+  areaName: string;              // Area name
+  observedAt: string;            // Capture timestamp
+  recordedBy: string;            // Who captured the prices
+  source?: {                     // Visit the capture came from
+    todoId: string;
+    questionId: string;
+  };
+}
+
+/**
+ * Agreed shelf-price range for an own SKU, optionally for one retailer
+ */
+export interface PriceCorridor {
+  id: string;                    // Corridor ID
+  ownSku: string;                // Own SKU code
+  ownName: string;               // Own product name
+  retailer?: string;             // Retailer the corridor applies to; all retailers when empty
+  minPrice: number;              // Lowest agreed shelf price
+  maxPrice: number;              // Highest agreed shelf price
+}
+
+/**
+ * Price index of one retailer or area over time
+ */
+export interface PriceIndexSeries {
+  key: string;                   // Retailer or area ID
+  label: string;                 // Retailer or area name
+  points: {
+    period: string;              // Week start (YYYY-MM-DD) or month (YYYY-MM)
+    index: number;               // Average of our price / competitor price x 100
+    observations: number;        // Price lines in the period
+  }[];
+}
+
+/**
+ * Store whose latest own shelf price is outside the agreed corridor
+ */
+export interface CorridorBreach {
+  corridorId: string;            // Corridor that is breached
+  workplaceId: string;           // Workplace ID
+  workplaceName: string;         // Workplace name
+  retailer: string;              // Retailer
+  areaName: string;              // Area name
+  ownSku: string;                // Own SKU code
+  ownName: string;               // Own product name
+  ownPrice: number;              // Latest own shelf price
+  minPrice: number;              // Corridor minimum
+  maxPrice: number;              // Corridor maximum
+  direction: 'below' | 'above';  // Side of the corridor the price is on
+  deviation: number;             // Distance from the nearest corridor bound
+  observedAt: string;            // When the price was captured
+}
+
+/**
+ * Promotion activity and shelf presence of one competitor brand
+ */
+export interface CompetitorPromoSummary {
+  competitorBrand: string;       // Competitor brand
+  observations: number;          // Price lines captured
+  promoShare: number;            // Percent of lines on promotion
+  mechanics: Partial<Record<PromoMechanic, number>>; // Lines per promotion mechanic
+  averageDiscount: number;       // Average promo discount off shelf price (percent)
+  ownFacingShare: number;        // Our facings / (ours + theirs) x 100
+}
+
+// ============================================================================
+// FORECAST TYPES
+// ============================================================================
+
+export type ForecastMetric = 'sales' | 'visit-compliance' | 'attendance';
+
+export type ForecastGranularity = 'day' | 'week';
+
+/**
+ * Visit and attendance figures of one workplace on one day
+ */
+export interface WorkplaceActivityRecord {
+  date: string;                  // Day (YYYY-MM-DD)
+  workplaceCode: string;         // Workplace code
+  plannedVisits?: number;        // Visits on the journey plans
+  completedVisits?: number;      // Visits completed
+  scheduledStaff?: number;       // Staff rostered
+  presentStaff?: number;         // Staff who punched in
+  importId?: string;             // Import the row came from
+}
+
+/**
+ * Activity column a spreadsheet column can be mapped to
+ */
+export type WorkplaceActivityColumn = 'date' | 'workplaceCode' | 'plannedVisits' | 'completedVisits' | 'scheduledStaff' | 'presentStaff';
+
+/**
+ * Spreadsheet header chosen for each activity column
+ */
+export type WorkplaceActivityColumnMapping = Partial<Record<WorkplaceActivityColumn, string>>;
+
+/**
+ * Value of a metric in one day or week
+ */
+export interface MetricPoint {
+  period: string;                // Day, or Monday of the week (YYYY-MM-DD)
+  value: number;                 // Sales amount, or compliance / attendance percent
+}
+
+/**
+ * Forecast value of one future period with its prediction interval
+ */
+export interface ForecastPoint extends MetricPoint {
+  lower: number;                 // Lower bound of the prediction interval
+  upper: number;                 // Upper bound of the prediction interval
+}
+
+/**
+ * Accuracy of a model refitted without the latest periods and scored on them
+ */
+export interface ForecastBacktest {
+  holdout: number;               // Periods held out
+  mae: number;                   // Mean absolute error
+  wape: number;                  // Absolute errors as percent of the actuals
+  accuracy: number;              // 100 - WAPE, floored at 0
+  coverage: number;              // Percent of actuals inside the prediction interval
+}
+
+/**
+ * Forecast of one metric at one workplace
+ */
+export interface WorkplaceForecast {
+  workplaceCode: string;         // Workplace code
+  workplaceName: string;         // Workplace name
+  metric: ForecastMetric;        // Forecast metric
+  granularity: ForecastGranularity; // Length of a period
+  method: 'holt-winters' | 'holt';  // Seasonal, or trend-only when history is short
+  seasonLength: number;          // Periods per season (1 without seasonality)
+  parameters: {                  // Smoothing parameters chosen on the history
+    alpha: number;
+    beta: number;
+    gamma: number;
+  };
+  confidenceLevel: number;       // Prediction interval level (percent)
+  history: MetricPoint[];        // Observed periods
+  points: ForecastPoint[];       // Forecast periods
+  recentAverage: number;         // Average of the latest observed periods
+  forecastAverage: number;       // Average of the forecast periods
+  changePercentage: number;      // Forecast average vs recent average
+  backtest: ForecastBacktest | null; // Missing when history is too short to hold periods out
+}
+
+// ============================================================================
+// WEATHER TYPES
+// ============================================================================
+
+export type WeatherCondition = 'sunny' | 'partly-cloudy' | 'cloudy' | 'rainy' | 'snowy' | 'windy';
+
+/**
+ * Adverse weather a day is classified by when measuring impact
+ */
+export type WeatherFactor = 'rain' | 'snow' | 'heat' | 'cold' | 'wind';
+
+/**
+ * Daily weather at a workplace, observed or forecast
+ */
+export interface WeatherObservation {
+  date: string;                  // Day (YYYY-MM-DD)
+  workplaceCode: string;         // Workplace code
+  kind: 'historical' | 'forecast';  // Observed weather, or a forecast for a coming day
+  condition: WeatherCondition;   // Dominant condition of the day
+  temperatureMax: number;        // Daily high (°C)
+  temperatureMin?: number;       // Daily low (°C)
+  precipitationMm: number;       // Rain or snow (mm)
+  windSpeedKmh: number;          // Maximum sustained wind (km/h)
+  source: string;                // Provider ID or file name
+  importId?: string;             // Import the row came from
+}
+
+/**
+ * Weather column a spreadsheet column can be mapped to
+ */
+export type WeatherColumn = 'date' | 'workplaceCode' | 'kind' | 'condition' | 'temperatureMax' | 'temperatureMin' | 'precipitationMm' | 'windSpeedKmh';
+
+/**
+ * Spreadsheet header chosen for each weather column
+ */
+export type WeatherColumnMapping = Partial<Record<WeatherColumn, string>>;
+
+export type WeatherImpactMetric = 'visit-completion' | 'attendance' | 'sales';
+
+/**
+ * Difference in a metric between days with a weather factor and plain days
+ */
+export interface WeatherImpact {
+  factor: WeatherFactor;         // Weather factor
+  metric: WeatherImpactMetric;   // Metric compared
+  scope: 'area' | 'workplace';   // Grouping
+  key: string;                   // Area name or workplace code
+  label: string;                 // Area or workplace name
+  factorDays: number;            // Workplace-days with the factor
+  baselineDays: number;          // Workplace-days without any adverse factor
+  factorValue: number;           // Metric on factor days (percent, or sales per day)
+  baselineValue: number;         // Metric on plain days
+  changePercentage: number;      // Factor vs baseline in percent of baseline
+  significant: boolean;          // Enough days and a clear enough difference to act on
+}
+
+/**
+ * Forecast day on which a significant weather impact is expected
+ */
+export interface WeatherRisk {
+  date: string;                  // Forecast day (YYYY-MM-DD)
+  workplaceCode: string;         // Workplace code
+  workplaceName: string;         // Workplace name
+  areaName: string;              // Area name
+  factors: WeatherFactor[];      // Adverse factors forecast
+  expectedChange: number;        // Worst expected change in visit completion (percent)
+  reschedule: boolean;           // Whether journey plan visits should be moved
+}
+
 // ============================================================================
 // APPROVAL MANAGEMENT TYPES
 // ============================================================================
@@ -2568,6 +4122,53 @@ export interface ApprovalAuditLog {
   newStatus?: ApprovalStatus;    // New request status
 }
 
+/**
+ * Organisation data the approval engine resolves approvers from
+ */
+export interface ApprovalDirectory {
+  members: Member[];             // All members (approvers and requesters)
+  groups: Group[];               // Group hierarchy
+  groupMembers: GroupMember[];   // Group assignments with leader flags
+  delegations?: DelegationInfo[]; // Active approval delegations
+  grants?: PermissionGrant[];    // Explicit permission grants (company-wide approvers)
+}
+
+/**
+ * Runtime state of one workflow step for a specific request
+ */
+export interface ApprovalStepState {
+  stepId: string;                // Workflow step ID
+  stepNumber: number;            // Step order in workflow
+  status: 'waiting' | 'active' | 'approved' | 'rejected' | 'skipped' | 'expired'; // Step status
+  approverIds: string[];         // Member IDs who may act on this step
+  escalationLevel: number;       // Number of times the step was escalated
+  firedEscalations: string[];    // Escalation rule IDs already applied
+  startedAt?: string;            // When the step became active
+  escalatedAt?: string;          // Last escalation timestamp
+  completedAt?: string;          // When the step was decided or skipped
+  decidedBy?: string;            // Member ID or 'system'
+  comment?: string;              // Decision comment or skip reason
+}
+
+/**
+ * An approval request moving through its workflow
+ */
+export interface ApprovalInstance {
+  request: ApprovalRequest;      // Request with current status and step
+  steps: ApprovalStepState[];    // Per-step runtime state, in step order
+  auditLog: ApprovalAuditLog[];  // Every transition, oldest first
+}
+
+/**
+ * A decision taken by an approver on the active step
+ */
+export interface ApprovalDecision {
+  actorId: string;               // Member ID of the approver
+  action: 'approve' | 'reject' | 'delegate' | 'escalate'; // Decision type
+  comment?: string;              // Decision comment
+  delegateTo?: string;           // Member ID to hand the step to (delegate only)
+}
+
 // ============================================================================
 // CHAT AND COMMUNICATION TYPES
 // ============================================================================
@@ -2913,7 +4514,8 @@ export enum QuestionType {
   TRAINING_VERIFICATION = 'training_verification', // Training verification
   EQUIPMENT_CHECK = 'equipment_check',     // Equipment status check
   ENVIRONMENTAL_ASSESSMENT = 'environmental_assessment', // Environmental factors
-  COMPLIANCE_AUDIT = 'compliance_audit'    // Compliance audit checklist
+  COMPLIANCE_AUDIT = 'compliance_audit',   // Compliance audit checklist
+  SHELF_SHARE = 'shelf_share'              // Share-of-shelf and planogram compliance
 }
 
 /**
@@ -2974,6 +4576,25 @@ export interface ConditionalLogic {
   action: 'show' | 'hide' | 'require' | 'skip';
 }
 
+/**
+ * Live state of a question after conditional logic is applied
+ */
+export interface QuestionState {
+  visible: boolean;              // Rendered to the merchandiser
+  required: boolean;             // Must be answered (question or 'require' rule)
+  skipped: boolean;              // Shown as skipped; not validated or submitted
+}
+
+/**
+ * Design-time problem found in a questionnaire's conditional logic
+ */
+export interface QuestionnaireIssue {
+  questionId: string;            // Question that owns the rule or is affected
+  severity: 'error' | 'warning'; // Errors block publishing a template
+  code: 'unsupported_type' | 'missing_reference' | 'self_reference' | 'circular_reference' | 'forward_reference' | 'unreachable' | 'impossible_condition';
+  message: string;               // Human-readable explanation
+}
+
 /**
  * Individual question in a todo
  */
@@ -3062,6 +4683,7 @@ export interface TodoResponse {
   userId: string;
   questionId: string;
   answer: any;
+  shelfShare?: ShelfShareResult; // Computed result for shelf-share questions
   files?: string[]; // File URLs
   metadata?: {
     location?: {
@@ -3146,6 +4768,10 @@ export interface DisplayEvaluationConfig {
   lightingAssessment: boolean;    // Whether lighting assessment is required
   trafficFlowAnalysis: boolean;   // Whether traffic flow analysis is required
   competitorComparison: boolean;  // Whether competitor comparison is required
+  planogram?: PlanogramTarget;    // Target planogram for shelf-share questions
+  ownBrands?: string[];           // Brands counted as our share of shelf
+  shareOfShelfTarget?: number;    // Target own-brand share (0-100)
+  complianceThreshold?: number;   // Minimum planogram compliance score (0-100, default 90)
 }
 
 /**
@@ -3158,6 +4784,45 @@ export interface CompetitorAnalysisConfig {
   requirePhotos: boolean;         // Whether competitor photos are required
   requirePricingData: boolean;    // Whether pricing data is required
   requireProductComparison: boolean; // Whether product comparison is required
+  products?: CompetitorSkuPair[]; // Own SKUs and the competitor SKUs priced against them
+}
+
+/**
+ * Own SKU and the competitor SKU it is priced against
+ */
+export interface CompetitorSkuPair {
+  ownSku: string;                 // Own SKU code
+  ownName: string;                // Own product name
+  competitorSku: string;          // Competitor SKU code
+  competitorBrand: string;        // Competitor brand
+  competitorName: string;         // Competitor product name
+}
+
+export type PromoMechanic = 'none' | 'price-cut' | 'multi-buy' | 'bundle' | 'gift' | 'cashback' | 'display';
+
+/**
+ * Shelf prices and facings of one own / competitor SKU pair
+ */
+export interface CompetitorPriceLine {
+  ownSku: string;                 // Own SKU code
+  ownPrice: number;               // Our shelf price
+  ownFacings: number;             // Our facings
+  competitorSku: string;          // Competitor SKU code
+  competitorBrand: string;        // Competitor brand
+  competitorName?: string;        // Competitor product name
+  shelfPrice: number;             // Competitor regular shelf price
+  promoPrice?: number;            // Competitor price while on promotion
+  promoMechanic: PromoMechanic;   // Competitor promotion mechanic
+  facings: number;                // Competitor facings
+  note?: string;                  // Promotion details or remarks
+}
+
+/**
+ * Answer to a competitor analysis question
+ */
+export interface CompetitorPriceAnswer {
+  lines: CompetitorPriceLine[];   // Priced SKU pairs
+  photos?: string[];              // Photo URLs of the competitor shelf
 }
 
 /**
@@ -3170,6 +4835,122 @@ export interface StoreLayoutConfig {
   spaceUtilization: boolean;      // Whether space utilization is assessed
   accessibilityCheck: boolean;    // Whether accessibility is checked
   safetyCompliance: boolean;      // Whether safety compliance is checked
+  fixtures?: ShelfFixture[];      // Shelving fixtures (bays) that can be measured
+}
+
+/**
+ * A shelving fixture (bay) in a store layout
+ */
+export interface ShelfFixture {
+  id: string;                     // Fixture ID
+  name: string;                   // Display name (e.g. "Aisle 4 - Soft drinks")
+  shelfCount: number;             // Number of shelves, 1 = top shelf
+  widthCm?: number;               // Shelf width in centimeters
+}
+
+/**
+ * Product listed on a planogram
+ */
+export interface PlanogramProduct {
+  sku: string;                    // SKU code
+  name: string;                   // Product name
+  brand: string;                  // Brand name used for share-of-shelf
+  widthCm?: number;               // Facing width for linear share
+}
+
+/**
+ * Expected placement of a SKU on a shelf
+ */
+export interface PlanogramPosition {
+  sku: string;                    // SKU code
+  shelf: number;                  // Shelf number, 1 = top shelf
+  facings: number;                // Expected number of facings
+}
+
+/**
+ * Target planogram for a fixture
+ */
+export interface PlanogramTarget {
+  id: string;                     // Planogram ID
+  name: string;                   // Planogram name
+  fixtureId?: string;             // Fixture the planogram applies to
+  shelfCount: number;             // Number of shelves
+  products: PlanogramProduct[];   // Listed products
+  positions: PlanogramPosition[]; // Expected placements
+}
+
+/**
+ * Facings counted for a SKU on one shelf
+ */
+export interface ShelfFacingCount {
+  sku: string;                    // SKU code (may be a non-listed competitor SKU)
+  brand?: string;                 // Brand for SKUs not on the planogram
+  shelf: number;                  // Shelf number, 1 = top shelf
+  facings: number;                // Facings counted
+}
+
+/**
+ * Box drawn on a shelf photo; coordinates are fractions of the image (0-1)
+ */
+export interface ShelfPhotoBox {
+  id: string;                     // Box ID
+  sku: string | null;             // SKU in the box, null for an empty slot
+  brand?: string;                 // Brand for SKUs not on the planogram
+  shelf: number;                  // Shelf number, 1 = top shelf
+  x: number;                      // Left edge
+  y: number;                      // Top edge
+  width: number;                  // Box width
+  height: number;                 // Box height
+}
+
+/**
+ * Answer to a shelf-share question
+ */
+export interface ShelfMeasurement {
+  method: 'facings' | 'photo';    // How the shelf was captured
+  fixtureId?: string;             // Measured fixture
+  facings: ShelfFacingCount[];    // Counted facings (derived from boxes for photos)
+  photo?: {                       // Marked-up shelf photo
+    url: string;
+    boxes: ShelfPhotoBox[];
+  };
+}
+
+/**
+ * Planogram gap: an out-of-stock or short-faced position
+ */
+export interface ShelfGap {
+  sku: string | null;             // Expected SKU, null for an unassigned empty slot
+  shelf: number;                  // Shelf number
+  expectedFacings: number;        // Facings on the planogram
+  actualFacings: number;          // Facings found
+  type: 'out_of_stock' | 'short' | 'empty_slot'; // Gap type
+}
+
+/**
+ * Computed share-of-shelf and planogram compliance
+ */
+export interface ShelfShareResult {
+  totalFacings: number;           // All facings measured
+  shareByBrand: {                 // Share per brand, largest first
+    brand: string;
+    facings: number;
+    share: number;                // Facing share (0-100)
+    linearShare: number;          // Width-weighted share (0-100)
+  }[];
+  ownShare: number;               // Own-brand facing share (0-100)
+  shareTarget?: number;           // Target own-brand share
+  gaps: ShelfGap[];               // Out-of-stock and short positions
+  misplaced: {                    // Listed SKUs found on the wrong shelf
+    sku: string;
+    expectedShelf: number;
+    actualShelf: number;
+    facings: number;
+  }[];
+  unlistedSkus: string[];         // Own-brand SKUs not on the planogram
+  complianceScore: number;        // Facings in place / facings expected (0-100)
+  isCompliant: boolean;           // Meets compliance threshold and share target
+  calculatedAt: string;           // Calculation timestamp
 }
 
 /**
@@ -3181,6 +4962,37 @@ export interface InventoryCountConfig {
   requirePhotos: boolean;         // Whether photos are required
   requireLocationVerification: boolean; // Whether location verification is required
   requireDiscrepancyReporting: boolean; // Whether discrepancy reporting is required
+  products?: InventoryCountProduct[]; // SKUs to count on the visit
+}
+
+/**
+ * SKU counted on an inventory count question
+ */
+export interface InventoryCountProduct {
+  sku: string;                    // SKU code
+  name: string;                   // Product name
+}
+
+/**
+ * Units counted for one SKU
+ */
+export interface InventoryCountLine {
+  sku: string;                    // SKU code
+  quantity: number;               // Units on hand
+  note?: string;                  // Discrepancy explanation
+}
+
+/**
+ * Answer to an inventory count question
+ */
+export interface InventoryCountAnswer {
+  method: string;                 // Counting method used (one of countMethods)
+  lines: InventoryCountLine[];    // Units counted per SKU
+  photos?: string[];              // Photo URLs of the counted stock
+  location?: {                    // Where the count was taken
+    latitude: number;
+    longitude: number;
+  };
 }
 
 /**
@@ -3192,6 +5004,7 @@ export interface PricingVerificationConfig {
   requirePhotos: boolean;         // Whether photos are required
   requireCompetitorComparison: boolean; // Whether competitor comparison is required
   requirePromotionCheck: boolean; // Whether promotion compliance is checked
+  corridors?: PriceCorridor[];    // Agreed shelf-price corridors for own SKUs
 }
 
 /**